@@ -0,0 +1,39 @@
+-- Bookings table for the D1 booking store (BOOKING_STORE = "d1")
+-- Apply with: wrangler d1 migrations apply ac-shuttle-bookings
+
+CREATE TABLE IF NOT EXISTS bookings (
+  transaction_id      TEXT PRIMARY KEY,
+  idempotency_key     TEXT NOT NULL UNIQUE,
+  submitted_at        TEXT NOT NULL,
+  customer_name       TEXT NOT NULL,
+  customer_email      TEXT NOT NULL,
+  customer_phone      TEXT,
+  start_location      TEXT NOT NULL,
+  end_location        TEXT NOT NULL,
+  pickup_datetime     TEXT NOT NULL,
+  pickup_at           INTEGER,              -- Epoch ms parsed from pickup_datetime, for range queries
+  estimated_distance  TEXT NOT NULL,
+  estimated_duration  TEXT NOT NULL,
+  passengers          INTEGER NOT NULL,
+  notes               TEXT,
+  driver_name         TEXT,
+  driver_email        TEXT,
+  driver_phone        TEXT,
+  status              TEXT NOT NULL DEFAULT 'Pending Review',
+  map_url             TEXT NOT NULL,
+  raw_payload         TEXT NOT NULL,
+  reminder_sent_at    TEXT,
+  updated_at          TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_bookings_status_pickup ON bookings (status, pickup_at);
+
+CREATE TABLE IF NOT EXISTS booking_audit (
+  id              INTEGER PRIMARY KEY AUTOINCREMENT,
+  transaction_id  TEXT NOT NULL,
+  event           TEXT NOT NULL,
+  occurred_at     TEXT NOT NULL,
+  details         TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_audit_transaction ON booking_audit (transaction_id);
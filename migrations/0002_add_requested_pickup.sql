@@ -0,0 +1,4 @@
+-- Pickup time proposed by a customer reschedule request, cleared once the owner decides
+-- Apply with: wrangler d1 migrations apply ac-shuttle-bookings
+
+ALTER TABLE bookings ADD COLUMN requested_pickup_datetime TEXT;
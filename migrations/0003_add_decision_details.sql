@@ -0,0 +1,7 @@
+-- Details recorded with the owner's decision: the denial reason and suggested
+-- alternative pickup shown to the customer, plus an internal note
+-- Apply with: wrangler d1 migrations apply ac-shuttle-bookings
+
+ALTER TABLE bookings ADD COLUMN denial_reason TEXT;
+ALTER TABLE bookings ADD COLUMN alternative_pickup_datetime TEXT;
+ALTER TABLE bookings ADD COLUMN owner_notes TEXT;
@@ -0,0 +1,27 @@
+-- Email outbox: every outgoing email with its delivery status, attempt count
+-- and last error, retried with backoff by the cron until sent or dead
+-- Apply with: wrangler d1 migrations apply ac-shuttle-bookings
+
+CREATE TABLE IF NOT EXISTS email_outbox (
+  id                   TEXT PRIMARY KEY,
+  transaction_id       TEXT,                  -- Booking the email belongs to
+  dedupe_key           TEXT UNIQUE,           -- At most one email per key (e.g. one reminder per pickup)
+  from_address         TEXT NOT NULL,
+  to_address           TEXT NOT NULL,
+  subject              TEXT NOT NULL,
+  html                 TEXT NOT NULL,
+  text                 TEXT NOT NULL,
+  tags                 TEXT,                  -- JSON array
+  status               TEXT NOT NULL DEFAULT 'pending',   -- pending | sent | dead
+  attempts             INTEGER NOT NULL DEFAULT 0,
+  last_error           TEXT,
+  next_attempt_at      INTEGER,               -- Epoch ms; NULL once sent or dead
+  provider             TEXT,
+  provider_message_id  TEXT,                  -- e.g. the Resend message ID
+  created_at           TEXT NOT NULL,
+  sent_at              TEXT,
+  updated_at           TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_outbox_due ON email_outbox (status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_email_outbox_transaction ON email_outbox (transaction_id);
@@ -0,0 +1,8 @@
+-- Delivery status reported by the email provider's webhooks
+-- (delivered | opened | complained | bounced), looked up by provider message ID
+-- Apply with: wrangler d1 migrations apply ac-shuttle-bookings
+
+ALTER TABLE email_outbox ADD COLUMN delivery_status TEXT;
+ALTER TABLE email_outbox ADD COLUMN delivery_updated_at TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_email_outbox_provider_message ON email_outbox (provider_message_id);
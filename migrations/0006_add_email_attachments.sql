@@ -0,0 +1,5 @@
+-- Attachments sent with an outbox email (e.g. the calendar invite), so a
+-- retried email carries the same files
+-- Apply with: wrangler d1 migrations apply ac-shuttle-bookings
+
+ALTER TABLE email_outbox ADD COLUMN attachments TEXT;   -- JSON array of {filename, content, contentType}
@@ -0,0 +1,14 @@
+-- Driver roster and the driver assigned to each booking on acceptance
+-- Apply with: wrangler d1 migrations apply ac-shuttle-bookings
+
+CREATE TABLE IF NOT EXISTS drivers (
+  id          TEXT PRIMARY KEY,
+  name        TEXT NOT NULL,
+  email       TEXT NOT NULL,
+  phone       TEXT,
+  active      INTEGER NOT NULL DEFAULT 1,   -- 0 once deactivated; drivers are never deleted
+  created_at  TEXT NOT NULL,
+  updated_at  TEXT NOT NULL
+);
+
+ALTER TABLE bookings ADD COLUMN driver_id TEXT;
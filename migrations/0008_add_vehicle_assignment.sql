@@ -0,0 +1,5 @@
+-- Fleet vehicle assigned to each booking on acceptance (see VEHICLE_FLEET)
+-- Apply with: wrangler d1 migrations apply ac-shuttle-bookings
+
+ALTER TABLE bookings ADD COLUMN vehicle_id TEXT;
+ALTER TABLE bookings ADD COLUMN vehicle_name TEXT;
@@ -0,0 +1,6 @@
+-- Ride quote stored with each booking at submission (see PRICING_* settings)
+-- quote holds the itemized quote as JSON; quote_total is in cents for reporting
+-- Apply with: wrangler d1 migrations apply ac-shuttle-bookings
+
+ALTER TABLE bookings ADD COLUMN quote TEXT;
+ALTER TABLE bookings ADD COLUMN quote_total INTEGER;
@@ -0,0 +1,8 @@
+-- Round trips: both legs share a reservation_id (the outbound transaction_id)
+-- trip_leg is "outbound" or "return"; both are NULL for one-way rides
+-- Apply with: wrangler d1 migrations apply ac-shuttle-bookings
+
+ALTER TABLE bookings ADD COLUMN reservation_id TEXT;
+ALTER TABLE bookings ADD COLUMN trip_leg TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_reservation_id ON bookings (reservation_id);
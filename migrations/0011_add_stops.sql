@@ -0,0 +1,5 @@
+-- Multi-stop itineraries: intermediate stops between pickup and drop-off, in order
+-- JSON array of {"address": "...", "waitMinutes": 15 | null}; NULL for a direct ride
+-- Apply with: wrangler d1 migrations apply ac-shuttle-bookings
+
+ALTER TABLE bookings ADD COLUMN stops TEXT;
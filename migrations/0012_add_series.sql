@@ -0,0 +1,8 @@
+-- Recurring bookings: every ride of a series shares a series_id (the first ride's transaction_id)
+-- recurrence is the series' rule in canonical RRULE form; both are NULL for single rides
+-- Apply with: wrangler d1 migrations apply ac-shuttle-bookings
+
+ALTER TABLE bookings ADD COLUMN series_id TEXT;
+ALTER TABLE bookings ADD COLUMN recurrence TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_series_id ON bookings (series_id);
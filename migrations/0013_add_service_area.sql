@@ -0,0 +1,5 @@
+-- Service-area zones: where the trip was at submission, checked against SERVICE_ZONES
+-- 'in-zone' | 'out-of-zone' | 'requires-review'; NULL when no zones were configured
+-- Apply with: wrangler d1 migrations apply ac-shuttle-bookings
+
+ALTER TABLE bookings ADD COLUMN service_area TEXT;
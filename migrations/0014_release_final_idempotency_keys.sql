@@ -0,0 +1,71 @@
+-- Idempotency keys are only unique among live bookings: once a booking is
+-- Denied, Cancelled, Completed or No-Show, the same request can be booked again
+-- SQLite cannot drop a column's UNIQUE constraint, so the table is rebuilt
+-- Apply with: wrangler d1 migrations apply ac-shuttle-bookings
+
+CREATE TABLE bookings_new (
+  transaction_id               TEXT PRIMARY KEY,
+  idempotency_key              TEXT NOT NULL,
+  submitted_at                 TEXT NOT NULL,
+  customer_name                TEXT NOT NULL,
+  customer_email               TEXT NOT NULL,
+  customer_phone               TEXT,
+  start_location               TEXT NOT NULL,
+  end_location                 TEXT NOT NULL,
+  pickup_datetime              TEXT NOT NULL,
+  pickup_at                    INTEGER,              -- Epoch ms parsed from pickup_datetime, for range queries
+  estimated_distance           TEXT NOT NULL,
+  estimated_duration           TEXT NOT NULL,
+  passengers                   INTEGER NOT NULL,
+  notes                        TEXT,
+  driver_name                  TEXT,
+  driver_email                 TEXT,
+  driver_phone                 TEXT,
+  status                       TEXT NOT NULL DEFAULT 'Pending Review',
+  map_url                      TEXT NOT NULL,
+  raw_payload                  TEXT NOT NULL,
+  reminder_sent_at             TEXT,
+  updated_at                   TEXT NOT NULL,
+  requested_pickup_datetime    TEXT,
+  denial_reason                TEXT,
+  alternative_pickup_datetime  TEXT,
+  owner_notes                  TEXT,
+  driver_id                    TEXT,
+  vehicle_id                   TEXT,
+  vehicle_name                 TEXT,
+  quote                        TEXT,
+  quote_total                  INTEGER,
+  reservation_id               TEXT,
+  trip_leg                     TEXT,
+  stops                        TEXT,
+  series_id                    TEXT,
+  recurrence                   TEXT,
+  service_area                 TEXT
+);
+
+INSERT INTO bookings_new (
+  transaction_id, idempotency_key, submitted_at, customer_name, customer_email, customer_phone,
+  start_location, end_location, pickup_datetime, pickup_at, estimated_distance, estimated_duration,
+  passengers, notes, driver_name, driver_email, driver_phone, status, map_url, raw_payload,
+  reminder_sent_at, updated_at, requested_pickup_datetime, denial_reason, alternative_pickup_datetime,
+  owner_notes, driver_id, vehicle_id, vehicle_name, quote, quote_total, reservation_id, trip_leg,
+  stops, series_id, recurrence, service_area
+)
+SELECT
+  transaction_id, idempotency_key, submitted_at, customer_name, customer_email, customer_phone,
+  start_location, end_location, pickup_datetime, pickup_at, estimated_distance, estimated_duration,
+  passengers, notes, driver_name, driver_email, driver_phone, status, map_url, raw_payload,
+  reminder_sent_at, updated_at, requested_pickup_datetime, denial_reason, alternative_pickup_datetime,
+  owner_notes, driver_id, vehicle_id, vehicle_name, quote, quote_total, reservation_id, trip_leg,
+  stops, series_id, recurrence, service_area
+FROM bookings;
+
+DROP TABLE bookings;
+ALTER TABLE bookings_new RENAME TO bookings;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_status_pickup ON bookings (status, pickup_at);
+CREATE INDEX IF NOT EXISTS idx_bookings_reservation_id ON bookings (reservation_id);
+CREATE INDEX IF NOT EXISTS idx_bookings_series_id ON bookings (series_id);
+CREATE INDEX IF NOT EXISTS idx_bookings_idempotency_key ON bookings (idempotency_key, submitted_at);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bookings_live_idempotency_key ON bookings (idempotency_key)
+  WHERE status NOT IN ('Denied', 'Cancelled', 'Completed', 'No-Show');
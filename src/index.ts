@@ -3,22 +3,132 @@
  *
  * A simplified, enterprise-grade booking system that handles:
  * - Server-to-server API key authentication
- * - Google Sheets integration with retry and verification
- * - Professional email notifications via Resend
- * - Accept/Deny workflow with secure tokens
+ * - Pluggable booking storage (Google Sheets, Cloudflare D1, in-memory)
+ * - Professional email notifications via Resend, with Postmark or SMTP-relay failover
+ * - Email outbox in D1 or Google Sheets, with failed sends retried by the Cron Trigger
+ * - Accept/Deny workflow with secure tokens, denial reasons and suggested alternative times
+ * - Booking lifecycle (cancel, reschedule, trip progress) with per-transition notifications
+ * - Customer self-service cancellation and reschedule requests via signed links
+ * - Scheduled trip reminders via Cron Trigger
+ * - Calendar invites (.ics) on confirmations and reminders, cancelled with the booking
+ * - Resend delivery webhooks (delivered/bounced/complained/opened) with bounce alerts, recorded in a durable outbox
+ * - Owner iCal subscription feed of upcoming confirmed rides
+ * - Booking rules (lead time, advance window, hours, blackout dates) enforced and published
+ * - Driver roster with per-booking assignment on acceptance and driver job emails
+ * - Vehicle fleet with passenger-capacity checks and per-booking vehicle assignment
+ * - Ride pricing, with quotes stored on bookings, shown in emails and served at POST /quote
+ * - Round trips booked as two linked legs under one reservation, decided together
+ * - Multi-stop itineraries, routed through the map link and listed in emails
+ * - Recurring bookings approved as one series, with per-ride skip and cancellation
+ * - Service-area zones, with out-of-zone requests rejected or flagged for the owner
  *
  * @version 3.0.0
  */
 
-import { validateRequest, SecurityEnv, SecurityResult } from "./layers/security";
+import {
+  validateRequest,
+  validateDriverPayload,
+  validateQuotePayload,
+  authenticateRequest,
+  authenticateCalendarFeed,
+  loadBookingRules,
+  checkPickupRules,
+  describeBookingRules,
+  loadFleet,
+  maxPassengers,
+  vehiclesForPassengers,
+  findVehicle,
+  describeVehicleCapacity,
+  describeFleet,
+  describeRecurrence,
+  loadServiceArea,
+  describeServiceArea,
+  parseRecurrenceRule,
+  createActionToken,
+  verifyActionToken,
+  issueCsrfToken,
+  verifyCsrfToken,
+  verifyWebhookSignature,
+  isSameOrigin,
+  CSRF_FIELD_NAME,
+  SecurityEnv,
+  SecurityResult,
+  BookingPayload,
+  ActionTokenEnv,
+  ActionTokenFailure,
+  WebhookSignatureEnv,
+  CalendarFeedEnv,
+  DriverPayload,
+  BookingRules,
+  Fleet,
+  Vehicle,
+  ServiceAreaStatus,
+} from "./layers/security";
 import {
   handleSubmission,
-  checkAndUpdateBookingStatus,
+  transitionBookingStatus,
   fetchBookingDetails,
+  fetchBookingPayload,
+  findBookingsDueForReminder,
+  findUpcomingBookings,
+  findBookingConflicts,
+  findRideConflicts,
+  findReturnLeg,
+  findSeriesRides,
+  conflictPolicy,
+  markReminderSent,
+  recordBookingEvent,
+  checkSelfCancellation,
+  checkSelfReschedule,
+  listDrivers,
+  getDriver,
+  addDriver,
+  updateDriver,
+  driverAssignmentChanges,
+  quoteBooking,
+  formatMoney,
+  findTransitionHooks,
+  isBookingStatus,
+  transitionKey,
+  BOOKING_STATUSES,
+  CONFIRMED_STATUSES,
+  OPERATIONAL_STATUSES,
+  DEFAULT_STATUS,
+  BookingNotFoundError,
+  InvalidTransitionError,
   CoordinationEnv,
   CoordinationResult,
   SubmissionSummary,
+  BookingChanges,
+  BookingConflict,
+  BookingDetails,
+  BookingRecord,
+  ConflictPolicy,
+  Driver,
+  ItineraryStop,
+  OwnerNotificationContext,
+  Quote,
+  TransitionEvent,
+  TransitionHookTable,
+  TransitionResult,
 } from "./layers/coordination";
+import {
+  createEmailTransport,
+  type EmailAttachment,
+  type EmailMessage,
+  type EmailSendResult,
+} from "./integrations/emailTransport";
+import {
+  checkOutboxDurability,
+  hasDurableOutbox,
+  processOutbox,
+  recordDeliveryEvent,
+  sendWithOutbox,
+  EmailDeliveryError,
+  type DeliveryStatus,
+  type OutboxEmail,
+  type OutboxEnv,
+} from "./layers/outbox";
 import {
   generateOwnerNotificationEmail,
   generateOwnerDeliveryNotificationEmail,
@@ -26,26 +136,113 @@ import {
   generateCustomerDenialEmail,
   generateCustomerSubmissionAckEmail,
   generateCustomerReminderEmail,
+  generateOwnerCancellationEmail,
+  generateOwnerDeliveryFailureEmail,
+  generateOwnerBounceAlertEmail,
+  generateCustomerCancellationEmail,
+  generateDriverAssignmentEmail,
   formatPickupDateTime,
   type OwnerNotificationData,
+  type ScheduleConflict,
+  type ServiceAreaWarning,
   type OwnerDeliveryNotificationData,
   type CustomerConfirmationData,
   type CustomerDenialData,
   type CustomerReminderData,
   type CustomerSubmissionAckData,
+  type OwnerCancellationData,
+  type OwnerDeliveryFailureData,
+  type OwnerBounceAlertData,
+  type QuoteSummary,
+  type ReturnTripSummary,
+  type SeriesRideSummary,
+  type SeriesSummary,
+  type CustomerCancellationData,
+  type DriverAssignmentData,
 } from "./templates/emails";
+import {
+  businessTimeZone,
+  formatDateTimeLocal,
+  formatZonedIso,
+  normalizePickupDateTime,
+  parsePickupDateTime,
+} from "./time/businessTime";
+import {
+  generateBookingCalendarInvite,
+  calendarSequence,
+  generateBookingsCalendarFeed,
+  type CalendarMethod,
+} from "./templates/calendar";
+
+const MAX_CANCELLATION_REASON_LENGTH = 500;
+const MAX_DENIAL_REASON_LENGTH = 200;
+const MAX_OWNER_NOTES_LENGTH = 500;
+// Matches the second cron in wrangler.toml
+const OUTBOX_RETRY_CRON = "*/5 * * * *";
+
+// Rides stay in the owner's feed this long after pickup, so a trip in progress does not vanish
+const CALENDAR_FEED_PAST_HOURS = 12;
+const CALENDAR_FEED_REFRESH_MINUTES = 15;
+
+// Resend webhook event types we record; the rest (sent, clicked, delayed) are acknowledged and ignored
+const RESEND_DELIVERY_EVENTS: Record<string, DeliveryStatus> = {
+  "email.delivered": "delivered",
+  "email.opened": "opened",
+  "email.complained": "complained",
+  "email.bounced": "bounced",
+};
+
+interface ResendWebhookEvent {
+  type?: string;
+  created_at?: string;
+  data?: {
+    email_id?: string;
+    bounce?: { type?: string; subType?: string; message?: string };
+  };
+}
+
+/**
+ * Denial reasons offered on the decision page
+ * `customerText` completes the denial email's "...unable to accommodate your
+ * ride request at this time due to ___"; "custom" takes the owner's own text.
+ */
+type DenialReasonCode = "fully_booked" | "outside_service_area" | "short_notice" | "custom";
+
+const DENIAL_REASONS: Record<DenialReasonCode, { label: string; customerText: string | null }> = {
+  fully_booked: { label: "Fully booked", customerText: "being fully booked at that time" },
+  outside_service_area: { label: "Outside service area", customerText: "the trip being outside our service area" },
+  short_notice: { label: "Too short notice", customerText: "the short notice for this trip" },
+  custom: { label: "Other (write your own)", customerText: null },
+};
+
+/**
+ * Legs of a round trip the owner accepts: "both", or "outbound" to decline the return leg
+ */
+type DecisionLegs = "both" | "outbound";
 
-const RESEND_API_URL = "https://api.resend.com/emails";
+// Recorded on a return leg declined while its outbound ride was accepted
+const RETURN_LEG_DECLINED_REASON = "the return ride not being available";
+
+// Recorded on a ride the owner skipped when accepting a recurring series
+const SERIES_RIDE_SKIPPED_REASON = "this date not being available";
+
+// Accept-page checkboxes named skip_<transactionId> leave that ride out of the series
+const SKIP_RIDE_FIELD_PREFIX = "skip_";
+
+// Series rides that are no longer booked
+const INACTIVE_RIDE_STATUSES: readonly string[] = ["Denied", "Cancelled", "Completed", "No-Show"];
 
 // Combined environment interface
-interface Env extends SecurityEnv, CoordinationEnv {
-  RESEND_API_KEY: string;
+interface Env extends SecurityEnv, CoordinationEnv, ActionTokenEnv, OutboxEnv, WebhookSignatureEnv, CalendarFeedEnv {
   CUSTOMER_FROM_EMAIL: string;
   OWNER_EMAIL: string;
   WORKER_URL?: string;
   RESEND_DRY_RUN?: string;
   VERBOSE_LOGGING?: string;
-  // Driver contact information for customer emails
+  REMINDER_WINDOW_HOURS?: string;
+  CANCELLATION_CUTOFF_HOURS?: string;
+  RESCHEDULE_CUTOFF_HOURS?: string;
+  // Default driver for customer emails, until one is assigned from the roster
   DRIVER_CONTACT_NAME?: string;
   DRIVER_CONTACT_PHONE?: string;
   DRIVER_CONTACT_EMAIL?: string;
@@ -63,6 +260,7 @@ const logger = {
 
 export default {
   async fetch(request: Request, env: Env): Promise<Response> {
+    checkOutboxDurability(env);
     const url = new URL(request.url);
 
     // Route: Health check
@@ -85,6 +283,61 @@ export default {
       return handleOwnerDecision(request, env, "Denied");
     }
 
+    // Route: Customer self-service cancellation
+    if (url.pathname.startsWith("/cancel/")) {
+      return handleCustomerCancel(request, env);
+    }
+
+    // Route: Customer reschedule request
+    if (url.pathname.startsWith("/reschedule/")) {
+      return handleCustomerReschedule(request, env);
+    }
+
+    // Route: Approve a requested pickup time
+    if (url.pathname.startsWith("/approve-reschedule/")) {
+      return handleRescheduleDecision(request, env, "approve");
+    }
+
+    // Route: Decline a requested pickup time
+    if (url.pathname.startsWith("/decline-reschedule/")) {
+      return handleRescheduleDecision(request, env, "decline");
+    }
+
+    // Route: Customer books the alternative time suggested with a denial
+    if (url.pathname.startsWith("/book-alternative/")) {
+      return handleBookAlternative(request, env);
+    }
+
+    // Route: Email delivery events from Resend
+    if (url.pathname === "/webhooks/resend") {
+      return handleResendWebhook(request, env);
+    }
+
+    // Route: Owner calendar subscription feed
+    if (/^\/calendar\/[^/]+\.ics$/.test(url.pathname)) {
+      return handleCalendarFeed(request, env);
+    }
+
+    // Route: Operational status change (server-to-server)
+    if (/^\/bookings\/[^/]+\/status$/.test(url.pathname)) {
+      return handleStatusChange(request, env);
+    }
+
+    // Route: Driver roster administration (server-to-server)
+    if (/^\/drivers(\/[^/]+)?$/.test(url.pathname)) {
+      return handleDrivers(request, env);
+    }
+
+    // Route: Booking rules for pre-validation (server-to-server)
+    if (url.pathname === "/booking-rules") {
+      return handleBookingRules(request, env);
+    }
+
+    // Route: Price a ride before booking (server-to-server)
+    if (url.pathname === "/quote") {
+      return handleQuote(request, env);
+    }
+
     // Route: Create booking (default)
     if (url.pathname === "/" || url.pathname === "/booking") {
       return handleBookingRequest(request, env);
@@ -93,6 +346,22 @@ export default {
     // Unknown route
     return Response.json({ ok: false, error: "Not found" }, { status: 404 });
   },
+
+  async scheduled(controller: ScheduledController, env: Env): Promise<void> {
+    checkOutboxDurability(env);
+
+    // The frequent outbox trigger only retries emails; every other trigger also sends reminders
+    if (controller.cron === OUTBOX_RETRY_CRON) {
+      await retryOutboxEmails(env, controller.scheduledTime);
+      return;
+    }
+
+    try {
+      await dispatchReminders(env, controller.scheduledTime);
+    } finally {
+      await retryOutboxEmails(env, controller.scheduledTime);
+    }
+  },
 };
 
 /**
@@ -135,59 +404,39 @@ async function handleBookingRequest(request: Request, env: Env): Promise<Respons
     return Response.json({ ok: false, error: "Failed to process booking" }, { status: 500 });
   }
 
-  const { summary } = coordination;
+  const { summary, returnLeg, series } = coordination;
+  const dryRun = env.RESEND_DRY_RUN?.toLowerCase() === "true";
+
+  // Replay the original response for a duplicate submission without re-sending emails
+  if (coordination.duplicate) {
+    logger.info("booking.duplicate", {
+      requestId,
+      transactionId: summary.transactionId.slice(0, 12),
+    });
+    return Response.json({
+      ok: true,
+      transactionId: summary.transactionId,
+      dryRun,
+      receivedAt: summary.submittedAt,
+      quote: summary.quote,
+      ...roundTripResponseFields(summary, returnLeg),
+      ...seriesResponseFields(summary, series),
+      duplicate: true,
+    });
+  }
 
   logger.info("booking.persisted", {
     requestId,
     transactionId: summary.transactionId.slice(0, 12),
     customer: summary.customerName,
     route: `${summary.startLocation} → ${summary.endLocation}`,
+    roundTrip: Boolean(returnLeg),
+    seriesRides: series.length,
   });
 
   // 3. Send emails (if not dry run)
-  // Flow: Owner notification first, customer acknowledgment only after owner email succeeds
-  const dryRun = env.RESEND_DRY_RUN?.toLowerCase() === "true";
-
   if (!dryRun) {
-    let ownerEmailSent = false;
-
-    // Send owner notification first
-    try {
-      await sendOwnerNotification(summary, env);
-      ownerEmailSent = true;
-      logger.info("booking.owner_email.sent", {
-        requestId,
-        transactionId: summary.transactionId.slice(0, 12),
-      });
-    } catch (error) {
-      logger.error("booking.owner_email.failed", {
-        requestId,
-        error: error instanceof Error ? error.message : String(error),
-      });
-      // Don't fail the request if email fails - booking is already saved
-    }
-
-    // Only send customer acknowledgment AFTER owner email is successfully delivered
-    // This ensures the customer only gets notified once we know the owner has been notified
-    if (ownerEmailSent) {
-      try {
-        await sendCustomerAcknowledgment(summary, env);
-        logger.info("booking.customer_ack.sent", {
-          requestId,
-          transactionId: summary.transactionId.slice(0, 12),
-        });
-      } catch (error) {
-        logger.warn("booking.customer_ack.failed", {
-          requestId,
-          error: error instanceof Error ? error.message : String(error),
-        });
-      }
-    } else {
-      logger.warn("booking.customer_ack.skipped", {
-        requestId,
-        reason: "Owner notification failed - customer acknowledgment not sent",
-      });
-    }
+    await sendNewBookingNotifications(summary, env, requestId, returnLeg, series);
   }
 
   logger.info("booking.complete", {
@@ -201,116 +450,269 @@ async function handleBookingRequest(request: Request, env: Env): Promise<Respons
     transactionId: summary.transactionId,
     dryRun,
     receivedAt,
+    quote: summary.quote,
+    ...roundTripResponseFields(summary, returnLeg),
+    ...seriesResponseFields(summary, series),
   });
 }
 
+/**
+ * Reservation and return-leg fields added to the booking response for a round trip
+ */
+function roundTripResponseFields(
+  summary: SubmissionSummary,
+  returnLeg: SubmissionSummary | null
+): { reservationId?: string | null; returnLeg?: { transactionId: string; pickupDatetime: string; quote: Quote | null } } {
+  if (!returnLeg) {
+    return {};
+  }
+  return {
+    reservationId: summary.reservationId,
+    returnLeg: {
+      transactionId: returnLeg.transactionId,
+      pickupDatetime: returnLeg.pickupDatetime,
+      quote: returnLeg.quote,
+    },
+  };
+}
+
+/**
+ * Series fields added to the booking response for a recurring booking
+ */
+function seriesResponseFields(
+  summary: SubmissionSummary,
+  series: SubmissionSummary[]
+): { seriesId?: string | null; series?: Array<{ transactionId: string; pickupDatetime: string; quote: Quote | null }> } {
+  if (series.length === 0) {
+    return {};
+  }
+  return {
+    seriesId: summary.seriesId,
+    series: series.map(ride => ({
+      transactionId: ride.transactionId,
+      pickupDatetime: ride.pickupDatetime,
+      quote: ride.quote,
+    })),
+  };
+}
+
+/**
+ * Email the owner about a new booking request, then acknowledge it to the customer
+ *
+ * Flow: Owner notification first, customer acknowledgment only after owner email succeeds.
+ * A round trip gets one email of each covering both legs, and a recurring
+ * series one of each listing every ride.
+ * Failures are logged - the booking is already saved.
+ */
+async function sendNewBookingNotifications(
+  summary: SubmissionSummary,
+  env: Env,
+  requestId: string,
+  returnLeg: SubmissionSummary | null = null,
+  series: SubmissionSummary[] = []
+): Promise<void> {
+  let ownerEmailSent = false;
+
+  // Send owner notification first
+  try {
+    await sendOwnerNotification(summary, env, returnLeg, series);
+    ownerEmailSent = true;
+    logger.info("booking.owner_email.sent", {
+      requestId,
+      transactionId: summary.transactionId.slice(0, 12),
+    });
+  } catch (error) {
+    logger.error("booking.owner_email.failed", {
+      requestId,
+      error: error instanceof Error ? error.message : String(error),
+      willRetry: isQueuedForRetry(error),
+    });
+  }
+
+  // Only send customer acknowledgment AFTER owner email is successfully delivered
+  // This ensures the customer only gets notified once we know the owner has been notified
+  if (ownerEmailSent) {
+    try {
+      await sendCustomerAcknowledgment(summary, env, returnLeg, series);
+      logger.info("booking.customer_ack.sent", {
+        requestId,
+        transactionId: summary.transactionId.slice(0, 12),
+      });
+    } catch (error) {
+      logger.warn("booking.customer_ack.failed", {
+        requestId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  } else {
+    logger.warn("booking.customer_ack.skipped", {
+      requestId,
+      reason: "Owner notification failed - customer acknowledgment not sent",
+    });
+  }
+}
+
 /**
  * Handle owner accept/deny decision
+ *
+ * GET renders a review page only, so mail scanners and link previews that
+ * prefetch the URL cannot change the booking. The status update happens on
+ * the CSRF-protected POST submitted from that page, which also carries the
+ * owner's notes and, for a denial, the reason and an optional alternative time.
+ * For a round trip the decision covers both legs; `legs=outbound` on the accept
+ * link pre-selects accepting the outbound ride only. For a recurring series it
+ * covers every pending ride, less any the owner ticks to skip.
  */
 async function handleOwnerDecision(
   request: Request,
   env: Env,
   decision: "Accepted" | "Denied"
 ): Promise<Response> {
+  if (request.method !== "GET" && request.method !== "POST") {
+    return new Response("Method not allowed", { status: 405, headers: { Allow: "GET, POST" } });
+  }
+
   const url = new URL(request.url);
-  const transactionId = url.pathname.split("/")[2];
+  const token = decodePathSegment(url.pathname.split("/")[2] ?? "");
+
+  if (!env.ACTION_SIGNING_SECRET) {
+    logger.error("decision.config_error", { error: "Missing ACTION_SIGNING_SECRET" });
+    return renderErrorPage("Error", "An error occurred processing your request.", 500);
+  }
+
+  const verification = await verifyActionToken(
+    env,
+    token,
+    decision === "Accepted" ? "accept" : "deny"
+  );
+
+  if (!verification.valid) {
+    logger.warn("decision.token_rejected", { decision, reason: verification.reason });
+    return renderInvalidTokenPage(verification.reason);
+  }
+
+  const transactionId = verification.claims.tid;
+
+  if (request.method === "GET") {
+    return showDecisionReview(token, transactionId, decision, env, undefined, readDecisionLegs(url.searchParams.get("legs")));
+  }
+
+  if (!isSameOrigin(request)) {
+    logger.warn("decision.csrf_rejected", { transactionId: transactionId.slice(0, 12), reason: "origin" });
+    return renderErrorPage("Request Blocked", "This form must be submitted from the booking review page.", 403);
+  }
+
+  const form = await readFormFields(request);
+  const csrfValid = await verifyCsrfToken(env.ACTION_SIGNING_SECRET, token, request, form[CSRF_FIELD_NAME] ?? null);
+  if (!csrfValid) {
+    logger.warn("decision.csrf_rejected", { transactionId: transactionId.slice(0, 12), reason: "token" });
+    return renderErrorPage(
+      "Request Blocked",
+      "This confirmation form has expired. Please open the link from your notification email again.",
+      403
+    );
+  }
+
+  const legs = readDecisionLegs(form.legs);
+  const skipped = readSkippedRides(form);
+  const chosenDriverId = (form.driver_id ?? "").trim() || null;
+  const details = readDecisionDetails(form, decision, loadBookingRules(env));
+  if ("error" in details) {
+    logger.info("decision.invalid_details", { transactionId: transactionId.slice(0, 12), decision });
+    return showDecisionReview(token, transactionId, decision, env, details.error, legs, skipped, chosenDriverId);
+  }
+
+  if (decision === "Accepted") {
+    const assignment = await readDriverAssignment(transactionId, form, env);
+    if ("error" in assignment) {
+      logger.info("decision.invalid_driver", { transactionId: transactionId.slice(0, 12) });
+      return showDecisionReview(token, transactionId, decision, env, assignment.error, legs, skipped, chosenDriverId);
+    }
+    Object.assign(details.changes, assignment.changes);
+
+    const vehicleAssignment = await readVehicleAssignment(transactionId, form, env);
+    if ("error" in vehicleAssignment) {
+      logger.info("decision.invalid_vehicle", { transactionId: transactionId.slice(0, 12) });
+      return showDecisionReview(token, transactionId, decision, env, vehicleAssignment.error, legs, skipped, chosenDriverId);
+    }
+    Object.assign(details.changes, vehicleAssignment.changes);
+  }
+
+  const conflictCheck = decision === "Accepted"
+    ? await checkAcceptConflicts(transactionId, form, env, details.changes.driverId ?? null)
+    : { overridden: [] };
+  if (conflictCheck.error) {
+    logger.info("decision.conflict_refused", { transactionId: transactionId.slice(0, 12), policy: conflictPolicy(env) });
+    return showDecisionReview(token, transactionId, decision, env, conflictCheck.error, legs, skipped, chosenDriverId);
+  }
 
-  if (!transactionId || transactionId.length < 8) {
-    return renderErrorPage("Invalid Request", "The booking link is invalid.");
+  const returnConflictCheck = decision === "Accepted" && legs === "both"
+    ? await checkReturnLegConflicts(transactionId, form, env, details.changes.driverId ?? null)
+    : { overridden: [] };
+  if (returnConflictCheck.error) {
+    logger.info("decision.return_leg_conflict_refused", { transactionId: transactionId.slice(0, 12), policy: conflictPolicy(env) });
+    return showDecisionReview(token, transactionId, decision, env, returnConflictCheck.error, legs, skipped, chosenDriverId);
+  }
+
+  const seriesConflictCheck = decision === "Accepted"
+    ? await checkSeriesConflicts(transactionId, form, env, details.changes.driverId ?? null, skipped)
+    : { blocked: new Set<string>(), overridden: new Map<string, BookingConflict[]>() };
+  if (seriesConflictCheck.error) {
+    logger.info("decision.series_conflict_refused", { transactionId: transactionId.slice(0, 12), policy: conflictPolicy(env) });
+    return showDecisionReview(token, transactionId, decision, env, seriesConflictCheck.error, legs, skipped, chosenDriverId);
   }
 
   logger.info("decision.attempt", {
     transactionId: transactionId.slice(0, 12),
     decision,
+    withReason: Boolean(details.changes.denialReason),
+    withAlternative: Boolean(details.changes.alternativePickupDatetime),
+    driverId: details.changes.driverId,
+    vehicleId: details.changes.vehicleId,
+    seriesRidesSkipped: skipped.size,
+    seriesRidesBlocked: seriesConflictCheck.blocked.size,
   });
 
   try {
-    // Update status in Google Sheets
-    const result = await checkAndUpdateBookingStatus(transactionId, decision, env);
-
-    if (!result.updated) {
-      // Already processed
-      const booking = await fetchBookingDetails(transactionId, env);
-      return renderAlreadyProcessedPage(result.currentStatus || "Unknown", booking);
+    let transition: TransitionResult;
+    try {
+      transition = await transitionBookingStatus(transactionId, decision, env, details);
+    } catch (error) {
+      if (error instanceof InvalidTransitionError) {
+        // Already processed
+        const booking = await fetchBookingDetails(transactionId, env);
+        return renderAlreadyProcessedPage(error.from, booking);
+      }
+      if (error instanceof BookingNotFoundError) {
+        logger.error("decision.booking_not_found", { transactionId: transactionId.slice(0, 12) });
+        return renderErrorPage("Booking Not Found", "Could not find booking details.");
+      }
+      throw error;
     }
 
-    // Fetch booking details for email
-    const booking = await fetchBookingDetails(transactionId, env);
-
-    if (!booking) {
-      logger.error("decision.booking_not_found", { transactionId: transactionId.slice(0, 12) });
-      return renderErrorPage("Booking Not Found", "Could not find booking details.");
+    if (conflictCheck.overridden.length > 0) {
+      await recordConflictOverride(transactionId, conflictCheck.overridden, env);
     }
 
-    // Send customer notification (if not dry run)
-    const dryRun = env.RESEND_DRY_RUN?.toLowerCase() === "true";
-    if (!dryRun) {
-      try {
-        if (decision === "Accepted") {
-          // Send confirmation email
-          await sendCustomerConfirmation(booking, env);
-          logger.info("decision.customer_confirmation.sent", {
-            transactionId: transactionId.slice(0, 12),
-          });
+    // Before notifying, so the customer's email reflects the return leg's and series' new status
+    await decideReturnLeg(transition.booking, decision, legs, details, returnConflictCheck.overridden, env);
+    await decideSeries(
+      transition.booking,
+      decision,
+      new Set([...skipped, ...seriesConflictCheck.blocked]),
+      details,
+      seriesConflictCheck.overridden,
+      env
+    );
 
-          // Check if trip is within 24 hours - if so, send reminder immediately
-          const tripWithin24Hours = isTripWithin24Hours(booking.pickupDatetime);
-          if (tripWithin24Hours) {
-            try {
-              await sendCustomerReminder(booking, env);
-              logger.info("decision.customer_reminder.sent", {
-                transactionId: transactionId.slice(0, 12),
-                reason: "Trip within 24 hours of confirmation",
-              });
-            } catch (reminderError) {
-              // Don't fail if reminder fails - confirmation was sent
-              logger.warn("decision.customer_reminder.failed", {
-                transactionId: transactionId.slice(0, 12),
-                error: reminderError instanceof Error ? reminderError.message : String(reminderError),
-              });
-            }
-          } else {
-            logger.info("decision.customer_reminder.scheduled", {
-              transactionId: transactionId.slice(0, 12),
-              note: "Reminder will be sent within 24 hours of trip",
-            });
-          }
-        } else {
-          await sendCustomerDenial(booking, env);
-        }
-        logger.info("decision.customer_email.sent", {
-          transactionId: transactionId.slice(0, 12),
-          decision,
-        });
-
-        // Send owner delivery confirmation
-        try {
-          await sendOwnerDeliveryNotification(booking, decision, env);
-          logger.info("decision.owner_delivery.sent", {
-            transactionId: transactionId.slice(0, 12),
-            decision,
-          });
-        } catch (deliveryError) {
-          // Don't fail if owner delivery notification fails - customer already notified
-          logger.warn("decision.owner_delivery.failed", {
-            transactionId: transactionId.slice(0, 12),
-            error: deliveryError instanceof Error ? deliveryError.message : String(deliveryError),
-          });
-        }
-      } catch (error) {
-        logger.error("decision.customer_email.failed", {
-          transactionId: transactionId.slice(0, 12),
-          error: error instanceof Error ? error.message : String(error),
-        });
-      }
-    }
+    await notifyTransition(transition, env);
 
     logger.info("decision.complete", {
       transactionId: transactionId.slice(0, 12),
       decision,
     });
 
-    return renderSuccessPage(decision, booking);
+    return renderSuccessPage(decision, transition.booking);
   } catch (error) {
     logger.error("decision.error", {
       transactionId: transactionId.slice(0, 12),
@@ -320,269 +722,3737 @@ async function handleOwnerDecision(
   }
 }
 
-// =============================================================================
-// Email Sending Functions
-// =============================================================================
+/**
+ * Read the owner's notes and denial details from the decision form
+ * Returns the message to show on the review page when something is invalid.
+ */
+function readDecisionDetails(
+  form: Record<string, string>,
+  decision: "Accepted" | "Denied",
+  rules: BookingRules,
+  now: number = Date.now()
+): { changes: BookingChanges; metadata?: string } | { error: string } {
+  const changes: BookingChanges = {};
+  const ownerNotes = (form.owner_notes ?? "").trim().slice(0, MAX_OWNER_NOTES_LENGTH);
+  if (ownerNotes) {
+    changes.ownerNotes = ownerNotes;
+  }
 
-async function sendOwnerNotification(summary: SubmissionSummary, env: Env): Promise<void> {
-  const workerUrl = env.WORKER_URL || "https://ac-shuttle-worker.workers.dev";
-  const { date, time } = formatPickupDateTime(summary.pickupDatetime);
+  if (decision === "Denied") {
+    const reasonCode = (form.denial_reason ?? "").trim();
+    if (reasonCode) {
+      if (!isDenialReasonCode(reasonCode)) {
+        return { error: "Please choose a reason from the list." };
+      }
+      const reason = DENIAL_REASONS[reasonCode].customerText
+        ?? (form.denial_reason_text ?? "").trim().slice(0, MAX_DENIAL_REASON_LENGTH);
+      if (!reason) {
+        return { error: "Please write the reason the customer will see." };
+      }
+      changes.denialReason = reason;
+    }
 
-  const emailData: OwnerNotificationData = {
-    customerName: summary.customerName,
-    customerEmail: summary.customerEmail,
-    customerPhone: summary.customerPhone,
-    startLocation: summary.startLocation,
-    endLocation: summary.endLocation,
-    pickupTime: time,
-    pickupDate: date,
-    passengers: String(summary.passengers),
-    estimatedDistance: summary.estimatedDistance,
-    estimatedDuration: summary.estimatedDuration,
-    notes: summary.notes || undefined,
-    bookingRef: summary.transactionId.slice(0, 10).toUpperCase(),
-    acceptUrl: `${workerUrl}/accept/${summary.transactionId}`,
-    denyUrl: `${workerUrl}/deny/${summary.transactionId}`,
-    mapUrl: summary.mapUrl,
-  };
+    const alternativePickup = (form.alternative_pickup ?? "").trim();
+    if (alternativePickup) {
+      const alternativeTime = parsePickupDateTime(alternativePickup, rules.timeZone);
+      if (alternativeTime === null) {
+        return { error: "Please enter a valid alternative pickup time." };
+      }
+      if (alternativeTime <= now) {
+        return { error: "The alternative pickup time must be in the future." };
+      }
+      const ruleViolation = checkPickupRules(alternativeTime, rules, now);
+      if (ruleViolation) {
+        return { error: `The alternative pickup time can't be offered: ${ruleViolation}.` };
+      }
+      changes.alternativePickupDatetime = normalizePickupDateTime(alternativePickup, rules.timeZone);
+    }
+  }
 
-  const { html, text } = generateOwnerNotificationEmail(emailData);
+  return { changes, metadata: ownerNotes || undefined };
+}
 
-  await sendEmail(env.RESEND_API_KEY, {
-    from: `AC Shuttles <${env.CUSTOMER_FROM_EMAIL}>`,
-    to: env.OWNER_EMAIL,
-    subject: `🚐 New Booking: ${summary.customerName} - ${summary.startLocation} → ${summary.endLocation}`,
-    html,
-    text,
-    tags: ["owner-notification", "booking-request"],
-  });
+function readDecisionLegs(value: string | null | undefined): DecisionLegs {
+  return value === "outbound" ? "outbound" : "both";
 }
 
-async function sendCustomerAcknowledgment(summary: SubmissionSummary, env: Env): Promise<void> {
-  const { date, time } = formatPickupDateTime(summary.pickupDatetime);
+/**
+ * Apply the owner's decision on a round trip's outbound leg to its return leg
+ *
+ * Accepting both rides gives the return leg the same driver, vehicle and notes
+ * and sends the driver its own job email; `overridden` are the return leg's
+ * conflicts the owner accepted anyway. Accepting the outbound ride only, or
+ * declining, declines the return leg; the customer hears about it in the
+ * outbound leg's email rather than one of its own.
+ */
+async function decideReturnLeg(
+  outbound: BookingRecord,
+  decision: "Accepted" | "Denied",
+  legs: DecisionLegs,
+  details: { changes: BookingChanges; metadata?: string },
+  overridden: BookingConflict[],
+  env: Env
+): Promise<void> {
+  const returnLeg = await lookupReturnLeg(outbound, env);
+  if (!returnLeg) {
+    return;
+  }
 
-  const emailData: CustomerSubmissionAckData = {
-    customerName: summary.customerName,
-    customerEmail: summary.customerEmail,
-    startLocation: summary.startLocation,
-    endLocation: summary.endLocation,
-    pickupDate: date,
-    pickupTime: time,
-    passengers: String(summary.passengers),
-    bookingRef: summary.transactionId.slice(0, 10).toUpperCase(),
-    contactEmail: env.CUSTOMER_FROM_EMAIL,
-    contactPhone: env.DRIVER_CONTACT_PHONE || "",
-  };
+  const acceptReturn = decision === "Accepted" && legs === "both";
+  const changes: BookingChanges = acceptReturn
+    ? details.changes
+    : { denialReason: decision === "Denied" ? details.changes.denialReason ?? null : RETURN_LEG_DECLINED_REASON };
+  if (!acceptReturn && details.changes.ownerNotes) {
+    changes.ownerNotes = details.changes.ownerNotes;
+  }
 
-  const { html, text } = generateCustomerSubmissionAckEmail(emailData);
+  try {
+    const transition = await transitionBookingStatus(
+      returnLeg.transactionId,
+      acceptReturn ? "Accepted" : "Denied",
+      env,
+      { changes, metadata: details.metadata }
+    );
+    logger.info("decision.return_leg", {
+      transactionId: outbound.transactionId.slice(0, 12),
+      returnTransactionId: returnLeg.transactionId.slice(0, 12),
+      status: transition.to,
+    });
 
-  await sendEmail(env.RESEND_API_KEY, {
-    from: `AC Shuttles <${env.CUSTOMER_FROM_EMAIL}>`,
-    to: summary.customerEmail,
-    subject: "We received your booking request - AC Shuttles",
-    html,
-    text,
-    tags: ["customer-acknowledgment"],
-  });
+    if (transition.to === "Accepted") {
+      if (overridden.length > 0) {
+        await recordConflictOverride(returnLeg.transactionId, overridden, env);
+      }
+      await sendDriverAssignment(transition.booking, env);
+    }
+  } catch (error) {
+    // e.g. the customer already cancelled the return leg
+    logger.warn("decision.return_leg_failed", {
+      transactionId: outbound.transactionId.slice(0, 12),
+      returnTransactionId: returnLeg.transactionId.slice(0, 12),
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
 }
 
-async function sendCustomerConfirmation(booking: SubmissionSummary, env: Env): Promise<void> {
-  const { date, time } = formatPickupDateTime(booking.pickupDatetime);
-
-  const emailData: CustomerConfirmationData = {
-    customerName: booking.customerName,
-    customerEmail: booking.customerEmail,
-    startLocation: booking.startLocation,
-    endLocation: booking.endLocation,
-    pickupDate: date,
-    pickupTime: time,
-    passengers: String(booking.passengers),
-    estimatedDuration: booking.estimatedDuration,
-    driverName: env.DRIVER_CONTACT_NAME || "AC Shuttles Driver",
-    driverPhone: env.DRIVER_CONTACT_PHONE || "",
-    driverEmail: env.DRIVER_CONTACT_EMAIL || "",
-    bookingRef: booking.transactionId.slice(0, 10).toUpperCase(),
-    mapUrl: booking.mapUrl,
-    notes: booking.notes || undefined,
-  };
-
-  const { html, text } = generateCustomerConfirmationEmail(emailData);
+/**
+ * Rides of a recurring series the owner ticked to leave out when accepting
+ */
+function readSkippedRides(form: Record<string, string>): Set<string> {
+  return new Set(
+    Object.keys(form)
+      .filter(name => name.startsWith(SKIP_RIDE_FIELD_PREFIX) && form[name] === "yes")
+      .map(name => name.slice(SKIP_RIDE_FIELD_PREFIX.length))
+  );
+}
 
-  await sendEmail(env.RESEND_API_KEY, {
-    from: `AC Shuttles <${env.CUSTOMER_FROM_EMAIL}>`,
-    to: booking.customerEmail,
-    subject: "✅ Your AC Shuttles Booking is Confirmed!",
-    html,
-    text,
-    tags: ["customer-confirmation", "booking-accepted"],
-  });
+/**
+ * Apply the owner's decision on the first ride of a recurring series to its other pending rides
+ *
+ * Accepting gives each ride the same driver, vehicle and notes and sends the
+ * driver a job email for it; rides that were skipped (by the owner, or for a
+ * conflict under the block policy) are declined, and `overridden` holds each
+ * ride's conflicts the owner accepted anyway. Declining declines the whole
+ * series. The customer hears about it in the first ride's email rather than
+ * one per ride.
+ */
+async function decideSeries(
+  first: BookingRecord,
+  decision: "Accepted" | "Denied",
+  skipped: ReadonlySet<string>,
+  details: { changes: BookingChanges; metadata?: string },
+  overridden: ReadonlyMap<string, BookingConflict[]>,
+  env: Env
+): Promise<void> {
+  const rides = await lookupPendingSeriesRides(first, env);
+
+  for (const ride of rides) {
+    const acceptRide = decision === "Accepted" && !skipped.has(ride.transactionId);
+    const changes: BookingChanges = acceptRide
+      ? details.changes
+      : { denialReason: decision === "Denied" ? details.changes.denialReason ?? null : SERIES_RIDE_SKIPPED_REASON };
+    if (!acceptRide && details.changes.ownerNotes) {
+      changes.ownerNotes = details.changes.ownerNotes;
+    }
+
+    try {
+      const transition = await transitionBookingStatus(
+        ride.transactionId,
+        acceptRide ? "Accepted" : "Denied",
+        env,
+        { changes, metadata: details.metadata }
+      );
+      logger.info("decision.series_ride", {
+        transactionId: first.transactionId.slice(0, 12),
+        rideTransactionId: ride.transactionId.slice(0, 12),
+        status: transition.to,
+      });
+
+      if (transition.to === "Accepted") {
+        const rideOverridden = overridden.get(ride.transactionId) ?? [];
+        if (rideOverridden.length > 0) {
+          await recordConflictOverride(ride.transactionId, rideOverridden, env);
+        }
+        await sendDriverAssignment(transition.booking, env);
+      }
+    } catch (error) {
+      // e.g. the customer already cancelled this ride
+      logger.warn("decision.series_ride_failed", {
+        transactionId: first.transactionId.slice(0, 12),
+        rideTransactionId: ride.transactionId.slice(0, 12),
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
 }
 
-async function sendCustomerDenial(booking: SubmissionSummary, env: Env): Promise<void> {
-  const { date, time } = formatPickupDateTime(booking.pickupDatetime);
+function isDenialReasonCode(value: string): value is DenialReasonCode {
+  return Object.prototype.hasOwnProperty.call(DENIAL_REASONS, value);
+}
 
-  const emailData: CustomerDenialData = {
-    customerName: booking.customerName,
-    customerEmail: booking.customerEmail,
-    startLocation: booking.startLocation,
-    endLocation: booking.endLocation,
-    pickupDate: date,
-    pickupTime: time,
-    passengers: String(booking.passengers),
-    contactPhone: env.DRIVER_CONTACT_PHONE || "",
-    contactEmail: env.CUSTOMER_FROM_EMAIL,
-    bookingRef: booking.transactionId.slice(0, 10).toUpperCase(),
-  };
+/**
+ * Read the driver chosen on the accept page
+ * With an empty (or unreadable) roster nothing is assigned and the default
+ * driver (DRIVER_CONTACT_*) stays on the booking.
+ */
+async function readDriverAssignment(
+  transactionId: string,
+  form: Record<string, string>,
+  env: Env
+): Promise<{ changes: BookingChanges } | { error: string }> {
+  const drivers = await lookupActiveDrivers(transactionId, env);
+  if (drivers.length === 0) {
+    return { changes: {} };
+  }
 
-  const { html, text } = generateCustomerDenialEmail(emailData);
+  const driverId = (form.driver_id ?? "").trim();
+  const driver = drivers.find(candidate => candidate.id === driverId);
+  if (!driver) {
+    return { error: "Please choose a driver from the list." };
+  }
+  return { changes: driverAssignmentChanges(driver) };
+}
 
-  await sendEmail(env.RESEND_API_KEY, {
-    from: `AC Shuttles <${env.CUSTOMER_FROM_EMAIL}>`,
-    to: booking.customerEmail,
-    subject: "Update on Your AC Shuttles Booking Request",
-    html,
-    text,
-    tags: ["customer-denial", "booking-denied"],
-  });
+/**
+ * Read the vehicle chosen on the accept page
+ * Without a fleet (VEHICLE_FLEET) nothing is assigned.
+ */
+async function readVehicleAssignment(
+  transactionId: string,
+  form: Record<string, string>,
+  env: Env
+): Promise<{ changes: BookingChanges } | { error: string }> {
+  const fleet = loadFleet(env);
+  if (fleet.vehicles.length === 0) {
+    return { changes: {} };
+  }
+
+  const booking = await fetchBookingDetails(transactionId, env);
+  const choices = booking ? vehicleChoices(booking.passengers, fleet) : fleet.vehicles;
+  const vehicle = choices.find(candidate => candidate.id === (form.vehicle_id ?? "").trim());
+  if (!vehicle) {
+    return { error: "Please choose a vehicle from the list." };
+  }
+  return { changes: { vehicleId: vehicle.id, vehicleName: vehicle.name } };
 }
 
-async function sendCustomerReminder(booking: SubmissionSummary, env: Env): Promise<void> {
-  const { date, time } = formatPickupDateTime(booking.pickupDatetime);
+/**
+ * Owner-facing warning when a booking has more passengers than the largest
+ * vehicle seats, or null when it fits (or there is no fleet)
+ */
+function describeOverCapacity(passengers: number, fleet: Fleet): string | null {
+  const limit = maxPassengers(fleet);
+  if (limit === null || passengers <= limit) {
+    return null;
+  }
+  return `${passengers} passengers is more than your largest vehicle seats (${limit}). Plan a second vehicle or decline the ride.`;
+}
 
-  const emailData: CustomerReminderData = {
-    customerName: booking.customerName,
-    customerEmail: booking.customerEmail,
-    startLocation: booking.startLocation,
-    endLocation: booking.endLocation,
-    pickupDate: date,
-    pickupTime: time,
-    passengers: String(booking.passengers),
-    driverName: env.DRIVER_CONTACT_NAME || "AC Shuttles Driver",
-    driverPhone: env.DRIVER_CONTACT_PHONE || "",
-    driverEmail: env.DRIVER_CONTACT_EMAIL || env.CUSTOMER_FROM_EMAIL,
-    bookingRef: booking.transactionId.slice(0, 10).toUpperCase(),
-  };
+/**
+ * Owner-facing warning for a trip outside the service zones, or one that could
+ * not be placed in or out of them; null when it is in a zone (or zones are off)
+ */
+function describeServiceAreaWarning(status: ServiceAreaStatus | null): ServiceAreaWarning | null {
+  if (status === "out-of-zone") {
+    return {
+      title: "Outside Service Area",
+      message: "Neither the pickup nor the drop-off is in one of your service zones.",
+    };
+  }
+  if (status === "requires-review") {
+    return {
+      title: "Check Service Area",
+      message: "The pickup and drop-off could not be placed in or out of your service zones. Check the addresses before accepting.",
+    };
+  }
+  return null;
+}
 
-  const { html, text } = generateCustomerReminderEmail(emailData);
+/**
+ * Vehicles offered on the accept page: those with a seat for every passenger,
+ * or the whole fleet when none does (an over-capacity request let through by
+ * VEHICLE_CAPACITY_POLICY=flag)
+ */
+function vehicleChoices(passengers: number, fleet: Fleet): Vehicle[] {
+  const fitting = vehiclesForPassengers(passengers, fleet);
+  return fitting.length > 0 ? fitting : fleet.vehicles;
+}
 
-  await sendEmail(env.RESEND_API_KEY, {
-    from: `AC Shuttles <${env.CUSTOMER_FROM_EMAIL}>`,
-    to: booking.customerEmail,
-    subject: `🔔 Reminder: Your AC Shuttles Ride Tomorrow - ${date}`,
-    html,
-    text,
-    tags: ["customer-reminder", "trip-reminder"],
+/**
+ * Apply BOOKING_CONFLICT_POLICY before accepting a booking for `driverId`
+ * (null for the default driver)
+ * Returns the message to show on the review page when acceptance is refused,
+ * and the conflicts the owner chose to override.
+ */
+async function checkAcceptConflicts(
+  transactionId: string,
+  form: Record<string, string>,
+  env: Env,
+  driverId: string | null
+): Promise<{ error?: string; overridden: BookingConflict[] }> {
+  const policy = conflictPolicy(env);
+  if (policy === "warn") {
+    return { overridden: [] };
+  }
+
+  // A missing booking is reported by the status change itself
+  const booking = await fetchBookingDetails(transactionId, env);
+  const conflicts = booking ? await lookupConflicts(booking, env, booking.pickupDatetime, driverId) : [];
+  return applyConflictPolicy(policy, conflicts, form, {
+    block: "This ride overlaps an accepted ride, so it can't be accepted. Move or cancel the other ride first.",
+    override: "This ride overlaps an accepted ride. Tick the box to accept it anyway.",
   });
 }
 
-async function sendOwnerDeliveryNotification(
-  booking: SubmissionSummary,
-  decision: "Accepted" | "Denied",
+/**
+ * Apply BOOKING_CONFLICT_POLICY to a round trip's return leg before accepting
+ * both rides for `driverId`
+ */
+async function checkReturnLegConflicts(
+  transactionId: string,
+  form: Record<string, string>,
+  env: Env,
+  driverId: string | null
+): Promise<{ error?: string; overridden: BookingConflict[] }> {
+  const policy = conflictPolicy(env);
+  if (policy === "warn") {
+    return { overridden: [] };
+  }
+
+  const outbound = await fetchBookingDetails(transactionId, env);
+  const returnLeg = outbound ? await lookupReturnLeg(outbound, env) : null;
+  if (returnLeg?.status !== DEFAULT_STATUS) {
+    return { overridden: [] };
+  }
+
+  const conflicts = await lookupConflicts(returnLeg, env, returnLeg.pickupDatetime, driverId);
+  return applyConflictPolicy(policy, conflicts, form, {
+    block: "The return ride overlaps an accepted ride, so it can't be accepted. Accept the outbound ride only, or move or cancel the other ride first.",
+    override: "The return ride overlaps an accepted ride. Tick the box to accept it anyway.",
+  });
+}
+
+/**
+ * Apply BOOKING_CONFLICT_POLICY to the later rides of a recurring series before
+ * accepting them for `driverId`
+ * Under block, overlapping rides are skipped rather than refusing the whole
+ * series; under override, any overlap among the rides not skipped needs the box.
+ */
+async function checkSeriesConflicts(
+  transactionId: string,
+  form: Record<string, string>,
+  env: Env,
+  driverId: string | null,
+  skipped: ReadonlySet<string>
+): Promise<{ error?: string; blocked: Set<string>; overridden: Map<string, BookingConflict[]> }> {
+  const policy = conflictPolicy(env);
+  if (policy === "warn") {
+    return { blocked: new Set(), overridden: new Map() };
+  }
+
+  const first = await fetchBookingDetails(transactionId, env);
+  const rides = first
+    ? (await lookupPendingSeriesRides(first, env)).filter(ride => !skipped.has(ride.transactionId))
+    : [];
+  const conflicts = await lookupRideConflicts(transactionId, rides, env, driverId);
+  if (conflicts.size === 0) {
+    return { blocked: new Set(), overridden: new Map() };
+  }
+
+  if (policy === "block") {
+    return { blocked: new Set(conflicts.keys()), overridden: new Map() };
+  }
+  if (form.override_conflicts !== "yes") {
+    return {
+      error: conflicts.size === 1
+        ? "A later ride of this series overlaps an accepted ride. Tick the box to accept it anyway, or skip that date."
+        : `${conflicts.size} later rides of this series overlap accepted rides. Tick the box to accept them anyway, or skip those dates.`,
+      blocked: new Set(),
+      overridden: new Map(),
+    };
+  }
+  return { blocked: new Set(), overridden: conflicts };
+}
+
+/**
+ * Apply BOOKING_CONFLICT_POLICY before approving a customer's new pickup time
+ */
+async function checkRescheduleConflicts(
+  booking: BookingRecord,
+  requestedPickupDatetime: string,
+  form: Record<string, string>,
   env: Env
-): Promise<void> {
-  const { date, time } = formatPickupDateTime(booking.pickupDatetime);
+): Promise<{ error?: string; overridden: BookingConflict[] }> {
+  const policy = conflictPolicy(env);
+  if (policy === "warn") {
+    return { overridden: [] };
+  }
 
-  const emailData: OwnerDeliveryNotificationData = {
-    customerName: booking.customerName,
-    customerEmail: booking.customerEmail,
-    startLocation: booking.startLocation,
-    endLocation: booking.endLocation,
-    pickupDate: date,
-    pickupTime: time,
-    notificationType: decision === "Accepted" ? "accepted" : "denied",
-    deliveredAt: new Date().toISOString(),
-    bookingRef: booking.transactionId.slice(0, 10).toUpperCase(),
-    transactionId: booking.transactionId,
-  };
+  const conflicts = await lookupConflicts(booking, env, requestedPickupDatetime);
+  return applyConflictPolicy(policy, conflicts, form, {
+    block: "The new time overlaps an accepted ride, so it can't be approved. Move or cancel the other ride first.",
+    override: "The new time overlaps an accepted ride. Tick the box to approve it anyway.",
+  });
+}
 
-  const { html, text } = generateOwnerDeliveryNotificationEmail(emailData);
+/**
+ * Refuse a ride with conflicts under the block policy, or under the override
+ * policy until the owner ticks the override box (`override_conflicts`)
+ */
+function applyConflictPolicy(
+  policy: ConflictPolicy,
+  conflicts: BookingConflict[],
+  form: Record<string, string>,
+  errors: { block: string; override: string }
+): { error?: string; overridden: BookingConflict[] } {
+  if (policy === "warn" || conflicts.length === 0) {
+    return { overridden: [] };
+  }
+  if (policy === "block") {
+    return { error: errors.block, overridden: [] };
+  }
+  if (form.override_conflicts !== "yes") {
+    return { error: errors.override, overridden: [] };
+  }
+  return { overridden: conflicts };
+}
 
-  const statusEmoji = decision === "Accepted" ? "✅" : "❌";
-  await sendEmail(env.RESEND_API_KEY, {
-    from: `AC Shuttles <${env.CUSTOMER_FROM_EMAIL}>`,
-    to: env.OWNER_EMAIL,
-    subject: `${statusEmoji} Booking ${decision}: ${booking.customerName} notification delivered`,
-    html,
-    text,
-    tags: ["owner-delivery", `booking-${decision.toLowerCase()}`],
+/**
+ * Note in the audit trail that a booking was accepted despite overlapping rides
+ */
+async function recordConflictOverride(transactionId: string, conflicts: BookingConflict[], env: Env): Promise<void> {
+  logger.warn("decision.conflict_overridden", {
+    transactionId: transactionId.slice(0, 12),
+    conflicting: conflicts.map(conflict => conflict.booking.transactionId.slice(0, 12)),
   });
+
+  try {
+    await recordBookingEvent(transactionId, "conflict_overridden", {
+      conflicts: conflicts.map(conflict => conflict.booking.transactionId),
+    }, env);
+  } catch (error) {
+    logger.error("decision.conflict_override_not_recorded", {
+      transactionId: transactionId.slice(0, 12),
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
 }
 
-// =============================================================================
-// Email API
-// =============================================================================
+/**
+ * Publish the booking rules so the website can check a pickup time before submitting
+ *
+ * GET /booking-rules, authenticated with X-API-Key. Read-only; the same rules,
+ * fleet capacity and service zones are enforced when a booking is submitted.
+ */
+function handleBookingRules(request: Request, env: Env): Response {
+  if (request.method !== "GET") {
+    return new Response("Method Not Allowed", { status: 405, headers: { Allow: "GET" } });
+  }
 
-interface EmailPayload {
-  from: string;
-  to: string;
-  subject: string;
-  html: string;
-  text: string;
-  tags?: string[];
-}
-
-async function sendEmail(apiKey: string, payload: EmailPayload): Promise<{ id: string }> {
-  // Resend API expects tags as [{name, value}] objects, not strings
-  const resendPayload: Record<string, unknown> = {
-    from: payload.from,
-    to: payload.to,
-    subject: payload.subject,
-    html: payload.html,
-    text: payload.text,
-  };
+  try {
+    authenticateRequest(request, env);
+  } catch (error) {
+    if (error instanceof Response) {
+      return error;
+    }
+    throw error;
+  }
+
+  return Response.json(
+    {
+      ok: true,
+      rules: describeBookingRules(loadBookingRules(env)),
+      fleet: describeFleet(loadFleet(env)),
+      serviceArea: describeServiceArea(loadServiceArea(env)),
+    },
+    { headers: { "Cache-Control": "private, max-age=300" } }
+  );
+}
+
+/**
+ * Price a ride without booking it
+ *
+ * POST /quote with the ride fields of a booking (start_location, end_location,
+ * pickup_datetime, passengers, estimated_distance, estimated_duration),
+ * authenticated with X-API-Key. Returns the itemized quote a booking for the
+ * same ride would be stored with; 503 when pricing is not configured.
+ */
+async function handleQuote(request: Request, env: Env): Promise<Response> {
+  const requestId = generateRequestId();
+
+  if (request.method !== "POST") {
+    return new Response("Method Not Allowed", { status: 405, headers: { Allow: "POST" } });
+  }
+
+  try {
+    authenticateRequest(request, env, requestId);
+  } catch (error) {
+    if (error instanceof Response) {
+      return error;
+    }
+    throw error;
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ ok: false, error: "Invalid JSON payload" }, { status: 400 });
+  }
+
+  const validation = validateQuotePayload(body, businessTimeZone(env));
+  if (!validation.valid) {
+    return Response.json({ ok: false, error: "Validation failed", details: validation.errors }, { status: 400 });
+  }
 
-  // Convert string tags to Resend's expected format
-  if (payload.tags && payload.tags.length > 0) {
-    resendPayload.tags = payload.tags.map(tag => ({ name: tag, value: "true" }));
+  const ride = validation.quote;
+  const result = quoteBooking({
+    startLocation: ride.start_location,
+    endLocation: ride.end_location,
+    pickupDatetime: ride.pickup_datetime,
+    passengers: ride.passengers,
+    estimatedDistance: ride.estimated_distance,
+    estimatedDuration: ride.estimated_duration,
+  }, env);
+
+  if (!result) {
+    logger.warn("quote.not_configured", { requestId });
+    return Response.json({ ok: false, error: "Pricing is not configured" }, { status: 503 });
+  }
+  if (!result.ok) {
+    return Response.json({ ok: false, error: "Validation failed", details: result.errors }, { status: 400 });
+  }
+
+  logger.info("quote.issued", { requestId, total: result.quote.total, currency: result.quote.currency });
+  return Response.json({ ok: true, quote: result.quote });
+}
+
+/**
+ * Manage the driver roster
+ *
+ * /drivers: GET lists every driver, POST adds one ({"name", "email", "phone"?})
+ * /drivers/:id: GET reads one, PATCH changes any field (including "active"),
+ * DELETE deactivates the driver. Drivers are never removed, so bookings keep
+ * pointing at them. Authenticated with X-API-Key.
+ */
+async function handleDrivers(request: Request, env: Env): Promise<Response> {
+  const requestId = generateRequestId();
+  const url = new URL(request.url);
+  const id = url.pathname === "/drivers" ? null : decodePathSegment(url.pathname.slice("/drivers/".length));
+
+  const allowed = id === null ? ["GET", "POST"] : ["GET", "PATCH", "DELETE"];
+  if (!allowed.includes(request.method)) {
+    return new Response("Method Not Allowed", { status: 405, headers: { Allow: allowed.join(", ") } });
+  }
+
+  try {
+    authenticateRequest(request, env, requestId);
+  } catch (error) {
+    if (error instanceof Response) {
+      return error;
+    }
+    throw error;
+  }
+
+  try {
+    if (id === null) {
+      if (request.method === "GET") {
+        return Response.json({ ok: true, drivers: await listDrivers(env) });
+      }
+
+      const payload = await readDriverPayload(request, "create");
+      if (payload instanceof Response) {
+        return payload;
+      }
+      const driver = await addDriver({
+        name: payload.name ?? "",
+        email: payload.email ?? "",
+        phone: payload.phone ?? null,
+      }, env);
+      return Response.json({ ok: true, driver }, { status: 201 });
+    }
+
+    let driver: Driver | null;
+    if (request.method === "GET") {
+      driver = await getDriver(id, env);
+    } else if (request.method === "DELETE") {
+      driver = await updateDriver(id, { active: false }, env);
+    } else {
+      const payload = await readDriverPayload(request, "update");
+      if (payload instanceof Response) {
+        return payload;
+      }
+      driver = await updateDriver(id, payload, env);
+    }
+
+    if (!driver) {
+      return Response.json({ ok: false, error: "Driver not found" }, { status: 404 });
+    }
+    return Response.json({ ok: true, driver });
+  } catch (error) {
+    logger.error("drivers.error", {
+      requestId,
+      method: request.method,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return Response.json({ ok: false, error: "Failed to update the driver roster" }, { status: 500 });
+  }
+}
+
+/**
+ * Parse and validate a roster request body, or the 400 response to return
+ */
+async function readDriverPayload(
+  request: Request,
+  mode: "create" | "update"
+): Promise<DriverPayload | Response> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ ok: false, error: "Invalid JSON payload" }, { status: 400 });
+  }
+
+  const result = validateDriverPayload(body, mode);
+  if (!result.valid) {
+    return Response.json({ ok: false, error: "Validation failed", details: result.errors }, { status: 400 });
+  }
+  return result.driver;
+}
+
+/**
+ * Handle an operational status change from the booking server
+ *
+ * POST /bookings/:transactionId/status with {"status": "...", "note"?: "..."}
+ * Authenticated with X-API-Key. Moves the booking along the lifecycle table
+ * (e.g. Accepted → Driver En Route → Completed) and runs its notification hooks.
+ * Only OPERATIONAL_STATUSES can be set here; any other move answers 409.
+ */
+async function handleStatusChange(request: Request, env: Env): Promise<Response> {
+  const requestId = generateRequestId();
+
+  if (request.method !== "POST") {
+    return new Response("Method Not Allowed", { status: 405, headers: { Allow: "POST" } });
+  }
+
+  try {
+    authenticateRequest(request, env, requestId);
+  } catch (error) {
+    if (error instanceof Response) {
+      return error;
+    }
+    throw error;
   }
 
-  const response = await fetch(RESEND_API_URL, {
-    method: "POST",
+  const url = new URL(request.url);
+  const transactionId = decodePathSegment(url.pathname.split("/")[2] ?? "");
+
+  let body: { status?: unknown; note?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ ok: false, error: "Invalid JSON payload" }, { status: 400 });
+  }
+
+  const status = typeof body?.status === "string" ? body.status : "";
+  if (!isBookingStatus(status)) {
+    return Response.json(
+      { ok: false, error: `status must be one of: ${BOOKING_STATUSES.join(", ")}` },
+      { status: 400 }
+    );
+  }
+  const note = typeof body.note === "string" && body.note.trim() ? body.note.trim() : undefined;
+
+  let transition: TransitionResult;
+  try {
+    transition = await transitionBookingStatus(transactionId, status, env, {
+      metadata: note,
+      within: OPERATIONAL_STATUSES,
+    });
+  } catch (error) {
+    if (error instanceof BookingNotFoundError) {
+      return Response.json({ ok: false, error: "Booking not found" }, { status: 404 });
+    }
+    if (error instanceof InvalidTransitionError) {
+      logger.warn("status.transition_rejected", {
+        requestId,
+        transactionId: transactionId.slice(0, 12),
+        from: error.from,
+        to: error.to,
+      });
+      return Response.json(
+        { ok: false, error: error.message, currentStatus: error.from, allowed: error.allowed },
+        { status: 409 }
+      );
+    }
+    if (error instanceof Response) {
+      return error;
+    }
+    logger.error("status.error", {
+      requestId,
+      transactionId: transactionId.slice(0, 12),
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return Response.json({ ok: false, error: "Failed to update booking status" }, { status: 500 });
+  }
+
+  await notifyTransition(transition, env);
+
+  logger.info("status.complete", {
+    requestId,
+    transactionId: transactionId.slice(0, 12),
+    from: transition.from,
+    to: transition.to,
+  });
+
+  return Response.json({
+    ok: true,
+    transactionId,
+    from: transition.from,
+    to: transition.to,
+  });
+}
+
+/**
+ * Serve the owner's calendar feed of upcoming confirmed rides
+ * Regenerated from the booking store on every request; the ETag lets calendar
+ * apps skip the download when nothing changed.
+ */
+async function handleCalendarFeed(request: Request, env: Env): Promise<Response> {
+  const requestId = generateRequestId();
+
+  if (request.method !== "GET" && request.method !== "HEAD") {
+    return new Response("Method Not Allowed", { status: 405, headers: { Allow: "GET, HEAD" } });
+  }
+
+  const url = new URL(request.url);
+  const secret = decodePathSegment(url.pathname.slice("/calendar/".length, -".ics".length));
+
+  try {
+    authenticateCalendarFeed(secret, env, requestId);
+  } catch (error) {
+    if (error instanceof Response) {
+      return error;
+    }
+    throw error;
+  }
+
+  let bookings: BookingRecord[];
+  try {
+    bookings = await findUpcomingBookings(env, Date.now() - CALENDAR_FEED_PAST_HOURS * 60 * 60 * 1000);
+  } catch (error) {
+    logger.error("calendar.feed.error", {
+      requestId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return new Response("Calendar temporarily unavailable", { status: 503, headers: { "Retry-After": "300" } });
+  }
+
+  const ics = generateBookingsCalendarFeed(
+    bookings.map(booking => ({
+      ...booking,
+      bookingRef: booking.transactionId.slice(0, 10).toUpperCase(),
+    })),
+    { name: "AC Shuttles Rides", timeZone: businessTimeZone(env), refreshMinutes: CALENDAR_FEED_REFRESH_MINUTES }
+  );
+
+  const etag = `"${await sha256Hex(ics)}"`;
+  const headers = {
+    "Content-Type": "text/calendar; charset=utf-8",
+    "Cache-Control": `private, max-age=${CALENDAR_FEED_REFRESH_MINUTES * 60}`,
+    ETag: etag,
+  };
+
+  logger.info("calendar.feed.served", { requestId, bookings: bookings.length });
+
+  if (ifNoneMatch(request, etag)) {
+    return new Response(null, { status: 304, headers });
+  }
+  return new Response(request.method === "HEAD" ? null : ics, { headers });
+}
+
+/**
+ * Whether the request's If-None-Match lists `etag`
+ */
+function ifNoneMatch(request: Request, etag: string): boolean {
+  const header = request.headers.get("If-None-Match");
+  if (!header) return false;
+  return header.split(",").some(tag => {
+    const value = tag.trim().replace(/^W\//, "");
+    return value === "*" || value === etag;
+  });
+}
+
+/**
+ * Hex SHA-256 digest, used as the feed's ETag
+ */
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Handle a Resend delivery webhook
+ *
+ * Verifies the Svix signature, records the event against the outbox email
+ * with that message ID and in the booking's audit trail, and alerts the owner
+ * when a customer email hard-bounces. Unknown message IDs and event types are
+ * acknowledged so Resend does not retry them. Events are refused without a
+ * durable outbox, which is the only place the sent message IDs are kept.
+ */
+async function handleResendWebhook(request: Request, env: Env): Promise<Response> {
+  const requestId = generateRequestId();
+
+  if (request.method !== "POST") {
+    return new Response("Method Not Allowed", { status: 405, headers: { Allow: "POST" } });
+  }
+
+  if (!env.RESEND_WEBHOOK_SECRET) {
+    logger.error("webhook.resend.not_configured", { requestId });
+    return Response.json({ ok: false, error: "Webhook not configured" }, { status: 503 });
+  }
+
+  if (!hasDurableOutbox(env)) {
+    logger.error("webhook.resend.outbox_not_durable", { requestId, emailOutbox: env.EMAIL_OUTBOX ?? null });
+    return Response.json({ ok: false, error: "Delivery tracking needs a durable email outbox" }, { status: 503 });
+  }
+
+  const body = await request.text();
+  const verification = await verifyWebhookSignature(env.RESEND_WEBHOOK_SECRET, request.headers, body);
+  if (!verification.valid) {
+    logger.warn("webhook.resend.rejected", { requestId, reason: verification.reason });
+    return Response.json({ ok: false, error: "Invalid signature" }, { status: 401 });
+  }
+
+  let event: ResendWebhookEvent;
+  try {
+    event = JSON.parse(body);
+  } catch {
+    return Response.json({ ok: false, error: "Invalid JSON payload" }, { status: 400 });
+  }
+
+  const status = event.type ? RESEND_DELIVERY_EVENTS[event.type] : undefined;
+  const messageId = event.data?.email_id;
+  if (!status || !messageId) {
+    logger.info("webhook.resend.ignored", { requestId, type: event.type });
+    return Response.json({ ok: true, ignored: true });
+  }
+
+  const occurredAt = event.created_at ?? new Date().toISOString();
+  const bounce = event.data?.bounce;
+
+  try {
+    const recorded = await recordDeliveryEvent(messageId, status, occurredAt, env);
+    if (!recorded) {
+      logger.info("webhook.resend.unknown_message", { requestId, messageId, type: event.type });
+      return Response.json({ ok: true, ignored: true });
+    }
+
+    const { email, updated } = recorded;
+    if (email.transactionId) {
+      await recordBookingEvent(email.transactionId, `email_${status}`, {
+        messageId,
+        to: email.to,
+        subject: email.subject,
+        ...(bounce ? { bounceType: bounce.type, bounceSubType: bounce.subType, bounceMessage: bounce.message } : {}),
+      }, env, occurredAt);
+    }
+
+    // Only the first report of a bounce alerts, so Resend's retries cannot repeat it
+    if (status === "bounced" && updated && isHardBounce(bounce)) {
+      await alertOwnerOfBounce(email, bounce?.message, occurredAt, env);
+    }
+
+    logger.info("webhook.resend.recorded", {
+      requestId,
+      outboxId: email.id,
+      transactionId: email.transactionId?.slice(0, 12),
+      status,
+      updated,
+    });
+    return Response.json({ ok: true, status });
+  } catch (error) {
+    logger.error("webhook.resend.error", {
+      requestId,
+      messageId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    // A non-2xx response makes Resend deliver the event again later
+    return Response.json({ ok: false, error: "Failed to record delivery event" }, { status: 500 });
+  }
+}
+
+/**
+ * Resend reports permanent bounces with type "Permanent"; older payloads
+ * carry no bounce details and are only sent for permanent bounces
+ */
+function isHardBounce(bounce: { type?: string } | undefined): boolean {
+  return !bounce?.type || bounce.type === "Permanent";
+}
+
+/**
+ * Alert the owner when a customer's email bounced so they can phone them
+ * Emails to anyone else (e.g. the owner's own notifications) only go in the audit trail.
+ */
+async function alertOwnerOfBounce(
+  email: OutboxEmail,
+  bounceMessage: string | undefined,
+  bouncedAt: string,
+  env: Env
+): Promise<void> {
+  if (!email.transactionId) return;
+
+  const booking = await fetchBookingDetails(email.transactionId, env);
+  if (!booking || booking.customerEmail.toLowerCase() !== email.to.toLowerCase()) {
+    return;
+  }
+
+  try {
+    await sendOwnerBounceAlert(booking, email, bounceMessage ?? "The recipient's mail server rejected the email", bouncedAt, env);
+  } catch (error) {
+    logger.error("webhook.resend.bounce_alert.failed", {
+      transactionId: booking.transactionId.slice(0, 12),
+      willRetry: isQueuedForRetry(error),
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Handle a customer's self-service cancellation
+ *
+ * Same shape as the owner decision: GET shows a confirmation page with an
+ * optional reason field, the CSRF-protected POST cancels. Bookings within
+ * CANCELLATION_CUTOFF_HOURS of pickup must be cancelled by phone. A ride of a
+ * recurring series can be cancelled alone or with the rides after it.
+ */
+async function handleCustomerCancel(request: Request, env: Env): Promise<Response> {
+  if (request.method !== "GET" && request.method !== "POST") {
+    return new Response("Method not allowed", { status: 405, headers: { Allow: "GET, POST" } });
+  }
+
+  const url = new URL(request.url);
+  const token = decodePathSegment(url.pathname.split("/")[2] ?? "");
+
+  if (!env.ACTION_SIGNING_SECRET) {
+    logger.error("cancel.config_error", { error: "Missing ACTION_SIGNING_SECRET" });
+    return renderErrorPage("Error", "An error occurred processing your request.", 500);
+  }
+
+  const verification = await verifyActionToken(env, token, "cancel");
+  if (!verification.valid) {
+    logger.warn("cancel.token_rejected", { reason: verification.reason });
+    return renderInvalidTokenPage(verification.reason, "customer");
+  }
+
+  const transactionId = verification.claims.tid;
+  const cutoffHours = parseCutoffHours(env.CANCELLATION_CUTOFF_HOURS);
+
+  try {
+    const booking = await fetchBookingDetails(transactionId, env);
+    if (!booking) {
+      logger.error("cancel.booking_not_found", { transactionId: transactionId.slice(0, 12) });
+      return renderErrorPage("Booking Not Found", "We could not find this booking. Please contact us directly.");
+    }
+
+    const check = checkSelfCancellation(booking, cutoffHours, Date.now(), businessTimeZone(env));
+    if (!check.allowed) {
+      logger.info("cancel.not_allowed", {
+        transactionId: transactionId.slice(0, 12),
+        reason: check.reason,
+        status: booking.status,
+      });
+      return renderCannotCancelPage(check.reason, booking, cutoffHours, env);
+    }
+
+    if (request.method === "GET") {
+      const csrf = await issueCsrfToken(env.ACTION_SIGNING_SECRET, token);
+      const laterRides = laterSeriesRides(booking, await lookupSeriesRides(booking, env), cutoffHours, env);
+      logger.info("cancel.review", { transactionId: transactionId.slice(0, 12), laterSeriesRides: laterRides.length });
+      return renderCancelReviewPage(booking, csrf.formToken, csrf.setCookie, env, laterRides.length);
+    }
+
+    if (!isSameOrigin(request)) {
+      logger.warn("cancel.csrf_rejected", { transactionId: transactionId.slice(0, 12), reason: "origin" });
+      return renderErrorPage("Request Blocked", "This form must be submitted from the cancellation page.", 403);
+    }
+
+    const form = await readFormFields(request);
+    const csrfValid = await verifyCsrfToken(env.ACTION_SIGNING_SECRET, token, request, form[CSRF_FIELD_NAME] ?? null);
+    if (!csrfValid) {
+      logger.warn("cancel.csrf_rejected", { transactionId: transactionId.slice(0, 12), reason: "token" });
+      return renderErrorPage(
+        "Request Blocked",
+        "This cancellation form has expired. Please open the cancel link from your booking email again.",
+        403
+      );
+    }
+
+    const reason = (form.reason ?? "").trim().slice(0, MAX_CANCELLATION_REASON_LENGTH);
+    const cancelRemaining = form.scope === "remaining";
+
+    let transition: TransitionResult;
+    try {
+      transition = await transitionBookingStatus(transactionId, "Cancelled", env, {
+        metadata: reason || undefined,
+      });
+    } catch (error) {
+      if (error instanceof InvalidTransitionError) {
+        // Decided or cancelled while the page was open
+        return renderCannotCancelPage("status", { ...booking, status: error.from }, cutoffHours, env);
+      }
+      throw error;
+    }
+
+    // Before notifying, so the cancellation emails list only the rides still booked
+    const seriesRidesCancelled = cancelRemaining
+      ? await cancelLaterSeriesRides(transition.booking, reason, cutoffHours, env)
+      : 0;
+
+    await notifyTransition(transition, env);
+
+    logger.info("cancel.complete", {
+      transactionId: transactionId.slice(0, 12),
+      from: transition.from,
+      withReason: Boolean(reason),
+      seriesRidesCancelled,
+    });
+
+    return renderCancelledPage(transition.booking, env, seriesRidesCancelled);
+  } catch (error) {
+    logger.error("cancel.error", {
+      transactionId: transactionId.slice(0, 12),
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return renderErrorPage("Error", "An error occurred processing your request.");
+  }
+}
+
+/**
+ * Rides of a booking's series after it that the customer can still cancel online
+ */
+function laterSeriesRides(
+  booking: SubmissionSummary,
+  rides: BookingRecord[],
+  cutoffHours: number,
+  env: Env
+): BookingRecord[] {
+  const now = Date.now();
+  const timeZone = businessTimeZone(env);
+  const pickup = Date.parse(booking.pickupDatetime);
+  return rides.filter(ride =>
+    Date.parse(ride.pickupDatetime) > pickup && checkSelfCancellation(ride, cutoffHours, now, timeZone).allowed);
+}
+
+/**
+ * Cancel the rides of a series after `booking` along with it
+ * The rides get no emails of their own: the customer chose to cancel them, and
+ * the owner's cancellation email for `booking` lists the rides still booked.
+ */
+async function cancelLaterSeriesRides(
+  booking: BookingRecord,
+  reason: string,
+  cutoffHours: number,
+  env: Env
+): Promise<number> {
+  const rides = laterSeriesRides(booking, await lookupSeriesRides(booking, env), cutoffHours, env);
+
+  let cancelled = 0;
+  for (const ride of rides) {
+    try {
+      await transitionBookingStatus(ride.transactionId, "Cancelled", env, { metadata: reason || undefined });
+      cancelled++;
+      logger.info("cancel.series_ride", {
+        transactionId: booking.transactionId.slice(0, 12),
+        rideTransactionId: ride.transactionId.slice(0, 12),
+      });
+    } catch (error) {
+      // e.g. the owner declined this ride while the page was open
+      logger.warn("cancel.series_ride_failed", {
+        transactionId: booking.transactionId.slice(0, 12),
+        rideTransactionId: ride.transactionId.slice(0, 12),
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  return cancelled;
+}
+
+/**
+ * Handle a customer's request to move a booking to a new pickup time
+ *
+ * GET shows the current pickup and a date/time field; the CSRF-protected POST
+ * stores the proposed time and moves the booking to Reschedule Requested. The
+ * original booking stands until the owner approves or declines the new time.
+ */
+async function handleCustomerReschedule(request: Request, env: Env): Promise<Response> {
+  if (request.method !== "GET" && request.method !== "POST") {
+    return new Response("Method not allowed", { status: 405, headers: { Allow: "GET, POST" } });
+  }
+
+  const url = new URL(request.url);
+  const token = decodePathSegment(url.pathname.split("/")[2] ?? "");
+
+  if (!env.ACTION_SIGNING_SECRET) {
+    logger.error("reschedule.config_error", { error: "Missing ACTION_SIGNING_SECRET" });
+    return renderErrorPage("Error", "An error occurred processing your request.", 500);
+  }
+
+  const verification = await verifyActionToken(env, token, "reschedule");
+  if (!verification.valid) {
+    logger.warn("reschedule.token_rejected", { reason: verification.reason });
+    return renderInvalidTokenPage(verification.reason, "customer");
+  }
+
+  const transactionId = verification.claims.tid;
+  const cutoffHours = parseCutoffHours(env.RESCHEDULE_CUTOFF_HOURS);
+
+  try {
+    const booking = await fetchBookingDetails(transactionId, env);
+    if (!booking) {
+      logger.error("reschedule.booking_not_found", { transactionId: transactionId.slice(0, 12) });
+      return renderErrorPage("Booking Not Found", "We could not find this booking. Please contact us directly.");
+    }
+
+    const check = checkSelfReschedule(booking, cutoffHours, Date.now(), businessTimeZone(env));
+    if (!check.allowed) {
+      logger.info("reschedule.not_allowed", {
+        transactionId: transactionId.slice(0, 12),
+        reason: check.reason,
+        status: booking.status,
+      });
+      return renderCannotReschedulePage(check.reason, booking, cutoffHours, env);
+    }
+
+    if (request.method === "GET") {
+      const csrf = await issueCsrfToken(env.ACTION_SIGNING_SECRET, token);
+      logger.info("reschedule.review", { transactionId: transactionId.slice(0, 12) });
+      return renderRescheduleRequestPage(booking, csrf.formToken, csrf.setCookie, env);
+    }
+
+    if (!isSameOrigin(request)) {
+      logger.warn("reschedule.csrf_rejected", { transactionId: transactionId.slice(0, 12), reason: "origin" });
+      return renderErrorPage("Request Blocked", "This form must be submitted from the reschedule page.", 403);
+    }
+
+    const form = await readFormFields(request);
+    const csrfValid = await verifyCsrfToken(env.ACTION_SIGNING_SECRET, token, request, form[CSRF_FIELD_NAME] ?? null);
+    if (!csrfValid) {
+      logger.warn("reschedule.csrf_rejected", { transactionId: transactionId.slice(0, 12), reason: "token" });
+      return renderErrorPage(
+        "Request Blocked",
+        "This reschedule form has expired. Please open the link from your booking email again.",
+        403
+      );
+    }
+
+    const requestedPickup = normalizePickupDateTime((form.pickup_datetime ?? "").trim(), businessTimeZone(env));
+    const problem = validateRequestedPickup(requestedPickup, booking, cutoffHours, loadBookingRules(env));
+    if (problem) {
+      const csrf = await issueCsrfToken(env.ACTION_SIGNING_SECRET, token);
+      return renderRescheduleRequestPage(booking, csrf.formToken, csrf.setCookie, env, problem);
+    }
+
+    let transition: TransitionResult;
+    try {
+      transition = await transitionBookingStatus(transactionId, "Reschedule Requested", env, {
+        changes: { requestedPickupDatetime: requestedPickup },
+      });
+    } catch (error) {
+      if (error instanceof InvalidTransitionError) {
+        // Changed while the page was open
+        return renderCannotReschedulePage("status", { ...booking, status: error.from }, cutoffHours, env);
+      }
+      throw error;
+    }
+
+    await notifyTransition(transition, env);
+
+    logger.info("reschedule.requested", {
+      transactionId: transactionId.slice(0, 12),
+      from: transition.from,
+    });
+
+    return renderRescheduleRequestedPage(transition.booking, env);
+  } catch (error) {
+    logger.error("reschedule.error", {
+      transactionId: transactionId.slice(0, 12),
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return renderErrorPage("Error", "An error occurred processing your request.");
+  }
+}
+
+/**
+ * Handle the owner's approve/decline of a requested pickup time
+ *
+ * Same GET review / CSRF-protected POST shape as the accept/deny decision.
+ * Approving writes the new pickup time and moves the booking to Rescheduled;
+ * declining keeps the original time and returns it to Accepted.
+ */
+async function handleRescheduleDecision(
+  request: Request,
+  env: Env,
+  decision: "approve" | "decline"
+): Promise<Response> {
+  if (request.method !== "GET" && request.method !== "POST") {
+    return new Response("Method not allowed", { status: 405, headers: { Allow: "GET, POST" } });
+  }
+
+  const url = new URL(request.url);
+  const token = decodePathSegment(url.pathname.split("/")[2] ?? "");
+
+  if (!env.ACTION_SIGNING_SECRET) {
+    logger.error("reschedule_decision.config_error", { error: "Missing ACTION_SIGNING_SECRET" });
+    return renderErrorPage("Error", "An error occurred processing your request.", 500);
+  }
+
+  const verification = await verifyActionToken(
+    env,
+    token,
+    decision === "approve" ? "approve_reschedule" : "decline_reschedule"
+  );
+
+  if (!verification.valid) {
+    logger.warn("reschedule_decision.token_rejected", { decision, reason: verification.reason });
+    return renderInvalidTokenPage(verification.reason);
+  }
+
+  const transactionId = verification.claims.tid;
+
+  try {
+    const booking = await fetchBookingDetails(transactionId, env);
+    if (!booking) {
+      logger.error("reschedule_decision.booking_not_found", { transactionId: transactionId.slice(0, 12) });
+      return renderErrorPage("Booking Not Found", "Could not find booking details.");
+    }
+
+    const requestedPickup = booking.requestedPickupDatetime;
+    if (booking.status !== "Reschedule Requested" || !requestedPickup) {
+      return renderAlreadyProcessedPage(booking.status, booking);
+    }
+
+    if (request.method === "GET") {
+      return showRescheduleReview(token, booking, requestedPickup, decision, env);
+    }
+
+    if (!isSameOrigin(request)) {
+      logger.warn("reschedule_decision.csrf_rejected", { transactionId: transactionId.slice(0, 12), reason: "origin" });
+      return renderErrorPage("Request Blocked", "This form must be submitted from the booking review page.", 403);
+    }
+
+    const form = await readFormFields(request);
+    const csrfValid = await verifyCsrfToken(env.ACTION_SIGNING_SECRET, token, request, form[CSRF_FIELD_NAME] ?? null);
+    if (!csrfValid) {
+      logger.warn("reschedule_decision.csrf_rejected", { transactionId: transactionId.slice(0, 12), reason: "token" });
+      return renderErrorPage(
+        "Request Blocked",
+        "This confirmation form has expired. Please open the link from your notification email again.",
+        403
+      );
+    }
+
+    const conflictCheck = decision === "approve"
+      ? await checkRescheduleConflicts(booking, requestedPickup, form, env)
+      : { overridden: [] };
+    if (conflictCheck.error) {
+      logger.info("reschedule_decision.conflict_refused", {
+        transactionId: transactionId.slice(0, 12),
+        policy: conflictPolicy(env),
+      });
+      return showRescheduleReview(token, booking, requestedPickup, decision, env, conflictCheck.error);
+    }
+
+    let transition: TransitionResult;
+    try {
+      transition = decision === "approve"
+        ? await transitionBookingStatus(transactionId, "Rescheduled", env, {
+            changes: { pickupDatetime: requestedPickup, requestedPickupDatetime: null },
+            metadata: `Moved from ${booking.pickupDatetime}`,
+          })
+        : await transitionBookingStatus(transactionId, "Accepted", env, {
+            changes: { requestedPickupDatetime: null },
+            metadata: `Declined ${requestedPickup}`,
+          });
+    } catch (error) {
+      if (error instanceof InvalidTransitionError) {
+        const current = await fetchBookingDetails(transactionId, env);
+        return renderAlreadyProcessedPage(error.from, current);
+      }
+      throw error;
+    }
+
+    if (conflictCheck.overridden.length > 0) {
+      await recordConflictOverride(transactionId, conflictCheck.overridden, env);
+    }
+
+    await notifyTransition(transition, env);
+
+    logger.info("reschedule_decision.complete", {
+      transactionId: transactionId.slice(0, 12),
+      decision,
+    });
+
+    return renderRescheduleDecisionPage(decision, transition.booking, env);
+  } catch (error) {
+    logger.error("reschedule_decision.error", {
+      transactionId: transactionId.slice(0, 12),
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return renderErrorPage("Error", "An error occurred processing your request.");
+  }
+}
+
+/**
+ * Render the reschedule review page with a fresh CSRF token
+ * Approving lists the accepted rides the requested time overlaps.
+ */
+async function showRescheduleReview(
+  token: string,
+  booking: BookingRecord,
+  requestedPickupDatetime: string,
+  decision: "approve" | "decline",
+  env: Env,
+  error?: string
+): Promise<Response> {
+  const csrf = await issueCsrfToken(env.ACTION_SIGNING_SECRET, token);
+  const conflicts = decision === "approve" ? await lookupConflicts(booking, env, requestedPickupDatetime) : [];
+  logger.info("reschedule_decision.review", {
+    transactionId: booking.transactionId.slice(0, 12),
+    decision,
+    conflicts: conflicts.length,
+  });
+  return renderRescheduleReviewPage(decision, booking, requestedPickupDatetime, csrf.formToken, csrf.setCookie, env, conflicts, error);
+}
+
+/**
+ * Handle a customer taking up the alternative time suggested with a denial
+ *
+ * GET shows the suggested trip; the CSRF-protected POST submits it as a new
+ * booking request for the owner to review, with the same emails as a request
+ * from the website. The new request is keyed on the denied booking, so
+ * submitting twice never creates a second booking.
+ */
+async function handleBookAlternative(request: Request, env: Env): Promise<Response> {
+  if (request.method !== "GET" && request.method !== "POST") {
+    return new Response("Method not allowed", { status: 405, headers: { Allow: "GET, POST" } });
+  }
+
+  const requestId = generateRequestId();
+  const url = new URL(request.url);
+  const token = decodePathSegment(url.pathname.split("/")[2] ?? "");
+
+  if (!env.ACTION_SIGNING_SECRET) {
+    logger.error("alternative.config_error", { error: "Missing ACTION_SIGNING_SECRET" });
+    return renderErrorPage("Error", "An error occurred processing your request.", 500);
+  }
+
+  const verification = await verifyActionToken(env, token, "book_alternative");
+  if (!verification.valid) {
+    logger.warn("alternative.token_rejected", { reason: verification.reason });
+    return renderInvalidTokenPage(verification.reason, "customer");
+  }
+
+  const transactionId = verification.claims.tid;
+
+  try {
+    const booking = await fetchBookingDetails(transactionId, env);
+    if (!booking) {
+      logger.error("alternative.booking_not_found", { transactionId: transactionId.slice(0, 12) });
+      return renderErrorPage("Booking Not Found", "We could not find this booking. Please contact us directly.");
+    }
+
+    const alternativePickup = booking.alternativePickupDatetime;
+    if (booking.status !== "Denied" || !alternativePickup) {
+      logger.info("alternative.not_available", {
+        transactionId: transactionId.slice(0, 12),
+        status: booking.status,
+      });
+      return renderErrorPage(
+        "Time No Longer Available",
+        "This suggested pickup time is no longer available. Please contact us to find another time."
+      );
+    }
+
+    // The rules may have changed since the time was suggested, e.g. a new blackout date
+    const rules = loadBookingRules(env);
+    const alternativeTime = parsePickupDateTime(alternativePickup, rules.timeZone);
+    const ruleViolation = alternativeTime === null
+      ? "This pickup time could not be read"
+      : checkPickupRules(alternativeTime, rules);
+    if (ruleViolation) {
+      logger.info("alternative.outside_rules", {
+        transactionId: transactionId.slice(0, 12),
+        reason: ruleViolation,
+      });
+      return renderErrorPage(
+        "Time No Longer Available",
+        `${ruleViolation}. Please contact us to find another time.`
+      );
+    }
+
+    if (request.method === "GET") {
+      const csrf = await issueCsrfToken(env.ACTION_SIGNING_SECRET, token);
+      logger.info("alternative.review", { transactionId: transactionId.slice(0, 12) });
+      return renderBookAlternativePage(booking, alternativePickup, csrf.formToken, csrf.setCookie, env);
+    }
+
+    if (!isSameOrigin(request)) {
+      logger.warn("alternative.csrf_rejected", { transactionId: transactionId.slice(0, 12), reason: "origin" });
+      return renderErrorPage("Request Blocked", "This form must be submitted from the booking page.", 403);
+    }
+
+    const form = await readFormFields(request);
+    const csrfValid = await verifyCsrfToken(env.ACTION_SIGNING_SECRET, token, request, form[CSRF_FIELD_NAME] ?? null);
+    if (!csrfValid) {
+      logger.warn("alternative.csrf_rejected", { transactionId: transactionId.slice(0, 12), reason: "token" });
+      return renderErrorPage(
+        "Request Blocked",
+        "This form has expired. Please open the link from your email again.",
+        403
+      );
+    }
+
+    const original = await lookupBookingPayload(booking, env);
+    const coordination = await handleSubmission(
+      buildAlternativeSubmission(booking, alternativePickup, original),
+      env,
+      new Date().toISOString()
+    );
+    const { summary } = coordination;
+
+    if (!coordination.duplicate && env.RESEND_DRY_RUN?.toLowerCase() !== "true") {
+      await sendNewBookingNotifications(summary, env, requestId);
+    }
+
+    logger.info("alternative.requested", {
+      requestId,
+      transactionId: transactionId.slice(0, 12),
+      newTransactionId: summary.transactionId.slice(0, 12),
+      duplicate: coordination.duplicate,
+    });
+
+    return renderAlternativeRequestedPage(summary, env);
+  } catch (error) {
+    logger.error("alternative.error", {
+      requestId,
+      transactionId: transactionId.slice(0, 12),
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return renderErrorPage("Error", "An error occurred processing your request.");
+  }
+}
+
+/**
+ * The denied booking resubmitted at the suggested pickup time
+ * Stops come from the booking; the pickup and drop-off coordinates, which are
+ * only kept in the original submission, are matched to the booking's addresses.
+ */
+function buildAlternativeSubmission(
+  booking: BookingRecord,
+  alternativePickup: string,
+  original: BookingPayload | null
+): SecurityResult {
+  const note = `Suggested alternative to declined booking ${booking.transactionId.slice(0, 10).toUpperCase()}`;
+  const coordinatesAt = (address: string) =>
+    address === original?.start_location ? original.start_coordinates
+    : address === original?.end_location ? original.end_coordinates
+    : undefined;
+
+  return {
+    payload: {
+      customer_name: booking.customerName,
+      customer_email: booking.customerEmail,
+      customer_phone: booking.customerPhone ?? undefined,
+      start_location: booking.startLocation,
+      end_location: booking.endLocation,
+      pickup_datetime: alternativePickup,
+      passengers: booking.passengers,
+      estimated_distance: booking.estimatedDistance,
+      estimated_duration: booking.estimatedDuration,
+      notes: booking.notes ? `${booking.notes}\n\n${note}` : note,
+      stops: booking.stops.length > 0
+        ? booking.stops.map(stop => ({ address: stop.address, wait_minutes: stop.waitMinutes ?? undefined }))
+        : undefined,
+      start_coordinates: coordinatesAt(booking.startLocation),
+      end_coordinates: coordinatesAt(booking.endLocation),
+    },
+    idempotencyKey: `alternative-${booking.transactionId}`,
+    customerEmail: booking.customerEmail,
+  };
+}
+
+/**
+ * Check a customer's proposed pickup time, returning the message to show
+ * when it can't be requested (null when it is acceptable)
+ */
+function validateRequestedPickup(
+  requestedPickup: string | null,
+  booking: BookingDetails,
+  cutoffHours: number,
+  rules: BookingRules,
+  now: number = Date.now()
+): string | null {
+  const requestedTime = requestedPickup ? parsePickupDateTime(requestedPickup, rules.timeZone) : null;
+  if (requestedTime === null) {
+    return "Please choose a new pickup date and time.";
+  }
+  if (requestedTime <= now + cutoffHours * 60 * 60 * 1000) {
+    return cutoffHours > 0
+      ? `The new pickup time must be at least ${cutoffHours} hours from now.`
+      : "The new pickup time must be in the future.";
+  }
+  const ruleViolation = checkPickupRules(requestedTime, rules, now);
+  if (ruleViolation) {
+    return `${ruleViolation}.`;
+  }
+  if (requestedTime === parsePickupDateTime(booking.pickupDatetime, rules.timeZone)) {
+    return "That is your current pickup time. Please choose a different time.";
+  }
+  return null;
+}
+
+/**
+ * Customer/owner/driver notifications per lifecycle transition
+ * Keys are "From -> To" (or "* -> To" for any source); transitions without an
+ * entry send no email.
+ */
+const TRANSITION_NOTIFICATIONS: TransitionHookTable<Env> = {
+  [transitionKey(DEFAULT_STATUS, "Accepted")]: {
+    customer: notifyCustomerAccepted,
+    owner: notifyOwnerDecisionDelivered,
+    driver: ({ booking }, env) => sendDriverAssignment(booking, env),
+  },
+  [transitionKey(DEFAULT_STATUS, "Denied")]: {
+    customer: ({ booking }, env) => sendCustomerDenial(booking, env),
+    owner: notifyOwnerDecisionDelivered,
+  },
+  [transitionKey("*", "Cancelled")]: {
+    customer: notifyCustomerCancelled,
+    owner: ({ booking, from, metadata }, env) => sendOwnerCancellation(booking, from, metadata, env),
+  },
+  [transitionKey("*", "Reschedule Requested")]: {
+    owner: ({ booking }, env) => sendOwnerRescheduleRequest(booking, env),
+  },
+  [transitionKey("Reschedule Requested", "Rescheduled")]: {
+    customer: notifyCustomerAccepted,
+    driver: ({ booking }, env) => sendDriverAssignment(booking, env, "🚐 Job Moved"),
+  },
+  [transitionKey("Reschedule Requested", "Accepted")]: {
+    customer: ({ booking }, env) =>
+      sendCustomerConfirmation(booking, env, "Your AC Shuttles Pickup Time is Unchanged"),
+  },
+};
+
+/**
+ * Run the notification hooks for a completed transition
+ * Failures are logged and never undo the status change.
+ */
+async function notifyTransition(transition: TransitionResult, env: Env): Promise<void> {
+  const hooks = findTransitionHooks(TRANSITION_NOTIFICATIONS, transition.from, transition.to);
+  if (!hooks || env.RESEND_DRY_RUN?.toLowerCase() === "true") {
+    return;
+  }
+
+  const logContext = {
+    transactionId: transition.booking.transactionId.slice(0, 12),
+    from: transition.from,
+    to: transition.to,
+  };
+
+  let customerNotified = false;
+  if (hooks.customer) {
+    try {
+      await hooks.customer(transition, env);
+      customerNotified = true;
+      logger.info("lifecycle.customer_notification.sent", logContext);
+    } catch (error) {
+      logger.error("lifecycle.customer_notification.failed", {
+        ...logContext,
+        error: error instanceof Error ? error.message : String(error),
+        willRetry: isQueuedForRetry(error),
+      });
+    }
+  }
+
+  if (hooks.owner) {
+    try {
+      await hooks.owner(transition, env, { customerNotified });
+      logger.info("lifecycle.owner_notification.sent", logContext);
+    } catch (error) {
+      logger.warn("lifecycle.owner_notification.failed", {
+        ...logContext,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  if (hooks.driver) {
+    try {
+      await hooks.driver(transition, env);
+      logger.info("lifecycle.driver_notification.sent", logContext);
+    } catch (error) {
+      logger.warn("lifecycle.driver_notification.failed", {
+        ...logContext,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
+
+/**
+ * Send the confirmation, plus the reminder right away when the trip is
+ * within 24 hours (the scheduled dispatcher would otherwise miss it)
+ * Also used when an approved reschedule moves the pickup time.
+ */
+async function notifyCustomerAccepted({ booking, to }: TransitionEvent, env: Env): Promise<void> {
+  await sendCustomerConfirmation(
+    booking,
+    env,
+    to === "Rescheduled" ? "✅ Your New AC Shuttles Pickup Time is Confirmed" : undefined
+  );
+
+  if (!isTripWithin24Hours(booking.pickupDatetime, businessTimeZone(env))) {
+    logger.info("decision.customer_reminder.scheduled", {
+      transactionId: booking.transactionId.slice(0, 12),
+      note: "Reminder will be sent by the scheduled dispatcher within 24 hours of trip",
+    });
+    return;
+  }
+
+  try {
+    await sendCustomerReminder(booking, env);
+    logger.info("decision.customer_reminder.sent", {
+      transactionId: booking.transactionId.slice(0, 12),
+      reason: "Trip within 24 hours of confirmation",
+    });
+    // Mark so the scheduled dispatcher doesn't send it again
+    await markReminderSent(booking.transactionId, env, new Date().toISOString());
+  } catch (reminderError) {
+    // Don't fail if reminder fails - confirmation was sent
+    logger.warn("decision.customer_reminder.failed", {
+      transactionId: booking.transactionId.slice(0, 12),
+      error: reminderError instanceof Error ? reminderError.message : String(reminderError),
+    });
+  }
+}
+
+/**
+ * Withdraw the calendar invite of a confirmed booking
+ * Bookings cancelled before they were confirmed never had one.
+ */
+async function notifyCustomerCancelled({ booking, from }: TransitionEvent, env: Env): Promise<void> {
+  if (!(CONFIRMED_STATUSES as readonly string[]).includes(from)) {
+    return;
+  }
+  await sendCustomerCancellation(booking, env);
+}
+
+/**
+ * Tell the owner the customer has been notified of their decision
+ */
+async function notifyOwnerDecisionDelivered(
+  { booking, to }: TransitionEvent,
+  env: Env,
+  { customerNotified }: OwnerNotificationContext
+): Promise<void> {
+  // Nothing to confirm if the customer email didn't go out
+  if (!customerNotified || (to !== "Accepted" && to !== "Denied")) {
+    return;
+  }
+  await sendOwnerDeliveryNotification(booking, to, env);
+}
+
+/**
+ * Render the review page for a pending booking with a CSRF-protected form
+ */
+async function showDecisionReview(
+  token: string,
+  transactionId: string,
+  decision: "Accepted" | "Denied",
+  env: Env,
+  error?: string,
+  legs: DecisionLegs = "both",
+  skipped: ReadonlySet<string> = new Set(),
+  driverId: string | null = null
+): Promise<Response> {
+  try {
+    const booking = await fetchBookingDetails(transactionId, env);
+
+    if (!booking) {
+      logger.error("decision.booking_not_found", { transactionId: transactionId.slice(0, 12) });
+      return renderErrorPage("Booking Not Found", "Could not find booking details.");
+    }
+
+    if (booking.status !== DEFAULT_STATUS) {
+      return renderAlreadyProcessedPage(booking.status, booking);
+    }
+
+    const csrf = await issueCsrfToken(env.ACTION_SIGNING_SECRET, token);
+    const conflicts = decision === "Accepted" ? await lookupConflicts(booking, env, booking.pickupDatetime, driverId) : [];
+    const drivers = decision === "Accepted" ? await lookupActiveDrivers(transactionId, env) : [];
+    const returnLeg = await lookupReturnLeg(booking, env);
+    const pendingReturnLeg = returnLeg?.status === DEFAULT_STATUS ? returnLeg : null;
+    const returnConflicts = decision === "Accepted" && pendingReturnLeg
+      ? await lookupConflicts(pendingReturnLeg, env, pendingReturnLeg.pickupDatetime, driverId)
+      : [];
+    const pendingSeriesRides = await lookupPendingSeriesRides(booking, env);
+    const seriesConflicts = decision === "Accepted"
+      ? await lookupRideConflicts(transactionId, pendingSeriesRides, env, driverId)
+      : new Map<string, BookingConflict[]>();
+
+    logger.info("decision.review", {
+      transactionId: transactionId.slice(0, 12),
+      decision,
+      conflicts: conflicts.length,
+      returnConflicts: returnConflicts.length,
+      drivers: drivers.length,
+      roundTrip: Boolean(pendingReturnLeg),
+      seriesRides: pendingSeriesRides.length,
+      seriesConflicts: seriesConflicts.size,
+    });
+
+    return renderDecisionReviewPage(decision, booking, csrf.formToken, csrf.setCookie, env, conflicts, drivers, error, {
+      returnLeg: pendingReturnLeg,
+      legs,
+      conflicts: returnConflicts,
+    }, {
+      rides: pendingSeriesRides,
+      skipped,
+      conflicts: seriesConflicts,
+    }, driverId);
+  } catch (error) {
+    logger.error("decision.review.error", {
+      transactionId: transactionId.slice(0, 12),
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return renderErrorPage("Error", "An error occurred processing your request.");
+  }
+}
+
+/**
+ * Read the string fields of a submitted form (empty when the body is not a form)
+ */
+async function readFormFields(request: Request): Promise<Record<string, string>> {
+  const fields: Record<string, string> = {};
+  try {
+    for (const [name, value] of await request.formData()) {
+      if (typeof value === "string") {
+        fields[name] = value;
+      }
+    }
+  } catch {
+    // Not a form body - leave empty so the CSRF check fails
+  }
+  return fields;
+}
+
+/**
+ * Decode the percent-escapes of a path segment
+ * A malformed escape (e.g. "%ZZ") is kept as written, so it matches no token,
+ * id or secret and the route answers as it does for any unknown value.
+ */
+function decodePathSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
+
+/**
+ * Send reminder emails for accepted trips starting within the reminder window
+ *
+ * Runs from the Cron Trigger. Each booking is marked after its reminder is
+ * sent, so overlapping or repeated runs never email a customer twice.
+ */
+async function dispatchReminders(env: Env, now: number): Promise<void> {
+  const windowHours = parseReminderWindowHours(env.REMINDER_WINDOW_HOURS);
+
+  if (env.RESEND_DRY_RUN?.toLowerCase() === "true") {
+    logger.info("reminders.skipped", { reason: "dry_run" });
+    return;
+  }
+
+  let due;
+  try {
+    due = await findBookingsDueForReminder(env, now, windowHours);
+  } catch (error) {
+    logger.error("reminders.scan.failed", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+
+  logger.info("reminders.scan.complete", {
+    due: due.length,
+    windowHours,
+    scheduledAt: new Date(now).toISOString(),
+  });
+
+  let sent = 0;
+  for (const booking of due) {
+    try {
+      await sendCustomerReminder(booking, env);
+    } catch (error) {
+      // Leave unmarked so the next run retries; it reuses this outbox email
+      // (same dedupe key), so the customer still gets only one reminder
+      logger.warn("reminders.send.failed", {
+        transactionId: booking.transactionId.slice(0, 12),
+        error: error instanceof Error ? error.message : String(error),
+        willRetry: isQueuedForRetry(error),
+      });
+      continue;
+    }
+
+    sent++;
+    try {
+      await markReminderSent(booking.transactionId, env, new Date(now).toISOString());
+    } catch (error) {
+      logger.error("reminders.mark.failed", {
+        transactionId: booking.transactionId.slice(0, 12),
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  logger.info("reminders.complete", { due: due.length, sent });
+}
+
+/**
+ * Retry outbox emails whose next attempt is due
+ * Runs from the Cron Trigger after the reminder dispatch.
+ */
+async function retryOutboxEmails(env: Env, now: number): Promise<void> {
+  if (env.RESEND_DRY_RUN?.toLowerCase() === "true") {
+    logger.info("outbox.retry.skipped", { reason: "dry_run" });
+    return;
+  }
+
+  try {
+    await processOutbox(env, now, {
+      onDeadLetter: email => sendOwnerDeliveryFailureAlert(email, env),
+    });
+  } catch (error) {
+    logger.error("outbox.retry.failed", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+}
+
+// =============================================================================
+// Email Sending Functions
+// =============================================================================
+
+async function sendOwnerNotification(
+  summary: SubmissionSummary,
+  env: Env,
+  returnLeg: SubmissionSummary | null = null,
+  series: SubmissionSummary[] = []
+): Promise<void> {
+  const timeZone = businessTimeZone(env);
+  const workerUrl = env.WORKER_URL || "https://ac-shuttle-worker.workers.dev";
+  const { date, time } = formatPickupDateTime(summary.pickupDatetime, timeZone);
+  const acceptToken = await createActionToken(env, summary.transactionId, "accept");
+  const denyToken = await createActionToken(env, summary.transactionId, "deny");
+  const fleet = loadFleet(env);
+  const [suggestedVehicle] = vehiclesForPassengers(summary.passengers, fleet);
+
+  const emailData: OwnerNotificationData = {
+    customerName: summary.customerName,
+    customerEmail: summary.customerEmail,
+    customerPhone: summary.customerPhone,
+    startLocation: summary.startLocation,
+    endLocation: summary.endLocation,
+    stops: summary.stops,
+    pickupTime: time,
+    pickupDate: date,
+    passengers: String(summary.passengers),
+    estimatedDistance: summary.estimatedDistance,
+    estimatedDuration: summary.estimatedDuration,
+    notes: summary.notes || undefined,
+    bookingRef: summary.transactionId.slice(0, 10).toUpperCase(),
+    acceptUrl: `${workerUrl}/accept/${acceptToken}`,
+    denyUrl: `${workerUrl}/deny/${denyToken}`,
+    mapUrl: summary.mapUrl,
+    conflicts: describeConflicts(await lookupConflicts(summary, env), timeZone),
+    vehicleName: suggestedVehicle?.name,
+    vehicleCapacity: suggestedVehicle ? describeVehicleCapacity(suggestedVehicle) : undefined,
+    capacityWarning: describeOverCapacity(summary.passengers, fleet) ?? undefined,
+    serviceAreaWarning: describeServiceAreaWarning(summary.serviceArea) ?? undefined,
+    quote: displayReservationQuote(summary.quote, returnLeg?.quote ?? null),
+    returnTrip: returnLeg ? returnTripSummary(returnLeg, timeZone) : undefined,
+    acceptOutboundOnlyUrl: returnLeg ? `${workerUrl}/accept/${acceptToken}?legs=outbound` : undefined,
+    series: series.length > 0 ? seriesSummary(series, timeZone) : undefined,
+  };
+
+  const { html, text } = generateOwnerNotificationEmail(emailData);
+
+  await sendEmail(env, {
+    from: `AC Shuttles <${env.CUSTOMER_FROM_EMAIL}>`,
+    to: env.OWNER_EMAIL,
+    subject: returnLeg
+      ? `🚐 New Round Trip: ${summary.customerName} - ${summary.startLocation} ⇄ ${summary.endLocation}`
+      : series.length > 0
+      ? `🔁 New Recurring Booking: ${summary.customerName} - ${summary.startLocation} → ${summary.endLocation}`
+      : `🚐 New Booking: ${summary.customerName} - ${summary.startLocation} → ${summary.endLocation}`,
+    html,
+    text,
+    tags: ["owner-notification", "booking-request"],
+  }, { transactionId: summary.transactionId });
+}
+
+async function sendCustomerAcknowledgment(
+  summary: SubmissionSummary,
+  env: Env,
+  returnLeg: SubmissionSummary | null = null,
+  series: SubmissionSummary[] = []
+): Promise<void> {
+  const timeZone = businessTimeZone(env);
+  const { date, time } = formatPickupDateTime(summary.pickupDatetime, timeZone);
+
+  const emailData: CustomerSubmissionAckData = {
+    customerName: summary.customerName,
+    customerEmail: summary.customerEmail,
+    startLocation: summary.startLocation,
+    endLocation: summary.endLocation,
+    stops: summary.stops,
+    pickupDate: date,
+    pickupTime: time,
+    passengers: String(summary.passengers),
+    bookingRef: summary.transactionId.slice(0, 10).toUpperCase(),
+    cancelUrl: await buildCustomerActionUrl(summary, "cancel", env),
+    quote: displayReservationQuote(summary.quote, returnLeg?.quote ?? null),
+    returnTrip: returnLeg ? returnTripSummary(returnLeg, timeZone) : undefined,
+    series: series.length > 0 ? seriesSummary(series, timeZone) : undefined,
+    contactEmail: env.CUSTOMER_FROM_EMAIL,
+    contactPhone: env.DRIVER_CONTACT_PHONE || "",
+  };
+
+  const { html, text } = generateCustomerSubmissionAckEmail(emailData);
+
+  await sendEmail(env, {
+    from: `AC Shuttles <${env.CUSTOMER_FROM_EMAIL}>`,
+    to: summary.customerEmail,
+    subject: "We received your booking request - AC Shuttles",
+    html,
+    text,
+    tags: ["customer-acknowledgment"],
+  }, { transactionId: summary.transactionId });
+}
+
+async function sendCustomerConfirmation(
+  booking: BookingRecord,
+  env: Env,
+  subject: string = "✅ Your AC Shuttles Booking is Confirmed!"
+): Promise<void> {
+  const timeZone = businessTimeZone(env);
+  const { date, time } = formatPickupDateTime(booking.pickupDatetime, timeZone);
+  const driver = bookingDriver(booking, env);
+  const returnLeg = await lookupReturnLeg(booking, env);
+  const returnConfirmed = returnLeg !== null && (CONFIRMED_STATUSES as readonly string[]).includes(returnLeg.status);
+  const returnDeclined = returnLeg?.status === "Denied";
+  const seriesRides = await lookupSeriesRides(booking, env);
+
+  const emailData: CustomerConfirmationData = {
+    customerName: booking.customerName,
+    customerEmail: booking.customerEmail,
+    startLocation: booking.startLocation,
+    endLocation: booking.endLocation,
+    stops: booking.stops,
+    pickupDate: date,
+    pickupTime: time,
+    passengers: String(booking.passengers),
+    estimatedDuration: booking.estimatedDuration,
+    driverName: driver.name,
+    driverPhone: driver.phone,
+    driverEmail: driver.email,
+    ...bookingVehicle(booking, env),
+    quote: displayReservationQuote(booking.quote, returnConfirmed ? returnLeg.quote : null),
+    returnTrip: returnLeg && (returnConfirmed || returnDeclined) ? returnTripSummary(returnLeg, timeZone) : undefined,
+    returnTripDeclined: returnDeclined,
+    series: seriesRides.length > 0 ? await confirmedSeriesSummary(seriesRides, env) : undefined,
+    bookingRef: booking.transactionId.slice(0, 10).toUpperCase(),
+    mapUrl: booking.mapUrl,
+    notes: booking.notes || undefined,
+    cancelUrl: await buildCustomerActionUrl(booking, "cancel", env),
+    rescheduleUrl: await buildCustomerActionUrl(booking, "reschedule", env),
+  };
+
+  const { html, text } = generateCustomerConfirmationEmail(emailData);
+
+  await sendEmail(env, {
+    from: `AC Shuttles <${env.CUSTOMER_FROM_EMAIL}>`,
+    to: booking.customerEmail,
+    subject,
+    html,
+    text,
+    tags: ["customer-confirmation", "booking-accepted"],
+    attachments: buildCalendarAttachments(booking, "REQUEST", env),
+  }, { transactionId: booking.transactionId });
+}
+
+async function sendCustomerDenial(booking: BookingRecord, env: Env): Promise<void> {
+  const timeZone = businessTimeZone(env);
+  const { date, time } = formatPickupDateTime(booking.pickupDatetime, timeZone);
+  const alternativePickup = booking.alternativePickupDatetime;
+  const alternative = alternativePickup ? formatPickupDateTime(alternativePickup, timeZone) : null;
+
+  const emailData: CustomerDenialData = {
+    customerName: booking.customerName,
+    customerEmail: booking.customerEmail,
+    startLocation: booking.startLocation,
+    endLocation: booking.endLocation,
+    stops: booking.stops,
+    pickupDate: date,
+    pickupTime: time,
+    passengers: String(booking.passengers),
+    contactPhone: env.DRIVER_CONTACT_PHONE || "",
+    contactEmail: env.CUSTOMER_FROM_EMAIL,
+    reason: booking.denialReason || undefined,
+    bookingRef: booking.transactionId.slice(0, 10).toUpperCase(),
+    alternativePickupDate: alternative?.date,
+    alternativePickupTime: alternative?.time,
+    alternativeBookingUrl: alternativePickup
+      ? await buildAlternativeBookingUrl(booking, alternativePickup, env)
+      : undefined,
+  };
+
+  const { html, text } = generateCustomerDenialEmail(emailData);
+
+  await sendEmail(env, {
+    from: `AC Shuttles <${env.CUSTOMER_FROM_EMAIL}>`,
+    to: booking.customerEmail,
+    subject: "Update on Your AC Shuttles Booking Request",
+    html,
+    text,
+    tags: ["customer-denial", "booking-denied"],
+  }, { transactionId: booking.transactionId });
+}
+
+async function sendCustomerReminder(booking: BookingRecord, env: Env): Promise<void> {
+  const timeZone = businessTimeZone(env);
+  const { date, time } = formatPickupDateTime(booking.pickupDatetime, timeZone);
+  const driver = bookingDriver(booking, env);
+
+  const emailData: CustomerReminderData = {
+    customerName: booking.customerName,
+    customerEmail: booking.customerEmail,
+    startLocation: booking.startLocation,
+    endLocation: booking.endLocation,
+    stops: booking.stops,
+    pickupDate: date,
+    pickupTime: time,
+    passengers: String(booking.passengers),
+    driverName: driver.name,
+    driverPhone: driver.phone,
+    driverEmail: driver.email || env.CUSTOMER_FROM_EMAIL,
+    bookingRef: booking.transactionId.slice(0, 10).toUpperCase(),
+    cancelUrl: await buildCustomerActionUrl(booking, "cancel", env),
+    rescheduleUrl: await buildCustomerActionUrl(booking, "reschedule", env),
+  };
+
+  const { html, text } = generateCustomerReminderEmail(emailData);
+
+  await sendEmail(env, {
+    from: `AC Shuttles <${env.CUSTOMER_FROM_EMAIL}>`,
+    to: booking.customerEmail,
+    subject: `🔔 Reminder: Your AC Shuttles Ride Tomorrow - ${date}`,
+    html,
+    text,
+    tags: ["customer-reminder", "trip-reminder"],
+    attachments: buildCalendarAttachments(booking, "REQUEST", env),
+  }, {
+    transactionId: booking.transactionId,
+    // One reminder per pickup time, whichever of the cron and the accept flow sends it first
+    dedupeKey: `reminder:${booking.transactionId}:${booking.pickupDatetime}`,
+  });
+}
+
+async function sendCustomerCancellation(booking: BookingRecord, env: Env): Promise<void> {
+  const timeZone = businessTimeZone(env);
+  const { date, time } = formatPickupDateTime(booking.pickupDatetime, timeZone);
+  const seriesRides = await lookupSeriesRides(booking, env);
+
+  const emailData: CustomerCancellationData = {
+    customerName: booking.customerName,
+    customerEmail: booking.customerEmail,
+    startLocation: booking.startLocation,
+    endLocation: booking.endLocation,
+    stops: booking.stops,
+    pickupDate: date,
+    pickupTime: time,
+    bookingRef: booking.transactionId.slice(0, 10).toUpperCase(),
+    series: seriesRides.length > 0 ? remainingSeriesSummary(booking, seriesRides, timeZone) : undefined,
+    contactPhone: env.DRIVER_CONTACT_PHONE || "",
+    contactEmail: env.CUSTOMER_FROM_EMAIL,
+  };
+
+  const { html, text } = generateCustomerCancellationEmail(emailData);
+
+  await sendEmail(env, {
+    from: `AC Shuttles <${env.CUSTOMER_FROM_EMAIL}>`,
+    to: booking.customerEmail,
+    subject: `Your AC Shuttles Ride on ${date} is Cancelled`,
+    html,
+    text,
+    tags: ["customer-cancellation", "booking-cancelled"],
+    attachments: buildCalendarAttachments(booking, "CANCEL", env),
+  }, { transactionId: booking.transactionId });
+}
+
+/**
+ * The driver to show the customer: the one assigned to the booking,
+ * otherwise the default driver (DRIVER_CONTACT_*)
+ */
+function bookingDriver(booking: BookingRecord, env: Env): { name: string; phone: string; email: string } {
+  return {
+    name: booking.driverName || env.DRIVER_CONTACT_NAME || "AC Shuttles Driver",
+    phone: booking.driverPhone || env.DRIVER_CONTACT_PHONE || "",
+    email: booking.driverEmail || env.DRIVER_CONTACT_EMAIL || "",
+  };
+}
+
+/**
+ * Vehicle assigned to a booking, with its capacity while it is still in the fleet
+ */
+function bookingVehicle(booking: BookingRecord, env: Env): { vehicleName?: string; vehicleCapacity?: string } {
+  if (!booking.vehicleName) {
+    return {};
+  }
+  const vehicle = booking.vehicleId ? findVehicle(loadFleet(env), booking.vehicleId) : null;
+  return {
+    vehicleName: booking.vehicleName,
+    vehicleCapacity: vehicle ? describeVehicleCapacity(vehicle) : undefined,
+  };
+}
+
+/**
+ * A stored quote with its amounts formatted for the emails
+ */
+function displayQuote(quote: Quote | null): QuoteSummary | undefined {
+  if (!quote) {
+    return undefined;
+  }
+  return {
+    lines: quote.lines.map(line => ({ label: line.label, amount: formatMoney(line.amount, quote.currency) })),
+    total: formatMoney(quote.total, quote.currency),
+  };
+}
+
+/**
+ * Both legs of a round trip priced together, each line labelled with its leg
+ * Just the outbound quote for a one-way ride, or when either leg has no quote.
+ */
+function displayReservationQuote(outbound: Quote | null, returnLeg: Quote | null): QuoteSummary | undefined {
+  if (!outbound || !returnLeg || outbound.currency !== returnLeg.currency) {
+    return displayQuote(outbound);
+  }
+  const legLines = (quote: Quote, leg: string) =>
+    quote.lines.map(line => ({ label: `${leg}: ${line.label}`, amount: formatMoney(line.amount, quote.currency) }));
+  return {
+    lines: [...legLines(outbound, "Outbound"), ...legLines(returnLeg, "Return")],
+    total: formatMoney(outbound.total + returnLeg.total, outbound.currency),
+  };
+}
+
+/**
+ * "1. 200 Market St, Philadelphia (15 min wait)"
+ */
+function describeStop(stop: ItineraryStop, index: number): string {
+  return `${index + 1}. ${stop.address}${stop.waitMinutes ? ` (${stop.waitMinutes} min wait)` : ""}`;
+}
+
+/**
+ * The return leg of a round trip as shown in the emails
+ */
+function returnTripSummary(returnLeg: SubmissionSummary, timeZone: string): ReturnTripSummary {
+  const { date, time } = formatPickupDateTime(returnLeg.pickupDatetime, timeZone);
+  return {
+    pickupDate: date,
+    pickupTime: time,
+    startLocation: returnLeg.startLocation,
+    endLocation: returnLeg.endLocation,
+    bookingRef: returnLeg.transactionId.slice(0, 10).toUpperCase(),
+  };
+}
+
+/**
+ * A ride of a recurring series as listed in the emails, e.g. "Mon 03/10/2025" at "8:00 AM"
+ */
+function seriesRideSummary(ride: SubmissionSummary, timeZone: string, cancelUrl?: string): SeriesRideSummary {
+  const { date, time } = formatPickupDateTime(ride.pickupDatetime, timeZone);
+  const weekday = new Intl.DateTimeFormat("en-US", { weekday: "short", timeZone }).format(new Date(ride.pickupDatetime));
+  return {
+    pickupDate: `${weekday} ${date}`,
+    pickupTime: time,
+    bookingRef: ride.transactionId.slice(0, 10).toUpperCase(),
+    cancelUrl,
+  };
+}
+
+/**
+ * The series schedule in words, e.g. "Weekly on weekdays, until 06/30/2025"
+ */
+function describeSeriesSchedule(recurrence: string | null): string {
+  const parsed = recurrence ? parseRecurrenceRule(recurrence) : null;
+  return parsed?.ok ? describeRecurrence(parsed.rule) : "Recurring";
+}
+
+/**
+ * Every ride of a newly requested series, for the owner notification and acknowledgment
+ */
+function seriesSummary(rides: SubmissionSummary[], timeZone: string): SeriesSummary {
+  return {
+    schedule: describeSeriesSchedule(rides[0].recurrence),
+    rides: rides.map(ride => seriesRideSummary(ride, timeZone)),
+  };
+}
+
+/**
+ * The confirmed series: upcoming accepted rides, each with its own cancel link,
+ * and the rides the owner skipped
+ */
+async function confirmedSeriesSummary(rides: BookingRecord[], env: Env): Promise<SeriesSummary> {
+  const timeZone = businessTimeZone(env);
+  const now = Date.now();
+  const upcoming = rides.filter(ride =>
+    (CONFIRMED_STATUSES as readonly string[]).includes(ride.status) && Date.parse(ride.pickupDatetime) > now);
+  return {
+    schedule: describeSeriesSchedule(rides[0].recurrence),
+    rides: await Promise.all(upcoming.map(async ride =>
+      seriesRideSummary(ride, timeZone, await buildCustomerActionUrl(ride, "cancel", env)))),
+    skipped: rides.filter(ride => ride.status === "Denied").map(ride => seriesRideSummary(ride, timeZone)),
+  };
+}
+
+/**
+ * The rides of a series still booked after one of them was cancelled
+ */
+function remainingSeriesSummary(cancelled: SubmissionSummary, rides: BookingRecord[], timeZone: string): SeriesSummary {
+  const now = Date.now();
+  return {
+    schedule: describeSeriesSchedule(cancelled.recurrence),
+    rides: rides
+      .filter(ride => ride.transactionId !== cancelled.transactionId && isUpcomingRide(ride, now))
+      .map(ride => seriesRideSummary(ride, timeZone)),
+  };
+}
+
+function isUpcomingRide(ride: BookingRecord, now: number): boolean {
+  return !INACTIVE_RIDE_STATUSES.includes(ride.status) && Date.parse(ride.pickupDatetime) > now;
+}
+
+/**
+ * Send the driver assigned from the roster the job: pickup, route, map link and customer contact
+ * Bookings still on the default driver get no job email, as before the roster.
+ */
+async function sendDriverAssignment(
+  booking: BookingRecord,
+  env: Env,
+  subject: string = "🚐 New Job"
+): Promise<void> {
+  const driverEmail = booking.driverEmail;
+  if (!booking.driverId || !driverEmail) {
+    return;
+  }
+  const timeZone = businessTimeZone(env);
+  const { date, time } = formatPickupDateTime(booking.pickupDatetime, timeZone);
+
+  const emailData: DriverAssignmentData = {
+    driverName: booking.driverName || "there",
+    customerName: booking.customerName,
+    customerPhone: booking.customerPhone,
+    startLocation: booking.startLocation,
+    endLocation: booking.endLocation,
+    stops: booking.stops,
+    pickupDate: date,
+    pickupTime: time,
+    passengers: String(booking.passengers),
+    estimatedDuration: booking.estimatedDuration,
+    estimatedDistance: booking.estimatedDistance,
+    notes: booking.notes,
+    mapUrl: booking.mapUrl,
+    vehicleName: booking.vehicleName,
+    bookingRef: booking.transactionId.slice(0, 10).toUpperCase(),
+  };
+
+  const { html, text } = generateDriverAssignmentEmail(emailData);
+
+  await sendEmail(env, {
+    from: `AC Shuttles <${env.CUSTOMER_FROM_EMAIL}>`,
+    to: driverEmail,
+    subject: `${subject}: ${date} ${time} - ${booking.startLocation} → ${booking.endLocation}`,
+    html,
+    text,
+    tags: ["driver-assignment"],
+  }, {
+    transactionId: booking.transactionId,
+    dedupeKey: `driver:${booking.transactionId}:${booking.driverId}:${booking.pickupDatetime}`,
+  });
+}
+
+async function sendOwnerDeliveryNotification(
+  booking: SubmissionSummary,
+  decision: "Accepted" | "Denied",
+  env: Env
+): Promise<void> {
+  const timeZone = businessTimeZone(env);
+  const { date, time } = formatPickupDateTime(booking.pickupDatetime, timeZone);
+
+  const emailData: OwnerDeliveryNotificationData = {
+    customerName: booking.customerName,
+    customerEmail: booking.customerEmail,
+    startLocation: booking.startLocation,
+    endLocation: booking.endLocation,
+    stops: booking.stops,
+    pickupDate: date,
+    pickupTime: time,
+    notificationType: decision === "Accepted" ? "accepted" : "denied",
+    deliveredAt: new Date().toISOString(),
+    bookingRef: booking.transactionId.slice(0, 10).toUpperCase(),
+    transactionId: booking.transactionId,
+    timeZone,
+  };
+
+  const { html, text } = generateOwnerDeliveryNotificationEmail(emailData);
+
+  const statusEmoji = decision === "Accepted" ? "✅" : "❌";
+  await sendEmail(env, {
+    from: `AC Shuttles <${env.CUSTOMER_FROM_EMAIL}>`,
+    to: env.OWNER_EMAIL,
+    subject: `${statusEmoji} Booking ${decision}: ${booking.customerName} notification sent`,
+    html,
+    text,
+    tags: ["owner-delivery", `booking-${decision.toLowerCase()}`],
+  }, { transactionId: booking.transactionId });
+}
+
+async function sendOwnerCancellation(
+  booking: SubmissionSummary,
+  previousStatus: string,
+  reason: string | undefined,
+  env: Env
+): Promise<void> {
+  const timeZone = businessTimeZone(env);
+  const { date, time } = formatPickupDateTime(booking.pickupDatetime, timeZone);
+  const seriesRides = await lookupSeriesRides(booking, env);
+
+  const emailData: OwnerCancellationData = {
+    customerName: booking.customerName,
+    customerEmail: booking.customerEmail,
+    customerPhone: booking.customerPhone,
+    startLocation: booking.startLocation,
+    endLocation: booking.endLocation,
+    stops: booking.stops,
+    pickupDate: date,
+    pickupTime: time,
+    passengers: String(booking.passengers),
+    previousStatus,
+    reason,
+    cancelledAt: new Date().toISOString(),
+    bookingRef: booking.transactionId.slice(0, 10).toUpperCase(),
+    transactionId: booking.transactionId,
+    series: seriesRides.length > 0 ? remainingSeriesSummary(booking, seriesRides, timeZone) : undefined,
+    timeZone,
+  };
+
+  const { html, text } = generateOwnerCancellationEmail(emailData);
+
+  await sendEmail(env, {
+    from: `AC Shuttles <${env.CUSTOMER_FROM_EMAIL}>`,
+    to: env.OWNER_EMAIL,
+    subject: `🚫 Booking Cancelled: ${booking.customerName} - ${date}`,
+    html,
+    text,
+    tags: ["owner-cancellation", "booking-cancelled"],
+  }, { transactionId: booking.transactionId });
+}
+
+async function sendOwnerRescheduleRequest(booking: BookingRecord, env: Env): Promise<void> {
+  const timeZone = businessTimeZone(env);
+  if (!booking.requestedPickupDatetime) {
+    throw new Error("Reschedule request has no requested pickup time");
+  }
+
+  const workerUrl = env.WORKER_URL || "https://ac-shuttle-worker.workers.dev";
+  const current = formatPickupDateTime(booking.pickupDatetime, timeZone);
+  const requested = formatPickupDateTime(booking.requestedPickupDatetime, timeZone);
+  const approveToken = await createActionToken(env, booking.transactionId, "approve_reschedule");
+  const declineToken = await createActionToken(env, booking.transactionId, "decline_reschedule");
+
+  const emailData: OwnerNotificationData = {
+    customerName: booking.customerName,
+    customerEmail: booking.customerEmail,
+    customerPhone: booking.customerPhone,
+    startLocation: booking.startLocation,
+    endLocation: booking.endLocation,
+    stops: booking.stops,
+    pickupTime: requested.time,
+    pickupDate: requested.date,
+    passengers: String(booking.passengers),
+    estimatedDistance: booking.estimatedDistance,
+    estimatedDuration: booking.estimatedDuration,
+    notes: booking.notes || undefined,
+    bookingRef: booking.transactionId.slice(0, 10).toUpperCase(),
+    acceptUrl: `${workerUrl}/approve-reschedule/${approveToken}`,
+    denyUrl: `${workerUrl}/decline-reschedule/${declineToken}`,
+    mapUrl: booking.mapUrl,
+    reschedule: {
+      previousPickupDate: current.date,
+      previousPickupTime: current.time,
+    },
+    conflicts: describeConflicts(await lookupConflicts(booking, env, booking.requestedPickupDatetime), timeZone),
+    ...bookingVehicle(booking, env),
+  };
+
+  const { html, text } = generateOwnerNotificationEmail(emailData);
+
+  await sendEmail(env, {
+    from: `AC Shuttles <${env.CUSTOMER_FROM_EMAIL}>`,
+    to: env.OWNER_EMAIL,
+    subject: `🔁 Reschedule Request: ${booking.customerName} - ${requested.date}`,
+    html,
+    text,
+    tags: ["owner-notification", "reschedule-request"],
+  }, { transactionId: booking.transactionId });
+}
+
+/**
+ * Accepted rides overlapping a booking, for owner emails and pages
+ * A failed lookup is logged and treated as no conflicts, so it never holds up a notification.
+ */
+async function lookupConflicts(
+  booking: SubmissionSummary & { driverId?: string | null },
+  env: Env,
+  pickupDatetime: string = booking.pickupDatetime,
+  driverId: string | null = booking.driverId ?? null
+): Promise<BookingConflict[]> {
+  try {
+    const conflicts = await findBookingConflicts(booking, env, pickupDatetime, driverId);
+    if (conflicts.length > 0) {
+      logger.warn("conflicts.detected", {
+        transactionId: booking.transactionId.slice(0, 12),
+        conflicting: conflicts.map(conflict => conflict.booking.transactionId.slice(0, 12)),
+      });
+    }
+    return conflicts;
+  } catch (error) {
+    logger.error("conflicts.lookup_failed", {
+      transactionId: booking.transactionId.slice(0, 12),
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return [];
+  }
+}
+
+/**
+ * The return leg of a round trip, given its outbound leg
+ * A failed lookup is logged and treated as a one-way ride, so the email still goes out.
+ */
+async function lookupReturnLeg(booking: SubmissionSummary, env: Env): Promise<BookingRecord | null> {
+  try {
+    return await findReturnLeg(booking, env);
+  } catch (error) {
+    logger.error("round_trip.lookup_failed", {
+      transactionId: booking.transactionId.slice(0, 12),
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
+
+/**
+ * Every ride of the recurring series a booking belongs to
+ * A failed lookup is logged and treated as a single ride, so the email still goes out.
+ */
+async function lookupSeriesRides(booking: SubmissionSummary, env: Env): Promise<BookingRecord[]> {
+  try {
+    return await findSeriesRides(booking, env);
+  } catch (error) {
+    logger.error("series.lookup_failed", {
+      transactionId: booking.transactionId.slice(0, 12),
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return [];
+  }
+}
+
+/**
+ * The later rides of a series still waiting for the owner's decision, given its first ride
+ */
+async function lookupPendingSeriesRides(first: SubmissionSummary, env: Env): Promise<BookingRecord[]> {
+  return (await lookupSeriesRides(first, env))
+    .filter(ride => ride.transactionId !== first.transactionId && ride.status === DEFAULT_STATUS);
+}
+
+/**
+ * Accepted rides of `driverId` overlapping each of several rides, keyed by transactionId
+ * A failed lookup is logged and treated as no conflicts, like lookupConflicts.
+ */
+async function lookupRideConflicts(
+  transactionId: string,
+  rides: BookingRecord[],
+  env: Env,
+  driverId: string | null
+): Promise<Map<string, BookingConflict[]>> {
+  if (rides.length === 0) {
+    return new Map();
+  }
+  try {
+    const conflicts = await findRideConflicts(rides, env, driverId);
+    if (conflicts.size > 0) {
+      logger.warn("conflicts.detected", {
+        transactionId: transactionId.slice(0, 12),
+        rides: [...conflicts.keys()].map(id => id.slice(0, 12)),
+      });
+    }
+    return conflicts;
+  } catch (error) {
+    logger.error("conflicts.lookup_failed", {
+      transactionId: transactionId.slice(0, 12),
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return new Map();
+  }
+}
+
+/**
+ * The submission a booking was created from, e.g. for coordinates the booking doesn't keep
+ * A failed lookup is logged and treated as missing, so the caller carries on without it.
+ */
+async function lookupBookingPayload(booking: SubmissionSummary, env: Env): Promise<BookingPayload | null> {
+  try {
+    return await fetchBookingPayload(booking.transactionId, env);
+  } catch (error) {
+    logger.error("booking_payload.lookup_failed", {
+      transactionId: booking.transactionId.slice(0, 12),
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
+
+/**
+ * Active drivers the owner can assign on the accept page
+ * A failed lookup (e.g. no Drivers tab yet) is logged and offers no choice,
+ * so accepting still works with the default driver.
+ */
+async function lookupActiveDrivers(transactionId: string, env: Env): Promise<Driver[]> {
+  try {
+    return await listDrivers(env, { activeOnly: true });
+  } catch (error) {
+    logger.error("drivers.lookup_failed", {
+      transactionId: transactionId.slice(0, 12),
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return [];
+  }
+}
+
+/**
+ * List items for the "Schedule Conflict" box on the owner's review pages
+ */
+function renderConflictItems(conflicts: BookingConflict[], timeZone: string): string {
+  return describeConflicts(conflicts, timeZone)
+    .map(conflict => `<li><strong>${escapeHtml(`${conflict.pickupDate} ${conflict.pickupTime} – ${conflict.busyUntil}`)}</strong> · ${escapeHtml(conflict.customerName)} (${escapeHtml(conflict.bookingRef)})<br>${escapeHtml(conflict.startLocation)} → ${escapeHtml(conflict.endLocation)}</li>`)
+    .join("\n          ");
+}
+
+function describeConflicts(conflicts: BookingConflict[], timeZone: string): ScheduleConflict[] {
+  return conflicts.map(({ booking, window }) => {
+    const { date, time } = formatPickupDateTime(booking.pickupDatetime, timeZone);
+    return {
+      customerName: booking.customerName,
+      pickupDate: date,
+      pickupTime: time,
+      busyUntil: formatPickupDateTime(formatZonedIso(window.end, timeZone), timeZone).time,
+      startLocation: booking.startLocation,
+      endLocation: booking.endLocation,
+      bookingRef: booking.transactionId.slice(0, 10).toUpperCase(),
+    };
+  });
+}
+
+/**
+ * True when a failed send is still in the outbox and will be retried by the cron
+ */
+function isQueuedForRetry(error: unknown): boolean {
+  return error instanceof EmailDeliveryError && error.willRetry;
+}
+
+/**
+ * Tell the owner the outbox gave up on an email
+ * Sent directly rather than through the outbox, so a provider outage cannot
+ * queue alerts about alerts.
+ */
+async function sendOwnerDeliveryFailureAlert(email: OutboxEmail, env: Env): Promise<void> {
+  const emailData: OwnerDeliveryFailureData = {
+    recipient: email.to,
+    subject: email.subject,
+    attempts: email.attempts,
+    lastError: email.lastError ?? "Unknown error",
+    firstQueuedAt: email.createdAt,
+    bookingRef: email.transactionId ? email.transactionId.slice(0, 10).toUpperCase() : undefined,
+    transactionId: email.transactionId ?? undefined,
+    timeZone: businessTimeZone(env),
+  };
+
+  const { html, text } = generateOwnerDeliveryFailureEmail(emailData);
+
+  await createEmailTransport(env).send({
+    from: `AC Shuttles <${env.CUSTOMER_FROM_EMAIL}>`,
+    to: env.OWNER_EMAIL,
+    subject: `⚠️ Email Not Delivered: ${email.subject}`,
+    html,
+    text,
+    tags: ["owner-alert", "email-dead-letter"],
+  });
+}
+
+async function sendOwnerBounceAlert(
+  booking: BookingRecord,
+  email: OutboxEmail,
+  bounceMessage: string,
+  bouncedAt: string,
+  env: Env
+): Promise<void> {
+  const timeZone = businessTimeZone(env);
+  const { date, time } = formatPickupDateTime(booking.pickupDatetime, timeZone);
+
+  const emailData: OwnerBounceAlertData = {
+    customerName: booking.customerName,
+    customerEmail: booking.customerEmail,
+    customerPhone: booking.customerPhone,
+    subject: email.subject,
+    bounceMessage,
+    bouncedAt,
+    pickupDate: date,
+    pickupTime: time,
+    bookingRef: booking.transactionId.slice(0, 10).toUpperCase(),
+    transactionId: booking.transactionId,
+    timeZone,
+  };
+
+  const { html, text } = generateOwnerBounceAlertEmail(emailData);
+
+  await sendEmail(env, {
+    from: `AC Shuttles <${env.CUSTOMER_FROM_EMAIL}>`,
+    to: env.OWNER_EMAIL,
+    subject: `📵 Customer Email Bounced: ${booking.customerName} - ${date}`,
+    html,
+    text,
+    tags: ["owner-alert", "email-bounced"],
+  }, { transactionId: booking.transactionId, dedupeKey: `bounce:${email.id}` });
+}
+
+/**
+ * The booking's calendar file, or none when the pickup time cannot be parsed
+ * so the email still goes out without it
+ */
+function buildCalendarAttachments(
+  booking: BookingRecord,
+  method: CalendarMethod,
+  env: Env
+): EmailAttachment[] | undefined {
+  try {
+    const ics = generateBookingCalendarInvite({
+      transactionId: booking.transactionId,
+      bookingRef: booking.transactionId.slice(0, 10).toUpperCase(),
+      startLocation: booking.startLocation,
+      endLocation: booking.endLocation,
+      pickupDatetime: booking.pickupDatetime,
+      estimatedDuration: booking.estimatedDuration,
+      mapUrl: booking.mapUrl,
+      customerName: booking.customerName,
+      customerEmail: booking.customerEmail,
+      organizerEmail: env.CUSTOMER_FROM_EMAIL,
+      driverName: booking.driverName || env.DRIVER_CONTACT_NAME,
+      driverPhone: booking.driverPhone || env.DRIVER_CONTACT_PHONE,
+      driverEmail: booking.driverEmail || env.DRIVER_CONTACT_EMAIL,
+      method,
+      sequence: calendarSequence(),
+      timeZone: businessTimeZone(env),
+    });
+
+    return [{
+      filename: method === "CANCEL" ? "cancel.ics" : "invite.ics",
+      content: ics,
+      contentType: `text/calendar; charset=utf-8; method=${method}`,
+    }];
+  } catch (error) {
+    logger.warn("calendar.invite.skipped", {
+      transactionId: booking.transactionId.slice(0, 12),
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return undefined;
+  }
+}
+
+/**
+ * Signed self-service cancel/reschedule link for customer emails
+ * The link expires at pickup; the cutoff policy is checked when it is opened.
+ */
+async function buildCustomerActionUrl(
+  booking: SubmissionSummary,
+  action: "cancel" | "reschedule",
+  env: Env
+): Promise<string> {
+  const workerUrl = env.WORKER_URL || "https://ac-shuttle-worker.workers.dev";
+  const pickupTime = parsePickupDateTime(booking.pickupDatetime, businessTimeZone(env));
+  const token = await createActionToken(
+    env,
+    booking.transactionId,
+    action,
+    undefined,
+    pickupTime ?? undefined
+  );
+  return `${workerUrl}/${action}/${token}`;
+}
+
+/**
+ * Signed link for the customer to request the alternative time suggested with a denial
+ * The link expires at the suggested pickup.
+ */
+async function buildAlternativeBookingUrl(
+  booking: SubmissionSummary,
+  alternativePickup: string,
+  env: Env
+): Promise<string> {
+  const workerUrl = env.WORKER_URL || "https://ac-shuttle-worker.workers.dev";
+  const alternativeTime = parsePickupDateTime(alternativePickup, businessTimeZone(env));
+  const token = await createActionToken(
+    env,
+    booking.transactionId,
+    "book_alternative",
+    undefined,
+    alternativeTime ?? undefined
+  );
+  return `${workerUrl}/book-alternative/${token}`;
+}
+
+// =============================================================================
+// Email API
+// =============================================================================
+
+/**
+ * Send through the outbox, which retries failed sends from the cron and
+ * alerts the owner when an email is dead-lettered
+ */
+async function sendEmail(
+  env: Env,
+  message: EmailMessage,
+  options: { transactionId?: string; dedupeKey?: string } = {}
+): Promise<EmailSendResult> {
+  return sendWithOutbox(message, env, {
+    ...options,
+    onDeadLetter: email => sendOwnerDeliveryFailureAlert(email, env),
+  });
+}
+
+// =============================================================================
+// HTML Page Renderers
+// =============================================================================
+
+// Brand colors matching the email templates
+const PAGE_COLORS = {
+  primary: '#14b8a6',
+  success: '#14b8a6',
+  danger: '#ef4444',
+  warning: '#f59e0b',
+  info: '#64748b',
+  gray100: '#f4f4f5',
+  gray200: '#e4e4e7',
+  gray500: '#71717a',
+  gray600: '#52525b',
+  gray700: '#3f3f46',
+  gray800: '#27272a',
+  gray900: '#18181b',
+  white: '#ffffff',
+  darkBg: '#0f172a',
+  darkCard: '#1e293b',
+};
+
+function renderErrorPage(title: string, message: string, status: number = 400): Response {
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(title)} - AC Shuttles</title>
+  <style>
+    * { box-sizing: border-box; }
+    body {
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+      margin: 0;
+      padding: 40px 20px;
+      background: ${PAGE_COLORS.gray100};
+      min-height: 100vh;
+    }
+    .logo { text-align: center; margin-bottom: 24px; }
+    .logo-box { display: inline-block; width: 32px; height: 32px; background: ${PAGE_COLORS.primary}; border-radius: 6px; margin-right: 10px; vertical-align: middle; }
+    .logo-text { font-size: 18px; font-weight: 700; color: ${PAGE_COLORS.gray900}; letter-spacing: 2px; vertical-align: middle; }
+    .container { max-width: 480px; margin: 0 auto; background: ${PAGE_COLORS.white}; border-radius: 12px; overflow: hidden; box-shadow: 0 1px 3px rgba(0,0,0,0.08); }
+    .indicator { background: ${PAGE_COLORS.danger}; padding: 14px; text-align: center; }
+    .indicator-text { color: ${PAGE_COLORS.white}; font-size: 12px; font-weight: 700; letter-spacing: 2px; text-transform: uppercase; }
+    .content { padding: 32px; text-align: center; }
+    .icon { font-size: 48px; margin-bottom: 16px; }
+    h1 { color: ${PAGE_COLORS.gray900}; margin: 0 0 12px 0; font-size: 22px; font-weight: 700; }
+    p { color: ${PAGE_COLORS.gray600}; line-height: 1.6; margin: 0; font-size: 15px; }
+    @media (prefers-color-scheme: dark) {
+      body { background: ${PAGE_COLORS.darkBg}; }
+      .container { background: ${PAGE_COLORS.darkCard}; }
+      .logo-text, h1 { color: #f1f5f9; }
+      p { color: #94a3b8; }
+    }
+  </style>
+</head>
+<body>
+  <div class="logo">
+    <span class="logo-box"></span>
+    <span class="logo-text">AC SHUTTLES</span>
+  </div>
+  <div class="container">
+    <div class="indicator">
+      <span class="indicator-text">✕ Error</span>
+    </div>
+    <div class="content">
+      <div class="icon">⚠️</div>
+      <h1>${escapeHtml(title)}</h1>
+      <p>${escapeHtml(message)}</p>
+    </div>
+  </div>
+</body>
+</html>`;
+
+  return new Response(html, {
+    status,
+    headers: { "Content-Type": "text/html" },
+  });
+}
+
+/**
+ * Render the error page for an action link that failed verification
+ */
+function renderInvalidTokenPage(reason: ActionTokenFailure, audience: "owner" | "customer" = "owner"): Response {
+  const isOwner = audience === "owner";
+  switch (reason) {
+    case "expired":
+      return renderErrorPage(
+        "Link Expired",
+        isOwner
+          ? "This booking link has expired. Open the booking in the spreadsheet or contact the customer directly."
+          : "This link has expired. Please contact us directly to make changes to your booking.",
+        410
+      );
+    case "tampered":
+      return renderErrorPage(
+        "Invalid Link",
+        isOwner
+          ? "This booking link could not be verified. Please use the original link from your notification email."
+          : "This link could not be verified. Please use the original link from your booking email.",
+        403
+      );
+    default:
+      return renderErrorPage("Invalid Request", "The booking link is invalid.");
+  }
+}
+
+function renderAlreadyProcessedPage(status: string, booking: SubmissionSummary | null): Response {
+  const isAccepted = status === "Accepted";
+  const statusColor = isAccepted ? PAGE_COLORS.success : PAGE_COLORS.danger;
+  const statusBg = isAccepted ? '#ccfbf1' : '#fee2e2';
+
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Already Processed - AC Shuttles</title>
+  <style>
+    * { box-sizing: border-box; }
+    body {
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+      margin: 0;
+      padding: 40px 20px;
+      background: ${PAGE_COLORS.gray100};
+      min-height: 100vh;
+    }
+    .logo { text-align: center; margin-bottom: 24px; }
+    .logo-box { display: inline-block; width: 32px; height: 32px; background: ${PAGE_COLORS.primary}; border-radius: 6px; margin-right: 10px; vertical-align: middle; }
+    .logo-text { font-size: 18px; font-weight: 700; color: ${PAGE_COLORS.gray900}; letter-spacing: 2px; vertical-align: middle; }
+    .container { max-width: 480px; margin: 0 auto; background: ${PAGE_COLORS.white}; border-radius: 12px; overflow: hidden; box-shadow: 0 1px 3px rgba(0,0,0,0.08); }
+    .indicator { background: ${PAGE_COLORS.info}; padding: 14px; text-align: center; }
+    .indicator-text { color: ${PAGE_COLORS.white}; font-size: 12px; font-weight: 700; letter-spacing: 2px; text-transform: uppercase; }
+    .content { padding: 32px; text-align: center; }
+    .icon { font-size: 48px; margin-bottom: 16px; }
+    h1 { color: ${PAGE_COLORS.gray900}; margin: 0 0 12px 0; font-size: 22px; font-weight: 700; }
+    p { color: ${PAGE_COLORS.gray600}; line-height: 1.6; margin: 0 0 16px 0; font-size: 15px; }
+    .status { display: inline-block; padding: 10px 20px; border-radius: 24px; font-weight: 700; font-size: 14px; background: ${statusBg}; color: ${statusColor}; border: 2px solid ${statusColor}; }
+    .booking-info { margin-top: 20px; padding: 16px; background: ${PAGE_COLORS.gray100}; border-radius: 8px; text-align: left; }
+    .booking-info strong { color: ${PAGE_COLORS.gray900}; }
+    .booking-info span { color: ${PAGE_COLORS.gray600}; font-size: 14px; }
+    @media (prefers-color-scheme: dark) {
+      body { background: ${PAGE_COLORS.darkBg}; }
+      .container { background: ${PAGE_COLORS.darkCard}; }
+      .logo-text, h1, .booking-info strong { color: #f1f5f9; }
+      p, .booking-info span { color: #94a3b8; }
+      .booking-info { background: ${PAGE_COLORS.darkBg}; }
+    }
+  </style>
+</head>
+<body>
+  <div class="logo">
+    <span class="logo-box"></span>
+    <span class="logo-text">AC SHUTTLES</span>
+  </div>
+  <div class="container">
+    <div class="indicator">
+      <span class="indicator-text">ℹ️ Already Processed</span>
+    </div>
+    <div class="content">
+      <div class="icon">📋</div>
+      <h1>Booking Already Processed</h1>
+      <p>This link has already been used. The booking was previously marked as:</p>
+      <div class="status">${isAccepted ? '✓' : '✕'} ${escapeHtml(status)}</div>
+      ${booking ? `
+      <div class="booking-info">
+        <strong>${escapeHtml(booking.customerName)}</strong><br>
+        <span>${escapeHtml(booking.startLocation)} → ${escapeHtml(booking.endLocation)}</span>
+      </div>
+      ` : ""}
+    </div>
+  </div>
+</body>
+</html>`;
+
+  return new Response(html, {
+    status: 200,
+    headers: { "Content-Type": "text/html" },
+  });
+}
+
+function renderDecisionReviewPage(
+  decision: "Accepted" | "Denied",
+  booking: BookingDetails,
+  csrfToken: string,
+  setCookie: string,
+  env: Env,
+  conflicts: BookingConflict[] = [],
+  drivers: Driver[] = [],
+  error?: string,
+  roundTrip: { returnLeg: BookingRecord | null; legs: DecisionLegs; conflicts: BookingConflict[] } = { returnLeg: null, legs: "both", conflicts: [] },
+  series: {
+    rides: BookingRecord[];
+    skipped: ReadonlySet<string>;
+    conflicts: ReadonlyMap<string, BookingConflict[]>;
+  } = { rides: [], skipped: new Set(), conflicts: new Map() },
+  driverId: string | null = null
+): Response {
+  const timeZone = businessTimeZone(env);
+  const isAccept = decision === "Accepted";
+  const { returnLeg } = roundTrip;
+  const policy: ConflictPolicy = conflictPolicy(env);
+  const seriesItems = series.rides
+    .map(ride => {
+      const { pickupDate, pickupTime } = seriesRideSummary(ride, timeZone);
+      const fieldName = `${SKIP_RIDE_FIELD_PREFIX}${ride.transactionId}`;
+      const overlaps = series.conflicts.has(ride.transactionId);
+      // Under block an overlapping ride is skipped whatever the box says
+      const forced = overlaps && policy === "block";
+      return `<label class="override" for="${escapeHtml(fieldName)}">
+          <input type="checkbox" id="${escapeHtml(fieldName)}" name="${escapeHtml(fieldName)}" value="yes"${series.skipped.has(ride.transactionId) || forced ? " checked" : ""}${forced ? " disabled" : ""}>
+          <span>Skip ${escapeHtml(pickupDate)} at ${escapeHtml(pickupTime)}${overlaps ? " - overlaps an accepted ride" : ""}</span>
+        </label>`;
+    })
+    .join("\n        ");
+  const seriesConflictItems = series.rides
+    .filter(ride => series.conflicts.has(ride.transactionId))
+    .map(ride => {
+      const { pickupDate, pickupTime } = seriesRideSummary(ride, timeZone);
+      return `<li><strong>${escapeHtml(`${pickupDate} at ${pickupTime}`)}</strong> overlaps:
+          <ul>
+          ${renderConflictItems(series.conflicts.get(ride.transactionId) ?? [], timeZone)}
+          </ul>
+        </li>`;
+    })
+    .join("\n          ");
+  const returnPickup = returnLeg ? formatPickupDateTime(returnLeg.pickupDatetime, timeZone) : null;
+  const actionColor = isAccept ? PAGE_COLORS.success : PAGE_COLORS.danger;
+  const { date, time } = formatPickupDateTime(booking.pickupDatetime, timeZone);
+  const pickup = date === time ? date : `${date} at ${time}`;
+  const blocked = conflicts.length > 0 && policy === "block";
+  const conflictItems = renderConflictItems(conflicts, timeZone);
+  const returnConflicts = returnLeg ? roundTrip.conflicts : [];
+  const chosenDriver = drivers.find(driver => driver.id === driverId);
+  const driverOptions = drivers
+    .map(driver => `<option value="${escapeHtml(driver.id)}"${driver.id === driverId ? " selected" : ""}>${escapeHtml(driver.name)}${driver.phone ? ` · ${escapeHtml(driver.phone)}` : ""}</option>`)
+    .join("\n          ");
+  const fleet = loadFleet(env);
+  const capacityWarning = describeOverCapacity(booking.passengers, fleet);
+  const serviceAreaWarning = describeServiceAreaWarning(booking.serviceArea);
+  const vehicleOptions = vehicleChoices(booking.passengers, fleet)
+    .map(vehicle => `<option value="${escapeHtml(vehicle.id)}">${escapeHtml(vehicle.name)} · ${escapeHtml(describeVehicleCapacity(vehicle))}</option>`)
+    .join("\n          ");
+  const reasonOptions = (Object.entries(DENIAL_REASONS) as [DenialReasonCode, { label: string }][])
+    .map(([code, { label }]) => `<option value="${code}">${escapeHtml(label)}</option>`)
+    .join("\n          ");
+
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta name="robots" content="noindex, nofollow">
+  <title>Review Booking - AC Shuttles</title>
+  <style>
+    * { box-sizing: border-box; }
+    body {
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+      margin: 0;
+      padding: 40px 20px;
+      background: ${PAGE_COLORS.gray100};
+      min-height: 100vh;
+    }
+    .logo { text-align: center; margin-bottom: 24px; }
+    .logo-box { display: inline-block; width: 32px; height: 32px; background: ${PAGE_COLORS.primary}; border-radius: 6px; margin-right: 10px; vertical-align: middle; }
+    .logo-text { font-size: 18px; font-weight: 700; color: ${PAGE_COLORS.gray900}; letter-spacing: 2px; vertical-align: middle; }
+    .container { max-width: 520px; margin: 0 auto; background: ${PAGE_COLORS.white}; border-radius: 12px; overflow: hidden; box-shadow: 0 1px 3px rgba(0,0,0,0.08); }
+    .indicator { background: ${PAGE_COLORS.warning}; padding: 14px; text-align: center; }
+    .indicator-text { color: ${PAGE_COLORS.white}; font-size: 12px; font-weight: 700; letter-spacing: 2px; text-transform: uppercase; }
+    .content { padding: 32px; }
+    h1 { color: ${PAGE_COLORS.gray900}; text-align: center; margin: 0 0 12px 0; font-size: 24px; font-weight: 700; }
+    .message { text-align: center; color: ${PAGE_COLORS.gray600}; margin: 0 0 24px 0; font-size: 15px; line-height: 1.5; }
+    .details { background: ${PAGE_COLORS.gray100}; border-radius: 10px; padding: 20px; border: 1px solid ${PAGE_COLORS.gray200}; }
+    .detail-row { display: flex; justify-content: space-between; padding: 10px 0; border-bottom: 1px solid ${PAGE_COLORS.gray200}; }
+    .detail-row:last-child { border-bottom: none; }
+    .label { color: ${PAGE_COLORS.gray500}; font-size: 14px; }
+    .value { color: ${PAGE_COLORS.gray900}; font-weight: 600; font-size: 14px; text-align: right; max-width: 60%; word-break: break-word; }
+    .ref-badge { margin-top: 20px; padding: 14px; background: ${PAGE_COLORS.gray900}; border-radius: 8px; text-align: center; }
+    .ref-label { color: ${PAGE_COLORS.gray500}; font-size: 10px; font-weight: 600; text-transform: uppercase; letter-spacing: 1px; margin-bottom: 4px; }
+    .ref-value { color: ${PAGE_COLORS.primary}; font-family: 'SF Mono', Monaco, monospace; font-size: 16px; font-weight: 700; letter-spacing: 2px; }
+    .error { margin: 0 0 20px 0; padding: 12px 16px; border-radius: 8px; background: #fee2e2; color: ${PAGE_COLORS.danger}; font-size: 14px; font-weight: 600; }
+    .conflicts { margin: 0 0 20px 0; padding: 16px; border-radius: 8px; background: #fee2e2; border: 1px solid ${PAGE_COLORS.danger}; color: ${PAGE_COLORS.gray900}; font-size: 14px; line-height: 1.5; }
+    .conflicts-title { color: ${PAGE_COLORS.danger}; font-size: 12px; font-weight: 700; letter-spacing: 1px; text-transform: uppercase; margin: 0 0 8px 0; }
+    .conflicts ul { margin: 0; padding-left: 18px; }
+    .conflicts li { margin-top: 6px; }
+    .override { display: flex; gap: 8px; align-items: flex-start; }
+    .override input { margin-top: 3px; }
+    form { margin-top: 24px; }
+    label { display: block; color: ${PAGE_COLORS.gray600}; font-size: 14px; margin: 0 0 8px 0; }
+    select, textarea, input[type="datetime-local"] { width: 100%; margin-bottom: 16px; padding: 12px; border: 1px solid ${PAGE_COLORS.gray200}; border-radius: 8px; font: inherit; font-size: 15px; }
+    textarea { min-height: 72px; resize: vertical; }
+    button { width: 100%; padding: 16px; border: none; border-radius: 8px; background: ${actionColor}; color: ${PAGE_COLORS.white}; font-size: 15px; font-weight: 700; letter-spacing: 1px; text-transform: uppercase; cursor: pointer; }
+    @media (prefers-color-scheme: dark) {
+      body { background: ${PAGE_COLORS.darkBg}; }
+      .container { background: ${PAGE_COLORS.darkCard}; }
+      .logo-text, h1, .value { color: #f1f5f9; }
+      .message, .label, label { color: #94a3b8; }
+      .details { background: ${PAGE_COLORS.darkBg}; border-color: #334155; }
+      .detail-row { border-color: #334155; }
+      select, textarea, input[type="datetime-local"] { background: ${PAGE_COLORS.darkBg}; border-color: #334155; color: #f1f5f9; }
+    }
+  </style>
+</head>
+<body>
+  <div class="logo">
+    <span class="logo-box"></span>
+    <span class="logo-text">AC SHUTTLES</span>
+  </div>
+  <div class="container">
+    <div class="indicator">
+      <span class="indicator-text">Awaiting Your Decision</span>
+    </div>
+    <div class="content">
+      <h1>${isAccept ? "Confirm this booking?" : "Decline this booking?"}</h1>
+      <p class="message">
+        ${isAccept
+          ? "The customer will receive a confirmation email with driver contact information."
+          : "The customer will be notified that this ride is not available."}
+        ${returnLeg && !isAccept ? " The return ride will be declined too." : ""}
+        ${series.rides.length > 0 && !isAccept ? " Every ride of the series will be declined." : ""}
+      </p>
+      ${error ? `<div class="error">${escapeHtml(error)}</div>` : ""}
+      ${serviceAreaWarning ? `
+      <div class="conflicts">
+        <p class="conflicts-title">⚠ ${escapeHtml(serviceAreaWarning.title)}</p>
+        ${escapeHtml(serviceAreaWarning.message)}
+      </div>
+      ` : ""}
+      ${capacityWarning ? `
+      <div class="conflicts">
+        <p class="conflicts-title">⚠ Over Capacity</p>
+        ${escapeHtml(capacityWarning)}
+      </div>
+      ` : ""}
+      ${conflicts.length > 0 ? `
+      <div class="conflicts">
+        <p class="conflicts-title">⚠ Schedule Conflict</p>
+        This ride overlaps ${conflicts.length === 1 ? "an accepted ride" : `${conflicts.length} accepted rides`}${chosenDriver ? ` of ${escapeHtml(chosenDriver.name)}` : ""}:
+        <ul>
+          ${conflictItems}
+        </ul>
+      </div>
+      ` : ""}
+      ${returnConflicts.length > 0 ? `
+      <div class="conflicts">
+        <p class="conflicts-title">⚠ Return Ride Conflict</p>
+        The return ride overlaps ${returnConflicts.length === 1 ? "an accepted ride" : `${returnConflicts.length} accepted rides`}${chosenDriver ? ` of ${escapeHtml(chosenDriver.name)}` : ""}:
+        <ul>
+          ${renderConflictItems(returnConflicts, timeZone)}
+        </ul>
+        ${policy === "block" ? "It can't be accepted while the overlap remains - accept the outbound ride only." : ""}
+      </div>
+      ` : ""}
+      ${series.conflicts.size > 0 ? `
+      <div class="conflicts">
+        <p class="conflicts-title">⚠ Series Conflicts</p>
+        ${series.conflicts.size === 1 ? "A later ride" : `${series.conflicts.size} later rides`} of the series overlap accepted rides${chosenDriver ? ` of ${escapeHtml(chosenDriver.name)}` : ""}${policy === "block" ? " and will be skipped" : ""}:
+        <ul>
+          ${seriesConflictItems}
+        </ul>
+      </div>
+      ` : ""}
+      <div class="details">
+        <div class="detail-row">
+          <span class="label">Customer</span>
+          <span class="value">${escapeHtml(booking.customerName)}</span>
+        </div>
+        <div class="detail-row">
+          <span class="label">Email</span>
+          <span class="value">${escapeHtml(booking.customerEmail)}</span>
+        </div>
+        ${booking.customerPhone ? `
+        <div class="detail-row">
+          <span class="label">Phone</span>
+          <span class="value">${escapeHtml(booking.customerPhone)}</span>
+        </div>
+        ` : ""}
+        <div class="detail-row">
+          <span class="label">Route</span>
+          <span class="value">${escapeHtml(booking.startLocation)} → ${escapeHtml(booking.endLocation)}</span>
+        </div>
+        ${booking.stops.length > 0 ? `
+        <div class="detail-row">
+          <span class="label">Stops</span>
+          <span class="value">${booking.stops.map((stop, index) => escapeHtml(describeStop(stop, index))).join("<br>")}</span>
+        </div>
+        ` : ""}
+        <div class="detail-row">
+          <span class="label">Pickup</span>
+          <span class="value">${escapeHtml(pickup)}</span>
+        </div>
+        ${returnLeg && returnPickup ? `
+        <div class="detail-row">
+          <span class="label">Return Route</span>
+          <span class="value">${escapeHtml(returnLeg.startLocation)} → ${escapeHtml(returnLeg.endLocation)}</span>
+        </div>
+        <div class="detail-row">
+          <span class="label">Return Pickup</span>
+          <span class="value">${escapeHtml(returnPickup.date === returnPickup.time ? returnPickup.date : `${returnPickup.date} at ${returnPickup.time}`)}</span>
+        </div>
+        ` : ""}
+        ${series.rides.length > 0 ? `
+        <div class="detail-row">
+          <span class="label">Series</span>
+          <span class="value">${escapeHtml(describeSeriesSchedule(booking.recurrence))} · ${series.rides.length + 1} rides</span>
+        </div>
+        ` : ""}
+        <div class="detail-row">
+          <span class="label">Passengers</span>
+          <span class="value">${booking.passengers}</span>
+        </div>
+        <div class="detail-row">
+          <span class="label">Distance</span>
+          <span class="value">${escapeHtml(booking.estimatedDistance)} · ${escapeHtml(booking.estimatedDuration)}</span>
+        </div>
+        ${booking.notes ? `
+        <div class="detail-row">
+          <span class="label">Notes</span>
+          <span class="value">${escapeHtml(booking.notes)}</span>
+        </div>
+        ` : ""}
+      </div>
+      <div class="ref-badge">
+        <div class="ref-label">Reference</div>
+        <div class="ref-value">${escapeHtml(booking.transactionId.slice(0, 10).toUpperCase())}</div>
+      </div>
+      <form method="POST">
+        <input type="hidden" name="${CSRF_FIELD_NAME}" value="${escapeHtml(csrfToken)}">
+        ${isAccept && returnLeg ? `
+        <label>Rides to accept</label>
+        <label class="override" for="legs_both">
+          <input type="radio" id="legs_both" name="legs" value="both"${roundTrip.legs === "both" ? " checked" : ""}>
+          <span>Both rides</span>
+        </label>
+        <label class="override" for="legs_outbound">
+          <input type="radio" id="legs_outbound" name="legs" value="outbound"${roundTrip.legs === "outbound" ? " checked" : ""}>
+          <span>Outbound ride only - decline the return ride</span>
+        </label>
+        ` : ""}
+        ${isAccept && series.rides.length > 0 ? `
+        <label>Later rides in this series - tick any date you can't take</label>
+        ${seriesItems}
+        ` : ""}
+        ${isAccept ? (drivers.length > 0 ? `
+        <label for="driver_id">Driver for this ride</label>
+        <select id="driver_id" name="driver_id" required>
+          <option value="">Choose a driver</option>
+          ${driverOptions}
+        </select>
+        ` : "") + (fleet.vehicles.length > 0 ? `
+        <label for="vehicle_id">Vehicle for this ride</label>
+        <select id="vehicle_id" name="vehicle_id" required>
+          <option value="">Choose a vehicle</option>
+          ${vehicleOptions}
+        </select>
+        ` : "") : `
+        <label for="denial_reason">Reason shown to the customer</label>
+        <select id="denial_reason" name="denial_reason">
+          <option value="">No specific reason</option>
+          ${reasonOptions}
+        </select>
+        <label for="denial_reason_text">Your own reason (for "Other") - completes "we can't accommodate your ride due to …"</label>
+        <textarea id="denial_reason_text" name="denial_reason_text" maxlength="${MAX_DENIAL_REASON_LENGTH}"></textarea>
+        <label for="alternative_pickup">Suggest another pickup time (optional)</label>
+        <input type="datetime-local" id="alternative_pickup" name="alternative_pickup">
+        `}
+        <label for="owner_notes">Internal notes (optional, not sent to the customer)</label>
+        <textarea id="owner_notes" name="owner_notes" maxlength="${MAX_OWNER_NOTES_LENGTH}"></textarea>
+        ${(conflicts.length > 0 || returnConflicts.length > 0 || series.conflicts.size > 0) && policy === "override" ? `
+        <label class="override" for="override_conflicts">
+          <input type="checkbox" id="override_conflicts" name="override_conflicts" value="yes"${conflicts.length > 0 ? " required" : ""}>
+          <span>Accept anyway - I've checked the driver can make both rides</span>
+        </label>
+        ` : ""}
+        ${blocked
+          ? `<p class="message">This ride can't be accepted while it overlaps an accepted ride. Move or cancel the other ride first, or decline this one.</p>`
+          : `<button type="submit">${isAccept ? "✓ Confirm Booking" : "✕ Decline Booking"}</button>`}
+      </form>
+    </div>
+  </div>
+</body>
+</html>`;
+
+  return new Response(html, {
+    status: error ? 400 : 200,
+    headers: {
+      "Content-Type": "text/html",
+      "Cache-Control": "no-store",
+      "Set-Cookie": setCookie,
+    },
+  });
+}
+
+function renderSuccessPage(decision: "Accepted" | "Denied", booking: BookingRecord): Response {
+  const isAccepted = decision === "Accepted";
+  const indicatorColor = isAccepted ? PAGE_COLORS.success : PAGE_COLORS.danger;
+  const indicatorText = isAccepted ? '✓ RIDE CONFIRMED' : '✕ RIDE DECLINED';
+
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Booking ${decision} - AC Shuttles</title>
+  <style>
+    * { box-sizing: border-box; }
+    body {
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+      margin: 0;
+      padding: 40px 20px;
+      background: ${PAGE_COLORS.gray100};
+      min-height: 100vh;
+    }
+    .logo { text-align: center; margin-bottom: 24px; }
+    .logo-box { display: inline-block; width: 32px; height: 32px; background: ${PAGE_COLORS.primary}; border-radius: 6px; margin-right: 10px; vertical-align: middle; }
+    .logo-text { font-size: 18px; font-weight: 700; color: ${PAGE_COLORS.gray900}; letter-spacing: 2px; vertical-align: middle; }
+    .container { max-width: 520px; margin: 0 auto; background: ${PAGE_COLORS.white}; border-radius: 12px; overflow: hidden; box-shadow: 0 1px 3px rgba(0,0,0,0.08); }
+    .indicator { background: ${indicatorColor}; padding: 14px; text-align: center; }
+    .indicator-text { color: ${PAGE_COLORS.white}; font-size: 12px; font-weight: 700; letter-spacing: 2px; text-transform: uppercase; }
+    .content { padding: 32px; }
+    .icon { font-size: 48px; text-align: center; margin-bottom: 16px; }
+    h1 { color: ${PAGE_COLORS.gray900}; text-align: center; margin: 0 0 12px 0; font-size: 24px; font-weight: 700; }
+    .message { text-align: center; color: ${PAGE_COLORS.gray600}; margin: 0 0 24px 0; font-size: 15px; line-height: 1.5; }
+    .details { background: ${PAGE_COLORS.gray100}; border-radius: 10px; padding: 20px; border: 1px solid ${PAGE_COLORS.gray200}; }
+    .detail-row { display: flex; justify-content: space-between; padding: 10px 0; border-bottom: 1px solid ${PAGE_COLORS.gray200}; }
+    .detail-row:last-child { border-bottom: none; }
+    .label { color: ${PAGE_COLORS.gray500}; font-size: 14px; }
+    .value { color: ${PAGE_COLORS.gray900}; font-weight: 600; font-size: 14px; text-align: right; max-width: 60%; }
+    .ref-badge { margin-top: 20px; padding: 14px; background: ${PAGE_COLORS.gray900}; border-radius: 8px; text-align: center; }
+    .ref-label { color: ${PAGE_COLORS.gray500}; font-size: 10px; font-weight: 600; text-transform: uppercase; letter-spacing: 1px; margin-bottom: 4px; }
+    .ref-value { color: ${PAGE_COLORS.primary}; font-family: 'SF Mono', Monaco, monospace; font-size: 16px; font-weight: 700; letter-spacing: 2px; }
+    @media (prefers-color-scheme: dark) {
+      body { background: ${PAGE_COLORS.darkBg}; }
+      .container { background: ${PAGE_COLORS.darkCard}; }
+      .logo-text, h1, .value { color: #f1f5f9; }
+      .message, .label { color: #94a3b8; }
+      .details { background: ${PAGE_COLORS.darkBg}; border-color: #334155; }
+      .detail-row { border-color: #334155; }
+    }
+  </style>
+</head>
+<body>
+  <div class="logo">
+    <span class="logo-box"></span>
+    <span class="logo-text">AC SHUTTLES</span>
+  </div>
+  <div class="container">
+    <div class="indicator">
+      <span class="indicator-text">${indicatorText}</span>
+    </div>
+    <div class="content">
+      <div class="icon">${isAccepted ? "✅" : "❌"}</div>
+      <h1>Booking ${decision}</h1>
+      <p class="message">
+        ${isAccepted
+          ? "The customer has been notified with driver contact information."
+          : "The customer has been notified about the booking status."}
+      </p>
+      <div class="details">
+        <div class="detail-row">
+          <span class="label">Customer</span>
+          <span class="value">${escapeHtml(booking.customerName)}</span>
+        </div>
+        <div class="detail-row">
+          <span class="label">Route</span>
+          <span class="value">${escapeHtml(booking.startLocation)} → ${escapeHtml(booking.endLocation)}</span>
+        </div>
+        <div class="detail-row">
+          <span class="label">Pickup</span>
+          <span class="value">${escapeHtml(booking.pickupDatetime)}</span>
+        </div>
+        <div class="detail-row">
+          <span class="label">Passengers</span>
+          <span class="value">${booking.passengers}</span>
+        </div>
+        ${booking.denialReason ? `
+        <div class="detail-row">
+          <span class="label">Reason given</span>
+          <span class="value">${escapeHtml(booking.denialReason)}</span>
+        </div>
+        ` : ""}
+        ${booking.alternativePickupDatetime ? `
+        <div class="detail-row">
+          <span class="label">Suggested instead</span>
+          <span class="value">${escapeHtml(booking.alternativePickupDatetime)}</span>
+        </div>
+        ` : ""}
+      </div>
+      <div class="ref-badge">
+        <div class="ref-label">Reference</div>
+        <div class="ref-value">${escapeHtml(booking.transactionId.slice(0, 10).toUpperCase())}</div>
+      </div>
+    </div>
+  </div>
+</body>
+</html>`;
+
+  return new Response(html, {
+    status: 200,
+    headers: { "Content-Type": "text/html" },
+  });
+}
+
+function renderCancelReviewPage(
+  booking: BookingDetails,
+  csrfToken: string,
+  setCookie: string,
+  env: Env,
+  laterSeriesRides: number = 0
+): Response {
+  const timeZone = businessTimeZone(env);
+  const { date, time } = formatPickupDateTime(booking.pickupDatetime, timeZone);
+  const pickup = date === time ? date : `${date} at ${time}`;
+
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta name="robots" content="noindex, nofollow">
+  <title>Cancel Booking - AC Shuttles</title>
+  <style>
+    * { box-sizing: border-box; }
+    body {
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+      margin: 0;
+      padding: 40px 20px;
+      background: ${PAGE_COLORS.gray100};
+      min-height: 100vh;
+    }
+    .logo { text-align: center; margin-bottom: 24px; }
+    .logo-box { display: inline-block; width: 32px; height: 32px; background: ${PAGE_COLORS.primary}; border-radius: 6px; margin-right: 10px; vertical-align: middle; }
+    .logo-text { font-size: 18px; font-weight: 700; color: ${PAGE_COLORS.gray900}; letter-spacing: 2px; vertical-align: middle; }
+    .container { max-width: 520px; margin: 0 auto; background: ${PAGE_COLORS.white}; border-radius: 12px; overflow: hidden; box-shadow: 0 1px 3px rgba(0,0,0,0.08); }
+    .indicator { background: ${PAGE_COLORS.warning}; padding: 14px; text-align: center; }
+    .indicator-text { color: ${PAGE_COLORS.white}; font-size: 12px; font-weight: 700; letter-spacing: 2px; text-transform: uppercase; }
+    .content { padding: 32px; }
+    h1 { color: ${PAGE_COLORS.gray900}; text-align: center; margin: 0 0 12px 0; font-size: 24px; font-weight: 700; }
+    .message { text-align: center; color: ${PAGE_COLORS.gray600}; margin: 0 0 24px 0; font-size: 15px; line-height: 1.5; }
+    .details { background: ${PAGE_COLORS.gray100}; border-radius: 10px; padding: 20px; border: 1px solid ${PAGE_COLORS.gray200}; }
+    .detail-row { display: flex; justify-content: space-between; padding: 10px 0; border-bottom: 1px solid ${PAGE_COLORS.gray200}; }
+    .detail-row:last-child { border-bottom: none; }
+    .label { color: ${PAGE_COLORS.gray500}; font-size: 14px; }
+    .value { color: ${PAGE_COLORS.gray900}; font-weight: 600; font-size: 14px; text-align: right; max-width: 60%; word-break: break-word; }
+    form { margin-top: 24px; }
+    label { display: block; color: ${PAGE_COLORS.gray600}; font-size: 14px; margin-bottom: 8px; }
+    textarea { width: 100%; min-height: 90px; padding: 12px; border: 1px solid ${PAGE_COLORS.gray200}; border-radius: 8px; font: inherit; font-size: 14px; resize: vertical; }
+    .scope { display: flex; gap: 8px; align-items: flex-start; }
+    .scope input { margin-top: 3px; }
+    button { width: 100%; margin-top: 16px; padding: 16px; border: none; border-radius: 8px; background: ${PAGE_COLORS.danger}; color: ${PAGE_COLORS.white}; font-size: 15px; font-weight: 700; letter-spacing: 1px; text-transform: uppercase; cursor: pointer; }
+    @media (prefers-color-scheme: dark) {
+      body { background: ${PAGE_COLORS.darkBg}; }
+      .container { background: ${PAGE_COLORS.darkCard}; }
+      .logo-text, h1, .value { color: #f1f5f9; }
+      .message, .label, label { color: #94a3b8; }
+      .details { background: ${PAGE_COLORS.darkBg}; border-color: #334155; }
+      .detail-row { border-color: #334155; }
+      textarea { background: ${PAGE_COLORS.darkBg}; border-color: #334155; color: #f1f5f9; }
+    }
+  </style>
+</head>
+<body>
+  <div class="logo">
+    <span class="logo-box"></span>
+    <span class="logo-text">AC SHUTTLES</span>
+  </div>
+  <div class="container">
+    <div class="indicator">
+      <span class="indicator-text">Cancel Your Ride</span>
+    </div>
+    <div class="content">
+      <h1>Cancel this booking?</h1>
+      <p class="message">We'll let your driver know right away. This can't be undone.</p>
+      <div class="details">
+        <div class="detail-row">
+          <span class="label">Route</span>
+          <span class="value">${escapeHtml(booking.startLocation)} → ${escapeHtml(booking.endLocation)}</span>
+        </div>
+        <div class="detail-row">
+          <span class="label">Pickup</span>
+          <span class="value">${escapeHtml(pickup)}</span>
+        </div>
+        <div class="detail-row">
+          <span class="label">Passengers</span>
+          <span class="value">${booking.passengers}</span>
+        </div>
+        <div class="detail-row">
+          <span class="label">Reference</span>
+          <span class="value">${escapeHtml(booking.transactionId.slice(0, 10).toUpperCase())}</span>
+        </div>
+      </div>
+      <form method="POST">
+        <input type="hidden" name="${CSRF_FIELD_NAME}" value="${escapeHtml(csrfToken)}">
+        ${laterSeriesRides > 0 ? `
+        <label>This ride is part of a recurring series</label>
+        <label class="scope" for="scope_one">
+          <input type="radio" id="scope_one" name="scope" value="one" checked>
+          <span>Cancel this ride only</span>
+        </label>
+        <label class="scope" for="scope_remaining">
+          <input type="radio" id="scope_remaining" name="scope" value="remaining">
+          <span>Cancel this ride and the ${laterSeriesRides === 1 ? "next ride" : `${laterSeriesRides} rides`} after it</span>
+        </label>
+        ` : ""}
+        <label for="reason">Reason for cancelling (optional)</label>
+        <textarea id="reason" name="reason" maxlength="${MAX_CANCELLATION_REASON_LENGTH}"></textarea>
+        <button type="submit">Cancel Booking</button>
+      </form>
+    </div>
+  </div>
+</body>
+</html>`;
+
+  return new Response(html, {
+    status: 200,
+    headers: {
+      "Content-Type": "text/html",
+      "Cache-Control": "no-store",
+      "Set-Cookie": setCookie,
+    },
+  });
+}
+
+function renderCancelledPage(booking: SubmissionSummary, env: Env, seriesRidesCancelled: number = 0): Response {
+  const timeZone = businessTimeZone(env);
+  const { date, time } = formatPickupDateTime(booking.pickupDatetime, timeZone);
+  const pickup = date === time ? date : `${date} at ${time}`;
+
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Booking Cancelled - AC Shuttles</title>
+  <style>
+    * { box-sizing: border-box; }
+    body {
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+      margin: 0;
+      padding: 40px 20px;
+      background: ${PAGE_COLORS.gray100};
+      min-height: 100vh;
+    }
+    .logo { text-align: center; margin-bottom: 24px; }
+    .logo-box { display: inline-block; width: 32px; height: 32px; background: ${PAGE_COLORS.primary}; border-radius: 6px; margin-right: 10px; vertical-align: middle; }
+    .logo-text { font-size: 18px; font-weight: 700; color: ${PAGE_COLORS.gray900}; letter-spacing: 2px; vertical-align: middle; }
+    .container { max-width: 480px; margin: 0 auto; background: ${PAGE_COLORS.white}; border-radius: 12px; overflow: hidden; box-shadow: 0 1px 3px rgba(0,0,0,0.08); }
+    .indicator { background: ${PAGE_COLORS.info}; padding: 14px; text-align: center; }
+    .indicator-text { color: ${PAGE_COLORS.white}; font-size: 12px; font-weight: 700; letter-spacing: 2px; text-transform: uppercase; }
+    .content { padding: 32px; text-align: center; }
+    .icon { font-size: 48px; margin-bottom: 16px; }
+    h1 { color: ${PAGE_COLORS.gray900}; margin: 0 0 12px 0; font-size: 22px; font-weight: 700; }
+    p { color: ${PAGE_COLORS.gray600}; line-height: 1.6; margin: 0; font-size: 15px; }
+    .booking-info { margin-top: 20px; padding: 16px; background: ${PAGE_COLORS.gray100}; border-radius: 8px; text-align: left; }
+    .booking-info strong { color: ${PAGE_COLORS.gray900}; }
+    .booking-info span { color: ${PAGE_COLORS.gray600}; font-size: 14px; }
+    @media (prefers-color-scheme: dark) {
+      body { background: ${PAGE_COLORS.darkBg}; }
+      .container { background: ${PAGE_COLORS.darkCard}; }
+      .logo-text, h1, .booking-info strong { color: #f1f5f9; }
+      p, .booking-info span { color: #94a3b8; }
+      .booking-info { background: ${PAGE_COLORS.darkBg}; }
+    }
+  </style>
+</head>
+<body>
+  <div class="logo">
+    <span class="logo-box"></span>
+    <span class="logo-text">AC SHUTTLES</span>
+  </div>
+  <div class="container">
+    <div class="indicator">
+      <span class="indicator-text">Booking Cancelled</span>
+    </div>
+    <div class="content">
+      <div class="icon">👋</div>
+      <h1>Your booking is cancelled</h1>
+      <p>We've let your driver know. We hope to see you another time.</p>
+      <div class="booking-info">
+        <strong>${escapeHtml(pickup)}</strong><br>
+        <span>${escapeHtml(booking.startLocation)} → ${escapeHtml(booking.endLocation)}</span>${seriesRidesCancelled > 0 ? `<br>
+        <span>${seriesRidesCancelled === 1 ? "The next ride" : `The ${seriesRidesCancelled} later rides`} in this series ${seriesRidesCancelled === 1 ? "is" : "are"} cancelled too.</span>` : ""}
+      </div>
+    </div>
+  </div>
+</body>
+</html>`;
+
+  return new Response(html, {
+    status: 200,
+    headers: { "Content-Type": "text/html" },
+  });
+}
+
+/**
+ * Explain why a customer cannot cancel online
+ */
+function renderCannotCancelPage(
+  reason: "status" | "cutoff",
+  booking: BookingDetails,
+  cutoffHours: number,
+  env: Env
+): Response {
+  const contact = env.DRIVER_CONTACT_PHONE
+    ? `Please call us at ${env.DRIVER_CONTACT_PHONE}.`
+    : "Please contact us directly.";
+
+  if (reason === "cutoff") {
+    return renderErrorPage(
+      "Too Late to Cancel Online",
+      `Bookings can't be cancelled online within ${cutoffHours} hours of pickup. ${contact}`,
+      403
+    );
+  }
+
+  if (booking.status === "Cancelled") {
+    return renderAlreadyProcessedPage(booking.status, booking);
+  }
+
+  return renderErrorPage(
+    "Booking Can't Be Cancelled",
+    `This booking is ${booking.status} and can no longer be cancelled online. ${contact}`,
+    409
+  );
+}
+
+/**
+ * Explain why a customer cannot request a new pickup time online
+ */
+function renderCannotReschedulePage(
+  reason: "status" | "cutoff",
+  booking: BookingDetails,
+  cutoffHours: number,
+  env: Env
+): Response {
+  const contact = env.DRIVER_CONTACT_PHONE
+    ? `Please call us at ${env.DRIVER_CONTACT_PHONE}.`
+    : "Please contact us directly.";
+
+  if (reason === "cutoff") {
+    return renderErrorPage(
+      "Too Late to Reschedule Online",
+      `Pickup times can't be changed online within ${cutoffHours} hours of pickup. ${contact}`,
+      403
+    );
+  }
+
+  if (booking.status === "Reschedule Requested") {
+    return renderErrorPage(
+      "Request Already Sent",
+      "You've already asked for a new pickup time. We'll email you as soon as it has been reviewed.",
+      409
+    );
+  }
+
+  return renderErrorPage(
+    "Booking Can't Be Rescheduled",
+    `This booking is ${booking.status} and its pickup time can't be changed online. ${contact}`,
+    409
+  );
+}
+
+function renderRescheduleRequestPage(
+  booking: BookingDetails,
+  csrfToken: string,
+  setCookie: string,
+  env: Env,
+  error?: string
+): Response {
+  const timeZone = businessTimeZone(env);
+  const { date, time } = formatPickupDateTime(booking.pickupDatetime, timeZone);
+  const pickup = date === time ? date : `${date} at ${time}`;
+  // datetime-local wants the wall-clock YYYY-MM-DDTHH:MM; leave empty when unreadable
+  const pickupTime = parsePickupDateTime(booking.pickupDatetime, timeZone);
+  const currentValue = pickupTime === null ? "" : formatDateTimeLocal(pickupTime, timeZone);
+
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta name="robots" content="noindex, nofollow">
+  <title>Change Pickup Time - AC Shuttles</title>
+  <style>
+    * { box-sizing: border-box; }
+    body {
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+      margin: 0;
+      padding: 40px 20px;
+      background: ${PAGE_COLORS.gray100};
+      min-height: 100vh;
+    }
+    .logo { text-align: center; margin-bottom: 24px; }
+    .logo-box { display: inline-block; width: 32px; height: 32px; background: ${PAGE_COLORS.primary}; border-radius: 6px; margin-right: 10px; vertical-align: middle; }
+    .logo-text { font-size: 18px; font-weight: 700; color: ${PAGE_COLORS.gray900}; letter-spacing: 2px; vertical-align: middle; }
+    .container { max-width: 520px; margin: 0 auto; background: ${PAGE_COLORS.white}; border-radius: 12px; overflow: hidden; box-shadow: 0 1px 3px rgba(0,0,0,0.08); }
+    .indicator { background: ${PAGE_COLORS.primary}; padding: 14px; text-align: center; }
+    .indicator-text { color: ${PAGE_COLORS.white}; font-size: 12px; font-weight: 700; letter-spacing: 2px; text-transform: uppercase; }
+    .content { padding: 32px; }
+    h1 { color: ${PAGE_COLORS.gray900}; text-align: center; margin: 0 0 12px 0; font-size: 24px; font-weight: 700; }
+    .message { text-align: center; color: ${PAGE_COLORS.gray600}; margin: 0 0 24px 0; font-size: 15px; line-height: 1.5; }
+    .error { margin: 0 0 20px 0; padding: 12px 16px; border-radius: 8px; background: #fee2e2; color: ${PAGE_COLORS.danger}; font-size: 14px; font-weight: 600; }
+    .details { background: ${PAGE_COLORS.gray100}; border-radius: 10px; padding: 20px; border: 1px solid ${PAGE_COLORS.gray200}; }
+    .detail-row { display: flex; justify-content: space-between; padding: 10px 0; border-bottom: 1px solid ${PAGE_COLORS.gray200}; }
+    .detail-row:last-child { border-bottom: none; }
+    .label { color: ${PAGE_COLORS.gray500}; font-size: 14px; }
+    .value { color: ${PAGE_COLORS.gray900}; font-weight: 600; font-size: 14px; text-align: right; max-width: 60%; word-break: break-word; }
+    form { margin-top: 24px; }
+    label { display: block; color: ${PAGE_COLORS.gray600}; font-size: 14px; margin-bottom: 8px; }
+    input[type="datetime-local"] { width: 100%; padding: 12px; border: 1px solid ${PAGE_COLORS.gray200}; border-radius: 8px; font: inherit; font-size: 15px; }
+    button { width: 100%; margin-top: 16px; padding: 16px; border: none; border-radius: 8px; background: ${PAGE_COLORS.primary}; color: ${PAGE_COLORS.white}; font-size: 15px; font-weight: 700; letter-spacing: 1px; text-transform: uppercase; cursor: pointer; }
+    @media (prefers-color-scheme: dark) {
+      body { background: ${PAGE_COLORS.darkBg}; }
+      .container { background: ${PAGE_COLORS.darkCard}; }
+      .logo-text, h1, .value { color: #f1f5f9; }
+      .message, .label, label { color: #94a3b8; }
+      .details { background: ${PAGE_COLORS.darkBg}; border-color: #334155; }
+      .detail-row { border-color: #334155; }
+      input[type="datetime-local"] { background: ${PAGE_COLORS.darkBg}; border-color: #334155; color: #f1f5f9; }
+    }
+  </style>
+</head>
+<body>
+  <div class="logo">
+    <span class="logo-box"></span>
+    <span class="logo-text">AC SHUTTLES</span>
+  </div>
+  <div class="container">
+    <div class="indicator">
+      <span class="indicator-text">Change Your Pickup Time</span>
+    </div>
+    <div class="content">
+      <h1>Need a different time?</h1>
+      <p class="message">Choose a new pickup time and we'll confirm it by email. Your current booking stays in place until then.</p>
+      ${error ? `<div class="error">${escapeHtml(error)}</div>` : ""}
+      <div class="details">
+        <div class="detail-row">
+          <span class="label">Route</span>
+          <span class="value">${escapeHtml(booking.startLocation)} → ${escapeHtml(booking.endLocation)}</span>
+        </div>
+        <div class="detail-row">
+          <span class="label">Current pickup</span>
+          <span class="value">${escapeHtml(pickup)}</span>
+        </div>
+        <div class="detail-row">
+          <span class="label">Reference</span>
+          <span class="value">${escapeHtml(booking.transactionId.slice(0, 10).toUpperCase())}</span>
+        </div>
+      </div>
+      <form method="POST">
+        <input type="hidden" name="${CSRF_FIELD_NAME}" value="${escapeHtml(csrfToken)}">
+        <label for="pickup_datetime">New pickup date and time</label>
+        <input type="datetime-local" id="pickup_datetime" name="pickup_datetime" value="${escapeHtml(currentValue)}" required>
+        <button type="submit">Request New Time</button>
+      </form>
+    </div>
+  </div>
+</body>
+</html>`;
+
+  return new Response(html, {
+    status: error ? 400 : 200,
     headers: {
-      Authorization: `Bearer ${apiKey}`,
-      "Content-Type": "application/json",
+      "Content-Type": "text/html",
+      "Cache-Control": "no-store",
+      "Set-Cookie": setCookie,
     },
-    body: JSON.stringify(resendPayload),
   });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Resend API error (${response.status}): ${errorText}`);
-  }
-
-  return response.json() as Promise<{ id: string }>;
 }
 
-// =============================================================================
-// HTML Page Renderers
-// =============================================================================
-
-// Brand colors matching the email templates
-const PAGE_COLORS = {
-  primary: '#14b8a6',
-  success: '#14b8a6',
-  danger: '#ef4444',
-  warning: '#f59e0b',
-  info: '#64748b',
-  gray100: '#f4f4f5',
-  gray200: '#e4e4e7',
-  gray500: '#71717a',
-  gray600: '#52525b',
-  gray700: '#3f3f46',
-  gray800: '#27272a',
-  gray900: '#18181b',
-  white: '#ffffff',
-  darkBg: '#0f172a',
-  darkCard: '#1e293b',
-};
+function renderRescheduleRequestedPage(booking: BookingRecord, env: Env): Response {
+  const timeZone = businessTimeZone(env);
+  const requested = formatPickupDateTime(booking.requestedPickupDatetime ?? booking.pickupDatetime, timeZone);
+  const requestedPickup = requested.date === requested.time ? requested.date : `${requested.date} at ${requested.time}`;
 
-function renderErrorPage(title: string, message: string): Response {
   const html = `<!DOCTYPE html>
 <html lang="en">
 <head>
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>${escapeHtml(title)} - AC Shuttles</title>
+  <title>Reschedule Requested - AC Shuttles</title>
   <style>
     * { box-sizing: border-box; }
     body {
@@ -596,17 +4466,21 @@ function renderErrorPage(title: string, message: string): Response {
     .logo-box { display: inline-block; width: 32px; height: 32px; background: ${PAGE_COLORS.primary}; border-radius: 6px; margin-right: 10px; vertical-align: middle; }
     .logo-text { font-size: 18px; font-weight: 700; color: ${PAGE_COLORS.gray900}; letter-spacing: 2px; vertical-align: middle; }
     .container { max-width: 480px; margin: 0 auto; background: ${PAGE_COLORS.white}; border-radius: 12px; overflow: hidden; box-shadow: 0 1px 3px rgba(0,0,0,0.08); }
-    .indicator { background: ${PAGE_COLORS.danger}; padding: 14px; text-align: center; }
+    .indicator { background: ${PAGE_COLORS.primary}; padding: 14px; text-align: center; }
     .indicator-text { color: ${PAGE_COLORS.white}; font-size: 12px; font-weight: 700; letter-spacing: 2px; text-transform: uppercase; }
     .content { padding: 32px; text-align: center; }
     .icon { font-size: 48px; margin-bottom: 16px; }
     h1 { color: ${PAGE_COLORS.gray900}; margin: 0 0 12px 0; font-size: 22px; font-weight: 700; }
     p { color: ${PAGE_COLORS.gray600}; line-height: 1.6; margin: 0; font-size: 15px; }
+    .booking-info { margin-top: 20px; padding: 16px; background: ${PAGE_COLORS.gray100}; border-radius: 8px; text-align: left; }
+    .booking-info strong { color: ${PAGE_COLORS.gray900}; }
+    .booking-info span { color: ${PAGE_COLORS.gray600}; font-size: 14px; }
     @media (prefers-color-scheme: dark) {
       body { background: ${PAGE_COLORS.darkBg}; }
       .container { background: ${PAGE_COLORS.darkCard}; }
-      .logo-text, h1 { color: #f1f5f9; }
-      p { color: #94a3b8; }
+      .logo-text, h1, .booking-info strong { color: #f1f5f9; }
+      p, .booking-info span { color: #94a3b8; }
+      .booking-info { background: ${PAGE_COLORS.darkBg}; }
     }
   </style>
 </head>
@@ -617,34 +4491,184 @@ function renderErrorPage(title: string, message: string): Response {
   </div>
   <div class="container">
     <div class="indicator">
-      <span class="indicator-text">✕ Error</span>
+      <span class="indicator-text">Request Sent</span>
     </div>
     <div class="content">
-      <div class="icon">⚠️</div>
-      <h1>${escapeHtml(title)}</h1>
-      <p>${escapeHtml(message)}</p>
+      <div class="icon">🕑</div>
+      <h1>We've got your request</h1>
+      <p>We'll email you once your new pickup time is confirmed. Until then your original booking stays in place.</p>
+      <div class="booking-info">
+        <strong>Requested: ${escapeHtml(requestedPickup)}</strong><br>
+        <span>${escapeHtml(booking.startLocation)} → ${escapeHtml(booking.endLocation)}</span>
+      </div>
     </div>
   </div>
 </body>
 </html>`;
 
   return new Response(html, {
-    status: 400,
+    status: 200,
     headers: { "Content-Type": "text/html" },
   });
 }
 
-function renderAlreadyProcessedPage(status: string, booking: SubmissionSummary | null): Response {
-  const isAccepted = status === "Accepted";
-  const statusColor = isAccepted ? PAGE_COLORS.success : PAGE_COLORS.danger;
-  const statusBg = isAccepted ? '#ccfbf1' : '#fee2e2';
+function renderRescheduleReviewPage(
+  decision: "approve" | "decline",
+  booking: BookingDetails,
+  requestedPickupDatetime: string,
+  csrfToken: string,
+  setCookie: string,
+  env: Env,
+  conflicts: BookingConflict[] = [],
+  error?: string
+): Response {
+  const timeZone = businessTimeZone(env);
+  const isApprove = decision === "approve";
+  const actionColor = isApprove ? PAGE_COLORS.success : PAGE_COLORS.danger;
+  const policy = conflictPolicy(env);
+  const blocked = conflicts.length > 0 && policy === "block";
+  const current = formatPickupDateTime(booking.pickupDatetime, timeZone);
+  const requested = formatPickupDateTime(requestedPickupDatetime, timeZone);
+  const currentPickup = current.date === current.time ? current.date : `${current.date} at ${current.time}`;
+  const requestedPickup = requested.date === requested.time ? requested.date : `${requested.date} at ${requested.time}`;
 
   const html = `<!DOCTYPE html>
 <html lang="en">
 <head>
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>Already Processed - AC Shuttles</title>
+  <meta name="robots" content="noindex, nofollow">
+  <title>Review Reschedule - AC Shuttles</title>
+  <style>
+    * { box-sizing: border-box; }
+    body {
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+      margin: 0;
+      padding: 40px 20px;
+      background: ${PAGE_COLORS.gray100};
+      min-height: 100vh;
+    }
+    .logo { text-align: center; margin-bottom: 24px; }
+    .logo-box { display: inline-block; width: 32px; height: 32px; background: ${PAGE_COLORS.primary}; border-radius: 6px; margin-right: 10px; vertical-align: middle; }
+    .logo-text { font-size: 18px; font-weight: 700; color: ${PAGE_COLORS.gray900}; letter-spacing: 2px; vertical-align: middle; }
+    .container { max-width: 520px; margin: 0 auto; background: ${PAGE_COLORS.white}; border-radius: 12px; overflow: hidden; box-shadow: 0 1px 3px rgba(0,0,0,0.08); }
+    .indicator { background: ${PAGE_COLORS.warning}; padding: 14px; text-align: center; }
+    .indicator-text { color: ${PAGE_COLORS.white}; font-size: 12px; font-weight: 700; letter-spacing: 2px; text-transform: uppercase; }
+    .content { padding: 32px; }
+    h1 { color: ${PAGE_COLORS.gray900}; text-align: center; margin: 0 0 12px 0; font-size: 24px; font-weight: 700; }
+    .message { text-align: center; color: ${PAGE_COLORS.gray600}; margin: 0 0 24px 0; font-size: 15px; line-height: 1.5; }
+    .details { background: ${PAGE_COLORS.gray100}; border-radius: 10px; padding: 20px; border: 1px solid ${PAGE_COLORS.gray200}; }
+    .detail-row { display: flex; justify-content: space-between; padding: 10px 0; border-bottom: 1px solid ${PAGE_COLORS.gray200}; }
+    .detail-row:last-child { border-bottom: none; }
+    .label { color: ${PAGE_COLORS.gray500}; font-size: 14px; }
+    .value { color: ${PAGE_COLORS.gray900}; font-weight: 600; font-size: 14px; text-align: right; max-width: 60%; word-break: break-word; }
+    .value.previous { color: ${PAGE_COLORS.gray500}; text-decoration: line-through; }
+    .error { margin: 0 0 20px 0; padding: 12px 16px; border-radius: 8px; background: #fee2e2; color: ${PAGE_COLORS.danger}; font-size: 14px; font-weight: 600; }
+    .conflicts { margin: 0 0 20px 0; padding: 16px; border-radius: 8px; background: #fee2e2; border: 1px solid ${PAGE_COLORS.danger}; color: ${PAGE_COLORS.gray900}; font-size: 14px; line-height: 1.5; }
+    .conflicts-title { color: ${PAGE_COLORS.danger}; font-size: 12px; font-weight: 700; letter-spacing: 1px; text-transform: uppercase; margin: 0 0 8px 0; }
+    .conflicts ul { margin: 0; padding-left: 18px; }
+    .conflicts li { margin-top: 6px; }
+    .override { display: flex; gap: 8px; align-items: flex-start; color: ${PAGE_COLORS.gray600}; font-size: 14px; margin: 0 0 16px 0; }
+    .override input { margin-top: 3px; }
+    form { margin-top: 24px; }
+    button { width: 100%; padding: 16px; border: none; border-radius: 8px; background: ${actionColor}; color: ${PAGE_COLORS.white}; font-size: 15px; font-weight: 700; letter-spacing: 1px; text-transform: uppercase; cursor: pointer; }
+    @media (prefers-color-scheme: dark) {
+      body { background: ${PAGE_COLORS.darkBg}; }
+      .container { background: ${PAGE_COLORS.darkCard}; }
+      .logo-text, h1, .value { color: #f1f5f9; }
+      .message, .label { color: #94a3b8; }
+      .details { background: ${PAGE_COLORS.darkBg}; border-color: #334155; }
+      .detail-row { border-color: #334155; }
+    }
+  </style>
+</head>
+<body>
+  <div class="logo">
+    <span class="logo-box"></span>
+    <span class="logo-text">AC SHUTTLES</span>
+  </div>
+  <div class="container">
+    <div class="indicator">
+      <span class="indicator-text">Reschedule Request</span>
+    </div>
+    <div class="content">
+      <h1>${isApprove ? "Approve the new time?" : "Keep the original time?"}</h1>
+      <p class="message">
+        ${isApprove
+          ? "The pickup time will be updated and the customer will receive a new confirmation."
+          : "The booking stays at its original time and the customer will be told the change isn't possible."}
+      </p>
+      ${error ? `<div class="error">${escapeHtml(error)}</div>` : ""}
+      ${conflicts.length > 0 ? `
+      <div class="conflicts">
+        <p class="conflicts-title">⚠ Schedule Conflict</p>
+        The new time overlaps ${conflicts.length === 1 ? "an accepted ride" : `${conflicts.length} accepted rides`}:
+        <ul>
+          ${renderConflictItems(conflicts, timeZone)}
+        </ul>
+      </div>
+      ` : ""}
+      <div class="details">
+        <div class="detail-row">
+          <span class="label">Customer</span>
+          <span class="value">${escapeHtml(booking.customerName)}</span>
+        </div>
+        <div class="detail-row">
+          <span class="label">Route</span>
+          <span class="value">${escapeHtml(booking.startLocation)} → ${escapeHtml(booking.endLocation)}</span>
+        </div>
+        <div class="detail-row">
+          <span class="label">Current pickup</span>
+          <span class="value${isApprove ? " previous" : ""}">${escapeHtml(currentPickup)}</span>
+        </div>
+        <div class="detail-row">
+          <span class="label">Requested pickup</span>
+          <span class="value${isApprove ? "" : " previous"}">${escapeHtml(requestedPickup)}</span>
+        </div>
+        <div class="detail-row">
+          <span class="label">Reference</span>
+          <span class="value">${escapeHtml(booking.transactionId.slice(0, 10).toUpperCase())}</span>
+        </div>
+      </div>
+      <form method="POST">
+        <input type="hidden" name="${CSRF_FIELD_NAME}" value="${escapeHtml(csrfToken)}">
+        ${conflicts.length > 0 && policy === "override" ? `
+        <label class="override" for="override_conflicts">
+          <input type="checkbox" id="override_conflicts" name="override_conflicts" value="yes" required>
+          <span>Approve anyway - I've checked the driver can make both rides</span>
+        </label>
+        ` : ""}
+        ${blocked
+          ? `<p class="message">The new time can't be approved while it overlaps an accepted ride. Move or cancel the other ride first, or keep the original time.</p>`
+          : `<button type="submit">${isApprove ? "✓ Approve New Time" : "✕ Keep Original Time"}</button>`}
+      </form>
+    </div>
+  </div>
+</body>
+</html>`;
+
+  return new Response(html, {
+    status: error ? 400 : 200,
+    headers: {
+      "Content-Type": "text/html",
+      "Cache-Control": "no-store",
+      "Set-Cookie": setCookie,
+    },
+  });
+}
+
+function renderRescheduleDecisionPage(decision: "approve" | "decline", booking: SubmissionSummary, env: Env): Response {
+  const timeZone = businessTimeZone(env);
+  const isApprove = decision === "approve";
+  const { date, time } = formatPickupDateTime(booking.pickupDatetime, timeZone);
+  const pickup = date === time ? date : `${date} at ${time}`;
+
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${isApprove ? "Reschedule Approved" : "Reschedule Declined"} - AC Shuttles</title>
   <style>
     * { box-sizing: border-box; }
     body {
@@ -658,13 +4682,12 @@ function renderAlreadyProcessedPage(status: string, booking: SubmissionSummary |
     .logo-box { display: inline-block; width: 32px; height: 32px; background: ${PAGE_COLORS.primary}; border-radius: 6px; margin-right: 10px; vertical-align: middle; }
     .logo-text { font-size: 18px; font-weight: 700; color: ${PAGE_COLORS.gray900}; letter-spacing: 2px; vertical-align: middle; }
     .container { max-width: 480px; margin: 0 auto; background: ${PAGE_COLORS.white}; border-radius: 12px; overflow: hidden; box-shadow: 0 1px 3px rgba(0,0,0,0.08); }
-    .indicator { background: ${PAGE_COLORS.info}; padding: 14px; text-align: center; }
+    .indicator { background: ${isApprove ? PAGE_COLORS.success : PAGE_COLORS.info}; padding: 14px; text-align: center; }
     .indicator-text { color: ${PAGE_COLORS.white}; font-size: 12px; font-weight: 700; letter-spacing: 2px; text-transform: uppercase; }
     .content { padding: 32px; text-align: center; }
     .icon { font-size: 48px; margin-bottom: 16px; }
     h1 { color: ${PAGE_COLORS.gray900}; margin: 0 0 12px 0; font-size: 22px; font-weight: 700; }
-    p { color: ${PAGE_COLORS.gray600}; line-height: 1.6; margin: 0 0 16px 0; font-size: 15px; }
-    .status { display: inline-block; padding: 10px 20px; border-radius: 24px; font-weight: 700; font-size: 14px; background: ${statusBg}; color: ${statusColor}; border: 2px solid ${statusColor}; }
+    p { color: ${PAGE_COLORS.gray600}; line-height: 1.6; margin: 0; font-size: 15px; }
     .booking-info { margin-top: 20px; padding: 16px; background: ${PAGE_COLORS.gray100}; border-radius: 8px; text-align: left; }
     .booking-info strong { color: ${PAGE_COLORS.gray900}; }
     .booking-info span { color: ${PAGE_COLORS.gray600}; font-size: 14px; }
@@ -684,19 +4707,18 @@ function renderAlreadyProcessedPage(status: string, booking: SubmissionSummary |
   </div>
   <div class="container">
     <div class="indicator">
-      <span class="indicator-text">ℹ️ Already Processed</span>
+      <span class="indicator-text">${isApprove ? "✓ New Time Confirmed" : "Original Time Kept"}</span>
     </div>
     <div class="content">
-      <div class="icon">📋</div>
-      <h1>Booking Already Processed</h1>
-      <p>This booking has already been processed.</p>
-      <div class="status">${isAccepted ? '✓' : '✕'} ${escapeHtml(status)}</div>
-      ${booking ? `
+      <div class="icon">${isApprove ? "✅" : "📋"}</div>
+      <h1>${isApprove ? "Pickup time updated" : "Original time kept"}</h1>
+      <p>${isApprove
+        ? "The customer has been sent a new confirmation."
+        : "The customer has been told their booking stays at the original time."}</p>
       <div class="booking-info">
-        <strong>${escapeHtml(booking.customerName)}</strong><br>
+        <strong>${escapeHtml(booking.customerName)} · ${escapeHtml(pickup)}</strong><br>
         <span>${escapeHtml(booking.startLocation)} → ${escapeHtml(booking.endLocation)}</span>
       </div>
-      ` : ""}
     </div>
   </div>
 </body>
@@ -708,17 +4730,26 @@ function renderAlreadyProcessedPage(status: string, booking: SubmissionSummary |
   });
 }
 
-function renderSuccessPage(decision: "Accepted" | "Denied", booking: SubmissionSummary): Response {
-  const isAccepted = decision === "Accepted";
-  const indicatorColor = isAccepted ? PAGE_COLORS.success : PAGE_COLORS.danger;
-  const indicatorText = isAccepted ? '✓ RIDE CONFIRMED' : '✕ RIDE DECLINED';
+function renderBookAlternativePage(
+  booking: BookingDetails,
+  alternativePickupDatetime: string,
+  csrfToken: string,
+  setCookie: string,
+  env: Env
+): Response {
+  const timeZone = businessTimeZone(env);
+  const original = formatPickupDateTime(booking.pickupDatetime, timeZone);
+  const alternative = formatPickupDateTime(alternativePickupDatetime, timeZone);
+  const originalPickup = original.date === original.time ? original.date : `${original.date} at ${original.time}`;
+  const alternativePickup = alternative.date === alternative.time ? alternative.date : `${alternative.date} at ${alternative.time}`;
 
   const html = `<!DOCTYPE html>
 <html lang="en">
 <head>
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>Booking ${decision} - AC Shuttles</title>
+  <meta name="robots" content="noindex, nofollow">
+  <title>Book Suggested Time - AC Shuttles</title>
   <style>
     * { box-sizing: border-box; }
     body {
@@ -732,25 +4763,24 @@ function renderSuccessPage(decision: "Accepted" | "Denied", booking: SubmissionS
     .logo-box { display: inline-block; width: 32px; height: 32px; background: ${PAGE_COLORS.primary}; border-radius: 6px; margin-right: 10px; vertical-align: middle; }
     .logo-text { font-size: 18px; font-weight: 700; color: ${PAGE_COLORS.gray900}; letter-spacing: 2px; vertical-align: middle; }
     .container { max-width: 520px; margin: 0 auto; background: ${PAGE_COLORS.white}; border-radius: 12px; overflow: hidden; box-shadow: 0 1px 3px rgba(0,0,0,0.08); }
-    .indicator { background: ${indicatorColor}; padding: 14px; text-align: center; }
+    .indicator { background: ${PAGE_COLORS.primary}; padding: 14px; text-align: center; }
     .indicator-text { color: ${PAGE_COLORS.white}; font-size: 12px; font-weight: 700; letter-spacing: 2px; text-transform: uppercase; }
     .content { padding: 32px; }
-    .icon { font-size: 48px; text-align: center; margin-bottom: 16px; }
     h1 { color: ${PAGE_COLORS.gray900}; text-align: center; margin: 0 0 12px 0; font-size: 24px; font-weight: 700; }
     .message { text-align: center; color: ${PAGE_COLORS.gray600}; margin: 0 0 24px 0; font-size: 15px; line-height: 1.5; }
     .details { background: ${PAGE_COLORS.gray100}; border-radius: 10px; padding: 20px; border: 1px solid ${PAGE_COLORS.gray200}; }
     .detail-row { display: flex; justify-content: space-between; padding: 10px 0; border-bottom: 1px solid ${PAGE_COLORS.gray200}; }
     .detail-row:last-child { border-bottom: none; }
     .label { color: ${PAGE_COLORS.gray500}; font-size: 14px; }
-    .value { color: ${PAGE_COLORS.gray900}; font-weight: 600; font-size: 14px; text-align: right; max-width: 60%; }
-    .ref-badge { margin-top: 20px; padding: 14px; background: ${PAGE_COLORS.gray900}; border-radius: 8px; text-align: center; }
-    .ref-label { color: ${PAGE_COLORS.gray500}; font-size: 10px; font-weight: 600; text-transform: uppercase; letter-spacing: 1px; margin-bottom: 4px; }
-    .ref-value { color: ${PAGE_COLORS.primary}; font-family: 'SF Mono', Monaco, monospace; font-size: 16px; font-weight: 700; letter-spacing: 2px; }
+    .value { color: ${PAGE_COLORS.gray900}; font-weight: 600; font-size: 14px; text-align: right; max-width: 60%; word-break: break-word; }
+    .value.old { color: ${PAGE_COLORS.gray500}; text-decoration: line-through; font-weight: 400; }
+    form { margin-top: 24px; }
+    button { width: 100%; padding: 16px; border: none; border-radius: 8px; background: ${PAGE_COLORS.primary}; color: ${PAGE_COLORS.white}; font-size: 15px; font-weight: 700; letter-spacing: 1px; text-transform: uppercase; cursor: pointer; }
     @media (prefers-color-scheme: dark) {
       body { background: ${PAGE_COLORS.darkBg}; }
       .container { background: ${PAGE_COLORS.darkCard}; }
       .logo-text, h1, .value { color: #f1f5f9; }
-      .message, .label { color: #94a3b8; }
+      .message, .label, .value.old { color: #94a3b8; }
       .details { background: ${PAGE_COLORS.darkBg}; border-color: #334155; }
       .detail-row { border-color: #334155; }
     }
@@ -763,37 +4793,107 @@ function renderSuccessPage(decision: "Accepted" | "Denied", booking: SubmissionS
   </div>
   <div class="container">
     <div class="indicator">
-      <span class="indicator-text">${indicatorText}</span>
+      <span class="indicator-text">Suggested Pickup Time</span>
     </div>
     <div class="content">
-      <div class="icon">${isAccepted ? "✅" : "❌"}</div>
-      <h1>Booking ${decision}</h1>
-      <p class="message">
-        ${isAccepted
-          ? "The customer has been notified with driver contact information."
-          : "The customer has been notified about the booking status."}
-      </p>
+      <h1>Book this time instead?</h1>
+      <p class="message">We'll send this to our team as a new request and email you once it's confirmed.</p>
       <div class="details">
-        <div class="detail-row">
-          <span class="label">Customer</span>
-          <span class="value">${escapeHtml(booking.customerName)}</span>
-        </div>
         <div class="detail-row">
           <span class="label">Route</span>
           <span class="value">${escapeHtml(booking.startLocation)} → ${escapeHtml(booking.endLocation)}</span>
         </div>
         <div class="detail-row">
-          <span class="label">Pickup</span>
-          <span class="value">${escapeHtml(booking.pickupDatetime)}</span>
+          <span class="label">Original pickup</span>
+          <span class="value old">${escapeHtml(originalPickup)}</span>
+        </div>
+        <div class="detail-row">
+          <span class="label">Suggested pickup</span>
+          <span class="value">${escapeHtml(alternativePickup)}</span>
         </div>
         <div class="detail-row">
           <span class="label">Passengers</span>
           <span class="value">${booking.passengers}</span>
         </div>
       </div>
-      <div class="ref-badge">
-        <div class="ref-label">Reference</div>
-        <div class="ref-value">${escapeHtml(booking.transactionId.slice(0, 10).toUpperCase())}</div>
+      <form method="POST">
+        <input type="hidden" name="${CSRF_FIELD_NAME}" value="${escapeHtml(csrfToken)}">
+        <button type="submit">Request This Time</button>
+      </form>
+    </div>
+  </div>
+</body>
+</html>`;
+
+  return new Response(html, {
+    status: 200,
+    headers: {
+      "Content-Type": "text/html",
+      "Cache-Control": "no-store",
+      "Set-Cookie": setCookie,
+    },
+  });
+}
+
+function renderAlternativeRequestedPage(summary: SubmissionSummary, env: Env): Response {
+  const timeZone = businessTimeZone(env);
+  const { date, time } = formatPickupDateTime(summary.pickupDatetime, timeZone);
+  const pickup = date === time ? date : `${date} at ${time}`;
+
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Request Sent - AC Shuttles</title>
+  <style>
+    * { box-sizing: border-box; }
+    body {
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+      margin: 0;
+      padding: 40px 20px;
+      background: ${PAGE_COLORS.gray100};
+      min-height: 100vh;
+    }
+    .logo { text-align: center; margin-bottom: 24px; }
+    .logo-box { display: inline-block; width: 32px; height: 32px; background: ${PAGE_COLORS.primary}; border-radius: 6px; margin-right: 10px; vertical-align: middle; }
+    .logo-text { font-size: 18px; font-weight: 700; color: ${PAGE_COLORS.gray900}; letter-spacing: 2px; vertical-align: middle; }
+    .container { max-width: 480px; margin: 0 auto; background: ${PAGE_COLORS.white}; border-radius: 12px; overflow: hidden; box-shadow: 0 1px 3px rgba(0,0,0,0.08); }
+    .indicator { background: ${PAGE_COLORS.primary}; padding: 14px; text-align: center; }
+    .indicator-text { color: ${PAGE_COLORS.white}; font-size: 12px; font-weight: 700; letter-spacing: 2px; text-transform: uppercase; }
+    .content { padding: 32px; text-align: center; }
+    .icon { font-size: 48px; margin-bottom: 16px; }
+    h1 { color: ${PAGE_COLORS.gray900}; margin: 0 0 12px 0; font-size: 22px; font-weight: 700; }
+    p { color: ${PAGE_COLORS.gray600}; line-height: 1.6; margin: 0; font-size: 15px; }
+    .booking-info { margin-top: 20px; padding: 16px; background: ${PAGE_COLORS.gray100}; border-radius: 8px; text-align: left; }
+    .booking-info strong { color: ${PAGE_COLORS.gray900}; }
+    .booking-info span { color: ${PAGE_COLORS.gray600}; font-size: 14px; }
+    @media (prefers-color-scheme: dark) {
+      body { background: ${PAGE_COLORS.darkBg}; }
+      .container { background: ${PAGE_COLORS.darkCard}; }
+      .logo-text, h1, .booking-info strong { color: #f1f5f9; }
+      p, .booking-info span { color: #94a3b8; }
+      .booking-info { background: ${PAGE_COLORS.darkBg}; }
+    }
+  </style>
+</head>
+<body>
+  <div class="logo">
+    <span class="logo-box"></span>
+    <span class="logo-text">AC SHUTTLES</span>
+  </div>
+  <div class="container">
+    <div class="indicator">
+      <span class="indicator-text">Request Sent</span>
+    </div>
+    <div class="content">
+      <div class="icon">🕑</div>
+      <h1>We've got your request</h1>
+      <p>We'll email you once your ride is confirmed.</p>
+      <div class="booking-info">
+        <strong>${escapeHtml(pickup)}</strong><br>
+        <span>${escapeHtml(summary.startLocation)} → ${escapeHtml(summary.endLocation)}</span><br>
+        <span>Reference: ${escapeHtml(summary.transactionId.slice(0, 10).toUpperCase())}</span>
       </div>
     </div>
   </div>
@@ -810,22 +4910,34 @@ function renderSuccessPage(decision: "Accepted" | "Denied", booking: SubmissionS
 // Utilities
 // =============================================================================
 
+function parseReminderWindowHours(value: string | undefined): number {
+  const parsed = value ? parseInt(value, 10) : NaN;
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 24;
+}
+
+/**
+ * Hours before pickup after which customers can no longer cancel or
+ * reschedule online; "0" allows changes right up to pickup
+ */
+function parseCutoffHours(value: string | undefined): number {
+  const parsed = value ? parseInt(value, 10) : NaN;
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : 24;
+}
+
 /**
  * Check if a trip is within 24 hours from now
  * Used to determine if reminder should be sent immediately with confirmation
  */
-function isTripWithin24Hours(pickupDatetime: string): boolean {
-  try {
-    const tripDate = new Date(pickupDatetime);
-    const now = new Date();
-    const twentyFourHoursFromNow = new Date(now.getTime() + 24 * 60 * 60 * 1000);
-
-    // Trip is within 24 hours if it's between now and 24 hours from now
-    return tripDate >= now && tripDate <= twentyFourHoursFromNow;
-  } catch {
-    // If we can't parse the date, be safe and return true (send reminder)
-    return true;
+function isTripWithin24Hours(pickupDatetime: string, timeZone: string): boolean {
+  const tripTime = parsePickupDateTime(pickupDatetime, timeZone);
+  if (tripTime === null) {
+    // Can't tell; leave it to the scheduled dispatcher
+    return false;
   }
+
+  // Trip is within 24 hours if it's between now and 24 hours from now
+  const now = Date.now();
+  return tripTime >= now && tripTime <= now + 24 * 60 * 60 * 1000;
 }
 
 function generateRequestId(): string {
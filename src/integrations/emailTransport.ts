@@ -0,0 +1,362 @@
+/**
+ * Email Transports
+ *
+ * One interface for every way the worker can send mail:
+ * - Resend (default), Postmark and a generic HTTP-to-SMTP relay
+ * - An in-memory capture transport for tests and local development
+ * - Failover from the primary provider to a secondary one when the primary
+ *   is down (5xx, 429, timeout or network error). Rejected messages (other
+ *   4xx) are not retried elsewhere.
+ *
+ * The provider is selected with EMAIL_PROVIDER and the optional secondary
+ * with EMAIL_FALLBACK_PROVIDER.
+ *
+ * Attachments are given as text and base64-encoded for each provider.
+ */
+
+export interface EmailAttachment {
+  filename: string;
+  content: string;      // UTF-8 text, e.g. an iCalendar file
+  contentType: string;  // e.g. "text/calendar; charset=utf-8; method=REQUEST"
+}
+
+export interface EmailMessage {
+  from: string;       // "Name <address>" or a bare address
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  tags?: string[];
+  attachments?: EmailAttachment[];
+}
+
+export interface EmailSendResult {
+  id: string;
+  provider: string;   // Transport that accepted the message
+}
+
+export interface EmailTransport {
+  readonly name: string;
+  send(message: EmailMessage): Promise<EmailSendResult>;
+}
+
+export interface EmailEnv {
+  EMAIL_PROVIDER?: string;            // "resend" (default) | "postmark" | "smtp_relay" | "capture"
+  EMAIL_FALLBACK_PROVIDER?: string;   // Same values; used when the primary is unavailable
+  EMAIL_TIMEOUT_MS?: string;          // Per-request timeout (default 10000)
+  RESEND_API_KEY?: string;
+  POSTMARK_SERVER_TOKEN?: string;
+  POSTMARK_MESSAGE_STREAM?: string;   // Default "outbound"
+  SMTP_RELAY_URL?: string;
+  SMTP_RELAY_API_KEY?: string;
+}
+
+interface HttpTransportOptions {
+  fetchImpl?: typeof fetch;
+  timeoutMs?: number;
+}
+
+const RESEND_API_URL = "https://api.resend.com/emails";
+const POSTMARK_API_URL = "https://api.postmarkapp.com/email";
+const DEFAULT_TIMEOUT_MS = 10_000;
+
+// Provider responses that mean "try another provider", not "this message is bad"
+const RETRYABLE_STATUS_CODES = [429, 500, 502, 503, 504];
+
+export class EmailTransportError extends Error {
+  constructor(
+    message: string,
+    public readonly provider: string,
+    public readonly statusCode?: number,
+    public readonly isRetryable: boolean = false
+  ) {
+    super(message);
+    this.name = 'EmailTransportError';
+  }
+}
+
+const logger = {
+  info: (event: string, data?: Record<string, unknown>) =>
+    console.log(JSON.stringify({ level: 'INFO', event, ...data, timestamp: new Date().toISOString() })),
+  warn: (event: string, data?: Record<string, unknown>) =>
+    console.warn(JSON.stringify({ level: 'WARN', event, ...data, timestamp: new Date().toISOString() })),
+};
+
+/**
+ * Shared JSON POST with a timeout and error classification
+ */
+abstract class HttpEmailTransport implements EmailTransport {
+  abstract readonly name: string;
+  protected abstract readonly label: string;   // Provider name for error messages
+  private readonly fetchImpl: typeof fetch;
+  private readonly timeoutMs: number;
+
+  constructor(options: HttpTransportOptions = {}) {
+    this.fetchImpl = options.fetchImpl ?? fetch.bind(globalThis);
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  }
+
+  abstract send(message: EmailMessage): Promise<EmailSendResult>;
+
+  protected async post(url: string, headers: Record<string, string>, body: unknown): Promise<unknown> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    let response: Response;
+    try {
+      response = await this.fetchImpl(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Accept: "application/json", ...headers },
+        body: JSON.stringify(body),
+        signal: controller.signal,
+      });
+    } catch (error) {
+      const message = controller.signal.aborted
+        ? `timed out after ${this.timeoutMs}ms`
+        : error instanceof Error ? error.message : String(error);
+      throw new EmailTransportError(`${this.label} request failed: ${message}`, this.name, undefined, true);
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => "");
+      throw new EmailTransportError(
+        `${this.label} API error (${response.status}): ${errorText}`,
+        this.name,
+        response.status,
+        RETRYABLE_STATUS_CODES.includes(response.status)
+      );
+    }
+
+    return response.json().catch(() => ({}));
+  }
+}
+
+export class ResendTransport extends HttpEmailTransport {
+  readonly name = "resend";
+  protected readonly label = "Resend";
+
+  constructor(private readonly apiKey: string, options?: HttpTransportOptions) {
+    super(options);
+  }
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const body: Record<string, unknown> = {
+      from: message.from,
+      to: message.to,
+      subject: message.subject,
+      html: message.html,
+      text: message.text,
+    };
+
+    // Resend expects tags as [{name, value}] objects, not strings
+    if (message.tags && message.tags.length > 0) {
+      body.tags = message.tags.map(tag => ({ name: tag, value: "true" }));
+    }
+    if (message.attachments && message.attachments.length > 0) {
+      body.attachments = message.attachments.map(attachment => ({
+        filename: attachment.filename,
+        content: encodeBase64(attachment.content),
+        content_type: attachment.contentType,
+      }));
+    }
+
+    const data = await this.post(RESEND_API_URL, { Authorization: `Bearer ${this.apiKey}` }, body) as { id?: string };
+    return { id: data.id ?? "", provider: this.name };
+  }
+}
+
+export class PostmarkTransport extends HttpEmailTransport {
+  readonly name = "postmark";
+  protected readonly label = "Postmark";
+
+  constructor(
+    private readonly serverToken: string,
+    private readonly messageStream: string = "outbound",
+    options?: HttpTransportOptions
+  ) {
+    super(options);
+  }
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const data = await this.post(POSTMARK_API_URL, { "X-Postmark-Server-Token": this.serverToken }, {
+      From: message.from,
+      To: message.to,
+      Subject: message.subject,
+      HtmlBody: message.html,
+      TextBody: message.text,
+      // Postmark takes a single tag
+      Tag: message.tags?.[0],
+      Attachments: message.attachments?.map(attachment => ({
+        Name: attachment.filename,
+        Content: encodeBase64(attachment.content),
+        ContentType: attachment.contentType,
+      })),
+      MessageStream: this.messageStream,
+    }) as { MessageID?: string };
+
+    return { id: data.MessageID ?? "", provider: this.name };
+  }
+}
+
+/**
+ * HTTP front end for an SMTP server
+ * Posts the message as JSON ({from, to, subject, html, text, tags,
+ * attachments: [{filename, content (base64), contentType}]}) and reads the
+ * message ID from `id` or `messageId` in the response.
+ */
+export class SmtpRelayTransport extends HttpEmailTransport {
+  readonly name = "smtp_relay";
+  protected readonly label = "SMTP relay";
+
+  constructor(
+    private readonly url: string,
+    private readonly apiKey?: string,
+    options?: HttpTransportOptions
+  ) {
+    super(options);
+  }
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const headers: Record<string, string> = this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {};
+    const body = {
+      ...message,
+      attachments: message.attachments?.map(attachment => ({ ...attachment, content: encodeBase64(attachment.content) })),
+    };
+    const data = await this.post(this.url, headers, body) as { id?: string; messageId?: string };
+    return { id: data.id ?? data.messageId ?? "", provider: this.name };
+  }
+}
+
+export interface CapturedEmail extends EmailMessage {
+  id: string;
+  sentAt: string;
+}
+
+/**
+ * Keeps sent messages in memory instead of delivering them
+ */
+export class CaptureTransport implements EmailTransport {
+  readonly name = "capture";
+  private readonly sent: CapturedEmail[] = [];
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const id = `capture-${this.sent.length + 1}`;
+    this.sent.push({ ...message, id, sentAt: new Date().toISOString() });
+    return { id, provider: this.name };
+  }
+
+  /** Messages in send order (test helper) */
+  getSent(): CapturedEmail[] {
+    return [...this.sent];
+  }
+
+  /** Forget all captured messages (test helper) */
+  clear(): void {
+    this.sent.length = 0;
+  }
+}
+
+/**
+ * Sends through the primary and falls back to the secondary when the primary
+ * is unavailable
+ */
+export class FailoverTransport implements EmailTransport {
+  readonly name: string;
+
+  constructor(
+    private readonly primary: EmailTransport,
+    private readonly secondary: EmailTransport
+  ) {
+    this.name = `${primary.name}+${secondary.name}`;
+  }
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    try {
+      return await this.primary.send(message);
+    } catch (error) {
+      if (!(error instanceof EmailTransportError) || !error.isRetryable) {
+        throw error;
+      }
+
+      logger.warn('email.failover', {
+        primary: this.primary.name,
+        secondary: this.secondary.name,
+        statusCode: error.statusCode,
+        error: error.message.slice(0, 200),
+      });
+    }
+
+    const result = await this.secondary.send(message);
+    logger.info('email.failover.sent', { provider: result.provider, id: result.id });
+    return result;
+  }
+}
+
+// Shared per isolate so tests and local runs can inspect what was sent
+const captureTransport = new CaptureTransport();
+
+/**
+ * The shared capture transport used when EMAIL_PROVIDER = "capture"
+ */
+export function getCaptureTransport(): CaptureTransport {
+  return captureTransport;
+}
+
+/**
+ * Create the transport selected by EMAIL_PROVIDER, wrapped with failover to
+ * EMAIL_FALLBACK_PROVIDER when one is configured
+ */
+export function createEmailTransport(env: EmailEnv, fetchImpl?: typeof fetch): EmailTransport {
+  const timeoutMs = parseInt(env.EMAIL_TIMEOUT_MS ?? "", 10) || DEFAULT_TIMEOUT_MS;
+  const options: HttpTransportOptions = { fetchImpl, timeoutMs };
+
+  const primary = createProvider(env.EMAIL_PROVIDER ?? "resend", env, options);
+  const fallbackName = env.EMAIL_FALLBACK_PROVIDER?.trim();
+  if (!fallbackName) {
+    return primary;
+  }
+
+  const secondary = createProvider(fallbackName, env, options);
+  return secondary.name === primary.name ? primary : new FailoverTransport(primary, secondary);
+}
+
+function createProvider(provider: string, env: EmailEnv, options: HttpTransportOptions): EmailTransport {
+  switch (provider.trim().toLowerCase()) {
+    case "resend":
+      return new ResendTransport(requireSetting(env.RESEND_API_KEY, "RESEND_API_KEY", provider), options);
+    case "postmark":
+      return new PostmarkTransport(
+        requireSetting(env.POSTMARK_SERVER_TOKEN, "POSTMARK_SERVER_TOKEN", provider),
+        env.POSTMARK_MESSAGE_STREAM || undefined,
+        options
+      );
+    case "smtp_relay":
+      return new SmtpRelayTransport(
+        requireSetting(env.SMTP_RELAY_URL, "SMTP_RELAY_URL", provider),
+        env.SMTP_RELAY_API_KEY || undefined,
+        options
+      );
+    case "capture":
+      return captureTransport;
+    default:
+      throw new Error(`Unknown email provider: ${provider}`);
+  }
+}
+
+function encodeBase64(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 1) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+function requireSetting(value: string | undefined, name: string, provider: string): string {
+  if (!value) {
+    throw new Error(`Email provider ${provider} requires ${name}`);
+  }
+  return value;
+}
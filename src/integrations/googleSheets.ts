@@ -43,6 +43,11 @@ export interface UpdateRangeParams {
   values: (string | number | null)[][];
 }
 
+export interface BatchUpdateRangesParams {
+  sheetId: string;
+  data: { range: string; values: (string | number | null)[][] }[];
+}
+
 export interface GoogleSheetsClientOptions {
   credentialsJson: string;
   maxRetries?: number;
@@ -407,6 +412,65 @@ export class GoogleSheetsClient {
     );
   }
 
+  /**
+   * Update several ranges of one Google Sheet in a single request
+   */
+  async batchUpdateRanges(params: BatchUpdateRangesParams): Promise<void> {
+    const operationId = generateOperationId();
+    const ranges = params.data.map(entry => entry.range);
+
+    this.logger.info('sheets.batch_update.start', {
+      operationId,
+      sheetId: params.sheetId,
+      ranges,
+    });
+
+    await this.withRetry(
+      async () => {
+        const token = await this.getAccessToken();
+        const url = `https://sheets.googleapis.com/v4/spreadsheets/${encodeURIComponent(params.sheetId)}/values:batchUpdate`;
+
+        const response = await this.fetchImpl(url, {
+          method: "POST",
+          headers: {
+            Authorization: `Bearer ${token}`,
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ valueInputOption: "USER_ENTERED", data: params.data }),
+        });
+
+        if (!response.ok) {
+          const errorText = await safeReadText(response);
+          const isRetryable = RETRYABLE_STATUS_CODES.includes(response.status);
+
+          this.logger.warn('sheets.batch_update.http_error', {
+            operationId,
+            statusCode: response.status,
+            isRetryable,
+          });
+
+          throw new GoogleSheetsError(
+            `Google Sheets batch update failed (${response.status}): ${errorText}`,
+            response.status,
+            params.sheetId,
+            ranges.join(","),
+            'batch_update',
+            isRetryable
+          );
+        }
+
+        this.logger.info('sheets.batch_update.success', { operationId });
+        return true;
+      },
+      {
+        operationId,
+        operation: 'batch_update',
+        sheetId: params.sheetId,
+        range: ranges.join(","),
+      }
+    );
+  }
+
   /**
    * Verify a write by reading back the row
    */
@@ -0,0 +1,253 @@
+/**
+ * Booking Store
+ *
+ * Storage abstraction used by the coordination layer. The booking flow only
+ * talks to the BookingStore interface; BOOKING_STORE selects the backend:
+ * - "sheets" (default): Google Sheets rows, see sheetsStore.ts
+ * - "d1": Cloudflare D1 / SQLite, see d1Store.ts and migrations/
+ * - "memory": in-process Map, for tests and local development
+ */
+
+import { DEFAULT_BUSINESS_TIMEZONE, parsePickupDateTime } from "../../time/businessTime";
+import type { Quote } from "./pricing";
+import type { ServiceAreaStatus } from "../security/serviceArea";
+
+export const DEFAULT_STATUS = "Pending Review";
+
+/**
+ * Which half of a round trip a booking is; null for one-way rides
+ */
+export type TripLeg = "outbound" | "return";
+
+/**
+ * An intermediate stop between pickup and drop-off
+ */
+export interface ItineraryStop {
+  address: string;
+  waitMinutes: number | null;   // How long the driver waits there; null when not given
+}
+
+export interface SubmissionSummary {
+  transactionId: string;
+  idempotencyKey: string;
+  customerName: string;
+  customerEmail: string;
+  customerPhone: string | null;
+  startLocation: string;
+  endLocation: string;
+  pickupDatetime: string;   // ISO 8601 with offset; older rows may lack one (business timezone)
+  estimatedDistance: string;
+  estimatedDuration: string;
+  passengers: number;
+  submittedAt: string;
+  notes: string | null;
+  mapUrl: string;            // Directions through every stop
+  stops: ItineraryStop[];   // Intermediate stops in order; empty for a direct ride
+  quote: Quote | null;      // Price at submission; null when pricing is off or the trip could not be read
+  reservationId: string | null;  // Shared by both legs of a round trip (the outbound transactionId)
+  tripLeg: TripLeg | null;
+  seriesId: string | null;       // Shared by every ride of a recurring series (the first ride's transactionId)
+  recurrence: string | null;     // The series' recurrence rule (canonical RRULE)
+  serviceArea: ServiceAreaStatus | null;  // Classification at submission; null when SERVICE_ZONES is unset
+}
+
+export interface BookingDetails extends SubmissionSummary {
+  status: string;
+}
+
+export interface BookingRecord extends BookingDetails {
+  reminderSentAt: string | null;
+  requestedPickupDatetime: string | null;    // New pickup proposed by the customer, awaiting approval
+  denialReason: string | null;               // Reason shown to the customer when denied
+  alternativePickupDatetime: string | null;  // Pickup time offered instead when denied
+  ownerNotes: string | null;                 // Internal note recorded with the owner's decision
+  driverId: string | null;                   // Roster driver assigned on acceptance
+  driverName: string | null;                 // Contact details of the assigned driver, copied from the
+  driverEmail: string | null;                //   roster (or DRIVER_CONTACT_* for bookings made before
+  driverPhone: string | null;                //   one was assigned)
+  vehicleId: string | null;                  // Fleet vehicle assigned on acceptance (VEHICLE_FLEET)
+  vehicleName: string | null;                // Name of that vehicle when it was assigned
+}
+
+/**
+ * Booking fields written together with a status change
+ * Omitted fields are left as they are; null clears a field.
+ */
+export interface BookingChanges {
+  pickupDatetime?: string;   // Also clears the reminder-sent marker
+  requestedPickupDatetime?: string | null;
+  denialReason?: string | null;
+  alternativePickupDatetime?: string | null;
+  ownerNotes?: string | null;
+  driverId?: string | null;
+  driverName?: string | null;
+  driverEmail?: string | null;
+  driverPhone?: string | null;
+  vehicleId?: string | null;
+  vehicleName?: string | null;
+}
+
+export interface DriverContact {
+  name: string;
+  email: string;
+  phone: string;
+}
+
+export interface NewBooking {
+  summary: SubmissionSummary;
+  rawPayload: string;
+  driverContact: DriverContact;
+}
+
+export interface StatusUpdate {
+  status: string;
+  expectedStatus: string;   // Only update if the booking is currently in this status
+  metadata?: string;        // Recorded with the audit entry
+  changes?: BookingChanges; // Written in the same update as the status
+}
+
+export interface StatusUpdateResult {
+  found: boolean;
+  updated: boolean;
+  currentStatus: string | null;  // Status after the call (unchanged when not updated)
+}
+
+export interface BookingQuery {
+  status?: string[];
+  pickupFrom?: number;      // Epoch ms, inclusive
+  pickupTo?: number;        // Epoch ms, inclusive
+  reminderSent?: boolean;
+  reservationId?: string;
+  seriesId?: string;
+  limit?: number;
+}
+
+export interface BookingStore {
+  /** Persist a new booking in DEFAULT_STATUS; returns the backend's row number */
+  create(booking: NewBooking): Promise<{ rowNumber: number }>;
+  getById(transactionId: string): Promise<BookingRecord | null>;
+  /** The latest booking with this key; earlier ones are all in a final status */
+  getByIdempotencyKey(idempotencyKey: string): Promise<BookingRecord | null>;
+  /** The submission as received (JSON), or null when the booking is not found or has none */
+  getRawPayload(transactionId: string): Promise<string | null>;
+  /** Compare-and-set the status so concurrent decisions cannot both win */
+  updateStatus(transactionId: string, update: StatusUpdate): Promise<StatusUpdateResult>;
+  markReminderSent(transactionId: string, sentAt: string): Promise<void>;
+  /** Append an audit entry for something that happened outside a status change */
+  recordEvent(transactionId: string, event: string, occurredAt: string, details: string): Promise<void>;
+  /** Bookings matching the query, ordered by pickup time */
+  list(query?: BookingQuery): Promise<BookingRecord[]>;
+}
+
+/**
+ * Parse a pickup datetime to epoch ms, or null when it is not a valid date
+ * Times without an offset are wall-clock times in `timeZone`.
+ */
+export function parsePickupTime(pickupDatetime: string, timeZone: string = DEFAULT_BUSINESS_TIMEZONE): number | null {
+  return parsePickupDateTime(pickupDatetime, timeZone);
+}
+
+/**
+ * Read a stored trip leg; anything unrecognised is treated as a one-way ride
+ */
+export function parseTripLeg(value: string | null | undefined): TripLeg | null {
+  return value === "outbound" || value === "return" ? value : null;
+}
+
+/**
+ * Read a stored service-area classification; anything unrecognised is treated as unchecked
+ */
+export function parseServiceAreaStatus(value: string | null | undefined): ServiceAreaStatus | null {
+  return value === "in-zone" || value === "out-of-zone" || value === "requires-review" ? value : null;
+}
+
+/**
+ * Read stored stops (JSON); anything unreadable is treated as a direct ride
+ */
+export function parseStoredStops(value: string | null | undefined): ItineraryStop[] {
+  if (!value?.trim()) {
+    return [];
+  }
+  try {
+    const stops = JSON.parse(value) as unknown;
+    if (!Array.isArray(stops)) {
+      return [];
+    }
+    return stops
+      .filter((stop): stop is ItineraryStop => typeof stop?.address === "string" && stop.address !== "")
+      .map(stop => ({ address: stop.address, waitMinutes: typeof stop.waitMinutes === "number" ? stop.waitMinutes : null }));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Audit entry for a status change, recording the transition it made
+ * e.g. status_updated_to_driver_en_route {"from":"Accepted","to":"Driver En Route"}
+ * Field changes written with the status are recorded alongside.
+ */
+export function statusAuditEntry(update: StatusUpdate): { event: string; details: string } {
+  return {
+    event: `status_updated_to_${update.status.toLowerCase().replace(/[^a-z0-9]+/g, "_")}`,
+    details: JSON.stringify({
+      from: update.expectedStatus,
+      to: update.status,
+      ...(update.metadata ? { metadata: update.metadata } : {}),
+      ...(update.changes && Object.keys(update.changes).length > 0 ? { changes: update.changes } : {}),
+    }),
+  };
+}
+
+/**
+ * A copy of the booking with the changes applied
+ */
+export function applyBookingChanges(booking: BookingRecord, changes: BookingChanges = {}): BookingRecord {
+  const updated = { ...booking };
+  for (const [field, value] of Object.entries(changes) as [keyof BookingChanges, string | null | undefined][]) {
+    if (value !== undefined) {
+      (updated as Record<keyof BookingChanges, string | null>)[field] = value;
+    }
+  }
+  if (changes.pickupDatetime !== undefined) {
+    updated.reminderSentAt = null;
+  }
+  return updated;
+}
+
+/**
+ * Filter and sort records in process (used by the Sheets and memory stores)
+ */
+export function applyBookingQuery(
+  records: BookingRecord[],
+  query: BookingQuery = {},
+  timeZone: string = DEFAULT_BUSINESS_TIMEZONE
+): BookingRecord[] {
+  const matches = records.filter(record => {
+    if (query.status && !query.status.includes(record.status)) {
+      return false;
+    }
+    if (query.reminderSent !== undefined && Boolean(record.reminderSentAt) !== query.reminderSent) {
+      return false;
+    }
+    if (query.reservationId !== undefined && record.reservationId !== query.reservationId) {
+      return false;
+    }
+    if (query.seriesId !== undefined && record.seriesId !== query.seriesId) {
+      return false;
+    }
+    if (query.pickupFrom !== undefined || query.pickupTo !== undefined) {
+      const pickupTime = parsePickupTime(record.pickupDatetime, timeZone);
+      if (pickupTime === null) return false;
+      if (query.pickupFrom !== undefined && pickupTime < query.pickupFrom) return false;
+      if (query.pickupTo !== undefined && pickupTime > query.pickupTo) return false;
+    }
+    return true;
+  });
+
+  matches.sort((a, b) =>
+    (parsePickupTime(a.pickupDatetime, timeZone) ?? Number.MAX_SAFE_INTEGER) -
+    (parsePickupTime(b.pickupDatetime, timeZone) ?? Number.MAX_SAFE_INTEGER)
+  );
+
+  return query.limit !== undefined ? matches.slice(0, query.limit) : matches;
+}
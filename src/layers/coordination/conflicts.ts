@@ -0,0 +1,130 @@
+/**
+ * Double-Booking Detection
+ *
+ * A driver cannot be on two rides at once. A ride occupies its driver from
+ * pickup until the estimated arrival plus a turnaround buffer
+ * (BOOKING_CONFLICT_BUFFER_MINUTES, default 30):
+ *
+ *   pickup ──── estimatedDuration ──── arrival ── buffer ──┤
+ *
+ * A booking conflicts with every accepted ride of the same driver whose window
+ * overlaps its own. Rides with no roster driver all go to the default driver
+ * (DRIVER_CONTACT_*), so they conflict with each other.
+ * BOOKING_CONFLICT_POLICY decides what accepting it anyway takes:
+ * - warn (default): conflicts are shown; accepting works as before
+ * - override: the owner must tick a box to accept despite the overlap
+ * - block: the booking cannot be accepted while the conflict remains
+ */
+
+import { parseDurationMinutes } from "../../templates/emails/utils";
+import { parsePickupTime, BookingDetails, BookingRecord } from "./bookingStore";
+import { BookingStatus, CONFIRMED_STATUSES } from "./lifecycle";
+
+export type ConflictPolicy = "warn" | "override" | "block";
+
+export interface ConflictEnv {
+  BOOKING_CONFLICT_BUFFER_MINUTES?: string;  // Default 30
+  BOOKING_CONFLICT_POLICY?: string;          // "warn" (default) | "override" | "block"
+}
+
+/**
+ * When a ride occupies the driver, in epoch ms (end exclusive)
+ */
+export interface RideWindow {
+  start: number;
+  end: number;
+}
+
+export interface BookingConflict {
+  booking: BookingRecord;
+  window: RideWindow;
+}
+
+// Rides that hold the driver: booked and not finished
+export const SCHEDULED_STATUSES: readonly BookingStatus[] = [...CONFIRMED_STATUSES, "Driver En Route"];
+
+// How far before a window to look for rides that may still be running into it
+export const MAX_RIDE_HOURS = 24;
+
+const DEFAULT_BUFFER_MINUTES = 30;
+const CONFLICT_POLICIES: readonly ConflictPolicy[] = ["warn", "override", "block"];
+const MINUTE_MS = 60 * 1000;
+
+const logger = {
+  warn: (event: string, data?: Record<string, unknown>) =>
+    console.warn(JSON.stringify({ level: 'WARN', event, ...data, timestamp: new Date().toISOString() })),
+};
+
+export function conflictBufferMinutes(env: ConflictEnv): number {
+  const value = env.BOOKING_CONFLICT_BUFFER_MINUTES;
+  if (value === undefined || !value.trim()) {
+    return DEFAULT_BUFFER_MINUTES;
+  }
+  const minutes = Number(value);
+  if (!Number.isFinite(minutes) || minutes < 0) {
+    logger.warn('conflicts.invalid_buffer', { value, fallback: DEFAULT_BUFFER_MINUTES });
+    return DEFAULT_BUFFER_MINUTES;
+  }
+  return minutes;
+}
+
+export function conflictPolicy(env: ConflictEnv): ConflictPolicy {
+  const value = env.BOOKING_CONFLICT_POLICY?.trim().toLowerCase();
+  if (!value) {
+    return "warn";
+  }
+  if (!(CONFLICT_POLICIES as readonly string[]).includes(value)) {
+    logger.warn('conflicts.invalid_policy', { value, fallback: "warn" });
+    return "warn";
+  }
+  return value as ConflictPolicy;
+}
+
+/**
+ * The window a ride occupies the driver, or null when its pickup time cannot be parsed
+ */
+export function rideWindow(
+  booking: Pick<BookingDetails, "pickupDatetime" | "estimatedDuration">,
+  bufferMinutes: number,
+  timeZone: string
+): RideWindow | null {
+  const start = parsePickupTime(booking.pickupDatetime, timeZone);
+  if (start === null) {
+    return null;
+  }
+  const durationMinutes = parseDurationMinutes(booking.estimatedDuration);
+  return { start, end: start + (durationMinutes + bufferMinutes) * MINUTE_MS };
+}
+
+export function windowsOverlap(a: RideWindow, b: RideWindow): boolean {
+  return a.start < b.end && b.start < a.end;
+}
+
+/**
+ * The scheduled rides among `candidates` that overlap `window`, ordered by pickup
+ * The booking being checked is identified by `transactionId` and never conflicts with itself.
+ * Only rides of `driverId` count; null is the default driver.
+ */
+export function detectConflicts(
+  transactionId: string,
+  window: RideWindow,
+  candidates: BookingRecord[],
+  bufferMinutes: number,
+  timeZone: string,
+  driverId: string | null = null
+): BookingConflict[] {
+  const conflicts: BookingConflict[] = [];
+  for (const candidate of candidates) {
+    if (candidate.transactionId === transactionId || !SCHEDULED_STATUSES.includes(candidate.status as BookingStatus)) {
+      continue;
+    }
+    if ((candidate.driverId ?? null) !== driverId) {
+      continue;
+    }
+    const candidateWindow = rideWindow(candidate, bufferMinutes, timeZone);
+    if (candidateWindow && windowsOverlap(window, candidateWindow)) {
+      conflicts.push({ booking: candidate, window: candidateWindow });
+    }
+  }
+  return conflicts.sort((a, b) => a.window.start - b.window.start);
+}
@@ -0,0 +1,384 @@
+/**
+ * Cloudflare D1 Booking Store
+ *
+ * Stores bookings and the driver roster in a D1 (SQLite) database bound as
+ * BOOKINGS_DB. The schema lives in migrations/ and is applied with
+ * `wrangler d1 migrations apply`.
+ *
+ * Status updates are a single conditional UPDATE, so two concurrent decisions
+ * for the same booking cannot both succeed.
+ */
+
+import {
+  DEFAULT_STATUS,
+  parsePickupTime,
+  statusAuditEntry,
+  BookingQuery,
+  BookingRecord,
+  BookingStore,
+  NewBooking,
+  parseStoredStops,
+  parseServiceAreaStatus,
+  parseTripLeg,
+  StatusUpdate,
+  StatusUpdateResult,
+} from "./bookingStore";
+import { sortDrivers, Driver, DriverStore, DriverUpdate } from "./driverStore";
+import { parseStoredQuote } from "./pricing";
+import { DEFAULT_BUSINESS_TIMEZONE } from "../../time/businessTime";
+
+interface BookingRow {
+  transaction_id: string;
+  idempotency_key: string;
+  submitted_at: string;
+  customer_name: string;
+  customer_email: string;
+  customer_phone: string | null;
+  start_location: string;
+  end_location: string;
+  pickup_datetime: string;
+  estimated_distance: string;
+  estimated_duration: string;
+  passengers: number;
+  notes: string | null;
+  status: string;
+  map_url: string;
+  stops: string | null;
+  reminder_sent_at: string | null;
+  requested_pickup_datetime: string | null;
+  denial_reason: string | null;
+  alternative_pickup_datetime: string | null;
+  owner_notes: string | null;
+  driver_id: string | null;
+  driver_name: string | null;
+  driver_email: string | null;
+  driver_phone: string | null;
+  vehicle_id: string | null;
+  vehicle_name: string | null;
+  quote: string | null;
+  reservation_id: string | null;
+  trip_leg: string | null;
+  series_id: string | null;
+  recurrence: string | null;
+  service_area: string | null;
+}
+
+interface DriverRow {
+  id: string;
+  name: string;
+  email: string;
+  phone: string | null;
+  active: number;
+  created_at: string;
+}
+
+// Columns for the BookingChanges that map one-to-one (pickupDatetime is handled separately)
+const CHANGE_COLUMNS = {
+  requestedPickupDatetime: "requested_pickup_datetime",
+  denialReason: "denial_reason",
+  alternativePickupDatetime: "alternative_pickup_datetime",
+  ownerNotes: "owner_notes",
+  driverId: "driver_id",
+  driverName: "driver_name",
+  driverEmail: "driver_email",
+  driverPhone: "driver_phone",
+  vehicleId: "vehicle_id",
+  vehicleName: "vehicle_name",
+} as const;
+
+const BOOKING_COLUMNS = `transaction_id, idempotency_key, submitted_at, customer_name, customer_email,
+  customer_phone, start_location, end_location, pickup_datetime, estimated_distance,
+  estimated_duration, passengers, notes, status, map_url, stops, reminder_sent_at, requested_pickup_datetime,
+  denial_reason, alternative_pickup_datetime, owner_notes, driver_id, driver_name, driver_email, driver_phone,
+  vehicle_id, vehicle_name, quote, reservation_id, trip_leg, series_id, recurrence,
+  service_area`;
+
+const DRIVER_COLUMNS = `id, name, email, phone, active, created_at`;
+
+// Roster fields an update may write
+const DRIVER_UPDATE_COLUMNS = {
+  name: "name",
+  email: "email",
+  phone: "phone",
+  active: "active",
+} as const;
+
+export class D1BookingStore implements BookingStore {
+  constructor(
+    private readonly db: D1Database,
+    private readonly timeZone: string = DEFAULT_BUSINESS_TIMEZONE  // For pickup times without an offset
+  ) {}
+
+  async create({ summary, rawPayload, driverContact }: NewBooking): Promise<{ rowNumber: number }> {
+    const now = new Date().toISOString();
+
+    const result = await this.db.prepare(
+      `INSERT INTO bookings (
+        transaction_id, idempotency_key, submitted_at, customer_name, customer_email,
+        customer_phone, start_location, end_location, pickup_datetime, pickup_at,
+        estimated_distance, estimated_duration, passengers, notes, driver_name,
+        driver_email, driver_phone, status, map_url, stops, raw_payload, quote, quote_total,
+        reservation_id, trip_leg, series_id, recurrence, service_area, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    ).bind(
+      summary.transactionId,
+      summary.idempotencyKey,
+      summary.submittedAt,
+      summary.customerName,
+      summary.customerEmail,
+      summary.customerPhone,
+      summary.startLocation,
+      summary.endLocation,
+      summary.pickupDatetime,
+      parsePickupTime(summary.pickupDatetime, this.timeZone),
+      summary.estimatedDistance,
+      summary.estimatedDuration,
+      summary.passengers,
+      summary.notes,
+      driverContact.name || null,
+      driverContact.email || null,
+      driverContact.phone || null,
+      DEFAULT_STATUS,
+      summary.mapUrl,
+      summary.stops.length > 0 ? JSON.stringify(summary.stops) : null,
+      rawPayload,
+      summary.quote ? JSON.stringify(summary.quote) : null,
+      summary.quote?.total ?? null,
+      summary.reservationId,
+      summary.tripLeg,
+      summary.seriesId,
+      summary.recurrence,
+      summary.serviceArea,
+      now
+    ).run();
+
+    await this.writeAudit(summary.transactionId, "submission_received", summary.submittedAt, JSON.stringify({
+      idempotencyKey: summary.idempotencyKey,
+      route: `${summary.startLocation} → ${summary.endLocation}`,
+    }));
+
+    return { rowNumber: result.meta.last_row_id };
+  }
+
+  async getById(transactionId: string): Promise<BookingRecord | null> {
+    const row = await this.db.prepare(`SELECT ${BOOKING_COLUMNS} FROM bookings WHERE transaction_id = ?`)
+      .bind(transactionId)
+      .first<BookingRow>();
+    return row ? parseBookingRow(row) : null;
+  }
+
+  async getByIdempotencyKey(idempotencyKey: string): Promise<BookingRecord | null> {
+    const row = await this.db.prepare(
+      `SELECT ${BOOKING_COLUMNS} FROM bookings WHERE idempotency_key = ? ORDER BY submitted_at DESC LIMIT 1`
+    )
+      .bind(idempotencyKey)
+      .first<BookingRow>();
+    return row ? parseBookingRow(row) : null;
+  }
+
+  async getRawPayload(transactionId: string): Promise<string | null> {
+    const row = await this.db.prepare(`SELECT raw_payload FROM bookings WHERE transaction_id = ?`)
+      .bind(transactionId)
+      .first<{ raw_payload: string | null }>();
+    return row?.raw_payload || null;
+  }
+
+  async updateStatus(transactionId: string, update: StatusUpdate): Promise<StatusUpdateResult> {
+    const assignments = ["status = ?", "updated_at = ?"];
+    const params: unknown[] = [update.status, new Date().toISOString()];
+
+    const changes = update.changes ?? {};
+
+    if (changes.pickupDatetime !== undefined) {
+      assignments.push("pickup_datetime = ?", "pickup_at = ?", "reminder_sent_at = NULL");
+      params.push(changes.pickupDatetime, parsePickupTime(changes.pickupDatetime, this.timeZone));
+    }
+    for (const [field, column] of Object.entries(CHANGE_COLUMNS) as [keyof typeof CHANGE_COLUMNS, string][]) {
+      if (changes[field] !== undefined) {
+        assignments.push(`${column} = ?`);
+        params.push(changes[field]);
+      }
+    }
+
+    const result = await this.db.prepare(
+      `UPDATE bookings SET ${assignments.join(", ")} WHERE transaction_id = ? AND status = ?`
+    ).bind(...params, transactionId, update.expectedStatus).run();
+
+    if (result.meta.changes > 0) {
+      const audit = statusAuditEntry(update);
+      await this.writeAudit(transactionId, audit.event, new Date().toISOString(), audit.details);
+      return { found: true, updated: true, currentStatus: update.status };
+    }
+
+    const currentStatus = await this.db.prepare(`SELECT status FROM bookings WHERE transaction_id = ?`)
+      .bind(transactionId)
+      .first<string>('status');
+
+    return currentStatus === null
+      ? { found: false, updated: false, currentStatus: null }
+      : { found: true, updated: false, currentStatus };
+  }
+
+  async markReminderSent(transactionId: string, sentAt: string): Promise<void> {
+    const result = await this.db.prepare(
+      `UPDATE bookings SET reminder_sent_at = ?, updated_at = ? WHERE transaction_id = ?`
+    ).bind(sentAt, new Date().toISOString(), transactionId).run();
+
+    if (result.meta.changes === 0) {
+      throw new Error(`Transaction ID ${transactionId} not found`);
+    }
+
+    await this.writeAudit(transactionId, "reminder_sent", sentAt, '');
+  }
+
+  async recordEvent(transactionId: string, event: string, occurredAt: string, details: string): Promise<void> {
+    await this.writeAudit(transactionId, event, occurredAt, details);
+  }
+
+  async list(query: BookingQuery = {}): Promise<BookingRecord[]> {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (query.status) {
+      if (query.status.length === 0) return [];
+      conditions.push(`status IN (${query.status.map(() => '?').join(', ')})`);
+      params.push(...query.status);
+    }
+    if (query.reminderSent !== undefined) {
+      conditions.push(query.reminderSent ? `reminder_sent_at IS NOT NULL` : `reminder_sent_at IS NULL`);
+    }
+    if (query.reservationId !== undefined) {
+      conditions.push(`reservation_id = ?`);
+      params.push(query.reservationId);
+    }
+    if (query.seriesId !== undefined) {
+      conditions.push(`series_id = ?`);
+      params.push(query.seriesId);
+    }
+    if (query.pickupFrom !== undefined) {
+      conditions.push(`pickup_at >= ?`);
+      params.push(query.pickupFrom);
+    }
+    if (query.pickupTo !== undefined) {
+      conditions.push(`pickup_at <= ?`);
+      params.push(query.pickupTo);
+    }
+
+    let sql = `SELECT ${BOOKING_COLUMNS} FROM bookings`;
+    if (conditions.length > 0) {
+      sql += ` WHERE ${conditions.join(' AND ')}`;
+    }
+    sql += ` ORDER BY pickup_at IS NULL, pickup_at`;
+    if (query.limit !== undefined) {
+      sql += ` LIMIT ?`;
+      params.push(query.limit);
+    }
+
+    const { results } = await this.db.prepare(sql).bind(...params).all<BookingRow>();
+    return results.map(parseBookingRow);
+  }
+
+  private async writeAudit(transactionId: string, event: string, occurredAt: string, details: string): Promise<void> {
+    await this.db.prepare(
+      `INSERT INTO booking_audit (transaction_id, event, occurred_at, details) VALUES (?, ?, ?, ?)`
+    ).bind(transactionId, event, occurredAt, details).run();
+  }
+}
+
+export class D1DriverStore implements DriverStore {
+  constructor(private readonly db: D1Database) {}
+
+  async list(): Promise<Driver[]> {
+    const { results } = await this.db.prepare(`SELECT ${DRIVER_COLUMNS} FROM drivers`).all<DriverRow>();
+    return sortDrivers(results.map(parseDriverRow));
+  }
+
+  async getById(id: string): Promise<Driver | null> {
+    const row = await this.db.prepare(`SELECT ${DRIVER_COLUMNS} FROM drivers WHERE id = ?`)
+      .bind(id)
+      .first<DriverRow>();
+    return row ? parseDriverRow(row) : null;
+  }
+
+  async create(driver: Driver): Promise<void> {
+    await this.db.prepare(
+      `INSERT INTO drivers (id, name, email, phone, active, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?)`
+    ).bind(
+      driver.id,
+      driver.name,
+      driver.email,
+      driver.phone,
+      driver.active ? 1 : 0,
+      driver.createdAt,
+      driver.createdAt
+    ).run();
+  }
+
+  async update(id: string, update: DriverUpdate): Promise<Driver | null> {
+    const assignments = ["updated_at = ?"];
+    const params: unknown[] = [new Date().toISOString()];
+
+    for (const [field, column] of Object.entries(DRIVER_UPDATE_COLUMNS) as [keyof DriverUpdate, string][]) {
+      const value = update[field];
+      if (value !== undefined) {
+        assignments.push(`${column} = ?`);
+        params.push(typeof value === "boolean" ? (value ? 1 : 0) : value);
+      }
+    }
+
+    const result = await this.db.prepare(`UPDATE drivers SET ${assignments.join(", ")} WHERE id = ?`)
+      .bind(...params, id)
+      .run();
+
+    return result.meta.changes > 0 ? this.getById(id) : null;
+  }
+}
+
+function parseBookingRow(row: BookingRow): BookingRecord {
+  return {
+    transactionId: row.transaction_id,
+    idempotencyKey: row.idempotency_key,
+    customerName: row.customer_name,
+    customerEmail: row.customer_email,
+    customerPhone: row.customer_phone,
+    startLocation: row.start_location,
+    endLocation: row.end_location,
+    pickupDatetime: row.pickup_datetime,
+    estimatedDistance: row.estimated_distance,
+    estimatedDuration: row.estimated_duration,
+    passengers: Number(row.passengers) || 1,
+    submittedAt: row.submitted_at,
+    notes: row.notes,
+    mapUrl: row.map_url,
+    stops: parseStoredStops(row.stops),
+    status: row.status || DEFAULT_STATUS,
+    reminderSentAt: row.reminder_sent_at,
+    requestedPickupDatetime: row.requested_pickup_datetime ?? null,
+    denialReason: row.denial_reason ?? null,
+    alternativePickupDatetime: row.alternative_pickup_datetime ?? null,
+    ownerNotes: row.owner_notes ?? null,
+    driverId: row.driver_id ?? null,
+    driverName: row.driver_name ?? null,
+    driverEmail: row.driver_email ?? null,
+    driverPhone: row.driver_phone ?? null,
+    vehicleId: row.vehicle_id ?? null,
+    vehicleName: row.vehicle_name ?? null,
+    quote: parseStoredQuote(row.quote),
+    reservationId: row.reservation_id ?? null,
+    tripLeg: parseTripLeg(row.trip_leg),
+    seriesId: row.series_id ?? null,
+    recurrence: row.recurrence ?? null,
+    serviceArea: parseServiceAreaStatus(row.service_area),
+  };
+}
+
+function parseDriverRow(row: DriverRow): Driver {
+  return {
+    id: row.id,
+    name: row.name,
+    email: row.email,
+    phone: row.phone,
+    active: Boolean(row.active),
+    createdAt: row.created_at,
+  };
+}
@@ -0,0 +1,62 @@
+/**
+ * Driver Roster
+ *
+ * The drivers the owner can assign to a booking when accepting it, kept in
+ * the same backend as the bookings (BOOKING_STORE):
+ * - "sheets": a Drivers tab in the primary spreadsheet, see sheetsStore.ts
+ * - "d1": the drivers table, see d1Store.ts and migrations/
+ * - "memory": in-process Map, for tests and local development
+ *
+ * Drivers are deactivated rather than deleted, so bookings keep pointing at
+ * a roster entry. The driver's contact details are also copied onto each
+ * booking they are assigned to, so later roster edits never rewrite history.
+ */
+
+export interface Driver {
+  id: string;
+  name: string;
+  email: string;
+  phone: string | null;
+  active: boolean;       // Only active drivers are offered on the accept page
+  createdAt: string;
+}
+
+/**
+ * Roster fields written by an update
+ * Omitted fields are left as they are; null clears the phone.
+ */
+export interface DriverUpdate {
+  name?: string;
+  email?: string;
+  phone?: string | null;
+  active?: boolean;
+}
+
+export interface DriverStore {
+  /** Every driver, active or not, ordered by name */
+  list(): Promise<Driver[]>;
+  getById(id: string): Promise<Driver | null>;
+  create(driver: Driver): Promise<void>;
+  /** Returns the updated driver, or null when there is no such driver */
+  update(id: string, update: DriverUpdate): Promise<Driver | null>;
+}
+
+/**
+ * A copy of the driver with the update applied
+ */
+export function applyDriverUpdate(driver: Driver, update: DriverUpdate): Driver {
+  const updated = { ...driver };
+  for (const [field, value] of Object.entries(update) as [keyof DriverUpdate, string | boolean | null | undefined][]) {
+    if (value !== undefined) {
+      (updated as Record<keyof DriverUpdate, string | boolean | null>)[field] = value;
+    }
+  }
+  return updated;
+}
+
+/**
+ * Order drivers by name for the roster and the accept page
+ */
+export function sortDrivers(drivers: Driver[]): Driver[] {
+  return drivers.sort((a, b) => a.name.localeCompare(b.name, "en", { sensitivity: "base" }));
+}
@@ -1,41 +1,72 @@
 /**
- * Coordination Layer - Google Sheets Integration
+ * Coordination Layer - Booking Persistence
  *
  * Handles:
- * - Booking data persistence to Google Sheets
+ * - Booking data persistence through a pluggable BookingStore
+ *   (Google Sheets, Cloudflare D1 or in-memory, selected by BOOKING_STORE)
  * - Transaction ID generation (UUID)
- * - Google Maps URL construction
- * - Status updates for accept/deny workflow
- * - Audit trail logging
+ * - Duplicate submission lookup by idempotency key
+ * - Google Maps URL construction, through any intermediate stops
+ * - Booking lifecycle transitions (accept/deny, cancel, reschedule, trip progress)
+ * - Reminder lookup and reminder-sent markers
+ * - Double-booking detection against accepted rides (see conflicts.ts)
+ * - Driver roster and per-booking driver assignment (see driverStore.ts)
+ * - Ride quotes, stored with each booking (see pricing.ts)
+ * - Round trips, stored as an outbound and a return booking sharing a reservation ID
+ * - Recurring bookings, stored as one booking per ride sharing a series ID
+ * - Service-area classification of each booking at submission (see ../security/serviceArea.ts)
  */
 
-import { GoogleSheetsClient } from "../../integrations/googleSheets";
-import { SecurityResult, BookingPayload } from "../security";
-
-const DEFAULT_STATUS = "Pending Review";
-
-// Column indices for Google Sheets (0-indexed)
-const COLUMNS = {
-  TRANSACTION_ID: 0,    // A
-  IDEMPOTENCY_KEY: 1,   // B
-  SUBMITTED_AT: 2,      // C
-  CUSTOMER_NAME: 3,     // D
-  CUSTOMER_EMAIL: 4,    // E
-  CUSTOMER_PHONE: 5,    // F
-  START_LOCATION: 6,    // G
-  END_LOCATION: 7,      // H
-  PICKUP_DATETIME: 8,   // I
-  ESTIMATED_DISTANCE: 9, // J
-  ESTIMATED_DURATION: 10, // K
-  PASSENGERS: 11,       // L
-  NOTES: 12,            // M
-  DRIVER_NAME: 13,      // N
-  DRIVER_EMAIL: 14,     // O
-  DRIVER_PHONE: 15,     // P
-  STATUS: 16,           // Q
-  MAP_URL: 17,          // R
-  RAW_PAYLOAD: 18,      // S
-} as const;
+import {
+  classifyTrip,
+  expandRecurrence,
+  loadServiceArea,
+  parseRecurrenceRule,
+  BookingPayload,
+  SecurityResult,
+  ServiceAreaEnv,
+  ServiceAreaStatus,
+} from "../security";
+import {
+  businessTimeZone,
+  formatZonedIso,
+  parsePickupDateTime,
+  type BusinessTimeEnv,
+} from "../../time/businessTime";
+import {
+  DEFAULT_STATUS,
+  applyBookingChanges,
+  BookingChanges,
+  BookingDetails,
+  BookingRecord,
+  BookingStore,
+  DriverContact,
+  ItineraryStop,
+  SubmissionSummary,
+} from "./bookingStore";
+import { Driver, DriverStore, DriverUpdate } from "./driverStore";
+import { SheetsBookingStore, SheetsDriverStore, SheetsStoreEnv } from "./sheetsStore";
+import { D1BookingStore, D1DriverStore } from "./d1Store";
+import { MemoryBookingStore, MemoryDriverStore } from "./memoryStore";
+import {
+  allowedTransitions,
+  BookingNotFoundError,
+  BookingStatus,
+  CONFIRMED_STATUSES,
+  FINAL_STATUSES,
+  InvalidTransitionError,
+} from "./lifecycle";
+import {
+  conflictBufferMinutes,
+  detectConflicts,
+  rideWindow,
+  BookingConflict,
+  ConflictEnv,
+  MAX_RIDE_HOURS,
+  RideWindow,
+  SCHEDULED_STATUSES,
+} from "./conflicts";
+import { loadPricing, quoteRide, PricingEnv, Quote, QuoteRequest, QuoteResult } from "./pricing";
 
 const logger = {
   info: (event: string, data?: Record<string, unknown>) =>
@@ -46,42 +77,88 @@ const logger = {
     console.error(JSON.stringify({ level: 'ERROR', event, ...data, timestamp: new Date().toISOString() })),
 };
 
-export interface CoordinationEnv {
-  GOOGLE_SERVICE_ACCOUNT: string;
-  GOOGLE_SHEET_ID_PRIMARY: string;
-  GOOGLE_SHEET_ID_BACKUP?: string;
-  GOOGLE_SHEET_RANGE_PRIMARY?: string;
-  GOOGLE_SHEET_RANGE_BACKUP?: string;
-  GOOGLE_SHEET_ID_AUDIT?: string;
-  GOOGLE_SHEET_RANGE_AUDIT?: string;
-  DRIVER_CONTACT_NAME?: string;
+export interface CoordinationEnv extends SheetsStoreEnv, ConflictEnv, PricingEnv, ServiceAreaEnv {
+  BOOKING_STORE?: string;       // "sheets" (default) | "d1" | "memory"
+  BOOKINGS_DB?: D1Database;     // Required when BOOKING_STORE = "d1"
+  DRIVER_CONTACT_NAME?: string;    // Default driver, used until one is assigned from the roster
   DRIVER_CONTACT_EMAIL?: string;
   DRIVER_CONTACT_PHONE?: string;
-  SHEETS_MAX_RETRIES?: string;
-  SHEETS_RETRY_DELAY_MS?: string;
-  SHEETS_VERIFY_WRITES?: string;
-}
-
-export interface SubmissionSummary {
-  transactionId: string;
-  idempotencyKey: string;
-  customerName: string;
-  customerEmail: string;
-  customerPhone: string | null;
-  startLocation: string;
-  endLocation: string;
-  pickupDatetime: string;
-  estimatedDistance: string;
-  estimatedDuration: string;
-  passengers: number;
-  submittedAt: string;
-  notes: string | null;
-  mapUrl: string;
+}
+
+export interface NewDriver {
+  name: string;
+  email: string;
+  phone: string | null;
 }
 
 export interface CoordinationResult {
-  summary: SubmissionSummary;
-  rowNumber: number;
+  summary: SubmissionSummary;       // The booking, or the outbound leg of a round trip
+  returnLeg: SubmissionSummary | null;  // The return leg of a round trip
+  series: SubmissionSummary[];  // Every ride of a recurring series in pickup order, from `summary`; empty otherwise
+  rowNumber: number | null;  // null when replaying a duplicate
+  duplicate: boolean;  // true when the idempotency key matched an existing booking
+}
+
+// Shared per isolate so the memory backend survives between requests
+const memoryStore = new MemoryBookingStore();
+const memoryDriverStore = new MemoryDriverStore();
+
+/**
+ * Create the booking store selected by BOOKING_STORE
+ */
+export function createBookingStore(env: CoordinationEnv): BookingStore {
+  const backend = (env.BOOKING_STORE ?? 'sheets').toLowerCase();
+
+  switch (backend) {
+    case 'sheets':
+      return new SheetsBookingStore(env);
+    case 'd1':
+      if (!env.BOOKINGS_DB) {
+        throw new Error("BOOKING_STORE is d1 but the BOOKINGS_DB binding is missing");
+      }
+      return new D1BookingStore(env.BOOKINGS_DB, businessTimeZone(env));
+    case 'memory':
+      // Bookings created through the worker always carry an offset, so the
+      // shared store's default zone only matters for hand-made test data
+      return memoryStore;
+    default:
+      throw new Error(`Unknown BOOKING_STORE: ${env.BOOKING_STORE}`);
+  }
+}
+
+/**
+ * The shared in-memory store used when BOOKING_STORE = "memory"
+ */
+export function getMemoryBookingStore(): MemoryBookingStore {
+  return memoryStore;
+}
+
+/**
+ * Create the driver roster store for the backend selected by BOOKING_STORE
+ */
+export function createDriverStore(env: CoordinationEnv): DriverStore {
+  const backend = (env.BOOKING_STORE ?? 'sheets').toLowerCase();
+
+  switch (backend) {
+    case 'sheets':
+      return new SheetsDriverStore(env);
+    case 'd1':
+      if (!env.BOOKINGS_DB) {
+        throw new Error("BOOKING_STORE is d1 but the BOOKINGS_DB binding is missing");
+      }
+      return new D1DriverStore(env.BOOKINGS_DB);
+    case 'memory':
+      return memoryDriverStore;
+    default:
+      throw new Error(`Unknown BOOKING_STORE: ${env.BOOKING_STORE}`);
+  }
+}
+
+/**
+ * The shared in-memory roster used when BOOKING_STORE = "memory"
+ */
+export function getMemoryDriverStore(): MemoryDriverStore {
+  return memoryDriverStore;
 }
 
 /**
@@ -101,20 +178,51 @@ export async function handleSubmission(
   });
 
   // Validate environment
-  if (!env.GOOGLE_SHEET_ID_PRIMARY) {
-    logger.error('coordination.config_error', { operationId, error: 'Missing GOOGLE_SHEET_ID_PRIMARY' });
+  let store: BookingStore;
+  try {
+    store = createBookingStore(env);
+  } catch (error) {
+    logger.error('coordination.config_error', {
+      operationId,
+      error: error instanceof Error ? error.message : String(error),
+    });
     throw new Response("Server configuration error", { status: 500 });
   }
 
-  if (!env.GOOGLE_SERVICE_ACCOUNT) {
-    logger.error('coordination.config_error', { operationId, error: 'Missing GOOGLE_SERVICE_ACCOUNT' });
-    throw new Response("Server configuration error", { status: 500 });
+  // Return the original booking if this idempotency key was already recorded and
+  // any of its rides is still live; once they are all final the request is new
+  const original = await store.getByIdempotencyKey(securityResult.idempotencyKey);
+  if (original) {
+    const returnLeg = original.tripLeg === "outbound" && original.reservationId
+      ? await findReturnLegIn(store, original.reservationId)
+      : null;
+    const series = original.seriesId ? await store.list({ seriesId: original.seriesId }) : [];
+    const rides = [original, ...(returnLeg ? [returnLeg] : []), ...series];
+    if (rides.some(ride => !(FINAL_STATUSES as readonly string[]).includes(ride.status))) {
+      logger.info('coordination.submission.duplicate', {
+        operationId,
+        transactionId: original.transactionId.slice(0, 12),
+        idempotencyKey: securityResult.idempotencyKey.slice(0, 12),
+      });
+      return { summary: original, returnLeg, series, rowNumber: null, duplicate: true };
+    }
+    logger.info('coordination.submission.key_released', {
+      operationId,
+      transactionId: original.transactionId.slice(0, 12),
+      status: original.status,
+    });
   }
 
   // Build submission summary
   const payload = securityResult.payload;
   const transactionId = generateTransactionId();
-  const mapUrl = buildGoogleMapsUrl(payload.start_location, payload.end_location);
+  const stops: ItineraryStop[] = (payload.stops ?? []).map(stop => ({
+    address: stop.address,
+    waitMinutes: stop.wait_minutes ?? null,
+  }));
+  const mapUrl = buildGoogleMapsUrl(payload.start_location, payload.end_location, stops);
+  const isRoundTrip = Boolean(payload.return_pickup_datetime);
+  const seriesPickups = payload.recurrence ? expandSeries(payload.pickup_datetime, payload.recurrence, env) : [];
 
   const summary: SubmissionSummary = {
     transactionId,
@@ -131,157 +239,81 @@ export async function handleSubmission(
     submittedAt: receivedAt,
     notes: payload.notes ?? null,
     mapUrl,
+    stops,
+    quote: null,
+    reservationId: isRoundTrip ? transactionId : null,
+    tripLeg: isRoundTrip ? "outbound" : null,
+    seriesId: payload.recurrence ? transactionId : null,
+    recurrence: payload.recurrence ?? null,
+    serviceArea: classifyServiceArea(payload.start_location, payload.end_location, payload, env),
   };
+  summary.quote = priceSubmission(summary, env, operationId);
 
-  // Create Google Sheets client with retry configuration
-  const sheetsClient = new GoogleSheetsClient({
-    credentialsJson: env.GOOGLE_SERVICE_ACCOUNT,
-    maxRetries: parseEnvNumber(env.SHEETS_MAX_RETRIES, 3),
-    retryDelayMs: parseEnvNumber(env.SHEETS_RETRY_DELAY_MS, 1000),
-    verifyWrites: env.SHEETS_VERIFY_WRITES !== 'false',
-  });
-
-  // Build the row data
-  const submissionRow = buildSubmissionRow({
-    summary,
-    rawPayload: JSON.stringify(payload),
-    driverContact: {
-      name: env.DRIVER_CONTACT_NAME ?? "",
-      email: env.DRIVER_CONTACT_EMAIL ?? "",
-      phone: env.DRIVER_CONTACT_PHONE ?? "",
-    },
-  });
-
-  // Write to primary sheet
-  const primaryRange = env.GOOGLE_SHEET_RANGE_PRIMARY ?? "Sheet1!A:Z";
-  const appendResult = await sheetsClient.appendRow({
-    sheetId: env.GOOGLE_SHEET_ID_PRIMARY,
-    range: primaryRange,
-    values: submissionRow,
-  });
-
-  logger.info('coordination.primary_write.success', {
-    operationId,
-    transactionId: transactionId.slice(0, 12),
-    rowNumber: appendResult.rowNumber,
-  });
-
-  // Write to backup sheet (fire-and-forget, don't block on failure)
-  if (env.GOOGLE_SHEET_ID_BACKUP) {
-    const backupRange = env.GOOGLE_SHEET_RANGE_BACKUP ?? "Sheet1!A:Z";
-    sheetsClient.appendRow({
-      sheetId: env.GOOGLE_SHEET_ID_BACKUP,
-      range: backupRange,
-      values: submissionRow,
-    }).catch(error => {
-      logger.warn('coordination.backup_write.failed', {
-        operationId,
-        transactionId: transactionId.slice(0, 12),
-        error: error instanceof Error ? error.message : String(error),
-      });
-    });
+  const rawPayload = JSON.stringify(payload);
+  const driverContact: DriverContact = {
+    name: env.DRIVER_CONTACT_NAME ?? "",
+    email: env.DRIVER_CONTACT_EMAIL ?? "",
+    phone: env.DRIVER_CONTACT_PHONE ?? "",
+  };
+  const { rowNumber } = await store.create({ summary, rawPayload, driverContact });
+
+  // The return leg is a booking of its own, linked to the outbound one; the stops are outbound only
+  let returnLeg: SubmissionSummary | null = null;
+  if (isRoundTrip) {
+    const startLocation = payload.return_start_location ?? payload.end_location;
+    const endLocation = payload.return_end_location ?? payload.start_location;
+    returnLeg = {
+      ...summary,
+      transactionId: generateTransactionId(),
+      idempotencyKey: `${securityResult.idempotencyKey}:return`,
+      startLocation,
+      endLocation,
+      pickupDatetime: payload.return_pickup_datetime!,
+      estimatedDistance: payload.return_estimated_distance ?? payload.estimated_distance,
+      estimatedDuration: payload.return_estimated_duration ?? payload.estimated_duration,
+      mapUrl: buildGoogleMapsUrl(startLocation, endLocation),
+      stops: [],
+      tripLeg: "return",
+      serviceArea: classifyServiceArea(startLocation, endLocation, payload, env),
+    };
+    returnLeg.quote = priceSubmission(returnLeg, env, operationId);
+    await store.create({ summary: returnLeg, rawPayload, driverContact });
   }
 
-  // Write audit entry (fire-and-forget)
-  const auditSheetId = env.GOOGLE_SHEET_ID_AUDIT ?? env.GOOGLE_SHEET_ID_BACKUP;
-  if (auditSheetId) {
-    const auditRange = env.GOOGLE_SHEET_RANGE_AUDIT ?? "Sheet1!A:Z";
-    sheetsClient.appendAuditEntry({
-      sheetId: auditSheetId,
-      range: auditRange,
-      values: [
-        transactionId,
-        "submission_received",
-        receivedAt,
-        payload.customer_email,
-        JSON.stringify({
-          idempotencyKey: securityResult.idempotencyKey,
-          route: `${payload.start_location} → ${payload.end_location}`,
-        }),
-      ],
-    });
+  // Each later ride of a series is a booking of its own with the same details
+  const series: SubmissionSummary[] = seriesPickups.length > 0 ? [summary] : [];
+  for (const pickupDatetime of seriesPickups.slice(1)) {
+    const ride: SubmissionSummary = {
+      ...summary,
+      transactionId: generateTransactionId(),
+      idempotencyKey: `${securityResult.idempotencyKey}:${pickupDatetime.slice(0, 10)}`,
+      pickupDatetime,
+    };
+    ride.quote = priceSubmission(ride, env, operationId);
+    await store.create({ summary: ride, rawPayload, driverContact });
+    series.push(ride);
   }
 
   logger.info('coordination.submission.complete', {
     operationId,
     transactionId: transactionId.slice(0, 12),
+    rowNumber,
     customerName: summary.customerName,
     route: `${summary.startLocation} → ${summary.endLocation}`,
+    ...(summary.serviceArea ? { serviceArea: summary.serviceArea } : {}),
+    ...(returnLeg ? { returnTransactionId: returnLeg.transactionId.slice(0, 12) } : {}),
+    ...(series.length > 0 ? { seriesRides: series.length } : {}),
   });
 
   return {
     summary,
-    rowNumber: appendResult.rowNumber,
-  };
-}
-
-/**
- * Build the row data for Google Sheets
- */
-interface SubmissionRowInput {
-  summary: SubmissionSummary;
-  rawPayload: string;
-  driverContact: {
-    name: string;
-    email: string;
-    phone: string;
+    returnLeg,
+    series,
+    rowNumber,
+    duplicate: false,
   };
 }
 
-function buildSubmissionRow({
-  summary,
-  rawPayload,
-  driverContact,
-}: SubmissionRowInput): (string | number | null)[] {
-  return [
-    summary.transactionId,              // Column A - Transaction ID
-    summary.idempotencyKey,             // Column B - Idempotency Key
-    summary.submittedAt,                // Column C - Submitted At
-    summary.customerName,               // Column D - Customer Name
-    summary.customerEmail,              // Column E - Customer Email
-    sanitizeForSheet(summary.customerPhone), // Column F - Customer Phone
-    summary.startLocation,              // Column G - Start Location
-    summary.endLocation,                // Column H - End Location
-    summary.pickupDatetime,             // Column I - Pickup DateTime
-    summary.estimatedDistance,          // Column J - Estimated Distance
-    summary.estimatedDuration,          // Column K - Estimated Duration
-    summary.passengers,                 // Column L - Passengers
-    summary.notes ?? "",                // Column M - Notes
-    driverContact.name,                 // Column N - Driver Name
-    driverContact.email,                // Column O - Driver Email
-    sanitizeForSheet(driverContact.phone), // Column P - Driver Phone
-    DEFAULT_STATUS,                     // Column Q - Status
-    summary.mapUrl,                     // Column R - Google Maps URL
-    rawPayload,                         // Column S - Raw Payload (JSON)
-  ];
-}
-
-/**
- * Sanitize a value for safe insertion into Google Sheets
- * Prevents formula injection attacks
- */
-function sanitizeForSheet(value: string | null): string {
-  if (value == null) {
-    return "";
-  }
-
-  const trimmed = value.trim();
-  if (!trimmed) {
-    return "";
-  }
-
-  // Prefix with single quote if starts with a formula character
-  // but contains non-numeric content (to prevent formula injection)
-  const startsWithRiskyChar = /^[=+@-]/.test(trimmed);
-  const containsNonNumeric = /[^0-9.+-]/.test(trimmed.slice(1));
-
-  if (startsWithRiskyChar && containsNonNumeric) {
-    return `'${trimmed}`;
-  }
-
-  return trimmed;
-}
-
 /**
  * Generate a unique transaction ID (UUID v4)
  */
@@ -290,238 +322,508 @@ function generateTransactionId(): string {
 }
 
 /**
- * Build a Google Maps directions URL
+ * Build a Google Maps directions URL, via the stops in order
  */
-function buildGoogleMapsUrl(start: string, end: string): string {
+function buildGoogleMapsUrl(start: string, end: string, stops: ItineraryStop[] = []): string {
   const params = new URLSearchParams({
     api: '1',
     origin: start,
     destination: end,
     travelmode: 'driving',
   });
+  if (stops.length > 0) {
+    params.set('waypoints', stops.map(stop => stop.address).join('|'));
+  }
   return `https://www.google.com/maps/dir/?${params.toString()}`;
 }
 
 /**
- * Check and update booking status (for accept/deny workflow)
+ * Move a booking to a new status along the lifecycle transition table
+ *
+ * Throws BookingNotFoundError for an unknown transaction ID and
+ * InvalidTransitionError when the move is not allowed from the current status.
  */
-export interface BookingStatusResult {
-  currentStatus: string | null;
-  rowIndex: number | null;
-  updated: boolean;
+export interface TransitionResult {
+  from: BookingStatus;
+  to: BookingStatus;
+  booking: BookingRecord;   // With the new status and pickup changes applied
+  metadata?: string;
 }
 
-interface BookingStatusOptions {
+interface TransitionOptions {
   metadata?: string;
+  changes?: BookingChanges;   // Booking fields written with the new status
+  within?: readonly BookingStatus[];   // Narrows the table to these target statuses
 }
 
-export async function checkAndUpdateBookingStatus(
+// A concurrent change between read and write is re-checked against the table
+const MAX_TRANSITION_ATTEMPTS = 3;
+
+export async function transitionBookingStatus(
   transactionId: string,
-  newStatus: 'Accepted' | 'Denied',
+  to: BookingStatus,
   env: CoordinationEnv,
-  options: BookingStatusOptions = {}
-): Promise<BookingStatusResult> {
+  options: TransitionOptions = {}
+): Promise<TransitionResult> {
   const operationId = generateOperationId();
 
-  logger.info('coordination.status_update.start', {
+  logger.info('coordination.transition.start', {
     operationId,
     transactionId: transactionId.slice(0, 12),
-    newStatus,
+    to,
   });
 
-  if (!env.GOOGLE_SHEET_ID_PRIMARY) {
-    throw new Error("Missing GOOGLE_SHEET_ID_PRIMARY");
-  }
-
-  if (!env.GOOGLE_SERVICE_ACCOUNT) {
-    throw new Error("Missing GOOGLE_SERVICE_ACCOUNT secret");
-  }
-
-  const sheetsClient = new GoogleSheetsClient({
-    credentialsJson: env.GOOGLE_SERVICE_ACCOUNT,
-    maxRetries: parseEnvNumber(env.SHEETS_MAX_RETRIES, 3),
-    retryDelayMs: parseEnvNumber(env.SHEETS_RETRY_DELAY_MS, 1000),
-  });
+  const store = createBookingStore(env);
 
-  const primaryRange = env.GOOGLE_SHEET_RANGE_PRIMARY ?? "Sheet1!A:Z";
+  for (let attempt = 1; attempt <= MAX_TRANSITION_ATTEMPTS; attempt++) {
+    const booking = await store.getById(transactionId);
+    if (!booking) {
+      logger.warn('coordination.transition.not_found', {
+        operationId,
+        transactionId: transactionId.slice(0, 12),
+      });
+      throw new BookingNotFoundError(transactionId);
+    }
 
-  // Read all rows to find the matching transaction ID
-  const rows = await sheetsClient.readRange({
-    sheetId: env.GOOGLE_SHEET_ID_PRIMARY,
-    range: primaryRange,
-  });
+    const from = booking.status;
+    const allowed = allowedTransitions(from).filter(status => !options.within || options.within.includes(status));
+    if (!allowed.includes(to)) {
+      logger.warn('coordination.transition.rejected', {
+        operationId,
+        transactionId: transactionId.slice(0, 12),
+        from,
+        to,
+      });
+      throw new InvalidTransitionError(from, to, allowed);
+    }
 
-  // Find the row with matching transaction ID (column A, index 0)
-  let targetRowIndex = -1;
-  let currentStatus: string | null = null;
+    const result = await store.updateStatus(transactionId, {
+      status: to,
+      expectedStatus: from,
+      metadata: options.metadata,
+      changes: options.changes,
+    });
 
-  for (let i = 0; i < rows.length; i++) {
-    if (rows[i][COLUMNS.TRANSACTION_ID] === transactionId) {
-      targetRowIndex = i;
-      // Status is in column Q (index 16) based on new buildSubmissionRow
-      currentStatus = rows[i][COLUMNS.STATUS] as string || DEFAULT_STATUS;
-      break;
+    if (result.updated) {
+      logger.info('coordination.transition.success', {
+        operationId,
+        transactionId: transactionId.slice(0, 12),
+        from,
+        to,
+      });
+      return {
+        from: from as BookingStatus,
+        to,
+        booking: { ...applyBookingChanges(booking, options.changes), status: to },
+        metadata: options.metadata,
+      };
     }
-  }
 
-  if (targetRowIndex === -1) {
-    logger.warn('coordination.status_update.not_found', {
+    logger.warn('coordination.transition.conflict', {
       operationId,
       transactionId: transactionId.slice(0, 12),
+      attempt,
+      currentStatus: result.currentStatus,
     });
-    throw new Error(`Transaction ID ${transactionId} not found in sheets`);
   }
 
-  // Check if already processed
-  if (currentStatus && currentStatus !== DEFAULT_STATUS) {
-    logger.info('coordination.status_update.already_processed', {
-      operationId,
-      transactionId: transactionId.slice(0, 12),
-      currentStatus,
-    });
-    return {
-      currentStatus,
-      rowIndex: targetRowIndex + 1,
-      updated: false,
-    };
+  throw new Error(`Booking ${transactionId} kept changing while updating its status`);
+}
+
+/**
+ * Fetch booking details by transaction ID
+ */
+export async function fetchBookingDetails(
+  transactionId: string,
+  env: CoordinationEnv
+): Promise<BookingRecord | null> {
+  return createBookingStore(env).getById(transactionId);
+}
+
+/**
+ * The validated submission a booking was created from
+ * Null when the booking is not found or its payload cannot be read. Both legs
+ * of a round trip and every ride of a series share the first ride's payload.
+ */
+export async function fetchBookingPayload(
+  transactionId: string,
+  env: CoordinationEnv
+): Promise<BookingPayload | null> {
+  const rawPayload = await createBookingStore(env).getRawPayload(transactionId);
+  if (!rawPayload) {
+    return null;
   }
+  try {
+    return JSON.parse(rawPayload) as BookingPayload;
+  } catch {
+    logger.warn('coordination.raw_payload_unreadable', { transactionId: transactionId.slice(0, 12) });
+    return null;
+  }
+}
 
-  // Update the status in the specific cell (Column Q)
-  const statusRange = `Sheet1!Q${targetRowIndex + 1}:Q${targetRowIndex + 1}`;
-  await sheetsClient.updateRange({
-    sheetId: env.GOOGLE_SHEET_ID_PRIMARY,
-    range: statusRange,
-    values: [[newStatus]],
-  });
+/**
+ * The return leg of a round trip, given its outbound leg
+ * Null for one-way rides, return legs, and a return leg that was never stored.
+ */
+export async function findReturnLeg(
+  booking: Pick<SubmissionSummary, "reservationId" | "tripLeg">,
+  env: CoordinationEnv
+): Promise<BookingRecord | null> {
+  if (booking.tripLeg !== "outbound" || !booking.reservationId) {
+    return null;
+  }
+  return findReturnLegIn(createBookingStore(env), booking.reservationId);
+}
 
-  logger.info('coordination.status_update.success', {
-    operationId,
-    transactionId: transactionId.slice(0, 12),
-    newStatus,
-    rowIndex: targetRowIndex + 1,
+/**
+ * Every ride of the recurring series a booking belongs to, in pickup order
+ * Empty for a booking that is not part of a series.
+ */
+export async function findSeriesRides(
+  booking: Pick<SubmissionSummary, "seriesId">,
+  env: CoordinationEnv
+): Promise<BookingRecord[]> {
+  if (!booking.seriesId) {
+    return [];
+  }
+  return createBookingStore(env).list({ seriesId: booking.seriesId });
+}
+
+/**
+ * Find confirmed bookings whose pickup falls within the next `windowHours`
+ * and that have no reminder-sent marker yet
+ * A pending reschedule request keeps the current pickup, so its rider is reminded of that.
+ */
+export async function findBookingsDueForReminder(
+  env: CoordinationEnv,
+  now: number,
+  windowHours: number
+): Promise<BookingRecord[]> {
+  return createBookingStore(env).list({
+    status: [...CONFIRMED_STATUSES],
+    pickupFrom: now,
+    pickupTo: now + windowHours * 60 * 60 * 1000,
+    reminderSent: false,
   });
+}
 
-  // Also update backup sheet if configured (fire-and-forget)
-  if (env.GOOGLE_SHEET_ID_BACKUP) {
-    updateBackupSheetStatus(sheetsClient, env, transactionId, newStatus, operationId);
-  }
+/**
+ * Confirmed bookings whose pickup is at or after `from`, ordered by pickup time
+ */
+export async function findUpcomingBookings(
+  env: CoordinationEnv,
+  from: number
+): Promise<BookingRecord[]> {
+  return createBookingStore(env).list({
+    status: [...CONFIRMED_STATUSES],
+    pickupFrom: from,
+  });
+}
 
-  // Add audit entry (fire-and-forget)
-  const auditSheetId = env.GOOGLE_SHEET_ID_AUDIT ?? env.GOOGLE_SHEET_ID_BACKUP;
-  if (auditSheetId) {
-    const auditRange = env.GOOGLE_SHEET_RANGE_AUDIT ?? "Sheet1!A:Z";
-    sheetsClient.appendAuditEntry({
-      sheetId: auditSheetId,
-      range: auditRange,
-      values: [
-        transactionId,
-        `status_updated_to_${newStatus.toLowerCase()}`,
-        new Date().toISOString(),
-        options.metadata ?? '',
-      ],
-    });
+/**
+ * Accepted rides of the same driver whose window overlaps this booking's, ordered by pickup
+ * `pickupDatetime` checks another time for the same booking, e.g. a requested reschedule;
+ * `driverId` checks another driver, e.g. the one chosen on the accept page (null is the
+ * default driver). Empty when the pickup time cannot be parsed.
+ */
+export async function findBookingConflicts(
+  booking: Pick<BookingDetails, "transactionId" | "pickupDatetime" | "estimatedDuration"> & { driverId?: string | null },
+  env: CoordinationEnv,
+  pickupDatetime: string = booking.pickupDatetime,
+  driverId: string | null = booking.driverId ?? null
+): Promise<BookingConflict[]> {
+  const timeZone = businessTimeZone(env);
+  const bufferMinutes = conflictBufferMinutes(env);
+  const window = rideWindow({ pickupDatetime, estimatedDuration: booking.estimatedDuration }, bufferMinutes, timeZone);
+  if (!window) {
+    return [];
   }
 
-  return {
-    currentStatus: newStatus,
-    rowIndex: targetRowIndex + 1,
-    updated: true,
-  };
+  // A ride that started up to MAX_RIDE_HOURS earlier may still be running
+  const candidates = await createBookingStore(env).list({
+    status: [...SCHEDULED_STATUSES],
+    pickupFrom: window.start - MAX_RIDE_HOURS * 60 * 60 * 1000,
+    pickupTo: window.end,
+  });
+  return detectConflicts(booking.transactionId, window, candidates, bufferMinutes, timeZone, driverId);
 }
 
 /**
- * Update status in backup sheet (async, doesn't block main flow)
+ * Accepted rides of `driverId` overlapping each of `rides`, keyed by transactionId
+ * The store is read once for the whole span, so checking a long series is one query.
+ * Rides without conflicts, or whose pickup time cannot be parsed, are left out.
  */
-async function updateBackupSheetStatus(
-  sheetsClient: GoogleSheetsClient,
+export async function findRideConflicts(
+  rides: Pick<BookingDetails, "transactionId" | "pickupDatetime" | "estimatedDuration">[],
   env: CoordinationEnv,
-  transactionId: string,
-  newStatus: string,
-  operationId: string
-): Promise<void> {
-  try {
-    const backupRange = env.GOOGLE_SHEET_RANGE_BACKUP ?? "Sheet1!A:Z";
-    const backupRows = await sheetsClient.readRange({
-      sheetId: env.GOOGLE_SHEET_ID_BACKUP!,
-      range: backupRange,
-    });
+  driverId: string | null
+): Promise<Map<string, BookingConflict[]>> {
+  const timeZone = businessTimeZone(env);
+  const bufferMinutes = conflictBufferMinutes(env);
+  const windows: { transactionId: string; window: RideWindow }[] = [];
+  for (const ride of rides) {
+    const window = rideWindow(ride, bufferMinutes, timeZone);
+    if (window) {
+      windows.push({ transactionId: ride.transactionId, window });
+    }
+  }
 
-    for (let i = 0; i < backupRows.length; i++) {
-      if (backupRows[i][COLUMNS.TRANSACTION_ID] === transactionId) {
-        const backupStatusRange = `Sheet1!Q${i + 1}:Q${i + 1}`;
-        await sheetsClient.updateRange({
-          sheetId: env.GOOGLE_SHEET_ID_BACKUP!,
-          range: backupStatusRange,
-          values: [[newStatus]],
-        });
-        break;
-      }
+  const conflicts = new Map<string, BookingConflict[]>();
+  if (windows.length === 0) {
+    return conflicts;
+  }
+
+  const candidates = await createBookingStore(env).list({
+    status: [...SCHEDULED_STATUSES],
+    pickupFrom: Math.min(...windows.map(({ window }) => window.start)) - MAX_RIDE_HOURS * 60 * 60 * 1000,
+    pickupTo: Math.max(...windows.map(({ window }) => window.end)),
+  });
+  for (const { transactionId, window } of windows) {
+    const rideConflicts = detectConflicts(transactionId, window, candidates, bufferMinutes, timeZone, driverId);
+    if (rideConflicts.length > 0) {
+      conflicts.set(transactionId, rideConflicts);
     }
-  } catch (error) {
-    logger.warn('coordination.backup_status_update.failed', {
-      operationId,
-      transactionId: transactionId.slice(0, 12),
-      error: error instanceof Error ? error.message : String(error),
-    });
   }
+  return conflicts;
 }
 
 /**
- * Fetch booking details by transaction ID
+ * Record when the reminder email was sent
+ * The dispatcher skips bookings with this marker, so reruns never send twice
  */
-export async function fetchBookingDetails(
+export async function markReminderSent(
   transactionId: string,
-  env: CoordinationEnv
-): Promise<SubmissionSummary | null> {
-  if (!env.GOOGLE_SHEET_ID_PRIMARY || !env.GOOGLE_SERVICE_ACCOUNT) {
-    throw new Error("Missing Google Sheets configuration");
-  }
+  env: CoordinationEnv,
+  sentAt: string
+): Promise<void> {
+  await createBookingStore(env).markReminderSent(transactionId, sentAt);
 
-  const sheetsClient = new GoogleSheetsClient({
-    credentialsJson: env.GOOGLE_SERVICE_ACCOUNT,
+  logger.info('coordination.reminder_marked', {
+    transactionId: transactionId.slice(0, 12),
   });
+}
 
-  const primaryRange = env.GOOGLE_SHEET_RANGE_PRIMARY ?? "Sheet1!A:Z";
-  const rows = await sheetsClient.readRange({
-    sheetId: env.GOOGLE_SHEET_ID_PRIMARY,
-    range: primaryRange,
+/**
+ * Record something that happened to a booking outside a status change
+ * (e.g. an email delivery event) in its audit trail
+ */
+export async function recordBookingEvent(
+  transactionId: string,
+  event: string,
+  details: Record<string, unknown>,
+  env: CoordinationEnv,
+  occurredAt: string = new Date().toISOString()
+): Promise<void> {
+  await createBookingStore(env).recordEvent(transactionId, event, occurredAt, JSON.stringify(details));
+
+  logger.info('coordination.event_recorded', {
+    transactionId: transactionId.slice(0, 12),
+    event,
   });
+}
 
-  for (const row of rows) {
-    if (row[COLUMNS.TRANSACTION_ID] === transactionId) {
-      return {
-        transactionId: String(row[COLUMNS.TRANSACTION_ID] ?? ''),
-        idempotencyKey: String(row[COLUMNS.IDEMPOTENCY_KEY] ?? ''),
-        customerName: String(row[COLUMNS.CUSTOMER_NAME] ?? ''),
-        customerEmail: String(row[COLUMNS.CUSTOMER_EMAIL] ?? ''),
-        customerPhone: row[COLUMNS.CUSTOMER_PHONE] ? String(row[COLUMNS.CUSTOMER_PHONE]) : null,
-        startLocation: String(row[COLUMNS.START_LOCATION] ?? ''),
-        endLocation: String(row[COLUMNS.END_LOCATION] ?? ''),
-        pickupDatetime: String(row[COLUMNS.PICKUP_DATETIME] ?? ''),
-        estimatedDistance: String(row[COLUMNS.ESTIMATED_DISTANCE] ?? ''),
-        estimatedDuration: String(row[COLUMNS.ESTIMATED_DURATION] ?? ''),
-        passengers: parseInt(String(row[COLUMNS.PASSENGERS] ?? '1'), 10) || 1,
-        submittedAt: String(row[COLUMNS.SUBMITTED_AT] ?? ''),
-        notes: row[COLUMNS.NOTES] ? String(row[COLUMNS.NOTES]) : null,
-        mapUrl: String(row[COLUMNS.MAP_URL] ?? ''),
-      };
-    }
+/**
+ * The driver roster ordered by name; `activeOnly` leaves out deactivated drivers
+ */
+export async function listDrivers(
+  env: CoordinationEnv,
+  options: { activeOnly?: boolean } = {}
+): Promise<Driver[]> {
+  const drivers = await createDriverStore(env).list();
+  return options.activeOnly ? drivers.filter(driver => driver.active) : drivers;
+}
+
+export async function getDriver(id: string, env: CoordinationEnv): Promise<Driver | null> {
+  return createDriverStore(env).getById(id);
+}
+
+/**
+ * Add an active driver to the roster
+ */
+export async function addDriver(input: NewDriver, env: CoordinationEnv): Promise<Driver> {
+  const driver: Driver = {
+    id: generateDriverId(),
+    ...input,
+    active: true,
+    createdAt: new Date().toISOString(),
+  };
+  await createDriverStore(env).create(driver);
+
+  logger.info('coordination.driver_added', { driverId: driver.id });
+  return driver;
+}
+
+/**
+ * Change a driver's details or (de)activate them; null when there is no such driver
+ */
+export async function updateDriver(
+  id: string,
+  update: DriverUpdate,
+  env: CoordinationEnv
+): Promise<Driver | null> {
+  const driver = await createDriverStore(env).update(id, update);
+  if (driver) {
+    logger.info('coordination.driver_updated', { driverId: id, fields: Object.keys(update) });
   }
+  return driver;
+}
 
-  return null;
+/**
+ * Booking changes that assign a driver, copying their contact details onto the booking
+ */
+export function driverAssignmentChanges(driver: Driver): BookingChanges {
+  return {
+    driverId: driver.id,
+    driverName: driver.name,
+    driverEmail: driver.email,
+    driverPhone: driver.phone,
+  };
+}
+
+/**
+ * Price a ride with the PRICING_* settings
+ * Null when pricing is off (no base fare or rates configured).
+ */
+export function quoteBooking(request: QuoteRequest, env: PricingEnv & BusinessTimeEnv): QuoteResult | null {
+  const pricing = loadPricing(env);
+  return pricing.enabled ? quoteRide(request, pricing, businessTimeZone(env)) : null;
 }
 
 // Helper functions
 
-function parseEnvNumber(value: string | undefined, fallback: number): number {
-  if (!value) return fallback;
-  const parsed = parseInt(value, 10);
-  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+/**
+ * The quote stored with a new booking
+ * A trip whose distance or duration cannot be read is still booked, without a quote.
+ */
+function priceSubmission(summary: SubmissionSummary, env: CoordinationEnv, operationId: string): Quote | null {
+  const result = quoteBooking(summary, env);
+  if (result && !result.ok) {
+    logger.warn('coordination.quote_unavailable', {
+      operationId,
+      transactionId: summary.transactionId.slice(0, 12),
+      errors: result.errors.map(error => error.field),
+    });
+  }
+  return result?.ok ? result.quote : null;
+}
+
+/**
+ * Pickup times of every ride of a series, in the business timezone
+ * The payload was validated, so a rule that no longer expands is a server error.
+ */
+function expandSeries(pickupDatetime: string, recurrence: string, env: CoordinationEnv): string[] {
+  const timeZone = businessTimeZone(env);
+  const parsed = parseRecurrenceRule(recurrence);
+  const firstPickup = parsePickupDateTime(pickupDatetime, timeZone);
+  const expansion = parsed.ok && firstPickup !== null ? expandRecurrence(firstPickup, parsed.rule, timeZone) : null;
+  if (!expansion?.ok) {
+    throw new Error(`Recurrence rule no longer expands: ${recurrence}`);
+  }
+  return expansion.pickups.map(pickup => formatZonedIso(pickup, timeZone));
+}
+
+/**
+ * Where a trip is relative to the service zones, using the payload's
+ * coordinates for whichever end is at the pickup or drop-off address
+ */
+function classifyServiceArea(
+  startLocation: string,
+  endLocation: string,
+  payload: BookingPayload,
+  env: CoordinationEnv
+): ServiceAreaStatus | null {
+  const coordinatesOf = (address: string) =>
+    address === payload.start_location ? payload.start_coordinates
+    : address === payload.end_location ? payload.end_coordinates
+    : null;
+  return classifyTrip(
+    { address: startLocation, coordinates: coordinatesOf(startLocation) },
+    { address: endLocation, coordinates: coordinatesOf(endLocation) },
+    loadServiceArea(env)
+  );
+}
+
+async function findReturnLegIn(store: BookingStore, reservationId: string): Promise<BookingRecord | null> {
+  const legs = await store.list({ reservationId });
+  return legs.find(leg => leg.tripLeg === "return") ?? null;
+}
+
+function generateDriverId(): string {
+  return `drv-${crypto.randomUUID().slice(0, 8)}`;
 }
 
 function generateOperationId(): string {
   return Math.random().toString(36).slice(2, 10);
 }
 
+// Re-export store types
+export {
+  DEFAULT_STATUS,
+  type BookingChanges,
+  type BookingDetails,
+  type BookingQuery,
+  type BookingRecord,
+  type BookingStore,
+  type ItineraryStop,
+  type NewBooking,
+  type StatusUpdate,
+  type StatusUpdateResult,
+  type SubmissionSummary,
+  type TripLeg,
+} from "./bookingStore";
+export { type Driver, type DriverStore, type DriverUpdate } from "./driverStore";
+export { SheetsBookingStore, SheetsDriverStore } from "./sheetsStore";
+export { DRIVER_SHEET_FIELDS, SHEET_FIELDS, SheetHeaderError } from "./sheetTable";
+export { D1BookingStore, D1DriverStore } from "./d1Store";
+export { MemoryBookingStore, MemoryDriverStore } from "./memoryStore";
+export {
+  conflictBufferMinutes,
+  conflictPolicy,
+  detectConflicts,
+  rideWindow,
+  windowsOverlap,
+  SCHEDULED_STATUSES,
+  type BookingConflict,
+  type ConflictEnv,
+  type ConflictPolicy,
+  type RideWindow,
+} from "./conflicts";
+export {
+  formatMoney,
+  loadPricing,
+  parseDistanceMiles,
+  quoteRide,
+  type Pricing,
+  type PricingEnv,
+  type PricingHoliday,
+  type Quote,
+  type QuoteLine,
+  type QuoteLineCode,
+  type QuoteRequest,
+  type QuoteResult,
+} from "./pricing";
+export {
+  BOOKING_STATUSES,
+  BOOKING_TRANSITIONS,
+  CONFIRMED_STATUSES,
+  FINAL_STATUSES,
+  OPERATIONAL_STATUSES,
+  allowedTransitions,
+  canTransition,
+  checkSelfCancellation,
+  checkSelfReschedule,
+  findTransitionHooks,
+  isBookingStatus,
+  transitionKey,
+  BookingNotFoundError,
+  InvalidTransitionError,
+  type BookingStatus,
+  type OwnerNotificationContext,
+  type SelfServiceCheck,
+  type TransitionEvent,
+  type TransitionHooks,
+  type TransitionHookTable,
+} from "./lifecycle";
+
 // Re-export types
 export type { BookingPayload } from "../security";
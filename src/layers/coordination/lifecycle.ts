@@ -0,0 +1,193 @@
+/**
+ * Booking Lifecycle
+ *
+ * The statuses a booking can be in and the transitions allowed between them.
+ * Every status change goes through this table, so an illegal move (e.g.
+ * reopening a completed trip) is rejected with an InvalidTransitionError
+ * before anything is written.
+ *
+ *   Pending Review       → Accepted | Denied | Cancelled
+ *   Accepted             → Reschedule Requested | Rescheduled | Driver En Route | Cancelled
+ *   Reschedule Requested → Rescheduled | Accepted | Cancelled
+ *   Rescheduled          → Reschedule Requested | Rescheduled | Driver En Route | Cancelled
+ *   Driver En Route      → Completed | No-Show
+ *
+ * Reschedule Requested holds a customer's proposed pickup time until the
+ * owner approves it (→ Rescheduled) or keeps the original (→ Accepted).
+ *
+ * Denied, Cancelled, Completed and No-Show are final.
+ */
+
+import { DEFAULT_STATUS, parsePickupTime, BookingDetails, BookingRecord } from "./bookingStore";
+import { DEFAULT_BUSINESS_TIMEZONE } from "../../time/businessTime";
+
+export const BOOKING_STATUSES = [
+  DEFAULT_STATUS,
+  "Accepted",
+  "Denied",
+  "Cancelled",
+  "Reschedule Requested",
+  "Rescheduled",
+  "Driver En Route",
+  "Completed",
+  "No-Show",
+] as const;
+
+export type BookingStatus = typeof BOOKING_STATUSES[number];
+
+// Booked trips that have not started yet (a pending reschedule keeps the current time)
+export const CONFIRMED_STATUSES: readonly BookingStatus[] = ["Accepted", "Reschedule Requested", "Rescheduled"];
+
+// No transitions lead out of these, so a booking here no longer holds its idempotency key
+export const FINAL_STATUSES: readonly BookingStatus[] = ["Denied", "Cancelled", "Completed", "No-Show"];
+
+// Statuses the booking server may set directly. Accepting, denying and
+// rescheduling go through the owner's review page, which applies the conflict
+// policy and assigns the driver and vehicle.
+export const OPERATIONAL_STATUSES: readonly BookingStatus[] = ["Driver En Route", "Completed", "No-Show", "Cancelled"];
+
+export const BOOKING_TRANSITIONS: Readonly<Record<BookingStatus, readonly BookingStatus[]>> = {
+  "Pending Review": ["Accepted", "Denied", "Cancelled"],
+  "Accepted": ["Reschedule Requested", "Rescheduled", "Driver En Route", "Cancelled"],
+  "Reschedule Requested": ["Rescheduled", "Accepted", "Cancelled"],
+  "Rescheduled": ["Reschedule Requested", "Rescheduled", "Driver En Route", "Cancelled"],
+  "Driver En Route": ["Completed", "No-Show"],
+  "Denied": [],
+  "Cancelled": [],
+  "Completed": [],
+  "No-Show": [],
+};
+
+export function isBookingStatus(value: string): value is BookingStatus {
+  return (BOOKING_STATUSES as readonly string[]).includes(value);
+}
+
+/**
+ * Statuses reachable from `from` (none for unknown or terminal statuses)
+ */
+export function allowedTransitions(from: string): readonly BookingStatus[] {
+  return isBookingStatus(from) ? BOOKING_TRANSITIONS[from] : [];
+}
+
+export function canTransition(from: string, to: string): boolean {
+  return isBookingStatus(to) && allowedTransitions(from).includes(to);
+}
+
+export class InvalidTransitionError extends Error {
+  readonly allowed: readonly BookingStatus[];
+
+  constructor(
+    readonly from: string,
+    readonly to: string,
+    allowed: readonly BookingStatus[] = allowedTransitions(from)
+  ) {
+    super(
+      `Cannot change booking status from "${from}" to "${to}". ` +
+      (allowed.length > 0
+        ? `Allowed next statuses: ${allowed.join(", ")}.`
+        : `"${from}" is a final status.`)
+    );
+    this.name = "InvalidTransitionError";
+    this.allowed = allowed;
+  }
+}
+
+export class BookingNotFoundError extends Error {
+  constructor(readonly transactionId: string) {
+    super(`Transaction ID ${transactionId} not found`);
+    this.name = "BookingNotFoundError";
+  }
+}
+
+// Notification hooks
+
+export interface TransitionEvent {
+  from: BookingStatus;
+  to: BookingStatus;
+  booking: BookingRecord;   // As stored after the transition
+  metadata?: string;
+}
+
+export interface OwnerNotificationContext {
+  customerNotified: boolean;  // false when there is no customer hook or it failed
+}
+
+export interface TransitionHooks<E> {
+  customer?: (event: TransitionEvent, env: E) => Promise<void>;
+  owner?: (event: TransitionEvent, env: E, context: OwnerNotificationContext) => Promise<void>;
+  driver?: (event: TransitionEvent, env: E) => Promise<void>;
+}
+
+/**
+ * Hooks keyed by "From -> To"; "* -> To" matches any source status
+ */
+export type TransitionHookTable<E> = Partial<Record<string, TransitionHooks<E>>>;
+
+export function transitionKey(from: string, to: string): string {
+  return `${from} -> ${to}`;
+}
+
+/**
+ * Hooks for a transition, preferring an exact match over a wildcard entry
+ */
+export function findTransitionHooks<E>(
+  table: TransitionHookTable<E>,
+  from: string,
+  to: string
+): TransitionHooks<E> | undefined {
+  return table[transitionKey(from, to)] ?? table[transitionKey("*", to)];
+}
+
+// Customer self-service
+
+export type SelfServiceCheck =
+  | { allowed: true; deadline: number | null }
+  | { allowed: false; reason: "status" | "cutoff"; deadline: number | null };
+
+/**
+ * Whether a customer may cancel a booking themselves
+ *
+ * The current status must allow Cancelled, and the pickup must be more than
+ * `cutoffHours` away. `deadline` is the last moment (epoch ms) to cancel
+ * online, or null when the pickup time cannot be parsed.
+ */
+export function checkSelfCancellation(
+  booking: BookingDetails,
+  cutoffHours: number,
+  now: number = Date.now(),
+  timeZone: string = DEFAULT_BUSINESS_TIMEZONE
+): SelfServiceCheck {
+  return checkSelfService(booking, "Cancelled", cutoffHours, now, timeZone);
+}
+
+/**
+ * Whether a customer may ask to move a booking to a new pickup time
+ * Same rules as cancelling, against the Reschedule Requested transition.
+ */
+export function checkSelfReschedule(
+  booking: BookingDetails,
+  cutoffHours: number,
+  now: number = Date.now(),
+  timeZone: string = DEFAULT_BUSINESS_TIMEZONE
+): SelfServiceCheck {
+  return checkSelfService(booking, "Reschedule Requested", cutoffHours, now, timeZone);
+}
+
+function checkSelfService(
+  booking: BookingDetails,
+  to: BookingStatus,
+  cutoffHours: number,
+  now: number,
+  timeZone: string
+): SelfServiceCheck {
+  const pickupTime = parsePickupTime(booking.pickupDatetime, timeZone);
+  const deadline = pickupTime === null ? null : pickupTime - cutoffHours * 60 * 60 * 1000;
+
+  if (!canTransition(booking.status, to)) {
+    return { allowed: false, reason: "status", deadline };
+  }
+  if (deadline !== null && now > deadline) {
+    return { allowed: false, reason: "cutoff", deadline };
+  }
+  return { allowed: true, deadline };
+}
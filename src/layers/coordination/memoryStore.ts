@@ -0,0 +1,168 @@
+/**
+ * In-Memory Booking Store
+ *
+ * Keeps bookings and the driver roster in Maps for tests and local
+ * development. Data lives only as long as the isolate, so never use this
+ * backend in production.
+ */
+
+import {
+  DEFAULT_STATUS,
+  applyBookingChanges,
+  applyBookingQuery,
+  statusAuditEntry,
+  BookingQuery,
+  BookingRecord,
+  BookingStore,
+  NewBooking,
+  StatusUpdate,
+  StatusUpdateResult,
+} from "./bookingStore";
+import { applyDriverUpdate, sortDrivers, Driver, DriverStore, DriverUpdate } from "./driverStore";
+import { DEFAULT_BUSINESS_TIMEZONE } from "../../time/businessTime";
+
+export interface MemoryAuditEntry {
+  transactionId: string;
+  event: string;
+  occurredAt: string;
+  details: string;
+}
+
+export class MemoryBookingStore implements BookingStore {
+  private readonly bookings = new Map<string, BookingRecord>();
+  private readonly rawPayloads = new Map<string, string>();
+  private readonly audit: MemoryAuditEntry[] = [];
+
+  constructor(private readonly timeZone: string = DEFAULT_BUSINESS_TIMEZONE) {}
+
+  async create({ summary, rawPayload, driverContact }: NewBooking): Promise<{ rowNumber: number }> {
+    if (this.bookings.has(summary.transactionId)) {
+      throw new Error(`Transaction ID ${summary.transactionId} already exists`);
+    }
+
+    this.bookings.set(summary.transactionId, {
+      ...summary,
+      status: DEFAULT_STATUS,
+      reminderSentAt: null,
+      requestedPickupDatetime: null,
+      denialReason: null,
+      alternativePickupDatetime: null,
+      ownerNotes: null,
+      driverId: null,
+      driverName: driverContact.name || null,
+      driverEmail: driverContact.email || null,
+      driverPhone: driverContact.phone || null,
+      vehicleId: null,
+      vehicleName: null,
+    });
+    this.rawPayloads.set(summary.transactionId, rawPayload);
+    this.record(summary.transactionId, "submission_received", summary.submittedAt, summary.idempotencyKey);
+
+    return { rowNumber: this.bookings.size };
+  }
+
+  async getById(transactionId: string): Promise<BookingRecord | null> {
+    const booking = this.bookings.get(transactionId);
+    return booking ? { ...booking } : null;
+  }
+
+  async getByIdempotencyKey(idempotencyKey: string): Promise<BookingRecord | null> {
+    let latest: BookingRecord | null = null;
+    for (const booking of this.bookings.values()) {
+      if (booking.idempotencyKey === idempotencyKey) {
+        latest = booking;
+      }
+    }
+    return latest ? { ...latest } : null;
+  }
+
+  async getRawPayload(transactionId: string): Promise<string | null> {
+    return this.rawPayloads.get(transactionId) || null;
+  }
+
+  async updateStatus(transactionId: string, update: StatusUpdate): Promise<StatusUpdateResult> {
+    const booking = this.bookings.get(transactionId);
+    if (!booking) {
+      return { found: false, updated: false, currentStatus: null };
+    }
+
+    if (booking.status !== update.expectedStatus) {
+      return { found: true, updated: false, currentStatus: booking.status };
+    }
+
+    this.bookings.set(transactionId, { ...applyBookingChanges(booking, update.changes), status: update.status });
+    const audit = statusAuditEntry(update);
+    this.record(transactionId, audit.event, new Date().toISOString(), audit.details);
+
+    return { found: true, updated: true, currentStatus: update.status };
+  }
+
+  async markReminderSent(transactionId: string, sentAt: string): Promise<void> {
+    const booking = this.bookings.get(transactionId);
+    if (!booking) {
+      throw new Error(`Transaction ID ${transactionId} not found`);
+    }
+
+    booking.reminderSentAt = sentAt;
+    this.record(transactionId, "reminder_sent", sentAt, '');
+  }
+
+  async recordEvent(transactionId: string, event: string, occurredAt: string, details: string): Promise<void> {
+    this.record(transactionId, event, occurredAt, details);
+  }
+
+  async list(query?: BookingQuery): Promise<BookingRecord[]> {
+    return applyBookingQuery(Array.from(this.bookings.values(), booking => ({ ...booking })), query, this.timeZone);
+  }
+
+  /** Audit entries in write order (test helper) */
+  getAuditLog(): MemoryAuditEntry[] {
+    return [...this.audit];
+  }
+
+  /** Remove all bookings and audit entries (test helper) */
+  clear(): void {
+    this.bookings.clear();
+    this.rawPayloads.clear();
+    this.audit.length = 0;
+  }
+
+  private record(transactionId: string, event: string, occurredAt: string, details: string): void {
+    this.audit.push({ transactionId, event, occurredAt, details });
+  }
+}
+
+export class MemoryDriverStore implements DriverStore {
+  private readonly drivers = new Map<string, Driver>();
+
+  async list(): Promise<Driver[]> {
+    return sortDrivers(Array.from(this.drivers.values(), driver => ({ ...driver })));
+  }
+
+  async getById(id: string): Promise<Driver | null> {
+    const driver = this.drivers.get(id);
+    return driver ? { ...driver } : null;
+  }
+
+  async create(driver: Driver): Promise<void> {
+    if (this.drivers.has(driver.id)) {
+      throw new Error(`Driver ${driver.id} already exists`);
+    }
+    this.drivers.set(driver.id, { ...driver });
+  }
+
+  async update(id: string, update: DriverUpdate): Promise<Driver | null> {
+    const driver = this.drivers.get(id);
+    if (!driver) {
+      return null;
+    }
+    const updated = applyDriverUpdate(driver, update);
+    this.drivers.set(id, updated);
+    return { ...updated };
+  }
+
+  /** Remove all drivers (test helper) */
+  clear(): void {
+    this.drivers.clear();
+  }
+}
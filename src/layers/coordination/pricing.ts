@@ -0,0 +1,374 @@
+/**
+ * Ride Pricing
+ *
+ * Turns a ride's estimated distance and duration into an itemized quote:
+ *
+ *   base fare + miles × per-mile rate + minutes × per-minute rate
+ *   + extra passengers × surcharge + airport fee
+ *   then × the night or holiday multiplier (the higher one when both apply)
+ *
+ * Rates come from PRICING_* settings in dollars (or PRICING_CURRENCY); quotes
+ * are in cents. Pricing is off until a base fare or a distance or time rate is
+ * set. The pickup's date and hour are read in the business timezone. A setting
+ * that cannot be parsed is logged and its default used.
+ */
+
+import { parseDurationMinutes } from "../../templates/emails/utils";
+import { parseWallClock, pickupWallClock, type WallClockTime } from "../../time/businessTime";
+
+export interface PricingEnv {
+  PRICING_CURRENCY?: string;              // ISO 4217, default "USD"
+  PRICING_BASE_FARE?: string;             // e.g. "25.00"
+  PRICING_PER_MILE?: string;              // e.g. "2.50"
+  PRICING_PER_MINUTE?: string;            // e.g. "0.40"
+  PRICING_INCLUDED_PASSENGERS?: string;   // Passengers covered by the fare, default 4
+  PRICING_EXTRA_PASSENGER_FEE?: string;   // Per passenger beyond those
+  PRICING_AIRPORT_FEE?: string;           // Once per ride to or from an airport
+  PRICING_AIRPORT_KEYWORDS?: string;      // Words marking an airport location, default "airport"
+  PRICING_NIGHT_HOURS?: string;           // e.g. "22:00-06:00"
+  PRICING_NIGHT_MULTIPLIER?: string;      // e.g. "1.25"
+  PRICING_HOLIDAYS?: string;              // e.g. "2025-12-25 Christmas, 2025-12-31..2026-01-01 New Year"
+  PRICING_HOLIDAY_MULTIPLIER?: string;    // e.g. "1.5"
+}
+
+/**
+ * Priced on the date from `start` to `end` inclusive (YYYY-MM-DD)
+ */
+export interface PricingHoliday {
+  start: string;
+  end: string;
+  label: string | null;
+}
+
+export interface Pricing {
+  enabled: boolean;
+  currency: string;
+  baseFare: number;             // Cents
+  perMile: number;              // Cents
+  perMinute: number;            // Cents
+  includedPassengers: number;
+  extraPassengerFee: number;    // Cents
+  airportFee: number;           // Cents
+  airportKeywords: string[];
+  nightHours: { start: number; end: number } | null;   // Minutes after midnight; may wrap past midnight
+  nightMultiplier: number;
+  holidays: PricingHoliday[];
+  holidayMultiplier: number;
+}
+
+export type QuoteLineCode = "base" | "distance" | "time" | "passengers" | "airport" | "night" | "holiday";
+
+export interface QuoteLine {
+  code: QuoteLineCode;
+  label: string;
+  amount: number;   // Cents
+}
+
+export interface Quote {
+  currency: string;
+  distanceMiles: number;
+  durationMinutes: number;
+  lines: QuoteLine[];
+  total: number;    // Cents
+}
+
+/**
+ * The ride details a quote is computed from
+ */
+export interface QuoteRequest {
+  startLocation: string;
+  endLocation: string;
+  pickupDatetime: string;
+  passengers: number;
+  estimatedDistance: string;
+  estimatedDuration: string;
+}
+
+export type QuoteResult =
+  | { ok: true; quote: Quote }
+  | { ok: false; errors: Array<{ field: "estimated_distance" | "estimated_duration"; message: string }> };
+
+const DEFAULT_CURRENCY = "USD";
+const DEFAULT_INCLUDED_PASSENGERS = 4;
+const DEFAULT_AIRPORT_KEYWORDS = ["airport"];
+const KM_PER_MILE = 1.609344;
+
+const DISTANCE_PATTERN = /^([\d,]*\.?\d+)\s*(mi|miles?|km|kms|kilomet(?:er|re)s?)?$/i;
+const NIGHT_HOURS_PATTERN = /^(\d{1,2}):(\d{2})\s*-\s*(\d{1,2}):(\d{2})$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const logger = {
+  warn: (event: string, data?: Record<string, unknown>) =>
+    console.warn(JSON.stringify({ level: 'WARN', event, ...data, timestamp: new Date().toISOString() })),
+};
+
+/**
+ * Read the pricing settings from the environment
+ */
+export function loadPricing(env: PricingEnv): Pricing {
+  const configured = [env.PRICING_BASE_FARE, env.PRICING_PER_MILE, env.PRICING_PER_MINUTE]
+    .some(value => value !== undefined && value.trim() !== "");
+
+  return {
+    enabled: configured,
+    currency: parseCurrency(env.PRICING_CURRENCY),
+    baseFare: parseMoneySetting("PRICING_BASE_FARE", env.PRICING_BASE_FARE),
+    perMile: parseMoneySetting("PRICING_PER_MILE", env.PRICING_PER_MILE),
+    perMinute: parseMoneySetting("PRICING_PER_MINUTE", env.PRICING_PER_MINUTE),
+    includedPassengers: Math.floor(parseNumberSetting("PRICING_INCLUDED_PASSENGERS", env.PRICING_INCLUDED_PASSENGERS, DEFAULT_INCLUDED_PASSENGERS)),
+    extraPassengerFee: parseMoneySetting("PRICING_EXTRA_PASSENGER_FEE", env.PRICING_EXTRA_PASSENGER_FEE),
+    airportFee: parseMoneySetting("PRICING_AIRPORT_FEE", env.PRICING_AIRPORT_FEE),
+    airportKeywords: parseKeywords(env.PRICING_AIRPORT_KEYWORDS),
+    nightHours: parseNightHours(env.PRICING_NIGHT_HOURS),
+    nightMultiplier: parseMultiplier("PRICING_NIGHT_MULTIPLIER", env.PRICING_NIGHT_MULTIPLIER),
+    holidays: parseHolidays(env.PRICING_HOLIDAYS),
+    holidayMultiplier: parseMultiplier("PRICING_HOLIDAY_MULTIPLIER", env.PRICING_HOLIDAY_MULTIPLIER),
+  };
+}
+
+/**
+ * Price a ride
+ * Fails with field-level errors when the distance or duration cannot be read.
+ */
+export function quoteRide(request: QuoteRequest, pricing: Pricing, timeZone: string): QuoteResult {
+  const distanceMiles = parseDistanceMiles(request.estimatedDistance);
+  const durationMinutes = parseTripMinutes(request.estimatedDuration);
+
+  const errors: Extract<QuoteResult, { ok: false }>["errors"] = [];
+  if (distanceMiles === null) {
+    errors.push({ field: "estimated_distance", message: 'Estimated distance must be in miles or kilometres, e.g. "12.5 miles"' });
+  }
+  if (durationMinutes === null) {
+    errors.push({ field: "estimated_duration", message: 'Estimated duration must be in hours and minutes, e.g. "1 hour 15 mins"' });
+  }
+  if (distanceMiles === null || durationMinutes === null) {
+    return { ok: false, errors };
+  }
+
+  const money = (cents: number) => formatMoney(cents, pricing.currency);
+  const lines: QuoteLine[] = [];
+  const add = (code: QuoteLineCode, label: string, amount: number) => {
+    if (amount > 0) {
+      lines.push({ code, label, amount: Math.round(amount) });
+    }
+  };
+
+  add("base", "Base fare", pricing.baseFare);
+  add("distance", `Distance (${formatQuantity(distanceMiles)} mi × ${money(pricing.perMile)})`, distanceMiles * pricing.perMile);
+  add("time", `Time (${durationMinutes} min × ${money(pricing.perMinute)})`, durationMinutes * pricing.perMinute);
+
+  const extraPassengers = Math.max(0, request.passengers - pricing.includedPassengers);
+  add("passengers", `Extra passengers (${extraPassengers} × ${money(pricing.extraPassengerFee)})`, extraPassengers * pricing.extraPassengerFee);
+
+  if (isAirportRide(request, pricing.airportKeywords)) {
+    add("airport", "Airport fee", pricing.airportFee);
+  }
+
+  // Night and holiday rates do not stack; the higher one applies
+  const subtotal = lines.reduce((sum, line) => sum + line.amount, 0);
+  const surcharge = pickupSurcharge(request.pickupDatetime, pricing, timeZone);
+  if (surcharge) {
+    add(surcharge.code, `${surcharge.label} (×${surcharge.multiplier})`, subtotal * (surcharge.multiplier - 1));
+  }
+
+  return {
+    ok: true,
+    quote: {
+      currency: pricing.currency,
+      distanceMiles,
+      durationMinutes,
+      lines,
+      total: lines.reduce((sum, line) => sum + line.amount, 0),
+    },
+  };
+}
+
+/**
+ * "95 miles", "12.5 mi", "1,200 km" → miles; a bare number is miles. Null when unreadable.
+ */
+export function parseDistanceMiles(value: string): number | null {
+  const match = value.trim().match(DISTANCE_PATTERN);
+  if (!match) {
+    return null;
+  }
+  const amount = Number(match[1].replace(/,/g, ""));
+  if (!Number.isFinite(amount)) {
+    return null;
+  }
+  const miles = /^k/i.test(match[2] ?? "") ? amount / KM_PER_MILE : amount;
+  return Math.round(miles * 10) / 10;
+}
+
+/**
+ * "$1,234.50" for 123450 cents
+ */
+export function formatMoney(cents: number, currency: string = DEFAULT_CURRENCY): string {
+  return new Intl.NumberFormat("en-US", { style: "currency", currency }).format(cents / 100);
+}
+
+/**
+ * Read a quote saved as JSON with a booking
+ * Null for an empty value or anything that is not a quote.
+ */
+export function parseStoredQuote(value: string | null | undefined): Quote | null {
+  if (!value?.trim()) {
+    return null;
+  }
+  try {
+    const quote = JSON.parse(value) as Partial<Quote> | null;
+    if (!quote || typeof quote.total !== "number" || typeof quote.currency !== "string" || !Array.isArray(quote.lines)) {
+      return null;
+    }
+    return quote as Quote;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Duration in minutes, or null without any number in it
+ */
+function parseTripMinutes(value: string): number | null {
+  return /\d/.test(value) ? parseDurationMinutes(value) : null;
+}
+
+function isAirportRide(request: QuoteRequest, keywords: string[]): boolean {
+  const locations = `${request.startLocation} ${request.endLocation}`;
+  return keywords.some(keyword => new RegExp(`\\b${escapeRegExp(keyword)}\\b`, "i").test(locations));
+}
+
+function pickupSurcharge(
+  pickupDatetime: string,
+  pricing: Pricing,
+  timeZone: string
+): { code: "night" | "holiday"; label: string; multiplier: number } | null {
+  const wallClock = pickupWallClock(pickupDatetime, timeZone);
+  if (!wallClock) {
+    return null;
+  }
+
+  const candidates: Array<{ code: "night" | "holiday"; label: string; multiplier: number }> = [];
+  const date = formatDate(wallClock);
+  const holiday = pricing.holidays.find(period => period.start <= date && date <= period.end);
+  if (holiday && pricing.holidayMultiplier > 1) {
+    candidates.push({ code: "holiday", label: holiday.label ? `Holiday rate - ${holiday.label}` : "Holiday rate", multiplier: pricing.holidayMultiplier });
+  }
+  if (pricing.nightHours && pricing.nightMultiplier > 1 && isNight(wallClock, pricing.nightHours)) {
+    candidates.push({ code: "night", label: "Night rate", multiplier: pricing.nightMultiplier });
+  }
+
+  return candidates.sort((a, b) => b.multiplier - a.multiplier)[0] ?? null;
+}
+
+function isNight(wallClock: WallClockTime, hours: { start: number; end: number }): boolean {
+  const minutes = wallClock.hour * 60 + wallClock.minute;
+  return hours.start <= hours.end
+    ? minutes >= hours.start && minutes < hours.end
+    : minutes >= hours.start || minutes < hours.end;
+}
+
+function parseCurrency(value: string | undefined): string {
+  if (value === undefined || !value.trim()) {
+    return DEFAULT_CURRENCY;
+  }
+  const currency = value.trim().toUpperCase();
+  try {
+    new Intl.NumberFormat("en-US", { style: "currency", currency });
+    return currency;
+  } catch {
+    logger.warn('pricing.invalid_setting', { setting: "PRICING_CURRENCY", value, fallback: DEFAULT_CURRENCY });
+    return DEFAULT_CURRENCY;
+  }
+}
+
+/**
+ * Dollars (or the currency's main unit) → cents; unset is 0
+ */
+function parseMoneySetting(name: string, value: string | undefined): number {
+  return Math.round(parseNumberSetting(name, value, 0) * 100);
+}
+
+/**
+ * Multipliers below 1 would discount the ride, so they are treated as invalid
+ */
+function parseMultiplier(name: string, value: string | undefined): number {
+  const multiplier = parseNumberSetting(name, value, 1);
+  if (multiplier < 1) {
+    logger.warn('pricing.invalid_setting', { setting: name, value, fallback: 1 });
+    return 1;
+  }
+  return multiplier;
+}
+
+function parseNumberSetting(name: string, value: string | undefined, fallback: number): number {
+  if (value === undefined || !value.trim()) {
+    return fallback;
+  }
+  const parsed = Number(value.trim().replace(/^\$/, ""));
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    logger.warn('pricing.invalid_setting', { setting: name, value, fallback });
+    return fallback;
+  }
+  return parsed;
+}
+
+function parseKeywords(value: string | undefined): string[] {
+  const keywords = (value ?? "").split(",").map(keyword => keyword.trim()).filter(Boolean);
+  return keywords.length > 0 ? keywords : DEFAULT_AIRPORT_KEYWORDS;
+}
+
+/**
+ * Parse "22:00-06:00"; null when unset or invalid
+ */
+function parseNightHours(value: string | undefined): { start: number; end: number } | null {
+  if (value === undefined || !value.trim()) {
+    return null;
+  }
+  const match = value.trim().match(NIGHT_HOURS_PATTERN);
+  const start = match ? Number(match[1]) * 60 + Number(match[2]) : NaN;
+  const end = match ? Number(match[3]) * 60 + Number(match[4]) : NaN;
+  if (!match || Number(match[2]) > 59 || Number(match[4]) > 59 || start > 24 * 60 || end > 24 * 60 || start === end) {
+    logger.warn('pricing.invalid_setting', { setting: "PRICING_NIGHT_HOURS", value });
+    return null;
+  }
+  return { start, end };
+}
+
+/**
+ * Parse "2025-12-25 Christmas, 2025-12-31..2026-01-01 New Year"
+ * Invalid entries are logged and skipped.
+ */
+function parseHolidays(value: string | undefined): PricingHoliday[] {
+  if (!value?.trim()) {
+    return [];
+  }
+
+  const holidays: PricingHoliday[] = [];
+  for (const entry of value.split(",").map(part => part.trim()).filter(Boolean)) {
+    const [range, ...labelWords] = entry.split(/\s+/);
+    const [start, end = start] = range.split("..");
+
+    if (!isCalendarDate(start) || !isCalendarDate(end) || end < start) {
+      logger.warn('pricing.invalid_holiday', { entry });
+      continue;
+    }
+    holidays.push({ start, end, label: labelWords.join(" ") || null });
+  }
+  return holidays;
+}
+
+function isCalendarDate(value: string): boolean {
+  return DATE_PATTERN.test(value) && parseWallClock(value) !== null;
+}
+
+function formatDate(value: WallClockTime): string {
+  return `${value.year}-${String(value.month).padStart(2, "0")}-${String(value.day).padStart(2, "0")}`;
+}
+
+function formatQuantity(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(1);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
@@ -0,0 +1,296 @@
+/**
+ * Header-Driven Sheet Access
+ *
+ * Maps record fields to spreadsheet columns by the header names in row 1
+ * instead of fixed positions, so columns can be reordered or inserted in the
+ * sheet without corrupting data. The tab is taken from the configured range
+ * (e.g. "Bookings!A:Z" → "Bookings"); the whole tab is read. Tables hold
+ * bookings (SHEET_FIELDS) unless given other fields, e.g. the driver roster.
+ *
+ * - Reads fail with SheetHeaderError when a required header is missing
+ * - Writes first add any missing optional headers (or the full header row on
+ *   an empty sheet)
+ */
+
+import { GoogleSheetsClient, AppendRowResult } from "../../integrations/googleSheets";
+
+export type SheetRow = (string | number | null)[];
+
+export interface SheetFieldSpec {
+  header: string;
+  aliases?: readonly string[];
+  required?: boolean;
+}
+
+/**
+ * Booking fields in the order new header rows are written
+ */
+export const SHEET_FIELDS = {
+  transactionId: { header: "Transaction ID", required: true },
+  idempotencyKey: { header: "Idempotency Key" },
+  submittedAt: { header: "Submitted At" },
+  customerName: { header: "Customer Name", required: true },
+  customerEmail: { header: "Customer Email", required: true },
+  customerPhone: { header: "Customer Phone" },
+  startLocation: { header: "Start Location" },
+  endLocation: { header: "End Location" },
+  pickupDatetime: { header: "Pickup DateTime", required: true },
+  estimatedDistance: { header: "Estimated Distance", aliases: ["Est. Distance"] },
+  estimatedDuration: { header: "Estimated Duration", aliases: ["Est. Duration"] },
+  passengers: { header: "Passengers" },
+  notes: { header: "Notes" },
+  driverName: { header: "Driver Name" },
+  driverEmail: { header: "Driver Email" },
+  driverPhone: { header: "Driver Phone" },
+  status: { header: "Status", required: true },
+  mapUrl: { header: "Google Maps URL", aliases: ["Map URL"] },
+  rawPayload: { header: "Raw Payload" },
+  reminderSentAt: { header: "Reminder Sent At" },
+  requestedPickupDatetime: { header: "Requested Pickup DateTime" },
+  denialReason: { header: "Denial Reason" },
+  alternativePickupDatetime: { header: "Alternative Pickup DateTime" },
+  ownerNotes: { header: "Owner Notes" },
+  driverId: { header: "Driver ID" },
+  vehicleId: { header: "Vehicle ID" },
+  vehicleName: { header: "Vehicle" },
+  quoteTotal: { header: "Quote Total" },
+  quote: { header: "Quote" },
+  reservationId: { header: "Reservation ID" },
+  tripLeg: { header: "Trip Leg" },
+  stops: { header: "Stops" },
+  seriesId: { header: "Series ID" },
+  recurrence: { header: "Recurrence" },
+  serviceArea: { header: "Service Area" },
+} as const satisfies Record<string, SheetFieldSpec>;
+
+export type SheetField = keyof typeof SHEET_FIELDS;
+
+/**
+ * Driver roster fields (the Drivers tab), in the order new header rows are written
+ */
+export const DRIVER_SHEET_FIELDS = {
+  id: { header: "Driver ID", required: true },
+  name: { header: "Name", aliases: ["Driver Name"], required: true },
+  email: { header: "Email", aliases: ["Driver Email"] },
+  phone: { header: "Phone", aliases: ["Driver Phone"] },
+  active: { header: "Active" },
+  createdAt: { header: "Created At" },
+} as const satisfies Record<string, SheetFieldSpec>;
+
+export type DriverSheetField = keyof typeof DRIVER_SHEET_FIELDS;
+
+/** 0-based column index per field; absent when the sheet has no such header */
+export type SheetColumns<F extends string = SheetField> = Partial<Record<F, number>>;
+
+export interface SheetData<F extends string = SheetField> {
+  header: SheetRow;
+  columns: SheetColumns<F>;
+  rows: { rowNumber: number; values: SheetRow }[];   // Data rows (row 2 onwards)
+}
+
+export class SheetHeaderError extends Error {
+  constructor(
+    readonly tab: string,
+    readonly missing: readonly string[]
+  ) {
+    super(
+      `Sheet "${tab}" is missing required header(s): ${missing.join(", ")}. ` +
+      `Row 1 must name each column.`
+    );
+    this.name = "SheetHeaderError";
+  }
+}
+
+export class SheetTable<F extends string = SheetField> {
+  readonly tab: string;
+
+  constructor(
+    private readonly client: GoogleSheetsClient,
+    private readonly sheetId: string,
+    range: string,
+    private readonly fields: Record<F, SheetFieldSpec> = SHEET_FIELDS as Record<F, SheetFieldSpec>
+  ) {
+    this.tab = parseSheetTab(range);
+  }
+
+  /** The tab in A1 notation, quoted when needed */
+  get tabRef(): string {
+    return /^[A-Za-z0-9_]+$/.test(this.tab) ? this.tab : `'${this.tab.replace(/'/g, "''")}'`;
+  }
+
+  /**
+   * Read the whole tab
+   * An empty sheet has no columns and no rows.
+   */
+  async read(): Promise<SheetData<F>> {
+    const [header = [], ...rows] = await this.client.readRange({ sheetId: this.sheetId, range: this.tabRef });
+    const columns = mapHeaderRow(header, this.fields);
+
+    if (header.some(cell => String(cell ?? "").trim())) {
+      this.assertRequired(columns);
+    } else if (rows.length > 0) {
+      // Data without a header row would be read from the wrong columns
+      this.assertRequired({});
+    }
+
+    return {
+      header,
+      columns,
+      rows: rows.map((values, index) => ({ rowNumber: index + 2, values })),
+    };
+  }
+
+  /**
+   * Column map for a write, adding any missing optional headers to row 1
+   * Pass the header row when it was just read to skip another read.
+   */
+  async prepareWrite(header?: SheetRow): Promise<SheetColumns<F>> {
+    if (!header) {
+      [header = []] = await this.client.readRange({ sheetId: this.sheetId, range: `${this.tabRef}!1:1` });
+    }
+
+    const columns = mapHeaderRow(header, this.fields);
+    const isEmpty = !header.some(cell => String(cell ?? "").trim());
+    if (!isEmpty) {
+      this.assertRequired(columns);
+    }
+
+    const missing = (Object.keys(this.fields) as F[]).filter(field => columns[field] === undefined);
+    if (missing.length === 0) {
+      return columns;
+    }
+
+    // New headers go after the last named column
+    const start = isEmpty ? 0 : lastNonEmptyIndex(header) + 1;
+    missing.forEach((field, offset) => {
+      columns[field] = start + offset;
+    });
+
+    await this.client.updateRange({
+      sheetId: this.sheetId,
+      range: `${this.tabRef}!${columnLetter(start)}1:${columnLetter(start + missing.length - 1)}1`,
+      values: [missing.map(field => this.fields[field].header)],
+    });
+
+    return columns;
+  }
+
+  /**
+   * Append a row with each value placed under its header
+   */
+  append(values: Partial<Record<F, string | number>>, columns: SheetColumns<F>): Promise<AppendRowResult> {
+    const indices = Object.values(columns) as number[];
+    const row: SheetRow = new Array(Math.max(-1, ...indices) + 1).fill("");
+    for (const [field, value] of Object.entries(values) as [F, string | number][]) {
+      const index = columns[field];
+      if (index !== undefined) {
+        row[index] = value;
+      }
+    }
+
+    return this.client.appendRow({ sheetId: this.sheetId, range: this.tabRef, values: row });
+  }
+
+  /**
+   * Write single cells of one row in one batch update
+   */
+  async updateCells(
+    rowNumber: number,
+    values: Partial<Record<F, string>>,
+    columns: SheetColumns<F>
+  ): Promise<void> {
+    const data = (Object.entries(values) as [F, string][]).map(([field, value]) => {
+      const index = columns[field];
+      if (index === undefined) {
+        throw new SheetHeaderError(this.tab, [this.fields[field].header]);
+      }
+      const cell = `${columnLetter(index)}${rowNumber}`;
+      return { range: `${this.tabRef}!${cell}:${cell}`, values: [[value]] };
+    });
+
+    if (data.length === 0) {
+      return;
+    }
+
+    await this.client.batchUpdateRanges({ sheetId: this.sheetId, data });
+  }
+
+  private assertRequired(columns: SheetColumns<F>): void {
+    const missing = (Object.entries(this.fields) as [F, SheetFieldSpec][])
+      .filter(([field, spec]) => spec.required && columns[field] === undefined)
+      .map(([, spec]) => spec.header);
+
+    if (missing.length > 0) {
+      throw new SheetHeaderError(this.tab, missing);
+    }
+  }
+}
+
+/**
+ * Value of a field in a row ("" when the column or cell is missing)
+ */
+export function cellValue<F extends string>(row: SheetRow, columns: SheetColumns<F>, field: F): string {
+  const index = columns[field];
+  return index === undefined ? "" : String(row[index] ?? "");
+}
+
+/**
+ * Map header names to fields, ignoring case, spacing and punctuation
+ * The first column wins when a header appears twice.
+ */
+export function mapHeaderRow<F extends string = SheetField>(
+  header: SheetRow,
+  fields: Record<F, SheetFieldSpec> = SHEET_FIELDS as Record<F, SheetFieldSpec>
+): SheetColumns<F> {
+  const byName = new Map<string, F>();
+  for (const [field, spec] of Object.entries(fields) as [F, SheetFieldSpec][]) {
+    for (const name of [spec.header, ...(spec.aliases ?? [])]) {
+      byName.set(normalizeHeader(name), field);
+    }
+  }
+
+  const columns: SheetColumns<F> = {};
+  header.forEach((cell, index) => {
+    const field = byName.get(normalizeHeader(String(cell ?? "")));
+    if (field && columns[field] === undefined) {
+      columns[field] = index;
+    }
+  });
+  return columns;
+}
+
+/**
+ * Tab name from an A1 range: "Sheet1!A:Z" → "Sheet1", "'My Tab'!A:Z" → "My Tab"
+ * A range without "!" is taken as a tab name.
+ */
+export function parseSheetTab(range: string): string {
+  const bang = range.lastIndexOf("!");
+  const tab = bang === -1 ? range : range.slice(0, bang);
+  return tab.startsWith("'") && tab.endsWith("'") && tab.length > 1
+    ? tab.slice(1, -1).replace(/''/g, "'")
+    : tab;
+}
+
+/**
+ * Column letter for a 0-based index: 0 → A, 25 → Z, 26 → AA
+ */
+export function columnLetter(index: number): string {
+  let letters = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+}
+
+function normalizeHeader(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+function lastNonEmptyIndex(row: SheetRow): number {
+  for (let i = row.length - 1; i >= 0; i--) {
+    if (String(row[i] ?? "").trim()) {
+      return i;
+    }
+  }
+  return -1;
+}
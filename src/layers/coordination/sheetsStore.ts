@@ -0,0 +1,471 @@
+/**
+ * Google Sheets Booking Store
+ *
+ * Stores each booking as a row in the primary sheet, mirrors writes to an
+ * optional backup sheet and records an audit trail. Columns are found by
+ * their header in row 1 (see SheetTable), and lookups scan all rows and
+ * match on the Transaction ID or Idempotency Key column.
+ *
+ * The driver roster is a Drivers tab in the primary spreadsheet
+ * (GOOGLE_SHEET_RANGE_DRIVERS), one row per driver.
+ */
+
+import { GoogleSheetsClient } from "../../integrations/googleSheets";
+import { businessTimeZone, type BusinessTimeEnv } from "../../time/businessTime";
+import {
+  DEFAULT_STATUS,
+  applyBookingQuery,
+  statusAuditEntry,
+  BookingChanges,
+  BookingQuery,
+  BookingRecord,
+  BookingStore,
+  NewBooking,
+  parseStoredStops,
+  parseServiceAreaStatus,
+  parseTripLeg,
+  StatusUpdate,
+  StatusUpdateResult,
+} from "./bookingStore";
+import { applyDriverUpdate, sortDrivers, Driver, DriverStore, DriverUpdate } from "./driverStore";
+import {
+  cellValue,
+  DRIVER_SHEET_FIELDS,
+  DriverSheetField,
+  SheetColumns,
+  SheetData,
+  SheetField,
+  SheetHeaderError,
+  SheetRow,
+  SheetTable,
+} from "./sheetTable";
+import { formatMoney, parseStoredQuote } from "./pricing";
+
+const logger = {
+  info: (event: string, data?: Record<string, unknown>) =>
+    console.log(JSON.stringify({ level: 'INFO', event, ...data, timestamp: new Date().toISOString() })),
+  warn: (event: string, data?: Record<string, unknown>) =>
+    console.warn(JSON.stringify({ level: 'WARN', event, ...data, timestamp: new Date().toISOString() })),
+  error: (event: string, data?: Record<string, unknown>) =>
+    console.error(JSON.stringify({ level: 'ERROR', event, ...data, timestamp: new Date().toISOString() })),
+};
+
+export interface SheetsStoreEnv extends BusinessTimeEnv {
+  GOOGLE_SERVICE_ACCOUNT: string;
+  GOOGLE_SHEET_ID_PRIMARY: string;
+  GOOGLE_SHEET_ID_BACKUP?: string;
+  GOOGLE_SHEET_RANGE_PRIMARY?: string;  // Only the tab name is used, e.g. "Bookings!A:Z"
+  GOOGLE_SHEET_RANGE_BACKUP?: string;
+  GOOGLE_SHEET_ID_AUDIT?: string;
+  GOOGLE_SHEET_RANGE_AUDIT?: string;
+  GOOGLE_SHEET_RANGE_DRIVERS?: string;  // Driver roster tab in the primary spreadsheet, e.g. "Drivers!A:F"
+  SHEETS_MAX_RETRIES?: string;
+  SHEETS_RETRY_DELAY_MS?: string;
+  SHEETS_VERIFY_WRITES?: string;
+}
+
+export class SheetsBookingStore implements BookingStore {
+  private readonly client: GoogleSheetsClient;
+  private readonly primary: SheetTable;
+  private readonly backup: SheetTable | null;
+
+  constructor(private readonly env: SheetsStoreEnv) {
+    this.client = createSheetsClient(env);
+    this.primary = new SheetTable(this.client, env.GOOGLE_SHEET_ID_PRIMARY, env.GOOGLE_SHEET_RANGE_PRIMARY ?? "Sheet1!A:Z");
+    this.backup = env.GOOGLE_SHEET_ID_BACKUP
+      ? new SheetTable(this.client, env.GOOGLE_SHEET_ID_BACKUP, env.GOOGLE_SHEET_RANGE_BACKUP ?? "Sheet1!A:Z")
+      : null;
+  }
+
+  async create({ summary, rawPayload, driverContact }: NewBooking): Promise<{ rowNumber: number }> {
+    const submission: Partial<Record<SheetField, string | number>> = {
+      transactionId: summary.transactionId,
+      idempotencyKey: summary.idempotencyKey,
+      submittedAt: summary.submittedAt,
+      customerName: summary.customerName,
+      customerEmail: summary.customerEmail,
+      customerPhone: sanitizeForSheet(summary.customerPhone),
+      startLocation: summary.startLocation,
+      endLocation: summary.endLocation,
+      pickupDatetime: summary.pickupDatetime,
+      estimatedDistance: summary.estimatedDistance,
+      estimatedDuration: summary.estimatedDuration,
+      passengers: summary.passengers,
+      notes: summary.notes ?? "",
+      driverName: driverContact.name,
+      driverEmail: driverContact.email,
+      driverPhone: sanitizeForSheet(driverContact.phone),
+      status: DEFAULT_STATUS,
+      mapUrl: summary.mapUrl,
+      rawPayload,
+      quoteTotal: summary.quote ? formatMoney(summary.quote.total, summary.quote.currency) : "",
+      quote: summary.quote ? JSON.stringify(summary.quote) : "",
+      reservationId: summary.reservationId ?? "",
+      tripLeg: summary.tripLeg ?? "",
+      stops: summary.stops.length > 0 ? JSON.stringify(summary.stops) : "",
+      seriesId: summary.seriesId ?? "",
+      recurrence: summary.recurrence ?? "",
+      serviceArea: summary.serviceArea ?? "",
+    };
+
+    // Write to primary sheet
+    const columns = await this.withHeaderCheck(this.primary, () => this.primary.prepareWrite());
+    const appendResult = await this.primary.append(submission, columns);
+
+    logger.info('sheets_store.primary_write.success', {
+      transactionId: summary.transactionId.slice(0, 12),
+      rowNumber: appendResult.rowNumber,
+    });
+
+    // Write to backup sheet (fire-and-forget, don't block on failure)
+    if (this.backup) {
+      const backup = this.backup;
+      backup.prepareWrite()
+        .then(backupColumns => backup.append(submission, backupColumns))
+        .catch(error => {
+          logger.warn('sheets_store.backup_write.failed', {
+            transactionId: summary.transactionId.slice(0, 12),
+            error: error instanceof Error ? error.message : String(error),
+          });
+        });
+    }
+
+    this.writeAudit([
+      summary.transactionId,
+      "submission_received",
+      summary.submittedAt,
+      summary.customerEmail,
+      JSON.stringify({
+        idempotencyKey: summary.idempotencyKey,
+        route: `${summary.startLocation} → ${summary.endLocation}`,
+      }),
+    ]);
+
+    return { rowNumber: appendResult.rowNumber };
+  }
+
+  async getById(transactionId: string): Promise<BookingRecord | null> {
+    const data = await this.readPrimary();
+    const row = findRow(data, "transactionId", transactionId);
+    return row ? parseBookingRow(row.values, data.columns) : null;
+  }
+
+  async getByIdempotencyKey(idempotencyKey: string): Promise<BookingRecord | null> {
+    const data = await this.readPrimary();
+    const row = data.rows.filter(row => cellValue(row.values, data.columns, "idempotencyKey") === idempotencyKey).at(-1);
+    return row ? parseBookingRow(row.values, data.columns) : null;
+  }
+
+  async getRawPayload(transactionId: string): Promise<string | null> {
+    const data = await this.readPrimary();
+    const row = findRow(data, "transactionId", transactionId);
+    return row ? cellValue(row.values, data.columns, "rawPayload") || null : null;
+  }
+
+  async updateStatus(transactionId: string, update: StatusUpdate): Promise<StatusUpdateResult> {
+    const data = await this.readPrimary();
+    const row = findRow(data, "transactionId", transactionId);
+
+    if (!row) {
+      return { found: false, updated: false, currentStatus: null };
+    }
+
+    const currentStatus = cellValue(row.values, data.columns, "status") || DEFAULT_STATUS;
+    if (currentStatus !== update.expectedStatus) {
+      return { found: true, updated: false, currentStatus };
+    }
+
+    // Status and any field changes go in one write; a new pickup time also resets the reminder marker
+    const columns = await this.primary.prepareWrite(data.header);
+    await this.primary.updateCells(row.rowNumber, { status: update.status, ...changeCells(update.changes) }, columns);
+
+    // Also update backup sheet if configured (fire-and-forget)
+    if (this.backup) {
+      this.updateBackupStatus(this.backup, transactionId, update.status);
+    }
+
+    const audit = statusAuditEntry(update);
+    this.writeAudit([transactionId, audit.event, new Date().toISOString(), audit.details]);
+
+    return { found: true, updated: true, currentStatus: update.status };
+  }
+
+  async markReminderSent(transactionId: string, sentAt: string): Promise<void> {
+    const data = await this.readPrimary();
+    const row = findRow(data, "transactionId", transactionId);
+
+    if (!row) {
+      throw new Error(`Transaction ID ${transactionId} not found in sheets`);
+    }
+
+    const columns = await this.primary.prepareWrite(data.header);
+    await this.primary.updateCells(row.rowNumber, { reminderSentAt: sentAt }, columns);
+
+    this.writeAudit([transactionId, "reminder_sent", sentAt, '']);
+  }
+
+  async recordEvent(transactionId: string, event: string, occurredAt: string, details: string): Promise<void> {
+    this.writeAudit([transactionId, event, occurredAt, details]);
+  }
+
+  async list(query?: BookingQuery): Promise<BookingRecord[]> {
+    const data = await this.readPrimary();
+    const records = data.rows
+      .filter(row => cellValue(row.values, data.columns, "transactionId"))
+      .map(row => parseBookingRow(row.values, data.columns));
+    return applyBookingQuery(records, query, businessTimeZone(this.env));
+  }
+
+  private readPrimary(): Promise<SheetData> {
+    return this.withHeaderCheck(this.primary, () => this.primary.read());
+  }
+
+  /**
+   * Log a missing-header failure with the tab before it propagates
+   */
+  private async withHeaderCheck<T>(table: SheetTable, operation: () => Promise<T>): Promise<T> {
+    try {
+      return await operation();
+    } catch (error) {
+      if (error instanceof SheetHeaderError) {
+        logger.error('sheets_store.header_missing', { tab: table.tab, missing: error.missing });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Update status in backup sheet (async, doesn't block main flow)
+   */
+  private async updateBackupStatus(backup: SheetTable, transactionId: string, newStatus: string): Promise<void> {
+    try {
+      const data = await backup.read();
+      const row = findRow(data, "transactionId", transactionId);
+      if (row) {
+        await backup.updateCells(row.rowNumber, { status: newStatus }, data.columns);
+      }
+    } catch (error) {
+      logger.warn('sheets_store.backup_status_update.failed', {
+        transactionId: transactionId.slice(0, 12),
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Append an audit entry (fire-and-forget)
+   */
+  private writeAudit(values: SheetRow): void {
+    const auditSheetId = this.env.GOOGLE_SHEET_ID_AUDIT ?? this.env.GOOGLE_SHEET_ID_BACKUP;
+    if (!auditSheetId) return;
+
+    this.client.appendAuditEntry({
+      sheetId: auditSheetId,
+      range: this.env.GOOGLE_SHEET_RANGE_AUDIT ?? "Sheet1!A:Z",
+      values,
+    });
+  }
+}
+
+export class SheetsDriverStore implements DriverStore {
+  private readonly table: SheetTable<DriverSheetField>;
+
+  constructor(env: SheetsStoreEnv) {
+    this.table = new SheetTable(
+      createSheetsClient(env),
+      env.GOOGLE_SHEET_ID_PRIMARY,
+      env.GOOGLE_SHEET_RANGE_DRIVERS ?? "Drivers!A:F",
+      DRIVER_SHEET_FIELDS
+    );
+  }
+
+  async list(): Promise<Driver[]> {
+    const data = await this.read();
+    return sortDrivers(
+      data.rows
+        .filter(row => cellValue(row.values, data.columns, "id"))
+        .map(row => parseDriverRow(row.values, data.columns))
+    );
+  }
+
+  async getById(id: string): Promise<Driver | null> {
+    const data = await this.read();
+    const row = findRow(data, "id", id);
+    return row ? parseDriverRow(row.values, data.columns) : null;
+  }
+
+  async create(driver: Driver): Promise<void> {
+    const columns = await this.table.prepareWrite();
+    await this.table.append(driverCells(driver), columns);
+  }
+
+  async update(id: string, update: DriverUpdate): Promise<Driver | null> {
+    const data = await this.read();
+    const row = findRow(data, "id", id);
+    if (!row) {
+      return null;
+    }
+
+    const updated = applyDriverUpdate(parseDriverRow(row.values, data.columns), update);
+    const cells = driverCells(updated);
+    const changed = Object.fromEntries(
+      (Object.keys(update) as (keyof DriverUpdate)[])
+        .filter(field => update[field] !== undefined)
+        .map(field => [field, cells[field]])
+    );
+
+    const columns = await this.table.prepareWrite(data.header);
+    await this.table.updateCells(row.rowNumber, changed, columns);
+    return updated;
+  }
+
+  private async read(): Promise<SheetData<DriverSheetField>> {
+    try {
+      return await this.table.read();
+    } catch (error) {
+      if (error instanceof SheetHeaderError) {
+        logger.error('sheets_store.header_missing', { tab: this.table.tab, missing: error.missing });
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Sheets client for the configured spreadsheet and service account
+ */
+export function createSheetsClient(env: SheetsStoreEnv): GoogleSheetsClient {
+  if (!env.GOOGLE_SHEET_ID_PRIMARY) {
+    throw new Error("Missing GOOGLE_SHEET_ID_PRIMARY");
+  }
+
+  if (!env.GOOGLE_SERVICE_ACCOUNT) {
+    throw new Error("Missing GOOGLE_SERVICE_ACCOUNT secret");
+  }
+
+  // Create Google Sheets client with retry configuration
+  return new GoogleSheetsClient({
+    credentialsJson: env.GOOGLE_SERVICE_ACCOUNT,
+    maxRetries: parseEnvNumber(env.SHEETS_MAX_RETRIES, 3),
+    retryDelayMs: parseEnvNumber(env.SHEETS_RETRY_DELAY_MS, 1000),
+    verifyWrites: env.SHEETS_VERIFY_WRITES !== 'false',
+  });
+}
+
+function findRow<F extends string>(data: SheetData<F>, field: F, value: string) {
+  return data.rows.find(row => cellValue(row.values, data.columns, field) === value);
+}
+
+/**
+ * Cells to write for the field changes of a status update
+ */
+function changeCells(changes: BookingChanges = {}): Partial<Record<SheetField, string>> {
+  const cells: Partial<Record<SheetField, string>> = {};
+  for (const [field, value] of Object.entries(changes) as [keyof BookingChanges, string | null | undefined][]) {
+    if (value !== undefined) {
+      cells[field] = sanitizeForSheet(value);
+    }
+  }
+  if (changes.pickupDatetime !== undefined) {
+    cells.reminderSentAt = "";
+  }
+  return cells;
+}
+
+function parseBookingRow(row: SheetRow, columns: SheetColumns): BookingRecord {
+  const text = (field: SheetField) => cellValue(row, columns, field);
+  const optional = (field: SheetField) => text(field) || null;
+
+  return {
+    transactionId: text("transactionId"),
+    idempotencyKey: text("idempotencyKey"),
+    customerName: text("customerName"),
+    customerEmail: text("customerEmail"),
+    customerPhone: optional("customerPhone"),
+    startLocation: text("startLocation"),
+    endLocation: text("endLocation"),
+    pickupDatetime: text("pickupDatetime"),
+    estimatedDistance: text("estimatedDistance"),
+    estimatedDuration: text("estimatedDuration"),
+    passengers: parseInt(text("passengers") || '1', 10) || 1,
+    submittedAt: text("submittedAt"),
+    notes: optional("notes"),
+    mapUrl: text("mapUrl"),
+    stops: parseStoredStops(text("stops")),
+    status: text("status") || DEFAULT_STATUS,
+    reminderSentAt: optional("reminderSentAt"),
+    requestedPickupDatetime: optional("requestedPickupDatetime"),
+    denialReason: optional("denialReason"),
+    alternativePickupDatetime: optional("alternativePickupDatetime"),
+    ownerNotes: optional("ownerNotes"),
+    driverId: optional("driverId"),
+    driverName: optional("driverName"),
+    driverEmail: optional("driverEmail"),
+    driverPhone: optional("driverPhone"),
+    vehicleId: optional("vehicleId"),
+    vehicleName: optional("vehicleName"),
+    quote: parseStoredQuote(text("quote")),
+    reservationId: optional("reservationId"),
+    tripLeg: parseTripLeg(text("tripLeg")),
+    seriesId: optional("seriesId"),
+    recurrence: optional("recurrence"),
+    serviceArea: parseServiceAreaStatus(text("serviceArea")),
+  };
+}
+
+function parseDriverRow(row: SheetRow, columns: SheetColumns<DriverSheetField>): Driver {
+  const text = (field: DriverSheetField) => cellValue(row, columns, field);
+
+  return {
+    id: text("id"),
+    name: text("name"),
+    email: text("email"),
+    phone: text("phone") || null,
+    // Rows added by hand without an Active value count as active
+    active: !/^(false|no|0)$/i.test(text("active").trim()),
+    createdAt: text("createdAt"),
+  };
+}
+
+function driverCells(driver: Driver): Record<DriverSheetField, string> {
+  return {
+    id: driver.id,
+    name: sanitizeForSheet(driver.name),
+    email: sanitizeForSheet(driver.email),
+    phone: sanitizeForSheet(driver.phone),
+    active: driver.active ? "TRUE" : "FALSE",
+    createdAt: driver.createdAt,
+  };
+}
+
+/**
+ * Sanitize a value for safe insertion into Google Sheets
+ * Prevents formula injection attacks
+ */
+function sanitizeForSheet(value: string | null): string {
+  if (value == null) {
+    return "";
+  }
+
+  const trimmed = value.trim();
+  if (!trimmed) {
+    return "";
+  }
+
+  // Prefix with single quote if starts with a formula character
+  // but contains non-numeric content (to prevent formula injection)
+  const startsWithRiskyChar = /^[=+@-]/.test(trimmed);
+  const containsNonNumeric = /[^0-9.+-]/.test(trimmed.slice(1));
+
+  if (startsWithRiskyChar && containsNonNumeric) {
+    return `'${trimmed}`;
+  }
+
+  return trimmed;
+}
+
+function parseEnvNumber(value: string | undefined, fallback: number): number {
+  if (!value) return fallback;
+  const parsed = parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
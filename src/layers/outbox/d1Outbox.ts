@@ -0,0 +1,200 @@
+/**
+ * Cloudflare D1 Email Outbox
+ *
+ * Stores the outbox in the `email_outbox` table of the BOOKINGS_DB database
+ * (migrations/0004_create_email_outbox.sql, delivery columns from 0005,
+ * attachments from 0006).
+ * Claims are a single conditional UPDATE on the attempt count, and delivery
+ * updates a single conditional UPDATE on the current delivery status.
+ */
+
+import { EmailAttachment } from "../../integrations/emailTransport";
+import {
+  DeliveryStatus,
+  newOutboxEmail,
+  NewOutboxEmail,
+  OutboxEmail,
+  OutboxOutcome,
+  OutboxStatus,
+  OutboxStore,
+  supersededDeliveryStatuses,
+} from "./outboxStore";
+
+interface OutboxRow {
+  id: string;
+  transaction_id: string | null;
+  dedupe_key: string | null;
+  from_address: string;
+  to_address: string;
+  subject: string;
+  html: string;
+  text: string;
+  tags: string | null;
+  attachments: string | null;
+  status: string;
+  attempts: number;
+  last_error: string | null;
+  next_attempt_at: number | null;
+  provider: string | null;
+  provider_message_id: string | null;
+  created_at: string;
+  sent_at: string | null;
+  delivery_status: string | null;
+  delivery_updated_at: string | null;
+}
+
+const OUTBOX_COLUMNS = `id, transaction_id, dedupe_key, from_address, to_address, subject, html, text, tags,
+  attachments, status, attempts, last_error, next_attempt_at, provider, provider_message_id, created_at, sent_at,
+  delivery_status, delivery_updated_at`;
+
+export class D1OutboxStore implements OutboxStore {
+  readonly durable = true;
+
+  constructor(private readonly db: D1Database) {}
+
+  async add(email: NewOutboxEmail): Promise<{ email: OutboxEmail; created: boolean }> {
+    const record = newOutboxEmail(crypto.randomUUID(), email);
+
+    // The unique dedupe_key index turns a second insert for the same key into a no-op
+    const result = await this.db.prepare(
+      `INSERT INTO email_outbox (${OUTBOX_COLUMNS}, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (dedupe_key) DO NOTHING`
+    ).bind(
+      record.id,
+      record.transactionId,
+      record.dedupeKey,
+      record.from,
+      record.to,
+      record.subject,
+      record.html,
+      record.text,
+      record.tags ? JSON.stringify(record.tags) : null,
+      record.attachments ? JSON.stringify(record.attachments) : null,
+      record.status,
+      record.attempts,
+      record.lastError,
+      record.nextAttemptAt,
+      record.provider,
+      record.providerMessageId,
+      record.createdAt,
+      record.sentAt,
+      record.deliveryStatus,
+      record.deliveryUpdatedAt,
+      record.createdAt
+    ).run();
+
+    if (result.meta.changes > 0 || !record.dedupeKey) {
+      return { email: record, created: true };
+    }
+
+    const existing = await this.db.prepare(`SELECT ${OUTBOX_COLUMNS} FROM email_outbox WHERE dedupe_key = ?`)
+      .bind(record.dedupeKey)
+      .first<OutboxRow>();
+    if (!existing) {
+      throw new Error(`Outbox email with dedupe key ${record.dedupeKey} not found`);
+    }
+    return { email: parseOutboxRow(existing), created: false };
+  }
+
+  async getById(id: string): Promise<OutboxEmail | null> {
+    const row = await this.db.prepare(`SELECT ${OUTBOX_COLUMNS} FROM email_outbox WHERE id = ?`)
+      .bind(id)
+      .first<OutboxRow>();
+    return row ? parseOutboxRow(row) : null;
+  }
+
+  async claim(id: string, expectedAttempts: number, leaseUntil: number): Promise<boolean> {
+    const result = await this.db.prepare(
+      `UPDATE email_outbox SET attempts = attempts + 1, next_attempt_at = ?, updated_at = ?
+       WHERE id = ? AND status = 'pending' AND attempts = ?`
+    ).bind(leaseUntil, new Date().toISOString(), id, expectedAttempts).run();
+
+    return result.meta.changes > 0;
+  }
+
+  async complete(id: string, outcome: OutboxOutcome): Promise<void> {
+    const now = new Date().toISOString();
+    const statement = outcome.status === "sent"
+      ? this.db.prepare(
+          `UPDATE email_outbox SET status = 'sent', provider = ?, provider_message_id = ?, sent_at = ?,
+             next_attempt_at = NULL, updated_at = ? WHERE id = ?`
+        ).bind(outcome.provider, outcome.providerMessageId, outcome.sentAt, now, id)
+      : this.db.prepare(
+          `UPDATE email_outbox SET status = ?, last_error = ?, next_attempt_at = ?, updated_at = ? WHERE id = ?`
+        ).bind(
+          outcome.status,
+          outcome.lastError,
+          outcome.status === "pending" ? outcome.nextAttemptAt : null,
+          now,
+          id
+        );
+
+    const result = await statement.run();
+    if (result.meta.changes === 0) {
+      throw new Error(`Outbox email ${id} not found`);
+    }
+  }
+
+  async listDue(now: number, limit: number): Promise<OutboxEmail[]> {
+    const { results } = await this.db.prepare(
+      `SELECT ${OUTBOX_COLUMNS} FROM email_outbox
+       WHERE status = 'pending' AND next_attempt_at <= ?
+       ORDER BY next_attempt_at LIMIT ?`
+    ).bind(now, limit).all<OutboxRow>();
+    return results.map(parseOutboxRow);
+  }
+
+  async listByTransaction(transactionId: string): Promise<OutboxEmail[]> {
+    const { results } = await this.db.prepare(
+      `SELECT ${OUTBOX_COLUMNS} FROM email_outbox WHERE transaction_id = ? ORDER BY created_at`
+    ).bind(transactionId).all<OutboxRow>();
+    return results.map(parseOutboxRow);
+  }
+
+  async getByProviderMessageId(providerMessageId: string): Promise<OutboxEmail | null> {
+    const row = await this.db.prepare(`SELECT ${OUTBOX_COLUMNS} FROM email_outbox WHERE provider_message_id = ?`)
+      .bind(providerMessageId)
+      .first<OutboxRow>();
+    return row ? parseOutboxRow(row) : null;
+  }
+
+  async recordDelivery(id: string, status: DeliveryStatus, occurredAt: string): Promise<boolean> {
+    const superseded = supersededDeliveryStatuses(status);
+    const supersededClause = superseded.length > 0
+      ? ` OR delivery_status IN (${superseded.map(() => '?').join(', ')})`
+      : '';
+
+    const result = await this.db.prepare(
+      `UPDATE email_outbox SET delivery_status = ?, delivery_updated_at = ?, updated_at = ?
+       WHERE id = ? AND (delivery_status IS NULL${supersededClause})`
+    ).bind(status, occurredAt, new Date().toISOString(), id, ...superseded).run();
+
+    return result.meta.changes > 0;
+  }
+}
+
+function parseOutboxRow(row: OutboxRow): OutboxEmail {
+  return {
+    id: row.id,
+    transactionId: row.transaction_id,
+    dedupeKey: row.dedupe_key,
+    from: row.from_address,
+    to: row.to_address,
+    subject: row.subject,
+    html: row.html,
+    text: row.text,
+    tags: row.tags ? JSON.parse(row.tags) as string[] : undefined,
+    attachments: row.attachments ? JSON.parse(row.attachments) as EmailAttachment[] : undefined,
+    status: row.status as OutboxStatus,
+    attempts: Number(row.attempts) || 0,
+    lastError: row.last_error,
+    nextAttemptAt: row.next_attempt_at,
+    provider: row.provider,
+    providerMessageId: row.provider_message_id,
+    createdAt: row.created_at,
+    sentAt: row.sent_at,
+    deliveryStatus: row.delivery_status as DeliveryStatus | null,
+    deliveryUpdatedAt: row.delivery_updated_at,
+  };
+}
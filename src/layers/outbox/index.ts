@@ -0,0 +1,389 @@
+/**
+ * Outbox Layer - Durable Email Delivery
+ *
+ * Handles:
+ * - Recording every outgoing email before it is sent (D1, Google Sheets or
+ *   in-memory outbox, selected by EMAIL_OUTBOX)
+ * - One inline attempt, then retries with backoff from the cron; only a
+ *   durable outbox (D1 or Sheets) promises them, and without one the worker
+ *   logs an error and sends each email once
+ * - Dead-lettering after EMAIL_MAX_ATTEMPTS (or at once when the provider
+ *   rejects the message), with a hook so the owner can be alerted
+ * - Keeping the provider message ID against the booking, and the delivery
+ *   status the provider later reports for it
+ */
+
+import {
+  createEmailTransport,
+  EmailEnv,
+  EmailMessage,
+  EmailSendResult,
+  EmailTransportError,
+} from "../../integrations/emailTransport";
+import {
+  DeliveryStatus,
+  DEFAULT_MAX_ATTEMPTS,
+  DEFAULT_RETRY_BASE_MS,
+  retryDelayMs,
+  OutboxEmail,
+  OutboxStore,
+} from "./outboxStore";
+import { D1OutboxStore } from "./d1Outbox";
+import { MemoryOutboxStore } from "./memoryOutbox";
+import { SheetsOutboxStore } from "./sheetsOutbox";
+import { createSheetsClient, type SheetsStoreEnv } from "../coordination/sheetsStore";
+
+const logger = {
+  info: (event: string, data?: Record<string, unknown>) =>
+    console.log(JSON.stringify({ level: 'INFO', event, ...data, timestamp: new Date().toISOString() })),
+  warn: (event: string, data?: Record<string, unknown>) =>
+    console.warn(JSON.stringify({ level: 'WARN', event, ...data, timestamp: new Date().toISOString() })),
+  error: (event: string, data?: Record<string, unknown>) =>
+    console.error(JSON.stringify({ level: 'ERROR', event, ...data, timestamp: new Date().toISOString() })),
+};
+
+export interface OutboxEnv extends EmailEnv, SheetsStoreEnv {
+  EMAIL_OUTBOX?: string;                // "d1" | "sheets" | "memory" (tests/local only); default d1 when BOOKINGS_DB is bound
+  BOOKINGS_DB?: D1Database;
+  GOOGLE_SHEET_RANGE_OUTBOX?: string;   // Outbox tab in the primary spreadsheet, e.g. "Outbox!A:T"
+  EMAIL_MAX_ATTEMPTS?: string;          // Attempts before an email is dead-lettered (default 5)
+  EMAIL_RETRY_BASE_SECONDS?: string;    // First retry delay; each later one is 4× longer (default 60)
+}
+
+/** Called once when an email is dead-lettered */
+export type DeadLetterHandler = (email: OutboxEmail) => Promise<void>;
+
+export interface SendOptions {
+  transactionId?: string;
+  dedupeKey?: string;                   // Reuse the existing email for this key instead of adding another
+  onDeadLetter?: DeadLetterHandler;
+}
+
+export interface OutboxRunSummary {
+  due: number;
+  sent: number;
+  retrying: number;
+  dead: number;
+}
+
+/**
+ * An email that was not delivered on this attempt
+ * `willRetry` is true when a durable outbox will try again later.
+ */
+export class EmailDeliveryError extends Error {
+  constructor(
+    message: string,
+    readonly outboxId: string | null,
+    readonly willRetry: boolean
+  ) {
+    super(message);
+    this.name = "EmailDeliveryError";
+  }
+}
+
+type DeliveryResult =
+  | { status: "sent"; result: EmailSendResult }
+  | { status: "pending" | "dead"; error: string }
+  | { status: "claimed_elsewhere" };
+
+// Holds a claimed email back from other senders while its attempt runs
+const CLAIM_LEASE_MS = 2 * 60 * 1000;
+const DEFAULT_BATCH_SIZE = 25;
+
+// Shared per isolate so the memory backend survives between requests
+const memoryOutbox = new MemoryOutboxStore();
+
+// The durability check logs once per isolate
+let durabilityChecked = false;
+
+/**
+ * Create the outbox selected by EMAIL_OUTBOX
+ * Throws when none is selected and BOOKINGS_DB is not bound.
+ */
+export function createOutboxStore(env: OutboxEnv): OutboxStore {
+  switch (outboxBackend(env)) {
+    case 'd1':
+      if (!env.BOOKINGS_DB) {
+        throw new Error("EMAIL_OUTBOX is d1 but the BOOKINGS_DB binding is missing");
+      }
+      return new D1OutboxStore(env.BOOKINGS_DB);
+    case 'sheets':
+      return new SheetsOutboxStore(
+        createSheetsClient(env),
+        env.GOOGLE_SHEET_ID_PRIMARY,
+        env.GOOGLE_SHEET_RANGE_OUTBOX ?? "Outbox!A:T"
+      );
+    case 'memory':
+      return memoryOutbox;
+    case null:
+      throw new Error("No email outbox is configured: bind BOOKINGS_DB or set EMAIL_OUTBOX");
+    default:
+      throw new Error(`Unknown EMAIL_OUTBOX: ${env.EMAIL_OUTBOX}`);
+  }
+}
+
+/**
+ * True when the configured outbox keeps emails beyond the isolate (D1 or Sheets)
+ */
+export function hasDurableOutbox(env: OutboxEnv): boolean {
+  const backend = outboxBackend(env);
+  return backend === 'd1' || backend === 'sheets';
+}
+
+/**
+ * Log an error, once per isolate, when no durable outbox is configured
+ * Called as the worker starts handling requests and cron runs: without one,
+ * failed emails are never retried and delivery webhooks are refused.
+ */
+export function checkOutboxDurability(env: OutboxEnv): void {
+  if (durabilityChecked) return;
+  durabilityChecked = true;
+
+  if (!hasDurableOutbox(env)) {
+    logger.error('outbox.not_durable', {
+      backend: outboxBackend(env) ?? 'none',
+      impact: 'failed emails are not retried and delivery webhooks are refused',
+      fix: 'bind BOOKINGS_DB or set EMAIL_OUTBOX = "sheets"',
+    });
+  }
+}
+
+/**
+ * The shared in-memory outbox used when EMAIL_OUTBOX = "memory"
+ */
+export function getMemoryOutboxStore(): MemoryOutboxStore {
+  return memoryOutbox;
+}
+
+/**
+ * Record an email in the outbox and make the first attempt
+ *
+ * Throws EmailDeliveryError when this attempt fails; `willRetry` tells the
+ * caller whether the cron will keep trying. When the outbox itself is
+ * unavailable the email is sent directly so mail still goes out.
+ */
+export async function sendWithOutbox(
+  message: EmailMessage,
+  env: OutboxEnv,
+  options: SendOptions = {}
+): Promise<EmailSendResult> {
+  if (!outboxBackend(env)) {
+    logger.warn('outbox.send.unqueued', { transactionId: options.transactionId?.slice(0, 12), reason: 'no_outbox' });
+    return createEmailTransport(env).send(message);
+  }
+
+  let store: OutboxStore;
+  let email: OutboxEmail;
+  let created: boolean;
+  try {
+    store = createOutboxStore(env);
+    ({ email, created } = await store.add({
+      message,
+      transactionId: options.transactionId,
+      dedupeKey: options.dedupeKey,
+      createdAt: new Date().toISOString(),
+    }));
+  } catch (error) {
+    logger.error('outbox.enqueue.failed', {
+      transactionId: options.transactionId?.slice(0, 12),
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return createEmailTransport(env).send(message);
+  }
+
+  if (!created) {
+    logger.info('outbox.dedupe.hit', { outboxId: email.id, dedupeKey: email.dedupeKey, status: email.status });
+    if (email.status === "sent") {
+      return { id: email.providerMessageId ?? "", provider: email.provider ?? "" };
+    }
+    if (email.status === "dead") {
+      throw new EmailDeliveryError(`Email was dead-lettered: ${email.lastError}`, email.id, false);
+    }
+  }
+
+  const delivery = await deliver(store, email, env, Date.now(), options.onDeadLetter);
+  switch (delivery.status) {
+    case "sent":
+      return delivery.result;
+    case "claimed_elsewhere":
+      throw new EmailDeliveryError("Email is already being delivered", email.id, store.durable);
+    default:
+      throw new EmailDeliveryError(delivery.error, email.id, delivery.status === "pending" && store.durable);
+  }
+}
+
+/**
+ * Retry every pending email that is due
+ * Runs from the Cron Trigger with its scheduled time as the clock.
+ */
+export async function processOutbox(
+  env: OutboxEnv,
+  now: number,
+  options: { onDeadLetter?: DeadLetterHandler; limit?: number } = {}
+): Promise<OutboxRunSummary> {
+  if (!outboxBackend(env)) {
+    logger.warn('outbox.run.skipped', { reason: 'no_outbox' });
+    return { due: 0, sent: 0, retrying: 0, dead: 0 };
+  }
+
+  const store = createOutboxStore(env);
+  const due = await store.listDue(now, options.limit ?? DEFAULT_BATCH_SIZE);
+  const summary: OutboxRunSummary = { due: due.length, sent: 0, retrying: 0, dead: 0 };
+
+  for (const email of due) {
+    const delivery = await deliver(store, email, env, now, options.onDeadLetter);
+    if (delivery.status === "sent") summary.sent++;
+    else if (delivery.status === "pending") summary.retrying++;
+    else if (delivery.status === "dead") summary.dead++;
+  }
+
+  logger.info('outbox.run.complete', { ...summary, scheduledAt: new Date(now).toISOString() });
+  return summary;
+}
+
+/**
+ * All outbox records for a booking, with their delivery status and provider message IDs
+ */
+export async function fetchBookingEmails(transactionId: string, env: OutboxEnv): Promise<OutboxEmail[]> {
+  return createOutboxStore(env).listByTransaction(transactionId);
+}
+
+/**
+ * Record a delivery status reported by the provider against the email it sent
+ * Returns null when no outbox email has this provider message ID; `updated`
+ * is false when the email already had this or a later status.
+ */
+export async function recordDeliveryEvent(
+  providerMessageId: string,
+  status: DeliveryStatus,
+  occurredAt: string,
+  env: OutboxEnv
+): Promise<{ email: OutboxEmail; updated: boolean } | null> {
+  const store = createOutboxStore(env);
+  const email = await store.getByProviderMessageId(providerMessageId);
+  if (!email) {
+    return null;
+  }
+
+  const updated = await store.recordDelivery(email.id, status, occurredAt);
+  logger.info('outbox.delivery.recorded', {
+    outboxId: email.id,
+    transactionId: email.transactionId?.slice(0, 12),
+    status,
+    updated,
+  });
+
+  return {
+    email: updated ? { ...email, deliveryStatus: status, deliveryUpdatedAt: occurredAt } : email,
+    updated,
+  };
+}
+
+/**
+ * The backend EMAIL_OUTBOX selects, or null when none is selected or bound
+ */
+function outboxBackend(env: OutboxEnv): string | null {
+  return env.EMAIL_OUTBOX?.toLowerCase() ?? (env.BOOKINGS_DB ? 'd1' : null);
+}
+
+/**
+ * Make one attempt at an outbox email and record the outcome
+ */
+async function deliver(
+  store: OutboxStore,
+  email: OutboxEmail,
+  env: OutboxEnv,
+  now: number,
+  onDeadLetter?: DeadLetterHandler
+): Promise<DeliveryResult> {
+  if (!await store.claim(email.id, email.attempts, now + CLAIM_LEASE_MS)) {
+    return { status: "claimed_elsewhere" };
+  }
+  const attempts = email.attempts + 1;
+
+  try {
+    const result = await createEmailTransport(env).send(toMessage(email));
+    await store.complete(email.id, {
+      status: "sent",
+      provider: result.provider,
+      providerMessageId: result.id,
+      sentAt: new Date(now).toISOString(),
+    });
+    logger.info('outbox.send.success', {
+      outboxId: email.id,
+      transactionId: email.transactionId?.slice(0, 12),
+      provider: result.provider,
+      attempts,
+    });
+    return { status: "sent", result };
+  } catch (error) {
+    const lastError = error instanceof Error ? error.message : String(error);
+    // A message the provider rejected will be rejected again
+    const rejected = error instanceof EmailTransportError && !error.isRetryable;
+    const maxAttempts = parseInt(env.EMAIL_MAX_ATTEMPTS ?? "", 10) || DEFAULT_MAX_ATTEMPTS;
+
+    if (rejected || attempts >= maxAttempts) {
+      await store.complete(email.id, { status: "dead", lastError });
+      logger.error('outbox.send.dead', {
+        outboxId: email.id,
+        transactionId: email.transactionId?.slice(0, 12),
+        to: email.to,
+        attempts,
+        error: lastError.slice(0, 500),
+      });
+      await notifyDeadLetter({ ...email, status: "dead", attempts, lastError, nextAttemptAt: null }, onDeadLetter);
+      return { status: "dead", error: lastError };
+    }
+
+    const baseMs = (parseInt(env.EMAIL_RETRY_BASE_SECONDS ?? "", 10) * 1000) || DEFAULT_RETRY_BASE_MS;
+    const nextAttemptAt = now + retryDelayMs(attempts, baseMs);
+    await store.complete(email.id, { status: "pending", lastError, nextAttemptAt });
+    logger.warn('outbox.send.retry_scheduled', {
+      outboxId: email.id,
+      transactionId: email.transactionId?.slice(0, 12),
+      attempts,
+      nextAttemptAt: new Date(nextAttemptAt).toISOString(),
+      error: lastError.slice(0, 500),
+    });
+    return { status: "pending", error: lastError };
+  }
+}
+
+function toMessage(email: OutboxEmail): EmailMessage {
+  return {
+    from: email.from,
+    to: email.to,
+    subject: email.subject,
+    html: email.html,
+    text: email.text,
+    tags: email.tags,
+    attachments: email.attachments,
+  };
+}
+
+async function notifyDeadLetter(email: OutboxEmail, onDeadLetter?: DeadLetterHandler): Promise<void> {
+  if (!onDeadLetter) return;
+
+  try {
+    await onDeadLetter(email);
+  } catch (error) {
+    logger.error('outbox.dead_letter_alert.failed', {
+      outboxId: email.id,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+// Re-export store types
+export {
+  retryDelayMs,
+  type DeliveryStatus,
+  type NewOutboxEmail,
+  type OutboxEmail,
+  type OutboxOutcome,
+  type OutboxStatus,
+  type OutboxStore,
+} from "./outboxStore";
+export { D1OutboxStore } from "./d1Outbox";
+export { MemoryOutboxStore } from "./memoryOutbox";
+export { OUTBOX_SHEET_FIELDS, SheetsOutboxStore } from "./sheetsOutbox";
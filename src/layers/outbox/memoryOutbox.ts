@@ -0,0 +1,117 @@
+/**
+ * In-Memory Email Outbox
+ *
+ * Keeps outbox records in a Map for tests and local development. Records
+ * only live as long as the isolate, so retries do not survive a restart and
+ * the outbox never promises them.
+ */
+
+import {
+  DeliveryStatus,
+  newOutboxEmail,
+  NewOutboxEmail,
+  OutboxEmail,
+  OutboxOutcome,
+  OutboxStore,
+  supersededDeliveryStatuses,
+} from "./outboxStore";
+
+export class MemoryOutboxStore implements OutboxStore {
+  readonly durable = false;
+  private readonly emails = new Map<string, OutboxEmail>();
+
+  async add(email: NewOutboxEmail): Promise<{ email: OutboxEmail; created: boolean }> {
+    if (email.dedupeKey) {
+      const existing = [...this.emails.values()].find(e => e.dedupeKey === email.dedupeKey);
+      if (existing) {
+        return { email: { ...existing }, created: false };
+      }
+    }
+
+    const record = newOutboxEmail(crypto.randomUUID(), email);
+    this.emails.set(record.id, record);
+    return { email: { ...record }, created: true };
+  }
+
+  async getById(id: string): Promise<OutboxEmail | null> {
+    const email = this.emails.get(id);
+    return email ? { ...email } : null;
+  }
+
+  async claim(id: string, expectedAttempts: number, leaseUntil: number): Promise<boolean> {
+    const email = this.emails.get(id);
+    if (!email || email.status !== "pending" || email.attempts !== expectedAttempts) {
+      return false;
+    }
+
+    email.attempts++;
+    email.nextAttemptAt = leaseUntil;
+    return true;
+  }
+
+  async complete(id: string, outcome: OutboxOutcome): Promise<void> {
+    const email = this.emails.get(id);
+    if (!email) {
+      throw new Error(`Outbox email ${id} not found`);
+    }
+
+    if (outcome.status === "sent") {
+      Object.assign(email, {
+        status: "sent",
+        provider: outcome.provider,
+        providerMessageId: outcome.providerMessageId,
+        sentAt: outcome.sentAt,
+        nextAttemptAt: null,
+      });
+    } else {
+      Object.assign(email, {
+        status: outcome.status,
+        lastError: outcome.lastError,
+        nextAttemptAt: outcome.status === "pending" ? outcome.nextAttemptAt : null,
+      });
+    }
+  }
+
+  async listDue(now: number, limit: number): Promise<OutboxEmail[]> {
+    return [...this.emails.values()]
+      .filter(email => email.status === "pending" && email.nextAttemptAt !== null && email.nextAttemptAt <= now)
+      .sort((a, b) => a.nextAttemptAt! - b.nextAttemptAt!)
+      .slice(0, limit)
+      .map(email => ({ ...email }));
+  }
+
+  async listByTransaction(transactionId: string): Promise<OutboxEmail[]> {
+    return [...this.emails.values()]
+      .filter(email => email.transactionId === transactionId)
+      .map(email => ({ ...email }));
+  }
+
+  async getByProviderMessageId(providerMessageId: string): Promise<OutboxEmail | null> {
+    const email = [...this.emails.values()].find(e => e.providerMessageId === providerMessageId);
+    return email ? { ...email } : null;
+  }
+
+  async recordDelivery(id: string, status: DeliveryStatus, occurredAt: string): Promise<boolean> {
+    const email = this.emails.get(id);
+    if (!email) {
+      throw new Error(`Outbox email ${id} not found`);
+    }
+    if (email.deliveryStatus && !supersededDeliveryStatuses(status).includes(email.deliveryStatus)) {
+      return false;
+    }
+
+    email.deliveryStatus = status;
+    email.deliveryUpdatedAt = occurredAt;
+    return true;
+  }
+
+  /** All records in insertion order (test helper) */
+  getAll(): OutboxEmail[] {
+    return [...this.emails.values()].map(email => ({ ...email }));
+  }
+
+  /** Remove all records (test helper) */
+  clear(): void {
+    this.emails.clear();
+  }
+}
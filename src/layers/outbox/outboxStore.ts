@@ -0,0 +1,121 @@
+/**
+ * Email Outbox Storage
+ *
+ * Every outgoing email is recorded before it is sent, so a provider outage
+ * delays mail instead of losing it. Records move pending → sent, or
+ * pending → dead once the attempt limit is reached.
+ *
+ * Backends implement the same compare-and-set claim: an attempt only starts
+ * when the record still has the attempt count the caller read, so the inline
+ * send and the retry cron can never deliver the same attempt twice.
+ *
+ * Once sent, the provider's delivery webhooks move the delivery status
+ * forward (delivered → opened, or bounced/complained); it never moves back,
+ * so events that arrive out of order cannot hide a bounce.
+ */
+
+import { EmailMessage } from "../../integrations/emailTransport";
+
+export type OutboxStatus = "pending" | "sent" | "dead";
+
+/** What the provider reported after accepting the email */
+export type DeliveryStatus = "delivered" | "opened" | "complained" | "bounced";
+
+export interface OutboxEmail extends EmailMessage {
+  id: string;
+  transactionId: string | null;       // Booking the email belongs to
+  dedupeKey: string | null;           // At most one email per key
+  status: OutboxStatus;
+  attempts: number;
+  lastError: string | null;
+  nextAttemptAt: number | null;       // Epoch ms; null once sent or dead
+  provider: string | null;            // Transport that accepted the email
+  providerMessageId: string | null;   // e.g. the Resend message ID
+  createdAt: string;
+  sentAt: string | null;
+  deliveryStatus: DeliveryStatus | null;  // Latest from the provider's webhooks
+  deliveryUpdatedAt: string | null;
+}
+
+export interface NewOutboxEmail {
+  message: EmailMessage;
+  transactionId?: string;
+  dedupeKey?: string;
+  createdAt: string;
+}
+
+export type OutboxOutcome =
+  | { status: "sent"; provider: string; providerMessageId: string; sentAt: string }
+  | { status: "pending"; lastError: string; nextAttemptAt: number }
+  | { status: "dead"; lastError: string };
+
+export interface OutboxStore {
+  /** True when records outlive the isolate, so the cron can retry them and webhooks can find them */
+  readonly durable: boolean;
+  /** Record a new email; returns the existing one when the dedupe key is taken */
+  add(email: NewOutboxEmail): Promise<{ email: OutboxEmail; created: boolean }>;
+  getById(id: string): Promise<OutboxEmail | null>;
+  /**
+   * Start an attempt: bumps the attempt count and holds the email until
+   * `leaseUntil` in case the attempt never finishes. False when another
+   * attempt got there first.
+   */
+  claim(id: string, expectedAttempts: number, leaseUntil: number): Promise<boolean>;
+  complete(id: string, outcome: OutboxOutcome): Promise<void>;
+  /** Pending emails whose next attempt is due, oldest first */
+  listDue(now: number, limit: number): Promise<OutboxEmail[]>;
+  listByTransaction(transactionId: string): Promise<OutboxEmail[]>;
+  getByProviderMessageId(providerMessageId: string): Promise<OutboxEmail | null>;
+  /** Move the delivery status forward; false when the email already has this or a later status */
+  recordDelivery(id: string, status: DeliveryStatus, occurredAt: string): Promise<boolean>;
+}
+
+export const DEFAULT_MAX_ATTEMPTS = 5;
+export const DEFAULT_RETRY_BASE_MS = 60 * 1000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+
+// A bounce or complaint is final; an open implies delivery
+const DELIVERY_STATUS_RANK: Record<DeliveryStatus, number> = {
+  delivered: 1,
+  opened: 2,
+  complained: 3,
+  bounced: 3,
+};
+
+/**
+ * Delivery statuses that `status` may replace
+ */
+export function supersededDeliveryStatuses(status: DeliveryStatus): DeliveryStatus[] {
+  return (Object.keys(DELIVERY_STATUS_RANK) as DeliveryStatus[])
+    .filter(current => DELIVERY_STATUS_RANK[current] < DELIVERY_STATUS_RANK[status]);
+}
+
+/**
+ * Delay before the next attempt after `attempts` failures: base × 4^(n-1),
+ * i.e. 1m, 4m, 16m, 64m with the default base, capped at 6h
+ */
+export function retryDelayMs(attempts: number, baseMs: number = DEFAULT_RETRY_BASE_MS): number {
+  return Math.min(baseMs * 4 ** Math.max(0, attempts - 1), MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Fresh pending record for a new email
+ */
+export function newOutboxEmail(id: string, email: NewOutboxEmail): OutboxEmail {
+  return {
+    ...email.message,
+    id,
+    transactionId: email.transactionId ?? null,
+    dedupeKey: email.dedupeKey ?? null,
+    status: "pending",
+    attempts: 0,
+    lastError: null,
+    nextAttemptAt: Date.parse(email.createdAt),
+    provider: null,
+    providerMessageId: null,
+    createdAt: email.createdAt,
+    sentAt: null,
+    deliveryStatus: null,
+    deliveryUpdatedAt: null,
+  };
+}
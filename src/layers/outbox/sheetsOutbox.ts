@@ -0,0 +1,262 @@
+/**
+ * Google Sheets Email Outbox
+ *
+ * Stores the outbox as rows of an Outbox tab in the primary spreadsheet
+ * (GOOGLE_SHEET_RANGE_OUTBOX), one row per email, with columns found by their
+ * header in row 1 (see SheetTable). Sheets has no conditional write, so a
+ * claim reads the row and then writes it; the lease written with the claim
+ * keeps the cron from picking up an email whose attempt is still running.
+ */
+
+import { GoogleSheetsClient } from "../../integrations/googleSheets";
+import { EmailAttachment } from "../../integrations/emailTransport";
+import {
+  cellValue,
+  SheetColumns,
+  SheetData,
+  SheetFieldSpec,
+  SheetHeaderError,
+  SheetRow,
+  SheetTable,
+} from "../coordination/sheetTable";
+import {
+  DeliveryStatus,
+  newOutboxEmail,
+  NewOutboxEmail,
+  OutboxEmail,
+  OutboxOutcome,
+  OutboxStatus,
+  OutboxStore,
+  supersededDeliveryStatuses,
+} from "./outboxStore";
+
+const logger = {
+  error: (event: string, data?: Record<string, unknown>) =>
+    console.error(JSON.stringify({ level: 'ERROR', event, ...data, timestamp: new Date().toISOString() })),
+};
+
+/**
+ * Outbox fields (the Outbox tab), in the order new header rows are written
+ */
+export const OUTBOX_SHEET_FIELDS = {
+  id: { header: "Outbox ID", required: true },
+  transactionId: { header: "Transaction ID" },
+  dedupeKey: { header: "Dedupe Key" },
+  from: { header: "From" },
+  to: { header: "To", required: true },
+  subject: { header: "Subject" },
+  html: { header: "HTML" },
+  text: { header: "Text" },
+  tags: { header: "Tags" },
+  attachments: { header: "Attachments" },
+  status: { header: "Status", required: true },
+  attempts: { header: "Attempts" },
+  lastError: { header: "Last Error" },
+  nextAttemptAt: { header: "Next Attempt At" },
+  provider: { header: "Provider" },
+  providerMessageId: { header: "Provider Message ID" },
+  createdAt: { header: "Created At" },
+  sentAt: { header: "Sent At" },
+  deliveryStatus: { header: "Delivery Status" },
+  deliveryUpdatedAt: { header: "Delivery Updated At" },
+} as const satisfies Record<string, SheetFieldSpec>;
+
+export type OutboxSheetField = keyof typeof OUTBOX_SHEET_FIELDS;
+
+export class SheetsOutboxStore implements OutboxStore {
+  readonly durable = true;
+  private readonly table: SheetTable<OutboxSheetField>;
+
+  constructor(client: GoogleSheetsClient, sheetId: string, range: string) {
+    this.table = new SheetTable(client, sheetId, range, OUTBOX_SHEET_FIELDS);
+  }
+
+  async add(email: NewOutboxEmail): Promise<{ email: OutboxEmail; created: boolean }> {
+    const data = await this.read();
+    if (email.dedupeKey) {
+      const existing = findRow(data, "dedupeKey", email.dedupeKey);
+      if (existing) {
+        return { email: parseOutboxRow(existing.values, data.columns), created: false };
+      }
+    }
+
+    const record = newOutboxEmail(crypto.randomUUID(), email);
+    const columns = await this.table.prepareWrite(data.header);
+    await this.table.append(outboxCells(record), columns);
+    return { email: record, created: true };
+  }
+
+  async getById(id: string): Promise<OutboxEmail | null> {
+    const data = await this.read();
+    const row = findRow(data, "id", id);
+    return row ? parseOutboxRow(row.values, data.columns) : null;
+  }
+
+  async claim(id: string, expectedAttempts: number, leaseUntil: number): Promise<boolean> {
+    const data = await this.read();
+    const row = findRow(data, "id", id);
+    if (!row) {
+      return false;
+    }
+
+    const email = parseOutboxRow(row.values, data.columns);
+    if (email.status !== "pending" || email.attempts !== expectedAttempts) {
+      return false;
+    }
+
+    const columns = await this.table.prepareWrite(data.header);
+    await this.table.updateCells(row.rowNumber, {
+      attempts: String(expectedAttempts + 1),
+      nextAttemptAt: formatTime(leaseUntil),
+    }, columns);
+    return true;
+  }
+
+  async complete(id: string, outcome: OutboxOutcome): Promise<void> {
+    const data = await this.read();
+    const row = findRow(data, "id", id);
+    if (!row) {
+      throw new Error(`Outbox email ${id} not found`);
+    }
+
+    const columns = await this.table.prepareWrite(data.header);
+    await this.table.updateCells(row.rowNumber, outcome.status === "sent"
+      ? {
+          status: "sent",
+          provider: outcome.provider,
+          providerMessageId: sheetText(outcome.providerMessageId),
+          sentAt: outcome.sentAt,
+          nextAttemptAt: "",
+        }
+      : {
+          status: outcome.status,
+          lastError: sheetText(outcome.lastError),
+          nextAttemptAt: outcome.status === "pending" ? formatTime(outcome.nextAttemptAt) : "",
+        }, columns);
+  }
+
+  async listDue(now: number, limit: number): Promise<OutboxEmail[]> {
+    return (await this.list())
+      .filter(email => email.status === "pending" && email.nextAttemptAt !== null && email.nextAttemptAt <= now)
+      .sort((a, b) => a.nextAttemptAt! - b.nextAttemptAt!)
+      .slice(0, limit);
+  }
+
+  async listByTransaction(transactionId: string): Promise<OutboxEmail[]> {
+    return (await this.list()).filter(email => email.transactionId === transactionId);
+  }
+
+  async getByProviderMessageId(providerMessageId: string): Promise<OutboxEmail | null> {
+    const data = await this.read();
+    const row = findRow(data, "providerMessageId", providerMessageId);
+    return row ? parseOutboxRow(row.values, data.columns) : null;
+  }
+
+  async recordDelivery(id: string, status: DeliveryStatus, occurredAt: string): Promise<boolean> {
+    const data = await this.read();
+    const row = findRow(data, "id", id);
+    if (!row) {
+      throw new Error(`Outbox email ${id} not found`);
+    }
+
+    const current = parseOutboxRow(row.values, data.columns).deliveryStatus;
+    if (current && !supersededDeliveryStatuses(status).includes(current)) {
+      return false;
+    }
+
+    const columns = await this.table.prepareWrite(data.header);
+    await this.table.updateCells(row.rowNumber, { deliveryStatus: status, deliveryUpdatedAt: occurredAt }, columns);
+    return true;
+  }
+
+  private async list(): Promise<OutboxEmail[]> {
+    const data = await this.read();
+    return data.rows
+      .filter(row => cellValue(row.values, data.columns, "id"))
+      .map(row => parseOutboxRow(row.values, data.columns));
+  }
+
+  private async read(): Promise<SheetData<OutboxSheetField>> {
+    try {
+      return await this.table.read();
+    } catch (error) {
+      if (error instanceof SheetHeaderError) {
+        logger.error('sheets_outbox.header_missing', { tab: this.table.tab, missing: error.missing });
+      }
+      throw error;
+    }
+  }
+}
+
+function findRow(data: SheetData<OutboxSheetField>, field: OutboxSheetField, value: string) {
+  return data.rows.find(row => cellValue(row.values, data.columns, field) === value);
+}
+
+/**
+ * Cells of a new outbox row
+ */
+function outboxCells(email: OutboxEmail): Partial<Record<OutboxSheetField, string | number>> {
+  return {
+    id: email.id,
+    transactionId: email.transactionId ?? "",
+    dedupeKey: sheetText(email.dedupeKey),
+    from: sheetText(email.from),
+    to: sheetText(email.to),
+    subject: sheetText(email.subject),
+    html: sheetText(email.html),
+    text: sheetText(email.text),
+    tags: email.tags ? JSON.stringify(email.tags) : "",
+    attachments: email.attachments ? JSON.stringify(email.attachments) : "",
+    status: email.status,
+    attempts: email.attempts,
+    lastError: sheetText(email.lastError),
+    nextAttemptAt: email.nextAttemptAt === null ? "" : formatTime(email.nextAttemptAt),
+    createdAt: email.createdAt,
+  };
+}
+
+function parseOutboxRow(row: SheetRow, columns: SheetColumns<OutboxSheetField>): OutboxEmail {
+  const text = (field: OutboxSheetField) => cellValue(row, columns, field);
+  const optional = (field: OutboxSheetField) => text(field) || null;
+  const nextAttemptAt = Date.parse(text("nextAttemptAt"));
+
+  return {
+    id: text("id"),
+    transactionId: optional("transactionId"),
+    dedupeKey: optional("dedupeKey"),
+    from: text("from"),
+    to: text("to"),
+    subject: text("subject"),
+    html: text("html"),
+    text: text("text"),
+    tags: text("tags") ? JSON.parse(text("tags")) as string[] : undefined,
+    attachments: text("attachments") ? JSON.parse(text("attachments")) as EmailAttachment[] : undefined,
+    status: text("status") as OutboxStatus,
+    attempts: parseInt(text("attempts"), 10) || 0,
+    lastError: optional("lastError"),
+    nextAttemptAt: Number.isNaN(nextAttemptAt) ? null : nextAttemptAt,
+    provider: optional("provider"),
+    providerMessageId: optional("providerMessageId"),
+    createdAt: text("createdAt"),
+    sentAt: optional("sentAt"),
+    deliveryStatus: optional("deliveryStatus") as DeliveryStatus | null,
+    deliveryUpdatedAt: optional("deliveryUpdatedAt"),
+  };
+}
+
+/**
+ * Epoch ms as an ISO timestamp, which Sheets keeps as text
+ */
+function formatTime(ms: number): string {
+  return new Date(ms).toISOString();
+}
+
+/**
+ * Free text for a cell, quoted when it would otherwise be read as a formula
+ */
+function sheetText(value: string | null): string {
+  if (value == null) {
+    return "";
+  }
+  return /^[=+@-]/.test(value) ? `'${value}` : value;
+}
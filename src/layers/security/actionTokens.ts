@@ -0,0 +1,184 @@
+/**
+ * Signed Action Tokens
+ *
+ * Owner accept/deny links, owner reschedule approve/decline links and customer
+ * cancel/reschedule/book-alternative links carry an HMAC-SHA256 signed token instead of the raw
+ * transaction ID. The token binds:
+ * - Transaction ID
+ * - Action (accept/deny/cancel/reschedule/approve_reschedule/decline_reschedule/book_alternative)
+ * - Issued-at and expiry timestamps
+ *
+ * Token format: v1.<keyId>.<base64url claims>.<base64url signature>
+ *
+ * Key rotation: links are always signed with ACTION_SIGNING_SECRET. After a
+ * rotation, move the old secret to ACTION_SIGNING_SECRET_PREVIOUS so links in
+ * emails that were already sent keep working. ACTION_SIGNING_PREVIOUS_UNTIL
+ * (ISO timestamp) optionally closes that grace window.
+ */
+
+import { hmacSign, hmacVerify, base64UrlEncode, base64UrlDecode } from "./signing";
+
+export interface ActionTokenEnv {
+  ACTION_SIGNING_SECRET: string;
+  ACTION_SIGNING_SECRET_PREVIOUS?: string;
+  ACTION_SIGNING_PREVIOUS_UNTIL?: string;
+  ACTION_TOKEN_TTL_HOURS?: string;
+}
+
+export type ActionTokenAction =
+  | 'accept'
+  | 'deny'
+  | 'cancel'
+  | 'reschedule'
+  | 'approve_reschedule'
+  | 'decline_reschedule'
+  | 'book_alternative';
+
+export interface ActionTokenClaims {
+  tid: string;              // Transaction ID
+  act: ActionTokenAction;   // Action the link performs
+  iat: number;              // Issued at (unix seconds)
+  exp: number;              // Expires at (unix seconds)
+}
+
+export type ActionTokenFailure = 'malformed' | 'tampered' | 'expired';
+
+export type ActionTokenVerification =
+  | { valid: true; claims: ActionTokenClaims }
+  | { valid: false; reason: ActionTokenFailure };
+
+const TOKEN_VERSION = 'v1';
+const DEFAULT_TTL_HOURS = 168; // 7 days
+
+/**
+ * Create a signed action token for a booking
+ *
+ * `expiresAt` (epoch ms) overrides ACTION_TOKEN_TTL_HOURS, e.g. so a customer
+ * cancel link stays valid until the pickup time.
+ */
+export async function createActionToken(
+  env: ActionTokenEnv,
+  transactionId: string,
+  action: ActionTokenAction,
+  now: number = Date.now(),
+  expiresAt?: number
+): Promise<string> {
+  if (!env.ACTION_SIGNING_SECRET) {
+    throw new Error("Missing ACTION_SIGNING_SECRET");
+  }
+
+  const issuedAt = Math.floor(now / 1000);
+  const claims: ActionTokenClaims = {
+    tid: transactionId,
+    act: action,
+    iat: issuedAt,
+    exp: expiresAt !== undefined
+      ? Math.floor(expiresAt / 1000)
+      : issuedAt + parseTtlHours(env.ACTION_TOKEN_TTL_HOURS) * 3600,
+  };
+
+  const keyId = await deriveKeyId(env.ACTION_SIGNING_SECRET);
+  const encodedClaims = base64UrlEncode(new TextEncoder().encode(JSON.stringify(claims)));
+  const signingInput = `${TOKEN_VERSION}.${keyId}.${encodedClaims}`;
+  const signature = await hmacSign(env.ACTION_SIGNING_SECRET, signingInput);
+
+  return `${signingInput}.${base64UrlEncode(signature)}`;
+}
+
+/**
+ * Verify a signed action token
+ *
+ * Returns the claims when the signature is valid, the action matches and the
+ * token has not expired. Otherwise returns the failure reason so the caller
+ * can render the matching error page.
+ */
+export async function verifyActionToken(
+  env: ActionTokenEnv,
+  token: string,
+  expectedAction: ActionTokenAction,
+  now: number = Date.now()
+): Promise<ActionTokenVerification> {
+  const parts = token.split('.');
+  if (parts.length !== 4 || parts[0] !== TOKEN_VERSION) {
+    return { valid: false, reason: 'malformed' };
+  }
+
+  const [version, keyId, encodedClaims, encodedSignature] = parts;
+
+  const signingKey = await resolveSigningKey(env, keyId, now);
+  if (signingKey === 'retired') {
+    return { valid: false, reason: 'expired' };
+  }
+  if (!signingKey) {
+    return { valid: false, reason: 'tampered' };
+  }
+
+  let signature: Uint8Array;
+  try {
+    signature = base64UrlDecode(encodedSignature);
+  } catch {
+    return { valid: false, reason: 'malformed' };
+  }
+
+  const signatureValid = await hmacVerify(signingKey, `${version}.${keyId}.${encodedClaims}`, signature);
+  if (!signatureValid) {
+    return { valid: false, reason: 'tampered' };
+  }
+
+  let claims: ActionTokenClaims;
+  try {
+    claims = JSON.parse(new TextDecoder().decode(base64UrlDecode(encodedClaims))) as ActionTokenClaims;
+  } catch {
+    return { valid: false, reason: 'malformed' };
+  }
+
+  if (typeof claims.tid !== 'string' || typeof claims.exp !== 'number' || claims.act !== expectedAction) {
+    return { valid: false, reason: 'tampered' };
+  }
+
+  if (Math.floor(now / 1000) > claims.exp) {
+    return { valid: false, reason: 'expired' };
+  }
+
+  return { valid: true, claims };
+}
+
+/**
+ * Find the secret matching a key ID
+ * Returns 'retired' when the previous key's grace window has closed
+ */
+async function resolveSigningKey(
+  env: ActionTokenEnv,
+  keyId: string,
+  now: number
+): Promise<string | 'retired' | null> {
+  if (env.ACTION_SIGNING_SECRET && keyId === await deriveKeyId(env.ACTION_SIGNING_SECRET)) {
+    return env.ACTION_SIGNING_SECRET;
+  }
+
+  if (env.ACTION_SIGNING_SECRET_PREVIOUS && keyId === await deriveKeyId(env.ACTION_SIGNING_SECRET_PREVIOUS)) {
+    const validUntil = env.ACTION_SIGNING_PREVIOUS_UNTIL ? Date.parse(env.ACTION_SIGNING_PREVIOUS_UNTIL) : NaN;
+    if (Number.isFinite(validUntil) && now > validUntil) {
+      return 'retired';
+    }
+    return env.ACTION_SIGNING_SECRET_PREVIOUS;
+  }
+
+  return null;
+}
+
+/**
+ * Derive a short, non-secret key identifier from a signing secret
+ */
+async function deriveKeyId(secret: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(secret));
+  return Array.from(new Uint8Array(digest).slice(0, 4))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+function parseTtlHours(value: string | undefined): number {
+  if (!value) return DEFAULT_TTL_HOURS;
+  const parsed = parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_TTL_HOURS;
+}
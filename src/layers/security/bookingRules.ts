@@ -0,0 +1,304 @@
+/**
+ * Booking Rules
+ *
+ * When a pickup can be booked, checked at submission and published read-only
+ * at GET /booking-rules so the website can check a time before submitting:
+ * - Minimum lead time (BOOKING_MIN_LEAD_HOURS, default 2)
+ * - Maximum advance window (BOOKING_MAX_ADVANCE_DAYS, default 365)
+ * - Operating hours per weekday (BOOKING_HOURS, default every day, all day)
+ * - Blackout dates and holidays (BOOKING_BLACKOUT_DATES, default none)
+ *
+ * Hours and dates are in the business timezone. A setting that cannot be
+ * parsed is logged and its default used, so a typo cannot stop bookings.
+ */
+
+import {
+  businessTimeZone,
+  formatZonedIso,
+  parseWallClock,
+  toWallClock,
+  type BusinessTimeEnv,
+  type WallClockTime,
+} from "../../time/businessTime";
+
+export interface BookingRulesEnv extends BusinessTimeEnv {
+  BOOKING_MIN_LEAD_HOURS?: string;     // e.g. "2"
+  BOOKING_MAX_ADVANCE_DAYS?: string;   // e.g. "365"
+  BOOKING_HOURS?: string;              // e.g. "mon-fri 06:00-22:00, sat 08:00-20:00, sun closed"
+  BOOKING_BLACKOUT_DATES?: string;     // e.g. "2025-12-25 Christmas Day, 2025-12-31..2026-01-01"
+}
+
+export const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"] as const;
+export type Weekday = typeof WEEKDAYS[number];
+
+/**
+ * Pickups allowed from `open` to `close` inclusive, in minutes after midnight
+ */
+export interface DailyHours {
+  open: number;
+  close: number;
+}
+
+/**
+ * Closed from `start` to `end` inclusive (YYYY-MM-DD in the business timezone)
+ */
+export interface BlackoutPeriod {
+  start: string;
+  end: string;
+  label: string | null;
+}
+
+export interface BookingRules {
+  timeZone: string;
+  minLeadHours: number;
+  maxAdvanceDays: number;
+  operatingHours: Record<Weekday, DailyHours | null>;   // null when closed all day
+  blackoutDates: BlackoutPeriod[];
+}
+
+/**
+ * Rules as published by GET /booking-rules
+ */
+export interface BookingRulesDescription {
+  timeZone: string;
+  minLeadHours: number;
+  maxAdvanceDays: number;
+  earliestPickup: string;
+  latestPickup: string;
+  operatingHours: Record<Weekday, { open: string; close: string } | null>;
+  blackoutDates: BlackoutPeriod[];
+}
+
+const DEFAULT_MIN_LEAD_HOURS = 2;
+const DEFAULT_MAX_ADVANCE_DAYS = 365;
+const ALL_DAY: DailyHours = { open: 0, close: 24 * 60 };
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const DAY_ABBREVIATIONS = WEEKDAYS.map(day => day.slice(0, 3));
+const TIME_PATTERN = /^(\d{1,2}):(\d{2})$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const logger = {
+  warn: (event: string, data?: Record<string, unknown>) =>
+    console.warn(JSON.stringify({ level: 'WARN', event, ...data, timestamp: new Date().toISOString() })),
+};
+
+/**
+ * Read the booking rules from the environment
+ */
+export function loadBookingRules(env: BookingRulesEnv): BookingRules {
+  return {
+    timeZone: businessTimeZone(env),
+    minLeadHours: parseNumberSetting("BOOKING_MIN_LEAD_HOURS", env.BOOKING_MIN_LEAD_HOURS, DEFAULT_MIN_LEAD_HOURS),
+    maxAdvanceDays: parseNumberSetting("BOOKING_MAX_ADVANCE_DAYS", env.BOOKING_MAX_ADVANCE_DAYS, DEFAULT_MAX_ADVANCE_DAYS),
+    operatingHours: parseOperatingHours(env.BOOKING_HOURS),
+    blackoutDates: parseBlackoutDates(env.BOOKING_BLACKOUT_DATES),
+  };
+}
+
+/**
+ * Check a pickup time against the rules
+ * Returns the customer-facing reason it cannot be booked, or null when it can.
+ */
+export function checkPickupRules(pickupTime: number, rules: BookingRules, now: number = Date.now()): string | null {
+  if (pickupTime <= now) {
+    return "Pickup time must be in the future";
+  }
+  if (pickupTime < now + rules.minLeadHours * HOUR_MS) {
+    return `Pickups must be booked at least ${formatCount(rules.minLeadHours, "hour")} in advance`;
+  }
+  if (pickupTime > now + rules.maxAdvanceDays * DAY_MS) {
+    return `Pickups can be booked at most ${formatCount(rules.maxAdvanceDays, "day")} in advance`;
+  }
+
+  const wallClock = toWallClock(pickupTime, rules.timeZone);
+  const date = formatDate(wallClock);
+
+  const blackout = rules.blackoutDates.find(period => period.start <= date && date <= period.end);
+  if (blackout) {
+    const closure = blackout.label ? ` for ${blackout.label}` : "";
+    return `We are closed on ${formatLongDate(wallClock)}${closure}`;
+  }
+
+  const weekday = WEEKDAYS[weekdayIndex(wallClock)];
+  const hours = rules.operatingHours[weekday];
+  const dayName = `${capitalize(weekday)}s`;
+  if (!hours) {
+    return `We do not offer pickups on ${dayName}`;
+  }
+
+  const minutes = wallClock.hour * 60 + wallClock.minute;
+  if (minutes < hours.open || minutes > hours.close) {
+    return `Pickups on ${dayName} are available between ${formatClockTime(hours.open)} and ${formatClockTime(hours.close)}`;
+  }
+
+  return null;
+}
+
+/**
+ * The rules with the bookable window as of `now`, for GET /booking-rules
+ */
+export function describeBookingRules(rules: BookingRules, now: number = Date.now()): BookingRulesDescription {
+  const operatingHours = {} as BookingRulesDescription["operatingHours"];
+  for (const weekday of WEEKDAYS) {
+    const hours = rules.operatingHours[weekday];
+    operatingHours[weekday] = hours ? { open: formatHhMm(hours.open), close: formatHhMm(hours.close) } : null;
+  }
+
+  return {
+    timeZone: rules.timeZone,
+    minLeadHours: rules.minLeadHours,
+    maxAdvanceDays: rules.maxAdvanceDays,
+    earliestPickup: formatZonedIso(now + rules.minLeadHours * HOUR_MS, rules.timeZone),
+    latestPickup: formatZonedIso(now + rules.maxAdvanceDays * DAY_MS, rules.timeZone),
+    operatingHours,
+    blackoutDates: rules.blackoutDates,
+  };
+}
+
+function parseNumberSetting(name: string, value: string | undefined, fallback: number): number {
+  if (value === undefined || !value.trim()) {
+    return fallback;
+  }
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    logger.warn('booking_rules.invalid_setting', { setting: name, value, fallback });
+    return fallback;
+  }
+  return parsed;
+}
+
+/**
+ * Parse "mon-fri 06:00-22:00, sat 08:00-20:00, sun closed"
+ * Days left out are closed. Unparseable settings leave every day open all day.
+ */
+function parseOperatingHours(value: string | undefined): Record<Weekday, DailyHours | null> {
+  const allDay = Object.fromEntries(WEEKDAYS.map(day => [day, ALL_DAY])) as Record<Weekday, DailyHours | null>;
+  if (!value?.trim()) {
+    return allDay;
+  }
+
+  const hours = Object.fromEntries(WEEKDAYS.map(day => [day, null])) as Record<Weekday, DailyHours | null>;
+  for (const entry of value.split(",").map(part => part.trim()).filter(Boolean)) {
+    const [dayPart, timePart, ...rest] = entry.toLowerCase().split(/\s+/);
+    const days = parseDayRange(dayPart);
+    const dailyHours = timePart === "closed" ? null : parseTimeRange(timePart);
+
+    if (!days || dailyHours === undefined || rest.length > 0) {
+      logger.warn('booking_rules.invalid_setting', { setting: "BOOKING_HOURS", value, entry });
+      return allDay;
+    }
+    for (const day of days) {
+      hours[day] = dailyHours;
+    }
+  }
+  return hours;
+}
+
+function parseDayRange(value: string | undefined): Weekday[] | null {
+  const [first, last = first] = (value ?? "").split("-");
+  const start = DAY_ABBREVIATIONS.indexOf(first.slice(0, 3));
+  const end = DAY_ABBREVIATIONS.indexOf(last.slice(0, 3));
+  if (start === -1 || end === -1) {
+    return null;
+  }
+
+  // Ranges may wrap past Saturday, e.g. "fri-mon"
+  const days: Weekday[] = [];
+  for (let day = start; ; day = (day + 1) % 7) {
+    days.push(WEEKDAYS[day]);
+    if (day === end) break;
+  }
+  return days;
+}
+
+/**
+ * "06:00-22:00" → minutes after midnight; undefined when invalid
+ */
+function parseTimeRange(value: string | undefined): DailyHours | undefined {
+  const [open, close] = (value ?? "").split("-").map(parseClockTime);
+  if (open === null || close === null || open === undefined || close === undefined || close <= open) {
+    return undefined;
+  }
+  return { open, close };
+}
+
+function parseClockTime(value: string): number | null {
+  const match = value.match(TIME_PATTERN);
+  if (!match) {
+    return null;
+  }
+  const minutes = Number(match[1]) * 60 + Number(match[2]);
+  return Number(match[2]) < 60 && minutes <= 24 * 60 ? minutes : null;
+}
+
+/**
+ * Parse "2025-12-25 Christmas Day, 2025-12-31..2026-01-01 New Year"
+ * Invalid entries are logged and skipped.
+ */
+function parseBlackoutDates(value: string | undefined): BlackoutPeriod[] {
+  if (!value?.trim()) {
+    return [];
+  }
+
+  const periods: BlackoutPeriod[] = [];
+  for (const entry of value.split(",").map(part => part.trim()).filter(Boolean)) {
+    const [range, ...labelWords] = entry.split(/\s+/);
+    const [start, end = start] = range.split("..");
+
+    if (!isCalendarDate(start) || !isCalendarDate(end) || end < start) {
+      logger.warn('booking_rules.invalid_blackout_date', { entry });
+      continue;
+    }
+    periods.push({ start, end, label: labelWords.join(" ") || null });
+  }
+  return periods.sort((a, b) => a.start.localeCompare(b.start));
+}
+
+function isCalendarDate(value: string): boolean {
+  return DATE_PATTERN.test(value) && parseWallClock(value) !== null;
+}
+
+function weekdayIndex(value: WallClockTime): number {
+  return new Date(Date.UTC(value.year, value.month - 1, value.day)).getUTCDay();
+}
+
+function formatDate(value: WallClockTime): string {
+  return `${value.year}-${pad(value.month)}-${pad(value.day)}`;
+}
+
+function formatLongDate(value: WallClockTime): string {
+  return new Date(Date.UTC(value.year, value.month - 1, value.day)).toLocaleDateString("en-US", {
+    month: "long",
+    day: "numeric",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+/**
+ * Minutes after midnight → "6:00 AM"; 24:00 is midnight at the end of the day
+ */
+function formatClockTime(minutes: number): string {
+  const hour = Math.floor(minutes / 60) % 24;
+  const suffix = hour >= 12 ? "PM" : "AM";
+  return `${hour % 12 || 12}:${pad(minutes % 60)} ${suffix}`;
+}
+
+function formatHhMm(minutes: number): string {
+  return `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+}
+
+function formatCount(value: number, unit: string): string {
+  return `${value} ${unit}${value === 1 ? "" : "s"}`;
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, "0");
+}
@@ -0,0 +1,93 @@
+/**
+ * CSRF Protection for Decision Forms
+ *
+ * Uses a signed double-submit cookie:
+ * - The review page sets a random nonce in an HttpOnly cookie named after its
+ *   action token, so review pages open side by side keep their own nonce
+ * - The form carries HMAC(secret, nonce + action token) in a hidden field
+ * - The POST handler recomputes the HMAC from the cookie and compares
+ *
+ * A forged cross-site form cannot read the cookie, and a leaked form token is
+ * useless without the matching cookie or for a different booking link.
+ */
+
+import { hmacSign, hmacVerify, base64UrlEncode, base64UrlDecode } from "./signing";
+
+export const CSRF_COOKIE_PREFIX = "__Host-ac_csrf_";
+export const CSRF_FIELD_NAME = "csrf_token";
+
+const CSRF_COOKIE_MAX_AGE_SECONDS = 60 * 60; // 1 hour to review and submit
+
+export interface CsrfIssue {
+  formToken: string;
+  setCookie: string;
+}
+
+/**
+ * Issue a CSRF token pair bound to an action token
+ */
+export async function issueCsrfToken(secret: string, actionToken: string): Promise<CsrfIssue> {
+  const nonce = base64UrlEncode(crypto.getRandomValues(new Uint8Array(16)));
+  const signature = await hmacSign(secret, csrfMessage(nonce, actionToken));
+
+  return {
+    formToken: base64UrlEncode(signature),
+    setCookie: `${await csrfCookieName(actionToken)}=${nonce}; Path=/; Max-Age=${CSRF_COOKIE_MAX_AGE_SECONDS}; HttpOnly; Secure; SameSite=Strict`,
+  };
+}
+
+/**
+ * Verify a submitted decision form against the CSRF cookie
+ */
+export async function verifyCsrfToken(
+  secret: string,
+  actionToken: string,
+  request: Request,
+  formToken: string | null
+): Promise<boolean> {
+  const nonce = readCookie(request.headers.get("Cookie"), await csrfCookieName(actionToken));
+  if (!nonce || !formToken) {
+    return false;
+  }
+
+  let signature: Uint8Array;
+  try {
+    signature = base64UrlDecode(formToken);
+  } catch {
+    return false;
+  }
+
+  return hmacVerify(secret, csrfMessage(nonce, actionToken), signature);
+}
+
+/**
+ * Reject cross-origin form posts when the browser reports an Origin header
+ */
+export function isSameOrigin(request: Request): boolean {
+  const origin = request.headers.get("Origin");
+  if (!origin) {
+    // Some browsers omit Origin on same-origin form posts; the CSRF token still applies
+    return true;
+  }
+  return origin === new URL(request.url).origin;
+}
+
+async function csrfCookieName(actionToken: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(actionToken));
+  return `${CSRF_COOKIE_PREFIX}${base64UrlEncode(new Uint8Array(digest)).slice(0, 16)}`;
+}
+
+function csrfMessage(nonce: string, actionToken: string): string {
+  return `csrf.${nonce}.${actionToken}`;
+}
+
+function readCookie(header: string | null, name: string): string | null {
+  if (!header) return null;
+  for (const part of header.split(";")) {
+    const [key, ...rest] = part.trim().split("=");
+    if (key === name) {
+      return rest.join("=");
+    }
+  }
+  return null;
+}
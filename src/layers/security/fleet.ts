@@ -0,0 +1,153 @@
+/**
+ * Vehicle Fleet
+ *
+ * The vehicles the owner can send on a ride, and how requests for more
+ * passengers than the largest vehicle seats are handled:
+ * - Catalog (VEHICLE_FLEET, default none), e.g.
+ *   "sedan: Lincoln Town Car (3 seats, 3 bags); sprinter: Mercedes Sprinter (14 seats, 12 bags)"
+ * - Over-capacity policy (VEHICLE_CAPACITY_POLICY): "reject" (default) turns
+ *   the request away at submission, "flag" lets it through with a warning for
+ *   the owner
+ *
+ * With no fleet configured passenger counts are not limited. A vehicle entry
+ * that cannot be parsed, or reuses an earlier id, is logged and left off the
+ * accept page and out of the largest-vehicle limit; an unknown policy falls
+ * back to "reject".
+ */
+
+export interface FleetEnv {
+  VEHICLE_FLEET?: string;            // "id: Name (N seats, N bags); ..."
+  VEHICLE_CAPACITY_POLICY?: string;  // "reject" (default) or "flag"
+}
+
+export interface Vehicle {
+  id: string;
+  name: string;
+  seats: number;     // Passengers, not counting the driver
+  luggage: number;   // Large bags
+}
+
+export type CapacityPolicy = "reject" | "flag";
+
+export interface Fleet {
+  vehicles: Vehicle[];   // Smallest first
+  capacityPolicy: CapacityPolicy;
+}
+
+/**
+ * Fleet as published by GET /booking-rules
+ */
+export interface FleetDescription {
+  maxPassengers: number | null;   // null when passenger counts are not limited
+  capacityPolicy: CapacityPolicy;
+  vehicles: Vehicle[];
+}
+
+const CAPACITY_POLICIES: readonly CapacityPolicy[] = ["reject", "flag"];
+const DEFAULT_CAPACITY_POLICY: CapacityPolicy = "reject";
+
+const VEHICLE_PATTERN = /^([a-z0-9][a-z0-9_-]*)\s*:\s*(.+?)\s*\(\s*(\d+)\s*seats?\s*,\s*(\d+)\s*bags?\s*\)$/i;
+
+const logger = {
+  warn: (event: string, data?: Record<string, unknown>) =>
+    console.warn(JSON.stringify({ level: 'WARN', event, ...data, timestamp: new Date().toISOString() })),
+};
+
+/**
+ * Read the fleet from the environment
+ */
+export function loadFleet(env: FleetEnv): Fleet {
+  return {
+    vehicles: parseVehicles(env.VEHICLE_FLEET),
+    capacityPolicy: parseCapacityPolicy(env.VEHICLE_CAPACITY_POLICY),
+  };
+}
+
+/**
+ * Most passengers a single vehicle can carry, or null without a fleet
+ */
+export function maxPassengers(fleet: Fleet): number | null {
+  return fleet.vehicles.length > 0 ? fleet.vehicles[fleet.vehicles.length - 1].seats : null;
+}
+
+/**
+ * Check a passenger count against the largest vehicle
+ * Returns the customer-facing reason it cannot be carried, or null when it can.
+ */
+export function checkPassengerCapacity(passengers: number, fleet: Fleet): string | null {
+  const limit = maxPassengers(fleet);
+  if (limit === null || passengers <= limit) {
+    return null;
+  }
+  return `Our largest vehicle seats ${limit} passenger${limit === 1 ? "" : "s"}. Please contact us about larger groups.`;
+}
+
+/**
+ * Vehicles with a seat for every passenger, smallest first
+ */
+export function vehiclesForPassengers(passengers: number, fleet: Fleet): Vehicle[] {
+  return fleet.vehicles.filter(vehicle => vehicle.seats >= passengers);
+}
+
+export function findVehicle(fleet: Fleet, id: string): Vehicle | null {
+  return fleet.vehicles.find(vehicle => vehicle.id === id) ?? null;
+}
+
+/**
+ * "14 seats · 12 bags"
+ */
+export function describeVehicleCapacity(vehicle: Vehicle): string {
+  return `${formatCount(vehicle.seats, "seat")} · ${formatCount(vehicle.luggage, "bag")}`;
+}
+
+export function describeFleet(fleet: Fleet): FleetDescription {
+  return {
+    maxPassengers: maxPassengers(fleet),
+    capacityPolicy: fleet.capacityPolicy,
+    vehicles: fleet.vehicles,
+  };
+}
+
+/**
+ * Parse "sedan: Lincoln Town Car (3 seats, 3 bags); van: Ford Transit (12 seats, 10 bags)"
+ * Invalid entries and repeated ids are logged and skipped.
+ */
+function parseVehicles(value: string | undefined): Vehicle[] {
+  if (!value?.trim()) {
+    return [];
+  }
+
+  const vehicles: Vehicle[] = [];
+  for (const entry of value.split(";").map(part => part.trim()).filter(Boolean)) {
+    const match = entry.match(VEHICLE_PATTERN);
+    const seats = match ? Number(match[3]) : 0;
+    if (!match || seats < 1) {
+      logger.warn('fleet.invalid_vehicle', { entry });
+      continue;
+    }
+
+    const id = match[1].toLowerCase();
+    if (vehicles.some(vehicle => vehicle.id === id)) {
+      logger.warn('fleet.duplicate_vehicle', { entry, id });
+      continue;
+    }
+    vehicles.push({ id, name: match[2], seats, luggage: Number(match[4]) });
+  }
+  return vehicles.sort((a, b) => a.seats - b.seats || a.luggage - b.luggage);
+}
+
+function parseCapacityPolicy(value: string | undefined): CapacityPolicy {
+  if (value === undefined || !value.trim()) {
+    return DEFAULT_CAPACITY_POLICY;
+  }
+  const policy = value.trim().toLowerCase();
+  if (!(CAPACITY_POLICIES as readonly string[]).includes(policy)) {
+    logger.warn('fleet.invalid_policy', { value, fallback: DEFAULT_CAPACITY_POLICY });
+    return DEFAULT_CAPACITY_POLICY;
+  }
+  return policy as CapacityPolicy;
+}
+
+function formatCount(value: number, unit: string): string {
+  return `${value} ${unit}${value === 1 ? "" : "s"}`;
+}
@@ -4,15 +4,45 @@
  * Provides:
  * - API key authentication (X-API-Key header)
  * - Native Cloudflare rate limiting
- * - Request payload validation
+ * - Request payload validation, including booking rules for the pickup time (see bookingRules.ts)
+ *   and the passenger count against the vehicle fleet (see fleet.ts)
+ * - Optional return leg for round trips, checked against the same booking rules
+ * - Optional intermediate stops, each with an optional wait time
+ * - Optional recurrence rule for a series of rides, every ride checked against the
+ *   booking rules (see recurrence.ts)
+ * - Service-area check of the pickup and drop-off, with optional coordinates (see serviceArea.ts)
+ * - Driver roster payload validation for the admin endpoints
+ * - Quote request validation for POST /quote
  * - Idempotency key support
+ * - Signed action tokens for owner links (see actionTokens.ts)
+ * - CSRF protection for decision forms (see csrf.ts)
+ * - Svix signature checks for provider webhooks (see webhookSignature.ts)
+ * - Secret-URL check for the owner's calendar feed
  */
 
-export interface SecurityEnv {
+import { formatZonedIso, parsePickupDateTime } from "../../time/businessTime";
+import { checkPickupRules, loadBookingRules, type BookingRules, type BookingRulesEnv } from "./bookingRules";
+import { checkPassengerCapacity, loadFleet, type Fleet, type FleetEnv } from "./fleet";
+import { expandRecurrence, formatRecurrenceRule, parseRecurrenceRule } from "./recurrence";
+import {
+  checkServiceArea,
+  classifyTrip,
+  isValidCoordinates,
+  loadServiceArea,
+  type Coordinates,
+  type ServiceArea,
+  type ServiceAreaEnv,
+} from "./serviceArea";
+
+export interface SecurityEnv extends BookingRulesEnv, FleetEnv, ServiceAreaEnv {
   API_KEY: string;
   BOOKING_RATE_LIMIT: RateLimiter;
 }
 
+export interface CalendarFeedEnv {
+  CALENDAR_FEED_SECRET?: string;  // Path secret in /calendar/{secret}.ics; the feed is off when unset
+}
+
 export interface RateLimiter {
   limit(options: { key: string }): Promise<{ success: boolean }>;
 }
@@ -32,6 +62,56 @@ export interface BookingPayload {
   customer_phone?: string;
   notes?: string;
   idempotency_key?: string;
+
+  // Optional return leg: a round trip when return_pickup_datetime is set.
+  // The route defaults to the outbound one reversed, the estimates to the outbound ones.
+  return_pickup_datetime?: string;
+  return_start_location?: string;
+  return_end_location?: string;
+  return_estimated_distance?: string;
+  return_estimated_duration?: string;
+
+  // Optional stops between start_location and end_location, in the order they are visited
+  stops?: StopPayload[];
+
+  // Optional RRULE subset making the booking the first ride of a series,
+  // e.g. "FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR;UNTIL=20250630" (normalized to canonical form)
+  recurrence?: string;
+
+  // Optional coordinates of the pickup and drop-off, e.g. from an address autocomplete,
+  // checked against polygon service zones
+  start_coordinates?: Coordinates;
+  end_coordinates?: Coordinates;
+}
+
+/**
+ * An intermediate stop in a booking payload
+ */
+export interface StopPayload {
+  address: string;
+  wait_minutes?: number;   // How long the driver waits at the stop
+}
+
+/**
+ * Driver roster fields from POST /drivers and PATCH /drivers/:id
+ */
+export interface DriverPayload {
+  name?: string;
+  email?: string;
+  phone?: string | null;
+  active?: boolean;
+}
+
+/**
+ * Ride details from POST /quote (the booking fields a price depends on)
+ */
+export interface QuotePayload {
+  start_location: string;
+  end_location: string;
+  pickup_datetime: string;
+  passengers: number;
+  estimated_distance: string;
+  estimated_duration: string;
 }
 
 export interface SecurityResult {
@@ -45,6 +125,10 @@ interface ValidationError {
   message: string;
 }
 
+// Google Maps directions links take at most nine waypoints
+const MAX_STOPS = 9;
+const MAX_STOP_WAIT_MINUTES = 240;
+
 const logger = {
   info: (event: string, data?: Record<string, unknown>) =>
     console.log(JSON.stringify({ level: 'INFO', event, ...data, timestamp: new Date().toISOString() })),
@@ -73,16 +157,7 @@ export async function validateRequest(
   }
 
   // 2. API key validation
-  const apiKey = request.headers.get("X-API-Key");
-  if (!apiKey) {
-    logger.warn('security.missing_api_key', { requestId });
-    throw new Response("Unauthorized: Missing X-API-Key header", { status: 401 });
-  }
-
-  if (!timingSafeEqual(apiKey, env.API_KEY)) {
-    logger.warn('security.invalid_api_key', { requestId });
-    throw new Response("Unauthorized: Invalid API key", { status: 401 });
-  }
+  const apiKey = authenticateRequest(request, env, requestId);
 
   // 3. Rate limiting (using native Cloudflare rate limiter)
   const rateLimitKey = apiKey; // Rate limit by API key
@@ -114,7 +189,7 @@ export async function validateRequest(
     throw new Response("Bad Request: Invalid JSON payload", { status: 400 });
   }
 
-  const validationResult = validatePayload(rawPayload);
+  const validationResult = validatePayload(rawPayload, loadBookingRules(env), loadFleet(env), loadServiceArea(env), Date.now());
   if (!validationResult.valid) {
     logger.warn('security.validation_failed', {
       requestId,
@@ -136,7 +211,7 @@ export async function validateRequest(
   const payload = validationResult.payload;
 
   // 5. Generate or use provided idempotency key
-  const idempotencyKey = payload.idempotency_key || generateIdempotencyKey(payload);
+  const idempotencyKey = payload.idempotency_key || await generateIdempotencyKey(payload);
 
   logger.info('security.request_validated', {
     requestId,
@@ -152,9 +227,66 @@ export async function validateRequest(
 }
 
 /**
- * Validate the booking payload structure
+ * Check the X-API-Key header and return the key
+ * Used on its own by server-to-server endpoints that carry no booking payload
  */
-function validatePayload(raw: unknown): { valid: true; payload: BookingPayload } | { valid: false; errors: ValidationError[] } {
+export function authenticateRequest(
+  request: Request,
+  env: Pick<SecurityEnv, "API_KEY">,
+  requestId: string = generateRequestId()
+): string {
+  const apiKey = request.headers.get("X-API-Key");
+  if (!apiKey) {
+    logger.warn('security.missing_api_key', { requestId });
+    throw new Response("Unauthorized: Missing X-API-Key header", { status: 401 });
+  }
+
+  if (!timingSafeEqual(apiKey, env.API_KEY)) {
+    logger.warn('security.invalid_api_key', { requestId });
+    throw new Response("Unauthorized: Invalid API key", { status: 401 });
+  }
+
+  return apiKey;
+}
+
+/**
+ * Check the secret in a calendar feed URL
+ * Calendar apps cannot send headers, so the secret is part of the path.
+ * Unconfigured and wrong secrets both get 404 so the feed's existence is not revealed.
+ */
+export function authenticateCalendarFeed(
+  secret: string,
+  env: CalendarFeedEnv,
+  requestId: string = generateRequestId()
+): void {
+  if (!env.CALENDAR_FEED_SECRET) {
+    logger.warn('security.calendar_feed_not_configured', { requestId });
+    throw new Response("Not Found", { status: 404 });
+  }
+
+  if (!timingSafeEqual(secret, env.CALENDAR_FEED_SECRET)) {
+    logger.warn('security.invalid_calendar_feed_secret', { requestId });
+    throw new Response("Not Found", { status: 404 });
+  }
+}
+
+/**
+ * Validate the booking payload structure, the pickup time against the booking
+ * rules and the passenger count against the fleet (unless over-capacity
+ * requests are only flagged). The pickup time is normalized to ISO 8601 with
+ * its offset in the business timezone. A return leg is checked the same way and
+ * filled in with the reversed route and the outbound estimates when not given.
+ * Each later ride of a recurring booking must also pass the booking rules.
+ * A trip with both ends outside the service area is turned away unless
+ * out-of-zone requests are only flagged.
+ */
+function validatePayload(
+  raw: unknown,
+  rules: BookingRules,
+  fleet: Fleet,
+  serviceArea: ServiceArea,
+  now: number
+): { valid: true; payload: BookingPayload } | { valid: false; errors: ValidationError[] } {
   const errors: ValidationError[] = [];
 
   if (!raw || typeof raw !== "object") {
@@ -189,6 +321,11 @@ function validatePayload(raw: unknown): { valid: true; payload: BookingPayload }
     const passengersNum = typeof passengers === "string" ? parseInt(passengers, 10) : passengers;
     if (typeof passengersNum !== "number" || !Number.isFinite(passengersNum) || passengersNum < 1) {
       errors.push({ field: "passengers", message: "Passengers must be a positive number" });
+    } else if (fleet.capacityPolicy === "reject") {
+      const capacityViolation = checkPassengerCapacity(passengersNum, fleet);
+      if (capacityViolation) {
+        errors.push({ field: "passengers", message: capacityViolation });
+      }
     }
   }
 
@@ -200,12 +337,86 @@ function validatePayload(raw: unknown): { valid: true; payload: BookingPayload }
     }
   }
 
-  // Datetime validation
+  // Datetime validation (times without an offset are in the business timezone)
   const datetime = payload.pickup_datetime;
+  const pickupTime = typeof datetime === "string" && datetime.trim()
+    ? parsePickupDateTime(datetime, rules.timeZone)
+    : null;
   if (typeof datetime === "string" && datetime.trim()) {
-    const parsed = Date.parse(datetime);
-    if (!Number.isFinite(parsed)) {
+    if (pickupTime === null) {
       errors.push({ field: "pickup_datetime", message: "Invalid datetime format. Use ISO 8601 format." });
+    } else {
+      // Lead time, advance window, operating hours and blackout dates
+      const ruleViolation = checkPickupRules(pickupTime, rules, now);
+      if (ruleViolation) {
+        errors.push({ field: "pickup_datetime", message: ruleViolation });
+      }
+    }
+  }
+
+  // Return leg (round trips): same rules, and after the outbound pickup
+  const returnOptionalStrings: Array<keyof BookingPayload> = [
+    "return_start_location",
+    "return_end_location",
+    "return_estimated_distance",
+    "return_estimated_duration",
+  ];
+  const returnDatetime = payload.return_pickup_datetime;
+  const hasReturnLeg = returnDatetime !== undefined && returnDatetime !== null && returnDatetime !== "";
+  let returnPickupTime: number | null = null;
+  if (hasReturnLeg) {
+    returnPickupTime = typeof returnDatetime === "string" ? parsePickupDateTime(returnDatetime, rules.timeZone) : null;
+    if (returnPickupTime === null) {
+      errors.push({ field: "return_pickup_datetime", message: "Invalid datetime format. Use ISO 8601 format." });
+    } else if (pickupTime !== null && returnPickupTime <= pickupTime) {
+      errors.push({ field: "return_pickup_datetime", message: "Return pickup must be after the outbound pickup" });
+    } else {
+      const ruleViolation = checkPickupRules(returnPickupTime, rules, now);
+      if (ruleViolation) {
+        errors.push({ field: "return_pickup_datetime", message: ruleViolation });
+      }
+    }
+  }
+  for (const field of returnOptionalStrings) {
+    const value = payload[field];
+    if (value === undefined || value === null || value === "") {
+      continue;
+    }
+    if (!hasReturnLeg) {
+      errors.push({ field, message: "Only allowed with a return pickup date/time" });
+    } else if (typeof value !== "string" || !value.trim()) {
+      errors.push({ field, message: "Must be a non-empty string" });
+    }
+  }
+
+  // Intermediate stops
+  const stops = validateStops(payload.stops, errors);
+
+  // Recurring series: every ride after the first is checked against the same rules
+  const recurrence = validateRecurrence(payload.recurrence, pickupTime, hasReturnLeg, rules, now, errors);
+
+  // Service area: both ends of the trip (and of a return leg with its own route)
+  const startCoordinates = validateCoordinates(payload, "start_coordinates", errors);
+  const endCoordinates = validateCoordinates(payload, "end_coordinates", errors);
+  if (errors.length === 0) {
+    const startLocation = String(payload.start_location).trim();
+    const endLocation = String(payload.end_location).trim();
+    const outOfArea = checkServiceArea(classifyTrip(
+      { address: startLocation, coordinates: startCoordinates },
+      { address: endLocation, coordinates: endCoordinates },
+      serviceArea
+    ), serviceArea);
+    if (outOfArea) {
+      errors.push({ field: "start_location", message: outOfArea });
+    } else if (hasReturnLeg && (payload.return_start_location || payload.return_end_location)) {
+      const returnOutOfArea = checkServiceArea(classifyTrip(
+        { address: payload.return_start_location ? String(payload.return_start_location).trim() : endLocation },
+        { address: payload.return_end_location ? String(payload.return_end_location).trim() : startLocation },
+        serviceArea
+      ), serviceArea);
+      if (returnOutOfArea) {
+        errors.push({ field: "return_start_location", message: returnOutOfArea });
+      }
     }
   }
 
@@ -219,7 +430,7 @@ function validatePayload(raw: unknown): { valid: true; payload: BookingPayload }
     customer_email: String(payload.customer_email).trim().toLowerCase(),
     start_location: String(payload.start_location).trim(),
     end_location: String(payload.end_location).trim(),
-    pickup_datetime: String(payload.pickup_datetime).trim(),
+    pickup_datetime: formatZonedIso(pickupTime!, rules.timeZone),
     passengers: typeof payload.passengers === "number" ? payload.passengers : parseInt(String(payload.passengers), 10),
     estimated_distance: String(payload.estimated_distance).trim(),
     estimated_duration: String(payload.estimated_duration).trim(),
@@ -228,9 +439,277 @@ function validatePayload(raw: unknown): { valid: true; payload: BookingPayload }
     idempotency_key: payload.idempotency_key ? String(payload.idempotency_key).trim() : undefined,
   };
 
+  if (returnPickupTime !== null) {
+    const optional = (field: keyof BookingPayload) => payload[field] ? String(payload[field]).trim() : undefined;
+    normalizedPayload.return_pickup_datetime = formatZonedIso(returnPickupTime, rules.timeZone);
+    normalizedPayload.return_start_location = optional("return_start_location") ?? normalizedPayload.end_location;
+    normalizedPayload.return_end_location = optional("return_end_location") ?? normalizedPayload.start_location;
+    normalizedPayload.return_estimated_distance = optional("return_estimated_distance") ?? normalizedPayload.estimated_distance;
+    normalizedPayload.return_estimated_duration = optional("return_estimated_duration") ?? normalizedPayload.estimated_duration;
+  }
+
+  if (stops.length > 0) {
+    normalizedPayload.stops = stops;
+  }
+
+  if (recurrence) {
+    normalizedPayload.recurrence = recurrence;
+  }
+
+  if (startCoordinates) {
+    normalizedPayload.start_coordinates = startCoordinates;
+  }
+  if (endCoordinates) {
+    normalizedPayload.end_coordinates = endCoordinates;
+  }
+
   return { valid: true, payload: normalizedPayload };
 }
 
+/**
+ * Validate optional coordinates, adding an error when they are out of range
+ * Returns just the lat and lng; null when absent or invalid.
+ */
+function validateCoordinates(
+  payload: Record<string, unknown>,
+  field: "start_coordinates" | "end_coordinates",
+  errors: ValidationError[]
+): Coordinates | null {
+  const value = payload[field];
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (!isValidCoordinates(value)) {
+    errors.push({ field, message: "Coordinates must be an object with lat from -90 to 90 and lng from -180 to 180" });
+    return null;
+  }
+  return { lat: value.lat, lng: value.lng };
+}
+
+/**
+ * Validate the optional recurrence rule and the rides it gives
+ * Returns the rule in canonical form; null when absent or invalid.
+ */
+function validateRecurrence(
+  value: unknown,
+  pickupTime: number | null,
+  hasReturnLeg: boolean,
+  rules: BookingRules,
+  now: number,
+  errors: ValidationError[]
+): string | null {
+  if (value === undefined || value === null || value === "") {
+    return null;
+  }
+  if (typeof value !== "string") {
+    errors.push({ field: "recurrence", message: "Recurrence must be a rule such as FREQ=WEEKLY;BYDAY=MO,WE,FR;COUNT=12" });
+    return null;
+  }
+  if (hasReturnLeg) {
+    errors.push({ field: "recurrence", message: "A recurring booking cannot also be a round trip" });
+    return null;
+  }
+
+  const parsed = parseRecurrenceRule(value);
+  if (!parsed.ok) {
+    errors.push({ field: "recurrence", message: parsed.error });
+    return null;
+  }
+  if (pickupTime === null) {
+    return null;
+  }
+
+  const expansion = expandRecurrence(pickupTime, parsed.rule, rules.timeZone);
+  if (!expansion.ok) {
+    errors.push({ field: "recurrence", message: expansion.error });
+    return null;
+  }
+  // The first ride is the pickup itself, already checked
+  for (const ride of expansion.pickups.slice(1)) {
+    const ruleViolation = checkPickupRules(ride, rules, now);
+    if (ruleViolation) {
+      errors.push({ field: "recurrence", message: `Ride on ${formatZonedIso(ride, rules.timeZone).slice(0, 10)}: ${ruleViolation}` });
+      return null;
+    }
+  }
+  return formatRecurrenceRule(parsed.rule);
+}
+
+/**
+ * Validate the optional stops array, adding an error per bad field
+ * Returns the stops trimmed, with whole-minute waits; empty when absent or invalid.
+ */
+function validateStops(value: unknown, errors: ValidationError[]): StopPayload[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    errors.push({ field: "stops", message: "Stops must be a list" });
+    return [];
+  }
+  if (value.length > MAX_STOPS) {
+    errors.push({ field: "stops", message: `At most ${MAX_STOPS} stops are allowed` });
+    return [];
+  }
+
+  const stops: StopPayload[] = [];
+  value.forEach((stop: unknown, index) => {
+    const field = `stops[${index}]`;
+    if (!stop || typeof stop !== "object") {
+      errors.push({ field, message: "Each stop must be an object with an address" });
+      return;
+    }
+    const { address, wait_minutes: waitMinutes } = stop as Record<string, unknown>;
+    if (typeof address !== "string" || !address.trim()) {
+      errors.push({ field: `${field}.address`, message: "Stop address is required" });
+    }
+
+    let wait: number | undefined;
+    if (waitMinutes !== undefined && waitMinutes !== null && waitMinutes !== "") {
+      wait = typeof waitMinutes === "string" ? Number(waitMinutes) : waitMinutes as number;
+      if (typeof wait !== "number" || !Number.isInteger(wait) || wait < 0 || wait > MAX_STOP_WAIT_MINUTES) {
+        errors.push({
+          field: `${field}.wait_minutes`,
+          message: `Wait time must be a whole number of minutes from 0 to ${MAX_STOP_WAIT_MINUTES}`,
+        });
+      }
+    }
+
+    if (typeof address === "string" && address.trim()) {
+      stops.push(wait === undefined ? { address: address.trim() } : { address: address.trim(), wait_minutes: wait });
+    }
+  });
+  return stops;
+}
+
+const MAX_DRIVER_NAME_LENGTH = 100;
+const MAX_DRIVER_PHONE_LENGTH = 30;
+
+/**
+ * Validate a driver roster payload
+ * A new driver needs a name and email; an update may send any of the fields.
+ * An empty phone clears it. Unknown fields are ignored.
+ */
+export function validateDriverPayload(
+  raw: unknown,
+  mode: "create" | "update"
+): { valid: true; driver: DriverPayload } | { valid: false; errors: ValidationError[] } {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return { valid: false, errors: [{ field: "body", message: "Request body must be a JSON object" }] };
+  }
+
+  const payload = raw as Record<string, unknown>;
+  const errors: ValidationError[] = [];
+  const driver: DriverPayload = {};
+
+  if (payload.name !== undefined || mode === "create") {
+    const name = typeof payload.name === "string" ? payload.name.trim() : "";
+    if (!name) {
+      errors.push({ field: "name", message: "Driver name is required" });
+    } else if (name.length > MAX_DRIVER_NAME_LENGTH) {
+      errors.push({ field: "name", message: `Driver name must be at most ${MAX_DRIVER_NAME_LENGTH} characters` });
+    } else {
+      driver.name = name;
+    }
+  }
+
+  if (payload.email !== undefined || mode === "create") {
+    const email = typeof payload.email === "string" ? payload.email.trim().toLowerCase() : "";
+    if (!email) {
+      errors.push({ field: "email", message: "Driver email is required" });
+    } else if (!isValidEmail(email)) {
+      errors.push({ field: "email", message: "Invalid email format" });
+    } else {
+      driver.email = email;
+    }
+  }
+
+  if (payload.phone !== undefined) {
+    const phone = payload.phone === null ? "" : typeof payload.phone === "string" ? payload.phone.trim() : undefined;
+    if (phone === undefined || phone.length > MAX_DRIVER_PHONE_LENGTH) {
+      errors.push({ field: "phone", message: `Phone must be text of at most ${MAX_DRIVER_PHONE_LENGTH} characters` });
+    } else {
+      driver.phone = phone || null;
+    }
+  } else if (mode === "create") {
+    driver.phone = null;
+  }
+
+  if (payload.active !== undefined) {
+    if (typeof payload.active !== "boolean") {
+      errors.push({ field: "active", message: "Active must be true or false" });
+    } else {
+      driver.active = payload.active;
+    }
+  }
+
+  if (errors.length === 0 && Object.keys(driver).length === 0) {
+    errors.push({ field: "body", message: "Send at least one of name, email, phone or active" });
+  }
+
+  return errors.length > 0 ? { valid: false, errors } : { valid: true, driver };
+}
+
+/**
+ * Validate a quote request
+ * Booking rules and fleet capacity are not checked; the booking itself is.
+ * The pickup time is normalized like a booking's.
+ */
+export function validateQuotePayload(
+  raw: unknown,
+  timeZone: string
+): { valid: true; quote: QuotePayload } | { valid: false; errors: ValidationError[] } {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return { valid: false, errors: [{ field: "body", message: "Request body must be a JSON object" }] };
+  }
+
+  const payload = raw as Record<string, unknown>;
+  const errors: ValidationError[] = [];
+
+  const requiredStrings: Array<{ field: Exclude<keyof QuotePayload, "passengers">; label: string }> = [
+    { field: "start_location", label: "Start location" },
+    { field: "end_location", label: "End location" },
+    { field: "pickup_datetime", label: "Pickup date/time" },
+    { field: "estimated_distance", label: "Estimated distance" },
+    { field: "estimated_duration", label: "Estimated duration" },
+  ];
+  for (const { field, label } of requiredStrings) {
+    const value = payload[field];
+    if (typeof value !== "string" || !value.trim()) {
+      errors.push({ field, message: `${label} is required` });
+    }
+  }
+
+  const passengers = typeof payload.passengers === "string" ? parseInt(payload.passengers, 10) : payload.passengers;
+  if (payload.passengers === undefined || payload.passengers === null || payload.passengers === "") {
+    errors.push({ field: "passengers", message: "Passengers count is required" });
+  } else if (typeof passengers !== "number" || !Number.isFinite(passengers) || passengers < 1) {
+    errors.push({ field: "passengers", message: "Passengers must be a positive number" });
+  }
+
+  const datetime = payload.pickup_datetime;
+  const pickupTime = typeof datetime === "string" && datetime.trim() ? parsePickupDateTime(datetime, timeZone) : null;
+  if (typeof datetime === "string" && datetime.trim() && pickupTime === null) {
+    errors.push({ field: "pickup_datetime", message: "Invalid datetime format. Use ISO 8601 format." });
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return {
+    valid: true,
+    quote: {
+      start_location: String(payload.start_location).trim(),
+      end_location: String(payload.end_location).trim(),
+      pickup_datetime: formatZonedIso(pickupTime!, timeZone),
+      passengers: passengers as number,
+      estimated_distance: String(payload.estimated_distance).trim(),
+      estimated_duration: String(payload.estimated_duration).trim(),
+    },
+  };
+}
+
 /**
  * Simple email validation
  */
@@ -242,24 +721,38 @@ function isValidEmail(email: string): boolean {
  * Generate an idempotency key from the payload
  * This ensures the same booking doesn't get processed twice
  */
-function generateIdempotencyKey(payload: BookingPayload): string {
-  // Create a deterministic key from the unique aspects of the booking
+async function generateIdempotencyKey(payload: BookingPayload): Promise<string> {
+  // Create a deterministic key from the unique aspects of the booking, so a
+  // resubmitted form maps to the same key and is deduplicated downstream
   const parts = [
-    payload.customer_email.toLowerCase(),
-    payload.start_location,
-    payload.end_location,
-    payload.pickup_datetime,
+    normalizeKeyPart(payload.customer_email),
+    normalizeKeyPart(payload.start_location),
+    normalizeKeyPart(payload.end_location),
+    normalizeKeyPart(payload.pickup_datetime),
     String(payload.passengers),
+    // Only multi-stop rides add their stops, so direct-ride keys are unchanged
+    ...(payload.stops ?? []).flatMap(stop => [normalizeKeyPart(stop.address), String(stop.wait_minutes ?? 0)]),
+    // Only recurring bookings add their rule, so single-ride keys are unchanged
+    ...(payload.recurrence ? [payload.recurrence] : []),
+    // Only round trips add the return leg, so one-way keys are unchanged
+    ...(payload.return_pickup_datetime
+      ? [
+          normalizeKeyPart(payload.return_pickup_datetime),
+          normalizeKeyPart(payload.return_start_location ?? ""),
+          normalizeKeyPart(payload.return_end_location ?? ""),
+        ]
+      : []),
   ].join("|");
 
-  // Simple hash - not cryptographic, just for uniqueness
-  let hash = 0;
-  for (let i = 0; i < parts.length; i++) {
-    const char = parts.charCodeAt(i);
-    hash = ((hash << 5) - hash) + char;
-    hash = hash & hash; // Convert to 32-bit integer
-  }
-  return `auto-${Math.abs(hash).toString(36)}-${Date.now().toString(36)}`;
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(parts));
+  const hex = Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, "0"))
+    .join("");
+  return `auto-${hex.slice(0, 32)}`;
+}
+
+function normalizeKeyPart(value: string): string {
+  return value.trim().toLowerCase().replace(/\s+/g, " ");
 }
 
 /**
@@ -289,3 +782,86 @@ function timingSafeEqual(a: string, b: string): boolean {
   // Only return true if lengths matched AND content matched
   return lengthsMatch && result === 0;
 }
+
+// Re-export signed action token helpers
+export {
+  createActionToken,
+  verifyActionToken,
+  type ActionTokenEnv,
+  type ActionTokenAction,
+  type ActionTokenClaims,
+  type ActionTokenFailure,
+} from "./actionTokens";
+
+// Re-export CSRF helpers for decision forms
+export {
+  issueCsrfToken,
+  verifyCsrfToken,
+  isSameOrigin,
+  CSRF_FIELD_NAME,
+} from "./csrf";
+
+// Re-export booking rules
+export {
+  loadBookingRules,
+  checkPickupRules,
+  describeBookingRules,
+  type BookingRules,
+  type BookingRulesDescription,
+  type BookingRulesEnv,
+} from "./bookingRules";
+
+// Re-export the vehicle fleet
+export {
+  loadFleet,
+  maxPassengers,
+  checkPassengerCapacity,
+  vehiclesForPassengers,
+  findVehicle,
+  describeVehicleCapacity,
+  describeFleet,
+  type Fleet,
+  type FleetDescription,
+  type FleetEnv,
+  type Vehicle,
+  type CapacityPolicy,
+} from "./fleet";
+
+// Re-export recurrence rules for recurring bookings
+export {
+  parseRecurrenceRule,
+  formatRecurrenceRule,
+  expandRecurrence,
+  describeRecurrence,
+  MAX_SERIES_RIDES,
+  type RecurrenceExpansion,
+  type RecurrenceFrequency,
+  type RecurrenceParseResult,
+  type RecurrenceRule,
+} from "./recurrence";
+
+// Re-export the service area
+export {
+  loadServiceArea,
+  classifyTrip,
+  checkServiceArea,
+  isValidCoordinates,
+  describeServiceArea,
+  type Coordinates,
+  type OutOfZonePolicy,
+  type ServiceArea,
+  type ServiceAreaDescription,
+  type ServiceAreaEnv,
+  type ServiceAreaLocation,
+  type ServiceAreaStatus,
+  type ServiceZone,
+  type ZoneKind,
+} from "./serviceArea";
+
+// Re-export webhook signature verification
+export {
+  verifyWebhookSignature,
+  type WebhookSignatureEnv,
+  type WebhookSignatureFailure,
+  type WebhookSignatureVerification,
+} from "./webhookSignature";
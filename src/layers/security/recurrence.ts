@@ -0,0 +1,205 @@
+/**
+ * Recurring Bookings
+ *
+ * Recurrence rules for a series of identical rides, e.g. a weekday commute.
+ * A subset of the iCalendar RRULE (RFC 5545) is accepted:
+ * - FREQ=DAILY or FREQ=WEEKLY, with an optional INTERVAL (every n days or weeks)
+ * - BYDAY=MO,TU,... for the days of the week (a weekly rule defaults to the
+ *   first pickup's day, a daily rule to every day)
+ * - UNTIL=YYYYMMDD (the last date, inclusive) or COUNT=n - exactly one of them
+ *
+ * The first pickup starts the series and must fall on one of its days. Every
+ * ride keeps the first pickup's wall-clock time in the business timezone, so a
+ * daylight-saving change does not move the commute by an hour.
+ */
+
+import { parseWallClock, toWallClock, zonedTimeToEpoch } from "../../time/businessTime";
+
+export type RecurrenceFrequency = "daily" | "weekly";
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;        // Every n days or weeks
+  byDay: number[];         // Days of the week (0 = Sunday), ascending; empty for the default
+  until: string | null;    // Last date (YYYY-MM-DD in the business timezone), inclusive
+  count: number | null;    // Number of rides
+}
+
+export type RecurrenceParseResult =
+  | { ok: true; rule: RecurrenceRule }
+  | { ok: false; error: string };
+
+export type RecurrenceExpansion =
+  | { ok: true; pickups: number[] }   // Epoch ms, the first pickup first
+  | { ok: false; error: string };
+
+// Every ride is a booking of its own, so a series is kept to about three months of weekdays
+export const MAX_SERIES_RIDES = 60;
+const MAX_INTERVAL = 52;
+
+const RRULE_DAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const DAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const WEEKDAY_INDEXES = [1, 2, 3, 4, 5];
+const UNTIL_PATTERN = /^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Parse an RRULE such as "FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR;UNTIL=20250630"
+ * A leading "RRULE:" is allowed; names and values are case-insensitive.
+ */
+export function parseRecurrenceRule(value: string): RecurrenceParseResult {
+  const parts = new Map<string, string>();
+  const body = value.trim().replace(/^RRULE:/i, "");
+  for (const part of body.split(";").map(part => part.trim()).filter(Boolean)) {
+    const [name, partValue, ...rest] = part.split("=");
+    const key = name.trim().toUpperCase();
+    if (!key || partValue === undefined || rest.length > 0 || parts.has(key)) {
+      return { ok: false, error: "Recurrence must be a rule such as FREQ=WEEKLY;BYDAY=MO,WE,FR;COUNT=12" };
+    }
+    parts.set(key, partValue.trim().toUpperCase());
+  }
+
+  for (const name of parts.keys()) {
+    if (!["FREQ", "INTERVAL", "BYDAY", "UNTIL", "COUNT"].includes(name)) {
+      return { ok: false, error: `${name} is not supported in a recurrence rule` };
+    }
+  }
+
+  const frequency = parts.get("FREQ");
+  if (frequency !== "DAILY" && frequency !== "WEEKLY") {
+    return { ok: false, error: "FREQ must be DAILY or WEEKLY" };
+  }
+
+  const interval = parts.has("INTERVAL") ? parseWholeNumber(parts.get("INTERVAL")!) : 1;
+  if (interval === null || interval < 1 || interval > MAX_INTERVAL) {
+    return { ok: false, error: `INTERVAL must be a whole number from 1 to ${MAX_INTERVAL}` };
+  }
+
+  const byDay: number[] = [];
+  if (parts.has("BYDAY")) {
+    for (const day of parts.get("BYDAY")!.split(",").map(day => day.trim())) {
+      const index = RRULE_DAYS.indexOf(day);
+      if (index === -1) {
+        return { ok: false, error: "BYDAY must list days such as MO,WE,FR" };
+      }
+      if (!byDay.includes(index)) {
+        byDay.push(index);
+      }
+    }
+    byDay.sort((a, b) => a - b);
+  }
+
+  if (parts.has("UNTIL") === parts.has("COUNT")) {
+    return { ok: false, error: "A recurrence rule needs either UNTIL or COUNT" };
+  }
+
+  let until: string | null = null;
+  if (parts.has("UNTIL")) {
+    const match = parts.get("UNTIL")!.match(UNTIL_PATTERN);
+    until = match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+    if (!until || !parseWallClock(until)) {
+      return { ok: false, error: "UNTIL must be a date such as 20250630" };
+    }
+  }
+
+  let count: number | null = null;
+  if (parts.has("COUNT")) {
+    count = parseWholeNumber(parts.get("COUNT")!);
+    if (count === null || count < 2 || count > MAX_SERIES_RIDES) {
+      return { ok: false, error: `COUNT must be a whole number from 2 to ${MAX_SERIES_RIDES}` };
+    }
+  }
+
+  return {
+    ok: true,
+    rule: { frequency: frequency === "DAILY" ? "daily" : "weekly", interval, byDay, until, count },
+  };
+}
+
+/**
+ * The rule in canonical RRULE form, as stored with each ride of the series
+ */
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  return [
+    `FREQ=${rule.frequency.toUpperCase()}`,
+    ...(rule.interval > 1 ? [`INTERVAL=${rule.interval}`] : []),
+    ...(rule.byDay.length > 0 ? [`BYDAY=${rule.byDay.map(day => RRULE_DAYS[day]).join(",")}`] : []),
+    rule.until ? `UNTIL=${rule.until.replace(/-/g, "")}` : `COUNT=${rule.count}`,
+  ].join(";");
+}
+
+/**
+ * The pickup times of every ride in the series, starting with `firstPickup`
+ * Fails when the first pickup is not on one of the rule's days, when the rule
+ * gives fewer than two rides, or more than MAX_SERIES_RIDES.
+ */
+export function expandRecurrence(firstPickup: number, rule: RecurrenceRule, timeZone: string): RecurrenceExpansion {
+  const start = toWallClock(firstPickup, timeZone);
+  const startDay = Math.floor(Date.UTC(start.year, start.month - 1, start.day) / DAY_MS);
+  const startWeekday = new Date(startDay * DAY_MS).getUTCDay();
+  const days = rule.byDay.length > 0 ? rule.byDay : rule.frequency === "weekly" ? [startWeekday] : [];
+
+  if (days.length > 0 && !days.includes(startWeekday)) {
+    return { ok: false, error: "The first pickup must fall on one of the days in the recurrence rule" };
+  }
+
+  // Weeks start on Monday, as in RRULE
+  const weekStart = startDay - (startWeekday + 6) % 7;
+  const pickups: number[] = [];
+  for (let day = startDay; ; day++) {
+    const date = new Date(day * DAY_MS);
+    if (rule.count !== null && pickups.length === rule.count) break;
+    if (rule.until !== null && date.toISOString().slice(0, 10) > rule.until) break;
+
+    const inInterval = rule.frequency === "weekly"
+      ? Math.floor((day - weekStart) / 7) % rule.interval === 0
+      : (day - startDay) % rule.interval === 0;
+    if (!inInterval || (days.length > 0 && !days.includes(date.getUTCDay()))) {
+      continue;
+    }
+
+    if (pickups.length === MAX_SERIES_RIDES) {
+      return { ok: false, error: `A series can have at most ${MAX_SERIES_RIDES} rides` };
+    }
+    pickups.push(zonedTimeToEpoch({
+      year: date.getUTCFullYear(),
+      month: date.getUTCMonth() + 1,
+      day: date.getUTCDate(),
+      hour: start.hour,
+      minute: start.minute,
+      second: start.second,
+    }, timeZone));
+  }
+
+  if (pickups.length < 2) {
+    return { ok: false, error: "A recurrence rule must give at least two rides" };
+  }
+  return { ok: true, pickups };
+}
+
+/**
+ * "Weekly on weekdays, until 06/30/2025", "Every 2 weeks on Mon, Thu, 10 rides"
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const weekly = rule.frequency === "weekly";
+  const every = rule.interval === 1
+    ? (weekly ? "Weekly" : "Daily")
+    : `Every ${rule.interval} ${weekly ? "weeks" : "days"}`;
+  const isWeekdays = rule.byDay.length === WEEKDAY_INDEXES.length
+    && WEEKDAY_INDEXES.every(day => rule.byDay.includes(day));
+  const days = isWeekdays
+    ? " on weekdays"
+    : rule.byDay.length > 0 ? ` on ${sortMondayFirst(rule.byDay).map(day => DAY_NAMES[day]).join(", ")}` : "";
+  const end = rule.until
+    ? `until ${rule.until.slice(5, 7)}/${rule.until.slice(8, 10)}/${rule.until.slice(0, 4)}`
+    : `${rule.count} rides`;
+  return `${every}${days}, ${end}`;
+}
+
+function parseWholeNumber(value: string): number | null {
+  return /^\d+$/.test(value) ? Number(value) : null;
+}
+
+function sortMondayFirst(days: number[]): number[] {
+  return [...days].sort((a, b) => (a + 6) % 7 - (b + 6) % 7);
+}
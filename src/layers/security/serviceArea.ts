@@ -0,0 +1,279 @@
+/**
+ * Service Area
+ *
+ * Where the owner picks up and drops off, and how requests from outside it
+ * are handled:
+ * - Zones (SERVICE_ZONES, default none), each a list of ZIP codes, cities or a
+ *   lat/lng polygon, e.g.
+ *   "shore: zip 08401 08402 082*; philly: city Philadelphia PA, Camden NJ; phl: polygon 39.86,-75.28 39.89,-75.28 39.89,-75.21 39.86,-75.21"
+ * - Out-of-zone policy (SERVICE_AREA_POLICY): "reject" (default) turns the
+ *   request away at submission, "flag" lets it through with a warning for the
+ *   owner
+ *
+ * A trip is in-zone when its pickup or its drop-off is in a zone (a ride from
+ * the shore to any airport is in-zone). A location is only out of the area when
+ * every kind of zone could be checked: its ZIP code and city are read with
+ * parseAddress, and polygons need the coordinates sent with the booking. A trip
+ * that is neither in nor out requires review by the owner and is never
+ * rejected.
+ *
+ * With no zones configured locations are not checked. A zone that cannot be
+ * parsed, or reuses an earlier zone's id, is logged and left out while the
+ * other zones still apply; an unknown policy falls back to "reject".
+ */
+
+import { parseAddress } from "../../templates/emails/utils";
+
+export interface ServiceAreaEnv {
+  SERVICE_ZONES?: string;        // "id: zip|city|polygon values; ..."
+  SERVICE_AREA_POLICY?: string;  // "reject" (default) or "flag"
+}
+
+export interface Coordinates {
+  lat: number;
+  lng: number;
+}
+
+export type ZoneKind = "zip" | "city" | "polygon";
+
+export interface ServiceZone {
+  id: string;
+  kind: ZoneKind;
+  zipCodes: string[];      // Five digits, or a prefix ending in "*" such as "082*"
+  cities: string[];        // "philadelphia pa", or "philadelphia" for any state
+  polygon: Coordinates[];  // At least three corners, in order around the edge
+}
+
+export type OutOfZonePolicy = "reject" | "flag";
+
+export interface ServiceArea {
+  zones: ServiceZone[];
+  outOfZonePolicy: OutOfZonePolicy;
+}
+
+/**
+ * Where a trip is relative to the service area
+ */
+export type ServiceAreaStatus = "in-zone" | "out-of-zone" | "requires-review";
+
+/**
+ * A pickup or drop-off, with its coordinates when the booking gave them
+ */
+export interface ServiceAreaLocation {
+  address: string;
+  coordinates?: Coordinates | null;
+}
+
+/**
+ * Service area as published by GET /booking-rules
+ */
+export interface ServiceAreaDescription {
+  enabled: boolean;
+  outOfZonePolicy: OutOfZonePolicy;
+  zones: Array<{ id: string; kind: ZoneKind; values: string[] }>;
+}
+
+type LocationMatch = "in" | "out" | "unknown";
+
+const OUT_OF_ZONE_POLICIES: readonly OutOfZonePolicy[] = ["reject", "flag"];
+const DEFAULT_OUT_OF_ZONE_POLICY: OutOfZonePolicy = "reject";
+
+const ZONE_PATTERN = /^([a-z0-9][a-z0-9_-]*)\s*:\s*(zip|city|polygon)\s+(.+)$/i;
+const ZIP_PATTERN = /^\d{5}$|^\d{1,4}\*$/;
+const CITY_PATTERN = /^(.+?)(?:\s+([A-Z]{2}))?$/;
+const POINT_PATTERN = /^(-?\d+(?:\.\d+)?),(-?\d+(?:\.\d+)?)$/;
+
+const logger = {
+  warn: (event: string, data?: Record<string, unknown>) =>
+    console.warn(JSON.stringify({ level: 'WARN', event, ...data, timestamp: new Date().toISOString() })),
+};
+
+/**
+ * Read the service area from the environment
+ */
+export function loadServiceArea(env: ServiceAreaEnv): ServiceArea {
+  return {
+    zones: parseZones(env.SERVICE_ZONES),
+    outOfZonePolicy: parseOutOfZonePolicy(env.SERVICE_AREA_POLICY),
+  };
+}
+
+/**
+ * Classify a trip by its pickup and drop-off
+ * Returns null when no zones are configured.
+ */
+export function classifyTrip(
+  pickup: ServiceAreaLocation,
+  dropOff: ServiceAreaLocation,
+  area: ServiceArea
+): ServiceAreaStatus | null {
+  if (area.zones.length === 0) {
+    return null;
+  }
+  const matches = [locateInServiceArea(pickup, area), locateInServiceArea(dropOff, area)];
+  if (matches.includes("in")) {
+    return "in-zone";
+  }
+  return matches.every(match => match === "out") ? "out-of-zone" : "requires-review";
+}
+
+/**
+ * Check a trip's classification against the out-of-zone policy
+ * Returns the customer-facing reason it is turned away, or null when it is not.
+ */
+export function checkServiceArea(status: ServiceAreaStatus | null, area: ServiceArea): string | null {
+  if (status !== "out-of-zone" || area.outOfZonePolicy !== "reject") {
+    return null;
+  }
+  return "Sorry, we don't serve this trip: the pickup and the drop-off are both outside our service area. Please contact us about rides further afield.";
+}
+
+export function isValidCoordinates(value: unknown): value is Coordinates {
+  if (!value || typeof value !== "object") {
+    return false;
+  }
+  const { lat, lng } = value as Record<string, unknown>;
+  return typeof lat === "number" && Number.isFinite(lat) && Math.abs(lat) <= 90
+    && typeof lng === "number" && Number.isFinite(lng) && Math.abs(lng) <= 180;
+}
+
+export function describeServiceArea(area: ServiceArea): ServiceAreaDescription {
+  return {
+    enabled: area.zones.length > 0,
+    outOfZonePolicy: area.outOfZonePolicy,
+    zones: area.zones.map(zone => ({
+      id: zone.id,
+      kind: zone.kind,
+      values: zone.kind === "zip"
+        ? zone.zipCodes
+        : zone.kind === "city"
+        ? zone.cities
+        : zone.polygon.map(point => `${point.lat},${point.lng}`),
+    })),
+  };
+}
+
+/**
+ * Whether a location is in a zone, out of every zone, or cannot be placed
+ * (a kind of zone it has nothing to check against)
+ */
+function locateInServiceArea(location: ServiceAreaLocation, area: ServiceArea): LocationMatch {
+  const address = parseAddress(location.address);
+  const zipCode = address.zipCode.slice(0, 5);
+  const city = normalizeCity(address.city);
+  const state = address.state.toLowerCase();
+  const coordinates = location.coordinates ?? null;
+
+  let checkedEveryZone = true;
+  for (const zone of area.zones) {
+    if (zone.kind === "zip") {
+      if (!zipCode) {
+        checkedEveryZone = false;
+      } else if (zone.zipCodes.some(zip => zip.endsWith("*") ? zipCode.startsWith(zip.slice(0, -1)) : zip === zipCode)) {
+        return "in";
+      }
+    } else if (zone.kind === "city") {
+      if (!city) {
+        checkedEveryZone = false;
+      } else if (zone.cities.some(zoneCity => zoneCity === city || zoneCity === `${city} ${state}`)) {
+        return "in";
+      }
+    } else if (!coordinates) {
+      checkedEveryZone = false;
+    } else if (isInsidePolygon(coordinates, zone.polygon)) {
+      return "in";
+    }
+  }
+  return checkedEveryZone ? "out" : "unknown";
+}
+
+/**
+ * Ray casting: a point is inside when a ray from it crosses the edge an odd
+ * number of times. Fine for zones the size of a county, away from the poles
+ * and the antimeridian.
+ */
+function isInsidePolygon(point: Coordinates, polygon: Coordinates[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.lat > point.lat) !== (b.lat > point.lat)
+      && point.lng < (b.lng - a.lng) * (point.lat - a.lat) / (b.lat - a.lat) + a.lng) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Parse "shore: zip 08401 08402 082*; philly: city Philadelphia PA, Camden NJ"
+ * Invalid zones and repeated ids are logged and skipped.
+ */
+function parseZones(value: string | undefined): ServiceZone[] {
+  if (!value?.trim()) {
+    return [];
+  }
+
+  const zones: ServiceZone[] = [];
+  for (const entry of value.split(";").map(part => part.trim()).filter(Boolean)) {
+    const zone = parseZone(entry);
+    if (!zone) {
+      logger.warn('service_area.invalid_zone', { entry });
+      continue;
+    }
+    if (zones.some(existing => existing.id === zone.id)) {
+      logger.warn('service_area.duplicate_zone', { entry, id: zone.id });
+      continue;
+    }
+    zones.push(zone);
+  }
+  return zones;
+}
+
+function parseZone(entry: string): ServiceZone | null {
+  const match = entry.match(ZONE_PATTERN);
+  if (!match) {
+    return null;
+  }
+  const zone: ServiceZone = { id: match[1].toLowerCase(), kind: match[2].toLowerCase() as ZoneKind, zipCodes: [], cities: [], polygon: [] };
+  const values = match[3].trim();
+
+  if (zone.kind === "zip") {
+    zone.zipCodes = values.split(/[\s,]+/).filter(Boolean);
+    return zone.zipCodes.every(zip => ZIP_PATTERN.test(zip)) ? zone : null;
+  }
+
+  if (zone.kind === "city") {
+    for (const city of values.split(",").map(part => part.trim()).filter(Boolean)) {
+      const cityMatch = city.match(CITY_PATTERN)!;
+      zone.cities.push(cityMatch[2] ? `${normalizeCity(cityMatch[1])} ${cityMatch[2].toLowerCase()}` : normalizeCity(cityMatch[1]));
+    }
+    return zone.cities.length > 0 ? zone : null;
+  }
+
+  for (const point of values.split(/\s+/)) {
+    const pointMatch = point.match(POINT_PATTERN);
+    const corner = pointMatch ? { lat: Number(pointMatch[1]), lng: Number(pointMatch[2]) } : null;
+    if (!isValidCoordinates(corner)) {
+      return null;
+    }
+    zone.polygon.push(corner);
+  }
+  return zone.polygon.length >= 3 ? zone : null;
+}
+
+function parseOutOfZonePolicy(value: string | undefined): OutOfZonePolicy {
+  if (value === undefined || !value.trim()) {
+    return DEFAULT_OUT_OF_ZONE_POLICY;
+  }
+  const policy = value.trim().toLowerCase();
+  if (!(OUT_OF_ZONE_POLICIES as readonly string[]).includes(policy)) {
+    logger.warn('service_area.invalid_policy', { value, fallback: DEFAULT_OUT_OF_ZONE_POLICY });
+    return DEFAULT_OUT_OF_ZONE_POLICY;
+  }
+  return policy as OutOfZonePolicy;
+}
+
+function normalizeCity(city: string): string {
+  return city.trim().toLowerCase().replace(/\s+/g, " ");
+}
@@ -0,0 +1,64 @@
+/**
+ * Signing Helpers
+ *
+ * Shared HMAC-SHA256 and base64 primitives for action tokens, CSRF tokens and
+ * webhook signatures. Secrets are UTF-8 strings or raw key bytes.
+ */
+
+type HmacSecret = string | Uint8Array;
+
+async function importHmacKey(secret: HmacSecret, usage: 'sign' | 'verify'): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    typeof secret === 'string' ? new TextEncoder().encode(secret) : secret,
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    [usage]
+  );
+}
+
+export async function hmacSign(secret: HmacSecret, message: string): Promise<Uint8Array> {
+  const key = await importHmacKey(secret, 'sign');
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(message));
+  return new Uint8Array(signature);
+}
+
+export async function hmacVerify(secret: HmacSecret, message: string, signature: Uint8Array): Promise<boolean> {
+  // crypto.subtle.verify performs a constant-time comparison
+  const key = await importHmacKey(secret, 'verify');
+  return crypto.subtle.verify('HMAC', key, signature, new TextEncoder().encode(message));
+}
+
+export function base64Encode(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 1) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+export function base64Decode(value: string): Uint8Array {
+  if (!/^[A-Za-z0-9+/]*={0,2}$/.test(value)) {
+    throw new Error('Invalid base64 value');
+  }
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i += 1) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+export function base64UrlEncode(bytes: Uint8Array): string {
+  return base64Encode(bytes)
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/g, '');
+}
+
+export function base64UrlDecode(value: string): Uint8Array {
+  if (!/^[A-Za-z0-9_-]*$/.test(value)) {
+    throw new Error('Invalid base64url value');
+  }
+  return base64Decode(value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '='));
+}
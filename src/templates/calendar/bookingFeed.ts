@@ -0,0 +1,122 @@
+/**
+ * Owner Calendar Feed
+ *
+ * The iCalendar feed of upcoming confirmed rides that the owner subscribes to
+ * from Google or Apple Calendar (served at /calendar/{secret}.ics).
+ *
+ * - METHOD:PUBLISH with one VEVENT per booking, regenerated on every request
+ * - Output depends only on the bookings, so an unchanged feed keeps its ETag
+ * - REFRESH-INTERVAL / X-PUBLISHED-TTL ask clients to poll every few minutes
+ *   (Google Calendar polls on its own schedule regardless)
+ */
+
+import { parseDurationMinutes } from "../emails/utils";
+import {
+  buildVTimezone,
+  escapeIcsText,
+  formatIcsLocalDateTime,
+  formatIcsUtcDateTime,
+  quoteIcsParam,
+  serializeIcs,
+} from "./ics";
+import { pickupWallClock, type WallClockTime } from "../../time/businessTime";
+
+export interface CalendarFeedBooking {
+  transactionId: string;
+  bookingRef: string;
+  status: string;
+  customerName: string;
+  customerEmail: string;
+  customerPhone: string | null;
+  startLocation: string;
+  endLocation: string;
+  pickupDatetime: string;     // Wall-clock time in the feed's timezone
+  estimatedDuration: string;
+  passengers: number;
+  notes: string | null;
+  mapUrl: string;
+  submittedAt: string;
+}
+
+export interface CalendarFeedOptions {
+  name: string;               // Calendar name shown by the client
+  timeZone: string;           // IANA timezone of the pickup times
+  refreshMinutes: number;
+}
+
+const PRODUCT_ID = "-//AC Shuttles//Booking Worker//EN";
+const UID_DOMAIN = "acshuttles.com";
+
+/**
+ * Stable UID for a booking in the owner's feed
+ * Differs from the customer invite UID so the two never merge in one calendar.
+ */
+export function bookingFeedUid(transactionId: string): string {
+  return `${transactionId}.owner@${UID_DOMAIN}`;
+}
+
+/**
+ * Generate the owner's calendar feed
+ * Bookings whose pickup time cannot be parsed are left out.
+ */
+export function generateBookingsCalendarFeed(bookings: CalendarFeedBooking[], options: CalendarFeedOptions): string {
+  const events = bookings
+    .map(booking => ({ booking, start: pickupWallClock(booking.pickupDatetime, options.timeZone) }))
+    .filter((event): event is { booking: CalendarFeedBooking; start: WallClockTime } => event.start !== null);
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeIcsText(options.name)}`,
+    `X-WR-TIMEZONE:${options.timeZone}`,
+    `REFRESH-INTERVAL;VALUE=DURATION:PT${options.refreshMinutes}M`,
+    `X-PUBLISHED-TTL:PT${options.refreshMinutes}M`,
+  ];
+
+  if (events.length > 0) {
+    const years = events.map(event => event.start.year);
+    lines.push(...buildVTimezone(options.timeZone, Math.min(...years), Math.max(...years)));
+  }
+
+  for (const { booking, start } of events) {
+    lines.push(...feedEvent(booking, start, options.timeZone));
+  }
+
+  lines.push("END:VCALENDAR");
+  return serializeIcs(lines);
+}
+
+function feedEvent(booking: CalendarFeedBooking, start: WallClockTime, timeZone: string): string[] {
+  const description = [
+    `Phone: ${booking.customerPhone || "Not provided"}`,
+    `Email: ${booking.customerEmail}`,
+    `Passengers: ${booking.passengers}`,
+    booking.notes ? `Notes: ${booking.notes}` : null,
+    `Booking Ref: ${booking.bookingRef}`,
+    `Status: ${booking.status}`,
+    booking.mapUrl ? `Map: ${booking.mapUrl}` : null,
+  ].filter((line): line is string => line !== null).join("\n");
+
+  // DTSTAMP must not change between requests, or every response gets a new ETag
+  const stamp = Date.parse(booking.submittedAt);
+
+  return [
+    "BEGIN:VEVENT",
+    `UID:${bookingFeedUid(booking.transactionId)}`,
+    `DTSTAMP:${formatIcsUtcDateTime(Number.isNaN(stamp) ? 0 : stamp)}`,
+    `DTSTART;TZID=${timeZone}:${formatIcsLocalDateTime(start)}`,
+    `DURATION:PT${parseDurationMinutes(booking.estimatedDuration)}M`,
+    `SUMMARY:${escapeIcsText(`${booking.customerName}: ${booking.startLocation} → ${booking.endLocation}`)}`,
+    booking.mapUrl
+      ? `LOCATION;ALTREP=${quoteIcsParam(booking.mapUrl)}:${escapeIcsText(booking.startLocation)}`
+      : `LOCATION:${escapeIcsText(booking.startLocation)}`,
+    ...(booking.mapUrl ? [`URL:${booking.mapUrl}`] : []),
+    `DESCRIPTION:${escapeIcsText(description)}`,
+    "STATUS:CONFIRMED",
+    "TRANSP:OPAQUE",
+    "END:VEVENT",
+  ];
+}
@@ -0,0 +1,130 @@
+/**
+ * Booking Calendar Invite
+ *
+ * The .ics file attached to customer confirmation and reminder emails, and
+ * the cancellation sent when a confirmed booking is cancelled.
+ *
+ * - One VEVENT from pickup to the estimated arrival, at the pickup location
+ * - UID derived from the transaction ID, so every file for a booking updates
+ *   the same calendar entry
+ * - METHOD:REQUEST adds or updates the entry, METHOD:CANCEL removes it;
+ *   calendars apply the one with the highest SEQUENCE
+ */
+
+import { parseDurationMinutes } from "../emails/utils";
+import {
+  buildVTimezone,
+  escapeIcsText,
+  formatIcsLocalDateTime,
+  formatIcsUtcDateTime,
+  quoteIcsParam,
+  serializeIcs,
+} from "./ics";
+import { pickupWallClock } from "../../time/businessTime";
+
+export type CalendarMethod = "REQUEST" | "CANCEL";
+
+export interface BookingCalendarData {
+  transactionId: string;
+  bookingRef: string;
+
+  // Trip
+  startLocation: string;
+  endLocation: string;
+  pickupDatetime: string;     // Wall-clock time in `timeZone`
+  estimatedDuration: string;  // e.g. "1 hour 45 minutes"
+  mapUrl?: string;
+
+  // People
+  customerName: string;
+  customerEmail: string;
+  organizerEmail: string;     // The address the email is sent from
+  driverName?: string;
+  driverPhone?: string;
+  driverEmail?: string;
+
+  method: CalendarMethod;
+  sequence: number;
+  timeZone: string;           // IANA timezone of the pickup time
+}
+
+const PRODUCT_ID = "-//AC Shuttles//Booking Worker//EN";
+const UID_DOMAIN = "acshuttles.com";
+
+// SEQUENCE counts seconds from here, so each later file for a booking wins
+const SEQUENCE_EPOCH_MS = Date.UTC(2025, 0, 1);
+
+/**
+ * Stable UID for a booking's calendar entry
+ */
+export function bookingCalendarUid(transactionId: string): string {
+  return `${transactionId}@${UID_DOMAIN}`;
+}
+
+/**
+ * SEQUENCE for a calendar file generated at `now`
+ * Bookings keep no revision counter, so the sequence is the time the file was
+ * made: a reschedule or cancellation always supersedes the earlier invite.
+ */
+export function calendarSequence(now: number = Date.now()): number {
+  return Math.max(0, Math.floor((now - SEQUENCE_EPOCH_MS) / 1000));
+}
+
+/**
+ * Generate the iCalendar file for a booking
+ * Throws when the pickup time cannot be parsed.
+ */
+export function generateBookingCalendarInvite(data: BookingCalendarData, now: number = Date.now()): string {
+  const start = pickupWallClock(data.pickupDatetime, data.timeZone);
+  if (!start) {
+    throw new Error(`Cannot build a calendar invite for pickup time "${data.pickupDatetime}"`);
+  }
+
+  const durationMinutes = parseDurationMinutes(data.estimatedDuration);
+  const cancelled = data.method === "CANCEL";
+
+  const description = [
+    `Booking Ref: ${data.bookingRef}`,
+    `Pickup: ${data.startLocation}`,
+    `Drop-off: ${data.endLocation}`,
+    data.driverName ? `Driver: ${data.driverName}` : null,
+    data.driverPhone ? `Driver Phone: ${data.driverPhone}` : null,
+    data.driverEmail ? `Driver Email: ${data.driverEmail}` : null,
+    data.mapUrl ? `Route: ${data.mapUrl}` : null,
+  ].filter((line): line is string => line !== null).join("\n");
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    `METHOD:${data.method}`,
+    ...buildVTimezone(data.timeZone, start.year),
+    "BEGIN:VEVENT",
+    `UID:${bookingCalendarUid(data.transactionId)}`,
+    `SEQUENCE:${data.sequence}`,
+    `DTSTAMP:${formatIcsUtcDateTime(now)}`,
+    `DTSTART;TZID=${data.timeZone}:${formatIcsLocalDateTime(start)}`,
+    `DURATION:PT${durationMinutes}M`,
+    `SUMMARY:${escapeIcsText(`AC Shuttles pickup to ${data.endLocation}`)}`,
+    `LOCATION:${escapeIcsText(data.startLocation)}`,
+    `DESCRIPTION:${escapeIcsText(description)}`,
+    `STATUS:${cancelled ? "CANCELLED" : "CONFIRMED"}`,
+    "TRANSP:OPAQUE",
+    `ORGANIZER;CN=AC Shuttles:mailto:${data.organizerEmail}`,
+    `ATTENDEE;CN=${quoteIcsParam(data.customerName)};ROLE=REQ-PARTICIPANT;PARTSTAT=ACCEPTED;RSVP=FALSE:mailto:${data.customerEmail}`,
+  ];
+
+  if (!cancelled) {
+    lines.push(
+      "BEGIN:VALARM",
+      "ACTION:DISPLAY",
+      `DESCRIPTION:${escapeIcsText("AC Shuttles pickup in 1 hour")}`,
+      "TRIGGER:-PT1H",
+      "END:VALARM"
+    );
+  }
+
+  lines.push("END:VEVENT", "END:VCALENDAR");
+  return serializeIcs(lines);
+}
@@ -0,0 +1,160 @@
+/**
+ * iCalendar (RFC 5545) Helpers
+ *
+ * Text escaping, line folding, date formatting and VTIMEZONE generation for
+ * the calendar files attached to customer emails.
+ *
+ * Pickups are written as local times in the business timezone with a TZID
+ * rather than converted to UTC. The VTIMEZONE is derived from the platform's
+ * IANA timezone data for the event's year, so any zone works without a lookup table.
+ */
+
+import { timeZoneOffsetMinutes, type WallClockTime } from "../../time/businessTime";
+
+const CRLF = "\r\n";
+const MAX_LINE_OCTETS = 75;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Escape a TEXT property value
+ */
+export function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Quote a parameter value; double quotes are not allowed inside one
+ */
+export function quoteIcsParam(value: string): string {
+  return `"${value.replace(/"/g, "'")}"`;
+}
+
+/**
+ * Fold a content line at 75 octets, continuing with a leading space
+ * Never splits a multi-byte character.
+ */
+export function foldIcsLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const octets = encoder.encode(char).length;
+    // Continuation lines lose one octet to the leading space
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = "";
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  parts.push(current);
+
+  return parts.join(`${CRLF} `);
+}
+
+/**
+ * Join content lines into a calendar file with CRLF line endings
+ */
+export function serializeIcs(lines: string[]): string {
+  return lines.map(foldIcsLine).join(CRLF) + CRLF;
+}
+
+/**
+ * Local DATE-TIME value, e.g. 20250220T143000
+ */
+export function formatIcsLocalDateTime(value: WallClockTime): string {
+  return `${pad(value.year, 4)}${pad(value.month)}${pad(value.day)}T${pad(value.hour)}${pad(value.minute)}${pad(value.second)}`;
+}
+
+/**
+ * UTC DATE-TIME value, e.g. 20250220T143000Z
+ */
+export function formatIcsUtcDateTime(epochMs: number): string {
+  return `${formatIcsLocalDateTime(utcParts(epochMs))}Z`;
+}
+
+/**
+ * VTIMEZONE component for `timeZone` covering `year` through `lastYear`
+ * One observance for the offset in force on 1 January of `year`, then one per
+ * daylight-saving change up to the end of `lastYear`.
+ */
+export function buildVTimezone(timeZone: string, year: number, lastYear: number = year): string[] {
+  const yearStart = Date.UTC(year, 0, 1);
+  const initialOffset = timeZoneOffsetMinutes(yearStart, timeZone);
+  const lines = ["BEGIN:VTIMEZONE", `TZID:${timeZone}`];
+
+  lines.push(...observance("STANDARD", "19700101T000000", initialOffset, initialOffset));
+
+  let previousOffset = initialOffset;
+  for (let dayStart = yearStart; dayStart < Date.UTC(lastYear + 1, 0, 1); dayStart += DAY_MS) {
+    const nextOffset = timeZoneOffsetMinutes(dayStart + DAY_MS, timeZone);
+    if (nextOffset === previousOffset) continue;
+
+    const changeAt = findOffsetChange(dayStart, dayStart + DAY_MS, previousOffset, timeZone);
+    // DTSTART is the local time just before the change, in the old offset
+    const onset = formatIcsLocalDateTime(utcParts(changeAt + previousOffset * MINUTE_MS));
+    lines.push(...observance(nextOffset > previousOffset ? "DAYLIGHT" : "STANDARD", onset, previousOffset, nextOffset));
+    previousOffset = nextOffset;
+  }
+
+  lines.push("END:VTIMEZONE");
+  return lines;
+}
+
+function observance(kind: "STANDARD" | "DAYLIGHT", start: string, offsetFrom: number, offsetTo: number): string[] {
+  return [
+    `BEGIN:${kind}`,
+    `DTSTART:${start}`,
+    `TZOFFSETFROM:${formatOffset(offsetFrom)}`,
+    `TZOFFSETTO:${formatOffset(offsetTo)}`,
+    `END:${kind}`,
+  ];
+}
+
+/**
+ * First minute in (from, to] whose offset differs from `offsetBefore`
+ */
+function findOffsetChange(from: number, to: number, offsetBefore: number, timeZone: string): number {
+  let low = from;
+  let high = to;
+  while (high - low > MINUTE_MS) {
+    const middle = low + Math.floor((high - low) / 2 / MINUTE_MS) * MINUTE_MS;
+    if (timeZoneOffsetMinutes(middle, timeZone) === offsetBefore) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+  return high;
+}
+
+function formatOffset(minutes: number): string {
+  const sign = minutes < 0 ? "-" : "+";
+  const absolute = Math.abs(minutes);
+  return `${sign}${pad(Math.floor(absolute / 60))}${pad(absolute % 60)}`;
+}
+
+function utcParts(epochMs: number): WallClockTime {
+  const date = new Date(epochMs);
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+    hour: date.getUTCHours(),
+    minute: date.getUTCMinutes(),
+    second: date.getUTCSeconds(),
+  };
+}
+
+function pad(value: number, length: number = 2): string {
+  return String(value).padStart(length, "0");
+}
@@ -0,0 +1,20 @@
+/**
+ * Calendar Templates Index
+ *
+ * iCalendar files attached to customer emails, and the owner's subscription feed.
+ */
+
+export {
+  generateBookingCalendarInvite,
+  bookingCalendarUid,
+  calendarSequence,
+  type BookingCalendarData,
+  type CalendarMethod,
+} from './bookingInvite';
+export {
+  generateBookingsCalendarFeed,
+  bookingFeedUid,
+  type CalendarFeedBooking,
+  type CalendarFeedOptions,
+} from './bookingFeed';
+export { escapeIcsText, foldIcsLine, buildVTimezone } from './ics';
@@ -0,0 +1,190 @@
+/**
+ * Customer Cancellation Email Template
+ *
+ * Sent to the customer when a confirmed booking is cancelled, carrying the
+ * calendar cancellation that removes the trip from their calendar.
+ *
+ * Visual Theme: Red (Booking Cancelled)
+ * - Clear visual indicator at top showing "BOOKING CANCELLED"
+ * - Summary of the cancelled trip
+ * - Contact details in case the cancellation was a mistake
+ * - Rides of a recurring series that are still booked
+ * - Dark mode support via CSS media queries
+ * - Anti-spam compliant structure
+ */
+
+import {
+  BRAND_COLORS,
+  getEmailHead,
+  getEmailResetStyles,
+  getEmailFooter,
+  getPreheader,
+  getEmailTypeIndicator,
+  getEmailLogoHeader,
+  escapeHtml,
+  getItinerarySection,
+  getItineraryText,
+  getSeriesSection,
+  getSeriesText,
+  getSeriesCancellationNote,
+  type ItineraryStopSummary,
+  type SeriesSummary
+} from './utils';
+
+export interface CustomerCancellationData {
+  // Customer details
+  customerName: string;
+  customerEmail: string;
+
+  // Trip details
+  startLocation: string;
+  endLocation: string;
+  stops?: ItineraryStopSummary[];   // Intermediate stops of a multi-stop ride, in order
+  pickupTime: string;
+  pickupDate: string;
+  bookingRef: string;
+
+  series?: SeriesSummary;   // Recurring series: the rides still booked after this cancellation
+
+  // Contact info
+  contactPhone: string;
+  contactEmail: string;
+}
+
+export function generateCustomerCancellationEmail(data: CustomerCancellationData): { html: string; text: string } {
+  const seriesNote = getSeriesCancellationNote(data.series);
+  const safeData = {
+    customerName: escapeHtml(data.customerName),
+    startLocation: escapeHtml(data.startLocation),
+    endLocation: escapeHtml(data.endLocation),
+    pickupTime: escapeHtml(data.pickupTime),
+    pickupDate: escapeHtml(data.pickupDate),
+    bookingRef: escapeHtml(data.bookingRef),
+    contactPhone: escapeHtml(data.contactPhone),
+    contactEmail: escapeHtml(data.contactEmail),
+  };
+
+  const html = `${getEmailHead('Booking Cancelled - AC Shuttles')}
+${getEmailResetStyles()}
+</head>
+<body style="margin: 0; padding: 0; background-color: ${BRAND_COLORS.gray100};">
+    ${getPreheader(`Your ${safeData.pickupDate} ride has been cancelled.`)}
+
+    <!-- Type Indicator -->
+    ${getEmailTypeIndicator('cancelled')}
+
+    <!-- Email Body -->
+    <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%" class="email-body-bg" style="background-color: ${BRAND_COLORS.gray100};">
+        <tr>
+            <td style="padding: 0 20px 40px;">
+                <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%" style="max-width: 600px; margin: 0 auto;" class="email-container">
+
+                    ${getEmailLogoHeader()}
+
+                    <!-- Main Card -->
+                    <tr>
+                        <td>
+                            <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%" class="email-card" style="background-color: ${BRAND_COLORS.white}; border-radius: 12px; overflow: hidden; box-shadow: 0 1px 3px rgba(0,0,0,0.08);">
+
+                                <!-- Header Content -->
+                                <tr>
+                                    <td class="padding-mobile" style="padding: 32px 32px 24px;">
+                                        <h1 class="text-dark" style="margin: 0 0 8px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 24px; font-weight: 700; color: ${BRAND_COLORS.gray900}; line-height: 1.3;">
+                                            Your Ride is Cancelled
+                                        </h1>
+                                        <p class="text-muted" style="margin: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 15px; color: ${BRAND_COLORS.gray600}; line-height: 1.5;">
+                                            Hi ${safeData.customerName}, the booking below has been cancelled and removed from your calendar.
+                                        </p>
+                                    </td>
+                                </tr>
+
+                                <!-- Trip Summary -->
+                                <tr>
+                                    <td class="padding-mobile" style="padding: 0 32px 24px;">
+                                        <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%" class="email-card-secondary border-light" style="background-color: ${BRAND_COLORS.gray50}; border-radius: 10px; border: 1px solid ${BRAND_COLORS.gray200};">
+                                            <tr>
+                                                <td style="padding: 18px 20px;">
+                                                    <p class="text-muted" style="margin: 0 0 12px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 11px; font-weight: 700; text-transform: uppercase; letter-spacing: 1px; color: ${BRAND_COLORS.gray500};">
+                                                        Cancelled Trip
+                                                    </p>
+                                                    <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%">
+                                                        <tr>
+                                                            <td class="text-muted" style="padding: 4px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 14px; color: ${BRAND_COLORS.gray600};">
+                                                                <strong class="text-dark" style="color: ${BRAND_COLORS.gray700};">From:</strong> ${safeData.startLocation}
+                                                            </td>
+                                                        </tr>
+                                                        <tr>
+                                                            <td class="text-muted" style="padding: 4px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 14px; color: ${BRAND_COLORS.gray600};">
+                                                                <strong class="text-dark" style="color: ${BRAND_COLORS.gray700};">To:</strong> ${safeData.endLocation}
+                                                            </td>
+                                                        </tr>
+                                                        <tr>
+                                                            <td class="text-muted" style="padding: 4px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 14px; color: ${BRAND_COLORS.gray600};">
+                                                                <strong class="text-dark" style="color: ${BRAND_COLORS.gray700};">Pickup:</strong> ${safeData.pickupTime} on ${safeData.pickupDate}
+                                                            </td>
+                                                        </tr>
+                                                        <tr>
+                                                            <td class="text-muted" style="padding: 4px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 14px; color: ${BRAND_COLORS.gray600};">
+                                                                <strong class="text-dark" style="color: ${BRAND_COLORS.gray700};">Booking Ref:</strong> ${safeData.bookingRef}
+                                                            </td>
+                                                        </tr>
+                                                    </table>
+                                                </td>
+                                            </tr>
+                                        </table>
+                                    </td>
+                                </tr>
+
+                                ${data.stops?.length ? getItinerarySection(data.startLocation, data.endLocation, data.stops) : ''}
+                                ${data.series ? getSeriesSection(data.series, 'Still Booked in This Series', seriesNote) : ''}
+
+                                <!-- Footer Message -->
+                                <tr>
+                                    <td class="padding-mobile email-card-secondary border-light" style="padding: 20px 32px; background-color: ${BRAND_COLORS.gray50}; border-top: 1px solid ${BRAND_COLORS.gray200};">
+                                        <p class="text-muted" style="margin: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 13px; color: ${BRAND_COLORS.gray500}; text-align: center; line-height: 1.5;">
+                                            Didn't mean to cancel? Call us at ${safeData.contactPhone}<br>
+                                            and we'll do our best to rebook you.
+                                        </p>
+                                    </td>
+                                </tr>
+
+                            </table>
+                        </td>
+                    </tr>
+
+                </table>
+            </td>
+        </tr>
+    </table>
+
+    ${getEmailFooter(safeData.contactPhone, safeData.contactEmail)}
+
+</body>
+</html>`;
+
+  const text = `AC SHUTTLES - BOOKING CANCELLED
+
+Your Ride is Cancelled
+
+Hi ${data.customerName}, the booking below has been cancelled and removed from your calendar.
+
+CANCELLED TRIP
+==============
+From: ${data.startLocation}
+To: ${data.endLocation}
+Pickup: ${data.pickupTime} on ${data.pickupDate}
+Booking Ref: ${data.bookingRef}
+
+${data.stops?.length ? getItineraryText(data.startLocation, data.endLocation, data.stops) : ''}${data.series ? getSeriesText(data.series, 'Still Booked in This Series', seriesNote) : ''}CONTACT US
+==========
+Phone: ${data.contactPhone}
+Email: ${data.contactEmail}
+
+Didn't mean to cancel? Call us and we'll do our best to rebook you.
+
+---
+AC Shuttles - Private Shuttle Service
+Serving NJ, Philadelphia & NYC Area`;
+
+  return { html, text };
+}
@@ -7,6 +7,10 @@
  * - Clear visual indicator at top showing "RIDE CONFIRMED"
  * - Ticket-style design with boarding pass aesthetic
  * - Location codes like airport tickets
+ * - Assigned vehicle (when the fleet is configured)
+ * - Itemized fare (when pricing is configured)
+ * - Return leg of a round trip, confirmed or declined
+ * - Upcoming rides of a recurring series, each with its own cancel link
  * - Dark mode support via CSS media queries
  * - Anti-spam compliant structure
  */
@@ -19,14 +23,29 @@ import {
   getPreheader,
   getEmailTypeIndicator,
   getEmailLogoHeader,
+  getManageBookingLinks,
+  getManageBookingText,
+  getQuoteSection,
+  getQuoteText,
+  getReturnTripSection,
+  getReturnTripText,
+  getItinerarySection,
+  getItineraryText,
+  getSeriesSection,
+  getSeriesText,
   generateLocationCode,
-  escapeHtml
+  escapeHtml,
+  type QuoteSummary,
+  type ReturnTripSummary,
+  type ItineraryStopSummary,
+  type SeriesSummary
 } from './utils';
 
 export interface CustomerConfirmationData {
   // Trip details
   startLocation: string;
   endLocation: string;
+  stops?: ItineraryStopSummary[];   // Intermediate stops of a multi-stop ride, in order
   pickupTime: string;
   pickupDate: string;
   passengers: string;
@@ -42,9 +61,25 @@ export interface CustomerConfirmationData {
   driverPhone: string;
   driverEmail: string;
 
+  // Vehicle assigned on acceptance, e.g. "Mercedes Sprinter" / "14 seats · 12 bags"
+  vehicleName?: string;
+  vehicleCapacity?: string;
+
+  // Quote stored with the booking at submission (both legs when the return is confirmed too)
+  quote?: QuoteSummary;
+
+  // Return leg of a round trip; declined when the owner accepted the outbound ride only
+  returnTrip?: ReturnTripSummary;
+  returnTripDeclined?: boolean;
+
+  // Every ride of a recurring series; dates the owner could not include are listed as skipped
+  series?: SeriesSummary;
+
   // Additional info
   notes?: string;
   bookingRef: string;
+  cancelUrl?: string;   // Signed self-service cancel link
+  rescheduleUrl?: string;   // Signed self-service reschedule link
 }
 
 export function generateCustomerConfirmationEmail(data: CustomerConfirmationData): { html: string; text: string } {
@@ -52,6 +87,16 @@ export function generateCustomerConfirmationEmail(data: CustomerConfirmationData
   const fromCode = generateLocationCode(data.startLocation);
   const toCode = generateLocationCode(data.endLocation);
 
+  const returnTrip = data.returnTrip
+    ? data.returnTripDeclined
+      ? { title: 'Return Trip - Not Available', note: "We can't offer this return ride. Reply to this email or call your driver to arrange another one." }
+      : { title: 'Return Trip - Confirmed', note: undefined }
+    : null;
+
+  const seriesNote = data.series?.skipped?.length
+    ? "Some dates couldn't be included in your series. Cancel any single ride with its own link."
+    : 'Cancel any single ride with its own link.';
+
   const safeData = {
     customerName: escapeHtml(data.customerName),
     startLocation: escapeHtml(data.startLocation),
@@ -63,6 +108,8 @@ export function generateCustomerConfirmationEmail(data: CustomerConfirmationData
     driverName: escapeHtml(data.driverName),
     driverPhone: escapeHtml(data.driverPhone),
     driverEmail: escapeHtml(data.driverEmail),
+    vehicleName: data.vehicleName ? escapeHtml(data.vehicleName) : '',
+    vehicleCapacity: data.vehicleCapacity ? escapeHtml(data.vehicleCapacity) : '',
     notes: data.notes ? escapeHtml(data.notes) : '',
     bookingRef: escapeHtml(data.bookingRef),
     mapUrl: data.mapUrl || '',
@@ -238,6 +285,36 @@ ${getEmailResetStyles()}
                                     </td>
                                 </tr>
 
+                                ${safeData.vehicleName ? `
+                                <!-- Vehicle Section -->
+                                <tr>
+                                    <td class="padding-mobile" style="padding: 0 32px 24px;">
+                                        <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%" class="email-card-secondary border-light" style="background-color: ${BRAND_COLORS.gray50}; border-radius: 10px; border: 1px solid ${BRAND_COLORS.gray200}; border-left: 4px solid ${BRAND_COLORS.primary};">
+                                            <tr>
+                                                <td style="padding: 18px 20px;">
+                                                    <p class="text-muted" style="margin: 0 0 12px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 11px; font-weight: 700; text-transform: uppercase; letter-spacing: 1px; color: ${BRAND_COLORS.gray500};">
+                                                        Your Vehicle
+                                                    </p>
+                                                    <p class="text-dark" style="margin: 0${safeData.vehicleCapacity ? ' 0 4px 0' : ''}; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 16px; font-weight: 600; color: ${BRAND_COLORS.gray900};">
+                                                        ${safeData.vehicleName}
+                                                    </p>
+                                                    ${safeData.vehicleCapacity ? `
+                                                    <p class="text-muted" style="margin: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 14px; color: ${BRAND_COLORS.gray600};">
+                                                        ${safeData.vehicleCapacity}
+                                                    </p>
+                                                    ` : ''}
+                                                </td>
+                                            </tr>
+                                        </table>
+                                    </td>
+                                </tr>
+                                ` : ''}
+                                ${data.stops?.length ? getItinerarySection(data.startLocation, data.endLocation, data.stops) : ''}
+
+                                ${data.returnTrip && returnTrip ? getReturnTripSection(data.returnTrip, returnTrip.title, returnTrip.note) : ''}
+                                ${data.series ? getSeriesSection(data.series, 'Your Recurring Rides', seriesNote) : ''}
+                                ${data.quote ? getQuoteSection(data.quote, data.series ? 'Your Fare (per ride)' : 'Your Fare') : ''}
+
                                 <!-- Pickup Tips -->
                                 <tr>
                                     <td class="padding-mobile" style="padding: 0 32px 24px;">
@@ -322,6 +399,7 @@ ${getEmailResetStyles()}
                             </p>
                         </td>
                     </tr>
+                    ${getManageBookingLinks({ cancelUrl: data.cancelUrl, rescheduleUrl: data.rescheduleUrl })}
 
                 </table>
             </td>
@@ -360,7 +438,11 @@ ${data.driverName}
 Phone: ${data.driverPhone}
 Email: ${data.driverEmail}
 
-PICKUP TIPS
+${data.vehicleName ? `YOUR VEHICLE
+============
+${data.vehicleName}${data.vehicleCapacity ? ` (${data.vehicleCapacity})` : ''}
+
+` : ''}${data.stops?.length ? getItineraryText(data.startLocation, data.endLocation, data.stops) : ''}${data.returnTrip && returnTrip ? getReturnTripText(data.returnTrip, returnTrip.title, returnTrip.note) : ''}${data.series ? getSeriesText(data.series, 'Your Recurring Rides', seriesNote) : ''}${data.quote ? getQuoteText(data.quote, data.series ? 'Your Fare (per ride)' : 'Your Fare') : ''}PICKUP TIPS
 ===========
 - Be ready 5-10 minutes before pickup
 - Driver will call when approaching
@@ -374,7 +456,7 @@ ${data.notes}
 
 ` : ''}We look forward to providing you with a comfortable ride!
 
-Questions? Call ${data.driverPhone} or reply to this email.
+${getManageBookingText({ cancelUrl: data.cancelUrl, rescheduleUrl: data.rescheduleUrl })}Questions? Call ${data.driverPhone} or reply to this email.
 
 ---
 AC Shuttles - Private Shuttle Service
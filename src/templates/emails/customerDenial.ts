@@ -7,6 +7,7 @@
  * - Clear visual indicator at top showing "UNABLE TO ACCOMMODATE"
  * - Empathetic, professional tone
  * - Clear explanation without being harsh
+ * - Optional suggested pickup time with a one-click rebooking link
  * - Alternative contact options
  * - Dark mode support via CSS media queries
  * - Anti-spam compliant structure
@@ -20,13 +21,17 @@ import {
   getPreheader,
   getEmailTypeIndicator,
   getEmailLogoHeader,
-  escapeHtml
+  getItinerarySection,
+  getItineraryText,
+  escapeHtml,
+  type ItineraryStopSummary
 } from './utils';
 
 export interface CustomerDenialData {
   // Trip details
   startLocation: string;
   endLocation: string;
+  stops?: ItineraryStopSummary[];   // Intermediate stops of a multi-stop ride, in order
   pickupTime: string;
   pickupDate: string;
   passengers: string;
@@ -42,6 +47,11 @@ export interface CustomerDenialData {
   // Additional info
   reason?: string;
   bookingRef: string;
+
+  // Pickup time suggested by the owner instead
+  alternativePickupDate?: string;
+  alternativePickupTime?: string;
+  alternativeBookingUrl?: string;  // One-click link to request the suggested time
 }
 
 export function generateCustomerDenialEmail(data: CustomerDenialData): { html: string; text: string } {
@@ -59,8 +69,47 @@ export function generateCustomerDenialEmail(data: CustomerDenialData): { html: s
     bookingRef: escapeHtml(data.bookingRef),
     contactPhone: escapeHtml(data.contactPhone),
     contactEmail: escapeHtml(data.contactEmail),
+    alternativePickupDate: escapeHtml(data.alternativePickupDate || ''),
+    alternativePickupTime: escapeHtml(data.alternativePickupTime || ''),
+    alternativeBookingUrl: escapeHtml(data.alternativeBookingUrl || ''),
   };
 
+  const hasAlternative = Boolean(data.alternativePickupDate && data.alternativePickupTime);
+
+  const alternativeHtml = hasAlternative ? `
+                                <!-- Suggested Alternative -->
+                                <tr>
+                                    <td class="padding-mobile" style="padding: 0 32px 24px;">
+                                        <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%" class="email-card-secondary" style="background-color: ${BRAND_COLORS.successLight}; border-radius: 10px; border: 1px solid ${BRAND_COLORS.primary};">
+                                            <tr>
+                                                <td style="padding: 20px; text-align: center;">
+                                                    <p class="text-muted" style="margin: 0 0 8px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 11px; font-weight: 700; color: ${BRAND_COLORS.primary}; text-transform: uppercase; letter-spacing: 1px;">
+                                                        We Can Do This Instead
+                                                    </p>
+                                                    <p class="text-dark" style="margin: 0 0 ${data.alternativeBookingUrl ? '16px' : '0'} 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 18px; font-weight: 700; color: ${BRAND_COLORS.gray900};">
+                                                        How about ${safeData.alternativePickupDate} at ${safeData.alternativePickupTime}?
+                                                    </p>${data.alternativeBookingUrl ? `
+                                                    <a href="${safeData.alternativeBookingUrl}" class="button-link button-mobile" style="display: inline-block; padding: 14px 28px; background-color: ${BRAND_COLORS.primary}; color: ${BRAND_COLORS.white}; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 15px; font-weight: 700; text-decoration: none; border-radius: 10px;">
+                                                        Book This Instead
+                                                    </a>` : ''}
+                                                </td>
+                                            </tr>
+                                        </table>
+                                    </td>
+                                </tr>
+` : '';
+
+  const alternativeText = hasAlternative ? `
+HOW ABOUT A DIFFERENT TIME?
+===========================
+We can do ${data.alternativePickupDate} at ${data.alternativePickupTime} instead.${data.alternativeBookingUrl ? `
+Book this instead: ${data.alternativeBookingUrl}` : ''}
+` : '';
+
+  const itineraryText = data.stops?.length ? `
+${getItineraryText(data.startLocation, data.endLocation, data.stops).trimEnd()}
+` : '';
+
   const html = `${getEmailHead('Booking Update - AC Shuttles')}
 ${getEmailResetStyles()}
 </head>
@@ -171,7 +220,8 @@ ${getEmailResetStyles()}
                                         </table>
                                     </td>
                                 </tr>
-
+                                ${data.stops?.length ? getItinerarySection(data.startLocation, data.endLocation, data.stops) : ''}
+${alternativeHtml}
                                 <!-- Alternative Options -->
                                 <tr>
                                     <td class="padding-mobile" style="padding: 0 32px 24px;">
@@ -283,7 +333,7 @@ To: ${data.endLocation}
 Date: ${data.pickupDate}
 Time: ${data.pickupTime}
 Passengers: ${data.passengers}
-
+${itineraryText}${alternativeText}
 WE MAY STILL BE ABLE TO HELP!
 =============================
 Give us a call to discuss alternatives:
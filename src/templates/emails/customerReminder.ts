@@ -20,14 +20,20 @@ import {
   getPreheader,
   getEmailTypeIndicator,
   getEmailLogoHeader,
+  getManageBookingLinks,
+  getManageBookingText,
   generateLocationCode,
-  escapeHtml
+  escapeHtml,
+  getItinerarySection,
+  getItineraryText,
+  type ItineraryStopSummary
 } from './utils';
 
 export interface CustomerReminderData {
   // Trip details
   startLocation: string;
   endLocation: string;
+  stops?: ItineraryStopSummary[];   // Intermediate stops of a multi-stop ride, in order
   pickupTime: string;
   pickupDate: string;
   passengers: string;
@@ -44,6 +50,8 @@ export interface CustomerReminderData {
 
   // Additional info
   bookingRef: string;
+  cancelUrl?: string;   // Signed self-service cancel link
+  rescheduleUrl?: string;   // Signed self-service reschedule link
 }
 
 export function generateCustomerReminderEmail(data: CustomerReminderData): { html: string; text: string } {
@@ -163,6 +171,8 @@ ${getEmailResetStyles()}
                                     </td>
                                 </tr>
 
+                                ${data.stops?.length ? getItinerarySection(data.startLocation, data.endLocation, data.stops) : ''}
+
                                 <!-- Driver Contact - Prominent -->
                                 <tr>
                                     <td class="padding-mobile" style="padding: 0 32px 24px;">
@@ -263,6 +273,7 @@ ${getEmailResetStyles()}
                             </p>
                         </td>
                     </tr>
+                    ${getManageBookingLinks({ cancelUrl: data.cancelUrl, rescheduleUrl: data.rescheduleUrl })}
 
                 </table>
             </td>
@@ -292,7 +303,7 @@ To: ${data.endLocation}
 
 Passengers: ${data.passengers}
 
-YOUR DRIVER
+${data.stops?.length ? getItineraryText(data.startLocation, data.endLocation, data.stops) : ''}YOUR DRIVER
 ===========
 ${data.driverName}
 Phone: ${data.driverPhone}
@@ -308,7 +319,7 @@ ${data.mapUrl ? `VIEW ROUTE: ${data.mapUrl}
 
 ` : ''}BOOKING REFERENCE: ${data.bookingRef}
 
-We look forward to seeing you!
+${getManageBookingText({ cancelUrl: data.cancelUrl, rescheduleUrl: data.rescheduleUrl })}We look forward to seeing you!
 
 ---
 AC Shuttles - Private Shuttle Service
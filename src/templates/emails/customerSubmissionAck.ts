@@ -7,6 +7,9 @@
  * Visual Theme: Blue (Request Received)
  * - Clear visual indicator at top showing "REQUEST RECEIVED"
  * - Clean, minimal design matching website aesthetic
+ * - Return leg of a round trip below the outbound trip summary
+ * - Every requested date of a recurring series
+ * - Estimated fare when pricing is configured (otherwise the driver follows up with a quote)
  * - Dark mode support via CSS media queries
  * - Anti-spam compliant structure
  */
@@ -19,7 +22,21 @@ import {
   getPreheader,
   getEmailTypeIndicator,
   getEmailLogoHeader,
-  escapeHtml
+  getManageBookingLinks,
+  getManageBookingText,
+  getQuoteSection,
+  getQuoteText,
+  getReturnTripSection,
+  getReturnTripText,
+  getItinerarySection,
+  getItineraryText,
+  getSeriesSection,
+  getSeriesText,
+  escapeHtml,
+  type QuoteSummary,
+  type ReturnTripSummary,
+  type ItineraryStopSummary,
+  type SeriesSummary
 } from './utils';
 
 export interface CustomerSubmissionAckData {
@@ -27,10 +44,15 @@ export interface CustomerSubmissionAckData {
   customerEmail: string;
   startLocation: string;
   endLocation: string;
+  stops?: ItineraryStopSummary[];   // Intermediate stops of a multi-stop ride, in order
   pickupTime: string;
   pickupDate: string;
   passengers?: string;
   bookingRef: string;
+  cancelUrl?: string;   // Signed self-service cancel link
+  quote?: QuoteSummary;   // Estimated fare computed at submission (both legs for a round trip)
+  returnTrip?: ReturnTripSummary;   // Set for a round trip
+  series?: SeriesSummary;   // Set for a recurring series: every requested ride
   contactPhone: string;
   contactEmail: string;
 }
@@ -48,6 +70,20 @@ export function generateCustomerSubmissionAckEmail(data: CustomerSubmissionAckDa
     contactEmail: escapeHtml(data.contactEmail),
   };
 
+  const copy = data.quote
+    ? {
+        intro: "We've received your trip request. Your estimated fare is below, and we'll be in touch shortly to confirm.",
+        quoteStep: 'Our driver will call or text you to confirm your fare',
+      }
+    : {
+        intro: "We've received your trip request and our driver will reach out to you shortly with a personalized quote.",
+        quoteStep: 'Our driver will call or text you with a trip quote',
+      };
+  const quoteNote = data.series
+    ? 'Estimate per ride, based on the trip details you provided. Your driver confirms the final fare.'
+    : 'Estimate based on the trip details you provided. Your driver confirms the final fare.';
+  const seriesNote = "We'll confirm the whole series at once and let you know if any date can't be included.";
+
   const html = `${getEmailHead('Request Received - AC Shuttles')}
 ${getEmailResetStyles()}
 </head>
@@ -77,7 +113,7 @@ ${getEmailResetStyles()}
                                             We're reviewing your request
                                         </h1>
                                         <p class="text-muted" style="margin: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 15px; color: ${BRAND_COLORS.gray600}; line-height: 1.5;">
-                                            Hi ${safeData.customerName}, thanks for choosing AC Shuttles! We've received your trip request and our driver will reach out to you shortly with a personalized quote.
+                                            Hi ${safeData.customerName}, thanks for choosing AC Shuttles! ${escapeHtml(copy.intro)}
                                         </p>
                                     </td>
                                 </tr>
@@ -173,6 +209,14 @@ ${getEmailResetStyles()}
                                     </td>
                                 </tr>
 
+                                ${data.stops?.length ? getItinerarySection(data.startLocation, data.endLocation, data.stops) : ''}
+
+                                ${data.returnTrip ? getReturnTripSection(data.returnTrip, 'Return Trip') : ''}
+
+                                ${data.series ? getSeriesSection(data.series, 'Requested Rides', seriesNote) : ''}
+
+                                ${data.quote ? getQuoteSection(data.quote, 'Estimated Fare', quoteNote) : ''}
+
                                 <!-- What's Next -->
                                 <tr>
                                     <td class="padding-mobile" style="padding: 0 32px 24px;">
@@ -187,7 +231,7 @@ ${getEmailResetStyles()}
                                             </tr>
                                             <tr>
                                                 <td class="text-muted" style="padding: 5px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 14px; color: ${BRAND_COLORS.gray600};">
-                                                    <span style="color: ${BRAND_COLORS.pending}; margin-right: 8px; font-weight: 600;">2.</span>Our driver will call or text you with a trip quote
+                                                    <span style="color: ${BRAND_COLORS.pending}; margin-right: 8px; font-weight: 600;">2.</span>${escapeHtml(copy.quoteStep)}
                                                 </td>
                                             </tr>
                                             <tr>
@@ -234,6 +278,7 @@ ${getEmailResetStyles()}
                             </p>
                         </td>
                     </tr>
+                    ${getManageBookingLinks({ cancelUrl: data.cancelUrl })}
 
                 </table>
             </td>
@@ -249,7 +294,7 @@ ${getEmailResetStyles()}
 
 We're reviewing your request
 
-Hi ${data.customerName}, thanks for choosing AC Shuttles! We've received your trip request and our driver will reach out to you shortly with a personalized quote.
+Hi ${data.customerName}, thanks for choosing AC Shuttles! ${copy.intro}
 
 TRIP SUMMARY
 ============
@@ -261,16 +306,16 @@ Date: ${data.pickupDate}
 Time: ${data.pickupTime}
 Passengers: ${data.passengers || '1'}
 
-WHAT HAPPENS NEXT?
+${data.stops?.length ? getItineraryText(data.startLocation, data.endLocation, data.stops) : ''}${data.returnTrip ? getReturnTripText(data.returnTrip, 'Return Trip') : ''}${data.series ? getSeriesText(data.series, 'Requested Rides', seriesNote) : ''}${data.quote ? getQuoteText(data.quote, 'Estimated Fare', quoteNote) : ''}WHAT HAPPENS NEXT?
 ==================
 1. We're reviewing your request now
-2. Our driver will call or text you with a trip quote
+2. ${copy.quoteStep}
 3. Once you approve, we'll confirm your booking
 4. You'll receive a confirmation email with all details
 
 REFERENCE NUMBER: ${data.bookingRef}
 
-Questions? Call ${data.contactPhone} or email ${data.contactEmail}
+${getManageBookingText({ cancelUrl: data.cancelUrl })}Questions? Call ${data.contactPhone} or email ${data.contactEmail}
 
 ---
 AC Shuttles - Private Shuttle Service
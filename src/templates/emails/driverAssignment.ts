@@ -0,0 +1,267 @@
+/**
+ * Driver Assignment Email Template
+ *
+ * Sent to a driver when the owner accepts a booking and assigns it to them.
+ *
+ * Visual Theme: Teal (New Job)
+ * - Clear visual indicator at top showing "NEW JOB"
+ * - Pickup time and route up front, with a button to open the route in Google Maps
+ * - Customer contact details so the driver can call on the day
+ * - Customer notes when the customer left any
+ * - Dark mode support via CSS media queries
+ * - Anti-spam compliant structure
+ */
+
+import {
+  BRAND_COLORS,
+  getEmailHead,
+  getEmailResetStyles,
+  getPreheader,
+  getEmailTypeIndicator,
+  getEmailLogoHeader,
+  escapeHtml,
+  getItinerarySection,
+  getItineraryText,
+  type ItineraryStopSummary
+} from './utils';
+
+export interface DriverAssignmentData {
+  driverName: string;
+
+  // Customer details
+  customerName: string;
+  customerPhone?: string | null;
+
+  // Trip details
+  startLocation: string;
+  endLocation: string;
+  stops?: ItineraryStopSummary[];   // Intermediate stops of a multi-stop ride, in order
+  pickupTime: string;
+  pickupDate: string;
+  passengers: string;
+  estimatedDuration: string;
+  estimatedDistance: string;
+  notes?: string | null;
+  mapUrl?: string;
+  vehicleName?: string | null;   // Fleet vehicle to take, when one was assigned
+
+  bookingRef: string;
+}
+
+export function generateDriverAssignmentEmail(data: DriverAssignmentData): { html: string; text: string } {
+  const safeData = {
+    driverName: escapeHtml(data.driverName),
+    customerName: escapeHtml(data.customerName),
+    customerPhone: data.customerPhone ? escapeHtml(data.customerPhone) : '',
+    startLocation: escapeHtml(data.startLocation),
+    endLocation: escapeHtml(data.endLocation),
+    pickupTime: escapeHtml(data.pickupTime),
+    pickupDate: escapeHtml(data.pickupDate),
+    passengers: escapeHtml(data.passengers),
+    estimatedDuration: escapeHtml(data.estimatedDuration),
+    estimatedDistance: escapeHtml(data.estimatedDistance),
+    notes: data.notes ? escapeHtml(data.notes) : '',
+    mapUrl: data.mapUrl ? escapeHtml(data.mapUrl) : '',
+    vehicleName: data.vehicleName ? escapeHtml(data.vehicleName) : '',
+    bookingRef: escapeHtml(data.bookingRef),
+  };
+
+  const html = `${getEmailHead('New Job - AC Shuttles')}
+${getEmailResetStyles()}
+</head>
+<body style="margin: 0; padding: 0; background-color: ${BRAND_COLORS.gray100};">
+    ${getPreheader(`Pickup at ${safeData.pickupTime} on ${safeData.pickupDate} for ${safeData.customerName}.`)}
+
+    <!-- Type Indicator -->
+    ${getEmailTypeIndicator('driver_assignment')}
+
+    <!-- Email Body -->
+    <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%" class="email-body-bg" style="background-color: ${BRAND_COLORS.gray100};">
+        <tr>
+            <td style="padding: 0 20px 40px;">
+                <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%" style="max-width: 600px; margin: 0 auto;" class="email-container">
+
+                    ${getEmailLogoHeader()}
+
+                    <!-- Main Card -->
+                    <tr>
+                        <td>
+                            <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%" class="email-card" style="background-color: ${BRAND_COLORS.white}; border-radius: 12px; overflow: hidden; box-shadow: 0 1px 3px rgba(0,0,0,0.08);">
+
+                                <!-- Header Content -->
+                                <tr>
+                                    <td class="padding-mobile" style="padding: 32px 32px 24px;">
+                                        <h1 class="text-dark" style="margin: 0 0 8px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 24px; font-weight: 700; color: ${BRAND_COLORS.gray900}; line-height: 1.3;">
+                                            Hi ${safeData.driverName}, you have a new job
+                                        </h1>
+                                        <p class="text-muted" style="margin: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 15px; color: ${BRAND_COLORS.gray600}; line-height: 1.5;">
+                                            Pickup at <strong class="text-dark" style="color: ${BRAND_COLORS.gray800};">${safeData.pickupTime}</strong> on <strong class="text-dark" style="color: ${BRAND_COLORS.gray800};">${safeData.pickupDate}</strong>.
+                                        </p>
+                                    </td>
+                                </tr>
+
+                                <!-- Trip Details -->
+                                <tr>
+                                    <td class="padding-mobile" style="padding: 0 32px 24px;">
+                                        <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%" class="email-card-secondary border-light" style="background-color: ${BRAND_COLORS.gray50}; border-radius: 10px; border-left: 4px solid ${BRAND_COLORS.primary};">
+                                            <tr>
+                                                <td style="padding: 18px 20px;">
+                                                    <p class="text-muted" style="margin: 0 0 12px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 11px; font-weight: 700; text-transform: uppercase; letter-spacing: 1px; color: ${BRAND_COLORS.gray500};">
+                                                        Trip
+                                                    </p>
+                                                    <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%">
+                                                        <tr>
+                                                            <td class="text-muted" style="padding: 4px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 14px; color: ${BRAND_COLORS.gray600};">
+                                                                <strong class="text-dark" style="color: ${BRAND_COLORS.gray700};">From:</strong> ${safeData.startLocation}
+                                                            </td>
+                                                        </tr>
+                                                        <tr>
+                                                            <td class="text-muted" style="padding: 4px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 14px; color: ${BRAND_COLORS.gray600};">
+                                                                <strong class="text-dark" style="color: ${BRAND_COLORS.gray700};">To:</strong> ${safeData.endLocation}
+                                                            </td>
+                                                        </tr>
+                                                        <tr>
+                                                            <td class="text-muted" style="padding: 4px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 14px; color: ${BRAND_COLORS.gray600};">
+                                                                <strong class="text-dark" style="color: ${BRAND_COLORS.gray700};">Passengers:</strong> ${safeData.passengers}
+                                                            </td>
+                                                        </tr>
+                                                        <tr>
+                                                            <td class="text-muted" style="padding: 4px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 14px; color: ${BRAND_COLORS.gray600};">
+                                                                <strong class="text-dark" style="color: ${BRAND_COLORS.gray700};">Estimated:</strong> ${safeData.estimatedDuration} &bull; ${safeData.estimatedDistance}
+                                                            </td>
+                                                        </tr>
+                                                        ${safeData.vehicleName ? `
+                                                        <tr>
+                                                            <td class="text-muted" style="padding: 4px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 14px; color: ${BRAND_COLORS.gray600};">
+                                                                <strong class="text-dark" style="color: ${BRAND_COLORS.gray700};">Vehicle:</strong> ${safeData.vehicleName}
+                                                            </td>
+                                                        </tr>
+                                                        ` : ''}
+                                                    </table>
+                                                </td>
+                                            </tr>
+                                        </table>
+                                    </td>
+                                </tr>
+
+                                ${safeData.mapUrl ? `
+                                ${data.stops?.length ? getItinerarySection(data.startLocation, data.endLocation, data.stops) : ''}
+
+                                <!-- View Route Button -->
+                                <tr>
+                                    <td class="padding-mobile" style="padding: 0 32px 24px;">
+                                        <a href="${safeData.mapUrl}" target="_blank" rel="noopener noreferrer" class="button-link button-mobile" style="display: block; padding: 14px 24px; background-color: ${BRAND_COLORS.primary}; color: ${BRAND_COLORS.white}; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 15px; font-weight: 700; text-decoration: none; border-radius: 8px; text-align: center;">
+                                            Open Route in Google Maps
+                                        </a>
+                                    </td>
+                                </tr>
+                                ` : ''}
+
+                                <!-- Customer Info -->
+                                <tr>
+                                    <td class="padding-mobile" style="padding: 0 32px 24px;">
+                                        <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%" class="email-card-secondary border-light" style="background-color: ${BRAND_COLORS.gray50}; border-radius: 10px; border: 1px solid ${BRAND_COLORS.gray200};">
+                                            <tr>
+                                                <td style="padding: 18px 20px;">
+                                                    <p class="text-muted" style="margin: 0 0 12px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 11px; font-weight: 700; text-transform: uppercase; letter-spacing: 1px; color: ${BRAND_COLORS.gray500};">
+                                                        Customer
+                                                    </p>
+                                                    <p class="text-dark" style="margin: 0 0 4px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 15px; font-weight: 600; color: ${BRAND_COLORS.gray800};">
+                                                        ${safeData.customerName}
+                                                    </p>
+                                                    ${safeData.customerPhone ? `
+                                                    <p class="text-muted" style="margin: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 14px; color: ${BRAND_COLORS.gray600};">
+                                                        <a href="tel:${safeData.customerPhone}" style="color: ${BRAND_COLORS.primary}; text-decoration: none;">${safeData.customerPhone}</a>
+                                                    </p>
+                                                    ` : ''}
+                                                </td>
+                                            </tr>
+                                        </table>
+                                    </td>
+                                </tr>
+
+                                ${safeData.notes ? `
+                                <!-- Customer Notes -->
+                                <tr>
+                                    <td class="padding-mobile" style="padding: 0 32px 24px;">
+                                        <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%" class="email-card-secondary border-light" style="background-color: ${BRAND_COLORS.warningLight}; border-radius: 10px; border-left: 4px solid ${BRAND_COLORS.warning};">
+                                            <tr>
+                                                <td style="padding: 18px 20px;">
+                                                    <p style="margin: 0 0 8px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 11px; font-weight: 700; text-transform: uppercase; letter-spacing: 1px; color: ${BRAND_COLORS.warningDark};">
+                                                        Customer Notes
+                                                    </p>
+                                                    <p class="text-dark" style="margin: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 15px; color: ${BRAND_COLORS.gray800}; line-height: 1.5;">
+                                                        ${safeData.notes}
+                                                    </p>
+                                                </td>
+                                            </tr>
+                                        </table>
+                                    </td>
+                                </tr>
+                                ` : ''}
+
+                                <!-- Footer Message -->
+                                <tr>
+                                    <td class="padding-mobile email-card-secondary border-light" style="padding: 20px 32px; background-color: ${BRAND_COLORS.gray50}; border-top: 1px solid ${BRAND_COLORS.gray200};">
+                                        <p class="text-muted" style="margin: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 13px; color: ${BRAND_COLORS.gray500}; text-align: center; line-height: 1.5;">
+                                            Booking Ref: <span style="font-family: 'SF Mono', 'Monaco', monospace; font-size: 12px;">${safeData.bookingRef}</span><br>
+                                            The customer has been sent your name and phone number.
+                                        </p>
+                                    </td>
+                                </tr>
+
+                            </table>
+                        </td>
+                    </tr>
+
+                </table>
+            </td>
+        </tr>
+    </table>
+
+    <!-- Simple Footer -->
+    <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%" style="max-width: 600px; margin: 0 auto;">
+        <tr>
+            <td style="padding: 20px; text-align: center; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;">
+                <p class="text-muted" style="margin: 0; font-size: 13px; color: ${BRAND_COLORS.gray400};">
+                    AC Shuttles Notification System
+                </p>
+            </td>
+        </tr>
+    </table>
+
+</body>
+</html>`;
+
+  const text = `AC SHUTTLES - NEW JOB
+
+Hi ${data.driverName}, you have a new job
+
+Pickup at ${data.pickupTime} on ${data.pickupDate}.
+
+TRIP
+====
+From: ${data.startLocation}
+To: ${data.endLocation}
+Passengers: ${data.passengers}
+Estimated: ${data.estimatedDuration} / ${data.estimatedDistance}
+${data.vehicleName ? `Vehicle: ${data.vehicleName}
+` : ''}${data.mapUrl ? `Route: ${data.mapUrl}
+` : ''}
+${data.stops?.length ? getItineraryText(data.startLocation, data.endLocation, data.stops) : ''}CUSTOMER
+========
+Name: ${data.customerName}
+${data.customerPhone ? `Phone: ${data.customerPhone}
+` : ''}${data.notes ? `
+CUSTOMER NOTES
+==============
+${data.notes}
+` : ''}
+---
+Booking Ref: ${data.bookingRef}
+The customer has been sent your name and phone number.
+
+AC Shuttles Notification System`;
+
+  return { html, text };
+}
@@ -5,12 +5,17 @@
  * All templates follow a consistent ticket card design with professional styling.
  */
 
-export { generateOwnerNotificationEmail, type OwnerNotificationData } from './ownerNotification';
+export { generateOwnerNotificationEmail, type OwnerNotificationData, type ScheduleConflict, type ServiceAreaWarning } from './ownerNotification';
 export { generateCustomerConfirmationEmail, type CustomerConfirmationData } from './customerConfirmation';
 export { generateCustomerDenialEmail, type CustomerDenialData } from './customerDenial';
 export { generateOwnerDeliveryNotificationEmail, type OwnerDeliveryNotificationData } from './ownerDeliveryNotification';
 export { generateCustomerSubmissionAckEmail, type CustomerSubmissionAckData } from './customerSubmissionAck';
 export { generateCustomerReminderEmail, type CustomerReminderData } from './customerReminder';
+export { generateOwnerCancellationEmail, type OwnerCancellationData } from './ownerCancellation';
+export { generateCustomerCancellationEmail, type CustomerCancellationData } from './customerCancellation';
+export { generateOwnerDeliveryFailureEmail, type OwnerDeliveryFailureData } from './ownerDeliveryFailure';
+export { generateOwnerBounceAlertEmail, type OwnerBounceAlertData } from './ownerBounceAlert';
+export { generateDriverAssignmentEmail, type DriverAssignmentData } from './driverAssignment';
 
 // Re-export utility functions
 export {
@@ -21,5 +26,10 @@ export {
   formatTicketTime,
   calculateArrivalTime,
   parseDurationMinutes,
-  formatHumanReadableTimestamp
+  formatHumanReadableTimestamp,
+  type QuoteSummary,
+  type ReturnTripSummary,
+  type ItineraryStopSummary,
+  type SeriesRideSummary,
+  type SeriesSummary
 } from './utils';
\ No newline at end of file
@@ -0,0 +1,235 @@
+/**
+ * Owner Bounce Alert Email Template
+ *
+ * Sent to the owner when a customer email hard-bounces, so they can phone the
+ * customer instead of assuming the confirmation arrived.
+ *
+ * Visual Theme: Red (Email Bounced)
+ * - Clear visual indicator at top showing "EMAIL BOUNCED"
+ * - Customer phone number as the call to action
+ * - Bounced email, trip details and the provider's bounce message
+ * - Dark mode support via CSS media queries
+ * - Anti-spam compliant structure
+ */
+
+import {
+  BRAND_COLORS,
+  getEmailHead,
+  getEmailResetStyles,
+  getPreheader,
+  getEmailTypeIndicator,
+  getEmailLogoHeader,
+  escapeHtml,
+  formatHumanReadableTimestamp
+} from './utils';
+
+export interface OwnerBounceAlertData {
+  // Customer
+  customerName: string;
+  customerEmail: string;
+  customerPhone: string | null;
+
+  // Bounced email
+  subject: string;
+  bounceMessage: string;
+  bouncedAt: string;
+
+  // Trip
+  pickupDate: string;
+  pickupTime: string;
+  bookingRef: string;
+  transactionId: string;
+
+  timeZone?: string;  // For bouncedAt (default: the business timezone)
+}
+
+export function generateOwnerBounceAlertEmail(data: OwnerBounceAlertData): { html: string; text: string } {
+  const formattedBouncedAt = formatHumanReadableTimestamp(data.bouncedAt, data.timeZone);
+
+  const safeData = {
+    customerName: escapeHtml(data.customerName),
+    customerEmail: escapeHtml(data.customerEmail),
+    customerPhone: data.customerPhone ? escapeHtml(data.customerPhone) : '',
+    subject: escapeHtml(data.subject),
+    bounceMessage: escapeHtml(data.bounceMessage),
+    bouncedAt: escapeHtml(formattedBouncedAt),
+    pickupDate: escapeHtml(data.pickupDate),
+    pickupTime: escapeHtml(data.pickupTime),
+    bookingRef: escapeHtml(data.bookingRef),
+    transactionId: escapeHtml(data.transactionId),
+  };
+
+  const html = `${getEmailHead('Email Bounced - AC Shuttles')}
+${getEmailResetStyles()}
+</head>
+<body style="margin: 0; padding: 0; background-color: ${BRAND_COLORS.gray100};">
+    ${getPreheader(`Our email to ${safeData.customerName} bounced. Please contact them directly.`)}
+
+    <!-- Type Indicator -->
+    ${getEmailTypeIndicator('email_bounced')}
+
+    <!-- Email Body -->
+    <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%" class="email-body-bg" style="background-color: ${BRAND_COLORS.gray100};">
+        <tr>
+            <td style="padding: 0 20px 40px;">
+                <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%" style="max-width: 600px; margin: 0 auto;" class="email-container">
+
+                    ${getEmailLogoHeader()}
+
+                    <!-- Main Card -->
+                    <tr>
+                        <td>
+                            <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%" class="email-card" style="background-color: ${BRAND_COLORS.white}; border-radius: 12px; overflow: hidden; box-shadow: 0 1px 3px rgba(0,0,0,0.08);">
+
+                                <!-- Header Content -->
+                                <tr>
+                                    <td class="padding-mobile" style="padding: 32px 32px 24px;">
+                                        <h1 class="text-dark" style="margin: 0 0 8px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 24px; font-weight: 700; color: ${BRAND_COLORS.gray900}; line-height: 1.3;">
+                                            Customer Email Bounced
+                                        </h1>
+                                        <p class="text-muted" style="margin: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 15px; color: ${BRAND_COLORS.gray600}; line-height: 1.5;">
+                                            ${safeData.customerName} did not receive our email because their address rejected it. Please contact them directly.
+                                        </p>
+                                    </td>
+                                </tr>
+
+                                <!-- Contact Customer -->
+                                <tr>
+                                    <td class="padding-mobile" style="padding: 0 32px 24px;">
+                                        <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%" class="email-card-secondary border-light" style="background-color: ${BRAND_COLORS.dangerLight}; border-radius: 10px; border-left: 4px solid ${BRAND_COLORS.danger};">
+                                            <tr>
+                                                <td style="padding: 18px 20px;">
+                                                    <p style="margin: 0 0 8px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 11px; font-weight: 700; text-transform: uppercase; letter-spacing: 1px; color: ${BRAND_COLORS.danger};">
+                                                        Contact Customer
+                                                    </p>
+                                                    <p class="text-dark" style="margin: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 16px; font-weight: 600; color: ${BRAND_COLORS.gray800}; line-height: 1.5;">
+                                                        ${safeData.customerPhone
+                                                          ? `<a href="tel:${safeData.customerPhone}" style="color: ${BRAND_COLORS.primary}; text-decoration: none;">${safeData.customerPhone}</a>`
+                                                          : 'No phone number on file'}
+                                                    </p>
+                                                </td>
+                                            </tr>
+                                        </table>
+                                    </td>
+                                </tr>
+
+                                <!-- Bounce Details -->
+                                <tr>
+                                    <td class="padding-mobile" style="padding: 0 32px 24px;">
+                                        <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%" class="email-card-secondary border-light" style="background-color: ${BRAND_COLORS.gray50}; border-radius: 10px; border: 1px solid ${BRAND_COLORS.gray200};">
+                                            <tr>
+                                                <td style="padding: 18px 20px;">
+                                                    <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%">
+                                                        <tr>
+                                                            <td class="text-muted" style="padding: 4px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 14px; color: ${BRAND_COLORS.gray600};">
+                                                                <strong class="text-dark" style="color: ${BRAND_COLORS.gray700};">To:</strong> ${safeData.customerEmail}
+                                                            </td>
+                                                        </tr>
+                                                        <tr>
+                                                            <td class="text-muted" style="padding: 4px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 14px; color: ${BRAND_COLORS.gray600};">
+                                                                <strong class="text-dark" style="color: ${BRAND_COLORS.gray700};">Subject:</strong> ${safeData.subject}
+                                                            </td>
+                                                        </tr>
+                                                        <tr>
+                                                            <td class="text-muted" style="padding: 4px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 14px; color: ${BRAND_COLORS.gray600};">
+                                                                <strong class="text-dark" style="color: ${BRAND_COLORS.gray700};">Bounced:</strong> ${safeData.bouncedAt}
+                                                            </td>
+                                                        </tr>
+                                                        <tr>
+                                                            <td class="text-muted" style="padding: 4px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 14px; color: ${BRAND_COLORS.gray600};">
+                                                                <strong class="text-dark" style="color: ${BRAND_COLORS.gray700};">Pickup:</strong> ${safeData.pickupDate} at ${safeData.pickupTime}
+                                                            </td>
+                                                        </tr>
+                                                        <tr>
+                                                            <td class="text-muted" style="padding: 4px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 14px; color: ${BRAND_COLORS.gray600};">
+                                                                <strong class="text-dark" style="color: ${BRAND_COLORS.gray700};">Booking Ref:</strong> ${safeData.bookingRef}
+                                                            </td>
+                                                        </tr>
+                                                        <tr>
+                                                            <td class="text-muted" style="padding: 4px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 13px; color: ${BRAND_COLORS.gray500};">
+                                                                <strong class="text-dark" style="color: ${BRAND_COLORS.gray600};">Transaction:</strong> <span style="font-family: 'SF Mono', 'Monaco', monospace; font-size: 12px;">${safeData.transactionId}</span>
+                                                            </td>
+                                                        </tr>
+                                                    </table>
+                                                </td>
+                                            </tr>
+                                        </table>
+                                    </td>
+                                </tr>
+
+                                <!-- Bounce Message -->
+                                <tr>
+                                    <td class="padding-mobile" style="padding: 0 32px 24px;">
+                                        <p style="margin: 0 0 8px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 11px; font-weight: 700; text-transform: uppercase; letter-spacing: 1px; color: ${BRAND_COLORS.gray500};">
+                                            Bounce Message
+                                        </p>
+                                        <p class="text-dark" style="margin: 0; font-family: 'SF Mono', 'Monaco', monospace; font-size: 13px; color: ${BRAND_COLORS.gray800}; line-height: 1.5; word-break: break-word;">
+                                            ${safeData.bounceMessage}
+                                        </p>
+                                    </td>
+                                </tr>
+
+                                <!-- Footer Message -->
+                                <tr>
+                                    <td class="padding-mobile email-card-secondary border-light" style="padding: 20px 32px; background-color: ${BRAND_COLORS.gray50}; border-top: 1px solid ${BRAND_COLORS.gray200};">
+                                        <p class="text-muted" style="margin: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 13px; color: ${BRAND_COLORS.gray500}; text-align: center; line-height: 1.5;">
+                                            The booking itself is unchanged.<br>
+                                            Later emails to this address will bounce too.
+                                        </p>
+                                    </td>
+                                </tr>
+
+                            </table>
+                        </td>
+                    </tr>
+
+                </table>
+            </td>
+        </tr>
+    </table>
+
+    <!-- Simple Footer -->
+    <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%" style="max-width: 600px; margin: 0 auto;">
+        <tr>
+            <td style="padding: 20px; text-align: center; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;">
+                <p class="text-muted" style="margin: 0; font-size: 13px; color: ${BRAND_COLORS.gray400};">
+                    AC Shuttles Notification System
+                </p>
+            </td>
+        </tr>
+    </table>
+
+</body>
+</html>`;
+
+  const text = `AC SHUTTLES - EMAIL BOUNCED
+
+Customer Email Bounced
+
+${data.customerName} did not receive our email because their address rejected it. Please contact them directly.
+
+CONTACT CUSTOMER
+================
+Phone: ${data.customerPhone || 'No phone number on file'}
+
+EMAIL
+=====
+To: ${data.customerEmail}
+Subject: ${data.subject}
+Bounced: ${formattedBouncedAt}
+Pickup: ${data.pickupDate} at ${data.pickupTime}
+Booking Ref: ${data.bookingRef}
+Transaction: ${data.transactionId}
+
+BOUNCE MESSAGE
+==============
+${data.bounceMessage}
+
+---
+The booking itself is unchanged.
+Later emails to this address will bounce too.
+
+AC Shuttles Notification System`;
+
+  return { html, text };
+}
@@ -0,0 +1,299 @@
+/**
+ * Owner Cancellation Email Template
+ *
+ * Sent to the owner when a booking is cancelled, e.g. by the customer through
+ * the self-service cancel link.
+ *
+ * Visual Theme: Red (Booking Cancelled)
+ * - Clear visual indicator at top showing "BOOKING CANCELLED"
+ * - Customer contact and trip summary so the slot can be released
+ * - Cancellation reason when the customer gave one
+ * - Rides of a recurring series that are still booked
+ * - Dark mode support via CSS media queries
+ * - Anti-spam compliant structure
+ */
+
+import {
+  BRAND_COLORS,
+  getEmailHead,
+  getEmailResetStyles,
+  getPreheader,
+  getEmailTypeIndicator,
+  getEmailLogoHeader,
+  escapeHtml,
+  formatHumanReadableTimestamp,
+  getItinerarySection,
+  getItineraryText,
+  getSeriesSection,
+  getSeriesText,
+  getSeriesCancellationNote,
+  type ItineraryStopSummary,
+  type SeriesSummary
+} from './utils';
+
+export interface OwnerCancellationData {
+  // Customer details
+  customerName: string;
+  customerEmail: string;
+  customerPhone?: string | null;
+
+  // Trip details
+  startLocation: string;
+  endLocation: string;
+  stops?: ItineraryStopSummary[];   // Intermediate stops of a multi-stop ride, in order
+  pickupTime: string;
+  pickupDate: string;
+  passengers: string;
+
+  // Cancellation details
+  previousStatus: string;
+  reason?: string;
+  cancelledAt: string;
+  bookingRef: string;
+  transactionId: string;
+
+  series?: SeriesSummary;   // Recurring series: the rides still booked after this cancellation
+
+  timeZone?: string;  // For cancelledAt (default: the business timezone)
+}
+
+export function generateOwnerCancellationEmail(data: OwnerCancellationData): { html: string; text: string } {
+  const seriesNote = getSeriesCancellationNote(data.series);
+  const formattedCancelledAt = formatHumanReadableTimestamp(data.cancelledAt, data.timeZone);
+
+  const safeData = {
+    customerName: escapeHtml(data.customerName),
+    customerEmail: escapeHtml(data.customerEmail),
+    customerPhone: data.customerPhone ? escapeHtml(data.customerPhone) : '',
+    startLocation: escapeHtml(data.startLocation),
+    endLocation: escapeHtml(data.endLocation),
+    pickupTime: escapeHtml(data.pickupTime),
+    pickupDate: escapeHtml(data.pickupDate),
+    passengers: escapeHtml(data.passengers),
+    previousStatus: escapeHtml(data.previousStatus),
+    reason: data.reason ? escapeHtml(data.reason) : '',
+    cancelledAt: escapeHtml(formattedCancelledAt),
+    bookingRef: escapeHtml(data.bookingRef),
+    transactionId: escapeHtml(data.transactionId),
+  };
+
+  const html = `${getEmailHead('Booking Cancelled - AC Shuttles')}
+${getEmailResetStyles()}
+</head>
+<body style="margin: 0; padding: 0; background-color: ${BRAND_COLORS.gray100};">
+    ${getPreheader(`${safeData.customerName} cancelled their ${safeData.pickupDate} trip.`)}
+
+    <!-- Type Indicator -->
+    ${getEmailTypeIndicator('cancelled')}
+
+    <!-- Email Body -->
+    <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%" class="email-body-bg" style="background-color: ${BRAND_COLORS.gray100};">
+        <tr>
+            <td style="padding: 0 20px 40px;">
+                <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%" style="max-width: 600px; margin: 0 auto;" class="email-container">
+
+                    ${getEmailLogoHeader()}
+
+                    <!-- Main Card -->
+                    <tr>
+                        <td>
+                            <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%" class="email-card" style="background-color: ${BRAND_COLORS.white}; border-radius: 12px; overflow: hidden; box-shadow: 0 1px 3px rgba(0,0,0,0.08);">
+
+                                <!-- Header Content -->
+                                <tr>
+                                    <td class="padding-mobile" style="padding: 32px 32px 24px;">
+                                        <h1 class="text-dark" style="margin: 0 0 8px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 24px; font-weight: 700; color: ${BRAND_COLORS.gray900}; line-height: 1.3;">
+                                            Booking Cancelled
+                                        </h1>
+                                        <p class="text-muted" style="margin: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 15px; color: ${BRAND_COLORS.gray600}; line-height: 1.5;">
+                                            ${safeData.customerName} no longer needs this ride. The slot is free again.
+                                        </p>
+                                    </td>
+                                </tr>
+
+                                ${safeData.reason ? `
+                                <!-- Reason -->
+                                <tr>
+                                    <td class="padding-mobile" style="padding: 0 32px 24px;">
+                                        <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%" class="email-card-secondary border-light" style="background-color: ${BRAND_COLORS.dangerLight}; border-radius: 10px; border-left: 4px solid ${BRAND_COLORS.danger};">
+                                            <tr>
+                                                <td style="padding: 18px 20px;">
+                                                    <p style="margin: 0 0 8px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 11px; font-weight: 700; text-transform: uppercase; letter-spacing: 1px; color: ${BRAND_COLORS.danger};">
+                                                        Reason Given
+                                                    </p>
+                                                    <p class="text-dark" style="margin: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 15px; color: ${BRAND_COLORS.gray800}; line-height: 1.5;">
+                                                        ${safeData.reason}
+                                                    </p>
+                                                </td>
+                                            </tr>
+                                        </table>
+                                    </td>
+                                </tr>
+                                ` : ''}
+
+                                <!-- Customer Info -->
+                                <tr>
+                                    <td class="padding-mobile" style="padding: 0 32px 24px;">
+                                        <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%" class="email-card-secondary border-light" style="background-color: ${BRAND_COLORS.gray50}; border-radius: 10px; border: 1px solid ${BRAND_COLORS.gray200};">
+                                            <tr>
+                                                <td style="padding: 18px 20px;">
+                                                    <p class="text-muted" style="margin: 0 0 12px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 11px; font-weight: 700; text-transform: uppercase; letter-spacing: 1px; color: ${BRAND_COLORS.gray500};">
+                                                        Customer
+                                                    </p>
+                                                    <p class="text-dark" style="margin: 0 0 4px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 15px; font-weight: 600; color: ${BRAND_COLORS.gray800};">
+                                                        ${safeData.customerName}
+                                                    </p>
+                                                    <p class="text-muted" style="margin: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 14px; color: ${BRAND_COLORS.gray600};">
+                                                        ${safeData.customerEmail}${safeData.customerPhone ? ` &bull; ${safeData.customerPhone}` : ''}
+                                                    </p>
+                                                </td>
+                                            </tr>
+                                        </table>
+                                    </td>
+                                </tr>
+
+                                <!-- Trip Summary -->
+                                <tr>
+                                    <td class="padding-mobile" style="padding: 0 32px 24px;">
+                                        <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%" class="email-card-secondary border-light" style="background-color: ${BRAND_COLORS.gray50}; border-radius: 10px; border: 1px solid ${BRAND_COLORS.gray200};">
+                                            <tr>
+                                                <td style="padding: 18px 20px;">
+                                                    <p class="text-muted" style="margin: 0 0 12px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 11px; font-weight: 700; text-transform: uppercase; letter-spacing: 1px; color: ${BRAND_COLORS.gray500};">
+                                                        Cancelled Trip
+                                                    </p>
+                                                    <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%">
+                                                        <tr>
+                                                            <td class="text-muted" style="padding: 4px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 14px; color: ${BRAND_COLORS.gray600};">
+                                                                <strong class="text-dark" style="color: ${BRAND_COLORS.gray700};">From:</strong> ${safeData.startLocation}
+                                                            </td>
+                                                        </tr>
+                                                        <tr>
+                                                            <td class="text-muted" style="padding: 4px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 14px; color: ${BRAND_COLORS.gray600};">
+                                                                <strong class="text-dark" style="color: ${BRAND_COLORS.gray700};">To:</strong> ${safeData.endLocation}
+                                                            </td>
+                                                        </tr>
+                                                        <tr>
+                                                            <td class="text-muted" style="padding: 4px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 14px; color: ${BRAND_COLORS.gray600};">
+                                                                <strong class="text-dark" style="color: ${BRAND_COLORS.gray700};">Pickup:</strong> ${safeData.pickupTime} on ${safeData.pickupDate}
+                                                            </td>
+                                                        </tr>
+                                                        <tr>
+                                                            <td class="text-muted" style="padding: 4px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 14px; color: ${BRAND_COLORS.gray600};">
+                                                                <strong class="text-dark" style="color: ${BRAND_COLORS.gray700};">Passengers:</strong> ${safeData.passengers}
+                                                            </td>
+                                                        </tr>
+                                                    </table>
+                                                </td>
+                                            </tr>
+                                        </table>
+                                    </td>
+                                </tr>
+
+                                ${data.stops?.length ? getItinerarySection(data.startLocation, data.endLocation, data.stops) : ''}
+                                ${data.series ? getSeriesSection(data.series, 'Still Booked in This Series', seriesNote) : ''}
+
+                                <!-- Cancellation Details -->
+                                <tr>
+                                    <td class="padding-mobile" style="padding: 0 32px 24px;">
+                                        <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%" class="email-card-secondary border-light" style="background-color: ${BRAND_COLORS.gray50}; border-radius: 10px; border-left: 4px solid ${BRAND_COLORS.info};">
+                                            <tr>
+                                                <td style="padding: 18px 20px;">
+                                                    <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%">
+                                                        <tr>
+                                                            <td class="text-muted" style="padding: 4px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 14px; color: ${BRAND_COLORS.gray600};">
+                                                                <strong class="text-dark" style="color: ${BRAND_COLORS.gray700};">Cancelled:</strong> ${safeData.cancelledAt}
+                                                            </td>
+                                                        </tr>
+                                                        <tr>
+                                                            <td class="text-muted" style="padding: 4px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 14px; color: ${BRAND_COLORS.gray600};">
+                                                                <strong class="text-dark" style="color: ${BRAND_COLORS.gray700};">Previous Status:</strong> ${safeData.previousStatus}
+                                                            </td>
+                                                        </tr>
+                                                        <tr>
+                                                            <td class="text-muted" style="padding: 4px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 14px; color: ${BRAND_COLORS.gray600};">
+                                                                <strong class="text-dark" style="color: ${BRAND_COLORS.gray700};">Booking Ref:</strong> ${safeData.bookingRef}
+                                                            </td>
+                                                        </tr>
+                                                        <tr>
+                                                            <td class="text-muted" style="padding: 4px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 13px; color: ${BRAND_COLORS.gray500};">
+                                                                <strong class="text-dark" style="color: ${BRAND_COLORS.gray600};">Transaction:</strong> <span style="font-family: 'SF Mono', 'Monaco', monospace; font-size: 12px;">${safeData.transactionId}</span>
+                                                            </td>
+                                                        </tr>
+                                                    </table>
+                                                </td>
+                                            </tr>
+                                        </table>
+                                    </td>
+                                </tr>
+
+                                <!-- Footer Message -->
+                                <tr>
+                                    <td class="padding-mobile email-card-secondary border-light" style="padding: 20px 32px; background-color: ${BRAND_COLORS.gray50}; border-top: 1px solid ${BRAND_COLORS.gray200};">
+                                        <p class="text-muted" style="margin: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 13px; color: ${BRAND_COLORS.gray500}; text-align: center; line-height: 1.5;">
+                                            No action is needed. The booking is marked Cancelled<br>
+                                            and no reminder will be sent to the customer.
+                                        </p>
+                                    </td>
+                                </tr>
+
+                            </table>
+                        </td>
+                    </tr>
+
+                </table>
+            </td>
+        </tr>
+    </table>
+
+    <!-- Simple Footer -->
+    <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%" style="max-width: 600px; margin: 0 auto;">
+        <tr>
+            <td style="padding: 20px; text-align: center; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;">
+                <p class="text-muted" style="margin: 0; font-size: 13px; color: ${BRAND_COLORS.gray400};">
+                    AC Shuttles Notification System
+                </p>
+            </td>
+        </tr>
+    </table>
+
+</body>
+</html>`;
+
+  const text = `AC SHUTTLES - BOOKING CANCELLED
+
+Booking Cancelled
+
+${data.customerName} no longer needs this ride. The slot is free again.
+
+${data.reason ? `REASON GIVEN
+============
+${data.reason}
+
+` : ''}CUSTOMER
+========
+Name: ${data.customerName}
+Email: ${data.customerEmail}
+${data.customerPhone ? `Phone: ${data.customerPhone}
+` : ''}
+CANCELLED TRIP
+==============
+From: ${data.startLocation}
+To: ${data.endLocation}
+Pickup: ${data.pickupTime} on ${data.pickupDate}
+Passengers: ${data.passengers}
+
+${data.stops?.length ? getItineraryText(data.startLocation, data.endLocation, data.stops) : ''}${data.series ? getSeriesText(data.series, 'Still Booked in This Series', seriesNote) : ''}DETAILS
+=======
+Cancelled: ${formattedCancelledAt}
+Previous Status: ${data.previousStatus}
+Booking Ref: ${data.bookingRef}
+Transaction: ${data.transactionId}
+
+---
+No action is needed. The booking is marked Cancelled
+and no reminder will be sent to the customer.
+
+AC Shuttles Notification System`;
+
+  return { html, text };
+}
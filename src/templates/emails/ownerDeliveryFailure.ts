@@ -0,0 +1,206 @@
+/**
+ * Owner Delivery Failure Email Template
+ *
+ * Sent to the owner when the outbox gives up on an email, so a customer who
+ * never got their confirmation (or an owner notification that never arrived)
+ * can be followed up by hand.
+ *
+ * Visual Theme: Red (Email Not Delivered)
+ * - Clear visual indicator at top showing "EMAIL NOT DELIVERED"
+ * - Recipient, subject and the provider's last error
+ * - Booking reference when the email belongs to a booking
+ * - Dark mode support via CSS media queries
+ * - Anti-spam compliant structure
+ */
+
+import {
+  BRAND_COLORS,
+  getEmailHead,
+  getEmailResetStyles,
+  getPreheader,
+  getEmailTypeIndicator,
+  getEmailLogoHeader,
+  escapeHtml,
+  formatHumanReadableTimestamp
+} from './utils';
+
+export interface OwnerDeliveryFailureData {
+  // Undelivered email
+  recipient: string;
+  subject: string;
+  attempts: number;
+  lastError: string;
+  firstQueuedAt: string;
+
+  // Booking the email belongs to, when any
+  bookingRef?: string;
+  transactionId?: string;
+
+  timeZone?: string;  // For firstQueuedAt (default: the business timezone)
+}
+
+export function generateOwnerDeliveryFailureEmail(data: OwnerDeliveryFailureData): { html: string; text: string } {
+  const formattedQueuedAt = formatHumanReadableTimestamp(data.firstQueuedAt, data.timeZone);
+
+  const safeData = {
+    recipient: escapeHtml(data.recipient),
+    subject: escapeHtml(data.subject),
+    attempts: escapeHtml(String(data.attempts)),
+    lastError: escapeHtml(data.lastError),
+    firstQueuedAt: escapeHtml(formattedQueuedAt),
+    bookingRef: data.bookingRef ? escapeHtml(data.bookingRef) : '',
+    transactionId: data.transactionId ? escapeHtml(data.transactionId) : '',
+  };
+
+  const html = `${getEmailHead('Email Not Delivered - AC Shuttles')}
+${getEmailResetStyles()}
+</head>
+<body style="margin: 0; padding: 0; background-color: ${BRAND_COLORS.gray100};">
+    ${getPreheader(`An email to ${safeData.recipient} could not be delivered.`)}
+
+    <!-- Type Indicator -->
+    ${getEmailTypeIndicator('delivery_failed')}
+
+    <!-- Email Body -->
+    <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%" class="email-body-bg" style="background-color: ${BRAND_COLORS.gray100};">
+        <tr>
+            <td style="padding: 0 20px 40px;">
+                <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%" style="max-width: 600px; margin: 0 auto;" class="email-container">
+
+                    ${getEmailLogoHeader()}
+
+                    <!-- Main Card -->
+                    <tr>
+                        <td>
+                            <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%" class="email-card" style="background-color: ${BRAND_COLORS.white}; border-radius: 12px; overflow: hidden; box-shadow: 0 1px 3px rgba(0,0,0,0.08);">
+
+                                <!-- Header Content -->
+                                <tr>
+                                    <td class="padding-mobile" style="padding: 32px 32px 24px;">
+                                        <h1 class="text-dark" style="margin: 0 0 8px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 24px; font-weight: 700; color: ${BRAND_COLORS.gray900}; line-height: 1.3;">
+                                            Email Not Delivered
+                                        </h1>
+                                        <p class="text-muted" style="margin: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 15px; color: ${BRAND_COLORS.gray600}; line-height: 1.5;">
+                                            We stopped trying to send this email after ${safeData.attempts} attempt${data.attempts === 1 ? '' : 's'}. Please contact the recipient directly.
+                                        </p>
+                                    </td>
+                                </tr>
+
+                                <!-- Email Details -->
+                                <tr>
+                                    <td class="padding-mobile" style="padding: 0 32px 24px;">
+                                        <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%" class="email-card-secondary border-light" style="background-color: ${BRAND_COLORS.gray50}; border-radius: 10px; border: 1px solid ${BRAND_COLORS.gray200};">
+                                            <tr>
+                                                <td style="padding: 18px 20px;">
+                                                    <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%">
+                                                        <tr>
+                                                            <td class="text-muted" style="padding: 4px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 14px; color: ${BRAND_COLORS.gray600};">
+                                                                <strong class="text-dark" style="color: ${BRAND_COLORS.gray700};">To:</strong> ${safeData.recipient}
+                                                            </td>
+                                                        </tr>
+                                                        <tr>
+                                                            <td class="text-muted" style="padding: 4px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 14px; color: ${BRAND_COLORS.gray600};">
+                                                                <strong class="text-dark" style="color: ${BRAND_COLORS.gray700};">Subject:</strong> ${safeData.subject}
+                                                            </td>
+                                                        </tr>
+                                                        <tr>
+                                                            <td class="text-muted" style="padding: 4px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 14px; color: ${BRAND_COLORS.gray600};">
+                                                                <strong class="text-dark" style="color: ${BRAND_COLORS.gray700};">First Queued:</strong> ${safeData.firstQueuedAt}
+                                                            </td>
+                                                        </tr>
+                                                        ${safeData.bookingRef ? `
+                                                        <tr>
+                                                            <td class="text-muted" style="padding: 4px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 14px; color: ${BRAND_COLORS.gray600};">
+                                                                <strong class="text-dark" style="color: ${BRAND_COLORS.gray700};">Booking Ref:</strong> ${safeData.bookingRef}
+                                                            </td>
+                                                        </tr>
+                                                        <tr>
+                                                            <td class="text-muted" style="padding: 4px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 13px; color: ${BRAND_COLORS.gray500};">
+                                                                <strong class="text-dark" style="color: ${BRAND_COLORS.gray600};">Transaction:</strong> <span style="font-family: 'SF Mono', 'Monaco', monospace; font-size: 12px;">${safeData.transactionId}</span>
+                                                            </td>
+                                                        </tr>
+                                                        ` : ''}
+                                                    </table>
+                                                </td>
+                                            </tr>
+                                        </table>
+                                    </td>
+                                </tr>
+
+                                <!-- Last Error -->
+                                <tr>
+                                    <td class="padding-mobile" style="padding: 0 32px 24px;">
+                                        <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%" class="email-card-secondary border-light" style="background-color: ${BRAND_COLORS.dangerLight}; border-radius: 10px; border-left: 4px solid ${BRAND_COLORS.danger};">
+                                            <tr>
+                                                <td style="padding: 18px 20px;">
+                                                    <p style="margin: 0 0 8px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 11px; font-weight: 700; text-transform: uppercase; letter-spacing: 1px; color: ${BRAND_COLORS.danger};">
+                                                        Last Error
+                                                    </p>
+                                                    <p class="text-dark" style="margin: 0; font-family: 'SF Mono', 'Monaco', monospace; font-size: 13px; color: ${BRAND_COLORS.gray800}; line-height: 1.5; word-break: break-word;">
+                                                        ${safeData.lastError}
+                                                    </p>
+                                                </td>
+                                            </tr>
+                                        </table>
+                                    </td>
+                                </tr>
+
+                                <!-- Footer Message -->
+                                <tr>
+                                    <td class="padding-mobile email-card-secondary border-light" style="padding: 20px 32px; background-color: ${BRAND_COLORS.gray50}; border-top: 1px solid ${BRAND_COLORS.gray200};">
+                                        <p class="text-muted" style="margin: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 13px; color: ${BRAND_COLORS.gray500}; text-align: center; line-height: 1.5;">
+                                            The booking itself is unchanged.<br>
+                                            Only this email was not sent.
+                                        </p>
+                                    </td>
+                                </tr>
+
+                            </table>
+                        </td>
+                    </tr>
+
+                </table>
+            </td>
+        </tr>
+    </table>
+
+    <!-- Simple Footer -->
+    <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%" style="max-width: 600px; margin: 0 auto;">
+        <tr>
+            <td style="padding: 20px; text-align: center; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;">
+                <p class="text-muted" style="margin: 0; font-size: 13px; color: ${BRAND_COLORS.gray400};">
+                    AC Shuttles Notification System
+                </p>
+            </td>
+        </tr>
+    </table>
+
+</body>
+</html>`;
+
+  const text = `AC SHUTTLES - EMAIL NOT DELIVERED
+
+Email Not Delivered
+
+We stopped trying to send this email after ${data.attempts} attempt${data.attempts === 1 ? '' : 's'}. Please contact the recipient directly.
+
+EMAIL
+=====
+To: ${data.recipient}
+Subject: ${data.subject}
+First Queued: ${formattedQueuedAt}
+${data.bookingRef ? `Booking Ref: ${data.bookingRef}
+Transaction: ${data.transactionId}
+` : ''}
+LAST ERROR
+==========
+${data.lastError}
+
+---
+The booking itself is unchanged.
+Only this email was not sent.
+
+AC Shuttles Notification System`;
+
+  return { html, text };
+}
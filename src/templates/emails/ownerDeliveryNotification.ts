@@ -20,7 +20,10 @@ import {
   getEmailTypeIndicator,
   getEmailLogoHeader,
   escapeHtml,
-  formatHumanReadableTimestamp
+  formatHumanReadableTimestamp,
+  getItinerarySection,
+  getItineraryText,
+  type ItineraryStopSummary
 } from './utils';
 
 export interface OwnerDeliveryNotificationData {
@@ -31,6 +34,7 @@ export interface OwnerDeliveryNotificationData {
   // Trip details
   startLocation: string;
   endLocation: string;
+  stops?: ItineraryStopSummary[];   // Intermediate stops of a multi-stop ride, in order
   pickupTime: string;
   pickupDate: string;
 
@@ -39,6 +43,8 @@ export interface OwnerDeliveryNotificationData {
   deliveredAt: string;
   bookingRef: string;
   transactionId: string;
+
+  timeZone?: string;  // For deliveredAt (default: the business timezone)
 }
 
 export function generateOwnerDeliveryNotificationEmail(data: OwnerDeliveryNotificationData): { html: string; text: string } {
@@ -49,7 +55,7 @@ export function generateOwnerDeliveryNotificationEmail(data: OwnerDeliveryNotifi
   const statusIcon = isAccepted ? '&#10003;' : '&#10005;';
 
   // Format the delivery timestamp in human-readable format
-  const formattedDeliveredAt = formatHumanReadableTimestamp(data.deliveredAt);
+  const formattedDeliveredAt = formatHumanReadableTimestamp(data.deliveredAt, data.timeZone);
 
   const safeData = {
     customerName: escapeHtml(data.customerName),
@@ -190,6 +196,8 @@ ${getEmailResetStyles()}
                                     </td>
                                 </tr>
 
+                                ${data.stops?.length ? getItinerarySection(data.startLocation, data.endLocation, data.stops) : ''}
+
                                 <!-- Delivery Details -->
                                 <tr>
                                     <td class="padding-mobile" style="padding: 0 32px 24px;">
@@ -274,7 +282,7 @@ From: ${data.startLocation}
 To: ${data.endLocation}
 Pickup: ${data.pickupTime} on ${data.pickupDate}
 
-DELIVERY DETAILS
+${data.stops?.length ? getItineraryText(data.startLocation, data.endLocation, data.stops) : ''}DELIVERY DETAILS
 ================
 Delivered: ${formattedDeliveredAt}
 Booking Ref: ${data.bookingRef}
@@ -1,10 +1,19 @@
 /**
  * Owner Notification Email Template
  *
- * Sent to the owner when a new booking request is received.
+ * Sent to the owner when a new booking request is received, and (with
+ * `reschedule` set) when a customer asks to move a confirmed booking to a new
+ * pickup time - the summary then shows the current vs requested time and the
+ * action buttons approve or decline the change.
  *
  * Visual Theme: Amber (Action Required)
  * - Clear visual indicator at top showing "ACTION REQUIRED"
+ * - Red over-capacity warning when the passengers exceed the largest vehicle
+ * - Red schedule-conflict warning listing accepted rides that overlap this one
+ * - Suggested vehicle from the fleet (the assigned one for a reschedule request)
+ * - Itemized quote stored with the booking (when pricing is configured)
+ * - Return leg of a round trip, with accept-both / accept-outbound-only actions
+ * - Every date of a recurring series, decided together (dates can be skipped on the accept page)
  * - Confirm/Deny action buttons
  * - Complete trip and customer details
  * - Dark mode support via CSS media queries
@@ -18,13 +27,26 @@ import {
   getPreheader,
   getEmailTypeIndicator,
   getEmailLogoHeader,
-  escapeHtml
+  getQuoteSection,
+  getQuoteText,
+  getReturnTripSection,
+  getReturnTripText,
+  getItinerarySection,
+  getItineraryText,
+  getSeriesSection,
+  getSeriesText,
+  escapeHtml,
+  type QuoteSummary,
+  type ReturnTripSummary,
+  type ItineraryStopSummary,
+  type SeriesSummary
 } from './utils';
 
 export interface OwnerNotificationData {
   // Trip details
   startLocation: string;
   endLocation: string;
+  stops?: ItineraryStopSummary[];   // Intermediate stops of a multi-stop ride, in order
   pickupTime: string;
   pickupDate: string;
   passengers: string;
@@ -41,9 +63,55 @@ export interface OwnerNotificationData {
   notes?: string;
   bookingRef: string;
 
-  // Action URLs
+  // Action URLs (approve/decline the new time for a reschedule request)
   acceptUrl: string;
   denyUrl: string;
+
+  // Set for a reschedule request; pickupDate/pickupTime are then the requested time
+  reschedule?: {
+    previousPickupDate: string;
+    previousPickupTime: string;
+  };
+
+  // Accepted rides whose pickup-to-arrival window overlaps this one
+  conflicts?: ScheduleConflict[];
+
+  // Smallest vehicle that seats every passenger (the assigned vehicle for a
+  // reschedule request), e.g. "Mercedes Sprinter" / "14 seats · 12 bags"
+  vehicleName?: string;
+  vehicleCapacity?: string;
+
+  // Set when the passengers exceed the largest vehicle (VEHICLE_CAPACITY_POLICY=flag)
+  capacityWarning?: string;
+
+  // Set when the trip is outside the service zones (SERVICE_AREA_POLICY=flag)
+  // or could not be placed in or out of them
+  serviceAreaWarning?: ServiceAreaWarning;
+
+  // Quote stored with the booking at submission (both legs for a round trip)
+  quote?: QuoteSummary;
+
+  // Set for a round trip: the accept and deny URLs then cover both legs
+  returnTrip?: ReturnTripSummary;
+  acceptOutboundOnlyUrl?: string;
+
+  // Set for a recurring series: the accept and deny URLs then cover every ride
+  series?: SeriesSummary;
+}
+
+export interface ServiceAreaWarning {
+  title: string;     // e.g. "Outside Service Area"
+  message: string;
+}
+
+export interface ScheduleConflict {
+  customerName: string;
+  pickupDate: string;
+  pickupTime: string;
+  busyUntil: string;    // When the driver is free again (arrival plus buffer)
+  startLocation: string;
+  endLocation: string;
+  bookingRef: string;
 }
 
 export function generateOwnerNotificationEmail(data: OwnerNotificationData): { html: string; text: string } {
@@ -63,13 +131,75 @@ export function generateOwnerNotificationEmail(data: OwnerNotificationData): { h
     acceptUrl: data.acceptUrl,
     denyUrl: data.denyUrl,
     mapUrl: data.mapUrl || '',
+    previousPickupDate: data.reschedule ? escapeHtml(data.reschedule.previousPickupDate) : '',
+    previousPickupTime: data.reschedule ? escapeHtml(data.reschedule.previousPickupTime) : '',
+    vehicleName: data.vehicleName ? escapeHtml(data.vehicleName) : '',
+    vehicleCapacity: data.vehicleCapacity ? escapeHtml(data.vehicleCapacity) : '',
+    capacityWarning: data.capacityWarning ? escapeHtml(data.capacityWarning) : '',
+    serviceAreaTitle: data.serviceAreaWarning ? escapeHtml(data.serviceAreaWarning.title) : '',
+    serviceAreaMessage: data.serviceAreaWarning ? escapeHtml(data.serviceAreaWarning.message) : '',
+    acceptOutboundOnlyUrl: data.acceptOutboundOnlyUrl || '',
   };
 
-  const html = `${getEmailHead('New Booking Request - AC Shuttles')}
+  const conflicts = data.conflicts ?? [];
+  const conflictRows = conflicts.map(conflict => `
+                                                    <p class="text-dark" style="margin: 8px 0 0 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 14px; color: ${BRAND_COLORS.gray700}; line-height: 1.5;">
+                                                        <strong style="font-weight: 700;">${escapeHtml(conflict.pickupDate)} ${escapeHtml(conflict.pickupTime)} &ndash; ${escapeHtml(conflict.busyUntil)}</strong> &middot; ${escapeHtml(conflict.customerName)} (${escapeHtml(conflict.bookingRef)})<br>
+                                                        ${escapeHtml(conflict.startLocation)} &rarr; ${escapeHtml(conflict.endLocation)}
+                                                    </p>`).join('');
+
+  const isReschedule = Boolean(data.reschedule);
+  const isRoundTrip = Boolean(data.returnTrip);
+  const isSeries = Boolean(data.series);
+  const copy = isReschedule
+    ? {
+        title: 'Reschedule Request',
+        intro: 'A customer wants to move their confirmed ride to a new pickup time. Approve the new time or keep the original.',
+        preheader: `${safeData.customerName} wants to move their ride to ${safeData.pickupDate}. Action required.`,
+        dateLabel: 'New Date',
+        timeLabel: 'New Time',
+        accept: '&#10003; Approve New Time',
+        deny: '&#10005; Keep Original Time',
+        vehicleLabel: 'Vehicle',
+      }
+    : isRoundTrip
+    ? {
+        title: 'New Round-Trip Request',
+        intro: 'A customer is requesting a ride there and back. Accept both rides, only the outbound ride, or neither.',
+        preheader: `New round-trip request from ${safeData.customerName} for ${safeData.pickupDate}. Action required.`,
+        dateLabel: 'Date',
+        timeLabel: 'Time',
+        accept: '&#10003; Accept Both Rides',
+        deny: '&#10005; Decline Both Rides',
+        vehicleLabel: 'Suggested Vehicle',
+      }
+    : isSeries
+    ? {
+        title: 'New Recurring Booking Request',
+        intro: 'A customer is requesting the same ride on a recurring schedule. One decision covers every ride; you can leave out dates when accepting.',
+        preheader: `New recurring ride request from ${safeData.customerName} starting ${safeData.pickupDate}. Action required.`,
+        dateLabel: 'First Date',
+        timeLabel: 'Time',
+        accept: '&#10003; Accept Series',
+        deny: '&#10005; Decline Series',
+        vehicleLabel: 'Suggested Vehicle',
+      }
+    : {
+        title: 'New Booking Request',
+        intro: 'A customer is requesting a ride. Review the details and respond below.',
+        preheader: `New ride request from ${safeData.customerName} for ${safeData.pickupDate}. Action required.`,
+        dateLabel: 'Date',
+        timeLabel: 'Time',
+        accept: '&#10003; Confirm Ride',
+        deny: '&#10005; Decline Ride',
+        vehicleLabel: 'Suggested Vehicle',
+      };
+
+  const html = `${getEmailHead(`${copy.title} - AC Shuttles`)}
 ${getEmailResetStyles()}
 </head>
 <body style="margin: 0; padding: 0; background-color: ${BRAND_COLORS.gray100};">
-    ${getPreheader(`New ride request from ${safeData.customerName} for ${safeData.pickupDate}. Action required.`)}
+    ${getPreheader(copy.preheader)}
 
     <!-- Type Indicator -->
     ${getEmailTypeIndicator('action_required')}
@@ -91,25 +221,101 @@ ${getEmailResetStyles()}
                                 <tr>
                                     <td class="padding-mobile" style="padding: 32px 32px 24px;">
                                         <h1 class="text-dark" style="margin: 0 0 8px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 24px; font-weight: 700; color: ${BRAND_COLORS.gray900}; line-height: 1.3;">
-                                            New Booking Request
+                                            ${copy.title}
                                         </h1>
                                         <p class="text-muted" style="margin: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 15px; color: ${BRAND_COLORS.gray600}; line-height: 1.5;">
-                                            A customer is requesting a ride. Review the details and respond below.
+                                            ${copy.intro}
                                         </p>
                                     </td>
                                 </tr>
 
+                                ${safeData.serviceAreaTitle ? `
+                                <!-- Service Area -->
+                                <tr>
+                                    <td class="padding-mobile" style="padding: 0 32px 24px;">
+                                        <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%" style="background-color: ${BRAND_COLORS.dangerLight}; border-radius: 10px; border: 1px solid ${BRAND_COLORS.danger};">
+                                            <tr>
+                                                <td style="padding: 18px 20px;">
+                                                    <p style="margin: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 11px; font-weight: 700; text-transform: uppercase; letter-spacing: 1px; color: ${BRAND_COLORS.dangerDark};">
+                                                        &#9888; ${safeData.serviceAreaTitle}
+                                                    </p>
+                                                    <p class="text-dark" style="margin: 8px 0 0 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 14px; color: ${BRAND_COLORS.gray700}; line-height: 1.5;">
+                                                        ${safeData.serviceAreaMessage}
+                                                    </p>
+                                                </td>
+                                            </tr>
+                                        </table>
+                                    </td>
+                                </tr>
+                                ` : ''}
+
+                                ${safeData.capacityWarning ? `
+                                <!-- Over Capacity -->
+                                <tr>
+                                    <td class="padding-mobile" style="padding: 0 32px 24px;">
+                                        <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%" style="background-color: ${BRAND_COLORS.dangerLight}; border-radius: 10px; border: 1px solid ${BRAND_COLORS.danger};">
+                                            <tr>
+                                                <td style="padding: 18px 20px;">
+                                                    <p style="margin: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 11px; font-weight: 700; text-transform: uppercase; letter-spacing: 1px; color: ${BRAND_COLORS.dangerDark};">
+                                                        &#9888; Over Capacity
+                                                    </p>
+                                                    <p class="text-dark" style="margin: 8px 0 0 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 14px; color: ${BRAND_COLORS.gray700}; line-height: 1.5;">
+                                                        ${safeData.capacityWarning}
+                                                    </p>
+                                                </td>
+                                            </tr>
+                                        </table>
+                                    </td>
+                                </tr>
+                                ` : ''}
+
+                                ${conflicts.length > 0 ? `
+                                <!-- Schedule Conflicts -->
+                                <tr>
+                                    <td class="padding-mobile" style="padding: 0 32px 24px;">
+                                        <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%" style="background-color: ${BRAND_COLORS.dangerLight}; border-radius: 10px; border: 1px solid ${BRAND_COLORS.danger};">
+                                            <tr>
+                                                <td style="padding: 18px 20px;">
+                                                    <p style="margin: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 11px; font-weight: 700; text-transform: uppercase; letter-spacing: 1px; color: ${BRAND_COLORS.dangerDark};">
+                                                        &#9888; Schedule Conflict
+                                                    </p>
+                                                    <p class="text-dark" style="margin: 8px 0 0 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 14px; color: ${BRAND_COLORS.gray700}; line-height: 1.5;">
+                                                        This ride overlaps ${conflicts.length === 1 ? 'an accepted ride' : `${conflicts.length} accepted rides`}:
+                                                    </p>${conflictRows}
+                                                </td>
+                                            </tr>
+                                        </table>
+                                    </td>
+                                </tr>
+                                ` : ''}
+
+                                ${isReschedule ? `
+                                <!-- Current Booking Time -->
+                                <tr>
+                                    <td class="padding-mobile" style="padding: 0 32px 12px;">
+                                        <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%" class="email-card-secondary border-light" style="background-color: ${BRAND_COLORS.gray50}; border-radius: 10px; border: 1px solid ${BRAND_COLORS.gray200};">
+                                            <tr>
+                                                <td style="padding: 14px 16px; text-align: center;">
+                                                    <p class="text-muted" style="margin: 0 0 4px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 11px; font-weight: 600; text-transform: uppercase; letter-spacing: 0.5px; color: ${BRAND_COLORS.gray500};">Currently Booked</p>
+                                                    <p class="text-muted" style="margin: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 15px; font-weight: 600; color: ${BRAND_COLORS.gray500}; text-decoration: line-through;">${safeData.previousPickupDate} at ${safeData.previousPickupTime}</p>
+                                                </td>
+                                            </tr>
+                                        </table>
+                                    </td>
+                                </tr>
+                                ` : ''}
+
                                 <!-- Quick Summary Bar -->
                                 <tr>
                                     <td class="padding-mobile" style="padding: 0 32px 24px;">
                                         <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%" class="email-card-secondary border-light" style="background-color: ${BRAND_COLORS.warningLight}; border-radius: 10px; border: 1px solid ${BRAND_COLORS.warning};">
                                             <tr>
                                                 <td class="stack-column" width="50%" style="padding: 16px; text-align: center; border-right: 1px solid ${BRAND_COLORS.warning}40;">
-                                                    <p class="text-muted" style="margin: 0 0 4px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 11px; font-weight: 600; text-transform: uppercase; letter-spacing: 0.5px; color: ${BRAND_COLORS.warningDark};">Date</p>
+                                                    <p class="text-muted" style="margin: 0 0 4px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 11px; font-weight: 600; text-transform: uppercase; letter-spacing: 0.5px; color: ${BRAND_COLORS.warningDark};">${copy.dateLabel}</p>
                                                     <p class="text-dark" style="margin: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 16px; font-weight: 700; color: ${BRAND_COLORS.gray900};">${safeData.pickupDate}</p>
                                                 </td>
                                                 <td class="stack-column" width="50%" style="padding: 16px; text-align: center;">
-                                                    <p class="text-muted" style="margin: 0 0 4px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 11px; font-weight: 600; text-transform: uppercase; letter-spacing: 0.5px; color: ${BRAND_COLORS.warningDark};">Time</p>
+                                                    <p class="text-muted" style="margin: 0 0 4px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 11px; font-weight: 600; text-transform: uppercase; letter-spacing: 0.5px; color: ${BRAND_COLORS.warningDark};">${copy.timeLabel}</p>
                                                     <p class="text-dark" style="margin: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 16px; font-weight: 700; color: ${BRAND_COLORS.gray900};">${safeData.pickupTime}</p>
                                                 </td>
                                             </tr>
@@ -212,6 +418,33 @@ ${getEmailResetStyles()}
                                     </td>
                                 </tr>
 
+                                ${safeData.vehicleName ? `
+                                <!-- Vehicle -->
+                                <tr>
+                                    <td class="padding-mobile" style="padding: 0 32px 24px;">
+                                        <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%" class="email-card-secondary border-light" style="background-color: ${BRAND_COLORS.gray50}; border-radius: 10px; border: 1px solid ${BRAND_COLORS.gray200};">
+                                            <tr>
+                                                <td style="padding: 18px 20px;">
+                                                    <p class="text-muted" style="margin: 0 0 8px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 11px; font-weight: 700; text-transform: uppercase; letter-spacing: 1px; color: ${BRAND_COLORS.gray500};">
+                                                        ${copy.vehicleLabel}
+                                                    </p>
+                                                    <p class="text-dark" style="margin: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 15px; font-weight: 600; color: ${BRAND_COLORS.gray900};">
+                                                        ${safeData.vehicleName}${safeData.vehicleCapacity ? ` <span class="text-muted" style="font-weight: 400; color: ${BRAND_COLORS.gray500};">&middot; ${safeData.vehicleCapacity}</span>` : ''}
+                                                    </p>
+                                                </td>
+                                            </tr>
+                                        </table>
+                                    </td>
+                                </tr>
+                                ` : ''}
+                                ${data.stops?.length ? getItinerarySection(data.startLocation, data.endLocation, data.stops) : ''}
+
+                                ${data.returnTrip ? getReturnTripSection(data.returnTrip, 'Return Trip') : ''}
+
+                                ${data.series ? getSeriesSection(data.series, `Recurring Rides (${data.series.rides.length})`) : ''}
+
+                                ${data.quote ? getQuoteSection(data.quote, 'Quoted Fare', data.series ? 'Per ride' : undefined) : ''}
+
                                 <!-- Customer Info -->
                                 <tr>
                                     <td class="padding-mobile" style="padding: 0 32px 24px;">
@@ -293,18 +526,31 @@ ${getEmailResetStyles()}
                                             <tr>
                                                 <td>
                                                     <a href="${safeData.acceptUrl}" target="_blank" class="button-link button-mobile" style="display: block; padding: 16px 24px; background-color: ${BRAND_COLORS.success}; color: ${BRAND_COLORS.white}; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 16px; font-weight: 700; text-decoration: none; border-radius: 10px; text-align: center;">
-                                                        &#10003; Confirm Ride
+                                                        ${copy.accept}
+                                                    </a>
+                                                </td>
+                                            </tr>
+                                        </table>
+
+                                        ${safeData.acceptOutboundOnlyUrl ? `
+                                        <!-- Accept Outbound Only Button -->
+                                        <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%" style="margin-bottom: 12px;">
+                                            <tr>
+                                                <td>
+                                                    <a href="${safeData.acceptOutboundOnlyUrl}" target="_blank" class="button-link button-mobile" style="display: block; padding: 16px 24px; background-color: ${BRAND_COLORS.primary}; color: ${BRAND_COLORS.white}; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 16px; font-weight: 700; text-decoration: none; border-radius: 10px; text-align: center;">
+                                                        &#10003; Accept Outbound Only
                                                     </a>
                                                 </td>
                                             </tr>
                                         </table>
+                                        ` : ''}
 
                                         <!-- Decline Button -->
                                         <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%" style="margin-bottom: 16px;">
                                             <tr>
                                                 <td>
                                                     <a href="${safeData.denyUrl}" target="_blank" class="button-link button-mobile" style="display: block; padding: 16px 24px; background-color: ${BRAND_COLORS.danger}; color: ${BRAND_COLORS.white}; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 16px; font-weight: 700; text-decoration: none; border-radius: 10px; text-align: center;">
-                                                        &#10005; Decline Ride
+                                                        ${copy.deny}
                                                     </a>
                                                 </td>
                                             </tr>
@@ -369,16 +615,38 @@ ${getEmailResetStyles()}
 </body>
 </html>`;
 
+  const textCopy = isReschedule
+    ? { accept: 'Approve New Time', deny: 'Keep Original Time' }
+    : isRoundTrip
+    ? { accept: 'Accept Both Rides', deny: 'Decline Both Rides' }
+    : isSeries
+    ? { accept: 'Accept Series', deny: 'Decline Series' }
+    : { accept: 'Confirm Ride', deny: 'Decline Ride' };
+
   const text = `AC SHUTTLES - ACTION REQUIRED
 
-New Booking Request
+${copy.title}
+
+${copy.intro}
+
+${data.serviceAreaWarning ? `${data.serviceAreaWarning.title.toUpperCase()}
+${'='.repeat(data.serviceAreaWarning.title.length)}
+${data.serviceAreaWarning.message}
 
-A customer is requesting a ride. Review the details and respond below.
+` : ''}${data.capacityWarning ? `OVER CAPACITY
+=============
+${data.capacityWarning}
+
+` : ''}${conflicts.length > 0 ? `SCHEDULE CONFLICT
+=================
+This ride overlaps ${conflicts.length === 1 ? 'an accepted ride' : `${conflicts.length} accepted rides`}:
+${conflicts.map(conflict => `- ${conflict.pickupDate} ${conflict.pickupTime} - ${conflict.busyUntil}: ${conflict.customerName} (${conflict.bookingRef}), ${conflict.startLocation} → ${conflict.endLocation}`).join('\n')}
 
-QUICK SUMMARY
+` : ''}QUICK SUMMARY
 =============
-Date: ${data.pickupDate}
-Time: ${data.pickupTime}
+${data.reschedule ? `Currently booked: ${data.reschedule.previousPickupDate} at ${data.reschedule.previousPickupTime}
+` : ''}${copy.dateLabel}: ${data.pickupDate}
+${copy.timeLabel}: ${data.pickupTime}
 
 ROUTE DETAILS
 =============
@@ -390,8 +658,9 @@ TRIP INFO
 Passengers: ${data.passengers}
 Duration: ${data.estimatedDuration}
 Distance: ${data.estimatedDistance}
-
-CUSTOMER
+${data.vehicleName ? `${copy.vehicleLabel}: ${data.vehicleName}${data.vehicleCapacity ? ` (${data.vehicleCapacity})` : ''}
+` : ''}
+${data.stops?.length ? getItineraryText(data.startLocation, data.endLocation, data.stops) : ''}${data.returnTrip ? getReturnTripText(data.returnTrip, 'Return Trip') : ''}${data.series ? getSeriesText(data.series, `Recurring Rides (${data.series.rides.length})`) : ''}${data.quote ? getQuoteText(data.quote, 'Quoted Fare', data.series ? 'Per ride' : undefined) : ''}CUSTOMER
 ========
 Name: ${data.customerName}
 Email: ${data.customerEmail}
@@ -405,8 +674,9 @@ ${data.notes}
 
 YOUR RESPONSE
 =============
-Confirm Ride: ${data.acceptUrl}
-Decline Ride: ${data.denyUrl}
+${textCopy.accept}: ${data.acceptUrl}
+${data.acceptOutboundOnlyUrl ? `Accept Outbound Only: ${data.acceptOutboundOnlyUrl}
+` : ''}${textCopy.deny}: ${data.denyUrl}
 
 ${data.mapUrl ? `View Route: ${data.mapUrl}
 
@@ -10,6 +10,12 @@
  * - Anti-spam compliant email structure helpers
  */
 
+import {
+  DEFAULT_BUSINESS_TIMEZONE,
+  parsePickupDateTime,
+  pickupWallClock,
+} from '../../time/businessTime';
+
 // =============================================================================
 // BRAND COLORS - Matching AC Shuttles website design
 // =============================================================================
@@ -66,7 +72,7 @@ export const BRAND_COLORS = {
 // =============================================================================
 // EMAIL TYPE DEFINITIONS
 // =============================================================================
-export type EmailType = 'request_received' | 'action_required' | 'confirmed' | 'denied' | 'reminder' | 'delivery_confirmation';
+export type EmailType = 'request_received' | 'action_required' | 'confirmed' | 'denied' | 'reminder' | 'delivery_confirmation' | 'cancelled' | 'delivery_failed' | 'email_bounced' | 'driver_assignment';
 
 export interface EmailTypeConfig {
   icon: string;
@@ -125,6 +131,38 @@ export const EMAIL_TYPES: Record<EmailType, EmailTypeConfig> = {
     colorLight: BRAND_COLORS.infoLight,
     colorDark: BRAND_COLORS.infoDark,
     description: 'Customer notification delivered'
+  },
+  cancelled: {
+    icon: '⊘',
+    label: 'BOOKING CANCELLED',
+    color: BRAND_COLORS.danger,
+    colorLight: BRAND_COLORS.dangerLight,
+    colorDark: BRAND_COLORS.dangerDark,
+    description: 'A customer cancelled their booking'
+  },
+  delivery_failed: {
+    icon: '⚠',
+    label: 'EMAIL NOT DELIVERED',
+    color: BRAND_COLORS.danger,
+    colorLight: BRAND_COLORS.dangerLight,
+    colorDark: BRAND_COLORS.dangerDark,
+    description: 'An email could not be delivered'
+  },
+  email_bounced: {
+    icon: '↩',
+    label: 'EMAIL BOUNCED',
+    color: BRAND_COLORS.danger,
+    colorLight: BRAND_COLORS.dangerLight,
+    colorDark: BRAND_COLORS.dangerDark,
+    description: 'A customer email address rejected our email'
+  },
+  driver_assignment: {
+    icon: '🚐',
+    label: 'NEW JOB',
+    color: BRAND_COLORS.primary,
+    colorLight: BRAND_COLORS.successLight,
+    colorDark: BRAND_COLORS.primaryDark,
+    description: 'You have been assigned a ride'
   }
 };
 
@@ -329,6 +367,326 @@ export function getEmailFooter(contactPhone: string, contactEmail: string): stri
     </table>`;
 }
 
+export interface ManageBookingLinks {
+  cancelUrl?: string;       // Signed self-service cancel link
+  rescheduleUrl?: string;   // Signed self-service reschedule link
+}
+
+/**
+ * Generates the "Plans changed?" row with the customer's self-service links
+ * Returns an empty string when there are no links to show
+ */
+export function getManageBookingLinks(links: ManageBookingLinks): string {
+  const anchors = [
+    links.rescheduleUrl ? `<a href="${escapeHtml(links.rescheduleUrl)}" style="color: ${BRAND_COLORS.gray600}; text-decoration: underline;">Change pickup time</a>` : '',
+    links.cancelUrl ? `<a href="${escapeHtml(links.cancelUrl)}" style="color: ${BRAND_COLORS.gray600}; text-decoration: underline;">Cancel this booking</a>` : '',
+  ].filter(Boolean);
+
+  if (anchors.length === 0) {
+    return '';
+  }
+
+  return `
+                    <!-- Manage Booking -->
+                    <tr>
+                        <td style="padding: 12px 20px 0; text-align: center;">
+                            <p class="text-muted" style="margin: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 13px; color: ${BRAND_COLORS.gray500};">
+                                Plans changed? ${anchors.join(' &middot; ')}
+                            </p>
+                        </td>
+                    </tr>`;
+}
+
+/**
+ * Plain-text counterpart of getManageBookingLinks
+ */
+export function getManageBookingText(links: ManageBookingLinks): string {
+  const lines = [
+    links.rescheduleUrl ? `Change pickup time: ${links.rescheduleUrl}` : '',
+    links.cancelUrl ? `Cancel this booking: ${links.cancelUrl}` : '',
+  ].filter(Boolean);
+
+  if (lines.length === 0) {
+    return '';
+  }
+  if (lines.length === 1) {
+    return `Plans changed? ${lines[0]}\n\n`;
+  }
+  return `Plans changed?\n${lines.join('\n')}\n\n`;
+}
+
+/**
+ * An itemized ride quote, already formatted for display
+ */
+export interface QuoteSummary {
+  lines: Array<{ label: string; amount: string }>;   // e.g. { label: "Base fare", amount: "$25.00" }
+  total: string;
+}
+
+/**
+ * Generates the itemized quote card shown in the booking emails
+ */
+export function getQuoteSection(quote: QuoteSummary, title: string, note?: string): string {
+  const lineRows = quote.lines.map(line => `
+                                                        <tr>
+                                                            <td class="text-muted" style="padding: 3px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 14px; color: ${BRAND_COLORS.gray600};">${escapeHtml(line.label)}</td>
+                                                            <td class="text-dark" style="padding: 3px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 14px; color: ${BRAND_COLORS.gray900}; text-align: right; white-space: nowrap;">${escapeHtml(line.amount)}</td>
+                                                        </tr>`).join('');
+
+  return `
+                                <!-- Quote -->
+                                <tr>
+                                    <td class="padding-mobile" style="padding: 0 32px 24px;">
+                                        <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%" class="email-card-secondary border-light" style="background-color: ${BRAND_COLORS.gray50}; border-radius: 10px; border: 1px solid ${BRAND_COLORS.gray200};">
+                                            <tr>
+                                                <td style="padding: 18px 20px;">
+                                                    <p class="text-muted" style="margin: 0 0 8px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 11px; font-weight: 700; text-transform: uppercase; letter-spacing: 1px; color: ${BRAND_COLORS.gray500};">
+                                                        ${escapeHtml(title)}
+                                                    </p>
+                                                    <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%">${lineRows}
+                                                        <tr>
+                                                            <td class="text-dark" style="padding: 10px 0 0 0; border-top: 1px solid ${BRAND_COLORS.gray200}; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 15px; font-weight: 700; color: ${BRAND_COLORS.gray900};">Total</td>
+                                                            <td style="padding: 10px 0 0 0; border-top: 1px solid ${BRAND_COLORS.gray200}; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 18px; font-weight: 700; color: ${BRAND_COLORS.primary}; text-align: right; white-space: nowrap;">${escapeHtml(quote.total)}</td>
+                                                        </tr>
+                                                    </table>${note ? `
+                                                    <p class="text-muted" style="margin: 10px 0 0 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 12px; color: ${BRAND_COLORS.gray500};">
+                                                        ${escapeHtml(note)}
+                                                    </p>` : ''}
+                                                </td>
+                                            </tr>
+                                        </table>
+                                    </td>
+                                </tr>`;
+}
+
+/**
+ * Plain-text counterpart of getQuoteSection
+ */
+export function getQuoteText(quote: QuoteSummary, title: string, note?: string): string {
+  const heading = title.toUpperCase();
+  return `${heading}
+${'='.repeat(heading.length)}
+${quote.lines.map(line => `${line.label}: ${line.amount}`).join('\n')}
+Total: ${quote.total}
+${note ? `${note}
+` : ''}
+`;
+}
+
+/**
+ * The return leg of a round trip, as shown alongside the outbound ride
+ */
+export interface ReturnTripSummary {
+  pickupDate: string;
+  pickupTime: string;
+  startLocation: string;
+  endLocation: string;
+  bookingRef: string;
+}
+
+/**
+ * Card with the return leg of a round trip, optionally with a note below
+ */
+export function getReturnTripSection(trip: ReturnTripSummary, title: string, note?: string): string {
+  const rows = [
+    ['Date', trip.pickupDate],
+    ['Time', trip.pickupTime],
+    ['From', trip.startLocation],
+    ['To', trip.endLocation],
+    ['Reference', trip.bookingRef],
+  ].map(([label, value]) => `
+                                                        <tr>
+                                                            <td class="text-muted" style="padding: 3px 12px 3px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 14px; color: ${BRAND_COLORS.gray600}; vertical-align: top; white-space: nowrap;">${label}</td>
+                                                            <td class="text-dark" style="padding: 3px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 14px; font-weight: 600; color: ${BRAND_COLORS.gray900}; text-align: right;">${escapeHtml(value)}</td>
+                                                        </tr>`).join('');
+
+  return `
+                                <!-- Return Trip -->
+                                <tr>
+                                    <td class="padding-mobile" style="padding: 0 32px 24px;">
+                                        <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%" class="email-card-secondary border-light" style="background-color: ${BRAND_COLORS.gray50}; border-radius: 10px; border: 1px solid ${BRAND_COLORS.gray200};">
+                                            <tr>
+                                                <td style="padding: 18px 20px;">
+                                                    <p class="text-muted" style="margin: 0 0 8px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 11px; font-weight: 700; text-transform: uppercase; letter-spacing: 1px; color: ${BRAND_COLORS.gray500};">
+                                                        ${escapeHtml(title)}
+                                                    </p>
+                                                    <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%">${rows}
+                                                    </table>${note ? `
+                                                    <p class="text-muted" style="margin: 10px 0 0 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 12px; color: ${BRAND_COLORS.gray500};">
+                                                        ${escapeHtml(note)}
+                                                    </p>` : ''}
+                                                </td>
+                                            </tr>
+                                        </table>
+                                    </td>
+                                </tr>`;
+}
+
+/**
+ * Plain-text counterpart of getReturnTripSection
+ */
+export function getReturnTripText(trip: ReturnTripSummary, title: string, note?: string): string {
+  const heading = title.toUpperCase();
+  return `${heading}
+${'='.repeat(heading.length)}
+Date: ${trip.pickupDate}
+Time: ${trip.pickupTime}
+From: ${trip.startLocation}
+To: ${trip.endLocation}
+Reference: ${trip.bookingRef}
+${note ? `${note}
+` : ''}
+`;
+}
+
+/**
+ * One ride of a recurring series, as listed in the emails
+ */
+export interface SeriesRideSummary {
+  pickupDate: string;   // e.g. "Mon 03/10/2025"
+  pickupTime: string;
+  bookingRef: string;
+  cancelUrl?: string;   // Signed self-service cancel link for this ride
+}
+
+/**
+ * A recurring series: its schedule and the rides listed under it
+ */
+export interface SeriesSummary {
+  schedule: string;                  // e.g. "Weekly on weekdays, until 06/30/2025"
+  rides: SeriesRideSummary[];
+  skipped?: SeriesRideSummary[];     // Rides the owner left out of the series
+}
+
+/**
+ * Card listing the rides of a recurring series, optionally with a note below
+ */
+export function getSeriesSection(series: SeriesSummary, title: string, note?: string): string {
+  const rideRow = (ride: SeriesRideSummary, skipped: boolean) => `
+                                                        <tr>
+                                                            <td class="text-muted" style="padding: 3px 12px 3px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 14px; color: ${BRAND_COLORS.gray600}; white-space: nowrap;${skipped ? ' text-decoration: line-through;' : ''}">${escapeHtml(ride.pickupDate)}</td>
+                                                            <td class="text-dark" style="padding: 3px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 14px; font-weight: 600; color: ${skipped ? BRAND_COLORS.gray500 : BRAND_COLORS.gray900}; text-align: right;">${skipped ? 'Not included' : escapeHtml(ride.pickupTime)}${ride.cancelUrl && !skipped ? `
+                                                                <br><a href="${escapeHtml(ride.cancelUrl)}" style="font-size: 12px; font-weight: 400; color: ${BRAND_COLORS.gray500}; text-decoration: underline;">Cancel</a>` : ''}</td>
+                                                        </tr>`;
+  const rows = [
+    ...series.rides.map(ride => rideRow(ride, false)),
+    ...(series.skipped ?? []).map(ride => rideRow(ride, true)),
+  ].join('');
+
+  return `
+                                <!-- Series -->
+                                <tr>
+                                    <td class="padding-mobile" style="padding: 0 32px 24px;">
+                                        <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%" class="email-card-secondary border-light" style="background-color: ${BRAND_COLORS.gray50}; border-radius: 10px; border: 1px solid ${BRAND_COLORS.gray200};">
+                                            <tr>
+                                                <td style="padding: 18px 20px;">
+                                                    <p class="text-muted" style="margin: 0 0 4px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 11px; font-weight: 700; text-transform: uppercase; letter-spacing: 1px; color: ${BRAND_COLORS.gray500};">
+                                                        ${escapeHtml(title)}
+                                                    </p>
+                                                    <p class="text-dark" style="margin: 0 0 8px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 14px; font-weight: 600; color: ${BRAND_COLORS.gray900};">
+                                                        ${escapeHtml(series.schedule)}
+                                                    </p>
+                                                    <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%">${rows}
+                                                    </table>${note ? `
+                                                    <p class="text-muted" style="margin: 10px 0 0 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 12px; color: ${BRAND_COLORS.gray500};">
+                                                        ${escapeHtml(note)}
+                                                    </p>` : ''}
+                                                </td>
+                                            </tr>
+                                        </table>
+                                    </td>
+                                </tr>`;
+}
+
+/**
+ * Plain-text counterpart of getSeriesSection
+ */
+export function getSeriesText(series: SeriesSummary, title: string, note?: string): string {
+  const heading = title.toUpperCase();
+  const rides = series.rides.map(ride =>
+    `${ride.pickupDate} at ${ride.pickupTime} (Ref ${ride.bookingRef})${ride.cancelUrl ? ` - Cancel: ${ride.cancelUrl}` : ''}`);
+  const skipped = (series.skipped ?? []).map(ride => `${ride.pickupDate}: not included`);
+  return `${heading}
+${'='.repeat(heading.length)}
+Schedule: ${series.schedule}
+${[...rides, ...skipped].join('\n')}
+${note ? `${note}
+` : ''}
+`;
+}
+
+/**
+ * Note under the rides still booked after a series ride is cancelled
+ */
+export function getSeriesCancellationNote(series: SeriesSummary | undefined): string | undefined {
+  return series && series.rides.length === 0 ? 'No rides remain in this series.' : undefined;
+}
+
+/**
+ * An intermediate stop on the ride, as shown in the emails
+ */
+export interface ItineraryStopSummary {
+  address: string;
+  waitMinutes: number | null;
+}
+
+/**
+ * Pickup, each stop in order and drop-off, labelled for the itinerary
+ */
+function itineraryRows(startLocation: string, endLocation: string, stops: ItineraryStopSummary[]): Array<{ label: string; address: string; wait: string | null }> {
+  return [
+    { label: 'Pickup', address: startLocation, wait: null },
+    ...stops.map((stop, index) => ({
+      label: `Stop ${index + 1}`,
+      address: stop.address,
+      wait: stop.waitMinutes ? `${stop.waitMinutes} min wait` : null,
+    })),
+    { label: 'Drop-off', address: endLocation, wait: null },
+  ];
+}
+
+/**
+ * Card listing a multi-stop ride from pickup to drop-off
+ */
+export function getItinerarySection(startLocation: string, endLocation: string, stops: ItineraryStopSummary[], title: string = 'Itinerary'): string {
+  const rows = itineraryRows(startLocation, endLocation, stops).map(({ label, address, wait }) => `
+                                                        <tr>
+                                                            <td class="text-muted" style="padding: 3px 12px 3px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 14px; color: ${BRAND_COLORS.gray600}; vertical-align: top; white-space: nowrap;">${label}</td>
+                                                            <td class="text-dark" style="padding: 3px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 14px; font-weight: 600; color: ${BRAND_COLORS.gray900}; text-align: right;">${escapeHtml(address)}${wait ? `
+                                                                <br><span class="text-muted" style="font-size: 12px; font-weight: 400; color: ${BRAND_COLORS.gray500};">${wait}</span>` : ''}</td>
+                                                        </tr>`).join('');
+
+  return `
+                                <!-- Itinerary -->
+                                <tr>
+                                    <td class="padding-mobile" style="padding: 0 32px 24px;">
+                                        <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%" class="email-card-secondary border-light" style="background-color: ${BRAND_COLORS.gray50}; border-radius: 10px; border: 1px solid ${BRAND_COLORS.gray200};">
+                                            <tr>
+                                                <td style="padding: 18px 20px;">
+                                                    <p class="text-muted" style="margin: 0 0 8px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 11px; font-weight: 700; text-transform: uppercase; letter-spacing: 1px; color: ${BRAND_COLORS.gray500};">
+                                                        ${escapeHtml(title)}
+                                                    </p>
+                                                    <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%">${rows}
+                                                    </table>
+                                                </td>
+                                            </tr>
+                                        </table>
+                                    </td>
+                                </tr>`;
+}
+
+/**
+ * Plain-text counterpart of getItinerarySection
+ */
+export function getItineraryText(startLocation: string, endLocation: string, stops: ItineraryStopSummary[], title: string = 'Itinerary'): string {
+  const heading = title.toUpperCase();
+  return `${heading}
+${'='.repeat(heading.length)}
+${itineraryRows(startLocation, endLocation, stops).map(({ label, address, wait }) => `${label}: ${address}${wait ? ` (${wait})` : ''}`).join('\n')}
+
+`;
+}
+
 /**
  * Generates a preheader (preview text) that shows in email clients
  * This text appears after the subject line in the inbox preview
@@ -400,7 +758,9 @@ const CITY_CODES: Record<string, string> = {
 
 /**
  * Utility function to parse address from various input formats
- * Handles formats like: "1000 Boardwalk, Atlantic City, NJ 08401"
+ * Handles formats like: "1000 Boardwalk, Atlantic City, NJ 08401",
+ * "Philadelphia, PA" and "123 Main St, Camden, NJ 08102, USA" (the zip code
+ * and a trailing country are optional)
  */
 export function parseAddress(input: string): {
   street: string;
@@ -411,24 +771,27 @@ export function parseAddress(input: string): {
 } {
   const trimmed = input.trim();
 
-  // Split by commas and clean up
+  // Split by commas and clean up, dropping a trailing country
   const parts = trimmed.split(',').map(part => part.trim());
+  if (parts.length > 2 && /^(USA?|United States( of America)?)$/i.test(parts[parts.length - 1])) {
+    parts.pop();
+  }
 
-  if (parts.length >= 3) {
-    // Format: "Street Address, City, State Zip"
-    const street = parts[0];
+  if (parts.length >= 2) {
+    // Format: "Street Address, City, State Zip" or "City, State"
+    const street = parts.length >= 3 ? parts[0] : '';
     const city = parts[parts.length - 2];
     const stateZipPart = parts[parts.length - 1];
 
     // Extract state and zip from last part (e.g., "NJ 08401")
-    const stateZipMatch = stateZipPart.match(/^([A-Z]{2})\s+(\d{5}(?:-\d{4})?)$/);
+    const stateZipMatch = stateZipPart.match(/^([A-Z]{2})(?:\s+(\d{5}(?:-\d{4})?))?$/);
 
     if (stateZipMatch) {
       return {
         street,
         city,
         state: stateZipMatch[1],
-        zipCode: stateZipMatch[2]
+        zipCode: stateZipMatch[2] ?? ''
       };
     }
   }
@@ -512,13 +875,18 @@ export function generateLocationCode(address: string): string {
 // =============================================================================
 
 /**
- * Format datetime string for display without timezone conversion
- * Handles various input formats and outputs human-readable format
+ * Format a pickup time for display in the business timezone
+ * Times without an offset are already wall-clock times there and are shown as
+ * written; times with an offset are converted. Anything else is returned as-is.
  *
- * @param dateTimeString - Can be ISO string like "2025-10-16T13:52" or already formatted
- * @returns Object with formatted date and time strings
+ * @param dateTimeString - e.g. "2025-10-16T13:52" or "2025-10-16T13:52:00-04:00"
+ * @param timeZone - IANA timezone (default: the business timezone)
+ * @returns Object with formatted date (MM/DD/YYYY) and time (H:MM AM/PM)
  */
-export function formatPickupDateTime(dateTimeString: string): { date: string; time: string } {
+export function formatPickupDateTime(
+  dateTimeString: string,
+  timeZone: string = DEFAULT_BUSINESS_TIMEZONE
+): { date: string; time: string } {
   // If already formatted (contains AM/PM), return as-is
   if (/\d{1,2}:\d{2}\s*(AM|PM)/i.test(dateTimeString)) {
     return {
@@ -527,49 +895,39 @@ export function formatPickupDateTime(dateTimeString: string): { date: string; ti
     };
   }
 
-  // Try to parse as ISO datetime (e.g., "2025-10-16T13:52")
-  try {
-    const date = new Date(dateTimeString);
-
-    // Check if date is valid
-    if (isNaN(date.getTime())) {
-      // Return original if can't parse
-      return { date: dateTimeString, time: dateTimeString };
-    }
+  const wallClock = pickupWallClock(dateTimeString, timeZone);
+  if (!wallClock) {
+    // Return original if can't parse
+    return { date: dateTimeString, time: dateTimeString };
+  }
 
-    // Format date as MM/DD/YYYY
-    const month = String(date.getMonth() + 1).padStart(2, '0');
-    const day = String(date.getDate()).padStart(2, '0');
-    const year = date.getFullYear();
-    const formattedDate = `${month}/${day}/${year}`;
+  // Format date as MM/DD/YYYY
+  const month = String(wallClock.month).padStart(2, '0');
+  const day = String(wallClock.day).padStart(2, '0');
+  const formattedDate = `${month}/${day}/${wallClock.year}`;
 
-    // Format time as H:MM AM/PM (without leading zero for hours)
-    let hours = date.getHours();
-    const minutes = String(date.getMinutes()).padStart(2, '0');
-    const ampm = hours >= 12 ? 'PM' : 'AM';
-    hours = hours % 12 || 12; // Convert to 12-hour format
-    const formattedTime = `${hours}:${minutes} ${ampm}`;
+  // Format time as H:MM AM/PM (without leading zero for hours)
+  const minutes = String(wallClock.minute).padStart(2, '0');
+  const ampm = wallClock.hour >= 12 ? 'PM' : 'AM';
+  const hours = wallClock.hour % 12 || 12; // Convert to 12-hour format
+  const formattedTime = `${hours}:${minutes} ${ampm}`;
 
-    return {
-      date: formattedDate,
-      time: formattedTime
-    };
-  } catch (error) {
-    // Return original if any error
-    return { date: dateTimeString, time: dateTimeString };
-  }
+  return {
+    date: formattedDate,
+    time: formattedTime
+  };
 }
 
 /**
  * @deprecated Use formatPickupDateTime instead
  * Format date for display in tickets
- * Converts UTC time to the specified timezone before formatting
+ * Converts the time to the specified timezone before formatting
  *
- * @param dateString ISO date string (typically in UTC)
- * @param timeZone IANA timezone (default: America/New_York)
+ * @param dateString ISO date string (without an offset: wall-clock time in `timeZone`)
+ * @param timeZone IANA timezone (default: the business timezone)
  */
-export function formatTicketDate(dateString: string, timeZone: string = 'America/New_York'): string {
-  const date = new Date(dateString);
+export function formatTicketDate(dateString: string, timeZone: string = DEFAULT_BUSINESS_TIMEZONE): string {
+  const date = new Date(parsePickupDateTime(dateString, timeZone) ?? NaN);
   const options: Intl.DateTimeFormatOptions = {
     month: 'short',
     day: 'numeric',
@@ -582,13 +940,13 @@ export function formatTicketDate(dateString: string, timeZone: string = 'America
 /**
  * @deprecated Use formatPickupDateTime instead
  * Format time for display in tickets
- * Converts UTC time to the specified timezone before formatting
+ * Converts the time to the specified timezone before formatting
  *
- * @param dateString ISO date string (typically in UTC)
- * @param timeZone IANA timezone (default: America/New_York)
+ * @param dateString ISO date string (without an offset: wall-clock time in `timeZone`)
+ * @param timeZone IANA timezone (default: the business timezone)
  */
-export function formatTicketTime(dateString: string, timeZone: string = 'America/New_York'): string {
-  const date = new Date(dateString);
+export function formatTicketTime(dateString: string, timeZone: string = DEFAULT_BUSINESS_TIMEZONE): string {
+  const date = new Date(parsePickupDateTime(dateString, timeZone) ?? NaN);
   const options: Intl.DateTimeFormatOptions = {
     hour: 'numeric',
     minute: '2-digit',
@@ -601,16 +959,27 @@ export function formatTicketTime(dateString: string, timeZone: string = 'America
 /**
  * Calculate estimated arrival time given pickup time and duration
  */
-export function calculateArrivalTime(pickupTime: string, durationMinutes: number): string {
-  const pickup = new Date(pickupTime);
+export function calculateArrivalTime(
+  pickupTime: string,
+  durationMinutes: number,
+  timeZone: string = DEFAULT_BUSINESS_TIMEZONE
+): string {
+  const pickup = new Date(parsePickupDateTime(pickupTime, timeZone) ?? NaN);
   const arrival = new Date(pickup.getTime() + (durationMinutes * 60000));
   return arrival.toISOString();
 }
 
 /**
- * Extract duration in minutes from duration string (e.g., "25 minutes" -> 25)
+ * Extract duration in minutes from duration string
+ * e.g. "25 minutes" -> 25, "1 hour 45 minutes" -> 105, "2 hrs" -> 120
  */
 export function parseDurationMinutes(duration: string): number {
+  const hours = duration.match(/(\d+(?:\.\d+)?)\s*(?:hours?|hrs?|h)\b/i);
+  const minutes = duration.match(/(\d+)\s*(?:minutes?|mins?|m)\b/i);
+  if (hours || minutes) {
+    return Math.round((hours ? parseFloat(hours[1]) * 60 : 0) + (minutes ? parseInt(minutes[1], 10) : 0));
+  }
+
   const match = duration.match(/(\d+)/);
   return match ? parseInt(match[1], 10) : 30; // Default to 30 minutes
 }
@@ -634,9 +1003,9 @@ export function escapeHtml(text: string): string {
  * Example: "2025-12-10T15:45:18.840Z" -> "December 10, 2025 at 10:45 AM EST"
  *
  * @param isoTimestamp - ISO 8601 timestamp string
- * @param timeZone - IANA timezone (default: America/New_York)
+ * @param timeZone - IANA timezone (default: the business timezone)
  */
-export function formatHumanReadableTimestamp(isoTimestamp: string, timeZone: string = 'America/New_York'): string {
+export function formatHumanReadableTimestamp(isoTimestamp: string, timeZone: string = DEFAULT_BUSINESS_TIMEZONE): string {
   try {
     const date = new Date(isoTimestamp);
 
@@ -0,0 +1,243 @@
+/**
+ * Business Timezone
+ *
+ * Pickup times are entered as wall-clock times where the business operates
+ * (e.g. "2025-02-20T14:30" from a datetime-local input). Workers run in UTC,
+ * so every parse, comparison and display of a pickup goes through this module
+ * with the zone configured in BUSINESS_TIMEZONE (default America/New_York).
+ *
+ * - Times without an offset are read as wall-clock times in the business zone
+ * - Bookings store the pickup normalized with its offset ("2025-02-20T14:30:00-05:00")
+ * - Wall-clock times in a DST gap move forward by the gap (02:30 → 03:30 on the
+ *   spring-forward day); times that occur twice use the first (daylight) one
+ */
+
+export const DEFAULT_BUSINESS_TIMEZONE = "America/New_York";
+
+export interface BusinessTimeEnv {
+  BUSINESS_TIMEZONE?: string;   // IANA timezone, e.g. "America/New_York"
+}
+
+export interface WallClockTime {
+  year: number;
+  month: number;    // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// "2025-02-20", "2025-02-20T14:30" or "2025-02-20T14:30:00(.000)" with no offset
+const WALL_CLOCK_PATTERN = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?)?$/;
+// ISO 8601 date-time with Z or a numeric offset
+const ZONED_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})$/i;
+
+const logger = {
+  warn: (event: string, data?: Record<string, unknown>) =>
+    console.warn(JSON.stringify({ level: 'WARN', event, ...data, timestamp: new Date().toISOString() })),
+};
+
+/**
+ * The configured business timezone
+ * An unknown zone is logged and the default is used, so a typo cannot take bookings down.
+ */
+export function businessTimeZone(env: BusinessTimeEnv): string {
+  const configured = env.BUSINESS_TIMEZONE?.trim();
+  if (!configured) {
+    return DEFAULT_BUSINESS_TIMEZONE;
+  }
+  if (!isValidTimeZone(configured)) {
+    logger.warn('time.invalid_business_timezone', { configured, fallback: DEFAULT_BUSINESS_TIMEZONE });
+    return DEFAULT_BUSINESS_TIMEZONE;
+  }
+  return configured;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parse a wall-clock time without an offset, or null when the value has one
+ * or is not a valid date
+ */
+export function parseWallClock(value: string): WallClockTime | null {
+  const match = value.trim().match(WALL_CLOCK_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hour, minute, second] = match;
+  const wallClock = {
+    year: Number(year),
+    month: Number(month),
+    day: Number(day),
+    hour: Number(hour ?? 0),
+    minute: Number(minute ?? 0),
+    second: Number(second ?? 0),
+  };
+
+  // Reject dates that roll over, e.g. February 30
+  const check = new Date(Date.UTC(wallClock.year, wallClock.month - 1, wallClock.day));
+  if (
+    check.getUTCMonth() !== wallClock.month - 1 ||
+    check.getUTCDate() !== wallClock.day ||
+    wallClock.hour > 23 || wallClock.minute > 59 || wallClock.second > 59
+  ) {
+    return null;
+  }
+  return wallClock;
+}
+
+/**
+ * Parse a pickup time to epoch ms, or null when it is not a valid date
+ * Values without an offset are wall-clock times in `timeZone`.
+ */
+export function parsePickupDateTime(value: string, timeZone: string = DEFAULT_BUSINESS_TIMEZONE): number | null {
+  const wallClock = parseWallClock(value);
+  if (wallClock) {
+    return zonedTimeToEpoch(wallClock, timeZone);
+  }
+
+  if (!ZONED_PATTERN.test(value.trim())) {
+    return null;
+  }
+  const time = Date.parse(value.trim());
+  return Number.isNaN(time) ? null : time;
+}
+
+/**
+ * Normalize a pickup time to ISO 8601 with the business zone's offset,
+ * e.g. "2025-02-20T14:30" → "2025-02-20T14:30:00-05:00"; null when invalid
+ */
+export function normalizePickupDateTime(value: string, timeZone: string = DEFAULT_BUSINESS_TIMEZONE): string | null {
+  const time = parsePickupDateTime(value, timeZone);
+  return time === null ? null : formatZonedIso(time, timeZone);
+}
+
+/**
+ * ISO 8601 time of an instant in `timeZone` with its offset, e.g. "2025-07-04T14:30:00-04:00"
+ */
+export function formatZonedIso(epochMs: number, timeZone: string = DEFAULT_BUSINESS_TIMEZONE): string {
+  const wallClock = toWallClock(epochMs, timeZone);
+  return `${formatWallClockIso(wallClock)}${formatUtcOffset(timeZoneOffsetMinutes(epochMs, timeZone))}`;
+}
+
+/**
+ * Value for a datetime-local input, e.g. "2025-07-04T14:30"
+ */
+export function formatDateTimeLocal(epochMs: number, timeZone: string = DEFAULT_BUSINESS_TIMEZONE): string {
+  return formatWallClockIso(toWallClock(epochMs, timeZone)).slice(0, 16);
+}
+
+/**
+ * Wall-clock time of an instant in `timeZone`
+ */
+export function toWallClock(epochMs: number, timeZone: string = DEFAULT_BUSINESS_TIMEZONE): WallClockTime {
+  return utcParts(epochMs + timeZoneOffsetMinutes(epochMs, timeZone) * MINUTE_MS);
+}
+
+/**
+ * Wall-clock time of a pickup in `timeZone`: offset-less values as written,
+ * anything else converted. Null when invalid.
+ */
+export function pickupWallClock(value: string, timeZone: string = DEFAULT_BUSINESS_TIMEZONE): WallClockTime | null {
+  const wallClock = parseWallClock(value);
+  if (wallClock) {
+    return wallClock;
+  }
+  const time = parsePickupDateTime(value, timeZone);
+  return time === null ? null : toWallClock(time, timeZone);
+}
+
+/**
+ * The instant a wall-clock time in `timeZone` refers to
+ */
+export function zonedTimeToEpoch(wallClock: WallClockTime, timeZone: string): number {
+  const asUtc = Date.UTC(
+    wallClock.year, wallClock.month - 1, wallClock.day,
+    wallClock.hour, wallClock.minute, wallClock.second
+  );
+
+  // The offset in force is one of the offsets a day either side
+  const offsetBefore = timeZoneOffsetMinutes(asUtc - DAY_MS, timeZone);
+  const offsetAfter = timeZoneOffsetMinutes(asUtc + DAY_MS, timeZone);
+  const matching = [offsetBefore, offsetAfter].filter(
+    offset => timeZoneOffsetMinutes(asUtc - offset * MINUTE_MS, timeZone) === offset
+  );
+
+  if (matching.length === 0) {
+    // Skipped by a spring-forward change: keep the offset from before it
+    return asUtc - offsetBefore * MINUTE_MS;
+  }
+  // Repeated by a fall-back change: the larger offset is the earlier instant
+  return asUtc - Math.max(...matching) * MINUTE_MS;
+}
+
+/**
+ * UTC offset of `timeZone` at an instant, in minutes east of UTC (e.g. -300 for EST)
+ */
+export function timeZoneOffsetMinutes(epochMs: number, timeZone: string): number {
+  const parts = getFormatter(timeZone).formatToParts(new Date(epochMs));
+  const value = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(part => part.type === type)?.value);
+
+  const asUtc = Date.UTC(value("year"), value("month") - 1, value("day"), value("hour") % 24, value("minute"), value("second"));
+  return Math.round((asUtc - Math.floor(epochMs / 1000) * 1000) / MINUTE_MS);
+}
+
+/**
+ * Offset as used in ISO 8601, e.g. -300 → "-05:00"
+ */
+export function formatUtcOffset(minutes: number): string {
+  const sign = minutes < 0 ? "-" : "+";
+  const absolute = Math.abs(minutes);
+  return `${sign}${pad(Math.floor(absolute / 60))}:${pad(absolute % 60)}`;
+}
+
+function formatWallClockIso(value: WallClockTime): string {
+  return `${pad(value.year, 4)}-${pad(value.month)}-${pad(value.day)}T${pad(value.hour)}:${pad(value.minute)}:${pad(value.second)}`;
+}
+
+function utcParts(epochMs: number): WallClockTime {
+  const date = new Date(epochMs);
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+    hour: date.getUTCHours(),
+    minute: date.getUTCMinutes(),
+    second: date.getUTCSeconds(),
+  };
+}
+
+function pad(value: number, length: number = 2): string {
+  return String(value).padStart(length, "0");
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
@@ -7,18 +7,20 @@
  * Required:
  *   - E2E_WORKER_URL: The deployed worker URL (e.g., https://ac-shuttle-worker.example.workers.dev)
  *   - E2E_API_KEY: The real API key for the worker
+ *   - E2E_ACTION_SIGNING_SECRET: The worker's ACTION_SIGNING_SECRET (to build accept/deny links)
  *
  * Optional (for email validation):
  *   - E2E_TEST_EMAIL: A temp email address to receive emails (e.g., from Mailinator)
  *   - MAILINATOR_API_KEY: API key for Mailinator to fetch emails programmatically
  *
  * Usage:
- *   E2E_WORKER_URL=https://... E2E_API_KEY=... npm run test:e2e
+ *   E2E_WORKER_URL=https://... E2E_API_KEY=... E2E_ACTION_SIGNING_SECRET=... npm run test:e2e
  *
  * Or create a .env.test file with these values.
  */
 
 import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createActionToken } from '../../src/layers/security';
 
 // =============================================================================
 // CONFIGURATION
@@ -29,8 +31,10 @@ const config = {
   apiKey: process.env.E2E_API_KEY || '',
   testEmail: process.env.E2E_TEST_EMAIL || 'acshuttles-test@mailinator.com',
   mailinatorApiKey: process.env.MAILINATOR_API_KEY || '',
+  // Must match the deployed worker's ACTION_SIGNING_SECRET to build accept/deny links
+  actionSigningSecret: process.env.E2E_ACTION_SIGNING_SECRET || '',
   // Whether to actually run E2E tests (skip if not configured)
-  enabled: !!(process.env.E2E_WORKER_URL && process.env.E2E_API_KEY),
+  enabled: !!(process.env.E2E_WORKER_URL && process.env.E2E_API_KEY && process.env.E2E_ACTION_SIGNING_SECRET),
 };
 
 // Skip all tests if not configured
@@ -73,14 +77,37 @@ async function createBooking(payload: BookingPayload): Promise<{
 }
 
 async function acceptBooking(transactionId: string): Promise<Response> {
-  return fetch(`${config.workerUrl}/accept/${transactionId}`, {
-    method: 'GET',
-  });
+  const token = await createActionToken({ ACTION_SIGNING_SECRET: config.actionSigningSecret }, transactionId, 'accept');
+  return submitDecisionForm(`${config.workerUrl}/accept/${token}`);
 }
 
 async function denyBooking(transactionId: string): Promise<Response> {
-  return fetch(`${config.workerUrl}/deny/${transactionId}`, {
-    method: 'GET',
+  const token = await createActionToken({ ACTION_SIGNING_SECRET: config.actionSigningSecret }, transactionId, 'deny');
+  return submitDecisionForm(`${config.workerUrl}/deny/${token}`);
+}
+
+/**
+ * Open the review page and submit its form, as the owner's browser would
+ * Returns the review response as-is when the booking is no longer pending
+ */
+async function submitDecisionForm(url: string): Promise<Response> {
+  const review = await fetch(url, { method: 'GET' });
+  const html = await review.clone().text();
+  const csrfToken = html.match(/name="csrf_token" value="([^"]+)"/)?.[1];
+  const cookie = review.headers.get('Set-Cookie')?.split(';')[0];
+
+  if (!csrfToken || !cookie) {
+    return review;
+  }
+
+  return fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'Origin': new URL(url).origin,
+      'Cookie': cookie,
+    },
+    body: new URLSearchParams({ csrf_token: csrfToken }).toString(),
   });
 }
 
@@ -399,9 +426,7 @@ describeE2E.skip('Manual: Create Booking for Email Validation', () => {
     console.log(`Test Email: ${config.testEmail}`);
     console.log('\nPlease check your email inbox for:');
     console.log('1. Customer acknowledgment email');
-    console.log('\nThen test accept/deny:');
-    console.log(`Accept URL: ${config.workerUrl}/accept/${result.transactionId}`);
-    console.log(`Deny URL: ${config.workerUrl}/deny/${result.transactionId}`);
+    console.log('\nThen test accept/deny using the links in the owner notification email');
     console.log('==============================================\n');
 
     expect(result.ok).toBe(true);
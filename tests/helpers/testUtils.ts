@@ -5,18 +5,23 @@
  */
 
 import { vi, expect } from 'vitest';
+import { createActionToken } from '../../src/layers/security';
+import { hmacSign, base64Encode, base64Decode } from '../../src/layers/security/signing';
 
 // =============================================================================
 // MOCK DATA FIXTURES
 // =============================================================================
 
+// 2:30 PM three weeks from now, inside the default booking rules
+const MOCK_PICKUP_DATE = new Date(Date.now() + 21 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
 export const mockBookingPayload = {
   customer_name: 'John Smith',
   customer_email: 'john.smith@example.com',
   customer_phone: '609-555-0100',
   start_location: '123 Main Street, Philadelphia, PA 19103',
   end_location: 'Newark Liberty International Airport, Newark, NJ',
-  pickup_datetime: '2025-02-20T14:30:00',
+  pickup_datetime: `${MOCK_PICKUP_DATE}T14:30:00`,
   passengers: 3,
   estimated_distance: '95 miles',
   estimated_duration: '1 hour 45 minutes',
@@ -37,10 +42,15 @@ export const mockEnv = {
   CUSTOMER_FROM_EMAIL: 'contact@acshuttles.com',
   OWNER_EMAIL: 'owner@acshuttles.com',
   RESEND_DRY_RUN: 'false',
+  RESEND_WEBHOOK_SECRET: 'whsec_dGVzdC13ZWJob29rLXNpZ25pbmctc2VjcmV0',
+  CALENDAR_FEED_SECRET: 'test-calendar-feed-secret',
 
   // Worker URL
   WORKER_URL: 'https://test-worker.example.com',
 
+  // Action link signing
+  ACTION_SIGNING_SECRET: 'test-action-signing-secret',
+
   // Driver Contact Info
   DRIVER_CONTACT_NAME: 'Mike Johnson',
   DRIVER_CONTACT_EMAIL: 'driver@acshuttles.com',
@@ -63,6 +73,9 @@ export const mockEnv = {
   SHEETS_RETRY_DELAY_MS: '10', // Fast for tests
   SHEETS_VERIFY_WRITES: 'true',
 
+  // Email outbox kept in the isolate
+  EMAIL_OUTBOX: 'memory',
+
   // Logging
   VERBOSE_LOGGING: 'false',
 };
@@ -91,8 +104,65 @@ export interface MockSheetRow {
   status: string;
   mapUrl: string;
   rawPayload: string;
+  reminderSentAt: string;
+  requestedPickupDatetime: string;
+  denialReason: string;
+  alternativePickupDatetime: string;
+  ownerNotes: string;
+  driverId: string;
+  vehicleId: string;
+  vehicleName: string;
+  quoteTotal: string;
+  quote: string;
+  reservationId: string;
+  tripLeg: string;
+  stops: string;
+  seriesId: string;
+  recurrence: string;
+  serviceArea: string;
 }
 
+/**
+ * Header row matching the column order of createMockSheetRow
+ */
+export const MOCK_SHEET_HEADERS = [
+  'Transaction ID',
+  'Idempotency Key',
+  'Submitted At',
+  'Customer Name',
+  'Customer Email',
+  'Customer Phone',
+  'Start Location',
+  'End Location',
+  'Pickup DateTime',
+  'Estimated Distance',
+  'Estimated Duration',
+  'Passengers',
+  'Notes',
+  'Driver Name',
+  'Driver Email',
+  'Driver Phone',
+  'Status',
+  'Google Maps URL',
+  'Raw Payload',
+  'Reminder Sent At',
+  'Requested Pickup DateTime',
+  'Denial Reason',
+  'Alternative Pickup DateTime',
+  'Owner Notes',
+  'Driver ID',
+  'Vehicle ID',
+  'Vehicle',
+  'Quote Total',
+  'Quote',
+  'Reservation ID',
+  'Trip Leg',
+  'Stops',
+  'Series ID',
+  'Recurrence',
+  'Service Area',
+];
+
 export function createMockSheetRow(overrides: Partial<MockSheetRow> = {}): (string | number)[] {
   const row: MockSheetRow = {
     transactionId: 'txn-test-12345678',
@@ -114,6 +184,22 @@ export function createMockSheetRow(overrides: Partial<MockSheetRow> = {}): (stri
     status: 'Pending Review',
     mapUrl: 'https://google.com/maps/dir/?api=1&origin=...',
     rawPayload: '{}',
+    reminderSentAt: '',
+    requestedPickupDatetime: '',
+    denialReason: '',
+    alternativePickupDatetime: '',
+    ownerNotes: '',
+    driverId: '',
+    vehicleId: '',
+    vehicleName: '',
+    quoteTotal: '',
+    quote: '',
+    reservationId: '',
+    tripLeg: '',
+    stops: '',
+    seriesId: '',
+    recurrence: '',
+    serviceArea: '',
     ...overrides,
   };
 
@@ -137,18 +223,38 @@ export function createMockSheetRow(overrides: Partial<MockSheetRow> = {}): (stri
     row.status,
     row.mapUrl,
     row.rawPayload,
+    row.reminderSentAt,
+    row.requestedPickupDatetime,
+    row.denialReason,
+    row.alternativePickupDatetime,
+    row.ownerNotes,
+    row.driverId,
+    row.vehicleId,
+    row.vehicleName,
+    row.quoteTotal,
+    row.quote,
+    row.reservationId,
+    row.tripLeg,
+    row.stops,
+    row.seriesId,
+    row.recurrence,
+    row.serviceArea,
   ];
 }
 
 export function createMockGoogleSheetsClient(options: {
+  headerRow?: string[] | null;  // Row 1; null for an empty sheet
   existingRows?: (string | number)[][];
+  driverRows?: (string | number)[][];  // Drivers tab, header included; empty by default
   appendRowNumber?: number;
   shouldFailAppend?: boolean;
   shouldFailRead?: boolean;
   shouldFailUpdate?: boolean;
 } = {}) {
   const {
+    headerRow = MOCK_SHEET_HEADERS,
     existingRows = [],
+    driverRows = [],
     appendRowNumber = 5,
     shouldFailAppend = false,
     shouldFailRead = false,
@@ -158,12 +264,28 @@ export function createMockGoogleSheetsClient(options: {
   // Track writes for verification
   const appendedRows: (string | number | null)[][] = [];
   const updatedCells: { range: string; values: (string | number | null)[][] }[] = [];
+  // The Outbox tab keeps its own rows (header included), updated in place
+  const outboxRows: (string | number | null)[][] = [];
+
+  const isOutbox = (range: string) => range.startsWith('Outbox');
+  const writeOutbox = (range: string, values: (string | number | null)[][]) => {
+    const [, letters, row] = range.match(/!([A-Z]+)(\d+)/)!;
+    const column = [...letters].reduce((n, letter) => n * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+    const target = outboxRows[Number(row) - 1] ?? (outboxRows[Number(row) - 1] = []);
+    values[0].forEach((value, offset) => {
+      target[column + offset] = value;
+    });
+  };
 
   return {
-    appendRow: vi.fn().mockImplementation(async ({ values }: { values: (string | number | null)[] }) => {
+    appendRow: vi.fn().mockImplementation(async ({ range, values }: { range: string; values: (string | number | null)[] }) => {
       if (shouldFailAppend) {
         throw new Error('Mock append failed');
       }
+      if (isOutbox(range)) {
+        outboxRows.push([...values]);
+        return { success: true, updatedRange: `${range}${outboxRows.length}`, rowNumber: outboxRows.length };
+      }
       appendedRows.push(values);
       return {
         success: true,
@@ -172,23 +294,47 @@ export function createMockGoogleSheetsClient(options: {
       };
     }),
     appendAuditEntry: vi.fn().mockResolvedValue(undefined),
-    readRange: vi.fn().mockImplementation(async () => {
+    readRange: vi.fn().mockImplementation(async ({ range }: { range: string }) => {
       if (shouldFailRead) {
         throw new Error('Mock read failed');
       }
-      // Return existing rows plus any appended rows
-      return [...existingRows, ...appendedRows];
+      if (range.startsWith('Drivers')) {
+        return driverRows;
+      }
+      if (isOutbox(range)) {
+        return outboxRows.map(row => [...row]);
+      }
+      // Return the header, existing rows plus any appended rows
+      return [...(headerRow ? [headerRow] : []), ...existingRows, ...appendedRows];
     }),
     updateRange: vi.fn().mockImplementation(async ({ range, values }: { range: string; values: (string | number | null)[][] }) => {
       if (shouldFailUpdate) {
         throw new Error('Mock update failed');
       }
+      if (isOutbox(range)) {
+        writeOutbox(range, values);
+        return undefined;
+      }
       updatedCells.push({ range, values });
       return undefined;
     }),
+    batchUpdateRanges: vi.fn().mockImplementation(async ({ data }: { data: { range: string; values: (string | number | null)[][] }[] }) => {
+      if (shouldFailUpdate) {
+        throw new Error('Mock update failed');
+      }
+      for (const { range, values } of data) {
+        if (isOutbox(range)) {
+          writeOutbox(range, values);
+        } else {
+          updatedCells.push({ range, values });
+        }
+      }
+      return undefined;
+    }),
     // Test helpers
     getAppendedRows: () => appendedRows,
     getUpdatedCells: () => updatedCells,
+    getOutboxRows: () => outboxRows,
   };
 }
 
@@ -203,6 +349,7 @@ export interface CapturedEmail {
   html: string;
   text: string;
   tags?: { name: string; value: string }[];
+  attachments?: { filename: string; content: string; content_type: string }[];
   timestamp: string;
 }
 
@@ -239,14 +386,17 @@ export function createMockResendApi(options: {
         html: body.html,
         text: body.text,
         tags: body.tags,
+        attachments: body.attachments,
         timestamp: new Date().toISOString(),
       });
 
+      // Unique per email so webhook events can be matched to one message
+      const id = `msg-${Date.now()}-${sentEmails.length}`;
       return {
         ok: true,
         status: 200,
-        text: async () => JSON.stringify({ id: `msg-${Date.now()}` }),
-        json: async () => ({ id: `msg-${Date.now()}` }),
+        text: async () => JSON.stringify({ id }),
+        json: async () => ({ id }),
       };
     }
 
@@ -288,18 +438,160 @@ export function createBookingRequest(
   });
 }
 
-export function createAcceptRequest(transactionId: string): Request {
-  return new Request(`https://test-worker.example.com/accept/${transactionId}`, {
+export function createQuoteRequest(
+  payload: Record<string, unknown> = mockBookingPayload,
+  apiKey: string = mockEnv.API_KEY
+): Request {
+  return new Request('https://test-worker.example.com/quote', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-API-Key': apiKey,
+    },
+    body: JSON.stringify(payload),
+  });
+}
+
+export async function createAcceptRequest(transactionId: string): Promise<Request> {
+  const token = await createActionToken(mockEnv, transactionId, 'accept');
+  return new Request(`https://test-worker.example.com/accept/${token}`, {
     method: 'GET',
   });
 }
 
-export function createDenyRequest(transactionId: string): Request {
-  return new Request(`https://test-worker.example.com/deny/${transactionId}`, {
+export async function createDenyRequest(transactionId: string): Promise<Request> {
+  const token = await createActionToken(mockEnv, transactionId, 'deny');
+  return new Request(`https://test-worker.example.com/deny/${token}`, {
     method: 'GET',
   });
 }
 
+export async function createCancelRequest(transactionId: string, expiresAt?: number): Promise<Request> {
+  const token = await createActionToken(mockEnv, transactionId, 'cancel', undefined, expiresAt);
+  return new Request(`https://test-worker.example.com/cancel/${token}`, {
+    method: 'GET',
+  });
+}
+
+export async function createRescheduleRequest(transactionId: string, expiresAt?: number): Promise<Request> {
+  const token = await createActionToken(mockEnv, transactionId, 'reschedule', undefined, expiresAt);
+  return new Request(`https://test-worker.example.com/reschedule/${token}`, {
+    method: 'GET',
+  });
+}
+
+export async function createRescheduleDecisionRequest(
+  transactionId: string,
+  decision: 'approve' | 'decline'
+): Promise<Request> {
+  const token = await createActionToken(mockEnv, transactionId, `${decision}_reschedule`);
+  return new Request(`https://test-worker.example.com/${decision}-reschedule/${token}`, {
+    method: 'GET',
+  });
+}
+
+export async function createBookAlternativeRequest(transactionId: string, expiresAt?: number): Promise<Request> {
+  const token = await createActionToken(mockEnv, transactionId, 'book_alternative', undefined, expiresAt);
+  return new Request(`https://test-worker.example.com/book-alternative/${token}`, {
+    method: 'GET',
+  });
+}
+
+/**
+ * Build the POST a browser would send from a review/confirmation page
+ * Copies the CSRF cookie and hidden form field from the review response
+ */
+export async function createDecisionSubmitRequest(
+  reviewRequest: Request,
+  reviewResponse: Response,
+  fields: Record<string, string> = {}
+): Promise<Request> {
+  const html = await reviewResponse.text();
+  const csrfToken = html.match(/name="csrf_token" value="([^"]+)"/)?.[1];
+  const cookie = reviewResponse.headers.get('Set-Cookie')?.split(';')[0];
+
+  if (!csrfToken || !cookie) {
+    throw new Error('Review page did not include a CSRF form');
+  }
+
+  return new Request(reviewRequest.url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'Origin': new URL(reviewRequest.url).origin,
+      'Cookie': cookie,
+    },
+    body: new URLSearchParams({ ...fields, csrf_token: csrfToken }).toString(),
+  });
+}
+
+export function createStatusChangeRequest(
+  transactionId: string,
+  body: Record<string, unknown>,
+  apiKey: string = mockEnv.API_KEY
+): Request {
+  return new Request(`https://test-worker.example.com/bookings/${transactionId}/status`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-API-Key': apiKey,
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+export function createDriverRequest(
+  path: string = '/drivers',
+  method: string = 'GET',
+  body?: Record<string, unknown>,
+  apiKey: string = mockEnv.API_KEY
+): Request {
+  return new Request(`https://test-worker.example.com${path}`, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      'X-API-Key': apiKey,
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+}
+
+/**
+ * Svix-style signature header value for a webhook body
+ */
+export async function signWebhook(
+  body: string,
+  svixId: string,
+  timestamp: number,
+  secret: string = mockEnv.RESEND_WEBHOOK_SECRET
+): Promise<string> {
+  const key = base64Decode(secret.replace(/^whsec_/, ''));
+  return `v1,${base64Encode(await hmacSign(key, `${svixId}.${timestamp}.${body}`))}`;
+}
+
+/**
+ * A signed Resend webhook delivery; `timestamp` is unix seconds
+ */
+export async function createResendWebhookRequest(
+  event: Record<string, unknown>,
+  options: { secret?: string; timestamp?: number; signature?: string } = {}
+): Promise<Request> {
+  const body = JSON.stringify(event);
+  const svixId = `msg_${Math.random().toString(36).slice(2, 12)}`;
+  const timestamp = options.timestamp ?? Math.floor(Date.now() / 1000);
+
+  return new Request('https://test-worker.example.com/webhooks/resend', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'svix-id': svixId,
+      'svix-timestamp': String(timestamp),
+      'svix-signature': options.signature ?? await signWebhook(body, svixId, timestamp, options.secret),
+    },
+    body,
+  });
+}
+
 export function createHealthRequest(): Request {
   return new Request('https://test-worker.example.com/health', {
     method: 'GET',
@@ -314,9 +606,26 @@ export async function expectSuccessResponse(response: Response): Promise<{
   transactionId: string;
   receivedAt: string;
   dryRun: boolean;
+  duplicate?: boolean;
+  quote?: Record<string, unknown> | null;
+  reservationId?: string | null;
+  returnLeg?: { transactionId: string; pickupDatetime: string; quote: Record<string, unknown> | null };
+  seriesId?: string | null;
+  series?: Array<{ transactionId: string; pickupDatetime: string; quote: Record<string, unknown> | null }>;
 }> {
   expect(response.status).toBe(200);
-  const body = await response.json() as { ok: boolean; transactionId: string; receivedAt: string; dryRun: boolean };
+  const body = await response.json() as {
+    ok: boolean;
+    transactionId: string;
+    receivedAt: string;
+    dryRun: boolean;
+    duplicate?: boolean;
+    quote?: Record<string, unknown> | null;
+    reservationId?: string | null;
+    returnLeg?: { transactionId: string; pickupDatetime: string; quote: Record<string, unknown> | null };
+    seriesId?: string | null;
+    series?: Array<{ transactionId: string; pickupDatetime: string; quote: Record<string, unknown> | null }>;
+  };
   expect(body.ok).toBe(true);
   expect(body.transactionId).toBeDefined();
   expect(body.transactionId.length).toBe(36); // UUID format
@@ -348,6 +657,16 @@ export async function expectHtmlResponse(response: Response, expectedStatus: num
 // EMAIL VALIDATORS
 // =============================================================================
 
+/**
+ * Decoded text of a captured email's calendar attachment, if any
+ */
+export function getCalendarAttachment(email: CapturedEmail): string | undefined {
+  const attachment = email.attachments?.find(a => a.filename.endsWith('.ics'));
+  if (!attachment) return undefined;
+  const bytes = Uint8Array.from(atob(attachment.content), c => c.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+}
+
 export function validateOwnerNotificationEmail(email: CapturedEmail, booking: typeof mockBookingPayload) {
   expect(email.to).toBe(mockEnv.OWNER_EMAIL);
   expect(email.subject).toContain('New Booking');
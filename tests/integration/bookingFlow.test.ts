@@ -19,6 +19,7 @@ vi.mock('../../src/integrations/googleSheets', () => ({
     appendAuditEntry: vi.fn().mockResolvedValue(undefined),
     readRange: vi.fn().mockResolvedValue([]),
     updateRange: vi.fn().mockResolvedValue(undefined),
+    batchUpdateRanges: vi.fn().mockResolvedValue(undefined),
   })),
 }));
 
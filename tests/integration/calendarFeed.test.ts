@@ -0,0 +1,111 @@
+/**
+ * Owner Calendar Feed Tests
+ *
+ * GET /calendar/{secret}.ics serves upcoming confirmed rides from the booking
+ * store as an iCalendar feed, with ETag revalidation.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import worker from '../../src/index';
+import { getMemoryBookingStore, transitionBookingStatus, type BookingStatus } from '../../src/layers/coordination';
+import { getMemoryOutboxStore } from '../../src/layers/outbox';
+import {
+  mockBookingPayload,
+  mockEnv,
+  createMockResendApi,
+  createBookingRequest,
+  expectSuccessResponse,
+} from '../helpers/testUtils';
+
+const memoryEnv = { ...mockEnv, BOOKING_STORE: 'memory' };
+const HOUR = 60 * 60 * 1000;
+const originalFetch = global.fetch;
+
+beforeEach(() => {
+  global.fetch = createMockResendApi().fetch as unknown as typeof fetch;
+  getMemoryBookingStore().clear();
+  getMemoryOutboxStore().clear();
+});
+
+afterEach(() => {
+  global.fetch = originalFetch;
+});
+
+async function createBooking(pickupInHours: number, statuses: BookingStatus[], name: string = mockBookingPayload.customer_name) {
+  const payload = {
+    ...mockBookingPayload,
+    customer_name: name,
+    pickup_datetime: new Date(Date.now() + pickupInHours * HOUR).toISOString(),
+    idempotency_key: `feed-${name}-${pickupInHours}`,
+  };
+  const { transactionId } = await expectSuccessResponse(await worker.fetch(createBookingRequest(payload), memoryEnv as any));
+  for (const status of statuses) {
+    await transitionBookingStatus(transactionId, status, memoryEnv as any);
+  }
+  return transactionId as string;
+}
+
+function getFeed(secret: string = mockEnv.CALENDAR_FEED_SECRET, headers: Record<string, string> = {}, env: object = memoryEnv) {
+  return worker.fetch(
+    new Request(`https://test-worker.example.com/calendar/${secret}.ics`, { headers }),
+    env as any
+  );
+}
+
+describe('Owner Calendar Feed', () => {
+  it('lists upcoming confirmed rides only', async () => {
+    const accepted = await createBooking(48, ['Accepted'], 'Accepted Rider');
+    const rescheduled = await createBooking(72, ['Accepted', 'Rescheduled'], 'Rescheduled Rider');
+    await createBooking(24, [], 'Pending Rider');
+    await createBooking(96, ['Accepted', 'Cancelled'], 'Cancelled Rider');
+    // Booked four days ago for a pickup two days ago
+    vi.useFakeTimers({ now: Date.now() - 96 * HOUR, toFake: ['Date'] });
+    await createBooking(48, ['Accepted'], 'Past Rider');
+    vi.useRealTimers();
+
+    const response = await getFeed();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('text/calendar; charset=utf-8');
+    const ics = (await response.text()).replace(/\r\n /g, '');
+    expect(ics).toContain(`UID:${accepted}.owner@acshuttles.com`);
+    expect(ics).toContain(`UID:${rescheduled}.owner@acshuttles.com`);
+    expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(2);
+    expect(ics).toContain('SUMMARY:Accepted Rider: ');
+    expect(ics).not.toContain('Pending Rider');
+    expect(ics).not.toContain('Cancelled Rider');
+    expect(ics).not.toContain('Past Rider');
+  });
+
+  it('returns 304 when the ETag still matches and a new one after a change', async () => {
+    await createBooking(48, ['Accepted']);
+
+    const first = await getFeed();
+    const etag = first.headers.get('ETag')!;
+    expect(etag).toMatch(/^"[0-9a-f]{64}"$/);
+    expect(first.headers.get('Cache-Control')).toBe('private, max-age=900');
+
+    const unchanged = await getFeed(undefined, { 'If-None-Match': etag });
+    expect(unchanged.status).toBe(304);
+    expect(await unchanged.text()).toBe('');
+
+    await createBooking(72, ['Accepted'], 'Second Rider');
+    const changed = await getFeed(undefined, { 'If-None-Match': etag });
+    expect(changed.status).toBe(200);
+    expect(changed.headers.get('ETag')).not.toBe(etag);
+  });
+
+  it('returns 404 for a wrong secret or when the feed is not configured', async () => {
+    expect((await getFeed('wrong-secret')).status).toBe(404);
+    expect((await getFeed('%E0')).status).toBe(404);
+    expect((await getFeed(undefined, {}, { ...memoryEnv, CALENDAR_FEED_SECRET: undefined })).status).toBe(404);
+  });
+
+  it('only allows GET and HEAD', async () => {
+    const response = await worker.fetch(
+      new Request(`https://test-worker.example.com/calendar/${mockEnv.CALENDAR_FEED_SECRET}.ics`, { method: 'POST' }),
+      memoryEnv as any
+    );
+    expect(response.status).toBe(405);
+  });
+});
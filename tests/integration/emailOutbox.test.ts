@@ -0,0 +1,210 @@
+/**
+ * Email Outbox Tests
+ *
+ * Emails that fail on the first attempt stay in the outbox and are retried
+ * by the `scheduled()` handler; after EMAIL_MAX_ATTEMPTS they are
+ * dead-lettered and the owner is alerted. Retries are only promised by a
+ * durable outbox (D1 or Sheets).
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import worker from '../../src/index';
+import { fetchBookingEmails, getMemoryOutboxStore } from '../../src/layers/outbox';
+import {
+  mockBookingPayload,
+  mockEnv,
+  createMockGoogleSheetsClient,
+  createMockResendApi,
+  createBookingRequest,
+  expectSuccessResponse,
+} from '../helpers/testUtils';
+
+const mocks = {
+  sheetsClient: null as ReturnType<typeof createMockGoogleSheetsClient> | null,
+  resendApi: null as ReturnType<typeof createMockResendApi> | null,
+};
+
+vi.mock('../../src/integrations/googleSheets', () => ({
+  GoogleSheetsClient: vi.fn().mockImplementation(() => mocks.sheetsClient),
+}));
+
+const originalFetch = global.fetch;
+const MINUTE = 60 * 1000;
+
+function useResend(api: ReturnType<typeof createMockResendApi>) {
+  mocks.resendApi = api;
+  global.fetch = api.fetch as unknown as typeof fetch;
+}
+
+function runScheduled(
+  scheduledTime: number,
+  env: Record<string, unknown> = mockEnv,
+  cron = '0 * * * *'
+): Promise<void> {
+  const controller = { scheduledTime, cron, noRetry: () => {} } as ScheduledController;
+  return worker.scheduled(controller, env as any);
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  // No accepted bookings, so scheduled runs only work the outbox
+  mocks.sheetsClient = createMockGoogleSheetsClient({ existingRows: [] });
+  useResend(createMockResendApi());
+  getMemoryOutboxStore().clear();
+});
+
+afterEach(() => {
+  global.fetch = originalFetch;
+});
+
+describe('Email Outbox', () => {
+  it('records each sent email with its provider message ID against the booking', async () => {
+    const { transactionId } = await expectSuccessResponse(await worker.fetch(createBookingRequest(), mockEnv as any));
+
+    const emails = await fetchBookingEmails(transactionId, mockEnv as any);
+    expect(emails.map(email => email.to)).toEqual([mockEnv.OWNER_EMAIL, mockBookingPayload.customer_email]);
+    for (const email of emails) {
+      expect(email).toMatchObject({ status: 'sent', attempts: 1, provider: 'resend' });
+      expect(email.providerMessageId).toMatch(/^msg-/);
+    }
+  });
+
+  it('keeps a failed owner notification and delivers it on a later run', async () => {
+    useResend(createMockResendApi({ shouldFail: true }));
+    const { transactionId } = await expectSuccessResponse(await worker.fetch(createBookingRequest(), mockEnv as any));
+
+    const [queued] = await fetchBookingEmails(transactionId, mockEnv as any);
+    expect(queued).toMatchObject({ to: mockEnv.OWNER_EMAIL, status: 'pending', attempts: 1 });
+    expect(queued.lastError).toContain('Resend API error (500)');
+
+    // Resend recovers; nothing is due before the first backoff
+    useResend(createMockResendApi());
+    await runScheduled(Date.now());
+    expect(mocks.resendApi!.getSentEmails()).toHaveLength(0);
+
+    await runScheduled(Date.now() + 2 * MINUTE);
+
+    const sent = mocks.resendApi!.getSentEmails();
+    expect(sent).toHaveLength(1);
+    expect(sent[0].to).toBe(mockEnv.OWNER_EMAIL);
+    expect((await fetchBookingEmails(transactionId, mockEnv as any))[0]).toMatchObject({ status: 'sent', attempts: 2 });
+  });
+
+  it('dead-letters after EMAIL_MAX_ATTEMPTS and alerts the owner', async () => {
+    const env = { ...mockEnv, EMAIL_MAX_ATTEMPTS: '2' };
+    const failing = createMockResendApi({ shouldFail: true });
+    const working = createMockResendApi();
+    // Everything fails except the alert itself
+    global.fetch = (async (url: string, init?: RequestInit) => {
+      const body = JSON.parse(init?.body as string);
+      const isAlert = body.tags?.some((tag: { name: string }) => tag.name === 'email-dead-letter');
+      return (isAlert ? working : failing).fetch(url, init);
+    }) as unknown as typeof fetch;
+
+    const { transactionId } = await expectSuccessResponse(await worker.fetch(createBookingRequest(), env as any));
+    await runScheduled(Date.now() + 2 * MINUTE, env);
+
+    const [dead] = await fetchBookingEmails(transactionId, env as any);
+    expect(dead).toMatchObject({ status: 'dead', attempts: 2, nextAttemptAt: null });
+
+    const alerts = working.getSentEmails();
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0].to).toBe(mockEnv.OWNER_EMAIL);
+    expect(alerts[0].subject).toContain('Email Not Delivered');
+    expect(alerts[0].text).toContain(transactionId.slice(0, 10).toUpperCase());
+
+    // Dead emails are not retried again
+    await runScheduled(Date.now() + 3 * 60 * MINUTE, env);
+    expect(failing.getCallCount()).toBe(2);
+  });
+
+  it('retries on the 5-minute trigger without scanning for reminders', async () => {
+    useResend(createMockResendApi({ shouldFail: true }));
+    await worker.fetch(createBookingRequest(), mockEnv as any);
+    useResend(createMockResendApi());
+    vi.clearAllMocks();
+
+    await runScheduled(Date.now() + 2 * MINUTE, mockEnv, '*/5 * * * *');
+
+    expect(mocks.resendApi!.getSentEmails()).toHaveLength(1);
+    expect(mocks.sheetsClient!.readRange).not.toHaveBeenCalled();
+  });
+
+  it('does not retry in dry-run mode', async () => {
+    useResend(createMockResendApi({ shouldFail: true }));
+    await worker.fetch(createBookingRequest(), mockEnv as any);
+    useResend(createMockResendApi());
+
+    await runScheduled(Date.now() + 2 * MINUTE, { ...mockEnv, RESEND_DRY_RUN: 'true' });
+
+    expect(mocks.resendApi!.getSentEmails()).toHaveLength(0);
+    expect(getMemoryOutboxStore().getAll()[0].status).toBe('pending');
+  });
+});
+
+/**
+ * Event names and data logged at `level` while `run` executes
+ */
+async function captureLogs(level: 'error' | 'warn', run: () => Promise<unknown>): Promise<Record<string, unknown>[]> {
+  const spy = vi.spyOn(console, level).mockImplementation(() => {});
+  try {
+    await run();
+    return spy.mock.calls.map(call => JSON.parse(call[0] as string));
+  } finally {
+    spy.mockRestore();
+  }
+}
+
+describe('Outbox durability', () => {
+  it('retries from the Sheets outbox', async () => {
+    const env = { ...mockEnv, EMAIL_OUTBOX: 'sheets' };
+    useResend(createMockResendApi({ shouldFail: true }));
+
+    const logs = await captureLogs('error', async () => {
+      await expectSuccessResponse(await worker.fetch(createBookingRequest(), env as any));
+    });
+
+    expect(logs.find(log => log.event === 'booking.owner_email.failed')).toMatchObject({ willRetry: true });
+    expect(getMemoryOutboxStore().getAll()).toEqual([]);
+
+    useResend(createMockResendApi());
+    await runScheduled(Date.now() + 2 * MINUTE, env);
+
+    expect(mocks.resendApi!.getSentEmails().map(email => email.to)).toEqual([mockEnv.OWNER_EMAIL]);
+    const [, row] = mocks.sheetsClient!.getOutboxRows();
+    expect(row).toContain('sent');
+  });
+
+  it('does not promise retries from the memory outbox', async () => {
+    useResend(createMockResendApi({ shouldFail: true }));
+
+    const logs = await captureLogs('error', async () => {
+      await expectSuccessResponse(await worker.fetch(createBookingRequest(), mockEnv as any));
+    });
+
+    expect(logs.find(log => log.event === 'booking.owner_email.failed')).toMatchObject({ willRetry: false });
+  });
+
+  it('logs an error once and sends each email once without an outbox', async () => {
+    vi.resetModules();
+    const { default: freshWorker } = await import('../../src/index');
+    const env = { ...mockEnv, EMAIL_OUTBOX: undefined };
+    const failing = createMockResendApi({ shouldFail: true });
+    useResend(failing);
+
+    const logs = await captureLogs('error', async () => {
+      await expectSuccessResponse(await freshWorker.fetch(createBookingRequest(), env as any));
+      await freshWorker.fetch(createBookingRequest({ ...mockBookingPayload, passengers: 2 }), env as any);
+    });
+
+    expect(logs.filter(log => log.event === 'outbox.not_durable')).toEqual([
+      expect.objectContaining({ backend: 'none' }),
+    ]);
+    expect(logs.find(log => log.event === 'booking.owner_email.failed')).toMatchObject({ willRetry: false });
+
+    const sends = failing.getCallCount();
+    const controller = { scheduledTime: Date.now() + 2 * MINUTE, cron: '*/5 * * * *', noRetry: () => {} } as ScheduledController;
+    await freshWorker.scheduled(controller, env as any);
+    expect(failing.getCallCount()).toBe(sends);
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * Reminder Dispatch Tests
+ *
+ * Tests the Cron Trigger `scheduled()` handler that sends trip reminders.
+ * The handler uses the controller's scheduledTime as its clock, so each
+ * test drives it with a fixed timestamp.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import worker from '../../src/index';
+import { getMemoryOutboxStore } from '../../src/layers/outbox';
+import {
+  mockEnv,
+  createMockGoogleSheetsClient,
+  createMockResendApi,
+  createMockSheetRow,
+} from '../helpers/testUtils';
+
+const mocks = {
+  sheetsClient: null as ReturnType<typeof createMockGoogleSheetsClient> | null,
+  resendApi: null as ReturnType<typeof createMockResendApi> | null,
+};
+
+vi.mock('../../src/integrations/googleSheets', () => ({
+  GoogleSheetsClient: vi.fn().mockImplementation(() => mocks.sheetsClient),
+}));
+
+const originalFetch = global.fetch;
+
+const NOW = Date.parse('2025-02-20T10:00:00Z');
+const HOUR = 60 * 60 * 1000;
+
+function runScheduled(scheduledTime: number, env: Record<string, unknown> = mockEnv): Promise<void> {
+  const controller = { scheduledTime, cron: '0 * * * *', noRetry: () => {} } as ScheduledController;
+  return worker.scheduled(controller, env as any);
+}
+
+function pickupAt(offsetMs: number): string {
+  return new Date(NOW + offsetMs).toISOString();
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mocks.sheetsClient = createMockGoogleSheetsClient();
+  mocks.resendApi = createMockResendApi();
+  global.fetch = mocks.resendApi.fetch as unknown as typeof fetch;
+  getMemoryOutboxStore().clear();
+});
+
+afterEach(() => {
+  global.fetch = originalFetch;
+});
+
+describe('Scheduled Reminder Dispatch', () => {
+  it('sends a reminder for an accepted trip inside the window', async () => {
+    mocks.sheetsClient = createMockGoogleSheetsClient({
+      existingRows: [createMockSheetRow({ transactionId: 'txn-due', status: 'Accepted', pickupDatetime: pickupAt(6 * HOUR) })],
+    });
+
+    await runScheduled(NOW);
+
+    const emails = mocks.resendApi!.getSentEmails();
+    expect(emails).toHaveLength(1);
+    expect(emails[0].to).toBe('john.smith@example.com');
+    expect(emails[0].subject).toContain('Reminder');
+  });
+
+  it('names the driver assigned to the booking', async () => {
+    mocks.sheetsClient = createMockGoogleSheetsClient({
+      existingRows: [createMockSheetRow({
+        transactionId: 'txn-due',
+        status: 'Accepted',
+        pickupDatetime: pickupAt(6 * HOUR),
+        driverId: 'drv-1',
+        driverName: 'Alex Reed',
+        driverEmail: 'alex@example.com',
+        driverPhone: '609-555-0111',
+      })],
+    });
+
+    await runScheduled(NOW);
+
+    const [reminder] = mocks.resendApi!.getSentEmails();
+    expect(reminder.html).toContain('Alex Reed');
+    expect(reminder.html).toContain('609-555-0111');
+    expect(reminder.html).not.toContain(mockEnv.DRIVER_CONTACT_NAME);
+  });
+
+  it('records the reminder-sent marker in column T', async () => {
+    mocks.sheetsClient = createMockGoogleSheetsClient({
+      existingRows: [
+        createMockSheetRow({ transactionId: 'txn-other', status: 'Pending Review' }),
+        createMockSheetRow({ transactionId: 'txn-due', status: 'Accepted', pickupDatetime: pickupAt(6 * HOUR) }),
+      ],
+    });
+
+    await runScheduled(NOW);
+
+    const updates = mocks.sheetsClient!.getUpdatedCells();
+    expect(updates).toEqual([{ range: 'Sheet1!T3:T3', values: [[new Date(NOW).toISOString()]] }]);
+  });
+
+  it('reminds a rider whose reschedule request is still waiting for the owner', async () => {
+    mocks.sheetsClient = createMockGoogleSheetsClient({
+      existingRows: [createMockSheetRow({ transactionId: 'txn-due', status: 'Reschedule Requested', pickupDatetime: pickupAt(6 * HOUR) })],
+    });
+
+    await runScheduled(NOW);
+
+    const emails = mocks.resendApi!.getSentEmails();
+    expect(emails).toHaveLength(1);
+    expect(emails[0].subject).toContain('Reminder');
+  });
+
+  it('skips bookings that are not accepted', async () => {
+    mocks.sheetsClient = createMockGoogleSheetsClient({
+      existingRows: [
+        createMockSheetRow({ transactionId: 'txn-pending', status: 'Pending Review', pickupDatetime: pickupAt(6 * HOUR) }),
+        createMockSheetRow({ transactionId: 'txn-denied', status: 'Denied', pickupDatetime: pickupAt(6 * HOUR) }),
+      ],
+    });
+
+    await runScheduled(NOW);
+
+    expect(mocks.resendApi!.getSentEmails()).toHaveLength(0);
+  });
+
+  it('skips trips outside the window or already in the past', async () => {
+    mocks.sheetsClient = createMockGoogleSheetsClient({
+      existingRows: [
+        createMockSheetRow({ transactionId: 'txn-later', status: 'Accepted', pickupDatetime: pickupAt(30 * HOUR) }),
+        createMockSheetRow({ transactionId: 'txn-past', status: 'Accepted', pickupDatetime: pickupAt(-2 * HOUR) }),
+        createMockSheetRow({ transactionId: 'txn-bad-date', status: 'Accepted', pickupDatetime: 'not a date' }),
+      ],
+    });
+
+    await runScheduled(NOW);
+
+    expect(mocks.resendApi!.getSentEmails()).toHaveLength(0);
+    expect(mocks.sheetsClient!.batchUpdateRanges).not.toHaveBeenCalled();
+  });
+
+  it('does not resend once the marker is set', async () => {
+    mocks.sheetsClient = createMockGoogleSheetsClient({
+      existingRows: [createMockSheetRow({
+        transactionId: 'txn-done',
+        status: 'Accepted',
+        pickupDatetime: pickupAt(6 * HOUR),
+        reminderSentAt: new Date(NOW - HOUR).toISOString(),
+      })],
+    });
+
+    await runScheduled(NOW);
+
+    expect(mocks.resendApi!.getSentEmails()).toHaveLength(0);
+  });
+
+  it('picks up a trip on a later run once it enters the window', async () => {
+    mocks.sheetsClient = createMockGoogleSheetsClient({
+      existingRows: [createMockSheetRow({ transactionId: 'txn-due', status: 'Accepted', pickupDatetime: pickupAt(26 * HOUR) })],
+    });
+
+    await runScheduled(NOW);
+    expect(mocks.resendApi!.getSentEmails()).toHaveLength(0);
+
+    await runScheduled(NOW + 3 * HOUR);
+    expect(mocks.resendApi!.getSentEmails()).toHaveLength(1);
+  });
+
+  it('honours REMINDER_WINDOW_HOURS', async () => {
+    mocks.sheetsClient = createMockGoogleSheetsClient({
+      existingRows: [createMockSheetRow({ transactionId: 'txn-due', status: 'Accepted', pickupDatetime: pickupAt(30 * HOUR) })],
+    });
+
+    await runScheduled(NOW, { ...mockEnv, REMINDER_WINDOW_HOURS: '48' });
+
+    expect(mocks.resendApi!.getSentEmails()).toHaveLength(1);
+  });
+
+  it('leaves the marker unset when the email fails so the next run retries', async () => {
+    mocks.sheetsClient = createMockGoogleSheetsClient({
+      existingRows: [createMockSheetRow({ transactionId: 'txn-due', status: 'Accepted', pickupDatetime: pickupAt(6 * HOUR) })],
+    });
+    mocks.resendApi = createMockResendApi({ shouldFail: true });
+    global.fetch = mocks.resendApi.fetch as unknown as typeof fetch;
+
+    await runScheduled(NOW);
+
+    expect(mocks.sheetsClient!.batchUpdateRanges).not.toHaveBeenCalled();
+  });
+
+  it('does nothing in dry-run mode', async () => {
+    mocks.sheetsClient = createMockGoogleSheetsClient({
+      existingRows: [createMockSheetRow({ transactionId: 'txn-due', status: 'Accepted', pickupDatetime: pickupAt(6 * HOUR) })],
+    });
+
+    await runScheduled(NOW, { ...mockEnv, RESEND_DRY_RUN: 'true' });
+
+    expect(mocks.sheetsClient!.readRange).not.toHaveBeenCalled();
+    expect(mocks.resendApi!.getSentEmails()).toHaveLength(0);
+  });
+
+  it('fails the run when the sheet cannot be read', async () => {
+    mocks.sheetsClient = createMockGoogleSheetsClient({ shouldFailRead: true });
+
+    await expect(runScheduled(NOW)).rejects.toThrow('Mock read failed');
+  });
+});
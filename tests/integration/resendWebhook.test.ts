@@ -0,0 +1,209 @@
+/**
+ * Resend Webhook Tests
+ *
+ * Delivery events posted to /webhooks/resend are matched to the outbox email
+ * by message ID, written to the booking's audit trail, and a hard bounce of a
+ * customer email alerts the owner. Delivery events need a durable outbox, so
+ * these tests keep it in the mocked Sheets Outbox tab.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import worker from '../../src/index';
+import { createOutboxStore, fetchBookingEmails, type OutboxEmail } from '../../src/layers/outbox';
+import {
+  mockBookingPayload,
+  mockEnv,
+  createMockGoogleSheetsClient,
+  createMockResendApi,
+  createBookingRequest,
+  createResendWebhookRequest,
+  expectSuccessResponse,
+} from '../helpers/testUtils';
+
+const mocks = {
+  sheetsClient: null as ReturnType<typeof createMockGoogleSheetsClient> | null,
+  resendApi: null as ReturnType<typeof createMockResendApi> | null,
+};
+
+vi.mock('../../src/integrations/googleSheets', () => ({
+  GoogleSheetsClient: vi.fn().mockImplementation(() => mocks.sheetsClient),
+}));
+
+const originalFetch = global.fetch;
+const outboxEnv = { ...mockEnv, EMAIL_OUTBOX: 'sheets' };
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mocks.sheetsClient = createMockGoogleSheetsClient();
+  mocks.resendApi = createMockResendApi();
+  global.fetch = mocks.resendApi.fetch as unknown as typeof fetch;
+});
+
+afterEach(() => {
+  global.fetch = originalFetch;
+});
+
+/**
+ * Submit a booking and return the outbox records of its owner and customer emails
+ */
+async function submitBooking(): Promise<{ transactionId: string; owner: OutboxEmail; customer: OutboxEmail }> {
+  const { transactionId } = await expectSuccessResponse(await worker.fetch(createBookingRequest(), outboxEnv as any));
+  const emails = await fetchBookingEmails(transactionId, outboxEnv as any);
+  const owner = emails.find(email => email.to === mockEnv.OWNER_EMAIL)!;
+  const customer = emails.find(email => email.to === mockBookingPayload.customer_email)!;
+  mocks.resendApi!.clearEmails();
+  mocks.sheetsClient!.appendAuditEntry.mockClear();
+  return { transactionId, owner, customer };
+}
+
+function resendEvent(type: string, emailId: string, data: Record<string, unknown> = {}) {
+  return {
+    type,
+    created_at: '2025-02-19T18:00:00.000Z',
+    data: { email_id: emailId, to: [mockBookingPayload.customer_email], ...data },
+  };
+}
+
+function postWebhook(request: Request, env: Record<string, unknown> = outboxEnv): Promise<Response> {
+  return worker.fetch(request, env as any);
+}
+
+function getOutboxEmail(id: string): Promise<OutboxEmail | null> {
+  return createOutboxStore(outboxEnv as any).getById(id);
+}
+
+describe('Resend Webhook', () => {
+  it('records a delivery against the email and the booking audit trail', async () => {
+    const { transactionId, customer } = await submitBooking();
+
+    const response = await postWebhook(await createResendWebhookRequest(
+      resendEvent('email.delivered', customer.providerMessageId!)
+    ));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ ok: true, status: 'delivered' });
+    expect(await getOutboxEmail(customer.id)).toMatchObject({
+      deliveryStatus: 'delivered',
+      deliveryUpdatedAt: '2025-02-19T18:00:00.000Z',
+    });
+
+    const auditRows = mocks.sheetsClient!.appendAuditEntry.mock.calls.map(([entry]) => entry.values);
+    expect(auditRows).toHaveLength(1);
+    expect(auditRows[0].slice(0, 3)).toEqual([transactionId, 'email_delivered', '2025-02-19T18:00:00.000Z']);
+    expect(JSON.parse(auditRows[0][3])).toMatchObject({
+      messageId: customer.providerMessageId,
+      to: mockBookingPayload.customer_email,
+    });
+  });
+
+  it('alerts the owner when a customer email hard-bounces', async () => {
+    const { transactionId, customer } = await submitBooking();
+
+    const response = await postWebhook(await createResendWebhookRequest(resendEvent('email.bounced', customer.providerMessageId!, {
+      bounce: { type: 'Permanent', subType: 'General', message: 'Mailbox does not exist' },
+    })));
+    expect(response.status).toBe(200);
+
+    const alerts = mocks.resendApi!.getSentEmails();
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0].to).toBe(mockEnv.OWNER_EMAIL);
+    expect(alerts[0].subject).toContain('Customer Email Bounced');
+    expect(alerts[0].text).toContain(mockBookingPayload.customer_phone);
+    expect(alerts[0].text).toContain('Mailbox does not exist');
+    expect(alerts[0].text).toContain(transactionId.slice(0, 10).toUpperCase());
+
+    const [auditEntry] = mocks.sheetsClient!.appendAuditEntry.mock.calls[0];
+    expect(auditEntry.values[1]).toBe('email_bounced');
+    expect(JSON.parse(auditEntry.values[3])).toMatchObject({ bounceType: 'Permanent' });
+  });
+
+  it('alerts only once when Resend repeats a bounce', async () => {
+    const { customer } = await submitBooking();
+    const event = resendEvent('email.bounced', customer.providerMessageId!, { bounce: { type: 'Permanent' } });
+
+    await postWebhook(await createResendWebhookRequest(event));
+    await postWebhook(await createResendWebhookRequest(event));
+
+    expect(mocks.resendApi!.getSentEmails()).toHaveLength(1);
+  });
+
+  it('does not alert for a transient bounce or a bounced owner email', async () => {
+    const { customer, owner } = await submitBooking();
+
+    await postWebhook(await createResendWebhookRequest(resendEvent('email.bounced', customer.providerMessageId!, {
+      bounce: { type: 'Transient', subType: 'MailboxFull' },
+    })));
+    await postWebhook(await createResendWebhookRequest(resendEvent('email.bounced', owner.providerMessageId!, {
+      bounce: { type: 'Permanent' },
+    })));
+
+    expect(mocks.resendApi!.getSentEmails()).toHaveLength(0);
+    expect(mocks.sheetsClient!.appendAuditEntry).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps a bounce when a delivery event arrives after it', async () => {
+    const { customer } = await submitBooking();
+
+    await postWebhook(await createResendWebhookRequest(resendEvent('email.complained', customer.providerMessageId!)));
+    await postWebhook(await createResendWebhookRequest(resendEvent('email.opened', customer.providerMessageId!)));
+
+    expect((await getOutboxEmail(customer.id))!.deliveryStatus).toBe('complained');
+  });
+
+  it('rejects a request with an invalid signature', async () => {
+    const { customer } = await submitBooking();
+
+    const response = await postWebhook(await createResendWebhookRequest(
+      resendEvent('email.delivered', customer.providerMessageId!),
+      { secret: 'whsec_d3Jvbmctc2VjcmV0' }
+    ));
+
+    expect(response.status).toBe(401);
+    expect((await getOutboxEmail(customer.id))!.deliveryStatus).toBeNull();
+    expect(mocks.sheetsClient!.appendAuditEntry).not.toHaveBeenCalled();
+  });
+
+  it('rejects a replayed request with an old timestamp', async () => {
+    const response = await postWebhook(await createResendWebhookRequest(
+      resendEvent('email.delivered', 'msg-unknown'),
+      { timestamp: Math.floor(Date.now() / 1000) - 10 * 60 }
+    ));
+
+    expect(response.status).toBe(401);
+  });
+
+  it('acknowledges unknown message IDs and event types', async () => {
+    const unknown = await postWebhook(await createResendWebhookRequest(resendEvent('email.delivered', 'msg-unknown')));
+    const clicked = await postWebhook(await createResendWebhookRequest(resendEvent('email.clicked', 'msg-unknown')));
+
+    expect(await unknown.json()).toEqual({ ok: true, ignored: true });
+    expect(await clicked.json()).toEqual({ ok: true, ignored: true });
+    expect(mocks.sheetsClient!.appendAuditEntry).not.toHaveBeenCalled();
+  });
+
+  it('is unavailable until RESEND_WEBHOOK_SECRET is set', async () => {
+    const response = await postWebhook(
+      await createResendWebhookRequest(resendEvent('email.delivered', 'msg-unknown')),
+      { ...outboxEnv, RESEND_WEBHOOK_SECRET: undefined }
+    );
+
+    expect(response.status).toBe(503);
+  });
+
+  it('is unavailable without a durable outbox', async () => {
+    const { customer } = await submitBooking();
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const response = await postWebhook(
+      await createResendWebhookRequest(resendEvent('email.delivered', customer.providerMessageId!)),
+      mockEnv
+    );
+
+    expect(response.status).toBe(503);
+    expect(await response.json()).toEqual({ ok: false, error: 'Delivery tracking needs a durable email outbox' });
+    const events = error.mock.calls.map(call => JSON.parse(call[0] as string).event);
+    expect(events).toContain('webhook.resend.outbox_not_durable');
+    expect(mocks.sheetsClient!.appendAuditEntry).not.toHaveBeenCalled();
+    error.mockRestore();
+  });
+});
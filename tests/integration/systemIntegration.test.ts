@@ -12,14 +12,27 @@
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import worker from '../../src/index';
+import { createActionToken } from '../../src/layers/security';
+import { getMemoryBookingStore, getMemoryDriverStore } from '../../src/layers/coordination';
+import { getCaptureTransport } from '../../src/integrations/emailTransport';
+import { getMemoryOutboxStore } from '../../src/layers/outbox';
+import { formatDateTimeLocal, normalizePickupDateTime } from '../../src/time/businessTime';
 import {
   mockBookingPayload,
   mockEnv,
   createMockGoogleSheetsClient,
   createMockResendApi,
   createBookingRequest,
+  createQuoteRequest,
   createAcceptRequest,
   createDenyRequest,
+  createDecisionSubmitRequest,
+  createStatusChangeRequest,
+  createDriverRequest,
+  createCancelRequest,
+  createRescheduleRequest,
+  createRescheduleDecisionRequest,
+  createBookAlternativeRequest,
   createHealthRequest,
   createMockSheetRow,
   expectSuccessResponse,
@@ -29,6 +42,7 @@ import {
   validateCustomerAckEmail,
   validateCustomerConfirmationEmail,
   validateCustomerDenialEmail,
+  getCalendarAttachment,
 } from '../helpers/testUtils';
 
 // =============================================================================
@@ -54,6 +68,7 @@ beforeEach(() => {
   mocks.sheetsClient = createMockGoogleSheetsClient();
   mocks.resendApi = createMockResendApi();
   global.fetch = mocks.resendApi.fetch as unknown as typeof fetch;
+  getMemoryOutboxStore().clear();
   // Reset rate limiter mock
   (mockEnv.BOOKING_RATE_LIMIT.limit as ReturnType<typeof vi.fn>).mockResolvedValue({ success: true });
 });
@@ -62,6 +77,24 @@ afterEach(() => {
   global.fetch = originalFetch;
 });
 
+/**
+ * Open the review page for an action link and submit its confirmation form
+ */
+async function submitDecision(request: Request): Promise<Response> {
+  const review = await worker.fetch(request, mockEnv as any);
+  const submit = await createDecisionSubmitRequest(request, review);
+  return worker.fetch(submit, mockEnv as any);
+}
+
+/**
+ * Accept a booking through the owner's review page
+ */
+async function acceptBooking(transactionId: string, env: object): Promise<void> {
+  const request = await createAcceptRequest(transactionId);
+  const review = await worker.fetch(request, env as any);
+  await worker.fetch(await createDecisionSubmitRequest(request, review), env as any);
+}
+
 // =============================================================================
 // HEALTH CHECK TESTS
 // =============================================================================
@@ -305,7 +338,7 @@ describe('Security Validation', () => {
         customer_email: 'jane@example.com',
         start_location: '100 Main St, City, ST 12345',
         end_location: 'Airport Terminal A',
-        pickup_datetime: '2025-03-15T10:00:00',
+        pickup_datetime: mockBookingPayload.pickup_datetime,
         passengers: 2,
         estimated_distance: '30 miles',
         estimated_duration: '45 mins',
@@ -349,18 +382,18 @@ describe('Owner Decision Workflow', () => {
     });
 
     it('updates status to Accepted in Google Sheets', async () => {
-      const request = createAcceptRequest(transactionId);
-      await worker.fetch(request, mockEnv as any);
+      const request = await createAcceptRequest(transactionId);
+      await submitDecision(request);
 
-      expect(mocks.sheetsClient!.updateRange).toHaveBeenCalled();
+      expect(mocks.sheetsClient!.batchUpdateRanges).toHaveBeenCalled();
       const updates = mocks.sheetsClient!.getUpdatedCells();
       expect(updates.length).toBeGreaterThan(0);
       expect(updates[0].values[0][0]).toBe('Accepted');
     });
 
     it('sends customer confirmation email', async () => {
-      const request = createAcceptRequest(transactionId);
-      await worker.fetch(request, mockEnv as any);
+      const request = await createAcceptRequest(transactionId);
+      await submitDecision(request);
 
       const emails = mocks.resendApi!.getSentEmails();
       const confirmationEmail = emails.find(e =>
@@ -370,9 +403,23 @@ describe('Owner Decision Workflow', () => {
       validateCustomerConfirmationEmail(confirmationEmail!, mockBookingPayload);
     });
 
+    it('attaches a calendar invite to the confirmation', async () => {
+      const request = await createAcceptRequest(transactionId);
+      await submitDecision(request);
+
+      const confirmationEmail = mocks.resendApi!.getSentEmails().find(e => e.subject.includes('Confirmed'));
+      expect(confirmationEmail?.attachments?.[0].content_type).toBe('text/calendar; charset=utf-8; method=REQUEST');
+
+      const ics = getCalendarAttachment(confirmationEmail!)!;
+      expect(ics).toContain('METHOD:REQUEST');
+      expect(ics).toContain(`UID:${transactionId}@acshuttles.com`);
+      expect(ics).toContain('DTSTART;TZID=America/New_York:20250220T143000');
+      expect(ics).toContain(`Driver Phone: ${mockEnv.DRIVER_CONTACT_PHONE}`);
+    });
+
     it('returns success HTML page', async () => {
-      const request = createAcceptRequest(transactionId);
-      const response = await worker.fetch(request, mockEnv as any);
+      const request = await createAcceptRequest(transactionId);
+      const response = await submitDecision(request);
 
       const html = await expectHtmlResponse(response);
       expect(html).toContain('Accepted');
@@ -401,8 +448,8 @@ describe('Owner Decision Workflow', () => {
     });
 
     it('sends reminder email immediately when trip is within 24 hours', async () => {
-      const request = createAcceptRequest(transactionId);
-      await worker.fetch(request, mockEnv as any);
+      const request = await createAcceptRequest(transactionId);
+      await submitDecision(request);
 
       const emails = mocks.resendApi!.getSentEmails();
 
@@ -413,6 +460,14 @@ describe('Owner Decision Workflow', () => {
       expect(confirmationEmail).toBeDefined();
       expect(reminderEmail).toBeDefined();
     });
+
+    it('marks the reminder as sent so the scheduled dispatcher skips it', async () => {
+      const request = await createAcceptRequest(transactionId);
+      await submitDecision(request);
+
+      const updates = mocks.sheetsClient!.getUpdatedCells();
+      expect(updates.some(u => u.range === 'Sheet1!T2:T2')).toBe(true);
+    });
   });
 
   describe('Deny Booking', () => {
@@ -423,17 +478,17 @@ describe('Owner Decision Workflow', () => {
     });
 
     it('updates status to Denied in Google Sheets', async () => {
-      const request = createDenyRequest(transactionId);
-      await worker.fetch(request, mockEnv as any);
+      const request = await createDenyRequest(transactionId);
+      await submitDecision(request);
 
-      expect(mocks.sheetsClient!.updateRange).toHaveBeenCalled();
+      expect(mocks.sheetsClient!.batchUpdateRanges).toHaveBeenCalled();
       const updates = mocks.sheetsClient!.getUpdatedCells();
       expect(updates[0].values[0][0]).toBe('Denied');
     });
 
     it('sends customer denial email', async () => {
-      const request = createDenyRequest(transactionId);
-      await worker.fetch(request, mockEnv as any);
+      const request = await createDenyRequest(transactionId);
+      await submitDecision(request);
 
       const emails = mocks.resendApi!.getSentEmails();
       const denialEmail = emails.find(e =>
@@ -444,8 +499,8 @@ describe('Owner Decision Workflow', () => {
     });
 
     it('returns denial HTML page', async () => {
-      const request = createDenyRequest(transactionId);
-      const response = await worker.fetch(request, mockEnv as any);
+      const request = await createDenyRequest(transactionId);
+      const response = await submitDecision(request);
 
       const html = await expectHtmlResponse(response);
       expect(html).toContain('Denied');
@@ -459,7 +514,7 @@ describe('Owner Decision Workflow', () => {
         existingRows: [createMockSheetRow({ transactionId, status: 'Accepted' })],
       });
 
-      const request = createAcceptRequest(transactionId);
+      const request = await createAcceptRequest(transactionId);
       const response = await worker.fetch(request, mockEnv as any);
 
       const html = await expectHtmlResponse(response);
@@ -472,7 +527,7 @@ describe('Owner Decision Workflow', () => {
         existingRows: [createMockSheetRow({ transactionId, status: 'Denied' })],
       });
 
-      const request = createDenyRequest(transactionId);
+      const request = await createDenyRequest(transactionId);
       const response = await worker.fetch(request, mockEnv as any);
 
       const html = await expectHtmlResponse(response);
@@ -485,10 +540,10 @@ describe('Owner Decision Workflow', () => {
         existingRows: [createMockSheetRow({ transactionId, status: 'Accepted' })],
       });
 
-      const request = createDenyRequest(transactionId);
+      const request = await createDenyRequest(transactionId);
       await worker.fetch(request, mockEnv as any);
 
-      expect(mocks.sheetsClient!.updateRange).not.toHaveBeenCalled();
+      expect(mocks.sheetsClient!.batchUpdateRanges).not.toHaveBeenCalled();
     });
 
     it('does not send email again', async () => {
@@ -496,7 +551,7 @@ describe('Owner Decision Workflow', () => {
         existingRows: [createMockSheetRow({ transactionId, status: 'Accepted' })],
       });
 
-      const request = createAcceptRequest(transactionId);
+      const request = await createAcceptRequest(transactionId);
       await worker.fetch(request, mockEnv as any);
 
       const emails = mocks.resendApi!.getSentEmails();
@@ -508,7 +563,7 @@ describe('Owner Decision Workflow', () => {
     it('returns error page for non-existent transaction', async () => {
       mocks.sheetsClient = createMockGoogleSheetsClient({ existingRows: [] });
 
-      const request = createAcceptRequest('non-existent-txn-id');
+      const request = await createAcceptRequest('non-existent-txn-id');
       const response = await worker.fetch(request, mockEnv as any);
 
       const html = await expectHtmlResponse(response, 400);
@@ -516,14 +571,204 @@ describe('Owner Decision Workflow', () => {
     });
   });
 
-  describe('Invalid Transaction ID', () => {
-    it('rejects too short transaction IDs', async () => {
-      const request = createAcceptRequest('short');
+  describe('Action Link Tokens', () => {
+    beforeEach(() => {
+      mocks.sheetsClient = createMockGoogleSheetsClient({
+        existingRows: [createMockSheetRow({ transactionId, status: 'Pending Review' })],
+      });
+    });
+
+    it('rejects malformed tokens', async () => {
+      const request = new Request('https://test-worker.example.com/accept/short');
       const response = await worker.fetch(request, mockEnv as any);
 
       const html = await expectHtmlResponse(response, 400);
       expect(html).toContain('Invalid');
     });
+
+    it('rejects a token with a malformed percent-escape', async () => {
+      const request = new Request('https://test-worker.example.com/accept/%E0%A4%A');
+      const response = await worker.fetch(request, mockEnv as any);
+
+      expect(await expectHtmlResponse(response, 400)).toContain('Invalid');
+    });
+
+    it('rejects raw transaction IDs', async () => {
+      const request = new Request(`https://test-worker.example.com/accept/${transactionId}`);
+      const response = await worker.fetch(request, mockEnv as any);
+
+      await expectHtmlResponse(response, 400);
+      expect(mocks.sheetsClient!.batchUpdateRanges).not.toHaveBeenCalled();
+    });
+
+    it('rejects tampered tokens', async () => {
+      const token = await createActionToken(mockEnv, transactionId, 'accept');
+      const [version, keyId, , signature] = token.split('.');
+      const forgedClaims = btoa(JSON.stringify({ tid: 'txn-other-booking', act: 'accept', iat: 0, exp: 9999999999 }))
+        .replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+      const request = new Request(`https://test-worker.example.com/accept/${version}.${keyId}.${forgedClaims}.${signature}`);
+      const response = await worker.fetch(request, mockEnv as any);
+
+      const html = await expectHtmlResponse(response, 403);
+      expect(html).toContain('Invalid Link');
+      expect(mocks.sheetsClient!.batchUpdateRanges).not.toHaveBeenCalled();
+    });
+
+    it('rejects an accept token used on the deny route', async () => {
+      const token = await createActionToken(mockEnv, transactionId, 'accept');
+      const request = new Request(`https://test-worker.example.com/deny/${token}`);
+      const response = await worker.fetch(request, mockEnv as any);
+
+      await expectHtmlResponse(response, 403);
+      expect(mocks.sheetsClient!.batchUpdateRanges).not.toHaveBeenCalled();
+    });
+
+    it('rejects expired tokens', async () => {
+      const issuedAt = Date.now() - 8 * 24 * 60 * 60 * 1000; // Older than the 7 day default TTL
+      const token = await createActionToken(mockEnv, transactionId, 'accept', issuedAt);
+      const request = new Request(`https://test-worker.example.com/accept/${token}`);
+      const response = await worker.fetch(request, mockEnv as any);
+
+      const html = await expectHtmlResponse(response, 410);
+      expect(html).toContain('Link Expired');
+      expect(mocks.sheetsClient!.batchUpdateRanges).not.toHaveBeenCalled();
+    });
+
+    it('shows the already-used page when a link is reused', async () => {
+      mocks.sheetsClient = createMockGoogleSheetsClient({
+        existingRows: [createMockSheetRow({ transactionId, status: 'Accepted' })],
+      });
+
+      const request = await createAcceptRequest(transactionId);
+      const response = await worker.fetch(request, mockEnv as any);
+
+      const html = await expectHtmlResponse(response);
+      expect(html).toContain('already been used');
+    });
+
+    it('includes signed tokens in owner notification links', async () => {
+      const request = createBookingRequest();
+      await worker.fetch(request, mockEnv as any);
+
+      const ownerEmail = mocks.resendApi!.getSentEmails().find(e => e.to === mockEnv.OWNER_EMAIL);
+      expect(ownerEmail!.html).toMatch(/\/accept\/v1\.[0-9a-f]{8}\.[\w-]+\.[\w-]+/);
+      expect(ownerEmail!.html).toMatch(/\/deny\/v1\.[0-9a-f]{8}\.[\w-]+\.[\w-]+/);
+    });
+  });
+
+  describe('Review Page and CSRF Protection', () => {
+    beforeEach(() => {
+      mocks.sheetsClient = createMockGoogleSheetsClient({
+        existingRows: [createMockSheetRow({ transactionId, status: 'Pending Review' })],
+      });
+    });
+
+    it('renders a review page on GET without changing the booking', async () => {
+      const request = await createAcceptRequest(transactionId);
+      const response = await worker.fetch(request, mockEnv as any);
+
+      const html = await expectHtmlResponse(response);
+      expect(html).toContain('Confirm this booking?');
+      expect(html).toContain('John Smith');
+      expect(html).toContain('<form method="POST">');
+      expect(html).toContain('name="csrf_token"');
+      expect(mocks.sheetsClient!.batchUpdateRanges).not.toHaveBeenCalled();
+      expect(mocks.resendApi!.getSentEmails()).toHaveLength(0);
+    });
+
+    it('sets a strict, HttpOnly CSRF cookie on the review page', async () => {
+      const request = await createDenyRequest(transactionId);
+      const response = await worker.fetch(request, mockEnv as any);
+
+      const cookie = response.headers.get('Set-Cookie');
+      expect(cookie).toMatch(/^__Host-ac_csrf_[\w-]+=/);
+      expect(cookie).toContain('HttpOnly');
+      expect(cookie).toContain('Secure');
+      expect(cookie).toContain('SameSite=Strict');
+      expect(response.headers.get('Cache-Control')).toBe('no-store');
+    });
+
+    it('rejects a POST without the CSRF cookie', async () => {
+      const request = await createAcceptRequest(transactionId);
+      const response = await worker.fetch(new Request(request.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: 'csrf_token=forged',
+      }), mockEnv as any);
+
+      const html = await expectHtmlResponse(response, 403);
+      expect(html).toContain('Request Blocked');
+      expect(mocks.sheetsClient!.batchUpdateRanges).not.toHaveBeenCalled();
+    });
+
+    it('rejects a form token issued for a different link', async () => {
+      const acceptRequest = await createAcceptRequest(transactionId);
+      const review = await worker.fetch(acceptRequest, mockEnv as any);
+      const submit = await createDecisionSubmitRequest(acceptRequest, review);
+
+      const denyRequest = await createDenyRequest(transactionId);
+      const response = await worker.fetch(new Request(denyRequest.url, {
+        method: 'POST',
+        headers: submit.headers,
+        body: await submit.text(),
+      }), mockEnv as any);
+
+      await expectHtmlResponse(response, 403);
+      expect(mocks.sheetsClient!.batchUpdateRanges).not.toHaveBeenCalled();
+    });
+
+    it('keeps a review page working after another one is opened', async () => {
+      const acceptRequest = await createAcceptRequest(transactionId);
+      const acceptReview = await worker.fetch(acceptRequest, mockEnv as any);
+      const denyReview = await worker.fetch(await createDenyRequest(transactionId), mockEnv as any);
+      // Like a browser, the second page's cookie only replaces the first if it has the same name
+      const jar = new Map([acceptReview, denyReview].map(review => {
+        const pair = review.headers.get('Set-Cookie')!.split(';')[0];
+        return [pair.split('=')[0], pair] as const;
+      }));
+      const submit = await createDecisionSubmitRequest(acceptRequest, acceptReview);
+      submit.headers.set('Cookie', [...jar.values()].join('; '));
+
+      const response = await worker.fetch(submit, mockEnv as any);
+
+      await expectHtmlResponse(response);
+      expect(mocks.sheetsClient!.batchUpdateRanges).toHaveBeenCalled();
+    });
+
+    it('rejects cross-origin form posts', async () => {
+      const request = await createAcceptRequest(transactionId);
+      const review = await worker.fetch(request, mockEnv as any);
+      const submit = await createDecisionSubmitRequest(request, review);
+      submit.headers.set('Origin', 'https://evil.example.com');
+
+      const response = await worker.fetch(submit, mockEnv as any);
+
+      await expectHtmlResponse(response, 403);
+      expect(mocks.sheetsClient!.batchUpdateRanges).not.toHaveBeenCalled();
+    });
+
+    it('shows the already-processed page if the booking changed after review', async () => {
+      const request = await createAcceptRequest(transactionId);
+      const review = await worker.fetch(request, mockEnv as any);
+      const submit = await createDecisionSubmitRequest(request, review);
+
+      mocks.sheetsClient = createMockGoogleSheetsClient({
+        existingRows: [createMockSheetRow({ transactionId, status: 'Denied' })],
+      });
+      const response = await worker.fetch(submit, mockEnv as any);
+
+      const html = await expectHtmlResponse(response);
+      expect(html).toContain('Already Processed');
+      expect(mocks.resendApi!.getSentEmails()).toHaveLength(0);
+    });
+
+    it('returns 405 for other methods', async () => {
+      const request = await createAcceptRequest(transactionId);
+      const response = await worker.fetch(new Request(request.url, { method: 'PUT' }), mockEnv as any);
+
+      expect(response.status).toBe(405);
+      expect(response.headers.get('Allow')).toBe('GET, POST');
+    });
   });
 });
 
@@ -566,6 +811,31 @@ describe('Error Handling', () => {
       // Booking is saved to sheets
       expect(mocks.sheetsClient!.appendRow).toHaveBeenCalled();
     });
+
+    it('fails over to the fallback provider when Resend is down', async () => {
+      mocks.resendApi = createMockResendApi({ shouldFail: true });
+      global.fetch = mocks.resendApi.fetch as unknown as typeof fetch;
+      getCaptureTransport().clear();
+
+      const env = { ...mockEnv, EMAIL_FALLBACK_PROVIDER: 'capture' };
+      await expectSuccessResponse(await worker.fetch(createBookingRequest(), env as any));
+
+      const captured = getCaptureTransport().getSent();
+      expect(captured.map(email => email.to)).toEqual([mockEnv.OWNER_EMAIL, mockBookingPayload.customer_email]);
+    });
+  });
+
+  describe('Capture Email Provider', () => {
+    it('records emails without calling an email API', async () => {
+      getCaptureTransport().clear();
+
+      const env = { ...mockEnv, EMAIL_PROVIDER: 'capture' };
+      await expectSuccessResponse(await worker.fetch(createBookingRequest(), env as any));
+
+      expect(mocks.resendApi!.getCallCount()).toBe(0);
+      const owner = getCaptureTransport().getSent().find(email => email.to === mockEnv.OWNER_EMAIL);
+      expect(owner?.subject).toContain(mockBookingPayload.customer_name);
+    });
   });
 
   describe('Unknown Routes', () => {
@@ -611,7 +881,7 @@ describe('Routing', () => {
       existingRows: [createMockSheetRow({ transactionId: txnId, status: 'Pending Review' })],
     });
 
-    const request = createAcceptRequest(txnId);
+    const request = await createAcceptRequest(txnId);
     const response = await worker.fetch(request, mockEnv as any);
     await expectHtmlResponse(response);
   });
@@ -622,7 +892,7 @@ describe('Routing', () => {
       existingRows: [createMockSheetRow({ transactionId: txnId, status: 'Pending Review' })],
     });
 
-    const request = createDenyRequest(txnId);
+    const request = await createDenyRequest(txnId);
     const response = await worker.fetch(request, mockEnv as any);
     await expectHtmlResponse(response);
   });
@@ -641,30 +911,2059 @@ describe('Routing', () => {
 });
 
 // =============================================================================
-// IDEMPOTENCY TESTS
+// BOOKING STORE SELECTION TESTS
 // =============================================================================
 
-describe('Idempotency', () => {
-  it('generates idempotency key from payload if not provided', async () => {
-    const request = createBookingRequest();
-    await worker.fetch(request, mockEnv as any);
+describe('Booking Store Selection', () => {
+  const memoryEnv = { ...mockEnv, BOOKING_STORE: 'memory' };
 
-    const appendedRows = mocks.sheetsClient!.getAppendedRows();
-    const idempotencyKey = appendedRows[0][1] as string;
-    expect(idempotencyKey).toMatch(/^auto-/);
+  beforeEach(() => {
+    getMemoryBookingStore().clear();
   });
 
-  it('uses provided idempotency key', async () => {
-    const payloadWithIdempotencyKey = {
+  it('runs the full booking flow on the memory store without touching Sheets', async () => {
+    const { transactionId } = await expectSuccessResponse(await worker.fetch(createBookingRequest(), memoryEnv as any));
+
+    const acceptRequest = await createAcceptRequest(transactionId);
+    const review = await worker.fetch(acceptRequest, memoryEnv as any);
+    const response = await worker.fetch(await createDecisionSubmitRequest(acceptRequest, review), memoryEnv as any);
+
+    const html = await expectHtmlResponse(response);
+    expect(html).toContain('RIDE CONFIRMED');
+    expect((await getMemoryBookingStore().getById(transactionId))?.status).toBe('Accepted');
+    expect(mocks.sheetsClient!.appendRow).not.toHaveBeenCalled();
+    expect(mocks.sheetsClient!.readRange).not.toHaveBeenCalled();
+  });
+
+  it('deduplicates submissions on the memory store', async () => {
+    const first = await expectSuccessResponse(await worker.fetch(createBookingRequest(), memoryEnv as any));
+    const second = await expectSuccessResponse(await worker.fetch(createBookingRequest(), memoryEnv as any));
+
+    expect(second.transactionId).toBe(first.transactionId);
+    expect(await getMemoryBookingStore().list()).toHaveLength(1);
+  });
+
+  it('returns 500 when BOOKING_STORE is d1 without a BOOKINGS_DB binding', async () => {
+    const response = await worker.fetch(createBookingRequest(), { ...mockEnv, BOOKING_STORE: 'd1' } as any);
+    expect(response.status).toBe(500);
+  });
+
+  it('returns 500 for an unknown BOOKING_STORE', async () => {
+    const response = await worker.fetch(createBookingRequest(), { ...mockEnv, BOOKING_STORE: 'postgres' } as any);
+    expect(response.status).toBe(500);
+  });
+});
+
+describe('Business Timezone', () => {
+  const pacificEnv = { ...mockEnv, BOOKING_STORE: 'memory', BUSINESS_TIMEZONE: 'America/Los_Angeles' };
+
+  beforeEach(() => {
+    getMemoryBookingStore().clear();
+  });
+
+  it('stores a pickup without an offset normalized to the business timezone', async () => {
+    const { transactionId } = await expectSuccessResponse(
+      await worker.fetch(createBookingRequest(), pacificEnv as any)
+    );
+
+    const stored = (await getMemoryBookingStore().getById(transactionId))!.pickupDatetime;
+    expect(stored).toBe(normalizePickupDateTime(mockBookingPayload.pickup_datetime, 'America/Los_Angeles'));
+    expect(stored).toMatch(/T14:30:00-0[78]:00$/);
+
+    const ownerEmail = mocks.resendApi!.getSentEmails().find(email => email.to === mockEnv.OWNER_EMAIL);
+    expect(ownerEmail?.text).toContain('2:30 PM');
+  });
+
+  it('shows a UTC pickup in the business timezone', async () => {
+    // 6:30 AM UTC in mid-January is 10:30 PM the day before in Los Angeles
+    const pickupYear = new Date().getUTCFullYear() + 1;
+    const payload = { ...mockBookingPayload, pickup_datetime: `${pickupYear}-01-16T06:30:00Z` };
+    const env = { ...pacificEnv, BOOKING_MAX_ADVANCE_DAYS: '800' };
+
+    const { transactionId } = await expectSuccessResponse(
+      await worker.fetch(createBookingRequest(payload), env as any)
+    );
+
+    expect((await getMemoryBookingStore().getById(transactionId))?.pickupDatetime).toBe(`${pickupYear}-01-15T22:30:00-08:00`);
+    const customerEmail = mocks.resendApi!.getSentEmails().find(email => email.to === mockBookingPayload.customer_email);
+    expect(customerEmail?.text).toContain('10:30 PM');
+    expect(customerEmail?.text).toContain(`01/15/${pickupYear}`);
+  });
+
+  it('writes the confirmation invite in the business timezone', async () => {
+    const { transactionId } = await expectSuccessResponse(
+      await worker.fetch(createBookingRequest(), pacificEnv as any)
+    );
+    mocks.resendApi!.clearEmails();
+
+    const acceptRequest = await createAcceptRequest(transactionId);
+    const review = await worker.fetch(acceptRequest, pacificEnv as any);
+    await worker.fetch(await createDecisionSubmitRequest(acceptRequest, review), pacificEnv as any);
+
+    const confirmation = mocks.resendApi!.getSentEmails().find(email => email.to === mockBookingPayload.customer_email);
+    const ics = getCalendarAttachment(confirmation!)!;
+    const localStart = mockBookingPayload.pickup_datetime.replace(/[-:]/g, '');
+    expect(ics).toContain(`DTSTART;TZID=America/Los_Angeles:${localStart}`);
+    expect(ics).toContain('TZID:America/Los_Angeles');
+  });
+});
+
+describe('Booking Rules', () => {
+  const HOUR = 60 * 60 * 1000;
+  const christmas = `${new Date().getUTCFullYear() + 1}-12-25`;
+  const rulesEnv = {
+    ...mockEnv,
+    BOOKING_MIN_LEAD_HOURS: '4',
+    BOOKING_MAX_ADVANCE_DAYS: '800',
+    BOOKING_HOURS: 'mon-sat 06:00-22:00, sun closed',
+    BOOKING_BLACKOUT_DATES: `${christmas} Christmas Day`,
+  };
+
+  function getRules(apiKey: string = mockEnv.API_KEY, method: string = 'GET'): Promise<Response> {
+    return worker.fetch(new Request('https://test-worker.example.com/booking-rules', {
+      method,
+      headers: { 'X-API-Key': apiKey },
+    }), rulesEnv as any);
+  }
+
+  it('rejects a pickup inside the lead time with a field-level error', async () => {
+    const payload = { ...mockBookingPayload, pickup_datetime: new Date(Date.now() + HOUR).toISOString() };
+
+    const response = await worker.fetch(createBookingRequest(payload), rulesEnv as any);
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      ok: false,
+      error: 'Validation failed',
+      details: [{ field: 'pickup_datetime', message: 'Pickups must be booked at least 4 hours in advance' }],
+    });
+    expect(mocks.sheetsClient!.appendRow).not.toHaveBeenCalled();
+    expect(mocks.resendApi!.getSentEmails()).toHaveLength(0);
+  });
+
+  it('rejects a pickup on a blackout date', async () => {
+    const payload = { ...mockBookingPayload, pickup_datetime: `${christmas}T10:00` };
+
+    const response = await worker.fetch(createBookingRequest(payload), rulesEnv as any);
+
+    expect(response.status).toBe(400);
+    const body = await response.json() as { details: Array<{ field: string; message: string }> };
+    expect(body.details).toEqual([
+      { field: 'pickup_datetime', message: `We are closed on December 25, ${christmas.slice(0, 4)} for Christmas Day` },
+    ]);
+  });
+
+  it('publishes the rules on GET /booking-rules', async () => {
+    const response = await getRules();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Cache-Control')).toBe('private, max-age=300');
+    const { ok, rules } = await response.json() as { ok: boolean; rules: Record<string, any> };
+    expect(ok).toBe(true);
+    expect(rules).toMatchObject({
+      timeZone: 'America/New_York',
+      minLeadHours: 4,
+      maxAdvanceDays: 800,
+      blackoutDates: [{ start: christmas, end: christmas, label: 'Christmas Day' }],
+    });
+    expect(rules.operatingHours.sunday).toBeNull();
+    expect(rules.operatingHours.monday).toEqual({ open: '06:00', close: '22:00' });
+    expect(Date.parse(rules.earliestPickup)).toBeGreaterThan(Date.now() + 3 * HOUR);
+  });
+
+  it('requires the API key and only allows GET', async () => {
+    expect((await getRules('wrong-key')).status).toBe(401);
+    expect((await getRules(mockEnv.API_KEY, 'POST')).status).toBe(405);
+  });
+});
+
+// =============================================================================
+// BOOKING LIFECYCLE TESTS
+// =============================================================================
+
+describe('Double Booking', () => {
+  const memoryEnv = { ...mockEnv, BOOKING_STORE: 'memory' };
+  const pickupDate = mockBookingPayload.pickup_datetime.slice(0, 10);
+
+  beforeEach(() => {
+    getMemoryBookingStore().clear();
+  });
+
+  async function createBooking(pickupTime: string, customerName: string, env = memoryEnv): Promise<string> {
+    const { transactionId } = await expectSuccessResponse(await worker.fetch(createBookingRequest({
       ...mockBookingPayload,
-      idempotency_key: 'my-custom-key-123',
+      customer_name: customerName,
+      pickup_datetime: `${pickupDate}T${pickupTime}`,
+    }), env as any));
+    return transactionId;
+  }
+
+  async function createAcceptedBooking(pickupTime: string, customerName: string): Promise<string> {
+    const transactionId = await createBooking(pickupTime, customerName);
+    await acceptBooking(transactionId, memoryEnv);
+    return transactionId;
+  }
+
+  async function submitAccept(transactionId: string, env: typeof memoryEnv, fields: Record<string, string> = {}): Promise<Response> {
+    const request = await createAcceptRequest(transactionId);
+    const review = await worker.fetch(request, env as any);
+    return worker.fetch(await createDecisionSubmitRequest(request, review, fields), env as any);
+  }
+
+  it('lists overlapping accepted rides in the owner notification', async () => {
+    await createAcceptedBooking('14:00:00', 'Sam Lee');
+    mocks.resendApi!.clearEmails();
+
+    await createBooking('14:30:00', 'Jane Smith');
+
+    const ownerEmail = mocks.resendApi!.getSentEmails().find(email => email.to === mockEnv.OWNER_EMAIL);
+    expect(ownerEmail?.html).toContain('Schedule Conflict');
+    expect(ownerEmail?.html).toContain('Sam Lee');
+    expect(ownerEmail?.text).toContain('SCHEDULE CONFLICT');
+  });
+
+  it('leaves the warning out when the rides are far enough apart', async () => {
+    await createAcceptedBooking('09:00:00', 'Sam Lee');
+    mocks.resendApi!.clearEmails();
+
+    await createBooking('14:30:00', 'Jane Smith');
+
+    const ownerEmail = mocks.resendApi!.getSentEmails().find(email => email.to === mockEnv.OWNER_EMAIL);
+    expect(ownerEmail?.html).not.toContain('Schedule Conflict');
+  });
+
+  it('shows the conflict on the accept page and still accepts under the warn policy', async () => {
+    await createAcceptedBooking('14:00:00', 'Sam Lee');
+    const transactionId = await createBooking('14:30:00', 'Jane Smith');
+
+    const html = await expectHtmlResponse(await worker.fetch(await createAcceptRequest(transactionId), memoryEnv as any));
+    expect(html).toContain('Schedule Conflict');
+    expect(html).toContain('Sam Lee');
+    expect(html).not.toContain('name="override_conflicts"');
+
+    await expectHtmlResponse(await submitAccept(transactionId, memoryEnv));
+    expect((await getMemoryBookingStore().getById(transactionId))?.status).toBe('Accepted');
+  });
+
+  it('refuses to accept an overlapping ride under the block policy', async () => {
+    const env = { ...memoryEnv, BOOKING_CONFLICT_POLICY: 'block' };
+    await createAcceptedBooking('14:00:00', 'Sam Lee');
+    const transactionId = await createBooking('14:30:00', 'Jane Smith', env);
+
+    const review = await expectHtmlResponse(await worker.fetch(await createAcceptRequest(transactionId), env as any));
+    expect(review).not.toContain('Confirm Booking</button>');
+
+    const request = await createAcceptRequest(transactionId);
+    const reviewResponse = await worker.fetch(request, env as any);
+    const html = await expectHtmlResponse(
+      await worker.fetch(await createDecisionSubmitRequest(request, reviewResponse), env as any),
+      400
+    );
+    expect(html).toContain('so it can&#039;t be accepted');
+    expect((await getMemoryBookingStore().getById(transactionId))?.status).toBe('Pending Review');
+  });
+
+  it('requires the override box under the override policy and records the override', async () => {
+    const env = { ...memoryEnv, BOOKING_CONFLICT_POLICY: 'override' };
+    const existingId = await createAcceptedBooking('14:00:00', 'Sam Lee');
+    const transactionId = await createBooking('14:30:00', 'Jane Smith', env);
+
+    const refused = await expectHtmlResponse(await submitAccept(transactionId, env), 400);
+    expect(refused).toContain('Tick the box to accept it anyway');
+    expect(refused).toContain('name="override_conflicts"');
+    expect((await getMemoryBookingStore().getById(transactionId))?.status).toBe('Pending Review');
+
+    await expectHtmlResponse(await submitAccept(transactionId, env, { override_conflicts: 'yes' }));
+    expect((await getMemoryBookingStore().getById(transactionId))?.status).toBe('Accepted');
+
+    const override = getMemoryBookingStore().getAuditLog()
+      .find(entry => entry.transactionId === transactionId && entry.event === 'conflict_overridden');
+    expect(JSON.parse(override!.details)).toEqual({ conflicts: [existingId] });
+  });
+});
+
+describe('Driver Roster', () => {
+  const memoryEnv = { ...mockEnv, BOOKING_STORE: 'memory' };
+
+  beforeEach(() => {
+    getMemoryBookingStore().clear();
+  });
+
+  // Other memory-backed tests accept bookings without choosing a driver
+  afterEach(() => {
+    getMemoryDriverStore().clear();
+  });
+
+  async function rosterRequest(path: string, method?: string, body?: Record<string, unknown>): Promise<any> {
+    const response = await worker.fetch(createDriverRequest(path, method, body), memoryEnv as any);
+    expect(response.status).toBe(method === 'POST' ? 201 : 200);
+    const json = await response.json() as { ok: boolean };
+    expect(json.ok).toBe(true);
+    return json;
+  }
+
+  async function addDriver(body: Record<string, unknown>): Promise<string> {
+    const { driver } = await rosterRequest('/drivers', 'POST', body);
+    return driver.id;
+  }
+
+  async function createBooking(): Promise<string> {
+    const { transactionId } = await expectSuccessResponse(await worker.fetch(createBookingRequest(), memoryEnv as any));
+    return transactionId;
+  }
+
+  async function submitAccept(transactionId: string, fields: Record<string, string> = {}): Promise<Response> {
+    const request = await createAcceptRequest(transactionId);
+    const review = await worker.fetch(request, memoryEnv as any);
+    return worker.fetch(await createDecisionSubmitRequest(request, review, fields), memoryEnv as any);
+  }
+
+  it('adds, lists, updates and deactivates drivers', async () => {
+    const id = await addDriver({ name: 'Alex Reed', email: 'Alex@Example.com', phone: '609-555-0111' });
+    await addDriver({ name: 'Zoe Park', email: 'zoe@example.com' });
+
+    const list = await rosterRequest('/drivers');
+    expect(list.drivers.map((driver: { name: string }) => driver.name)).toEqual(['Alex Reed', 'Zoe Park']);
+    expect(list.drivers[0]).toMatchObject({ id, email: 'alex@example.com', phone: '609-555-0111', active: true });
+
+    const updated = await rosterRequest(`/drivers/${id}`, 'PATCH', { phone: '609-555-0222' });
+    expect(updated.driver).toMatchObject({ name: 'Alex Reed', phone: '609-555-0222' });
+
+    const removed = await rosterRequest(`/drivers/${id}`, 'DELETE');
+    expect(removed.driver.active).toBe(false);
+
+    const fetched = await rosterRequest(`/drivers/${id}`);
+    expect(fetched.driver).toMatchObject({ id, active: false });
+  });
+
+  it('requires the API key', async () => {
+    const response = await worker.fetch(createDriverRequest('/drivers', 'GET', undefined, 'wrong-key'), memoryEnv as any);
+
+    expect(response.status).toBe(401);
+  });
+
+  it('rejects invalid drivers, unknown IDs and unsupported methods', async () => {
+    const invalid = await worker.fetch(createDriverRequest('/drivers', 'POST', { name: 'Alex Reed', email: 'nope' }), memoryEnv as any);
+    const body = await expectErrorResponse(invalid, 400);
+    expect(body.error).toBe('Validation failed');
+    expect(body.details).toEqual([{ field: 'email', message: 'Invalid email format' }]);
+
+    const missing = await worker.fetch(createDriverRequest('/drivers/drv-missing', 'PATCH', { active: true }), memoryEnv as any);
+    await expectErrorResponse(missing, 404);
+
+    const malformed = await worker.fetch(createDriverRequest('/drivers/%ZZ'), memoryEnv as any);
+    await expectErrorResponse(malformed, 404);
+
+    const method = await worker.fetch(createDriverRequest('/drivers', 'DELETE'), memoryEnv as any);
+    expect(method.status).toBe(405);
+    expect(method.headers.get('Allow')).toBe('GET, POST');
+  });
+
+  it('offers active drivers on the accept page', async () => {
+    await addDriver({ name: 'Alex Reed', email: 'alex@example.com' });
+    const inactiveId = await addDriver({ name: 'Zoe Park', email: 'zoe@example.com' });
+    await rosterRequest(`/drivers/${inactiveId}`, 'DELETE');
+    const transactionId = await createBooking();
+
+    const html = await expectHtmlResponse(await worker.fetch(await createAcceptRequest(transactionId), memoryEnv as any));
+
+    expect(html).toContain('name="driver_id"');
+    expect(html).toContain('Alex Reed');
+    expect(html).not.toContain('Zoe Park');
+  });
+
+  it('keeps the default driver and shows no choice while the roster is empty', async () => {
+    const transactionId = await createBooking();
+
+    const html = await expectHtmlResponse(await worker.fetch(await createAcceptRequest(transactionId), memoryEnv as any));
+    expect(html).not.toContain('name="driver_id"');
+
+    await expectHtmlResponse(await submitAccept(transactionId));
+    expect(await getMemoryBookingStore().getById(transactionId)).toMatchObject({
+      status: 'Accepted',
+      driverId: null,
+      driverName: mockEnv.DRIVER_CONTACT_NAME,
+    });
+  });
+
+  it('requires a driver from the roster before accepting', async () => {
+    await addDriver({ name: 'Alex Reed', email: 'alex@example.com' });
+    const transactionId = await createBooking();
+
+    const html = await expectHtmlResponse(await submitAccept(transactionId, { driver_id: 'drv-unknown' }), 400);
+
+    expect(html).toContain('Please choose a driver from the list.');
+    expect((await getMemoryBookingStore().getById(transactionId))?.status).toBe('Pending Review');
+  });
+
+  it('assigns the driver, names them to the customer and sends them the job', async () => {
+    const driverId = await addDriver({ name: 'Alex Reed', email: 'alex@example.com', phone: '609-555-0111' });
+    const transactionId = await createBooking();
+    mocks.resendApi!.clearEmails();
+
+    await expectHtmlResponse(await submitAccept(transactionId, { driver_id: driverId }));
+
+    expect(await getMemoryBookingStore().getById(transactionId)).toMatchObject({
+      status: 'Accepted',
+      driverId,
+      driverName: 'Alex Reed',
+      driverEmail: 'alex@example.com',
+      driverPhone: '609-555-0111',
+    });
+
+    const emails = mocks.resendApi!.getSentEmails();
+    const confirmation = emails.find(email => email.to === mockBookingPayload.customer_email);
+    expect(confirmation?.html).toContain('Alex Reed');
+    expect(confirmation?.html).toContain('609-555-0111');
+    expect(confirmation?.html).not.toContain(mockEnv.DRIVER_CONTACT_NAME);
+    expect(getCalendarAttachment(confirmation!)).toContain('Driver: Alex Reed');
+
+    const job = emails.find(email => email.to === 'alex@example.com');
+    expect(job?.subject).toContain('New Job');
+    expect(job?.html).toContain(mockBookingPayload.customer_name);
+    expect(job?.html).toContain('Open Route in Google Maps');
+    expect(job?.text).toContain('Route: https://www.google.com/maps/dir/');
+  });
+
+  it('only checks the chosen driver for schedule conflicts', async () => {
+    const env = { ...memoryEnv, BOOKING_CONFLICT_POLICY: 'block' };
+    const alexId = await addDriver({ name: 'Alex Reed', email: 'alex@example.com' });
+    const zoeId = await addDriver({ name: 'Zoe Park', email: 'zoe@example.com' });
+    const firstId = await createBooking();
+    await expectHtmlResponse(await submitAccept(firstId, { driver_id: alexId }));
+    const { transactionId } = await expectSuccessResponse(await worker.fetch(createBookingRequest({
+      ...mockBookingPayload,
+      customer_name: 'Sam Lee',
+      pickup_datetime: mockBookingPayload.pickup_datetime.replace('14:30', '15:00'),
+    }), env as any));
+
+    const submit = async (driverId: string) => {
+      const request = await createAcceptRequest(transactionId);
+      const review = await worker.fetch(request, env as any);
+      return worker.fetch(await createDecisionSubmitRequest(request, review, { driver_id: driverId }), env as any);
     };
 
-    const request = createBookingRequest(payloadWithIdempotencyKey);
-    await worker.fetch(request, mockEnv as any);
+    const refused = await expectHtmlResponse(await submit(alexId), 400);
+    expect(refused).toContain('so it can&#039;t be accepted');
+    expect(refused).toContain('accepted ride of Alex Reed');
+    expect(refused).toContain(`value="${alexId}" selected`);
 
-    const appendedRows = mocks.sheetsClient!.getAppendedRows();
-    const idempotencyKey = appendedRows[0][1] as string;
-    expect(idempotencyKey).toBe('my-custom-key-123');
+    await expectHtmlResponse(await submit(zoeId));
+    expect(await getMemoryBookingStore().getById(transactionId)).toMatchObject({ status: 'Accepted', driverId: zoeId });
+  });
+});
+
+describe('Vehicle Fleet', () => {
+  const fleetEnv = {
+    ...mockEnv,
+    BOOKING_STORE: 'memory',
+    VEHICLE_FLEET: 'sprinter: Mercedes Sprinter (14 seats, 12 bags); sedan: Lincoln Town Car (3 seats, 3 bags); suv: Cadillac Escalade (6 seats, 5 bags)',
+  };
+
+  beforeEach(() => {
+    getMemoryBookingStore().clear();
+  });
+
+  async function createBooking(passengers: number, env: Record<string, unknown> = fleetEnv): Promise<string> {
+    const request = createBookingRequest({ ...mockBookingPayload, passengers });
+    const { transactionId } = await expectSuccessResponse(await worker.fetch(request, env as any));
+    return transactionId;
+  }
+
+  async function submitAccept(transactionId: string, fields: Record<string, string> = {}): Promise<Response> {
+    const request = await createAcceptRequest(transactionId);
+    const review = await worker.fetch(request, fleetEnv as any);
+    return worker.fetch(await createDecisionSubmitRequest(request, review, fields), fleetEnv as any);
+  }
+
+  it('rejects more passengers than the largest vehicle seats', async () => {
+    const payload = { ...mockBookingPayload, passengers: 40 };
+
+    const response = await worker.fetch(createBookingRequest(payload), fleetEnv as any);
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      ok: false,
+      error: 'Validation failed',
+      details: [{ field: 'passengers', message: 'Our largest vehicle seats 14 passengers. Please contact us about larger groups.' }],
+    });
+    expect(mocks.resendApi!.getSentEmails()).toHaveLength(0);
+  });
+
+  it('flags an over-capacity request to the owner when the policy is flag', async () => {
+    await createBooking(40, { ...fleetEnv, VEHICLE_CAPACITY_POLICY: 'flag' });
+
+    const ownerEmail = mocks.resendApi!.getSentEmails().find(email => email.to === mockEnv.OWNER_EMAIL);
+    expect(ownerEmail?.html).toContain('Over Capacity');
+    expect(ownerEmail?.text).toContain('40 passengers is more than your largest vehicle seats (14).');
+    expect(ownerEmail?.html).not.toContain('Suggested Vehicle');
+  });
+
+  it('suggests the smallest vehicle that fits in the owner notification', async () => {
+    await createBooking(5);
+
+    const ownerEmail = mocks.resendApi!.getSentEmails().find(email => email.to === mockEnv.OWNER_EMAIL);
+    expect(ownerEmail?.html).toContain('Suggested Vehicle');
+    expect(ownerEmail?.text).toContain('Suggested Vehicle: Cadillac Escalade (6 seats · 5 bags)');
+    expect(ownerEmail?.html).not.toContain('Over Capacity');
+  });
+
+  it('offers only vehicles that seat every passenger on the accept page', async () => {
+    const transactionId = await createBooking(5);
+
+    const html = await expectHtmlResponse(await worker.fetch(await createAcceptRequest(transactionId), fleetEnv as any));
+
+    expect(html).toContain('name="vehicle_id"');
+    expect(html).toContain('Cadillac Escalade · 6 seats · 5 bags');
+    expect(html).toContain('Mercedes Sprinter');
+    expect(html).not.toContain('Lincoln Town Car');
+  });
+
+  it('requires a vehicle that fits before accepting', async () => {
+    const transactionId = await createBooking(5);
+
+    const html = await expectHtmlResponse(await submitAccept(transactionId, { vehicle_id: 'sedan' }), 400);
+
+    expect(html).toContain('Please choose a vehicle from the list.');
+    expect((await getMemoryBookingStore().getById(transactionId))?.status).toBe('Pending Review');
+  });
+
+  it('assigns the vehicle and shows it in the confirmation email', async () => {
+    const transactionId = await createBooking(5);
+    mocks.resendApi!.clearEmails();
+
+    await expectHtmlResponse(await submitAccept(transactionId, { vehicle_id: 'suv' }));
+
+    expect(await getMemoryBookingStore().getById(transactionId)).toMatchObject({
+      status: 'Accepted',
+      vehicleId: 'suv',
+      vehicleName: 'Cadillac Escalade',
+    });
+    const confirmation = mocks.resendApi!.getSentEmails().find(email => email.to === mockBookingPayload.customer_email);
+    expect(confirmation?.html).toContain('Your Vehicle');
+    expect(confirmation?.html).toContain('Cadillac Escalade');
+    expect(confirmation?.text).toContain('Cadillac Escalade (6 seats · 5 bags)');
+  });
+
+  it('publishes the fleet on GET /booking-rules', async () => {
+    const response = await worker.fetch(new Request('https://test-worker.example.com/booking-rules', {
+      headers: { 'X-API-Key': mockEnv.API_KEY },
+    }), fleetEnv as any);
+
+    const { fleet } = await response.json() as { fleet: Record<string, any> };
+    expect(fleet).toMatchObject({ maxPassengers: 14, capacityPolicy: 'reject' });
+    expect(fleet.vehicles.map((vehicle: { id: string }) => vehicle.id)).toEqual(['sedan', 'suv', 'sprinter']);
+  });
+});
+
+describe('Ride Pricing', () => {
+  const pricingEnv = {
+    ...mockEnv,
+    BOOKING_STORE: 'memory',
+    PRICING_BASE_FARE: '25',
+    PRICING_PER_MILE: '2.50',
+    PRICING_AIRPORT_FEE: '15',
+  };
+
+  beforeEach(() => {
+    getMemoryBookingStore().clear();
+  });
+
+  it('returns the quote with the booking and stores it', async () => {
+    const response = await worker.fetch(createBookingRequest(), pricingEnv as any);
+
+    const body = await expectSuccessResponse(response);
+    expect(body.quote).toMatchObject({
+      currency: 'USD',
+      distanceMiles: 95,
+      lines: [
+        { code: 'base', amount: 2500 },
+        { code: 'distance', amount: 23750 },
+        { code: 'airport', amount: 1500 },
+      ],
+      total: 27750,
+    });
+    expect((await getMemoryBookingStore().getById(body.transactionId))?.quote).toEqual(body.quote);
+  });
+
+  it('replays the stored quote for a duplicate submission', async () => {
+    const first = await expectSuccessResponse(await worker.fetch(createBookingRequest(), pricingEnv as any));
+
+    const duplicate = await expectSuccessResponse(await worker.fetch(createBookingRequest(), pricingEnv as any));
+
+    expect(duplicate.duplicate).toBe(true);
+    expect(duplicate.quote).toEqual(first.quote);
+  });
+
+  it('shows the quote to the owner and the customer', async () => {
+    const { transactionId } = await expectSuccessResponse(await worker.fetch(createBookingRequest(), pricingEnv as any));
+
+    const emails = mocks.resendApi!.getSentEmails();
+    const ownerEmail = emails.find(email => email.to === mockEnv.OWNER_EMAIL);
+    const ackEmail = emails.find(email => email.to === mockBookingPayload.customer_email);
+    expect(ownerEmail?.text).toContain('QUOTED FARE');
+    expect(ownerEmail?.text).toContain('Total: $277.50');
+    expect(ackEmail?.text).toContain('ESTIMATED FARE');
+    expect(ackEmail?.html).toContain('$277.50');
+
+    mocks.resendApi!.clearEmails();
+    const acceptRequest = await createAcceptRequest(transactionId);
+    const review = await worker.fetch(acceptRequest, pricingEnv as any);
+    await worker.fetch(await createDecisionSubmitRequest(acceptRequest, review), pricingEnv as any);
+
+    const confirmation = mocks.resendApi!.getSentEmails().find(email => email.to === mockBookingPayload.customer_email);
+    expect(confirmation?.text).toContain('YOUR FARE');
+    expect(confirmation?.text).toContain('Distance (95 mi × $2.50): $237.50');
+  });
+
+  it('books without a quote when pricing is not configured', async () => {
+    const body = await expectSuccessResponse(await worker.fetch(createBookingRequest(), { ...mockEnv, BOOKING_STORE: 'memory' } as any));
+
+    expect(body.quote).toBeNull();
+    const ackEmail = mocks.resendApi!.getSentEmails().find(email => email.to === mockBookingPayload.customer_email);
+    expect(ackEmail?.text).not.toContain('ESTIMATED FARE');
+  });
+
+  it('prices a ride on POST /quote without booking it', async () => {
+    const response = await worker.fetch(createQuoteRequest(), pricingEnv as any);
+
+    expect(response.status).toBe(200);
+    const body = await response.json() as { ok: boolean; transactionId?: string; quote: { total: number } };
+    expect(body.ok).toBe(true);
+    expect(body.quote.total).toBe(27750);
+    expect(body.transactionId).toBeUndefined();
+    expect(mocks.resendApi!.getSentEmails()).toHaveLength(0);
+  });
+
+  it('rejects an unauthenticated or malformed quote request', async () => {
+    expect((await worker.fetch(createQuoteRequest(mockBookingPayload, 'wrong-key'), pricingEnv as any)).status).toBe(401);
+
+    const getResponse = await worker.fetch(new Request('https://test-worker.example.com/quote', {
+      headers: { 'X-API-Key': mockEnv.API_KEY },
+    }), pricingEnv as any);
+    expect(getResponse.status).toBe(405);
+    expect(getResponse.headers.get('Allow')).toBe('POST');
+
+    const invalid = await worker.fetch(createQuoteRequest({ ...mockBookingPayload, estimated_distance: 'far', passengers: 0 }), pricingEnv as any);
+    expect(invalid.status).toBe(400);
+    const { details } = await invalid.json() as { details: Array<{ field: string }> };
+    expect(details.map(detail => detail.field)).toEqual(['passengers']);
+
+    const unreadable = await worker.fetch(createQuoteRequest({ ...mockBookingPayload, estimated_distance: 'far' }), pricingEnv as any);
+    expect(unreadable.status).toBe(400);
+    expect(await unreadable.json()).toMatchObject({ details: [{ field: 'estimated_distance' }] });
+  });
+
+  it('answers 503 on POST /quote when pricing is not configured', async () => {
+    const response = await worker.fetch(createQuoteRequest(), mockEnv as any);
+
+    expect(response.status).toBe(503);
+    expect(await response.json()).toEqual({ ok: false, error: 'Pricing is not configured' });
+  });
+});
+
+describe('Round Trips', () => {
+  const roundTripEnv = { ...mockEnv, BOOKING_STORE: 'memory', PRICING_BASE_FARE: '25', PRICING_PER_MILE: '2.50' };
+  const roundTripPayload = {
+    ...mockBookingPayload,
+    return_pickup_datetime: `${mockBookingPayload.pickup_datetime.slice(0, 10)}T19:00:00`,
+  };
+
+  beforeEach(() => {
+    getMemoryBookingStore().clear();
+  });
+
+  async function bookRoundTrip(): Promise<{ transactionId: string; returnId: string }> {
+    const body = await expectSuccessResponse(await worker.fetch(createBookingRequest(roundTripPayload), roundTripEnv as any));
+    return { transactionId: body.transactionId, returnId: body.returnLeg!.transactionId };
+  }
+
+  async function decide(request: Request, fields: Record<string, string> = {}, env = roundTripEnv): Promise<Response> {
+    const review = await worker.fetch(request, env as any);
+    return worker.fetch(await createDecisionSubmitRequest(request, review, fields), env as any);
+  }
+
+  // An accepted ride half an hour after the return pickup
+  async function acceptRideDuringReturn(): Promise<string> {
+    const { transactionId } = await expectSuccessResponse(await worker.fetch(createBookingRequest({
+      ...mockBookingPayload,
+      customer_name: 'Sam Lee',
+      pickup_datetime: roundTripPayload.return_pickup_datetime.replace('19:00', '19:30'),
+    }), roundTripEnv as any));
+    await acceptBooking(transactionId, roundTripEnv);
+    return transactionId;
+  }
+
+  it('books both legs under one reservation', async () => {
+    const body = await expectSuccessResponse(await worker.fetch(createBookingRequest(roundTripPayload), roundTripEnv as any));
+
+    expect(body.reservationId).toBe(body.transactionId);
+    expect(body.returnLeg?.transactionId).not.toBe(body.transactionId);
+    expect(body.returnLeg?.quote).toMatchObject({ total: 26250 });
+
+    const legs = await getMemoryBookingStore().list({ reservationId: body.transactionId });
+    expect(legs.map(leg => leg.tripLeg).sort()).toEqual(['outbound', 'return']);
+    const returnLeg = legs.find(leg => leg.tripLeg === 'return');
+    expect(returnLeg).toMatchObject({
+      status: 'Pending Review',
+      startLocation: mockBookingPayload.end_location,
+      endLocation: mockBookingPayload.start_location,
+    });
+  });
+
+  it('sends one owner email and one acknowledgment covering both legs', async () => {
+    await bookRoundTrip();
+
+    const emails = mocks.resendApi!.getSentEmails();
+    expect(emails).toHaveLength(2);
+    const ownerEmail = emails.find(email => email.to === mockEnv.OWNER_EMAIL);
+    const ackEmail = emails.find(email => email.to === mockBookingPayload.customer_email);
+    expect(ownerEmail?.subject).toContain('New Round Trip');
+    expect(ownerEmail?.html).toContain('Accept Outbound Only');
+    expect(ownerEmail?.html).toContain('?legs=outbound');
+    expect(ownerEmail?.text).toContain('Outbound: Base fare');
+    expect(ackEmail?.html).toContain('Return Trip');
+    expect(ackEmail?.text).toContain('Total: $525.00');
+  });
+
+  it('replays the return leg for a duplicate submission', async () => {
+    const first = await expectSuccessResponse(await worker.fetch(createBookingRequest(roundTripPayload), roundTripEnv as any));
+
+    const duplicate = await expectSuccessResponse(await worker.fetch(createBookingRequest(roundTripPayload), roundTripEnv as any));
+
+    expect(duplicate.duplicate).toBe(true);
+    expect(duplicate.returnLeg).toEqual(first.returnLeg);
+    expect(await getMemoryBookingStore().list({ reservationId: first.transactionId })).toHaveLength(2);
+  });
+
+  it('shows the return leg and the leg choice on the accept page', async () => {
+    const { transactionId } = await bookRoundTrip();
+    const request = await createAcceptRequest(transactionId);
+    const outboundOnly = new Request(`${request.url}?legs=outbound`);
+
+    const html = await expectHtmlResponse(await worker.fetch(outboundOnly, roundTripEnv as any));
+
+    expect(html).toContain('Return Pickup');
+    expect(html).toContain('id="legs_outbound" name="legs" value="outbound" checked');
+  });
+
+  it('accepts both legs and confirms the return trip', async () => {
+    const { transactionId, returnId } = await bookRoundTrip();
+    mocks.resendApi!.clearEmails();
+
+    await expectHtmlResponse(await decide(await createAcceptRequest(transactionId)));
+
+    expect((await getMemoryBookingStore().getById(transactionId))?.status).toBe('Accepted');
+    expect((await getMemoryBookingStore().getById(returnId))?.status).toBe('Accepted');
+    const confirmation = mocks.resendApi!.getSentEmails().find(email => email.to === mockBookingPayload.customer_email);
+    expect(confirmation?.html).toContain('Return Trip - Confirmed');
+  });
+
+  it('declines the return leg when only the outbound ride is accepted', async () => {
+    const { transactionId, returnId } = await bookRoundTrip();
+    mocks.resendApi!.clearEmails();
+
+    await expectHtmlResponse(await decide(await createAcceptRequest(transactionId), { legs: 'outbound' }));
+
+    expect((await getMemoryBookingStore().getById(transactionId))?.status).toBe('Accepted');
+    expect(await getMemoryBookingStore().getById(returnId)).toMatchObject({
+      status: 'Denied',
+      denialReason: 'the return ride not being available',
+    });
+    const confirmation = mocks.resendApi!.getSentEmails().find(email => email.to === mockBookingPayload.customer_email);
+    expect(confirmation?.html).toContain('Return Trip - Not Available');
+  });
+
+  it('checks the return leg for conflicts before accepting both rides', async () => {
+    const env = { ...roundTripEnv, BOOKING_CONFLICT_POLICY: 'block' };
+    await acceptRideDuringReturn();
+    const { transactionId, returnId } = await bookRoundTrip();
+
+    const review = await expectHtmlResponse(await worker.fetch(await createAcceptRequest(transactionId), env as any));
+    expect(review).toContain('Return Ride Conflict');
+    expect(review).toContain('Sam Lee');
+
+    const refused = await expectHtmlResponse(await decide(await createAcceptRequest(transactionId), {}, env), 400);
+    expect(refused).toContain('The return ride overlaps an accepted ride');
+    expect((await getMemoryBookingStore().getById(transactionId))?.status).toBe('Pending Review');
+    expect((await getMemoryBookingStore().getById(returnId))?.status).toBe('Pending Review');
+
+    await expectHtmlResponse(await decide(await createAcceptRequest(transactionId), { legs: 'outbound' }, env));
+    expect((await getMemoryBookingStore().getById(transactionId))?.status).toBe('Accepted');
+    expect((await getMemoryBookingStore().getById(returnId))?.status).toBe('Denied');
+  });
+
+  it('accepts a conflicting return leg with the override box and records it', async () => {
+    const env = { ...roundTripEnv, BOOKING_CONFLICT_POLICY: 'override' };
+    const otherId = await acceptRideDuringReturn();
+    const { transactionId, returnId } = await bookRoundTrip();
+
+    const refused = await expectHtmlResponse(await decide(await createAcceptRequest(transactionId), {}, env), 400);
+    expect(refused).toContain('Tick the box to accept it anyway');
+    expect(refused).toContain('name="override_conflicts"');
+
+    await expectHtmlResponse(await decide(await createAcceptRequest(transactionId), { override_conflicts: 'yes' }, env));
+    expect((await getMemoryBookingStore().getById(returnId))?.status).toBe('Accepted');
+    const override = getMemoryBookingStore().getAuditLog()
+      .find(entry => entry.transactionId === returnId && entry.event === 'conflict_overridden');
+    expect(JSON.parse(override!.details)).toEqual({ conflicts: [otherId] });
+  });
+
+  it('denies both legs together', async () => {
+    const { transactionId, returnId } = await bookRoundTrip();
+
+    const reviewHtml = await expectHtmlResponse(await worker.fetch(await createDenyRequest(transactionId), roundTripEnv as any));
+    expect(reviewHtml).toContain('The return ride will be declined too.');
+
+    await expectHtmlResponse(await decide(await createDenyRequest(transactionId)));
+
+    expect((await getMemoryBookingStore().getById(transactionId))?.status).toBe('Denied');
+    expect((await getMemoryBookingStore().getById(returnId))?.status).toBe('Denied');
+  });
+});
+
+describe('Multi-stop Itineraries', () => {
+  const stopsEnv = { ...mockEnv, BOOKING_STORE: 'memory' };
+  const multiStopPayload = {
+    ...mockBookingPayload,
+    stops: [
+      { address: '30th Street Station, Philadelphia, PA', wait_minutes: 10 },
+      { address: 'Trenton Transit Center, Trenton, NJ' },
+    ],
+  };
+
+  beforeEach(() => {
+    getMemoryBookingStore().clear();
+  });
+
+  it('stores the stops and routes the map through them in order', async () => {
+    const { transactionId } = await expectSuccessResponse(await worker.fetch(createBookingRequest(multiStopPayload), stopsEnv as any));
+
+    const booking = await getMemoryBookingStore().getById(transactionId);
+    expect(booking?.stops).toEqual([
+      { address: '30th Street Station, Philadelphia, PA', waitMinutes: 10 },
+      { address: 'Trenton Transit Center, Trenton, NJ', waitMinutes: null },
+    ]);
+    const waypoints = new URL(booking!.mapUrl).searchParams.get('waypoints');
+    expect(waypoints).toBe('30th Street Station, Philadelphia, PA|Trenton Transit Center, Trenton, NJ');
+  });
+
+  it('shows the itinerary to the owner and the customer', async () => {
+    await worker.fetch(createBookingRequest(multiStopPayload), stopsEnv as any);
+
+    const emails = mocks.resendApi!.getSentEmails();
+    const ownerEmail = emails.find(email => email.to === mockEnv.OWNER_EMAIL);
+    const ackEmail = emails.find(email => email.to === mockBookingPayload.customer_email);
+    expect(ownerEmail?.text).toContain('Stop 1: 30th Street Station, Philadelphia, PA (10 min wait)');
+    expect(ackEmail?.html).toContain('<!-- Itinerary -->');
+    expect(ackEmail?.text).toContain('Stop 2: Trenton Transit Center, Trenton, NJ');
+  });
+
+  it('lists the stops on the accept page and in the confirmation', async () => {
+    const { transactionId } = await expectSuccessResponse(await worker.fetch(createBookingRequest(multiStopPayload), stopsEnv as any));
+    mocks.resendApi!.clearEmails();
+    const request = await createAcceptRequest(transactionId);
+
+    const review = await worker.fetch(request, stopsEnv as any);
+    const reviewHtml = await review.clone().text();
+    expect(reviewHtml).toContain('1. 30th Street Station, Philadelphia, PA (10 min wait)');
+    await expectHtmlResponse(await worker.fetch(await createDecisionSubmitRequest(request, review), stopsEnv as any));
+
+    const confirmation = mocks.resendApi!.getSentEmails().find(email => email.to === mockBookingPayload.customer_email);
+    expect(confirmation?.text).toContain('ITINERARY');
+    expect(confirmation?.text).toContain('Drop-off: Newark Liberty International Airport, Newark, NJ');
+  });
+
+  it('rejects an invalid stop', async () => {
+    const response = await worker.fetch(createBookingRequest({ ...mockBookingPayload, stops: [{ address: ' ' }] }), stopsEnv as any);
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ details: [{ field: 'stops[0].address', message: 'Stop address is required' }] });
+    expect(mocks.resendApi!.getSentEmails()).toHaveLength(0);
+  });
+
+  it('keeps the stops on the outbound leg of a round trip', async () => {
+    const body = await expectSuccessResponse(await worker.fetch(createBookingRequest({
+      ...multiStopPayload,
+      return_pickup_datetime: `${mockBookingPayload.pickup_datetime.slice(0, 10)}T19:00:00`,
+    }), stopsEnv as any));
+
+    const returnLeg = await getMemoryBookingStore().getById(body.returnLeg!.transactionId);
+    expect(returnLeg?.stops).toEqual([]);
+    expect(returnLeg?.mapUrl).not.toContain('waypoints');
+  });
+});
+
+describe('Recurring Bookings', () => {
+  const seriesEnv = { ...mockEnv, BOOKING_STORE: 'memory' };
+  const seriesPayload = { ...mockBookingPayload, recurrence: 'FREQ=DAILY;COUNT=3' };
+  const firstDate = mockBookingPayload.pickup_datetime.slice(0, 10);
+
+  beforeEach(() => {
+    getMemoryBookingStore().clear();
+  });
+
+  function dateAfter(days: number): string {
+    return new Date(Date.parse(`${firstDate}T00:00:00Z`) + days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  }
+
+  async function bookSeries(): Promise<string[]> {
+    const body = await expectSuccessResponse(await worker.fetch(createBookingRequest(seriesPayload), seriesEnv as any));
+    mocks.resendApi!.clearEmails();
+    return body.series!.map(ride => ride.transactionId);
+  }
+
+  async function submitForm(request: Request, fields: Record<string, string> = {}, env = seriesEnv): Promise<Response> {
+    const review = await worker.fetch(request, env as any);
+    return worker.fetch(await createDecisionSubmitRequest(request, review, fields), env as any);
+  }
+
+  // An accepted ride half an hour after the series' second pickup
+  async function acceptRideDuringSecond(): Promise<string> {
+    const { transactionId } = await expectSuccessResponse(await worker.fetch(createBookingRequest({
+      ...mockBookingPayload,
+      customer_name: 'Sam Lee',
+      pickup_datetime: `${dateAfter(1)}T15:00:00`,
+    }), seriesEnv as any));
+    await acceptBooking(transactionId, seriesEnv);
+    return transactionId;
+  }
+
+  it('books one ride per date under a series', async () => {
+    const body = await expectSuccessResponse(await worker.fetch(createBookingRequest(seriesPayload), seriesEnv as any));
+
+    expect(body.seriesId).toBe(body.transactionId);
+    expect(body.series?.map(ride => ride.pickupDatetime.slice(0, 10))).toEqual([firstDate, dateAfter(1), dateAfter(2)]);
+    expect(body.series?.[0].transactionId).toBe(body.transactionId);
+
+    const rides = await getMemoryBookingStore().list({ seriesId: body.transactionId });
+    expect(rides).toHaveLength(3);
+    expect(rides.every(ride => ride.status === 'Pending Review' && ride.recurrence === 'FREQ=DAILY;COUNT=3')).toBe(true);
+    expect(rides.every(ride => ride.pickupDatetime.slice(11, 16) === '14:30')).toBe(true);
+  });
+
+  it('sends one owner email and one acknowledgment listing every ride', async () => {
+    await worker.fetch(createBookingRequest(seriesPayload), seriesEnv as any);
+
+    const emails = mocks.resendApi!.getSentEmails();
+    expect(emails).toHaveLength(2);
+    const ownerEmail = emails.find(email => email.to === mockEnv.OWNER_EMAIL);
+    const ackEmail = emails.find(email => email.to === mockBookingPayload.customer_email);
+    expect(ownerEmail?.subject).toContain('New Recurring Booking');
+    expect(ownerEmail?.html).toContain('Accept Series');
+    expect(ownerEmail?.text).toContain('Schedule: Daily, 3 rides');
+    expect(ackEmail?.html).toContain('<!-- Series -->');
+    expect(ackEmail?.text).toContain('REQUESTED RIDES');
+  });
+
+  it('replays the series for a duplicate submission', async () => {
+    const first = await expectSuccessResponse(await worker.fetch(createBookingRequest(seriesPayload), seriesEnv as any));
+
+    const duplicate = await expectSuccessResponse(await worker.fetch(createBookingRequest(seriesPayload), seriesEnv as any));
+
+    expect(duplicate.duplicate).toBe(true);
+    expect(duplicate.series?.map(ride => ride.transactionId)).toEqual(first.series?.map(ride => ride.transactionId));
+    expect(await getMemoryBookingStore().list({ seriesId: first.transactionId })).toHaveLength(3);
+  });
+
+  it('rejects an invalid rule and a recurring round trip', async () => {
+    const invalid = await worker.fetch(createBookingRequest({ ...seriesPayload, recurrence: 'FREQ=MONTHLY;COUNT=3' }), seriesEnv as any);
+    expect(invalid.status).toBe(400);
+    expect(await invalid.json()).toMatchObject({ details: [{ field: 'recurrence', message: 'FREQ must be DAILY or WEEKLY' }] });
+
+    const roundTrip = await worker.fetch(createBookingRequest({
+      ...seriesPayload,
+      return_pickup_datetime: `${firstDate}T19:00:00`,
+    }), seriesEnv as any);
+    expect(roundTrip.status).toBe(400);
+    expect(await roundTrip.json()).toMatchObject({
+      details: [{ field: 'recurrence', message: 'A recurring booking cannot also be a round trip' }],
+    });
+    expect(mocks.resendApi!.getSentEmails()).toHaveLength(0);
+  });
+
+  it('accepts the series except the rides the owner skips', async () => {
+    const [first, second, third] = await bookSeries();
+    const request = await createAcceptRequest(first);
+
+    const reviewHtml = await expectHtmlResponse(await worker.fetch(request, seriesEnv as any));
+    expect(reviewHtml).toContain('Daily, 3 rides');
+    expect(reviewHtml).toContain(`name="skip_${second}"`);
+    expect(reviewHtml).not.toContain(`name="skip_${first}"`);
+
+    await expectHtmlResponse(await submitForm(request, { [`skip_${third}`]: 'yes' }));
+
+    expect((await getMemoryBookingStore().getById(first))?.status).toBe('Accepted');
+    expect((await getMemoryBookingStore().getById(second))?.status).toBe('Accepted');
+    expect(await getMemoryBookingStore().getById(third)).toMatchObject({
+      status: 'Denied',
+      denialReason: 'this date not being available',
+    });
+    const confirmation = mocks.resendApi!.getSentEmails().find(email => email.to === mockBookingPayload.customer_email);
+    expect(confirmation?.text).toContain('YOUR RECURRING RIDES');
+    expect(confirmation?.text).toMatch(/\/cancel\/v1\.[^\s]+/);
+    expect(confirmation?.html).toContain('Not included');
+  });
+
+  it('skips the rides that overlap an accepted ride under the block policy', async () => {
+    const env = { ...seriesEnv, BOOKING_CONFLICT_POLICY: 'block' };
+    await acceptRideDuringSecond();
+    const [first, second, third] = await bookSeries();
+    const request = await createAcceptRequest(first);
+
+    const reviewHtml = await expectHtmlResponse(await worker.fetch(request, env as any));
+    expect(reviewHtml).toContain('Series Conflicts');
+    expect(reviewHtml).toContain('Sam Lee');
+    expect(reviewHtml).toContain(`name="skip_${second}" value="yes" checked disabled`);
+
+    await expectHtmlResponse(await submitForm(request, {}, env));
+
+    expect((await getMemoryBookingStore().getById(first))?.status).toBe('Accepted');
+    expect(await getMemoryBookingStore().getById(second)).toMatchObject({
+      status: 'Denied',
+      denialReason: 'this date not being available',
+    });
+    expect((await getMemoryBookingStore().getById(third))?.status).toBe('Accepted');
+  });
+
+  it('requires the override box for overlapping rides and records each override', async () => {
+    const env = { ...seriesEnv, BOOKING_CONFLICT_POLICY: 'override' };
+    const otherId = await acceptRideDuringSecond();
+    const [first, second] = await bookSeries();
+
+    const refused = await expectHtmlResponse(await submitForm(await createAcceptRequest(first), {}, env), 400);
+    expect(refused).toContain('A later ride of this series overlaps an accepted ride.');
+    expect(refused).toContain('name="override_conflicts"');
+    expect((await getMemoryBookingStore().getById(first))?.status).toBe('Pending Review');
+
+    await expectHtmlResponse(await submitForm(await createAcceptRequest(first), { override_conflicts: 'yes' }, env));
+
+    expect((await getMemoryBookingStore().getById(second))?.status).toBe('Accepted');
+    const override = getMemoryBookingStore().getAuditLog()
+      .find(entry => entry.transactionId === second && entry.event === 'conflict_overridden');
+    expect(JSON.parse(override!.details)).toEqual({ conflicts: [otherId] });
+  });
+
+  it('needs no override once the overlapping ride is skipped', async () => {
+    const env = { ...seriesEnv, BOOKING_CONFLICT_POLICY: 'override' };
+    await acceptRideDuringSecond();
+    const [first, second] = await bookSeries();
+
+    await expectHtmlResponse(await submitForm(await createAcceptRequest(first), { [`skip_${second}`]: 'yes' }, env));
+
+    expect((await getMemoryBookingStore().getById(first))?.status).toBe('Accepted');
+    expect((await getMemoryBookingStore().getById(second))?.status).toBe('Denied');
+  });
+
+  it('declines every ride of the series together', async () => {
+    const rides = await bookSeries();
+
+    const reviewHtml = await expectHtmlResponse(await worker.fetch(await createDenyRequest(rides[0]), seriesEnv as any));
+    expect(reviewHtml).toContain('Every ride of the series will be declined.');
+
+    await expectHtmlResponse(await submitForm(await createDenyRequest(rides[0])));
+
+    for (const id of rides) {
+      expect((await getMemoryBookingStore().getById(id))?.status).toBe('Denied');
+    }
+  });
+
+  it('cancels a single ride of the series by default', async () => {
+    const [first, second, third] = await bookSeries();
+    const request = await createCancelRequest(second);
+
+    const reviewHtml = await expectHtmlResponse(await worker.fetch(request, seriesEnv as any));
+    expect(reviewHtml).toContain('Cancel this ride and the next ride after it');
+
+    await expectHtmlResponse(await submitForm(request, { scope: 'one' }));
+
+    expect((await getMemoryBookingStore().getById(first))?.status).toBe('Pending Review');
+    expect((await getMemoryBookingStore().getById(second))?.status).toBe('Cancelled');
+    expect((await getMemoryBookingStore().getById(third))?.status).toBe('Pending Review');
+  });
+
+  it('cancels the remaining rides and lists what is still booked', async () => {
+    const [first, second, third] = await bookSeries();
+
+    const html = await expectHtmlResponse(await submitForm(await createCancelRequest(first), { scope: 'remaining' }));
+
+    expect(html).toContain('The 2 later rides in this series are cancelled too.');
+    for (const id of [first, second, third]) {
+      expect((await getMemoryBookingStore().getById(id))?.status).toBe('Cancelled');
+    }
+    const ownerEmail = mocks.resendApi!.getSentEmails().find(email => email.to === mockEnv.OWNER_EMAIL);
+    expect(ownerEmail?.text).toContain('STILL BOOKED IN THIS SERIES');
+    expect(ownerEmail?.text).toContain('No rides remain in this series.');
+  });
+});
+
+describe('Service Area', () => {
+  const zoneEnv = { ...mockEnv, BOOKING_STORE: 'memory', SERVICE_ZONES: 'shore: zip 08401 08402; ac: city Atlantic City NJ' };
+  const outOfZonePayload = { ...mockBookingPayload, end_location: '1 Light St, Baltimore, MD 21202' };
+
+  beforeEach(() => {
+    getMemoryBookingStore().clear();
+  });
+
+  async function createBooking(payload: Record<string, unknown>, env: Record<string, unknown> = zoneEnv): Promise<string> {
+    const { transactionId } = await expectSuccessResponse(await worker.fetch(createBookingRequest(payload), env as any));
+    return transactionId;
+  }
+
+  function ownerEmail() {
+    return mocks.resendApi!.getSentEmails().find(email => email.to === mockEnv.OWNER_EMAIL);
+  }
+
+  it('rejects a trip with both ends outside every zone', async () => {
+    const response = await worker.fetch(createBookingRequest(outOfZonePayload), zoneEnv as any);
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      ok: false,
+      error: 'Validation failed',
+      details: [{
+        field: 'start_location',
+        message: "Sorry, we don't serve this trip: the pickup and the drop-off are both outside our service area. Please contact us about rides further afield.",
+      }],
+    });
+    expect(mocks.resendApi!.getSentEmails()).toHaveLength(0);
+  });
+
+  it('flags an out-of-zone trip to the owner when the policy is flag', async () => {
+    const env = { ...zoneEnv, SERVICE_AREA_POLICY: 'flag' };
+    const transactionId = await createBooking(outOfZonePayload, env);
+
+    expect((await getMemoryBookingStore().getById(transactionId))?.serviceArea).toBe('out-of-zone');
+    expect(ownerEmail()?.html).toContain('Outside Service Area');
+    expect(ownerEmail()?.text).toContain('OUTSIDE SERVICE AREA');
+
+    const html = await expectHtmlResponse(await worker.fetch(await createAcceptRequest(transactionId), env as any));
+    expect(html).toContain('⚠ Outside Service Area');
+  });
+
+  it('asks the owner to check a trip it cannot place', async () => {
+    // The airport address has no ZIP code to check against the shore zone
+    const transactionId = await createBooking(mockBookingPayload);
+
+    expect((await getMemoryBookingStore().getById(transactionId))?.serviceArea).toBe('requires-review');
+    expect(ownerEmail()?.html).toContain('Check Service Area');
+    expect(ownerEmail()?.text).toContain('Check the addresses before accepting.');
+  });
+
+  it('accepts a trip with one end in a zone without a warning', async () => {
+    const transactionId = await createBooking({ ...mockBookingPayload, end_location: '1000 Boardwalk, Atlantic City, NJ 08401' });
+
+    expect((await getMemoryBookingStore().getById(transactionId))?.serviceArea).toBe('in-zone');
+    expect(ownerEmail()?.html).not.toContain('Service Area');
+  });
+
+  it('does not classify trips without zones', async () => {
+    const transactionId = await createBooking(outOfZonePayload, { ...mockEnv, BOOKING_STORE: 'memory' });
+
+    expect((await getMemoryBookingStore().getById(transactionId))?.serviceArea).toBeNull();
+  });
+
+  it('publishes the zones on GET /booking-rules', async () => {
+    const response = await worker.fetch(new Request('https://test-worker.example.com/booking-rules', {
+      headers: { 'X-API-Key': mockEnv.API_KEY },
+    }), zoneEnv as any);
+
+    const { serviceArea } = await response.json() as { serviceArea: Record<string, unknown> };
+    expect(serviceArea).toEqual({
+      enabled: true,
+      outOfZonePolicy: 'reject',
+      zones: [
+        { id: 'shore', kind: 'zip', values: ['08401', '08402'] },
+        { id: 'ac', kind: 'city', values: ['atlantic city nj'] },
+      ],
+    });
+  });
+});
+
+describe('Booking Lifecycle', () => {
+  const memoryEnv = { ...mockEnv, BOOKING_STORE: 'memory' };
+
+  beforeEach(() => {
+    getMemoryBookingStore().clear();
+  });
+
+  async function createAcceptedBooking(): Promise<string> {
+    const { transactionId } = await expectSuccessResponse(await worker.fetch(createBookingRequest(), memoryEnv as any));
+    const acceptRequest = await createAcceptRequest(transactionId);
+    const review = await worker.fetch(acceptRequest, memoryEnv as any);
+    await worker.fetch(await createDecisionSubmitRequest(acceptRequest, review), memoryEnv as any);
+    return transactionId;
+  }
+
+  it('moves an accepted booking through the trip statuses', async () => {
+    const transactionId = await createAcceptedBooking();
+
+    const enRoute = await worker.fetch(createStatusChangeRequest(transactionId, { status: 'Driver En Route' }), memoryEnv as any);
+    expect(enRoute.status).toBe(200);
+    expect(await enRoute.json()).toEqual({ ok: true, transactionId, from: 'Accepted', to: 'Driver En Route' });
+
+    const completed = await worker.fetch(createStatusChangeRequest(transactionId, { status: 'Completed' }), memoryEnv as any);
+    expect(completed.status).toBe(200);
+    expect((await getMemoryBookingStore().getById(transactionId))?.status).toBe('Completed');
+  });
+
+  it('records an audit entry for every transition', async () => {
+    const transactionId = await createAcceptedBooking();
+    await worker.fetch(
+      createStatusChangeRequest(transactionId, { status: 'Driver En Route', note: 'Left depot 9:40' }),
+      memoryEnv as any
+    );
+
+    const audit = getMemoryBookingStore().getAuditLog().filter(entry => entry.event.startsWith('status_'));
+    expect(audit.map(entry => entry.event)).toEqual(['status_updated_to_accepted', 'status_updated_to_driver_en_route']);
+    expect(JSON.parse(audit[1].details)).toEqual({
+      from: 'Accepted',
+      to: 'Driver En Route',
+      metadata: 'Left depot 9:40',
+    });
+  });
+
+  it('rejects an illegal transition with 409 and the allowed statuses', async () => {
+    const transactionId = await createAcceptedBooking();
+
+    const response = await worker.fetch(createStatusChangeRequest(transactionId, { status: 'Completed' }), memoryEnv as any);
+    expect(response.status).toBe(409);
+
+    const body = await response.json() as { ok: boolean; error: string; currentStatus: string; allowed: string[] };
+    expect(body.ok).toBe(false);
+    expect(body.error).toContain('Cannot change booking status from "Accepted" to "Completed"');
+    expect(body.currentStatus).toBe('Accepted');
+    expect(body.allowed).toEqual(['Driver En Route', 'Cancelled']);
+    expect((await getMemoryBookingStore().getById(transactionId))?.status).toBe('Accepted');
+  });
+
+  it('rejects any change out of a final status', async () => {
+    const transactionId = await createAcceptedBooking();
+    await worker.fetch(createStatusChangeRequest(transactionId, { status: 'Cancelled' }), memoryEnv as any);
+
+    const response = await worker.fetch(createStatusChangeRequest(transactionId, { status: 'Driver En Route' }), memoryEnv as any);
+    expect(response.status).toBe(409);
+    expect(((await response.json()) as { error: string }).error).toContain('"Cancelled" is a final status');
+  });
+
+  it('leaves accepting and denying to the owner\'s review page', async () => {
+    const { transactionId } = await expectSuccessResponse(await worker.fetch(createBookingRequest(), memoryEnv as any));
+
+    for (const status of ['Accepted', 'Denied']) {
+      const response = await worker.fetch(createStatusChangeRequest(transactionId, { status }), memoryEnv as any);
+      expect(response.status).toBe(409);
+      expect(await response.json()).toMatchObject({ ok: false, currentStatus: 'Pending Review', allowed: ['Cancelled'] });
+    }
+    expect((await getMemoryBookingStore().getById(transactionId))?.status).toBe('Pending Review');
+  });
+
+  it('leaves reschedules to the customer\'s link and the owner\'s approval', async () => {
+    const transactionId = await createAcceptedBooking();
+    mocks.resendApi!.clearEmails();
+
+    for (const status of ['Reschedule Requested', 'Rescheduled']) {
+      const response = await worker.fetch(createStatusChangeRequest(transactionId, { status }), memoryEnv as any);
+      expect(response.status).toBe(409);
+      expect(await response.json()).toMatchObject({ currentStatus: 'Accepted', allowed: ['Driver En Route', 'Cancelled'] });
+    }
+    expect((await getMemoryBookingStore().getById(transactionId))?.status).toBe('Accepted');
+    expect(mocks.resendApi!.getSentEmails()).toHaveLength(0);
+  });
+
+  it('sends no customer email for transitions without hooks', async () => {
+    const transactionId = await createAcceptedBooking();
+    mocks.resendApi!.clearEmails();
+
+    await worker.fetch(createStatusChangeRequest(transactionId, { status: 'Driver En Route' }), memoryEnv as any);
+    expect(mocks.resendApi!.getSentEmails()).toHaveLength(0);
+  });
+
+  it('returns 400 for an unknown status', async () => {
+    const transactionId = await createAcceptedBooking();
+    const response = await worker.fetch(createStatusChangeRequest(transactionId, { status: 'Lost' }), memoryEnv as any);
+    expect(response.status).toBe(400);
+  });
+
+  it('returns 404 for an unknown booking', async () => {
+    const response = await worker.fetch(createStatusChangeRequest('missing-id', { status: 'Completed' }), memoryEnv as any);
+    expect(response.status).toBe(404);
+  });
+
+  it('returns 404 for a booking ID with a malformed percent-escape', async () => {
+    const response = await worker.fetch(createStatusChangeRequest('%ZZ', { status: 'Completed' }), memoryEnv as any);
+    expect(response.status).toBe(404);
+  });
+
+  it('requires the API key', async () => {
+    const transactionId = await createAcceptedBooking();
+    const response = await worker.fetch(
+      createStatusChangeRequest(transactionId, { status: 'Driver En Route' }, 'wrong-key'),
+      memoryEnv as any
+    );
+    expect(response.status).toBe(401);
+    expect((await getMemoryBookingStore().getById(transactionId))?.status).toBe('Accepted');
+  });
+});
+
+// =============================================================================
+// CUSTOMER CANCELLATION TESTS
+// =============================================================================
+
+describe('Customer Cancellation', () => {
+  const memoryEnv = { ...mockEnv, BOOKING_STORE: 'memory' };
+  const HOUR = 60 * 60 * 1000;
+
+  beforeEach(() => {
+    getMemoryBookingStore().clear();
+  });
+
+  async function createBooking(pickupInHours: number = 72): Promise<string> {
+    const payload = {
+      ...mockBookingPayload,
+      pickup_datetime: new Date(Date.now() + pickupInHours * HOUR).toISOString(),
+    };
+    const { transactionId } = await expectSuccessResponse(
+      await worker.fetch(createBookingRequest(payload), memoryEnv as any)
+    );
+    mocks.resendApi!.clearEmails();
+    return transactionId;
+  }
+
+  async function submitCancel(request: Request, fields: Record<string, string> = {}): Promise<Response> {
+    const review = await worker.fetch(request, memoryEnv as any);
+    return worker.fetch(await createDecisionSubmitRequest(request, review, fields), memoryEnv as any);
+  }
+
+  it('includes a cancel link in the customer acknowledgment', async () => {
+    await worker.fetch(createBookingRequest(), memoryEnv as any);
+
+    const ack = mocks.resendApi!.getSentEmails().find(email => email.to === mockBookingPayload.customer_email);
+    expect(ack?.html).toMatch(/https:\/\/[^"]+\/cancel\/v1\.[^"]+/);
+    expect(ack?.html).toContain('Cancel this booking');
+  });
+
+  it('shows a confirmation page on GET without cancelling', async () => {
+    const transactionId = await createBooking();
+
+    const html = await expectHtmlResponse(await worker.fetch(await createCancelRequest(transactionId), memoryEnv as any));
+
+    expect(html).toContain('Cancel this booking?');
+    expect(html).toContain('name="reason"');
+    expect(html).toContain('name="csrf_token"');
+    expect((await getMemoryBookingStore().getById(transactionId))?.status).toBe('Pending Review');
+  });
+
+  it('cancels the booking and emails the owner with the reason', async () => {
+    const transactionId = await createBooking();
+
+    const response = await submitCancel(await createCancelRequest(transactionId), { reason: 'Flight moved' });
+
+    const html = await expectHtmlResponse(response);
+    expect(html).toContain('Your booking is cancelled');
+    expect((await getMemoryBookingStore().getById(transactionId))?.status).toBe('Cancelled');
+
+    const emails = mocks.resendApi!.getSentEmails();
+    expect(emails).toHaveLength(1);
+    expect(emails[0].to).toBe(mockEnv.OWNER_EMAIL);
+    expect(emails[0].subject).toContain('Booking Cancelled');
+    expect(emails[0].html).toContain('Flight moved');
+  });
+
+  it('records the reason in the audit log', async () => {
+    const transactionId = await createBooking();
+    await submitCancel(await createCancelRequest(transactionId), { reason: 'Flight moved' });
+
+    const entry = getMemoryBookingStore().getAuditLog().find(e => e.event === 'status_updated_to_cancelled');
+    expect(JSON.parse(entry!.details)).toEqual({ from: 'Pending Review', to: 'Cancelled', metadata: 'Flight moved' });
+  });
+
+  it('cancels an accepted booking', async () => {
+    const transactionId = await createBooking();
+    await acceptBooking(transactionId, memoryEnv);
+
+    await submitCancel(await createCancelRequest(transactionId));
+    expect((await getMemoryBookingStore().getById(transactionId))?.status).toBe('Cancelled');
+  });
+
+  it('sends the customer a calendar cancellation for an accepted booking', async () => {
+    const transactionId = await createBooking();
+    await acceptBooking(transactionId, memoryEnv);
+    const invite = getCalendarAttachment(mocks.resendApi!.getSentEmails().find(e => e.to === mockBookingPayload.customer_email)!);
+    mocks.resendApi!.clearEmails();
+
+    await submitCancel(await createCancelRequest(transactionId));
+
+    const email = mocks.resendApi!.getSentEmails().find(e => e.to === mockBookingPayload.customer_email);
+    expect(email?.subject).toContain('Cancelled');
+    const cancellation = getCalendarAttachment(email!)!;
+    expect(cancellation).toContain('METHOD:CANCEL');
+    expect(cancellation).toContain('STATUS:CANCELLED');
+    expect(cancellation).toContain(`UID:${transactionId}@acshuttles.com`);
+
+    const sequence = (ics: string) => Number(ics.match(/SEQUENCE:(\d+)/)![1]);
+    expect(sequence(cancellation)).toBeGreaterThanOrEqual(sequence(invite!));
+  });
+
+  it('refuses to cancel online within the cutoff window', async () => {
+    const transactionId = await createBooking(12);
+
+    const response = await worker.fetch(await createCancelRequest(transactionId), memoryEnv as any);
+    const html = await expectHtmlResponse(response, 403);
+
+    expect(html).toContain('Too Late to Cancel Online');
+    expect(html).toContain('24 hours');
+    expect((await getMemoryBookingStore().getById(transactionId))?.status).toBe('Pending Review');
+  });
+
+  it('honours CANCELLATION_CUTOFF_HOURS', async () => {
+    const transactionId = await createBooking(12);
+    const env = { ...memoryEnv, CANCELLATION_CUTOFF_HOURS: '6' };
+
+    const request = await createCancelRequest(transactionId);
+    const review = await worker.fetch(request, env as any);
+    const response = await worker.fetch(await createDecisionSubmitRequest(request, review), env as any);
+
+    expect(response.status).toBe(200);
+    expect((await getMemoryBookingStore().getById(transactionId))?.status).toBe('Cancelled');
+  });
+
+  it('shows the already-processed page for a cancelled booking', async () => {
+    const transactionId = await createBooking();
+    await submitCancel(await createCancelRequest(transactionId));
+
+    const html = await expectHtmlResponse(await worker.fetch(await createCancelRequest(transactionId), memoryEnv as any));
+    expect(html).toContain('Booking Already Processed');
+  });
+
+  it('refuses to cancel a completed trip', async () => {
+    const transactionId = await createBooking();
+    await acceptBooking(transactionId, memoryEnv);
+    for (const status of ['Driver En Route', 'Completed']) {
+      await worker.fetch(createStatusChangeRequest(transactionId, { status }), memoryEnv as any);
+    }
+
+    const html = await expectHtmlResponse(await worker.fetch(await createCancelRequest(transactionId), memoryEnv as any), 409);
+    expect(html).toContain('can no longer be cancelled online');
+  });
+
+  it('rejects a POST without the CSRF form token', async () => {
+    const transactionId = await createBooking();
+    const request = await createCancelRequest(transactionId);
+
+    const response = await worker.fetch(new Request(request.url, {
+      method: 'POST',
+      headers: { Origin: new URL(request.url).origin },
+    }), memoryEnv as any);
+
+    expect(response.status).toBe(403);
+    expect((await getMemoryBookingStore().getById(transactionId))?.status).toBe('Pending Review');
+  });
+
+  it('does not accept an accept-link token as a cancel token', async () => {
+    const transactionId = await createBooking();
+    const accept = await createAcceptRequest(transactionId);
+    const token = new URL(accept.url).pathname.split('/')[2];
+
+    const response = await worker.fetch(new Request(`https://test-worker.example.com/cancel/${token}`), memoryEnv as any);
+    expect(response.status).toBe(403);
+  });
+
+  it('rejects a link with a malformed percent-escape', async () => {
+    const response = await worker.fetch(new Request('https://test-worker.example.com/cancel/%ZZ'), memoryEnv as any);
+
+    expect(await expectHtmlResponse(response, 400)).toContain('The booking link is invalid.');
+  });
+});
+
+// =============================================================================
+// CUSTOMER RESCHEDULE TESTS
+// =============================================================================
+
+describe('Customer Reschedule', () => {
+  const memoryEnv = { ...mockEnv, BOOKING_STORE: 'memory' };
+  const HOUR = 60 * 60 * 1000;
+
+  beforeEach(() => {
+    getMemoryBookingStore().clear();
+  });
+
+  async function createAcceptedBooking(pickupInHours: number = 72): Promise<string> {
+    const payload = {
+      ...mockBookingPayload,
+      pickup_datetime: new Date(Date.now() + pickupInHours * HOUR).toISOString(),
+    };
+    const { transactionId } = await expectSuccessResponse(
+      await worker.fetch(createBookingRequest(payload), memoryEnv as any)
+    );
+    await acceptBooking(transactionId, memoryEnv);
+    mocks.resendApi!.clearEmails();
+    return transactionId;
+  }
+
+  async function submitForm(request: Request, fields: Record<string, string> = {}, env = memoryEnv): Promise<Response> {
+    const review = await worker.fetch(request, env as any);
+    return worker.fetch(await createDecisionSubmitRequest(request, review, fields), env as any);
+  }
+
+  async function requestReschedule(transactionId: string, pickupInHours: number): Promise<string> {
+    const requested = new Date(Date.now() + pickupInHours * HOUR).toISOString();
+    await submitForm(await createRescheduleRequest(transactionId), { pickup_datetime: requested });
+    mocks.resendApi!.clearEmails();
+    // Stored normalized to the business timezone
+    return normalizePickupDateTime(requested)!;
+  }
+
+  it('includes a reschedule link in the customer confirmation', async () => {
+    const { transactionId } = await expectSuccessResponse(
+      await worker.fetch(createBookingRequest(), memoryEnv as any)
+    );
+    mocks.resendApi!.clearEmails();
+    await submitForm(await createAcceptRequest(transactionId));
+
+    const confirmation = mocks.resendApi!.getSentEmails().find(email => email.to === mockBookingPayload.customer_email);
+    expect(confirmation?.html).toMatch(/https:\/\/[^"]+\/reschedule\/v1\.[^"]+/);
+    expect(confirmation?.html).toContain('Change pickup time');
+  });
+
+  it('shows the current pickup and a date/time field on GET', async () => {
+    const transactionId = await createAcceptedBooking();
+
+    const html = await expectHtmlResponse(await worker.fetch(await createRescheduleRequest(transactionId), memoryEnv as any));
+
+    expect(html).toContain('Need a different time?');
+    expect(html).toContain('name="pickup_datetime"');
+    expect(html).toContain('name="csrf_token"');
+    expect((await getMemoryBookingStore().getById(transactionId))?.status).toBe('Accepted');
+  });
+
+  it('records the requested time and emails the owner old vs new time', async () => {
+    const transactionId = await createAcceptedBooking();
+    const original = (await getMemoryBookingStore().getById(transactionId))!.pickupDatetime;
+    const requested = new Date(Date.now() + 96 * HOUR).toISOString();
+
+    const response = await submitForm(await createRescheduleRequest(transactionId), { pickup_datetime: requested });
+
+    expect(await expectHtmlResponse(response)).toContain("We've got your request");
+    const booking = await getMemoryBookingStore().getById(transactionId);
+    expect(booking?.status).toBe('Reschedule Requested');
+    expect(booking?.pickupDatetime).toBe(original);
+    expect(booking?.requestedPickupDatetime).toBe(normalizePickupDateTime(requested));
+
+    const emails = mocks.resendApi!.getSentEmails();
+    expect(emails).toHaveLength(1);
+    expect(emails[0].to).toBe(mockEnv.OWNER_EMAIL);
+    expect(emails[0].subject).toContain('Reschedule Request');
+    expect(emails[0].html).toContain('Currently Booked');
+    expect(emails[0].html).toMatch(/\/approve-reschedule\/v1\./);
+    expect(emails[0].html).toMatch(/\/decline-reschedule\/v1\./);
+  });
+
+  it('rejects a new time inside the cutoff window', async () => {
+    const transactionId = await createAcceptedBooking();
+
+    const response = await submitForm(await createRescheduleRequest(transactionId), {
+      pickup_datetime: new Date(Date.now() + 2 * HOUR).toISOString(),
+    });
+
+    const html = await expectHtmlResponse(response, 400);
+    expect(html).toContain('at least 24 hours from now');
+    expect((await getMemoryBookingStore().getById(transactionId))?.status).toBe('Accepted');
+  });
+
+  it('rejects a new time the booking rules do not allow', async () => {
+    const env = { ...memoryEnv, BOOKING_MAX_ADVANCE_DAYS: '7' };
+    const transactionId = await createAcceptedBooking();
+
+    const response = await submitForm(await createRescheduleRequest(transactionId), {
+      pickup_datetime: new Date(Date.now() + 10 * 24 * HOUR).toISOString(),
+    }, env);
+
+    expect(await expectHtmlResponse(response, 400)).toContain('Pickups can be booked at most 7 days in advance.');
+    expect((await getMemoryBookingStore().getById(transactionId))?.status).toBe('Accepted');
+  });
+
+  it('refuses a pending booking', async () => {
+    const { transactionId } = await expectSuccessResponse(
+      await worker.fetch(createBookingRequest(), memoryEnv as any)
+    );
+
+    const html = await expectHtmlResponse(await worker.fetch(await createRescheduleRequest(transactionId), memoryEnv as any), 409);
+    expect(html).toContain('Booking Can&#039;t Be Rescheduled');
+  });
+
+  it('refuses a second request while one is waiting', async () => {
+    const transactionId = await createAcceptedBooking();
+    await requestReschedule(transactionId, 96);
+
+    const html = await expectHtmlResponse(await worker.fetch(await createRescheduleRequest(transactionId), memoryEnv as any), 409);
+    expect(html).toContain('Request Already Sent');
+  });
+
+  it('refuses within RESCHEDULE_CUTOFF_HOURS of the current pickup', async () => {
+    const transactionId = await createAcceptedBooking(12);
+
+    const html = await expectHtmlResponse(await worker.fetch(await createRescheduleRequest(transactionId), memoryEnv as any), 403);
+    expect(html).toContain('Too Late to Reschedule Online');
+  });
+
+  it('approving updates the pickup and re-sends the confirmation', async () => {
+    const transactionId = await createAcceptedBooking();
+    const requested = await requestReschedule(transactionId, 96);
+
+    const review = await expectHtmlResponse(
+      await worker.fetch(await createRescheduleDecisionRequest(transactionId, 'approve'), memoryEnv as any)
+    );
+    expect(review).toContain('Approve the new time?');
+
+    const response = await submitForm(await createRescheduleDecisionRequest(transactionId, 'approve'));
+    expect(await expectHtmlResponse(response)).toContain('Pickup time updated');
+
+    const booking = await getMemoryBookingStore().getById(transactionId);
+    expect(booking?.status).toBe('Rescheduled');
+    expect(booking?.pickupDatetime).toBe(requested);
+    expect(booking?.requestedPickupDatetime).toBeNull();
+
+    const emails = mocks.resendApi!.getSentEmails();
+    expect(emails).toHaveLength(1);
+    expect(emails[0].to).toBe(mockBookingPayload.customer_email);
+    expect(emails[0].subject).toContain('New AC Shuttles Pickup Time is Confirmed');
+  });
+
+  it('applies the conflict policy before approving the new time', async () => {
+    const env = { ...memoryEnv, BOOKING_CONFLICT_POLICY: 'override' };
+    const existingId = await createAcceptedBooking(96);
+    const transactionId = await createAcceptedBooking();
+    await requestReschedule(transactionId, 96);
+
+    const review = await expectHtmlResponse(
+      await worker.fetch(await createRescheduleDecisionRequest(transactionId, 'approve'), env as any)
+    );
+    expect(review).toContain('Schedule Conflict');
+    expect(review).toContain('name="override_conflicts"');
+
+    const refused = await expectHtmlResponse(await submitForm(await createRescheduleDecisionRequest(transactionId, 'approve'), {}, env), 400);
+    expect(refused).toContain('Tick the box to approve it anyway');
+    expect((await getMemoryBookingStore().getById(transactionId))?.status).toBe('Reschedule Requested');
+
+    await expectHtmlResponse(await submitForm(
+      await createRescheduleDecisionRequest(transactionId, 'approve'),
+      { override_conflicts: 'yes' },
+      env
+    ));
+    expect((await getMemoryBookingStore().getById(transactionId))?.status).toBe('Rescheduled');
+    const override = getMemoryBookingStore().getAuditLog()
+      .find(entry => entry.transactionId === transactionId && entry.event === 'conflict_overridden');
+    expect(JSON.parse(override!.details)).toEqual({ conflicts: [existingId] });
+  });
+
+  it('refuses to approve an overlapping time under the block policy', async () => {
+    const env = { ...memoryEnv, BOOKING_CONFLICT_POLICY: 'block' };
+    await createAcceptedBooking(96);
+    const transactionId = await createAcceptedBooking();
+    await requestReschedule(transactionId, 96);
+
+    const review = await expectHtmlResponse(
+      await worker.fetch(await createRescheduleDecisionRequest(transactionId, 'approve'), env as any)
+    );
+    expect(review).not.toContain('Approve New Time</button>');
+
+    const refused = await expectHtmlResponse(await submitForm(await createRescheduleDecisionRequest(transactionId, 'approve'), {}, env), 400);
+    expect(refused).toContain('so it can&#039;t be approved');
+    expect((await getMemoryBookingStore().getById(transactionId))?.status).toBe('Reschedule Requested');
+  });
+
+  it('declining keeps the original time and returns the booking to Accepted', async () => {
+    const transactionId = await createAcceptedBooking();
+    const original = (await getMemoryBookingStore().getById(transactionId))!.pickupDatetime;
+    await requestReschedule(transactionId, 96);
+
+    const response = await submitForm(await createRescheduleDecisionRequest(transactionId, 'decline'));
+    expect(await expectHtmlResponse(response)).toContain('Original time kept');
+
+    const booking = await getMemoryBookingStore().getById(transactionId);
+    expect(booking?.status).toBe('Accepted');
+    expect(booking?.pickupDatetime).toBe(original);
+    expect(booking?.requestedPickupDatetime).toBeNull();
+
+    const emails = mocks.resendApi!.getSentEmails();
+    expect(emails).toHaveLength(1);
+    expect(emails[0].subject).toContain('Pickup Time is Unchanged');
+  });
+
+  it('shows the already-processed page once the request is decided', async () => {
+    const transactionId = await createAcceptedBooking();
+    await requestReschedule(transactionId, 96);
+    await submitForm(await createRescheduleDecisionRequest(transactionId, 'approve'));
+
+    const html = await expectHtmlResponse(
+      await worker.fetch(await createRescheduleDecisionRequest(transactionId, 'decline'), memoryEnv as any)
+    );
+    expect(html).toContain('Booking Already Processed');
+    expect((await getMemoryBookingStore().getById(transactionId))?.status).toBe('Rescheduled');
+  });
+
+  it('does not accept a cancel token as a reschedule token', async () => {
+    const transactionId = await createAcceptedBooking();
+    const cancel = await createCancelRequest(transactionId);
+    const token = new URL(cancel.url).pathname.split('/')[2];
+
+    const response = await worker.fetch(new Request(`https://test-worker.example.com/reschedule/${token}`), memoryEnv as any);
+    expect(response.status).toBe(403);
+  });
+
+  it('rejects request and decision links with a malformed percent-escape', async () => {
+    for (const path of ['/reschedule/%ZZ', '/approve-reschedule/%E0%A4%A', '/decline-reschedule/%ZZ']) {
+      const response = await worker.fetch(new Request(`https://test-worker.example.com${path}`), memoryEnv as any);
+      expect(await expectHtmlResponse(response, 400)).toContain('The booking link is invalid.');
+    }
+  });
+});
+
+// =============================================================================
+// IDEMPOTENCY TESTS
+// =============================================================================
+
+describe('Denial Details', () => {
+  const memoryEnv = { ...mockEnv, BOOKING_STORE: 'memory' };
+  const HOUR = 60 * 60 * 1000;
+
+  beforeEach(() => {
+    getMemoryBookingStore().clear();
+  });
+
+  async function createPendingBooking(payload: Record<string, unknown> = mockBookingPayload): Promise<string> {
+    const { transactionId } = await expectSuccessResponse(
+      await worker.fetch(createBookingRequest(payload), memoryEnv as any)
+    );
+    mocks.resendApi!.clearEmails();
+    return transactionId;
+  }
+
+  async function submitForm(request: Request, fields: Record<string, string> = {}, env = memoryEnv): Promise<Response> {
+    const review = await worker.fetch(request, env as any);
+    return worker.fetch(await createDecisionSubmitRequest(request, review, fields), env as any);
+  }
+
+  // datetime-local style value in the business timezone, as the decision page submits it
+  function pickupInHours(hours: number): string {
+    return formatDateTimeLocal(Date.now() + hours * HOUR);
+  }
+
+  async function denyWithAlternative(transactionId: string, alternative: string): Promise<void> {
+    await submitForm(await createDenyRequest(transactionId), {
+      denial_reason: 'fully_booked',
+      alternative_pickup: alternative,
+    });
+    mocks.resendApi!.clearEmails();
+  }
+
+  it('offers reasons, an alternative time and notes on the deny page', async () => {
+    const transactionId = await createPendingBooking();
+
+    const html = await expectHtmlResponse(await worker.fetch(await createDenyRequest(transactionId), memoryEnv as any));
+
+    expect(html).toContain('name="denial_reason"');
+    expect(html).toContain('value="outside_service_area"');
+    expect(html).toContain('name="denial_reason_text"');
+    expect(html).toContain('name="alternative_pickup"');
+    expect(html).toContain('name="owner_notes"');
+  });
+
+  it('only offers notes on the accept page', async () => {
+    const transactionId = await createPendingBooking();
+
+    const html = await expectHtmlResponse(await worker.fetch(await createAcceptRequest(transactionId), memoryEnv as any));
+
+    expect(html).toContain('name="owner_notes"');
+    expect(html).not.toContain('name="denial_reason"');
+  });
+
+  it('stores the reason, alternative and notes and sends them to the customer', async () => {
+    const transactionId = await createPendingBooking();
+    const alternative = pickupInHours(48);
+
+    const response = await submitForm(await createDenyRequest(transactionId), {
+      denial_reason: 'fully_booked',
+      alternative_pickup: alternative,
+      owner_notes: 'Van in for service',
+    });
+
+    expect(await expectHtmlResponse(response)).toContain('Suggested instead');
+    const booking = await getMemoryBookingStore().getById(transactionId);
+    expect(booking).toMatchObject({
+      status: 'Denied',
+      denialReason: 'being fully booked at that time',
+      alternativePickupDatetime: normalizePickupDateTime(alternative),
+      ownerNotes: 'Van in for service',
+    });
+
+    const audit = getMemoryBookingStore().getAuditLog().find(e => e.event === 'status_updated_to_denied');
+    expect(JSON.parse(audit!.details)).toEqual({
+      from: 'Pending Review',
+      to: 'Denied',
+      metadata: 'Van in for service',
+      changes: {
+        ownerNotes: 'Van in for service',
+        denialReason: 'being fully booked at that time',
+        alternativePickupDatetime: normalizePickupDateTime(alternative),
+      },
+    });
+
+    const denial = mocks.resendApi!.getSentEmails().find(email => email.to === mockBookingPayload.customer_email);
+    expect(denial?.html).toContain('due to being fully booked at that time');
+    expect(denial?.html).toContain('Book This Instead');
+    expect(denial?.html).toMatch(/https:\/\/[^"]+\/book-alternative\/v1\.[^"]+/);
+    expect(denial?.html).not.toContain('Van in for service');
+    expect(denial?.text).toContain('Book this instead: ');
+  });
+
+  it('uses the owner\'s own wording for a custom reason', async () => {
+    const transactionId = await createPendingBooking();
+
+    await submitForm(await createDenyRequest(transactionId), {
+      denial_reason: 'custom',
+      denial_reason_text: 'a road closure on your route',
+    });
+
+    const denial = mocks.resendApi!.getSentEmails().find(email => email.to === mockBookingPayload.customer_email);
+    expect(denial?.html).toContain('due to a road closure on your route');
+    expect(denial?.html).not.toContain('Book This Instead');
+  });
+
+  it('asks again when a custom reason is left empty', async () => {
+    const transactionId = await createPendingBooking();
+
+    const response = await submitForm(await createDenyRequest(transactionId), { denial_reason: 'custom' });
+
+    expect(await expectHtmlResponse(response, 400)).toContain('Please write the reason the customer will see.');
+    expect((await getMemoryBookingStore().getById(transactionId))?.status).toBe('Pending Review');
+    expect(mocks.resendApi!.getSentEmails()).toHaveLength(0);
+  });
+
+  it('rejects an alternative time in the past', async () => {
+    const transactionId = await createPendingBooking();
+
+    const response = await submitForm(await createDenyRequest(transactionId), { alternative_pickup: pickupInHours(-2) });
+
+    expect(await expectHtmlResponse(response, 400)).toContain('must be in the future');
+    expect((await getMemoryBookingStore().getById(transactionId))?.status).toBe('Pending Review');
+  });
+
+  it('rejects an alternative time the booking rules do not allow', async () => {
+    const env = { ...memoryEnv, BOOKING_MAX_ADVANCE_DAYS: '7' };
+    const transactionId = await createPendingBooking();
+
+    const response = await submitForm(await createDenyRequest(transactionId), { alternative_pickup: pickupInHours(10 * 24) }, env);
+
+    expect(await expectHtmlResponse(response, 400)).toContain(
+      'The alternative pickup time can&#039;t be offered: Pickups can be booked at most 7 days in advance.'
+    );
+    expect((await getMemoryBookingStore().getById(transactionId))?.status).toBe('Pending Review');
+  });
+
+  it('records notes with an acceptance', async () => {
+    const transactionId = await createPendingBooking();
+
+    await submitForm(await createAcceptRequest(transactionId), { owner_notes: 'Regular customer' });
+
+    expect((await getMemoryBookingStore().getById(transactionId))?.ownerNotes).toBe('Regular customer');
+    const audit = getMemoryBookingStore().getAuditLog().find(e => e.event === 'status_updated_to_accepted');
+    expect(JSON.parse(audit!.details).metadata).toBe('Regular customer');
+  });
+
+  it('shows the suggested trip on GET without creating a booking', async () => {
+    const transactionId = await createPendingBooking();
+    await denyWithAlternative(transactionId, pickupInHours(48));
+
+    const html = await expectHtmlResponse(await worker.fetch(await createBookAlternativeRequest(transactionId), memoryEnv as any));
+
+    expect(html).toContain('Book this time instead?');
+    expect(html).toContain('name="csrf_token"');
+    expect(await getMemoryBookingStore().list()).toHaveLength(1);
+  });
+
+  it('submits the suggested time as a new request once', async () => {
+    const transactionId = await createPendingBooking();
+    const alternative = pickupInHours(48);
+    await denyWithAlternative(transactionId, alternative);
+
+    const request = await createBookAlternativeRequest(transactionId);
+    const review = await worker.fetch(request, memoryEnv as any);
+    const submit = await createDecisionSubmitRequest(request, review);
+    const response = await worker.fetch(submit.clone(), memoryEnv as any);
+
+    expect(await expectHtmlResponse(response)).toContain("We've got your request");
+    const created = (await getMemoryBookingStore().list()).find(b => b.transactionId !== transactionId);
+    expect(created).toMatchObject({
+      status: 'Pending Review',
+      pickupDatetime: normalizePickupDateTime(alternative),
+      customerEmail: mockBookingPayload.customer_email,
+      startLocation: mockBookingPayload.start_location,
+    });
+    expect(created?.notes).toContain(transactionId.slice(0, 10).toUpperCase());
+
+    const emails = mocks.resendApi!.getSentEmails();
+    expect(emails.map(email => email.to)).toEqual([mockEnv.OWNER_EMAIL, mockBookingPayload.customer_email]);
+
+    mocks.resendApi!.clearEmails();
+    await worker.fetch(submit, memoryEnv as any);
+    expect(await getMemoryBookingStore().list()).toHaveLength(2);
+    expect(mocks.resendApi!.getSentEmails()).toHaveLength(0);
+  });
+
+  it('keeps the stops and coordinates of a multi-stop booking', async () => {
+    const transactionId = await createPendingBooking({
+      ...mockBookingPayload,
+      stops: [
+        { address: '30th Street Station, Philadelphia, PA', wait_minutes: 10 },
+        { address: 'Trenton Transit Center, Trenton, NJ' },
+      ],
+      start_coordinates: { lat: 39.9526, lng: -75.1652 },
+      end_coordinates: { lat: 40.6895, lng: -74.1745 },
+    });
+    await denyWithAlternative(transactionId, pickupInHours(48));
+
+    const request = await createBookAlternativeRequest(transactionId);
+    const review = await worker.fetch(request, memoryEnv as any);
+    await expectHtmlResponse(await worker.fetch(await createDecisionSubmitRequest(request, review), memoryEnv as any));
+
+    const original = await getMemoryBookingStore().getById(transactionId);
+    const created = (await getMemoryBookingStore().list()).find(b => b.transactionId !== transactionId);
+    expect(created?.stops).toEqual(original?.stops);
+    expect(new URL(created!.mapUrl).searchParams.get('waypoints')).toBe(
+      '30th Street Station, Philadelphia, PA|Trenton Transit Center, Trenton, NJ'
+    );
+    expect(JSON.parse((await getMemoryBookingStore().getRawPayload(created!.transactionId))!)).toMatchObject({
+      start_coordinates: { lat: 39.9526, lng: -75.1652 },
+      end_coordinates: { lat: 40.6895, lng: -74.1745 },
+    });
+  });
+
+  it('refuses a suggested time the booking rules no longer allow', async () => {
+    const transactionId = await createPendingBooking();
+    const alternative = pickupInHours(48);
+    await denyWithAlternative(transactionId, alternative);
+    const env = { ...memoryEnv, BOOKING_BLACKOUT_DATES: `${alternative.slice(0, 10)} Staff holiday` };
+
+    const html = await expectHtmlResponse(await worker.fetch(await createBookAlternativeRequest(transactionId), env as any), 400);
+
+    expect(html).toContain('Time No Longer Available');
+    expect(html).toContain('for Staff holiday');
+    expect(await getMemoryBookingStore().list()).toHaveLength(1);
+  });
+
+  it('refuses when no alternative was suggested', async () => {
+    const transactionId = await createPendingBooking();
+    await submitForm(await createDenyRequest(transactionId));
+
+    const html = await expectHtmlResponse(await worker.fetch(await createBookAlternativeRequest(transactionId), memoryEnv as any), 400);
+
+    expect(html).toContain('Time No Longer Available');
+  });
+
+  it('rejects a link with a malformed percent-escape', async () => {
+    const response = await worker.fetch(new Request('https://test-worker.example.com/book-alternative/%ZZ'), memoryEnv as any);
+
+    expect(await expectHtmlResponse(response, 400)).toContain('The booking link is invalid.');
+  });
+});
+
+describe('Idempotency', () => {
+  it('generates idempotency key from payload if not provided', async () => {
+    const request = createBookingRequest();
+    await worker.fetch(request, mockEnv as any);
+
+    const appendedRows = mocks.sheetsClient!.getAppendedRows();
+    const idempotencyKey = appendedRows[0][1] as string;
+    expect(idempotencyKey).toMatch(/^auto-/);
+  });
+
+  it('uses provided idempotency key', async () => {
+    const payloadWithIdempotencyKey = {
+      ...mockBookingPayload,
+      idempotency_key: 'my-custom-key-123',
+    };
+
+    const request = createBookingRequest(payloadWithIdempotencyKey);
+    await worker.fetch(request, mockEnv as any);
+
+    const appendedRows = mocks.sheetsClient!.getAppendedRows();
+    const idempotencyKey = appendedRows[0][1] as string;
+    expect(idempotencyKey).toBe('my-custom-key-123');
+  });
+
+  it('replays the original booking for a duplicate submission', async () => {
+    const first = await expectSuccessResponse(await worker.fetch(createBookingRequest(), mockEnv as any));
+    const appendsAfterFirst = mocks.sheetsClient!.appendRow.mock.calls.length;
+    const response = await worker.fetch(createBookingRequest(), mockEnv as any);
+
+    const body = await expectSuccessResponse(response) as Awaited<ReturnType<typeof expectSuccessResponse>> & { duplicate?: boolean };
+    expect(body.transactionId).toBe(first.transactionId);
+    expect(body.receivedAt).toBe(first.receivedAt);
+    expect(body.duplicate).toBe(true);
+    expect(mocks.sheetsClient!.appendRow).toHaveBeenCalledTimes(appendsAfterFirst);
+  });
+
+  it('does not re-send emails for a duplicate submission', async () => {
+    await worker.fetch(createBookingRequest(), mockEnv as any);
+    const emailsAfterFirst = mocks.resendApi!.getSentEmails().length;
+
+    await worker.fetch(createBookingRequest(), mockEnv as any);
+
+    expect(emailsAfterFirst).toBeGreaterThan(0);
+    expect(mocks.resendApi!.getSentEmails()).toHaveLength(emailsAfterFirst);
+  });
+
+  it('books the same trip again once the original was cancelled or denied', async () => {
+    const memoryEnv = { ...mockEnv, BOOKING_STORE: 'memory' };
+    getMemoryBookingStore().clear();
+    const cancelled = await expectSuccessResponse(await worker.fetch(createBookingRequest(), memoryEnv as any));
+    await worker.fetch(createStatusChangeRequest(cancelled.transactionId, { status: 'Cancelled' }), memoryEnv as any);
+
+    const rebooked = await expectSuccessResponse(await worker.fetch(createBookingRequest(), memoryEnv as any)) as { transactionId: string; duplicate?: boolean };
+    expect(rebooked.transactionId).not.toBe(cancelled.transactionId);
+    expect(rebooked.duplicate).not.toBe(true);
+    expect((await getMemoryBookingStore().getById(rebooked.transactionId))?.status).toBe('Pending Review');
+
+    const denyRequest = await createDenyRequest(rebooked.transactionId);
+    const review = await worker.fetch(denyRequest, memoryEnv as any);
+    await worker.fetch(await createDecisionSubmitRequest(denyRequest, review), memoryEnv as any);
+    const third = await expectSuccessResponse(await worker.fetch(createBookingRequest(), memoryEnv as any));
+    expect([cancelled.transactionId, rebooked.transactionId]).not.toContain(third.transactionId);
+
+    const replay = await expectSuccessResponse(await worker.fetch(createBookingRequest(), memoryEnv as any));
+    expect(replay.transactionId).toBe(third.transactionId);
+  });
+
+  it('replays a round trip while its return leg is still booked', async () => {
+    const memoryEnv = { ...mockEnv, BOOKING_STORE: 'memory' };
+    getMemoryBookingStore().clear();
+    const payload = { ...mockBookingPayload, return_pickup_datetime: `${mockBookingPayload.pickup_datetime.slice(0, 10)}T19:00:00` };
+    const first = await expectSuccessResponse(await worker.fetch(createBookingRequest(payload), memoryEnv as any));
+    await worker.fetch(createStatusChangeRequest(first.transactionId, { status: 'Cancelled' }), memoryEnv as any);
+
+    const replay = await expectSuccessResponse(await worker.fetch(createBookingRequest(payload), memoryEnv as any)) as { transactionId: string; duplicate?: boolean };
+    expect(replay.transactionId).toBe(first.transactionId);
+    expect(replay.duplicate).toBe(true);
+  });
+
+  it('deduplicates on a client-provided idempotency key', async () => {
+    mocks.sheetsClient = createMockGoogleSheetsClient({
+      existingRows: [createMockSheetRow({ transactionId: '0b7c6a52-4d1e-4f3a-9b8e-2c5d7f9a1e34', idempotencyKey: 'my-custom-key-123' })],
+    });
+
+    const request = createBookingRequest({ ...mockBookingPayload, idempotency_key: 'my-custom-key-123' });
+    const body = await expectSuccessResponse(await worker.fetch(request, mockEnv as any)) as { transactionId: string; duplicate?: boolean };
+
+    expect(body.transactionId).toBe('0b7c6a52-4d1e-4f3a-9b8e-2c5d7f9a1e34');
+    expect(body.duplicate).toBe(true);
+    expect(mocks.sheetsClient!.appendRow).not.toHaveBeenCalled();
+  });
+
+  it('does not flag new bookings as duplicates', async () => {
+    const response = await worker.fetch(createBookingRequest(), mockEnv as any);
+    const body = await response.json() as { duplicate?: boolean };
+
+    expect(body.duplicate).toBeUndefined();
   });
 });
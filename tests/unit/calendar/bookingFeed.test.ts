@@ -0,0 +1,90 @@
+/**
+ * Owner Calendar Feed Tests
+ *
+ * Tests the iCalendar feed of upcoming rides the owner subscribes to.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  generateBookingsCalendarFeed,
+  bookingFeedUid,
+  bookingCalendarUid,
+  type CalendarFeedBooking,
+} from '../../../src/templates/calendar';
+
+const options = { name: 'AC Shuttles Rides', timeZone: 'America/New_York', refreshMinutes: 15 };
+
+const booking: CalendarFeedBooking = {
+  transactionId: 'txn-feed-1',
+  bookingRef: 'TXN-FEED-1',
+  status: 'Accepted',
+  customerName: 'Jane Doe',
+  customerEmail: 'jane@example.com',
+  customerPhone: '609-555-0100',
+  startLocation: '123 Main St, Princeton, NJ',
+  endLocation: 'Newark Airport',
+  pickupDatetime: '2025-03-10T08:15',
+  estimatedDuration: '50 minutes',
+  passengers: 3,
+  notes: 'Two large suitcases',
+  mapUrl: 'https://www.google.com/maps/dir/?api=1&origin=Princeton&destination=EWR',
+  submittedAt: '2025-02-01T12:00:00.000Z',
+};
+
+function unfold(ics: string): string[] {
+  return ics.replace(/\r\n /g, '').split('\r\n').filter(Boolean);
+}
+
+describe('generateBookingsCalendarFeed', () => {
+  it('publishes a named, refreshing calendar', () => {
+    const lines = unfold(generateBookingsCalendarFeed([booking], options));
+
+    expect(lines).toContain('METHOD:PUBLISH');
+    expect(lines).toContain('X-WR-CALNAME:AC Shuttles Rides');
+    expect(lines).toContain('REFRESH-INTERVAL;VALUE=DURATION:PT15M');
+  });
+
+  it('describes each ride with customer, route and trip details', () => {
+    const lines = unfold(generateBookingsCalendarFeed([booking], options));
+
+    expect(lines).toContain(`UID:${bookingFeedUid('txn-feed-1')}`);
+    expect(lines).toContain('DTSTART;TZID=America/New_York:20250310T081500');
+    expect(lines).toContain('DURATION:PT50M');
+    expect(lines).toContain('SUMMARY:Jane Doe: 123 Main St\\, Princeton\\, NJ → Newark Airport');
+    expect(lines).toContain(`LOCATION;ALTREP="${booking.mapUrl}":123 Main St\\, Princeton\\, NJ`);
+    expect(lines).toContain(`URL:${booking.mapUrl}`);
+
+    const description = lines.find(line => line.startsWith('DESCRIPTION:'))!;
+    expect(description).toContain('Phone: 609-555-0100');
+    expect(description).toContain('Passengers: 3');
+    expect(description).toContain('Notes: Two large suitcases');
+    expect(description).toContain('Booking Ref: TXN-FEED-1');
+  });
+
+  it('is identical for the same bookings, so the ETag stays stable', () => {
+    expect(generateBookingsCalendarFeed([booking], options)).toBe(generateBookingsCalendarFeed([booking], options));
+  });
+
+  it('covers every year in the feed with one VTIMEZONE', () => {
+    const ics = generateBookingsCalendarFeed(
+      [booking, { ...booking, transactionId: 'txn-feed-2', pickupDatetime: '2026-01-05T09:00' }],
+      options
+    );
+
+    expect(ics.match(/BEGIN:VTIMEZONE/g)).toHaveLength(1);
+    expect(ics).toContain('DTSTART:20251102T020000');
+    expect(ics).toContain('DTSTART:20260308T020000');
+  });
+
+  it('does not reuse the customer invite UID', () => {
+    expect(bookingFeedUid('txn-feed-1')).not.toBe(bookingCalendarUid('txn-feed-1'));
+  });
+
+  it('leaves out rides without a readable pickup time and handles an empty feed', () => {
+    const ics = generateBookingsCalendarFeed([{ ...booking, pickupDatetime: 'TBD' }], options);
+
+    expect(ics).not.toContain('BEGIN:VEVENT');
+    expect(ics).not.toContain('BEGIN:VTIMEZONE');
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Booking Calendar Invite Tests
+ *
+ * Tests the iCalendar file attached to customer emails: timezone, UID,
+ * duration, escaping/folding and cancellation.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  generateBookingCalendarInvite,
+  bookingCalendarUid,
+  calendarSequence,
+  foldIcsLine,
+  type BookingCalendarData,
+} from '../../../src/templates/calendar';
+
+const NOW = Date.UTC(2025, 1, 10, 12, 0, 0);
+
+const booking: BookingCalendarData = {
+  transactionId: 'abc123-def456',
+  bookingRef: 'ABC123-DEF',
+  startLocation: '123 Main St, Princeton, NJ',
+  endLocation: 'Newark Airport (EWR)',
+  pickupDatetime: '2025-07-04T14:30',
+  estimatedDuration: '1 hour 45 minutes',
+  customerName: 'Jane Doe',
+  customerEmail: 'jane@example.com',
+  organizerEmail: 'bookings@acshuttles.com',
+  driverName: 'Mike Johnson',
+  driverPhone: '609-555-0199',
+  method: 'REQUEST',
+  sequence: 7,
+  timeZone: 'America/New_York',
+};
+
+/**
+ * Content lines of a calendar file with folding undone
+ */
+function unfold(ics: string): string[] {
+  return ics.replace(/\r\n /g, '').split('\r\n').filter(Boolean);
+}
+
+describe('generateBookingCalendarInvite', () => {
+  it('writes the pickup as a local time with its TZID', () => {
+    const lines = unfold(generateBookingCalendarInvite(booking, NOW));
+
+    expect(lines).toContain('DTSTART;TZID=America/New_York:20250704T143000');
+    expect(lines).toContain('TZID:America/New_York');
+    expect(lines).toContain('DTSTAMP:20250210T120000Z');
+  });
+
+  it('describes the New York daylight-saving changes for the year', () => {
+    const ics = generateBookingCalendarInvite(booking, NOW);
+
+    expect(ics).toContain(
+      'BEGIN:DAYLIGHT\r\nDTSTART:20250309T020000\r\nTZOFFSETFROM:-0500\r\nTZOFFSETTO:-0400\r\nEND:DAYLIGHT'
+    );
+    expect(ics).toContain(
+      'BEGIN:STANDARD\r\nDTSTART:20251102T020000\r\nTZOFFSETFROM:-0400\r\nTZOFFSETTO:-0500\r\nEND:STANDARD'
+    );
+  });
+
+  it('converts a UTC pickup time to the business timezone', () => {
+    const lines = unfold(generateBookingCalendarInvite({ ...booking, pickupDatetime: '2025-01-15T19:00:00.000Z' }, NOW));
+
+    expect(lines).toContain('DTSTART;TZID=America/New_York:20250115T140000');
+  });
+
+  it('uses a UID that is stable per transaction', () => {
+    const first = unfold(generateBookingCalendarInvite(booking, NOW));
+    const second = unfold(generateBookingCalendarInvite({ ...booking, pickupDatetime: '2025-07-05T09:00' }, NOW + 1000));
+
+    expect(bookingCalendarUid(booking.transactionId)).toBe('abc123-def456@acshuttles.com');
+    expect(first).toContain('UID:abc123-def456@acshuttles.com');
+    expect(second).toContain('UID:abc123-def456@acshuttles.com');
+  });
+
+  it('uses the estimated duration and includes trip and driver details', () => {
+    const lines = unfold(generateBookingCalendarInvite(booking, NOW));
+
+    expect(lines).toContain('DURATION:PT105M');
+    expect(lines).toContain('LOCATION:123 Main St\\, Princeton\\, NJ');
+    expect(lines).toContain('SUMMARY:AC Shuttles pickup to Newark Airport (EWR)');
+    const description = lines.find(line => line.startsWith('DESCRIPTION:Booking Ref'))!;
+    expect(description).toContain('Booking Ref: ABC123-DEF\\n');
+    expect(description).toContain('Driver Phone: 609-555-0199');
+    expect(lines).toContain('SEQUENCE:7');
+    expect(lines).toContain('METHOD:REQUEST');
+    expect(lines).toContain('STATUS:CONFIRMED');
+    expect(lines).toContain('TRIGGER:-PT1H');
+  });
+
+  it('marks a cancellation and drops the reminder alarm', () => {
+    const lines = unfold(generateBookingCalendarInvite({ ...booking, method: 'CANCEL', sequence: 8 }, NOW));
+
+    expect(lines).toContain('METHOD:CANCEL');
+    expect(lines).toContain('STATUS:CANCELLED');
+    expect(lines).toContain('SEQUENCE:8');
+    expect(lines).not.toContain('BEGIN:VALARM');
+  });
+
+  it('uses CRLF line endings and folds long lines', () => {
+    const ics = generateBookingCalendarInvite({ ...booking, endLocation: 'A'.repeat(200) }, NOW);
+
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(ics.split('\r\n').every(line => new TextEncoder().encode(line).length <= 75)).toBe(true);
+  });
+
+  it('throws for a pickup time it cannot read', () => {
+    expect(() => generateBookingCalendarInvite({ ...booking, pickupDatetime: 'next Tuesday' }, NOW)).toThrow();
+  });
+});
+
+describe('foldIcsLine', () => {
+  it('does not split multi-byte characters', () => {
+    const folded = foldIcsLine(`SUMMARY:${'é'.repeat(60)}`);
+
+    expect(folded.replace(/\r\n /g, '')).toBe(`SUMMARY:${'é'.repeat(60)}`);
+    expect(folded.split('\r\n').every(line => new TextEncoder().encode(line).length <= 75)).toBe(true);
+  });
+});
+
+describe('calendarSequence', () => {
+  it('increases over time', () => {
+    expect(calendarSequence(NOW + 1000)).toBeGreaterThan(calendarSequence(NOW));
+  });
+});
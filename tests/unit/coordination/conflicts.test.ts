@@ -0,0 +1,293 @@
+/**
+ * Double-Booking Detection Tests
+ *
+ * Covers ride windows (pickup + duration + buffer), overlap detection,
+ * the buffer and policy settings, and findBookingConflicts and
+ * findRideConflicts against the in-memory store.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  conflictBufferMinutes,
+  conflictPolicy,
+  detectConflicts,
+  findBookingConflicts,
+  findRideConflicts,
+  getMemoryBookingStore,
+  rideWindow,
+  windowsOverlap,
+  BookingRecord,
+  CoordinationEnv,
+} from '../../../src/layers/coordination';
+
+const TIME_ZONE = 'America/New_York';
+
+function record(transactionId: string, pickupDatetime: string, overrides: Partial<BookingRecord> = {}): BookingRecord {
+  return {
+    transactionId,
+    idempotencyKey: `idem-${transactionId}`,
+    customerName: 'Jane Smith',
+    customerEmail: 'jane@example.com',
+    customerPhone: null,
+    startLocation: '100 Peachtree St, Atlanta, GA',
+    endLocation: 'Hartsfield-Jackson Airport, Atlanta, GA',
+    pickupDatetime,
+    estimatedDistance: '15 miles',
+    estimatedDuration: '1 hour',
+    passengers: 2,
+    submittedAt: '2025-02-20T10:00:00Z',
+    notes: null,
+    mapUrl: 'https://www.google.com/maps/dir/?api=1',
+    stops: [],
+    status: 'Accepted',
+    reminderSentAt: null,
+    requestedPickupDatetime: null,
+    denialReason: null,
+    alternativePickupDatetime: null,
+    ownerNotes: null,
+    driverId: null,
+    driverName: null,
+    driverEmail: null,
+    driverPhone: null,
+    vehicleId: null,
+    vehicleName: null,
+    quote: null,
+    reservationId: null,
+    tripLeg: null,
+    seriesId: null,
+    recurrence: null,
+    serviceArea: null,
+    ...overrides,
+  };
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('rideWindow', () => {
+  it('runs from pickup to arrival plus the buffer', () => {
+    const window = rideWindow({ pickupDatetime: '2025-03-04T10:00:00-05:00', estimatedDuration: '1 hour 15 mins' }, 30, TIME_ZONE);
+
+    expect(window).toEqual({
+      start: Date.parse('2025-03-04T15:00:00Z'),
+      end: Date.parse('2025-03-04T16:45:00Z'),
+    });
+  });
+
+  it('reads a naive pickup time in the business timezone', () => {
+    const window = rideWindow({ pickupDatetime: '2025-03-04T10:00', estimatedDuration: '30 mins' }, 0, TIME_ZONE);
+
+    expect(window?.start).toBe(Date.parse('2025-03-04T15:00:00Z'));
+  });
+
+  it('returns null for a pickup time that cannot be parsed', () => {
+    expect(rideWindow({ pickupDatetime: 'next Tuesday', estimatedDuration: '30 mins' }, 30, TIME_ZONE)).toBeNull();
+  });
+});
+
+describe('windowsOverlap', () => {
+  it('treats windows that only touch as not overlapping', () => {
+    expect(windowsOverlap({ start: 0, end: 10 }, { start: 10, end: 20 })).toBe(false);
+    expect(windowsOverlap({ start: 0, end: 11 }, { start: 10, end: 20 })).toBe(true);
+    expect(windowsOverlap({ start: 5, end: 6 }, { start: 0, end: 20 })).toBe(true);
+  });
+});
+
+describe('detectConflicts', () => {
+  // 10:00-11:30 with a 30 minute buffer
+  const window = { start: Date.parse('2025-03-04T15:00:00Z'), end: Date.parse('2025-03-04T16:30:00Z') };
+
+  it('finds accepted rides that overlap, ordered by pickup', () => {
+    const candidates = [
+      record('later', '2025-03-04T11:00:00-05:00'),
+      record('earlier', '2025-03-04T09:00:00-05:00'),
+      record('clear', '2025-03-04T14:00:00-05:00'),
+    ];
+
+    const conflicts = detectConflicts('txn-new', window, candidates, 30, TIME_ZONE);
+
+    expect(conflicts.map(conflict => conflict.booking.transactionId)).toEqual(['earlier', 'later']);
+    expect(conflicts[0].window).toEqual({
+      start: Date.parse('2025-03-04T14:00:00Z'),
+      end: Date.parse('2025-03-04T15:30:00Z'),
+    });
+  });
+
+  it('counts the buffer after the earlier ride', () => {
+    // Arrives 9:45, so the driver is busy until 10:15 with the buffer
+    const earlier = record('earlier', '2025-03-04T08:45:00-05:00');
+
+    expect(detectConflicts('txn-new', window, [earlier], 30, TIME_ZONE)).toHaveLength(1);
+    expect(detectConflicts('txn-new', window, [earlier], 0, TIME_ZONE)).toHaveLength(0);
+  });
+
+  it('ignores the booking itself and rides that no longer hold the driver', () => {
+    const candidates = [
+      record('txn-new', '2025-03-04T10:00:00-05:00'),
+      record('pending', '2025-03-04T10:00:00-05:00', { status: 'Pending Review' }),
+      record('cancelled', '2025-03-04T10:00:00-05:00', { status: 'Cancelled' }),
+      record('completed', '2025-03-04T10:00:00-05:00', { status: 'Completed' }),
+      record('en-route', '2025-03-04T10:00:00-05:00', { status: 'Driver En Route' }),
+    ];
+
+    const conflicts = detectConflicts('txn-new', window, candidates, 30, TIME_ZONE);
+
+    expect(conflicts.map(conflict => conflict.booking.transactionId)).toEqual(['en-route']);
+  });
+
+  it('only counts rides of the same driver', () => {
+    const candidates = [
+      record('alice', '2025-03-04T10:00:00-05:00', { driverId: 'drv-alice' }),
+      record('bob', '2025-03-04T10:30:00-05:00', { driverId: 'drv-bob' }),
+      record('unassigned', '2025-03-04T10:15:00-05:00'),
+    ];
+
+    const ids = (driverId: string | null) =>
+      detectConflicts('txn-new', window, candidates, 30, TIME_ZONE, driverId)
+        .map(conflict => conflict.booking.transactionId);
+
+    expect(ids('drv-alice')).toEqual(['alice']);
+    expect(ids('drv-bob')).toEqual(['bob']);
+    expect(ids('drv-carol')).toEqual([]);
+    // Unassigned rides share the default driver
+    expect(ids(null)).toEqual(['unassigned']);
+  });
+});
+
+describe('conflict settings', () => {
+  it('defaults to a 30 minute buffer and the warn policy', () => {
+    expect(conflictBufferMinutes({})).toBe(30);
+    expect(conflictPolicy({})).toBe('warn');
+  });
+
+  it('reads the buffer and policy', () => {
+    expect(conflictBufferMinutes({ BOOKING_CONFLICT_BUFFER_MINUTES: '0' })).toBe(0);
+    expect(conflictPolicy({ BOOKING_CONFLICT_POLICY: 'Override' })).toBe('override');
+    expect(conflictPolicy({ BOOKING_CONFLICT_POLICY: 'block' })).toBe('block');
+  });
+
+  it('falls back to the defaults for invalid settings', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(conflictBufferMinutes({ BOOKING_CONFLICT_BUFFER_MINUTES: '-5' })).toBe(30);
+    expect(conflictPolicy({ BOOKING_CONFLICT_POLICY: 'refuse' })).toBe('warn');
+    expect(warn.mock.calls.map(call => call[0])).toEqual([
+      expect.stringContaining('conflicts.invalid_buffer'),
+      expect.stringContaining('conflicts.invalid_policy'),
+    ]);
+  });
+});
+
+describe('findBookingConflicts', () => {
+  const env = { BOOKING_STORE: 'memory' } as CoordinationEnv;
+
+  async function createBooking(
+    transactionId: string,
+    pickupDatetime: string,
+    status?: string,
+    estimatedDuration: string = '1 hour'
+  ): Promise<void> {
+    await getMemoryBookingStore().create({
+      summary: record(transactionId, pickupDatetime, { estimatedDuration }),
+      rawPayload: '{}',
+      driverContact: { name: '', email: '', phone: '' },
+    });
+    if (status) {
+      await getMemoryBookingStore().updateStatus(transactionId, { status, expectedStatus: 'Pending Review' });
+    }
+  }
+
+  beforeEach(() => {
+    getMemoryBookingStore().clear();
+  });
+
+  it('finds accepted bookings that overlap the pickup', async () => {
+    await createBooking('accepted', '2025-03-04T10:30:00-05:00', 'Accepted');
+    await createBooking('pending', '2025-03-04T10:30:00-05:00');
+    await createBooking('next-day', '2025-03-05T10:30:00-05:00', 'Accepted');
+
+    const conflicts = await findBookingConflicts(
+      { transactionId: 'txn-new', pickupDatetime: '2025-03-04T10:00:00-05:00', estimatedDuration: '45 mins' },
+      env
+    );
+
+    expect(conflicts.map(conflict => conflict.booking.transactionId)).toEqual(['accepted']);
+  });
+
+  it('finds a long ride that started the evening before', async () => {
+    await createBooking('overnight', '2025-03-03T22:00:00-05:00', 'Accepted', '9 hours');
+
+    const conflicts = await findBookingConflicts(
+      { transactionId: 'txn-new', pickupDatetime: '2025-03-04T06:00:00-05:00', estimatedDuration: '30 mins' },
+      env
+    );
+
+    expect(conflicts.map(conflict => conflict.booking.transactionId)).toEqual(['overnight']);
+  });
+
+  it('checks a proposed pickup time instead of the current one', async () => {
+    await createBooking('accepted', '2025-03-06T15:00:00-05:00', 'Accepted');
+    const booking = { transactionId: 'txn-new', pickupDatetime: '2025-03-04T10:00:00-05:00', estimatedDuration: '1 hour' };
+
+    expect(await findBookingConflicts(booking, env)).toHaveLength(0);
+    expect(await findBookingConflicts(booking, env, '2025-03-06T14:30:00-05:00')).toHaveLength(1);
+  });
+
+  it('lets two drivers take overlapping rides', async () => {
+    await createBooking('alice', '2025-03-04T10:00:00-05:00');
+    await getMemoryBookingStore().updateStatus('alice', {
+      status: 'Accepted',
+      expectedStatus: 'Pending Review',
+      changes: { driverId: 'drv-alice' },
+    });
+    const booking = { transactionId: 'txn-new', pickupDatetime: '2025-03-04T10:30:00-05:00', estimatedDuration: '1 hour' };
+
+    const forAlice = await findBookingConflicts(booking, env, booking.pickupDatetime, 'drv-alice');
+    expect(forAlice.map(conflict => conflict.booking.transactionId)).toEqual(['alice']);
+    expect(await findBookingConflicts(booking, env, booking.pickupDatetime, 'drv-bob')).toHaveLength(0);
+    expect(await findBookingConflicts(booking, env)).toHaveLength(0);
+    expect(await findBookingConflicts({ ...booking, driverId: 'drv-alice' }, env)).toHaveLength(1);
+  });
+});
+
+describe('findRideConflicts', () => {
+  const env = { BOOKING_STORE: 'memory' } as CoordinationEnv;
+
+  beforeEach(() => {
+    getMemoryBookingStore().clear();
+  });
+
+  it('lists the conflicts of each ride from one read', async () => {
+    for (const [transactionId, pickupDatetime] of [['tue', '2025-03-04T10:30:00-05:00'], ['thu', '2025-03-06T09:30:00-05:00']]) {
+      await getMemoryBookingStore().create({
+        summary: record(transactionId, pickupDatetime),
+        rawPayload: '{}',
+        driverContact: { name: '', email: '', phone: '' },
+      });
+      await getMemoryBookingStore().updateStatus(transactionId, { status: 'Accepted', expectedStatus: 'Pending Review' });
+    }
+    const list = vi.spyOn(getMemoryBookingStore(), 'list');
+    const rides = ['2025-03-04', '2025-03-05', '2025-03-06'].map(date => ({
+      transactionId: `ride-${date}`,
+      pickupDatetime: `${date}T10:00:00-05:00`,
+      estimatedDuration: '1 hour',
+    }));
+
+    const conflicts = await findRideConflicts(rides, env, null);
+
+    expect(list).toHaveBeenCalledTimes(1);
+    expect([...conflicts.keys()]).toEqual(['ride-2025-03-04', 'ride-2025-03-06']);
+    expect(conflicts.get('ride-2025-03-06')?.map(conflict => conflict.booking.transactionId)).toEqual(['thu']);
+    expect((await findRideConflicts(rides, env, 'drv-alice')).size).toBe(0);
+  });
+
+  it('does not read the store for rides it cannot place', async () => {
+    const list = vi.spyOn(getMemoryBookingStore(), 'list');
+
+    const conflicts = await findRideConflicts([{ transactionId: 'bad', pickupDatetime: 'soon', estimatedDuration: '1 hour' }], env, null);
+
+    expect(conflicts.size).toBe(0);
+    expect(list).not.toHaveBeenCalled();
+  });
+});
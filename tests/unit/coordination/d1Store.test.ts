@@ -0,0 +1,427 @@
+/**
+ * D1 Booking Store Tests
+ *
+ * Runs the D1 store against a fake binding that records each statement,
+ * so the tests check the SQL contract without a real database.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { D1BookingStore, D1DriverStore, DEFAULT_STATUS } from '../../../src/layers/coordination';
+
+interface RecordedStatement {
+  sql: string;
+  params: unknown[];
+}
+
+type Handler = (sql: string, params: unknown[]) => { changes?: number; lastRowId?: number; rows?: Record<string, unknown>[] };
+
+function createFakeD1(handler: Handler = () => ({})) {
+  const statements: RecordedStatement[] = [];
+
+  const db = {
+    prepare(sql: string) {
+      let params: unknown[] = [];
+      const statement = {
+        bind(...values: unknown[]) {
+          params = values;
+          return statement;
+        },
+        async run() {
+          statements.push({ sql, params });
+          const result = handler(sql, params);
+          return { success: true, results: [], meta: { changes: result.changes ?? 0, last_row_id: result.lastRowId ?? 0 } };
+        },
+        async all() {
+          statements.push({ sql, params });
+          return { success: true, results: handler(sql, params).rows ?? [], meta: {} };
+        },
+        async first(column?: string) {
+          statements.push({ sql, params });
+          const row = handler(sql, params).rows?.[0] ?? null;
+          return row && column ? row[column] ?? null : row;
+        },
+      };
+      return statement;
+    },
+  };
+
+  return { db: db as unknown as D1Database, statements };
+}
+
+const bookingRow = {
+  transaction_id: 'txn-1',
+  idempotency_key: 'idem-1',
+  submitted_at: '2025-02-20T10:00:00.000Z',
+  customer_name: 'Jane Smith',
+  customer_email: 'jane@example.com',
+  customer_phone: null,
+  start_location: '100 Peachtree St, Atlanta, GA',
+  end_location: 'Hartsfield-Jackson Airport, Atlanta, GA',
+  pickup_datetime: '2025-02-20T16:00:00.000Z',
+  estimated_distance: '15 miles',
+  estimated_duration: '25 mins',
+  passengers: 2,
+  notes: null,
+  status: 'Accepted',
+  map_url: 'https://www.google.com/maps/dir/?api=1',
+  stops: null as string | null,
+  reminder_sent_at: null,
+  quote: null as string | null,
+  reservation_id: null as string | null,
+  trip_leg: null as string | null,
+  series_id: null as string | null,
+  recurrence: null as string | null,
+  service_area: null as string | null,
+};
+
+describe('D1BookingStore', () => {
+  it('inserts new bookings with a parsed pickup timestamp and returns the row id', async () => {
+    const { db, statements } = createFakeD1(sql => (sql.startsWith('INSERT INTO bookings') ? { changes: 1, lastRowId: 42 } : {}));
+    const store = new D1BookingStore(db);
+
+    const result = await store.create({
+      summary: {
+        transactionId: 'txn-1',
+        idempotencyKey: 'idem-1',
+        customerName: 'Jane Smith',
+        customerEmail: 'jane@example.com',
+        customerPhone: null,
+        startLocation: 'A',
+        endLocation: 'B',
+        pickupDatetime: '2025-02-20T16:00:00.000Z',
+        estimatedDistance: '15 miles',
+        estimatedDuration: '25 mins',
+        passengers: 2,
+        submittedAt: '2025-02-20T10:00:00.000Z',
+        notes: null,
+        mapUrl: 'https://maps.example',
+        stops: [],
+        quote: null,
+        reservationId: null,
+        tripLeg: null,
+        seriesId: null,
+        recurrence: null,
+        serviceArea: null,
+      },
+      rawPayload: '{}',
+      driverContact: { name: 'Mike', email: '', phone: '' },
+    });
+
+    expect(result.rowNumber).toBe(42);
+    const insert = statements[0];
+    expect(insert.params).toContain(Date.parse('2025-02-20T16:00:00.000Z'));
+    expect(insert.params).toContain(DEFAULT_STATUS);
+    expect(statements[1].sql).toContain('INSERT INTO booking_audit');
+  });
+
+  it('maps rows to booking records', async () => {
+    const { db } = createFakeD1(() => ({ rows: [bookingRow] }));
+    const booking = await new D1BookingStore(db).getById('txn-1');
+
+    expect(booking).toMatchObject({
+      transactionId: 'txn-1',
+      customerEmail: 'jane@example.com',
+      passengers: 2,
+      status: 'Accepted',
+      reminderSentAt: null,
+      quote: null,
+    });
+  });
+
+  it('finds the latest booking for an idempotency key', async () => {
+    const { db, statements } = createFakeD1(() => ({ rows: [bookingRow] }));
+
+    expect((await new D1BookingStore(db).getByIdempotencyKey('idem-1'))?.transactionId).toBe('txn-1');
+    expect(statements[0].sql).toContain('WHERE idempotency_key = ? ORDER BY submitted_at DESC LIMIT 1');
+    expect(statements[0].params).toEqual(['idem-1']);
+  });
+
+  it('stores the quote as JSON with its total in cents and reads it back', async () => {
+    const quote = {
+      currency: 'USD',
+      distanceMiles: 15,
+      durationMinutes: 25,
+      lines: [{ code: 'base' as const, label: 'Base fare', amount: 2500 }],
+      total: 2500,
+    };
+    const { db, statements } = createFakeD1(sql => (
+      sql.startsWith('INSERT INTO bookings') ? { changes: 1, lastRowId: 1 }
+        : sql.startsWith('SELECT') ? { rows: [{ ...bookingRow, quote: JSON.stringify(quote) }] }
+        : {}
+    ));
+    const store = new D1BookingStore(db);
+
+    await store.create({
+      summary: { ...(await store.getById('txn-1'))!, quote },
+      rawPayload: '{}',
+      driverContact: { name: '', email: '', phone: '' },
+    });
+
+    const insert = statements.find(statement => statement.sql.startsWith('INSERT INTO bookings'))!;
+    expect(insert.sql).toContain('quote, quote_total');
+    expect(insert.params).toContain(JSON.stringify(quote));
+    expect(insert.params).toContain(2500);
+    expect((await store.getById('txn-1'))?.quote).toEqual(quote);
+  });
+
+  it('updates status with a conditional UPDATE', async () => {
+    const { db, statements } = createFakeD1(sql => (sql.startsWith('UPDATE') ? { changes: 1 } : {}));
+
+    const result = await new D1BookingStore(db).updateStatus('txn-1', { status: 'Accepted', expectedStatus: DEFAULT_STATUS });
+
+    expect(result).toEqual({ found: true, updated: true, currentStatus: 'Accepted' });
+    expect(statements[0].sql).toContain('WHERE transaction_id = ? AND status = ?');
+    expect(statements[0].params).toEqual(['Accepted', expect.any(String), 'txn-1', DEFAULT_STATUS]);
+  });
+
+  it('writes an approved pickup time with the status and resets the reminder marker', async () => {
+    const { db, statements } = createFakeD1(sql => (sql.startsWith('UPDATE') ? { changes: 1 } : {}));
+
+    await new D1BookingStore(db).updateStatus('txn-1', {
+      status: 'Rescheduled',
+      expectedStatus: 'Reschedule Requested',
+      changes: { pickupDatetime: '2025-02-22T09:00:00Z', requestedPickupDatetime: null },
+    });
+
+    expect(statements[0].sql).toContain('pickup_datetime = ?, pickup_at = ?, reminder_sent_at = NULL, requested_pickup_datetime = ?');
+    expect(statements[0].params).toEqual([
+      'Rescheduled',
+      expect.any(String),
+      '2025-02-22T09:00:00Z',
+      Date.parse('2025-02-22T09:00:00Z'),
+      null,
+      'txn-1',
+      'Reschedule Requested',
+    ]);
+  });
+
+  it('copies the assigned driver onto the booking with the status', async () => {
+    const { db, statements } = createFakeD1(sql => (sql.startsWith('UPDATE') ? { changes: 1 } : {}));
+
+    await new D1BookingStore(db).updateStatus('txn-1', {
+      status: 'Accepted',
+      expectedStatus: DEFAULT_STATUS,
+      changes: { driverId: 'drv-1', driverName: 'Alex Reed', driverEmail: 'alex@example.com', driverPhone: null },
+    });
+
+    expect(statements[0].sql).toContain('driver_id = ?, driver_name = ?, driver_email = ?, driver_phone = ?');
+    expect(statements[0].params).toEqual([
+      'Accepted',
+      expect.any(String),
+      'drv-1',
+      'Alex Reed',
+      'alex@example.com',
+      null,
+      'txn-1',
+      DEFAULT_STATUS,
+    ]);
+  });
+
+  it('reports the current status when the conditional UPDATE matches nothing', async () => {
+    const { db } = createFakeD1(sql => (sql.startsWith('SELECT status') ? { rows: [{ status: 'Denied' }] } : { changes: 0 }));
+
+    const result = await new D1BookingStore(db).updateStatus('txn-1', { status: 'Accepted', expectedStatus: DEFAULT_STATUS });
+
+    expect(result).toEqual({ found: true, updated: false, currentStatus: 'Denied' });
+  });
+
+  it('reports unknown bookings', async () => {
+    const { db } = createFakeD1(() => ({ changes: 0, rows: [] }));
+
+    const result = await new D1BookingStore(db).updateStatus('txn-missing', { status: 'Accepted', expectedStatus: DEFAULT_STATUS });
+
+    expect(result).toEqual({ found: false, updated: false, currentStatus: null });
+  });
+
+  it('builds list queries from the filter', async () => {
+    const { db, statements } = createFakeD1(() => ({ rows: [bookingRow] }));
+
+    const bookings = await new D1BookingStore(db).list({
+      status: ['Accepted'],
+      pickupFrom: 1000,
+      pickupTo: 2000,
+      reminderSent: false,
+      limit: 10,
+    });
+
+    expect(bookings).toHaveLength(1);
+    expect(statements[0].sql).toContain('status IN (?)');
+    expect(statements[0].sql).toContain('reminder_sent_at IS NULL');
+    expect(statements[0].sql).toContain('pickup_at >= ?');
+    expect(statements[0].sql).toContain('pickup_at <= ?');
+    expect(statements[0].sql).toContain('LIMIT ?');
+    expect(statements[0].params).toEqual(['Accepted', 1000, 2000, 10]);
+  });
+
+  it('stores round-trip legs under their reservation and lists them by it', async () => {
+    const { db, statements } = createFakeD1(sql => (
+      sql.startsWith('INSERT INTO bookings') ? { changes: 1, lastRowId: 1 }
+        : sql.startsWith('SELECT') ? { rows: [{ ...bookingRow, reservation_id: 'txn-1', trip_leg: 'outbound' }] }
+        : {}
+    ));
+    const store = new D1BookingStore(db);
+    const outbound = (await store.getById('txn-1'))!;
+
+    expect(outbound).toMatchObject({ reservationId: 'txn-1', tripLeg: 'outbound' });
+
+    await store.create({
+      summary: { ...outbound, transactionId: 'txn-2', tripLeg: 'return' },
+      rawPayload: '{}',
+      driverContact: { name: '', email: '', phone: '' },
+    });
+    const insert = statements.find(statement => statement.sql.startsWith('INSERT INTO bookings'))!;
+    expect(insert.sql).toContain('reservation_id, trip_leg');
+    expect(insert.params).toEqual(expect.arrayContaining(['txn-2', 'txn-1', 'return']));
+
+    await store.list({ reservationId: 'txn-1' });
+    const select = statements[statements.length - 1];
+    expect(select.sql).toContain('reservation_id = ?');
+    expect(select.params).toEqual(['txn-1']);
+  });
+
+  it('stores series rides under their series and lists them by it', async () => {
+    const { db, statements } = createFakeD1(sql => (
+      sql.startsWith('INSERT INTO bookings') ? { changes: 1, lastRowId: 1 }
+        : sql.startsWith('SELECT') ? { rows: [{ ...bookingRow, series_id: 'txn-1', recurrence: 'FREQ=DAILY;COUNT=2' }] }
+        : {}
+    ));
+    const store = new D1BookingStore(db);
+    const first = (await store.getById('txn-1'))!;
+
+    expect(first).toMatchObject({ seriesId: 'txn-1', recurrence: 'FREQ=DAILY;COUNT=2' });
+
+    await store.create({
+      summary: { ...first, transactionId: 'txn-2' },
+      rawPayload: '{}',
+      driverContact: { name: '', email: '', phone: '' },
+    });
+    const insert = statements.find(statement => statement.sql.startsWith('INSERT INTO bookings'))!;
+    expect(insert.sql).toContain('series_id, recurrence');
+    expect(insert.params).toEqual(expect.arrayContaining(['txn-2', 'txn-1', 'FREQ=DAILY;COUNT=2']));
+
+    await store.list({ seriesId: 'txn-1' });
+    const select = statements[statements.length - 1];
+    expect(select.sql).toContain('series_id = ?');
+    expect(select.params).toEqual(['txn-1']);
+  });
+
+  it('stores the service-area classification and ignores unknown values', async () => {
+    const rows = [{ ...bookingRow, service_area: 'out-of-zone' }, { ...bookingRow, transaction_id: 'txn-2', service_area: 'nowhere' }];
+    const { db, statements } = createFakeD1(sql => (
+      sql.startsWith('INSERT INTO bookings') ? { changes: 1, lastRowId: 1 }
+        : sql.startsWith('SELECT') ? { rows }
+        : {}
+    ));
+    const store = new D1BookingStore(db);
+    const [flagged, unknown] = await store.list();
+
+    expect(flagged.serviceArea).toBe('out-of-zone');
+    expect(unknown.serviceArea).toBeNull();
+
+    await store.create({
+      summary: { ...flagged, transactionId: 'txn-3', serviceArea: 'requires-review' },
+      rawPayload: '{}',
+      driverContact: { name: '', email: '', phone: '' },
+    });
+    const insert = statements.find(statement => statement.sql.startsWith('INSERT INTO bookings'))!;
+    expect(insert.sql).toContain('service_area');
+    expect(insert.params).toContain('requires-review');
+  });
+
+  it('stores the stops as JSON and reads them back', async () => {
+    const stops = [{ address: '200 Market St, Philadelphia, PA', waitMinutes: 15 }];
+    const { db, statements } = createFakeD1(sql => (
+      sql.startsWith('INSERT INTO bookings') ? { changes: 1, lastRowId: 1 }
+        : sql.startsWith('SELECT') ? { rows: [{ ...bookingRow, stops: JSON.stringify(stops) }] }
+        : {}
+    ));
+    const store = new D1BookingStore(db);
+    const booking = (await store.getById('txn-1'))!;
+
+    expect(booking.stops).toEqual(stops);
+
+    await store.create({ summary: booking, rawPayload: '{}', driverContact: { name: '', email: '', phone: '' } });
+    const insert = statements.find(statement => statement.sql.startsWith('INSERT INTO bookings'))!;
+    expect(insert.sql).toContain('map_url, stops');
+    expect(insert.params).toContain(JSON.stringify(stops));
+  });
+
+  it('reads back the submission as received', async () => {
+    const { db, statements } = createFakeD1((_sql, params) => (params[0] === 'txn-1' ? { rows: [{ raw_payload: '{"stops":[]}' }] } : {}));
+    const store = new D1BookingStore(db);
+
+    expect(await store.getRawPayload('txn-1')).toBe('{"stops":[]}');
+    expect(await store.getRawPayload('txn-missing')).toBeNull();
+    expect(statements[0]).toEqual({ sql: 'SELECT raw_payload FROM bookings WHERE transaction_id = ?', params: ['txn-1'] });
+  });
+
+  it('throws when marking a reminder for an unknown booking', async () => {
+    const { db } = createFakeD1(() => ({ changes: 0 }));
+
+    await expect(new D1BookingStore(db).markReminderSent('txn-missing', '2025-02-20T10:00:00.000Z')).rejects.toThrow('not found');
+  });
+});
+
+describe('D1DriverStore', () => {
+  const driverRow = {
+    id: 'drv-1',
+    name: 'Alex Reed',
+    email: 'alex@example.com',
+    phone: null,
+    active: 0,
+    created_at: '2025-01-01T00:00:00.000Z',
+  };
+
+  it('inserts drivers with the active flag as an integer', async () => {
+    const { db, statements } = createFakeD1();
+
+    await new D1DriverStore(db).create({
+      id: 'drv-1',
+      name: 'Alex Reed',
+      email: 'alex@example.com',
+      phone: '609-555-0111',
+      active: true,
+      createdAt: '2025-01-01T00:00:00.000Z',
+    });
+
+    expect(statements[0].sql).toContain('INSERT INTO drivers');
+    expect(statements[0].params).toEqual([
+      'drv-1',
+      'Alex Reed',
+      'alex@example.com',
+      '609-555-0111',
+      1,
+      '2025-01-01T00:00:00.000Z',
+      '2025-01-01T00:00:00.000Z',
+    ]);
+  });
+
+  it('maps rows to drivers', async () => {
+    const { db } = createFakeD1(() => ({ rows: [driverRow] }));
+
+    expect(await new D1DriverStore(db).getById('drv-1')).toEqual({
+      id: 'drv-1',
+      name: 'Alex Reed',
+      email: 'alex@example.com',
+      phone: null,
+      active: false,
+      createdAt: '2025-01-01T00:00:00.000Z',
+    });
+  });
+
+  it('updates only the given fields and returns the stored driver', async () => {
+    const { db, statements } = createFakeD1(sql => (sql.startsWith('UPDATE') ? { changes: 1 } : { rows: [driverRow] }));
+
+    const driver = await new D1DriverStore(db).update('drv-1', { active: false });
+
+    expect(statements[0].sql).toBe('UPDATE drivers SET updated_at = ?, active = ? WHERE id = ?');
+    expect(statements[0].params).toEqual([expect.any(String), 0, 'drv-1']);
+    expect(driver?.active).toBe(false);
+  });
+
+  it('returns null when updating an unknown driver', async () => {
+    const { db } = createFakeD1(() => ({ changes: 0 }));
+
+    expect(await new D1DriverStore(db).update('drv-missing', { name: 'Nobody' })).toBeNull();
+  });
+});
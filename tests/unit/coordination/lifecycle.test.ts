@@ -0,0 +1,265 @@
+/**
+ * Booking Lifecycle Tests
+ *
+ * Covers the transition table, its error messages, transitionBookingStatus
+ * against the in-memory store and the self-cancellation/reschedule policy.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  allowedTransitions,
+  canTransition,
+  checkSelfCancellation,
+  checkSelfReschedule,
+  findTransitionHooks,
+  getMemoryBookingStore,
+  transitionBookingStatus,
+  transitionKey,
+  BookingDetails,
+  BookingNotFoundError,
+  CoordinationEnv,
+  InvalidTransitionError,
+  TransitionHookTable,
+  DEFAULT_STATUS,
+} from '../../../src/layers/coordination';
+
+const env = { BOOKING_STORE: 'memory' } as CoordinationEnv;
+
+async function createBooking(transactionId = 'txn-1'): Promise<void> {
+  await getMemoryBookingStore().create({
+    summary: {
+      transactionId,
+      idempotencyKey: `idem-${transactionId}`,
+      customerName: 'Jane Smith',
+      customerEmail: 'jane@example.com',
+      customerPhone: null,
+      startLocation: '100 Peachtree St, Atlanta, GA',
+      endLocation: 'Hartsfield-Jackson Airport, Atlanta, GA',
+      pickupDatetime: '2025-02-21T10:00:00Z',
+      estimatedDistance: '15 miles',
+      estimatedDuration: '25 mins',
+      passengers: 2,
+      submittedAt: '2025-02-20T10:00:00Z',
+      notes: null,
+      mapUrl: 'https://www.google.com/maps/dir/?api=1',
+      stops: [],
+      quote: null,
+      reservationId: null,
+      tripLeg: null,
+      seriesId: null,
+      recurrence: null,
+      serviceArea: null,
+    },
+    rawPayload: '{}',
+    driverContact: { name: '', email: '', phone: '' },
+  });
+}
+
+describe('transition table', () => {
+  it('lets a pending booking be accepted, denied or cancelled', () => {
+    expect(allowedTransitions(DEFAULT_STATUS)).toEqual(['Accepted', 'Denied', 'Cancelled']);
+  });
+
+  it('follows a trip from acceptance to completion', () => {
+    expect(canTransition('Accepted', 'Driver En Route')).toBe(true);
+    expect(canTransition('Driver En Route', 'Completed')).toBe(true);
+    expect(canTransition('Driver En Route', 'No-Show')).toBe(true);
+  });
+
+  it('allows a rescheduled booking to be rescheduled again', () => {
+    expect(canTransition('Accepted', 'Rescheduled')).toBe(true);
+    expect(canTransition('Rescheduled', 'Rescheduled')).toBe(true);
+  });
+
+  it('holds a reschedule request until the owner approves or declines it', () => {
+    expect(canTransition('Accepted', 'Reschedule Requested')).toBe(true);
+    expect(canTransition('Rescheduled', 'Reschedule Requested')).toBe(true);
+    expect(allowedTransitions('Reschedule Requested')).toEqual(['Rescheduled', 'Accepted', 'Cancelled']);
+    expect(canTransition(DEFAULT_STATUS, 'Reschedule Requested')).toBe(false);
+  });
+
+  it('treats denied, cancelled, completed and no-show as final', () => {
+    for (const status of ['Denied', 'Cancelled', 'Completed', 'No-Show']) {
+      expect(allowedTransitions(status)).toEqual([]);
+    }
+  });
+
+  it('rejects unknown statuses on either side', () => {
+    expect(canTransition('Archived', 'Accepted')).toBe(false);
+    expect(canTransition('Accepted', 'Archived')).toBe(false);
+  });
+});
+
+describe('InvalidTransitionError', () => {
+  it('names the statuses and what is allowed instead', () => {
+    const error = new InvalidTransitionError('Accepted', 'Completed');
+    expect(error.message).toBe(
+      'Cannot change booking status from "Accepted" to "Completed". ' +
+      'Allowed next statuses: Reschedule Requested, Rescheduled, Driver En Route, Cancelled.'
+    );
+    expect(error.allowed).toEqual(['Reschedule Requested', 'Rescheduled', 'Driver En Route', 'Cancelled']);
+  });
+
+  it('explains that a final status cannot change', () => {
+    expect(new InvalidTransitionError('Completed', 'Accepted').message).toContain('"Completed" is a final status');
+  });
+});
+
+describe('findTransitionHooks', () => {
+  const exact = { customer: async () => {} };
+  const wildcard = { owner: async () => {} };
+  const table: TransitionHookTable<unknown> = {
+    [transitionKey('Accepted', 'Cancelled')]: exact,
+    [transitionKey('*', 'Cancelled')]: wildcard,
+  };
+
+  it('prefers the exact transition', () => {
+    expect(findTransitionHooks(table, 'Accepted', 'Cancelled')).toBe(exact);
+  });
+
+  it('falls back to the wildcard entry', () => {
+    expect(findTransitionHooks(table, DEFAULT_STATUS, 'Cancelled')).toBe(wildcard);
+  });
+
+  it('returns undefined when nothing matches', () => {
+    expect(findTransitionHooks(table, 'Accepted', 'Driver En Route')).toBeUndefined();
+  });
+});
+
+describe('transitionBookingStatus', () => {
+  beforeEach(() => {
+    getMemoryBookingStore().clear();
+  });
+
+  it('returns the transition with the updated booking', async () => {
+    await createBooking();
+
+    const result = await transitionBookingStatus('txn-1', 'Accepted', env, { metadata: 'ok' });
+
+    expect(result.from).toBe(DEFAULT_STATUS);
+    expect(result.to).toBe('Accepted');
+    expect(result.booking.status).toBe('Accepted');
+    expect(result.metadata).toBe('ok');
+  });
+
+  it('throws InvalidTransitionError without writing', async () => {
+    await createBooking();
+
+    await expect(transitionBookingStatus('txn-1', 'Completed', env)).rejects.toBeInstanceOf(InvalidTransitionError);
+    expect((await getMemoryBookingStore().getById('txn-1'))?.status).toBe(DEFAULT_STATUS);
+    expect(getMemoryBookingStore().getAuditLog().map(entry => entry.event)).toEqual(['submission_received']);
+  });
+
+  it('only allows the target statuses it is narrowed to', async () => {
+    await createBooking();
+
+    const error = await transitionBookingStatus('txn-1', 'Accepted', env, { within: ['Cancelled'] }).catch(e => e);
+    expect(error).toBeInstanceOf(InvalidTransitionError);
+    expect(error.allowed).toEqual(['Cancelled']);
+    expect(error.message).toContain('Allowed next statuses: Cancelled.');
+    expect((await getMemoryBookingStore().getById('txn-1'))?.status).toBe(DEFAULT_STATUS);
+  });
+
+  it('rejects a second decision on the same booking', async () => {
+    await createBooking();
+    await transitionBookingStatus('txn-1', 'Accepted', env);
+
+    const error = await transitionBookingStatus('txn-1', 'Denied', env).catch(e => e);
+    expect(error).toBeInstanceOf(InvalidTransitionError);
+    expect(error.from).toBe('Accepted');
+  });
+
+  it('stores a requested pickup and applies it on approval', async () => {
+    await createBooking();
+    await transitionBookingStatus('txn-1', 'Accepted', env);
+    await getMemoryBookingStore().markReminderSent('txn-1', '2025-02-20T11:00:00Z');
+
+    const requested = await transitionBookingStatus('txn-1', 'Reschedule Requested', env, {
+      changes: { requestedPickupDatetime: '2025-02-22T09:00:00Z' },
+    });
+    expect(requested.booking.requestedPickupDatetime).toBe('2025-02-22T09:00:00Z');
+    expect(requested.booking.pickupDatetime).toBe('2025-02-21T10:00:00Z');
+
+    const approved = await transitionBookingStatus('txn-1', 'Rescheduled', env, {
+      changes: { pickupDatetime: '2025-02-22T09:00:00Z', requestedPickupDatetime: null },
+    });
+    expect(approved.booking).toMatchObject({
+      status: 'Rescheduled',
+      pickupDatetime: '2025-02-22T09:00:00Z',
+      requestedPickupDatetime: null,
+      reminderSentAt: null,
+    });
+    expect(await getMemoryBookingStore().getById('txn-1')).toEqual(approved.booking);
+  });
+
+  it('throws BookingNotFoundError for an unknown booking', async () => {
+    await expect(transitionBookingStatus('missing', 'Accepted', env)).rejects.toBeInstanceOf(BookingNotFoundError);
+  });
+});
+
+describe('checkSelfCancellation', () => {
+  const NOW = Date.parse('2025-02-20T10:00:00Z');
+  const HOUR = 60 * 60 * 1000;
+
+  function booking(status: string, pickupInHours: number) {
+    return {
+      status,
+      pickupDatetime: new Date(NOW + pickupInHours * HOUR).toISOString(),
+    } as BookingDetails;
+  }
+
+  it('allows cancelling outside the cutoff window', () => {
+    expect(checkSelfCancellation(booking('Accepted', 48), 24, NOW)).toEqual({
+      allowed: true,
+      deadline: NOW + 24 * HOUR,
+    });
+  });
+
+  it('refuses once the cutoff has passed', () => {
+    expect(checkSelfCancellation(booking('Accepted', 12), 24, NOW)).toMatchObject({ allowed: false, reason: 'cutoff' });
+  });
+
+  it('refuses when the status cannot move to Cancelled', () => {
+    expect(checkSelfCancellation(booking('Driver En Route', 48), 24, NOW)).toMatchObject({ allowed: false, reason: 'status' });
+    expect(checkSelfCancellation(booking('Cancelled', 48), 24, NOW)).toMatchObject({ allowed: false, reason: 'status' });
+  });
+
+  it('has no deadline when the pickup time cannot be parsed', () => {
+    const unparsed = { status: DEFAULT_STATUS, pickupDatetime: 'next Tuesday' } as BookingDetails;
+    expect(checkSelfCancellation(unparsed, 24, NOW)).toEqual({ allowed: true, deadline: null });
+  });
+
+  it('reads a pickup without an offset in the business timezone', () => {
+    // 2025-02-21T12:00 in New York is 17:00 UTC, 31 hours after NOW
+    const naive = { status: 'Accepted', pickupDatetime: '2025-02-21T12:00' } as BookingDetails;
+
+    expect(checkSelfCancellation(naive, 24, NOW)).toEqual({ allowed: true, deadline: NOW + 7 * HOUR });
+    expect(checkSelfCancellation(naive, 24, NOW, 'Asia/Tokyo')).toMatchObject({ allowed: false, reason: 'cutoff' });
+  });
+});
+
+describe('checkSelfReschedule', () => {
+  const NOW = Date.parse('2025-02-20T10:00:00Z');
+  const HOUR = 60 * 60 * 1000;
+
+  function booking(status: string, pickupInHours: number) {
+    return {
+      status,
+      pickupDatetime: new Date(NOW + pickupInHours * HOUR).toISOString(),
+    } as BookingDetails;
+  }
+
+  it('allows confirmed bookings outside the cutoff window', () => {
+    expect(checkSelfReschedule(booking('Accepted', 48), 24, NOW)).toMatchObject({ allowed: true });
+    expect(checkSelfReschedule(booking('Rescheduled', 48), 24, NOW)).toMatchObject({ allowed: true });
+  });
+
+  it('refuses pending bookings and requests already waiting', () => {
+    expect(checkSelfReschedule(booking(DEFAULT_STATUS, 48), 24, NOW)).toMatchObject({ allowed: false, reason: 'status' });
+    expect(checkSelfReschedule(booking('Reschedule Requested', 48), 24, NOW)).toMatchObject({ allowed: false, reason: 'status' });
+  });
+
+  it('refuses once the cutoff has passed', () => {
+    expect(checkSelfReschedule(booking('Accepted', 12), 24, NOW)).toMatchObject({ allowed: false, reason: 'cutoff' });
+  });
+});
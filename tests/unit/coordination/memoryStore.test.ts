@@ -0,0 +1,242 @@
+/**
+ * Memory Booking Store Tests
+ *
+ * Exercises the BookingStore and DriverStore contracts against the in-memory backend.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { MemoryBookingStore, MemoryDriverStore, DEFAULT_STATUS, NewBooking } from '../../../src/layers/coordination';
+
+const NOW = Date.parse('2025-02-20T10:00:00Z');
+const HOUR = 60 * 60 * 1000;
+
+function newBooking(overrides: Partial<NewBooking['summary']> = {}): NewBooking {
+  return {
+    summary: {
+      transactionId: 'txn-1',
+      idempotencyKey: 'idem-1',
+      customerName: 'Jane Smith',
+      customerEmail: 'jane@example.com',
+      customerPhone: null,
+      startLocation: '100 Peachtree St, Atlanta, GA',
+      endLocation: 'Hartsfield-Jackson Airport, Atlanta, GA',
+      pickupDatetime: new Date(NOW + 6 * HOUR).toISOString(),
+      estimatedDistance: '15 miles',
+      estimatedDuration: '25 mins',
+      passengers: 2,
+      submittedAt: new Date(NOW).toISOString(),
+      notes: null,
+      mapUrl: 'https://www.google.com/maps/dir/?api=1',
+      stops: [],
+      quote: null,
+      reservationId: null,
+      tripLeg: null,
+      seriesId: null,
+      recurrence: null,
+      serviceArea: null,
+      ...overrides,
+    },
+    rawPayload: '{}',
+    driverContact: { name: '', email: '', phone: '' },
+  };
+}
+
+describe('MemoryBookingStore', () => {
+  let store: MemoryBookingStore;
+
+  beforeEach(() => {
+    store = new MemoryBookingStore();
+  });
+
+  it('creates bookings in the default status', async () => {
+    await store.create(newBooking());
+
+    const booking = await store.getById('txn-1');
+    expect(booking?.status).toBe(DEFAULT_STATUS);
+    expect(booking?.reminderSentAt).toBeNull();
+  });
+
+  it('rejects a duplicate transaction ID', async () => {
+    await store.create(newBooking());
+    await expect(store.create(newBooking())).rejects.toThrow('already exists');
+  });
+
+  it('finds bookings by idempotency key', async () => {
+    await store.create(newBooking());
+
+    expect((await store.getByIdempotencyKey('idem-1'))?.transactionId).toBe('txn-1');
+    expect(await store.getByIdempotencyKey('idem-unknown')).toBeNull();
+  });
+
+  it('finds the latest booking for a reused idempotency key', async () => {
+    await store.create(newBooking());
+    await store.updateStatus('txn-1', { status: 'Cancelled', expectedStatus: DEFAULT_STATUS });
+    await store.create(newBooking({ transactionId: 'txn-2' }));
+
+    expect((await store.getByIdempotencyKey('idem-1'))?.transactionId).toBe('txn-2');
+  });
+
+  it('returns the submission as received', async () => {
+    await store.create({ ...newBooking(), rawPayload: '{"stops":[]}' });
+
+    expect(await store.getRawPayload('txn-1')).toBe('{"stops":[]}');
+    expect(await store.getRawPayload('txn-unknown')).toBeNull();
+  });
+
+  it('returns copies rather than live records', async () => {
+    await store.create(newBooking());
+
+    const booking = await store.getById('txn-1');
+    booking!.status = 'Tampered';
+
+    expect((await store.getById('txn-1'))?.status).toBe(DEFAULT_STATUS);
+  });
+
+  describe('updateStatus', () => {
+    it('updates when the expected status matches', async () => {
+      await store.create(newBooking());
+
+      const result = await store.updateStatus('txn-1', { status: 'Accepted', expectedStatus: DEFAULT_STATUS });
+
+      expect(result).toEqual({ found: true, updated: true, currentStatus: 'Accepted' });
+      expect((await store.getById('txn-1'))?.status).toBe('Accepted');
+    });
+
+    it('leaves the booking alone when the expected status does not match', async () => {
+      await store.create(newBooking());
+      await store.updateStatus('txn-1', { status: 'Accepted', expectedStatus: DEFAULT_STATUS });
+
+      const result = await store.updateStatus('txn-1', { status: 'Denied', expectedStatus: DEFAULT_STATUS });
+
+      expect(result).toEqual({ found: true, updated: false, currentStatus: 'Accepted' });
+    });
+
+    it('reports unknown bookings', async () => {
+      const result = await store.updateStatus('txn-missing', { status: 'Accepted', expectedStatus: DEFAULT_STATUS });
+      expect(result).toEqual({ found: false, updated: false, currentStatus: null });
+    });
+
+    it('records an audit entry', async () => {
+      await store.create(newBooking());
+      await store.updateStatus('txn-1', { status: 'Denied', expectedStatus: DEFAULT_STATUS, metadata: 'fully booked' });
+
+      expect(store.getAuditLog().map(entry => entry.event)).toEqual(['submission_received', 'status_updated_to_denied']);
+      expect(JSON.parse(store.getAuditLog()[1].details)).toEqual({
+        from: DEFAULT_STATUS,
+        to: 'Denied',
+        metadata: 'fully booked',
+      });
+    });
+
+    it('writes field changes with the status and leaves omitted fields alone', async () => {
+      await store.create(newBooking());
+      await store.updateStatus('txn-1', {
+        status: 'Denied',
+        expectedStatus: DEFAULT_STATUS,
+        changes: { denialReason: 'being fully booked at that time', alternativePickupDatetime: '2025-02-22T09:00' },
+      });
+
+      expect(await store.getById('txn-1')).toMatchObject({
+        status: 'Denied',
+        denialReason: 'being fully booked at that time',
+        alternativePickupDatetime: '2025-02-22T09:00',
+        ownerNotes: null,
+        requestedPickupDatetime: null,
+      });
+      expect(JSON.parse(store.getAuditLog()[1].details).changes).toEqual({
+        denialReason: 'being fully booked at that time',
+        alternativePickupDatetime: '2025-02-22T09:00',
+      });
+    });
+  });
+
+  describe('list', () => {
+    beforeEach(async () => {
+      await store.create(newBooking({ transactionId: 'txn-late', idempotencyKey: 'a', pickupDatetime: new Date(NOW + 20 * HOUR).toISOString() }));
+      await store.create(newBooking({ transactionId: 'txn-soon', idempotencyKey: 'b', pickupDatetime: new Date(NOW + 2 * HOUR).toISOString() }));
+      await store.create(newBooking({ transactionId: 'txn-far', idempotencyKey: 'c', pickupDatetime: new Date(NOW + 48 * HOUR).toISOString() }));
+      await store.updateStatus('txn-late', { status: 'Accepted', expectedStatus: DEFAULT_STATUS });
+      await store.updateStatus('txn-soon', { status: 'Accepted', expectedStatus: DEFAULT_STATUS });
+    });
+
+    it('orders results by pickup time', async () => {
+      const bookings = await store.list();
+      expect(bookings.map(b => b.transactionId)).toEqual(['txn-soon', 'txn-late', 'txn-far']);
+    });
+
+    it('filters by status and pickup window', async () => {
+      const bookings = await store.list({ status: ['Accepted'], pickupFrom: NOW, pickupTo: NOW + 24 * HOUR });
+      expect(bookings.map(b => b.transactionId)).toEqual(['txn-soon', 'txn-late']);
+    });
+
+    it('filters by reminder marker', async () => {
+      await store.markReminderSent('txn-soon', new Date(NOW).toISOString());
+
+      const pending = await store.list({ status: ['Accepted'], reminderSent: false });
+      expect(pending.map(b => b.transactionId)).toEqual(['txn-late']);
+    });
+
+    it('filters by reservation', async () => {
+      await store.create(newBooking({ transactionId: 'txn-out', idempotencyKey: 'd', reservationId: 'txn-out', tripLeg: 'outbound' }));
+      await store.create(newBooking({ transactionId: 'txn-back', idempotencyKey: 'd:return', reservationId: 'txn-out', tripLeg: 'return', pickupDatetime: new Date(NOW + 30 * HOUR).toISOString() }));
+
+      const legs = await store.list({ reservationId: 'txn-out' });
+      expect(legs.map(b => [b.transactionId, b.tripLeg])).toEqual([['txn-out', 'outbound'], ['txn-back', 'return']]);
+    });
+
+    it('filters by series', async () => {
+      await store.create(newBooking({ transactionId: 'txn-first', idempotencyKey: 'e', seriesId: 'txn-first', recurrence: 'FREQ=DAILY;COUNT=2' }));
+      await store.create(newBooking({ transactionId: 'txn-second', idempotencyKey: 'e:next', seriesId: 'txn-first', recurrence: 'FREQ=DAILY;COUNT=2', pickupDatetime: new Date(NOW + 48 * HOUR).toISOString() }));
+
+      const rides = await store.list({ seriesId: 'txn-first' });
+      expect(rides.map(b => b.transactionId)).toEqual(['txn-first', 'txn-second']);
+    });
+
+    it('applies a limit', async () => {
+      expect(await store.list({ limit: 1 })).toHaveLength(1);
+    });
+  });
+
+  it('throws when marking a reminder for an unknown booking', async () => {
+    await expect(store.markReminderSent('txn-missing', new Date(NOW).toISOString())).rejects.toThrow('not found');
+  });
+});
+
+describe('MemoryDriverStore', () => {
+  let store: MemoryDriverStore;
+
+  const driver = {
+    id: 'drv-1',
+    name: 'Zoe Park',
+    email: 'zoe@example.com',
+    phone: null,
+    active: true,
+    createdAt: new Date(NOW).toISOString(),
+  };
+
+  beforeEach(() => {
+    store = new MemoryDriverStore();
+  });
+
+  it('lists drivers ordered by name', async () => {
+    await store.create(driver);
+    await store.create({ ...driver, id: 'drv-2', name: 'alex Reed' });
+
+    expect((await store.list()).map(d => d.id)).toEqual(['drv-2', 'drv-1']);
+  });
+
+  it('rejects a duplicate driver ID', async () => {
+    await store.create(driver);
+    await expect(store.create(driver)).rejects.toThrow('already exists');
+  });
+
+  it('updates the given fields and leaves the rest alone', async () => {
+    await store.create({ ...driver, phone: '609-555-0111' });
+
+    const updated = await store.update('drv-1', { active: false, phone: null });
+
+    expect(updated).toEqual({ ...driver, active: false, phone: null });
+    expect(await store.getById('drv-1')).toEqual(updated);
+    expect(await store.update('drv-missing', { active: false })).toBeNull();
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Ride Pricing Tests
+ *
+ * Quotes are built from the PRICING_* settings: base fare, distance and time
+ * rates, extra passengers, airport fee and the higher of the night and
+ * holiday multipliers. Pricing is off until a fare or rate is configured.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  loadPricing,
+  quoteRide,
+  parseDistanceMiles,
+  formatMoney,
+  Quote,
+  QuoteRequest,
+} from '../../../src/layers/coordination';
+import { parseStoredQuote } from '../../../src/layers/coordination/pricing';
+
+const TIME_ZONE = 'America/New_York';
+
+const PRICING = loadPricing({
+  PRICING_BASE_FARE: '25',
+  PRICING_PER_MILE: '2.50',
+  PRICING_PER_MINUTE: '0.40',
+  PRICING_EXTRA_PASSENGER_FEE: '10',
+  PRICING_AIRPORT_FEE: '15',
+  PRICING_NIGHT_HOURS: '22:00-06:00',
+  PRICING_NIGHT_MULTIPLIER: '1.25',
+  PRICING_HOLIDAYS: '2025-12-25 Christmas, 2025-12-31..2026-01-01 New Year',
+  PRICING_HOLIDAY_MULTIPLIER: '1.5',
+});
+
+function ride(overrides: Partial<QuoteRequest> = {}): QuoteRequest {
+  return {
+    startLocation: '123 Main St, Philadelphia, PA',
+    endLocation: '30th Street Station, Philadelphia, PA',
+    pickupDatetime: '2025-03-12T14:00:00-04:00',
+    passengers: 2,
+    estimatedDistance: '10 miles',
+    estimatedDuration: '30 mins',
+    ...overrides,
+  };
+}
+
+function quote(overrides: Partial<QuoteRequest> = {}): Quote {
+  const result = quoteRide(ride(overrides), PRICING, TIME_ZONE);
+  if (!result.ok) {
+    throw new Error(`Expected a quote, got ${JSON.stringify(result.errors)}`);
+  }
+  return result.quote;
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('loadPricing', () => {
+  it('is off without a base fare or rate', () => {
+    const pricing = loadPricing({});
+
+    expect(pricing.enabled).toBe(false);
+    expect(pricing.currency).toBe('USD');
+    expect(pricing.includedPassengers).toBe(4);
+    expect(pricing.airportKeywords).toEqual(['airport']);
+  });
+
+  it('reads amounts in cents', () => {
+    expect(PRICING).toMatchObject({
+      enabled: true,
+      baseFare: 2500,
+      perMile: 250,
+      perMinute: 40,
+      extraPassengerFee: 1000,
+      airportFee: 1500,
+      nightHours: { start: 22 * 60, end: 6 * 60 },
+      nightMultiplier: 1.25,
+      holidayMultiplier: 1.5,
+    });
+    expect(PRICING.holidays).toEqual([
+      { start: '2025-12-25', end: '2025-12-25', label: 'Christmas' },
+      { start: '2025-12-31', end: '2026-01-01', label: 'New Year' },
+    ]);
+  });
+
+  it('logs invalid settings and uses their defaults', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const pricing = loadPricing({
+      PRICING_BASE_FARE: 'twenty',
+      PRICING_CURRENCY: 'DOLLARS',
+      PRICING_NIGHT_HOURS: 'late',
+      PRICING_NIGHT_MULTIPLIER: '0.5',
+      PRICING_HOLIDAYS: '12/25',
+    });
+
+    expect(pricing).toMatchObject({ baseFare: 0, currency: 'USD', nightHours: null, nightMultiplier: 1, holidays: [] });
+    const events = warn.mock.calls.map(call => JSON.parse(call[0] as string).event);
+    expect(events).toContain('pricing.invalid_setting');
+    expect(events).toContain('pricing.invalid_holiday');
+  });
+});
+
+describe('quoteRide', () => {
+  it('itemizes the base fare, distance and time', () => {
+    expect(quote()).toEqual({
+      currency: 'USD',
+      distanceMiles: 10,
+      durationMinutes: 30,
+      lines: [
+        { code: 'base', label: 'Base fare', amount: 2500 },
+        { code: 'distance', label: 'Distance (10 mi × $2.50)', amount: 2500 },
+        { code: 'time', label: 'Time (30 min × $0.40)', amount: 1200 },
+      ],
+      total: 6200,
+    });
+  });
+
+  it('charges for passengers beyond those included', () => {
+    const lines = quote({ passengers: 6 }).lines;
+
+    expect(lines).toContainEqual({ code: 'passengers', label: 'Extra passengers (2 × $10.00)', amount: 2000 });
+    expect(quote({ passengers: 4 }).lines.map(line => line.code)).not.toContain('passengers');
+  });
+
+  it('adds the airport fee once when either end is an airport', () => {
+    const { lines, total } = quote({ endLocation: 'Philadelphia International Airport, PA' });
+
+    expect(lines.filter(line => line.code === 'airport')).toEqual([{ code: 'airport', label: 'Airport fee', amount: 1500 }]);
+    expect(total).toBe(7700);
+  });
+
+  it('applies the night rate in the business timezone', () => {
+    // 03:30 UTC is 23:30 the evening before in New York
+    const { lines, total } = quote({ pickupDatetime: '2025-03-13T03:30:00Z' });
+
+    expect(lines[lines.length - 1]).toEqual({ code: 'night', label: 'Night rate (×1.25)', amount: 1550 });
+    expect(total).toBe(7750);
+    expect(quote({ pickupDatetime: '2025-03-13T06:00:00-04:00' }).lines.map(line => line.code)).not.toContain('night');
+  });
+
+  it('applies only the higher of the holiday and night rates', () => {
+    const { lines, total } = quote({ pickupDatetime: '2025-12-25T23:00:00-05:00' });
+
+    expect(lines.map(line => line.code)).toEqual(['base', 'distance', 'time', 'holiday']);
+    expect(lines[3]).toEqual({ code: 'holiday', label: 'Holiday rate - Christmas (×1.5)', amount: 3100 });
+    expect(total).toBe(9300);
+  });
+
+  it('converts kilometres and reads hours', () => {
+    const result = quote({ estimatedDistance: '16.1 km', estimatedDuration: '1 hour 15 mins' });
+
+    expect(result.distanceMiles).toBe(10);
+    expect(result.durationMinutes).toBe(75);
+  });
+
+  it('fails with field errors when the distance or duration cannot be read', () => {
+    const result = quoteRide(ride({ estimatedDistance: 'far', estimatedDuration: 'a while' }), PRICING, TIME_ZONE);
+
+    expect(result).toEqual({
+      ok: false,
+      errors: [
+        { field: 'estimated_distance', message: expect.stringContaining('miles or kilometres') },
+        { field: 'estimated_duration', message: expect.stringContaining('hours and minutes') },
+      ],
+    });
+  });
+});
+
+describe('pricing helpers', () => {
+  it('parses distances in miles', () => {
+    expect(parseDistanceMiles('95 miles')).toBe(95);
+    expect(parseDistanceMiles('1,200 mi')).toBe(1200);
+    expect(parseDistanceMiles('12.5')).toBe(12.5);
+    expect(parseDistanceMiles('100 km')).toBe(62.1);
+    expect(parseDistanceMiles('about an hour')).toBeNull();
+  });
+
+  it('formats cents in the currency', () => {
+    expect(formatMoney(123450)).toBe('$1,234.50');
+    expect(formatMoney(2500, 'EUR')).toBe('€25.00');
+  });
+
+  it('reads stored quotes and ignores anything else', () => {
+    const stored = quote();
+
+    expect(parseStoredQuote(JSON.stringify(stored))).toEqual(stored);
+    expect(parseStoredQuote('')).toBeNull();
+    expect(parseStoredQuote('{"total":"lots"}')).toBeNull();
+    expect(parseStoredQuote('not json')).toBeNull();
+  });
+});
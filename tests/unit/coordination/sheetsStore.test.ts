@@ -0,0 +1,338 @@
+/**
+ * Google Sheets Booking Store Tests
+ *
+ * Runs the Sheets store against the mock client to check that columns are
+ * found by header name, missing headers are added on write and a sheet
+ * without its required headers is rejected. Also covers the stored quote and
+ * the driver roster kept in the Drivers tab.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { SheetsBookingStore, SheetsDriverStore, SheetHeaderError, DEFAULT_STATUS, ItineraryStop, Quote, TripLeg } from '../../../src/layers/coordination';
+import { columnLetter, parseSheetTab } from '../../../src/layers/coordination/sheetTable';
+import { ServiceAreaStatus } from '../../../src/layers/security';
+import { MOCK_SHEET_HEADERS, createMockGoogleSheetsClient, createMockSheetRow, mockEnv } from '../../helpers/testUtils';
+
+const mocks = {
+  sheetsClient: null as ReturnType<typeof createMockGoogleSheetsClient> | null,
+};
+
+vi.mock('../../../src/integrations/googleSheets', () => ({
+  GoogleSheetsClient: vi.fn().mockImplementation(() => mocks.sheetsClient),
+}));
+
+const env = { ...mockEnv, GOOGLE_SHEET_ID_BACKUP: undefined, GOOGLE_SHEET_ID_AUDIT: undefined };
+
+function newBooking(transactionId = 'txn-1') {
+  return {
+    summary: {
+      transactionId,
+      idempotencyKey: `key-${transactionId}`,
+      customerName: 'Jane Rider',
+      customerEmail: 'jane@example.com',
+      customerPhone: '609-555-0100',
+      startLocation: 'Philadelphia, PA',
+      endLocation: 'Newark Airport, NJ',
+      pickupDatetime: '2025-02-20T14:30:00Z',
+      estimatedDistance: '95 miles',
+      estimatedDuration: '1 hour 45 minutes',
+      passengers: 2,
+      submittedAt: '2025-02-18T10:00:00Z',
+      notes: null,
+      mapUrl: 'https://maps.example.com',
+      stops: [] as ItineraryStop[],
+      quote: null as Quote | null,
+      reservationId: null as string | null,
+      tripLeg: null as TripLeg | null,
+      seriesId: null as string | null,
+      recurrence: null as string | null,
+      serviceArea: null as ServiceAreaStatus | null,
+    },
+    rawPayload: '{}',
+    driverContact: { name: 'Mike', email: 'mike@example.com', phone: '609-555-0199' },
+  };
+}
+
+describe('SheetsBookingStore', () => {
+  beforeEach(() => {
+    mocks.sheetsClient = createMockGoogleSheetsClient();
+  });
+
+  it('reads fields from wherever their header is', async () => {
+    mocks.sheetsClient = createMockGoogleSheetsClient({
+      headerRow: ['Status', 'Customer Email', 'Internal Column', 'Pickup DateTime', 'customer name', 'TRANSACTION ID', 'Est. Distance'],
+      existingRows: [['Accepted', 'jane@example.com', 'ignore me', '2025-02-20T14:30:00Z', 'Jane Rider', 'txn-1', '95 miles']],
+    });
+
+    const booking = await new SheetsBookingStore(env).getById('txn-1');
+
+    expect(booking).toMatchObject({
+      transactionId: 'txn-1',
+      status: 'Accepted',
+      customerName: 'Jane Rider',
+      customerEmail: 'jane@example.com',
+      pickupDatetime: '2025-02-20T14:30:00Z',
+      estimatedDistance: '95 miles',
+      notes: null,
+    });
+  });
+
+  it('writes the status to the Status column of the matching row in the configured tab', async () => {
+    mocks.sheetsClient = createMockGoogleSheetsClient({
+      headerRow: ['Transaction ID', 'Status', ...MOCK_SHEET_HEADERS.filter(h => h !== 'Transaction ID' && h !== 'Status')],
+      existingRows: [['txn-0', 'Accepted'], ['txn-1', DEFAULT_STATUS]],
+    });
+
+    const result = await new SheetsBookingStore({ ...env, GOOGLE_SHEET_RANGE_PRIMARY: 'Bookings!A:Z' })
+      .updateStatus('txn-1', { status: 'Accepted', expectedStatus: DEFAULT_STATUS });
+
+    expect(result.updated).toBe(true);
+    expect(mocks.sheetsClient.getUpdatedCells()).toEqual([{ range: 'Bookings!B3:B3', values: [['Accepted']] }]);
+    expect(mocks.sheetsClient.readRange).toHaveBeenCalledWith(expect.objectContaining({ range: 'Bookings' }));
+  });
+
+  it('writes the status and its changes in one batch update', async () => {
+    mocks.sheetsClient = createMockGoogleSheetsClient({
+      existingRows: [createMockSheetRow({ transactionId: 'txn-1', status: DEFAULT_STATUS })],
+    });
+
+    await new SheetsBookingStore(env).updateStatus('txn-1', {
+      status: 'Denied',
+      expectedStatus: DEFAULT_STATUS,
+      changes: { denialReason: 'Fully booked', ownerNotes: 'Try next week' },
+    });
+
+    expect(mocks.sheetsClient.batchUpdateRanges).toHaveBeenCalledTimes(1);
+    expect(mocks.sheetsClient.updateRange).not.toHaveBeenCalled();
+    expect(mocks.sheetsClient.getUpdatedCells()).toEqual([
+      { range: 'Sheet1!Q2:Q2', values: [['Denied']] },
+      { range: 'Sheet1!V2:V2', values: [['Fully booked']] },
+      { range: 'Sheet1!X2:X2', values: [['Try next week']] },
+    ]);
+  });
+
+  it('appends values under their headers', async () => {
+    const headers = [...MOCK_SHEET_HEADERS].reverse();
+    mocks.sheetsClient = createMockGoogleSheetsClient({ headerRow: headers });
+
+    await new SheetsBookingStore(env).create(newBooking());
+
+    const [row] = mocks.sheetsClient.getAppendedRows();
+    expect(row[headers.indexOf('Transaction ID')]).toBe('txn-1');
+    expect(row[headers.indexOf('Status')]).toBe(DEFAULT_STATUS);
+    expect(row[headers.indexOf('Passengers')]).toBe(2);
+    expect(mocks.sheetsClient.getUpdatedCells()).toEqual([]);
+  });
+
+  it('stores the quote total and itemized quote and reads the quote back', async () => {
+    const quote = {
+      currency: 'USD',
+      distanceMiles: 95,
+      durationMinutes: 105,
+      lines: [{ code: 'base' as const, label: 'Base fare', amount: 2500 }, { code: 'distance' as const, label: 'Distance', amount: 23750 }],
+      total: 26250,
+    };
+    const booking = newBooking();
+    booking.summary.quote = quote;
+    const client = createMockGoogleSheetsClient();
+    mocks.sheetsClient = client;
+
+    await new SheetsBookingStore(env).create(booking);
+
+    const row = client.getAppendedRows()[0];
+    expect(row[MOCK_SHEET_HEADERS.indexOf('Quote Total')]).toBe('$262.50');
+    expect(JSON.parse(String(row[MOCK_SHEET_HEADERS.indexOf('Quote')]))).toEqual(quote);
+
+    mocks.sheetsClient = createMockGoogleSheetsClient({ existingRows: [row as (string | number)[]] });
+    expect((await new SheetsBookingStore(env).getById('txn-1'))?.quote).toEqual(quote);
+  });
+
+  it('reads a booking without a readable quote as unquoted', async () => {
+    mocks.sheetsClient = createMockGoogleSheetsClient({
+      existingRows: [createMockSheetRow({ transactionId: 'txn-1', quote: 'about $200' })],
+    });
+
+    expect((await new SheetsBookingStore(env).getById('txn-1'))?.quote).toBeNull();
+  });
+
+  it('stores the reservation and trip leg and lists the legs of a reservation', async () => {
+    const booking = newBooking();
+    booking.summary.reservationId = 'txn-1';
+    booking.summary.tripLeg = 'outbound';
+    const client = createMockGoogleSheetsClient();
+    mocks.sheetsClient = client;
+
+    await new SheetsBookingStore(env).create(booking);
+
+    const row = client.getAppendedRows()[0];
+    expect(row[MOCK_SHEET_HEADERS.indexOf('Reservation ID')]).toBe('txn-1');
+    expect(row[MOCK_SHEET_HEADERS.indexOf('Trip Leg')]).toBe('outbound');
+
+    mocks.sheetsClient = createMockGoogleSheetsClient({
+      existingRows: [
+        createMockSheetRow({ transactionId: 'txn-2', reservationId: 'txn-1', tripLeg: 'return', pickupDatetime: '2025-02-27T18:00:00Z' }),
+        createMockSheetRow({ transactionId: 'txn-3' }),
+        row as (string | number)[],
+      ],
+    });
+    const legs = await new SheetsBookingStore(env).list({ reservationId: 'txn-1' });
+
+    expect(legs.map(leg => [leg.transactionId, leg.tripLeg])).toEqual([['txn-1', 'outbound'], ['txn-2', 'return']]);
+  });
+
+  it('reads bookings without a trip leg as one-way', async () => {
+    mocks.sheetsClient = createMockGoogleSheetsClient({
+      existingRows: [createMockSheetRow({ transactionId: 'txn-1', tripLeg: 'sideways' })],
+    });
+
+    expect(await new SheetsBookingStore(env).getById('txn-1')).toMatchObject({ reservationId: null, tripLeg: null });
+  });
+
+  it('stores the stops as JSON and reads them back', async () => {
+    const booking = newBooking();
+    booking.summary.stops = [{ address: '200 Market St, Philadelphia, PA', waitMinutes: 15 }, { address: 'Trenton, NJ', waitMinutes: null }];
+    const client = createMockGoogleSheetsClient();
+    mocks.sheetsClient = client;
+
+    await new SheetsBookingStore(env).create(booking);
+
+    const row = client.getAppendedRows()[0];
+    expect(JSON.parse(String(row[MOCK_SHEET_HEADERS.indexOf('Stops')]))).toEqual(booking.summary.stops);
+
+    mocks.sheetsClient = createMockGoogleSheetsClient({ existingRows: [row as (string | number)[]] });
+    expect((await new SheetsBookingStore(env).getById('txn-1'))?.stops).toEqual(booking.summary.stops);
+  });
+
+  it('reads unreadable stops as a direct ride', async () => {
+    mocks.sheetsClient = createMockGoogleSheetsClient({
+      existingRows: [createMockSheetRow({ transactionId: 'txn-1', stops: 'via Trenton' })],
+    });
+
+    expect((await new SheetsBookingStore(env).getById('txn-1'))?.stops).toEqual([]);
+  });
+
+  it('writes the header row on an empty sheet before the first booking', async () => {
+    mocks.sheetsClient = createMockGoogleSheetsClient({ headerRow: null });
+
+    await new SheetsBookingStore(env).create(newBooking());
+
+    const [headerWrite] = mocks.sheetsClient.getUpdatedCells();
+    expect(headerWrite.range).toBe('Sheet1!A1:AI1');
+    expect(headerWrite.values[0]).toEqual(MOCK_SHEET_HEADERS);
+    expect(mocks.sheetsClient.getAppendedRows()[0][0]).toBe('txn-1');
+  });
+
+  it('adds missing optional headers after the last column', async () => {
+    const legacyHeaders = MOCK_SHEET_HEADERS.slice(0, 19);
+    mocks.sheetsClient = createMockGoogleSheetsClient({ headerRow: legacyHeaders });
+
+    await new SheetsBookingStore(env).create(newBooking());
+
+    expect(mocks.sheetsClient.getUpdatedCells()).toEqual([{
+      range: 'Sheet1!T1:AI1',
+      values: [['Reminder Sent At', 'Requested Pickup DateTime', 'Denial Reason', 'Alternative Pickup DateTime', 'Owner Notes', 'Driver ID', 'Vehicle ID', 'Vehicle', 'Quote Total', 'Quote', 'Reservation ID', 'Trip Leg', 'Stops', 'Series ID', 'Recurrence', 'Service Area']],
+    }]);
+  });
+
+  it('fails when a required header is missing', async () => {
+    mocks.sheetsClient = createMockGoogleSheetsClient({
+      headerRow: MOCK_SHEET_HEADERS.filter(h => h !== 'Status'),
+    });
+    const store = new SheetsBookingStore(env);
+
+    await expect(store.getById('txn-1')).rejects.toBeInstanceOf(SheetHeaderError);
+    await expect(store.create(newBooking())).rejects.toThrow('missing required header(s): Status');
+    expect(mocks.sheetsClient.getAppendedRows()).toHaveLength(0);
+  });
+
+  it('fails on data without a header row', async () => {
+    mocks.sheetsClient = createMockGoogleSheetsClient({
+      headerRow: null,
+      existingRows: [['txn-1', 'key', '2025-02-18T10:00:00Z', 'Jane Rider']],
+    });
+
+    await expect(new SheetsBookingStore(env).list()).rejects.toBeInstanceOf(SheetHeaderError);
+  });
+
+  it('quotes tab names that need it', async () => {
+    mocks.sheetsClient = createMockGoogleSheetsClient({ existingRows: [] });
+
+    await new SheetsBookingStore({ ...env, GOOGLE_SHEET_RANGE_PRIMARY: "'Ride Requests'!A:Z" }).list();
+
+    expect(mocks.sheetsClient.readRange).toHaveBeenCalledWith(expect.objectContaining({ range: "'Ride Requests'" }));
+  });
+});
+
+describe('SheetsDriverStore', () => {
+  const DRIVER_HEADERS = ['Driver ID', 'Name', 'Email', 'Phone', 'Active', 'Created At'];
+
+  it('lists drivers from the Drivers tab ordered by name', async () => {
+    mocks.sheetsClient = createMockGoogleSheetsClient({
+      driverRows: [
+        DRIVER_HEADERS,
+        ['drv-2', 'Zoe Park', 'zoe@example.com', '', 'FALSE', '2025-01-02T00:00:00Z'],
+        ['drv-1', 'Alex Reed', 'alex@example.com', '609-555-0111', '', '2025-01-01T00:00:00Z'],
+        ['', '', '', '', '', ''],
+      ],
+    });
+
+    const drivers = await new SheetsDriverStore(env).list();
+
+    expect(drivers).toEqual([
+      { id: 'drv-1', name: 'Alex Reed', email: 'alex@example.com', phone: '609-555-0111', active: true, createdAt: '2025-01-01T00:00:00Z' },
+      { id: 'drv-2', name: 'Zoe Park', email: 'zoe@example.com', phone: null, active: false, createdAt: '2025-01-02T00:00:00Z' },
+    ]);
+    expect(mocks.sheetsClient.readRange).toHaveBeenCalledWith(expect.objectContaining({ range: 'Drivers' }));
+  });
+
+  it('writes the header row on an empty Drivers tab before the first driver', async () => {
+    mocks.sheetsClient = createMockGoogleSheetsClient();
+
+    await new SheetsDriverStore(env).create({
+      id: 'drv-1',
+      name: 'Alex Reed',
+      email: 'alex@example.com',
+      phone: null,
+      active: true,
+      createdAt: '2025-01-01T00:00:00Z',
+    });
+
+    expect(mocks.sheetsClient.getUpdatedCells()).toEqual([{ range: 'Drivers!A1:F1', values: [DRIVER_HEADERS] }]);
+    expect(mocks.sheetsClient.appendRow).toHaveBeenCalledWith(expect.objectContaining({
+      range: 'Drivers',
+      values: ['drv-1', 'Alex Reed', 'alex@example.com', '', 'TRUE', '2025-01-01T00:00:00Z'],
+    }));
+  });
+
+  it('updates only the changed cells', async () => {
+    mocks.sheetsClient = createMockGoogleSheetsClient({
+      driverRows: [DRIVER_HEADERS, ['drv-1', 'Alex Reed', 'alex@example.com', '609-555-0111', 'TRUE', '2025-01-01T00:00:00Z']],
+    });
+    const store = new SheetsDriverStore(env);
+
+    const driver = await store.update('drv-1', { phone: null, active: false });
+
+    expect(driver).toMatchObject({ id: 'drv-1', name: 'Alex Reed', phone: null, active: false });
+    expect(mocks.sheetsClient.getUpdatedCells()).toEqual([
+      { range: 'Drivers!D2:D2', values: [['']] },
+      { range: 'Drivers!E2:E2', values: [['FALSE']] },
+    ]);
+    expect(await store.update('drv-unknown', { active: false })).toBeNull();
+  });
+});
+
+describe('sheet ranges', () => {
+  it('takes the tab from a range', () => {
+    expect(parseSheetTab('Sheet1!A:Z')).toBe('Sheet1');
+    expect(parseSheetTab("'Owner''s Log'!A1:B2")).toBe("Owner's Log");
+    expect(parseSheetTab('Bookings')).toBe('Bookings');
+  });
+
+  it('converts column indices to letters', () => {
+    expect(columnLetter(0)).toBe('A');
+    expect(columnLetter(25)).toBe('Z');
+    expect(columnLetter(26)).toBe('AA');
+    expect(columnLetter(701)).toBe('ZZ');
+    expect(columnLetter(702)).toBe('AAA');
+  });
+});
@@ -0,0 +1,251 @@
+/**
+ * Email Transport Tests
+ *
+ * Provider request formats, error classification, failover and the
+ * EMAIL_PROVIDER / EMAIL_FALLBACK_PROVIDER selection.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  createEmailTransport,
+  getCaptureTransport,
+  CaptureTransport,
+  EmailTransportError,
+  FailoverTransport,
+  PostmarkTransport,
+  ResendTransport,
+  SmtpRelayTransport,
+  type EmailMessage,
+} from '../../../src/integrations/emailTransport';
+
+const message: EmailMessage = {
+  from: 'AC Shuttles <bookings@acshuttles.com>',
+  to: 'jane@example.com',
+  subject: 'Your ride is confirmed',
+  html: '<p>Confirmed</p>',
+  text: 'Confirmed',
+  tags: ['customer-confirmation', 'booking-accepted'],
+};
+
+const invite = {
+  filename: 'invite.ics',
+  content: 'BEGIN:VCALENDAR\r\nSUMMARY:Café\r\nEND:VCALENDAR\r\n',
+  contentType: 'text/calendar; charset=utf-8; method=REQUEST',
+};
+const encodedInvite = btoa(String.fromCharCode(...new TextEncoder().encode(invite.content)));
+
+function jsonResponse(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+function requestBody(fetchMock: ReturnType<typeof vi.fn>, call = 0): Record<string, unknown> {
+  return JSON.parse(fetchMock.mock.calls[call][1].body as string);
+}
+
+describe('ResendTransport', () => {
+  it('posts the message with tags as name/value pairs', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse(200, { id: 'resend-1' }));
+
+    const result = await new ResendTransport('re_key', { fetchImpl: fetchMock }).send(message);
+
+    expect(result).toEqual({ id: 'resend-1', provider: 'resend' });
+    expect(fetchMock.mock.calls[0][0]).toBe('https://api.resend.com/emails');
+    expect(fetchMock.mock.calls[0][1].headers.Authorization).toBe('Bearer re_key');
+    expect(requestBody(fetchMock).tags).toEqual([
+      { name: 'customer-confirmation', value: 'true' },
+      { name: 'booking-accepted', value: 'true' },
+    ]);
+  });
+
+  it('base64-encodes attachments', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse(200, { id: 'resend-1' }));
+
+    await new ResendTransport('re_key', { fetchImpl: fetchMock }).send({ ...message, attachments: [invite] });
+
+    expect(requestBody(fetchMock).attachments).toEqual([
+      { filename: 'invite.ics', content: encodedInvite, content_type: invite.contentType },
+    ]);
+  });
+
+  it('marks 5xx and 429 responses as retryable', async () => {
+    for (const status of [500, 503, 429]) {
+      const fetchMock = vi.fn().mockResolvedValue(jsonResponse(status, { error: 'down' }));
+      const error = await new ResendTransport('re_key', { fetchImpl: fetchMock }).send(message).catch(e => e);
+
+      expect(error).toBeInstanceOf(EmailTransportError);
+      expect(error).toMatchObject({ provider: 'resend', statusCode: status, isRetryable: true });
+    }
+  });
+
+  it('does not retry a rejected message', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse(422, { message: 'Invalid `to` field' }));
+
+    const error = await new ResendTransport('re_key', { fetchImpl: fetchMock }).send(message).catch(e => e);
+
+    expect(error).toMatchObject({ statusCode: 422, isRetryable: false });
+    expect(error.message).toContain('Invalid `to` field');
+  });
+
+  it('treats a timeout as retryable', async () => {
+    const fetchMock = vi.fn().mockImplementation((_url: string, init: RequestInit) =>
+      new Promise((_resolve, reject) => {
+        init.signal!.addEventListener('abort', () => reject(new Error('aborted')));
+      })
+    );
+
+    const error = await new ResendTransport('re_key', { fetchImpl: fetchMock, timeoutMs: 5 }).send(message).catch(e => e);
+
+    expect(error).toMatchObject({ isRetryable: true });
+    expect(error.message).toContain('timed out after 5ms');
+  });
+
+  it('treats a network error as retryable', async () => {
+    const fetchMock = vi.fn().mockRejectedValue(new TypeError('fetch failed'));
+
+    const error = await new ResendTransport('re_key', { fetchImpl: fetchMock }).send(message).catch(e => e);
+
+    expect(error).toMatchObject({ isRetryable: true });
+  });
+});
+
+describe('PostmarkTransport', () => {
+  it('posts in the Postmark format with the first tag', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse(200, { MessageID: 'pm-1', ErrorCode: 0 }));
+
+    const result = await new PostmarkTransport('pm_token', 'transactional', { fetchImpl: fetchMock }).send(message);
+
+    expect(result).toEqual({ id: 'pm-1', provider: 'postmark' });
+    expect(fetchMock.mock.calls[0][0]).toBe('https://api.postmarkapp.com/email');
+    expect(fetchMock.mock.calls[0][1].headers['X-Postmark-Server-Token']).toBe('pm_token');
+    expect(requestBody(fetchMock)).toEqual({
+      From: message.from,
+      To: message.to,
+      Subject: message.subject,
+      HtmlBody: message.html,
+      TextBody: message.text,
+      Tag: 'customer-confirmation',
+      MessageStream: 'transactional',
+    });
+  });
+
+  it('sends attachments in the Postmark format', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse(200, { MessageID: 'pm-1', ErrorCode: 0 }));
+
+    await new PostmarkTransport('pm_token', 'transactional', { fetchImpl: fetchMock })
+      .send({ ...message, attachments: [invite] });
+
+    expect(requestBody(fetchMock).Attachments).toEqual([
+      { Name: 'invite.ics', Content: encodedInvite, ContentType: invite.contentType },
+    ]);
+  });
+});
+
+describe('SmtpRelayTransport', () => {
+  it('posts the message as-is to the relay', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse(202, { messageId: '<abc@relay>' }));
+
+    const result = await new SmtpRelayTransport('https://relay.example.com/send', 'relay_key', { fetchImpl: fetchMock })
+      .send(message);
+
+    expect(result).toEqual({ id: '<abc@relay>', provider: 'smtp_relay' });
+    expect(fetchMock.mock.calls[0][0]).toBe('https://relay.example.com/send');
+    expect(fetchMock.mock.calls[0][1].headers.Authorization).toBe('Bearer relay_key');
+    expect(requestBody(fetchMock)).toEqual(message);
+  });
+});
+
+describe('CaptureTransport', () => {
+  it('records messages instead of sending them', async () => {
+    const transport = new CaptureTransport();
+
+    const first = await transport.send(message);
+    await transport.send({ ...message, to: 'owner@acshuttles.com' });
+
+    expect(first).toEqual({ id: 'capture-1', provider: 'capture' });
+    expect(transport.getSent().map(email => email.to)).toEqual(['jane@example.com', 'owner@acshuttles.com']);
+
+    transport.clear();
+    expect(transport.getSent()).toEqual([]);
+  });
+});
+
+describe('FailoverTransport', () => {
+  function failingTransport(error: Error) {
+    return { name: 'primary', send: vi.fn().mockRejectedValue(error) };
+  }
+
+  it('sends through the secondary when the primary is unavailable', async () => {
+    const secondary = new CaptureTransport();
+    const transport = new FailoverTransport(
+      failingTransport(new EmailTransportError('down', 'primary', 503, true)),
+      secondary
+    );
+
+    const result = await transport.send(message);
+
+    expect(result.provider).toBe('capture');
+    expect(secondary.getSent()).toHaveLength(1);
+  });
+
+  it('does not fail over when the primary rejects the message', async () => {
+    const secondary = new CaptureTransport();
+    const transport = new FailoverTransport(
+      failingTransport(new EmailTransportError('bad address', 'primary', 422, false)),
+      secondary
+    );
+
+    await expect(transport.send(message)).rejects.toThrow('bad address');
+    expect(secondary.getSent()).toHaveLength(0);
+  });
+
+  it('uses the primary when it succeeds', async () => {
+    const secondary = new CaptureTransport();
+    const primary = new CaptureTransport();
+
+    await new FailoverTransport(primary, secondary).send(message);
+
+    expect(primary.getSent()).toHaveLength(1);
+    expect(secondary.getSent()).toHaveLength(0);
+  });
+});
+
+describe('createEmailTransport', () => {
+  beforeEach(() => {
+    getCaptureTransport().clear();
+  });
+
+  it('defaults to Resend', () => {
+    expect(createEmailTransport({ RESEND_API_KEY: 're_key' }).name).toBe('resend');
+  });
+
+  it('selects the configured provider', () => {
+    expect(createEmailTransport({ EMAIL_PROVIDER: 'Postmark', POSTMARK_SERVER_TOKEN: 'pm' }).name).toBe('postmark');
+    expect(createEmailTransport({ EMAIL_PROVIDER: 'smtp_relay', SMTP_RELAY_URL: 'https://relay' }).name).toBe('smtp_relay');
+    expect(createEmailTransport({ EMAIL_PROVIDER: 'capture' })).toBe(getCaptureTransport());
+  });
+
+  it('wraps the provider with failover when a fallback is configured', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse(502, { error: 'bad gateway' }));
+    const transport = createEmailTransport(
+      { RESEND_API_KEY: 're_key', EMAIL_FALLBACK_PROVIDER: 'capture' },
+      fetchMock
+    );
+
+    const result = await transport.send(message);
+
+    expect(transport.name).toBe('resend+capture');
+    expect(result.provider).toBe('capture');
+    expect(getCaptureTransport().getSent()).toHaveLength(1);
+  });
+
+  it('ignores a fallback that is the same provider', () => {
+    expect(createEmailTransport({ RESEND_API_KEY: 're_key', EMAIL_FALLBACK_PROVIDER: 'resend' }).name).toBe('resend');
+  });
+
+  it('rejects unknown providers and missing credentials', () => {
+    expect(() => createEmailTransport({ EMAIL_PROVIDER: 'sendmail' })).toThrow('Unknown email provider: sendmail');
+    expect(() => createEmailTransport({})).toThrow('Email provider resend requires RESEND_API_KEY');
+    expect(() => createEmailTransport({ RESEND_API_KEY: 're_key', EMAIL_FALLBACK_PROVIDER: 'postmark' }))
+      .toThrow('requires POSTMARK_SERVER_TOKEN');
+  });
+});
@@ -16,8 +16,46 @@ import {
   generateCustomerDenialEmail,
   generateCustomerReminderEmail,
   generateOwnerDeliveryNotificationEmail,
+  generateOwnerCancellationEmail,
+  generateOwnerDeliveryFailureEmail,
+  generateOwnerBounceAlertEmail,
+  generateCustomerCancellationEmail,
+  generateDriverAssignmentEmail,
 } from '../../../src/templates/emails';
 
+const QUOTE = {
+  lines: [
+    { label: 'Base fare', amount: '$25.00' },
+    { label: 'Distance (95 mi × $2.50)', amount: '$237.50' },
+    { label: 'Airport fee', amount: '$15.00' },
+  ],
+  total: '$277.50',
+};
+
+const RETURN_TRIP = {
+  pickupDate: 'Friday, February 28, 2025',
+  pickupTime: '6:15 PM',
+  startLocation: 'Newark Liberty International Airport, Newark, NJ',
+  endLocation: '123 Main <Street>, Philadelphia, PA',
+  bookingRef: 'F0E1D2C3B4',
+};
+
+const SERIES = {
+  schedule: 'Weekly on Mon, Wed, 4 rides',
+  rides: [
+    { pickupDate: 'Mon 03/03/2025', pickupTime: '8:00 AM', bookingRef: 'A1B2C3D4E5', cancelUrl: 'https://worker.dev/cancel/first' },
+    { pickupDate: 'Wed 03/05/2025', pickupTime: '8:00 AM', bookingRef: 'B2C3D4E5F6', cancelUrl: 'https://worker.dev/cancel/second' },
+  ],
+  skipped: [
+    { pickupDate: 'Mon 03/10/2025', pickupTime: '8:00 AM', bookingRef: 'C3D4E5F6A7' },
+  ],
+};
+
+const STOPS = [
+  { address: '200 Market <St>, Philadelphia, PA', waitMinutes: 15 },
+  { address: 'Trenton Transit Center, Trenton, NJ', waitMinutes: null },
+];
+
 describe('Customer Submission Acknowledgment Email', () => {
   const baseData = {
     customerName: 'John Doe',
@@ -91,6 +129,54 @@ describe('Customer Submission Acknowledgment Email', () => {
     // Should default to 1 passenger
     expect(html).toContain('>1</p>'); // Looking for the passengers display
   });
+
+  it('shows the estimated fare instead of promising a quote', () => {
+    const { html, text } = generateCustomerSubmissionAckEmail({ ...baseData, quote: QUOTE });
+
+    expect(html).toContain('Estimated Fare');
+    expect(html).toContain('Distance (95 mi × $2.50)');
+    expect(html).toContain('$277.50');
+    expect(html).not.toContain('personalized quote');
+    expect(text).toContain('ESTIMATED FARE\n==============\nBase fare: $25.00\nDistance (95 mi × $2.50): $237.50\nAirport fee: $15.00\nTotal: $277.50');
+    expect(text).toContain('2. Our driver will call or text you to confirm your fare');
+  });
+
+  it('shows the return trip of a round trip', () => {
+    const { html, text } = generateCustomerSubmissionAckEmail({ ...baseData, returnTrip: RETURN_TRIP });
+
+    expect(html).toContain('<!-- Return Trip -->');
+    expect(html).toContain('123 Main &lt;Street&gt;, Philadelphia, PA');
+    expect(html).toContain('F0E1D2C3B4');
+    expect(text).toContain('RETURN TRIP\n===========\nDate: Friday, February 28, 2025\nTime: 6:15 PM');
+    expect(generateCustomerSubmissionAckEmail(baseData).html).not.toContain('Return Trip');
+  });
+
+  it('promises a quote from the driver without pricing', () => {
+    const { html, text } = generateCustomerSubmissionAckEmail(baseData);
+
+    expect(html).not.toContain('Estimated Fare');
+    expect(html).toContain('personalized quote');
+    expect(text).toContain('2. Our driver will call or text you with a trip quote');
+  });
+
+  it('shows the itinerary of a multi-stop ride', () => {
+    const { html, text } = generateCustomerSubmissionAckEmail({ ...baseData, stops: STOPS });
+
+    expect(html).toContain('<!-- Itinerary -->');
+    expect(html).toContain('200 Market &lt;St&gt;, Philadelphia, PA');
+    expect(html).toContain('15 min wait');
+    expect(text).toContain(`ITINERARY\n=========\nPickup: ${baseData.startLocation}\nStop 1: 200 Market <St>, Philadelphia, PA (15 min wait)\nStop 2: Trenton Transit Center, Trenton, NJ\nDrop-off: ${baseData.endLocation}`);
+    expect(generateCustomerSubmissionAckEmail(baseData).html).not.toContain('<!-- Itinerary -->');
+  });
+
+  it('lists every requested ride of a recurring series', () => {
+    const { html, text } = generateCustomerSubmissionAckEmail({ ...baseData, series: { ...SERIES, skipped: undefined } });
+
+    expect(html).toContain('<!-- Series -->');
+    expect(html).toContain('Weekly on Mon, Wed, 4 rides');
+    expect(text).toContain('REQUESTED RIDES\n===============\nSchedule: Weekly on Mon, Wed, 4 rides\nMon 03/03/2025 at 8:00 AM (Ref A1B2C3D4E5)');
+    expect(generateCustomerSubmissionAckEmail(baseData).html).not.toContain('<!-- Series -->');
+  });
 });
 
 describe('Owner Notification Email', () => {
@@ -172,6 +258,154 @@ describe('Owner Notification Email', () => {
     expect(html).not.toContain('<img src');
     expect(html).toContain('&lt;script&gt;');
   });
+
+  it('shows current vs requested time for a reschedule request', () => {
+    const { html, text } = generateOwnerNotificationEmail({
+      ...baseData,
+      acceptUrl: 'https://worker.dev/approve-reschedule/tok1',
+      denyUrl: 'https://worker.dev/decline-reschedule/tok2',
+      reschedule: { previousPickupDate: 'March 14, 2025', previousPickupTime: '9:00 AM' },
+    });
+
+    expect(html).toContain('Reschedule Request');
+    expect(html).toContain('Currently Booked');
+    expect(html).toContain('March 14, 2025 at 9:00 AM');
+    expect(html).toContain('New Date');
+    expect(html).toContain('March 15, 2025');
+    expect(html).toContain('Approve New Time');
+    expect(html).toContain('Keep Original Time');
+    expect(html).not.toContain('Confirm Ride');
+    expect(text).toContain('Currently booked: March 14, 2025 at 9:00 AM');
+    expect(text).toContain('Approve New Time: https://worker.dev/approve-reschedule/tok1');
+  });
+
+  it('lists accepted rides that overlap this one', () => {
+    const { html, text } = generateOwnerNotificationEmail({
+      ...baseData,
+      conflicts: [{
+        customerName: 'Sam <Lee>',
+        pickupDate: 'March 15, 2025',
+        pickupTime: '1:30 PM',
+        busyUntil: '2:45 PM',
+        startLocation: '12 Pine St, Camden, NJ',
+        endLocation: 'Philadelphia Airport',
+        bookingRef: 'DEF456GHI',
+      }],
+    });
+
+    expect(html).toContain('Schedule Conflict');
+    expect(html).toContain('This ride overlaps an accepted ride:');
+    expect(html).toContain('March 15, 2025 1:30 PM &ndash; 2:45 PM');
+    expect(html).toContain('Sam &lt;Lee&gt; (DEF456GHI)');
+    expect(html).toContain('Philadelphia Airport');
+    expect(text).toContain('SCHEDULE CONFLICT');
+    expect(text).toContain('- March 15, 2025 1:30 PM - 2:45 PM: Sam <Lee> (DEF456GHI), 12 Pine St, Camden, NJ → Philadelphia Airport');
+  });
+
+  it('omits the conflict warning when nothing overlaps', () => {
+    const { html, text } = generateOwnerNotificationEmail({ ...baseData, conflicts: [] });
+
+    expect(html).not.toContain('Schedule Conflict');
+    expect(text).not.toContain('SCHEDULE CONFLICT');
+  });
+
+  it('suggests a vehicle and flags an over-capacity request', () => {
+    const { html, text } = generateOwnerNotificationEmail({
+      ...baseData,
+      vehicleName: 'Mercedes Sprinter',
+      vehicleCapacity: '14 seats · 12 bags',
+      capacityWarning: '40 passengers is more than your largest vehicle seats (14).',
+    });
+
+    expect(html).toContain('Suggested Vehicle');
+    expect(html).toContain('Mercedes Sprinter');
+    expect(html).toContain('Over Capacity');
+    expect(text).toContain('Suggested Vehicle: Mercedes Sprinter (14 seats · 12 bags)');
+    expect(text).toContain('OVER CAPACITY\n=============\n40 passengers is more than your largest vehicle seats (14).');
+  });
+
+  it('omits the vehicle and capacity sections without a fleet', () => {
+    const { html, text } = generateOwnerNotificationEmail(baseData);
+
+    expect(html).not.toContain('Suggested Vehicle');
+    expect(html).not.toContain('Over Capacity');
+    expect(text).not.toContain('OVER CAPACITY');
+  });
+
+  it('flags a trip outside the service area above the summary', () => {
+    const { html, text } = generateOwnerNotificationEmail({
+      ...baseData,
+      serviceAreaWarning: { title: 'Outside Service Area', message: 'Neither the pickup nor the drop-off is in one of your service zones.' },
+    });
+
+    expect(html).toContain('&#9888; Outside Service Area');
+    expect(html).toContain('Neither the pickup nor the drop-off is in one of your service zones.');
+    expect(text).toContain('OUTSIDE SERVICE AREA\n====================\nNeither the pickup nor the drop-off');
+    expect(text.indexOf('OUTSIDE SERVICE AREA')).toBeLessThan(text.indexOf('QUICK SUMMARY'));
+    expect(generateOwnerNotificationEmail(baseData).html).not.toContain('Service Area');
+  });
+
+  it('itemizes the quoted fare', () => {
+    const { html, text } = generateOwnerNotificationEmail({ ...baseData, quote: QUOTE });
+
+    expect(html).toContain('Quoted Fare');
+    expect(html).toContain('Airport fee');
+    expect(html).toContain('$277.50');
+    expect(text).toContain('QUOTED FARE\n===========\nBase fare: $25.00');
+    expect(text).toContain('Total: $277.50');
+  });
+
+  it('omits the quote without pricing', () => {
+    const { html, text } = generateOwnerNotificationEmail(baseData);
+
+    expect(html).not.toContain('Quoted Fare');
+    expect(text).not.toContain('QUOTED FARE');
+  });
+
+  it('covers both legs of a round trip with an accept-outbound-only action', () => {
+    const { html, text } = generateOwnerNotificationEmail({
+      ...baseData,
+      returnTrip: RETURN_TRIP,
+      acceptOutboundOnlyUrl: 'https://worker.dev/accept/txn123?legs=outbound',
+    });
+
+    expect(html).toContain('New Round-Trip Request');
+    expect(html).toContain('<!-- Return Trip -->');
+    expect(html).toContain('Accept Both Rides');
+    expect(html).toContain('href="https://worker.dev/accept/txn123?legs=outbound"');
+    expect(html).toContain('Decline Both Rides');
+    expect(text).toContain('RETURN TRIP\n===========');
+    expect(text).toContain('Accept Both Rides: https://worker.dev/accept/txn123\nAccept Outbound Only: https://worker.dev/accept/txn123?legs=outbound\nDecline Both Rides: ');
+  });
+
+  it('offers a single accept action for a one-way ride', () => {
+    const { html, text } = generateOwnerNotificationEmail(baseData);
+
+    expect(html).toContain('New Booking Request');
+    expect(html).not.toContain('Accept Outbound Only');
+    expect(text).not.toContain('RETURN TRIP');
+  });
+
+  it('shows the itinerary of a multi-stop ride', () => {
+    const { html, text } = generateOwnerNotificationEmail({ ...baseData, stops: STOPS });
+
+    expect(html).toContain('<!-- Itinerary -->');
+    expect(html).toContain('200 Market &lt;St&gt;, Philadelphia, PA');
+    expect(html).toContain('15 min wait');
+    expect(text).toContain(`ITINERARY\n=========\nPickup: ${baseData.startLocation}\nStop 1: 200 Market <St>, Philadelphia, PA (15 min wait)\nStop 2: Trenton Transit Center, Trenton, NJ\nDrop-off: ${baseData.endLocation}`);
+    expect(generateOwnerNotificationEmail(baseData).html).not.toContain('<!-- Itinerary -->');
+  });
+
+  it('covers every ride of a recurring series with one decision', () => {
+    const { html, text } = generateOwnerNotificationEmail({ ...baseData, series: { ...SERIES, skipped: undefined } });
+
+    expect(html).toContain('New Recurring Booking Request');
+    expect(html).toContain('<!-- Series -->');
+    expect(html).toContain('Accept Series');
+    expect(html).toContain('Decline Series');
+    expect(text).toContain('Schedule: Weekly on Mon, Wed, 4 rides');
+    expect(text).toContain('Wed 03/05/2025 at 8:00 AM (Ref B2C3D4E5F6)');
+  });
 });
 
 describe('Customer Confirmation Email', () => {
@@ -250,6 +484,99 @@ describe('Customer Confirmation Email', () => {
 
     expect(html).not.toContain('View Route on Maps');
   });
+
+  it('includes the self-service cancel link when provided', () => {
+    const cancelUrl = 'https://worker.example.com/cancel/v1.abc.def.ghi';
+    const { html, text } = generateCustomerConfirmationEmail({ ...baseData, cancelUrl });
+
+    expect(html).toContain(`href="${cancelUrl}"`);
+    expect(html).toContain('Cancel this booking');
+    expect(text).toContain(`Cancel this booking: ${cancelUrl}`);
+  });
+
+  it('includes the reschedule link next to the cancel link', () => {
+    const cancelUrl = 'https://worker.example.com/cancel/v1.abc.def.ghi';
+    const rescheduleUrl = 'https://worker.example.com/reschedule/v1.abc.def.jkl';
+    const { html, text } = generateCustomerConfirmationEmail({ ...baseData, cancelUrl, rescheduleUrl });
+
+    expect(html).toContain(`href="${rescheduleUrl}"`);
+    expect(html).toContain('Change pickup time');
+    expect(text).toContain(`Change pickup time: ${rescheduleUrl}`);
+    expect(text).toContain(`Cancel this booking: ${cancelUrl}`);
+  });
+
+  it('omits the cancel link when not provided', () => {
+    const { html, text } = generateCustomerConfirmationEmail(baseData);
+
+    expect(html).not.toContain('Cancel this booking');
+    expect(text).not.toContain('Cancel this booking');
+  });
+
+  it('shows the assigned vehicle when provided', () => {
+    const { html, text } = generateCustomerConfirmationEmail({
+      ...baseData,
+      vehicleName: 'Cadillac <Escalade>',
+      vehicleCapacity: '6 seats · 5 bags',
+    });
+
+    expect(html).toContain('Your Vehicle');
+    expect(html).toContain('Cadillac &lt;Escalade&gt;');
+    expect(html).toContain('6 seats · 5 bags');
+    expect(text).toContain('YOUR VEHICLE\n============\nCadillac <Escalade> (6 seats · 5 bags)');
+  });
+
+  it('omits the vehicle section when none was assigned', () => {
+    const { html, text } = generateCustomerConfirmationEmail(baseData);
+
+    expect(html).not.toContain('Your Vehicle');
+    expect(text).not.toContain('YOUR VEHICLE');
+  });
+
+  it('shows the fare when the booking was quoted', () => {
+    const { html, text } = generateCustomerConfirmationEmail({
+      ...baseData,
+      quote: { lines: [{ label: 'Night <rate>', amount: '$10.00' }], total: '$10.00' },
+    });
+
+    expect(html).toContain('Your Fare');
+    expect(html).toContain('Night &lt;rate&gt;');
+    expect(text).toContain('YOUR FARE\n=========\nNight <rate>: $10.00\nTotal: $10.00');
+  });
+
+  it('shows a confirmed return trip', () => {
+    const { html, text } = generateCustomerConfirmationEmail({ ...baseData, returnTrip: RETURN_TRIP });
+
+    expect(html).toContain('Return Trip - Confirmed');
+    expect(text).toContain('RETURN TRIP - CONFIRMED\n=======================\nDate: Friday, February 28, 2025');
+  });
+
+  it('explains a declined return trip', () => {
+    const { html, text } = generateCustomerConfirmationEmail({ ...baseData, returnTrip: RETURN_TRIP, returnTripDeclined: true });
+
+    expect(html).toContain('Return Trip - Not Available');
+    expect(html).toContain('We can&#39;t offer this return ride');
+    expect(text).toContain("We can't offer this return ride.");
+  });
+
+  it('shows the itinerary of a multi-stop ride', () => {
+    const { html, text } = generateCustomerConfirmationEmail({ ...baseData, stops: STOPS });
+
+    expect(html).toContain('<!-- Itinerary -->');
+    expect(html).toContain('200 Market &lt;St&gt;, Philadelphia, PA');
+    expect(html).toContain('15 min wait');
+    expect(text).toContain(`ITINERARY\n=========\nPickup: ${baseData.startLocation}\nStop 1: 200 Market <St>, Philadelphia, PA (15 min wait)\nStop 2: Trenton Transit Center, Trenton, NJ\nDrop-off: ${baseData.endLocation}`);
+    expect(generateCustomerConfirmationEmail(baseData).html).not.toContain('<!-- Itinerary -->');
+  });
+
+  it('lists the confirmed rides of a series with their cancel links and the skipped dates', () => {
+    const { html, text } = generateCustomerConfirmationEmail({ ...baseData, series: SERIES });
+
+    expect(html).toContain('Your Recurring Rides');
+    expect(html).toContain('href="https://worker.dev/cancel/second"');
+    expect(html).toContain('Not included');
+    expect(text).toContain('Wed 03/05/2025 at 8:00 AM (Ref B2C3D4E5F6) - Cancel: https://worker.dev/cancel/second');
+    expect(text).toContain('Mon 03/10/2025: not included');
+  });
 });
 
 describe('Customer Denial Email', () => {
@@ -309,6 +636,97 @@ describe('Customer Denial Email', () => {
     expect(text).toContain('scheduling conflicts');
     expect(text).toContain('DEN789');
   });
+
+  it('suggests an alternative time with a booking link', () => {
+    const { html, text } = generateCustomerDenialEmail({
+      ...baseData,
+      alternativePickupDate: 'May 11, 2025',
+      alternativePickupTime: '9:00 AM',
+      alternativeBookingUrl: 'https://worker.example.com/book-alternative/v1.abc',
+    });
+
+    expect(html).toContain('How about May 11, 2025 at 9:00 AM?');
+    expect(html).toContain('href="https://worker.example.com/book-alternative/v1.abc"');
+    expect(html).toContain('Book This Instead');
+    expect(text).toContain('We can do May 11, 2025 at 9:00 AM instead.');
+    expect(text).toContain('Book this instead: https://worker.example.com/book-alternative/v1.abc');
+  });
+
+  it('omits the alternative block when no time is suggested', () => {
+    const { html, text } = generateCustomerDenialEmail(baseData);
+
+    expect(html).not.toContain('Book This Instead');
+    expect(text).not.toContain('HOW ABOUT A DIFFERENT TIME?');
+  });
+
+  it('shows the itinerary of a multi-stop ride', () => {
+    const { html, text } = generateCustomerDenialEmail({ ...baseData, stops: STOPS });
+
+    expect(html).toContain('<!-- Itinerary -->');
+    expect(html).toContain('200 Market &lt;St&gt;, Philadelphia, PA');
+    expect(html).toContain('15 min wait');
+    expect(text).toContain(`ITINERARY\n=========\nPickup: ${baseData.startLocation}\nStop 1: 200 Market <St>, Philadelphia, PA (15 min wait)\nStop 2: Trenton Transit Center, Trenton, NJ\nDrop-off: ${baseData.endLocation}`);
+    expect(generateCustomerDenialEmail(baseData).html).not.toContain('<!-- Itinerary -->');
+  });
+});
+
+describe('Customer Cancellation Email', () => {
+  const baseData = {
+    customerName: 'Dana Lee',
+    customerEmail: 'dana@example.com',
+    startLocation: '12 Elm St, Trenton, NJ',
+    endLocation: 'Philadelphia Airport, PA',
+    pickupTime: '6:15 AM',
+    pickupDate: 'May 2, 2025',
+    bookingRef: 'CAN456',
+    contactPhone: '(609) 555-0123',
+    contactEmail: 'contact@acshuttles.com',
+  };
+
+  it('generates HTML with cancellation indicator and trip summary', () => {
+    const { html } = generateCustomerCancellationEmail(baseData);
+
+    expect(html).toContain('Your Ride is Cancelled');
+    expect(html).toContain('Dana Lee');
+    expect(html).toContain('12 Elm St, Trenton, NJ');
+    expect(html).toContain('6:15 AM on May 2, 2025');
+    expect(html).toContain('CAN456');
+    expect(html).toContain('(609) 555-0123');
+  });
+
+  it('generates plain text with contact details', () => {
+    const { text } = generateCustomerCancellationEmail(baseData);
+
+    expect(text).toContain('BOOKING CANCELLED');
+    expect(text).toContain('Booking Ref: CAN456');
+    expect(text).toContain('Phone: (609) 555-0123');
+    expect(text).toContain('Email: contact@acshuttles.com');
+  });
+
+  it('escapes user input in HTML', () => {
+    const { html } = generateCustomerCancellationEmail({ ...baseData, customerName: '<script>alert(1)</script>' });
+
+    expect(html).not.toContain('<script>alert(1)</script>');
+    expect(html).toContain('&lt;script&gt;');
+  });
+
+  it('shows the itinerary of a multi-stop ride', () => {
+    const { html, text } = generateCustomerCancellationEmail({ ...baseData, stops: STOPS });
+
+    expect(html).toContain('<!-- Itinerary -->');
+    expect(html).toContain('200 Market &lt;St&gt;, Philadelphia, PA');
+    expect(html).toContain('15 min wait');
+    expect(text).toContain(`ITINERARY\n=========\nPickup: ${baseData.startLocation}\nStop 1: 200 Market <St>, Philadelphia, PA (15 min wait)\nStop 2: Trenton Transit Center, Trenton, NJ\nDrop-off: ${baseData.endLocation}`);
+    expect(generateCustomerCancellationEmail(baseData).html).not.toContain('<!-- Itinerary -->');
+  });
+
+  it('lists the series rides still booked', () => {
+    const { html, text } = generateCustomerCancellationEmail({ ...baseData, series: { ...SERIES, skipped: undefined } });
+
+    expect(html).toContain('Still Booked in This Series');
+    expect(text).toContain('Mon 03/03/2025 at 8:00 AM (Ref A1B2C3D4E5)');
+    expect(text).not.toContain('No rides remain');
+  });
 });
 
 describe('Customer Reminder Email', () => {
@@ -360,6 +778,16 @@ describe('Customer Reminder Email', () => {
     expect(text).toContain('Steve Driver');
     expect(text).toContain('REM123');
   });
+
+  it('shows the itinerary of a multi-stop ride', () => {
+    const { html, text } = generateCustomerReminderEmail({ ...baseData, stops: STOPS });
+
+    expect(html).toContain('<!-- Itinerary -->');
+    expect(html).toContain('200 Market &lt;St&gt;, Philadelphia, PA');
+    expect(html).toContain('15 min wait');
+    expect(text).toContain(`ITINERARY\n=========\nPickup: ${baseData.startLocation}\nStop 1: 200 Market <St>, Philadelphia, PA (15 min wait)\nStop 2: Trenton Transit Center, Trenton, NJ\nDrop-off: ${baseData.endLocation}`);
+    expect(generateCustomerReminderEmail(baseData).html).not.toContain('<!-- Itinerary -->');
+  });
 });
 
 describe('Owner Delivery Notification Email', () => {
@@ -412,6 +840,248 @@ describe('Owner Delivery Notification Email', () => {
     expect(text).toContain('Diana Evans');
     expect(text).toContain('DEL456');
   });
+
+  it('shows the itinerary of a multi-stop ride', () => {
+    const { html, text } = generateOwnerDeliveryNotificationEmail({ ...baseData, stops: STOPS });
+
+    expect(html).toContain('<!-- Itinerary -->');
+    expect(html).toContain('200 Market &lt;St&gt;, Philadelphia, PA');
+    expect(html).toContain('15 min wait');
+    expect(text).toContain(`ITINERARY\n=========\nPickup: ${baseData.startLocation}\nStop 1: 200 Market <St>, Philadelphia, PA (15 min wait)\nStop 2: Trenton Transit Center, Trenton, NJ\nDrop-off: ${baseData.endLocation}`);
+    expect(generateOwnerDeliveryNotificationEmail(baseData).html).not.toContain('<!-- Itinerary -->');
+  });
+});
+
+describe('Owner Cancellation Email', () => {
+  const baseData = {
+    customerName: 'Frank Green',
+    customerEmail: 'frank@example.com',
+    customerPhone: '(609) 555-7777',
+    startLocation: '12 Shore Rd, Margate, NJ',
+    endLocation: 'Philadelphia International Airport',
+    pickupTime: '5:30 AM',
+    pickupDate: 'August 2, 2025',
+    passengers: '2',
+    previousStatus: 'Accepted',
+    reason: 'Flight was cancelled',
+    cancelledAt: '2025-07-30T14:00:00Z',
+    bookingRef: 'CAN789',
+    transactionId: 'txn-cancel-123',
+  };
+
+  it('generates HTML with cancellation indicator and reason', () => {
+    const { html } = generateOwnerCancellationEmail(baseData);
+
+    expect(html).toContain('BOOKING CANCELLED');
+    expect(html).toContain('#ef4444'); // Red indicator color
+    expect(html).toContain('Frank Green');
+    expect(html).toContain('(609) 555-7777');
+    expect(html).toContain('Flight was cancelled');
+    expect(html).toContain('Accepted');
+    expect(html).toContain('CAN789');
+  });
+
+  it('omits the reason section when none was given', () => {
+    const { html, text } = generateOwnerCancellationEmail({ ...baseData, reason: undefined });
+
+    expect(html).not.toContain('Reason Given');
+    expect(text).not.toContain('REASON GIVEN');
+  });
+
+  it('escapes HTML in the customer reason', () => {
+    const { html } = generateOwnerCancellationEmail({ ...baseData, reason: '<script>alert(1)</script>' });
+
+    expect(html).not.toContain('<script>alert(1)</script>');
+    expect(html).toContain('&lt;script&gt;');
+  });
+
+  it('generates plain text with trip and cancellation details', () => {
+    const { text } = generateOwnerCancellationEmail(baseData);
+
+    expect(text).toContain('BOOKING CANCELLED');
+    expect(text).toContain('Flight was cancelled');
+    expect(text).toContain('12 Shore Rd, Margate, NJ');
+    expect(text).toContain('Previous Status: Accepted');
+    expect(text).toContain('txn-cancel-123');
+  });
+
+  it('shows the itinerary of a multi-stop ride', () => {
+    const { html, text } = generateOwnerCancellationEmail({ ...baseData, stops: STOPS });
+
+    expect(html).toContain('<!-- Itinerary -->');
+    expect(html).toContain('200 Market &lt;St&gt;, Philadelphia, PA');
+    expect(html).toContain('15 min wait');
+    expect(text).toContain(`ITINERARY\n=========\nPickup: ${baseData.startLocation}\nStop 1: 200 Market <St>, Philadelphia, PA (15 min wait)\nStop 2: Trenton Transit Center, Trenton, NJ\nDrop-off: ${baseData.endLocation}`);
+    expect(generateOwnerCancellationEmail(baseData).html).not.toContain('<!-- Itinerary -->');
+  });
+
+  it('notes when no rides of the series remain', () => {
+    const { html, text } = generateOwnerCancellationEmail({ ...baseData, series: { schedule: SERIES.schedule, rides: [] } });
+
+    expect(html).toContain('Still Booked in This Series');
+    expect(html).toContain('No rides remain in this series.');
+    expect(text).toContain('STILL BOOKED IN THIS SERIES');
+  });
+});
+
+describe('Owner Delivery Failure Email', () => {
+  const baseData = {
+    recipient: 'grace@example.com',
+    subject: '✅ Your AC Shuttles Booking is Confirmed!',
+    attempts: 5,
+    lastError: 'Resend API error (503): Service Unavailable',
+    firstQueuedAt: '2025-07-30T14:00:00Z',
+    bookingRef: 'FAIL123',
+    transactionId: 'txn-fail-123',
+  };
+
+  it('generates HTML with the failed email and last error', () => {
+    const { html } = generateOwnerDeliveryFailureEmail(baseData);
+
+    expect(html).toContain('EMAIL NOT DELIVERED');
+    expect(html).toContain('#ef4444'); // Red indicator color
+    expect(html).toContain('grace@example.com');
+    expect(html).toContain('after 5 attempts');
+    expect(html).toContain('Service Unavailable');
+    expect(html).toContain('FAIL123');
+  });
+
+  it('omits the booking rows for an email without a booking', () => {
+    const { html, text } = generateOwnerDeliveryFailureEmail({ ...baseData, bookingRef: undefined, transactionId: undefined });
+
+    expect(html).not.toContain('Booking Ref:');
+    expect(text).not.toContain('Booking Ref:');
+  });
+
+  it('escapes HTML in the provider error', () => {
+    const { html } = generateOwnerDeliveryFailureEmail({ ...baseData, lastError: '<html>Bad Gateway</html>' });
+
+    expect(html).not.toContain('<html>Bad Gateway</html>');
+    expect(html).toContain('&lt;html&gt;');
+  });
+
+  it('generates plain text with the email details', () => {
+    const { text } = generateOwnerDeliveryFailureEmail({ ...baseData, attempts: 1 });
+
+    expect(text).toContain('EMAIL NOT DELIVERED');
+    expect(text).toContain('after 1 attempt.');
+    expect(text).toContain('To: grace@example.com');
+    expect(text).toContain('Transaction: txn-fail-123');
+  });
+});
+
+describe('Owner Bounce Alert Email', () => {
+  const baseData = {
+    customerName: 'Henry Ford',
+    customerEmail: 'henry@example.invalid',
+    customerPhone: '609-555-0142',
+    subject: '✅ Your AC Shuttles Booking is Confirmed!',
+    bounceMessage: 'Recipient address rejected: user unknown',
+    bouncedAt: '2025-07-30T14:05:00Z',
+    pickupDate: 'Friday, August 1',
+    pickupTime: '9:00 AM',
+    bookingRef: 'BOUNCE123',
+    transactionId: 'txn-bounce-123',
+  };
+
+  it('generates HTML with a call link to the customer', () => {
+    const { html } = generateOwnerBounceAlertEmail(baseData);
+
+    expect(html).toContain('EMAIL BOUNCED');
+    expect(html).toContain('#ef4444'); // Red indicator color
+    expect(html).toContain('href="tel:609-555-0142"');
+    expect(html).toContain('henry@example.invalid');
+    expect(html).toContain('user unknown');
+    expect(html).toContain('BOUNCE123');
+  });
+
+  it('says when there is no phone number to call', () => {
+    const { html, text } = generateOwnerBounceAlertEmail({ ...baseData, customerPhone: null });
+
+    expect(html).not.toContain('tel:');
+    expect(html).toContain('No phone number on file');
+    expect(text).toContain('Phone: No phone number on file');
+  });
+
+  it('escapes HTML in the bounce message', () => {
+    const { html } = generateOwnerBounceAlertEmail({ ...baseData, bounceMessage: '<b>550</b> rejected' });
+
+    expect(html).not.toContain('<b>550</b>');
+    expect(html).toContain('&lt;b&gt;550&lt;/b&gt;');
+  });
+
+  it('generates plain text with the customer and trip details', () => {
+    const { text } = generateOwnerBounceAlertEmail(baseData);
+
+    expect(text).toContain('EMAIL BOUNCED');
+    expect(text).toContain('Phone: 609-555-0142');
+    expect(text).toContain('Pickup: Friday, August 1 at 9:00 AM');
+    expect(text).toContain('Transaction: txn-bounce-123');
+  });
+});
+
+describe('Driver Assignment Email', () => {
+  const baseData = {
+    driverName: 'Alex Reed',
+    customerName: 'Helen Park',
+    customerPhone: '(609) 555-4444',
+    startLocation: '8 Ocean Ave, Ventnor, NJ',
+    endLocation: 'Atlantic City International Airport',
+    pickupTime: '6:15 AM',
+    pickupDate: 'September 3, 2025',
+    passengers: '3',
+    estimatedDuration: '25 mins',
+    estimatedDistance: '14 miles',
+    notes: 'Two large suitcases',
+    mapUrl: 'https://www.google.com/maps/dir/?api=1&origin=8+Ocean+Ave',
+    bookingRef: 'JOB456',
+  };
+
+  it('generates HTML with the job indicator, trip and customer contact', () => {
+    const { html } = generateDriverAssignmentEmail(baseData);
+
+    expect(html).toContain('NEW JOB');
+    expect(html).toContain('Hi Alex Reed');
+    expect(html).toContain('6:15 AM');
+    expect(html).toContain('8 Ocean Ave, Ventnor, NJ');
+    expect(html).toContain('tel:(609) 555-4444');
+    expect(html).toContain('Two large suitcases');
+    expect(html).toContain('JOB456');
+  });
+
+  it('links to the route in Google Maps', () => {
+    const { html, text } = generateDriverAssignmentEmail(baseData);
+
+    expect(html).toContain('href="https://www.google.com/maps/dir/?api=1&amp;origin=8+Ocean+Ave"');
+    expect(html).toContain('Open Route in Google Maps');
+    expect(text).toContain('Route: https://www.google.com/maps/dir/?api=1&origin=8+Ocean+Ave');
+  });
+
+  it('omits the map button, phone and notes when missing', () => {
+    const { html, text } = generateDriverAssignmentEmail({ ...baseData, mapUrl: undefined, customerPhone: null, notes: null });
+
+    expect(html).not.toContain('Open Route in Google Maps');
+    expect(html).not.toContain('tel:');
+    expect(html).not.toContain('Customer Notes');
+    expect(text).not.toContain('CUSTOMER NOTES');
+  });
+
+  it('escapes HTML in customer input', () => {
+    const { html } = generateDriverAssignmentEmail({ ...baseData, notes: '<img src=x onerror=alert(1)>' });
+
+    expect(html).not.toContain('<img src=x');
+    expect(html).toContain('&lt;img src=x');
+  });
+
+  it('shows the itinerary of a multi-stop ride', () => {
+    const { html, text } = generateDriverAssignmentEmail({ ...baseData, stops: STOPS });
+
+    expect(html).toContain('<!-- Itinerary -->');
+    expect(html).toContain('200 Market &lt;St&gt;, Philadelphia, PA');
+    expect(html).toContain('15 min wait');
+    expect(text).toContain(`ITINERARY\n=========\nPickup: ${baseData.startLocation}\nStop 1: 200 Market <St>, Philadelphia, PA (15 min wait)\nStop 2: Trenton Transit Center, Trenton, NJ\nDrop-off: ${baseData.endLocation}`);
+    expect(generateDriverAssignmentEmail(baseData).html).not.toContain('<!-- Itinerary -->');
+  });
 });
 
 describe('Email Template Dark Mode Support', () => {
@@ -6,6 +6,7 @@
  * - Date/time formatting
  * - HTML escaping
  * - Address parsing
+ * - Duration parsing
  */
 
 import { describe, it, expect } from 'vitest';
@@ -16,6 +17,7 @@ import {
   formatTicketTime,
   parseAddress,
   escapeHtml,
+  parseDurationMinutes,
 } from '../../../src/templates/emails/utils';
 
 describe('generateLocationCode', () => {
@@ -81,6 +83,23 @@ describe('formatPickupDateTime', () => {
     // Should contain time
     expect(result.time).toMatch(/\d{1,2}:\d{2}/);
   });
+
+  it('shows a UTC time in the business timezone', () => {
+    expect(formatPickupDateTime('2025-01-15T19:00:00Z')).toEqual({ date: '01/15/2025', time: '2:00 PM' });
+    expect(formatPickupDateTime('2025-07-15T19:00:00Z')).toEqual({ date: '07/15/2025', time: '3:00 PM' });
+  });
+
+  it('moves to the previous day when the zone is behind UTC', () => {
+    expect(formatPickupDateTime('2025-01-16T03:30:00Z')).toEqual({ date: '01/15/2025', time: '10:30 PM' });
+  });
+
+  it('uses the given timezone', () => {
+    expect(formatPickupDateTime('2025-01-15T19:00:00Z', 'America/Los_Angeles')).toEqual({ date: '01/15/2025', time: '11:00 AM' });
+  });
+
+  it('shows a time without an offset as written', () => {
+    expect(formatPickupDateTime('2025-03-09T01:30', 'America/Los_Angeles')).toEqual({ date: '03/09/2025', time: '1:30 AM' });
+  });
 });
 
 describe('formatTicketDate', () => {
@@ -99,6 +118,10 @@ describe('formatTicketDate', () => {
     // Should contain day number 25
     expect(result).toContain('25');
   });
+
+  it('uses the business timezone date for late-evening pickups', () => {
+    expect(formatTicketDate('2025-12-26T02:00:00Z')).toBe('THU, DEC 25');
+  });
 });
 
 describe('formatTicketTime', () => {
@@ -117,6 +140,10 @@ describe('formatTicketTime', () => {
     // Should be formatted as time
     expect(result).toMatch(/\d{1,2}/);
   });
+
+  it('reads a time without an offset in the given timezone', () => {
+    expect(formatTicketTime('2025-04-20T15:45', 'America/Chicago')).toBe('3:45 PM');
+  });
 });
 
 describe('parseAddress', () => {
@@ -146,6 +173,12 @@ describe('parseAddress', () => {
 
     expect(result).toBeDefined();
   });
+
+  it('reads the city and state without a zip code or with a trailing country', () => {
+    expect(parseAddress('Philadelphia, PA')).toEqual({ street: '', city: 'Philadelphia', state: 'PA', zipCode: '' });
+    expect(parseAddress('1 Market St, Camden, NJ 08102, USA')).toEqual({ street: '1 Market St', city: 'Camden', state: 'NJ', zipCode: '08102' });
+    expect(parseAddress('Philadelphia International Airport').city).toBe('');
+  });
 });
 
 describe('escapeHtml', () => {
@@ -203,3 +236,20 @@ describe('escapeHtml', () => {
     });
   });
 });
+
+describe('parseDurationMinutes', () => {
+  it('parses minutes', () => {
+    expect(parseDurationMinutes('45 minutes')).toBe(45);
+    expect(parseDurationMinutes('45 mins')).toBe(45);
+  });
+
+  it('adds hours to minutes', () => {
+    expect(parseDurationMinutes('1 hour 45 minutes')).toBe(105);
+    expect(parseDurationMinutes('2 hrs')).toBe(120);
+  });
+
+  it('falls back to 30 minutes when there is no number', () => {
+    expect(parseDurationMinutes('')).toBe(30);
+    expect(parseDurationMinutes('unknown')).toBe(30);
+  });
+});
@@ -309,6 +309,41 @@ describe('GoogleSheetsClient', () => {
     });
   });
 
+  describe('batchUpdateRanges', () => {
+    it('writes every range in one request', async () => {
+      const mockFetch = createMockFetch([
+        { ok: true, status: 200, body: { totalUpdatedCells: 2 } },
+      ]);
+
+      const client = createMockedClient({ fetchImpl: mockFetch });
+      const data = [
+        { range: 'Sheet1!Q5:Q5', values: [['Denied']] },
+        { range: 'Sheet1!V5:V5', values: [['Fully booked']] },
+      ];
+
+      await client.batchUpdateRanges({ sheetId: 'sheet123', data });
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      const [url, init] = vi.mocked(mockFetch).mock.calls[0];
+      expect(url).toBe('https://sheets.googleapis.com/v4/spreadsheets/sheet123/values:batchUpdate');
+      expect(init?.method).toBe('POST');
+      expect(JSON.parse(String(init?.body))).toEqual({ valueInputOption: 'USER_ENTERED', data });
+    });
+
+    it('throws a GoogleSheetsError when the request is rejected', async () => {
+      const mockFetch = createMockFetch([
+        { ok: false, status: 400, body: { error: 'Bad request' } },
+      ]);
+
+      const client = createMockedClient({ fetchImpl: mockFetch });
+
+      await expect(client.batchUpdateRanges({
+        sheetId: 'sheet123',
+        data: [{ range: 'Sheet1!Q5:Q5', values: [['Accepted']] }],
+      })).rejects.toThrow(GoogleSheetsError);
+    });
+  });
+
   describe('Token caching', () => {
     it('caches access token', async () => {
       const mockFetch = createMockFetch([
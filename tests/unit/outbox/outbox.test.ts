@@ -0,0 +1,228 @@
+/**
+ * Email Outbox Unit Tests
+ *
+ * The memory outbox's claim, dedupe and delivery-status rules, the retry
+ * schedule, the D1 outbox's SQL contract (against a fake binding) and the
+ * Sheets outbox's rows (against a mock client).
+ */
+
+import { describe, it, expect } from 'vitest';
+import { D1OutboxStore, MemoryOutboxStore, SheetsOutboxStore, retryDelayMs } from '../../../src/layers/outbox';
+import { GoogleSheetsClient } from '../../../src/integrations/googleSheets';
+import { createMockGoogleSheetsClient } from '../../helpers/testUtils';
+
+const message = {
+  from: 'AC Shuttles <bookings@acshuttles.com>',
+  to: 'jane@example.com',
+  subject: 'Trip Reminder',
+  html: '<p>Tomorrow</p>',
+  text: 'Tomorrow',
+  tags: ['customer-reminder'],
+};
+
+const CREATED_AT = '2025-02-20T10:00:00.000Z';
+
+describe('MemoryOutboxStore', () => {
+  it('adds pending emails that are due immediately', async () => {
+    const store = new MemoryOutboxStore();
+
+    const { email, created } = await store.add({ message, transactionId: 'txn-1', createdAt: CREATED_AT });
+
+    expect(created).toBe(true);
+    expect(email).toMatchObject({ ...message, transactionId: 'txn-1', status: 'pending', attempts: 0 });
+    expect(await store.listDue(Date.parse(CREATED_AT), 10)).toHaveLength(1);
+  });
+
+  it('returns the existing email for a repeated dedupe key', async () => {
+    const store = new MemoryOutboxStore();
+
+    const first = await store.add({ message, dedupeKey: 'reminder:txn-1', createdAt: CREATED_AT });
+    const second = await store.add({ message, dedupeKey: 'reminder:txn-1', createdAt: CREATED_AT });
+
+    expect(second).toEqual({ email: first.email, created: false });
+    expect(store.getAll()).toHaveLength(1);
+  });
+
+  it('lets only one sender claim an attempt', async () => {
+    const store = new MemoryOutboxStore();
+    const { email } = await store.add({ message, createdAt: CREATED_AT });
+    const leaseUntil = Date.parse(CREATED_AT) + 120_000;
+
+    expect(await store.claim(email.id, 0, leaseUntil)).toBe(true);
+    expect(await store.claim(email.id, 0, leaseUntil)).toBe(false);
+
+    const claimed = await store.getById(email.id);
+    expect(claimed).toMatchObject({ attempts: 1, nextAttemptAt: leaseUntil });
+    expect(await store.listDue(Date.parse(CREATED_AT), 10)).toHaveLength(0);
+  });
+
+  it('stops listing emails once sent or dead', async () => {
+    const store = new MemoryOutboxStore();
+    const sent = (await store.add({ message, createdAt: CREATED_AT })).email;
+    const dead = (await store.add({ message, createdAt: CREATED_AT })).email;
+
+    await store.complete(sent.id, { status: 'sent', provider: 'resend', providerMessageId: 're-1', sentAt: CREATED_AT });
+    await store.complete(dead.id, { status: 'dead', lastError: 'rejected' });
+
+    expect(await store.listDue(Date.parse(CREATED_AT) + 1, 10)).toEqual([]);
+    expect(await store.getById(sent.id)).toMatchObject({ status: 'sent', providerMessageId: 're-1', nextAttemptAt: null });
+    expect(await store.getById(dead.id)).toMatchObject({ status: 'dead', lastError: 'rejected', nextAttemptAt: null });
+  });
+
+  it('finds sent emails by provider message ID', async () => {
+    const store = new MemoryOutboxStore();
+    const { email } = await store.add({ message, createdAt: CREATED_AT });
+    await store.complete(email.id, { status: 'sent', provider: 'resend', providerMessageId: 're-1', sentAt: CREATED_AT });
+
+    expect(await store.getByProviderMessageId('re-1')).toMatchObject({ id: email.id, deliveryStatus: null });
+    expect(await store.getByProviderMessageId('re-2')).toBeNull();
+  });
+
+  it('only moves the delivery status forward', async () => {
+    const store = new MemoryOutboxStore();
+    const { email } = await store.add({ message, createdAt: CREATED_AT });
+
+    expect(await store.recordDelivery(email.id, 'opened', '2025-02-20T10:05:00.000Z')).toBe(true);
+    // A late "delivered" must not hide the open
+    expect(await store.recordDelivery(email.id, 'delivered', '2025-02-20T10:01:00.000Z')).toBe(false);
+    expect(await store.recordDelivery(email.id, 'bounced', '2025-02-20T10:06:00.000Z')).toBe(true);
+    expect(await store.recordDelivery(email.id, 'bounced', '2025-02-20T10:07:00.000Z')).toBe(false);
+
+    expect(await store.getById(email.id)).toMatchObject({
+      deliveryStatus: 'bounced',
+      deliveryUpdatedAt: '2025-02-20T10:06:00.000Z',
+    });
+  });
+});
+
+describe('retryDelayMs', () => {
+  it('grows 4x per attempt from the base delay', () => {
+    expect([1, 2, 3, 4].map(attempts => retryDelayMs(attempts) / 60_000)).toEqual([1, 4, 16, 64]);
+    expect(retryDelayMs(2, 30_000)).toBe(120_000);
+  });
+
+  it('caps the delay at 6 hours', () => {
+    expect(retryDelayMs(20)).toBe(6 * 60 * 60 * 1000);
+  });
+});
+
+describe('D1OutboxStore', () => {
+  function createFakeD1(changes: number) {
+    const statements: { sql: string; params: unknown[] }[] = [];
+    const db = {
+      prepare(sql: string) {
+        let params: unknown[] = [];
+        const statement = {
+          bind(...values: unknown[]) {
+            params = values;
+            return statement;
+          },
+          async run() {
+            statements.push({ sql, params });
+            return { success: true, results: [], meta: { changes } };
+          },
+        };
+        return statement;
+      },
+    };
+    return { db: db as unknown as D1Database, statements };
+  }
+
+  it('claims with a conditional update on the attempt count', async () => {
+    const { db, statements } = createFakeD1(1);
+
+    expect(await new D1OutboxStore(db).claim('out-1', 2, 1_000)).toBe(true);
+    expect(statements[0].sql).toMatch(/WHERE id = \? AND status = 'pending' AND attempts = \?/);
+    expect(statements[0].params).toEqual([1_000, expect.any(String), 'out-1', 2]);
+  });
+
+  it('reports a lost claim', async () => {
+    const { db } = createFakeD1(0);
+
+    expect(await new D1OutboxStore(db).claim('out-1', 2, 1_000)).toBe(false);
+  });
+
+  it('updates the delivery status only over earlier statuses', async () => {
+    const { db, statements } = createFakeD1(1);
+
+    expect(await new D1OutboxStore(db).recordDelivery('out-1', 'opened', CREATED_AT)).toBe(true);
+    expect(statements[0].sql).toMatch(/WHERE id = \? AND \(delivery_status IS NULL OR delivery_status IN \(\?\)\)/);
+    expect(statements[0].params).toEqual(['opened', CREATED_AT, expect.any(String), 'out-1', 'delivered']);
+  });
+
+  it('ignores a duplicate dedupe key on insert', async () => {
+    const { db, statements } = createFakeD1(1);
+
+    const { email, created } = await new D1OutboxStore(db).add({ message, dedupeKey: 'k', createdAt: CREATED_AT });
+
+    expect(created).toBe(true);
+    expect(statements[0].sql).toContain('ON CONFLICT (dedupe_key) DO NOTHING');
+    expect(statements[0].params).toContain(JSON.stringify(message.tags));
+    expect(email.nextAttemptAt).toBe(Date.parse(CREATED_AT));
+  });
+});
+
+describe('SheetsOutboxStore', () => {
+  function createStore() {
+    const client = createMockGoogleSheetsClient();
+    const store = new SheetsOutboxStore(client as unknown as GoogleSheetsClient, 'primary-sheet-id-123', 'Outbox!A:T');
+    return { client, store };
+  }
+
+  it('writes the header row with the first email and one row per email', async () => {
+    const { client, store } = createStore();
+
+    const first = await store.add({ message, transactionId: 'txn-1', dedupeKey: 'reminder:txn-1', createdAt: CREATED_AT });
+    const repeat = await store.add({ message, dedupeKey: 'reminder:txn-1', createdAt: CREATED_AT });
+
+    expect(first.created).toBe(true);
+    expect(repeat).toEqual({ email: first.email, created: false });
+    const [header, row] = client.getOutboxRows();
+    expect(header.slice(0, 3)).toEqual(['Outbox ID', 'Transaction ID', 'Dedupe Key']);
+    expect(client.getOutboxRows()).toHaveLength(2);
+    expect(row[0]).toBe(first.email.id);
+    expect(await store.getById(first.email.id)).toEqual(first.email);
+    expect(await store.listDue(Date.parse(CREATED_AT), 10)).toEqual([first.email]);
+  });
+
+  it('lets only one sender claim an attempt', async () => {
+    const { store } = createStore();
+    const { email } = await store.add({ message, createdAt: CREATED_AT });
+    const leaseUntil = Date.parse(CREATED_AT) + 120_000;
+
+    expect(await store.claim(email.id, 0, leaseUntil)).toBe(true);
+    expect(await store.claim(email.id, 0, leaseUntil)).toBe(false);
+
+    expect(await store.getById(email.id)).toMatchObject({ attempts: 1, nextAttemptAt: leaseUntil });
+    expect(await store.listDue(Date.parse(CREATED_AT), 10)).toHaveLength(0);
+  });
+
+  it('keeps the outcome of an attempt and finds sent emails by provider message ID', async () => {
+    const { store } = createStore();
+    const sent = (await store.add({ message, transactionId: 'txn-1', createdAt: CREATED_AT })).email;
+    const retrying = (await store.add({ message, transactionId: 'txn-1', createdAt: CREATED_AT })).email;
+    const nextAttemptAt = Date.parse(CREATED_AT) + 60_000;
+
+    await store.complete(sent.id, { status: 'sent', provider: 'resend', providerMessageId: 're-1', sentAt: CREATED_AT });
+    await store.complete(retrying.id, { status: 'pending', lastError: 'Resend API error (500)', nextAttemptAt });
+
+    expect(await store.getByProviderMessageId('re-1')).toMatchObject({ id: sent.id, status: 'sent', nextAttemptAt: null });
+    expect(await store.listDue(nextAttemptAt, 10)).toEqual([
+      expect.objectContaining({ id: retrying.id, lastError: 'Resend API error (500)', nextAttemptAt }),
+    ]);
+    expect((await store.listByTransaction('txn-1')).map(email => email.id)).toEqual([sent.id, retrying.id]);
+  });
+
+  it('only moves the delivery status forward', async () => {
+    const { store } = createStore();
+    const { email } = await store.add({ message, createdAt: CREATED_AT });
+
+    expect(await store.recordDelivery(email.id, 'opened', '2025-02-20T10:05:00.000Z')).toBe(true);
+    expect(await store.recordDelivery(email.id, 'delivered', '2025-02-20T10:01:00.000Z')).toBe(false);
+
+    expect(await store.getById(email.id)).toMatchObject({
+      deliveryStatus: 'opened',
+      deliveryUpdatedAt: '2025-02-20T10:05:00.000Z',
+    });
+  });
+});
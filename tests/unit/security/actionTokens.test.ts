@@ -0,0 +1,127 @@
+/**
+ * Action Token Tests
+ *
+ * Tests signing, verification and key rotation for owner action links.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createActionToken, verifyActionToken, ActionTokenEnv } from '../../../src/layers/security';
+
+const env: ActionTokenEnv = {
+  ACTION_SIGNING_SECRET: 'current-signing-secret',
+};
+
+const NOW = Date.parse('2025-02-20T10:00:00Z');
+const HOUR = 60 * 60 * 1000;
+
+describe('createActionToken', () => {
+  it('produces a four-part versioned token', async () => {
+    const token = await createActionToken(env, 'txn-abc-123', 'accept', NOW);
+    const parts = token.split('.');
+
+    expect(parts).toHaveLength(4);
+    expect(parts[0]).toBe('v1');
+    expect(parts[1]).toMatch(/^[0-9a-f]{8}$/);
+  });
+
+  it('does not expose the transaction ID in plain text', async () => {
+    const token = await createActionToken(env, 'txn-abc-123', 'accept', NOW);
+    expect(token).not.toContain('txn-abc-123');
+  });
+
+  it('throws when the signing secret is missing', async () => {
+    await expect(
+      createActionToken({ ACTION_SIGNING_SECRET: '' }, 'txn-abc-123', 'accept', NOW)
+    ).rejects.toThrow('ACTION_SIGNING_SECRET');
+  });
+});
+
+describe('verifyActionToken', () => {
+  it('returns claims for a valid token', async () => {
+    const token = await createActionToken(env, 'txn-abc-123', 'deny', NOW);
+    const result = await verifyActionToken(env, token, 'deny', NOW + HOUR);
+
+    expect(result.valid).toBe(true);
+    if (result.valid) {
+      expect(result.claims.tid).toBe('txn-abc-123');
+      expect(result.claims.act).toBe('deny');
+      expect(result.claims.exp - result.claims.iat).toBe(168 * 3600);
+    }
+  });
+
+  it('rejects a token for a different action', async () => {
+    const token = await createActionToken(env, 'txn-abc-123', 'accept', NOW);
+    const result = await verifyActionToken(env, token, 'deny', NOW);
+
+    expect(result).toEqual({ valid: false, reason: 'tampered' });
+  });
+
+  it('rejects a token with a modified signature', async () => {
+    const token = await createActionToken(env, 'txn-abc-123', 'accept', NOW);
+    const [version, keyId, claims, signature] = token.split('.');
+    const flipped = (signature[0] === 'A' ? 'B' : 'A') + signature.slice(1);
+    const tampered = [version, keyId, claims, flipped].join('.');
+    const result = await verifyActionToken(env, tampered, 'accept', NOW);
+
+    expect(result).toEqual({ valid: false, reason: 'tampered' });
+  });
+
+  it('rejects a token signed with an unknown secret', async () => {
+    const token = await createActionToken({ ACTION_SIGNING_SECRET: 'attacker-secret' }, 'txn-abc-123', 'accept', NOW);
+    const result = await verifyActionToken(env, token, 'accept', NOW);
+
+    expect(result).toEqual({ valid: false, reason: 'tampered' });
+  });
+
+  it('rejects malformed tokens', async () => {
+    expect(await verifyActionToken(env, 'txn-abc-123', 'accept', NOW)).toEqual({ valid: false, reason: 'malformed' });
+    expect(await verifyActionToken(env, 'v2.a.b.c', 'accept', NOW)).toEqual({ valid: false, reason: 'malformed' });
+  });
+
+  it('rejects expired tokens', async () => {
+    const token = await createActionToken({ ...env, ACTION_TOKEN_TTL_HOURS: '2' }, 'txn-abc-123', 'accept', NOW);
+
+    expect((await verifyActionToken(env, token, 'accept', NOW + HOUR)).valid).toBe(true);
+    expect(await verifyActionToken(env, token, 'accept', NOW + 3 * HOUR)).toEqual({ valid: false, reason: 'expired' });
+  });
+
+  it('honours an explicit expiry over the configured TTL', async () => {
+    const pickup = NOW + 30 * 24 * HOUR;
+    const token = await createActionToken(env, 'txn-abc-123', 'cancel', NOW, pickup);
+
+    expect((await verifyActionToken(env, token, 'cancel', pickup - HOUR)).valid).toBe(true);
+    expect(await verifyActionToken(env, token, 'cancel', pickup + HOUR)).toEqual({ valid: false, reason: 'expired' });
+  });
+});
+
+describe('key rotation', () => {
+  const rotatedEnv: ActionTokenEnv = {
+    ACTION_SIGNING_SECRET: 'new-signing-secret',
+    ACTION_SIGNING_SECRET_PREVIOUS: 'current-signing-secret',
+  };
+
+  it('accepts tokens signed with the previous secret', async () => {
+    const token = await createActionToken(env, 'txn-abc-123', 'accept', NOW);
+    const result = await verifyActionToken(rotatedEnv, token, 'accept', NOW + HOUR);
+
+    expect(result.valid).toBe(true);
+  });
+
+  it('signs new tokens with the current secret', async () => {
+    const token = await createActionToken(rotatedEnv, 'txn-abc-123', 'accept', NOW);
+    const result = await verifyActionToken({ ACTION_SIGNING_SECRET: 'new-signing-secret' }, token, 'accept', NOW);
+
+    expect(result.valid).toBe(true);
+  });
+
+  it('treats previous-secret tokens as expired once the grace window closes', async () => {
+    const token = await createActionToken(env, 'txn-abc-123', 'accept', NOW);
+    const closingEnv: ActionTokenEnv = {
+      ...rotatedEnv,
+      ACTION_SIGNING_PREVIOUS_UNTIL: new Date(NOW + 2 * HOUR).toISOString(),
+    };
+
+    expect((await verifyActionToken(closingEnv, token, 'accept', NOW + HOUR)).valid).toBe(true);
+    expect(await verifyActionToken(closingEnv, token, 'accept', NOW + 3 * HOUR)).toEqual({ valid: false, reason: 'expired' });
+  });
+});
@@ -5,7 +5,7 @@
  */
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { validateRequest, SecurityEnv } from '../../../src/layers/security';
+import { validateRequest, validateDriverPayload, SecurityEnv } from '../../../src/layers/security';
 
 // Mock rate limiter
 const mockRateLimiter = {
@@ -39,12 +39,16 @@ const createMockRequest = (options: {
   });
 };
 
+// An afternoon two weeks out, inside the default booking rules
+const PICKUP_DATE = new Date(Date.now() + 14 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+const NEXT_DAY = new Date(Date.now() + 15 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
 const validPayload = {
   customer_name: 'John Doe',
   customer_email: 'john@example.com',
   start_location: '123 Main St, Atlanta, GA',
   end_location: '456 Airport Blvd, Atlanta, GA',
-  pickup_datetime: '2025-01-15T14:30:00-05:00',
+  pickup_datetime: `${PICKUP_DATE}T14:30:00-05:00`,
   passengers: 2,
   estimated_distance: '25.5 km',
   estimated_duration: '35 mins',
@@ -301,6 +305,232 @@ describe('Payload Validation', () => {
   });
 });
 
+describe('Return leg', () => {
+  const RETURN_PICKUP = `${NEXT_DAY}T14:30:00-05:00`;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockRateLimiter.limit.mockResolvedValue({ success: true });
+  });
+
+  async function validationErrors(body: unknown): Promise<Array<{ field: string; message: string }>> {
+    try {
+      await validateRequest(createMockRequest({ body }), createMockEnv());
+    } catch (error) {
+      expect(error).toBeInstanceOf(Response);
+      return ((await (error as Response).json()) as { details: Array<{ field: string; message: string }> }).details;
+    }
+    throw new Error('Expected validation to fail');
+  }
+
+  it('reverses the route and reuses the estimates by default', async () => {
+    const result = await validateRequest(createMockRequest({
+      body: { ...validPayload, return_pickup_datetime: RETURN_PICKUP },
+    }), createMockEnv());
+
+    expect(result.payload).toMatchObject({
+      return_pickup_datetime: RETURN_PICKUP,
+      return_start_location: validPayload.end_location,
+      return_end_location: validPayload.start_location,
+      return_estimated_distance: validPayload.estimated_distance,
+      return_estimated_duration: validPayload.estimated_duration,
+    });
+  });
+
+  it('keeps a return route given explicitly', async () => {
+    const result = await validateRequest(createMockRequest({
+      body: {
+        ...validPayload,
+        return_pickup_datetime: RETURN_PICKUP,
+        return_start_location: ' 789 Hotel Way, Atlanta, GA ',
+        return_estimated_distance: '30 km',
+      },
+    }), createMockEnv());
+
+    expect(result.payload.return_start_location).toBe('789 Hotel Way, Atlanta, GA');
+    expect(result.payload.return_end_location).toBe(validPayload.start_location);
+    expect(result.payload.return_estimated_distance).toBe('30 km');
+  });
+
+  it('leaves one-way bookings without return fields', async () => {
+    const result = await validateRequest(createMockRequest(), createMockEnv());
+
+    expect(result.payload.return_pickup_datetime).toBeUndefined();
+    expect(result.payload.return_start_location).toBeUndefined();
+  });
+
+  it('rejects a return pickup that is invalid or not after the outbound pickup', async () => {
+    expect(await validationErrors({ ...validPayload, return_pickup_datetime: 'next week' })).toEqual([
+      { field: 'return_pickup_datetime', message: 'Invalid datetime format. Use ISO 8601 format.' },
+    ]);
+    expect(await validationErrors({ ...validPayload, return_pickup_datetime: validPayload.pickup_datetime })).toEqual([
+      { field: 'return_pickup_datetime', message: 'Return pickup must be after the outbound pickup' },
+    ]);
+  });
+
+  it('rejects return route fields without a return pickup', async () => {
+    expect(await validationErrors({ ...validPayload, return_start_location: 'Hotel' })).toEqual([
+      { field: 'return_start_location', message: 'Only allowed with a return pickup date/time' },
+    ]);
+  });
+
+  it('gives round trips their own idempotency key', async () => {
+    const oneWay = await validateRequest(createMockRequest(), createMockEnv());
+    const roundTrip = await validateRequest(createMockRequest({
+      body: { ...validPayload, return_pickup_datetime: RETURN_PICKUP },
+    }), createMockEnv());
+
+    expect(roundTrip.idempotencyKey).toMatch(/^auto-[0-9a-f]{32}$/);
+    expect(roundTrip.idempotencyKey).not.toBe(oneWay.idempotencyKey);
+  });
+});
+
+describe('Stops', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockRateLimiter.limit.mockResolvedValue({ success: true });
+  });
+
+  async function validationErrors(body: unknown): Promise<Array<{ field: string; message: string }>> {
+    try {
+      await validateRequest(createMockRequest({ body }), createMockEnv());
+    } catch (error) {
+      expect(error).toBeInstanceOf(Response);
+      return ((await (error as Response).json()) as { details: Array<{ field: string; message: string }> }).details;
+    }
+    throw new Error('Expected validation to fail');
+  }
+
+  it('keeps the stops in order, trimmed, with whole-minute waits', async () => {
+    const result = await validateRequest(createMockRequest({
+      body: {
+        ...validPayload,
+        stops: [{ address: ' 200 Peachtree St, Atlanta, GA ', wait_minutes: '15' }, { address: 'Decatur, GA' }],
+      },
+    }), createMockEnv());
+
+    expect(result.payload.stops).toEqual([
+      { address: '200 Peachtree St, Atlanta, GA', wait_minutes: 15 },
+      { address: 'Decatur, GA' },
+    ]);
+  });
+
+  it('leaves direct rides without stops', async () => {
+    const result = await validateRequest(createMockRequest({ body: { ...validPayload, stops: [] } }), createMockEnv());
+
+    expect(result.payload.stops).toBeUndefined();
+  });
+
+  it('reports each invalid stop against its field', async () => {
+    expect(await validationErrors({
+      ...validPayload,
+      stops: [{ address: '' }, 'Decatur', { address: 'Decatur, GA', wait_minutes: 7.5 }, { address: 'Marietta, GA', wait_minutes: 500 }],
+    })).toEqual([
+      { field: 'stops[0].address', message: 'Stop address is required' },
+      { field: 'stops[1]', message: 'Each stop must be an object with an address' },
+      { field: 'stops[2].wait_minutes', message: 'Wait time must be a whole number of minutes from 0 to 240' },
+      { field: 'stops[3].wait_minutes', message: 'Wait time must be a whole number of minutes from 0 to 240' },
+    ]);
+  });
+
+  it('rejects stops that are not a list or too many to route', async () => {
+    expect(await validationErrors({ ...validPayload, stops: 'Decatur, GA' })).toEqual([
+      { field: 'stops', message: 'Stops must be a list' },
+    ]);
+    const stops = Array.from({ length: 10 }, (_, index) => ({ address: `Stop ${index + 1}` }));
+    expect(await validationErrors({ ...validPayload, stops })).toEqual([
+      { field: 'stops', message: 'At most 9 stops are allowed' },
+    ]);
+  });
+
+  it('gives multi-stop rides their own idempotency key', async () => {
+    const direct = await validateRequest(createMockRequest(), createMockEnv());
+    const multiStop = await validateRequest(createMockRequest({
+      body: { ...validPayload, stops: [{ address: 'Decatur, GA' }] },
+    }), createMockEnv());
+
+    expect(multiStop.idempotencyKey).not.toBe(direct.idempotencyKey);
+  });
+
+  it('keys stops by their wait time as well as their address', async () => {
+    const shortWait = await validateRequest(createMockRequest({
+      body: { ...validPayload, stops: [{ address: 'Decatur, GA', wait_minutes: 10 }] },
+    }), createMockEnv());
+    const longWait = await validateRequest(createMockRequest({
+      body: { ...validPayload, stops: [{ address: 'Decatur, GA', wait_minutes: 30 }] },
+    }), createMockEnv());
+
+    expect(longWait.idempotencyKey).not.toBe(shortWait.idempotencyKey);
+  });
+});
+
+describe('Recurrence', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockRateLimiter.limit.mockResolvedValue({ success: true });
+  });
+
+  async function validationErrors(body: unknown, env: SecurityEnv = createMockEnv()): Promise<Array<{ field: string; message: string }>> {
+    try {
+      await validateRequest(createMockRequest({ body }), env);
+    } catch (error) {
+      expect(error).toBeInstanceOf(Response);
+      return ((await (error as Response).json()) as { details: Array<{ field: string; message: string }> }).details;
+    }
+    throw new Error('Expected validation to fail');
+  }
+
+  it('keeps the rule in canonical form', async () => {
+    const result = await validateRequest(createMockRequest({
+      body: { ...validPayload, recurrence: 'rrule:count=3;freq=daily' },
+    }), createMockEnv());
+
+    expect(result.payload.recurrence).toBe('FREQ=DAILY;COUNT=3');
+  });
+
+  it('leaves single rides without a rule', async () => {
+    const result = await validateRequest(createMockRequest({ body: { ...validPayload, recurrence: '' } }), createMockEnv());
+
+    expect(result.payload.recurrence).toBeUndefined();
+  });
+
+  it('rejects an invalid rule or one combined with a return pickup', async () => {
+    expect(await validationErrors({ ...validPayload, recurrence: 12 })).toEqual([
+      { field: 'recurrence', message: 'Recurrence must be a rule such as FREQ=WEEKLY;BYDAY=MO,WE,FR;COUNT=12' },
+    ]);
+    expect(await validationErrors({ ...validPayload, recurrence: 'FREQ=DAILY;COUNT=100' })).toEqual([
+      { field: 'recurrence', message: 'COUNT must be a whole number from 2 to 60' },
+    ]);
+    expect(await validationErrors({
+      ...validPayload,
+      recurrence: 'FREQ=DAILY;COUNT=3',
+      return_pickup_datetime: `${NEXT_DAY}T14:30:00-05:00`,
+    })).toEqual([
+      { field: 'recurrence', message: 'A recurring booking cannot also be a round trip' },
+    ]);
+  });
+
+  it('checks every later ride against the booking rules', async () => {
+    const env = { ...createMockEnv(), BOOKING_BLACKOUT_DATES: `${NEXT_DAY} Staff Day` };
+
+    const errors = await validationErrors({ ...validPayload, recurrence: 'FREQ=DAILY;COUNT=3' }, env);
+
+    expect(errors).toEqual([
+      { field: 'recurrence', message: expect.stringMatching(new RegExp(`^Ride on ${NEXT_DAY}: We are closed on .+ for Staff Day$`)) },
+    ]);
+  });
+
+  it('gives a series its own idempotency key', async () => {
+    const single = await validateRequest(createMockRequest(), createMockEnv());
+    const series = await validateRequest(createMockRequest({
+      body: { ...validPayload, recurrence: 'FREQ=DAILY;COUNT=3' },
+    }), createMockEnv());
+
+    expect(series.idempotencyKey).toMatch(/^auto-[0-9a-f]{32}$/);
+    expect(series.idempotencyKey).not.toBe(single.idempotencyKey);
+  });
+});
+
 describe('Idempotency Key', () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -335,8 +565,72 @@ describe('Idempotency Key', () => {
     const request2 = createMockRequest();
     const result2 = await validateRequest(request2, env);
 
-    // Keys should start with 'auto-' and have same prefix (deterministic part)
-    expect(result1.idempotencyKey).toMatch(/^auto-/);
-    expect(result2.idempotencyKey).toMatch(/^auto-/);
+    expect(result1.idempotencyKey).toMatch(/^auto-[0-9a-f]{32}$/);
+    expect(result2.idempotencyKey).toBe(result1.idempotencyKey);
+  });
+
+  it('ignores case and whitespace differences in the booking content', async () => {
+    const env = createMockEnv();
+
+    const result1 = await validateRequest(createMockRequest(), env);
+    const result2 = await validateRequest(createMockRequest({
+      body: {
+        ...validPayload,
+        customer_email: 'John@Example.com',
+        start_location: '  123 Main  St,  Atlanta, GA ',
+      },
+    }), env);
+
+    expect(result2.idempotencyKey).toBe(result1.idempotencyKey);
+  });
+
+  it('generates different keys for different trips', async () => {
+    const env = createMockEnv();
+
+    const result1 = await validateRequest(createMockRequest(), env);
+    const result2 = await validateRequest(createMockRequest({
+      body: { ...validPayload, pickup_datetime: `${NEXT_DAY}T14:30:00-05:00` },
+    }), env);
+    const result3 = await validateRequest(createMockRequest({
+      body: { ...validPayload, passengers: 3 },
+    }), env);
+
+    expect(result2.idempotencyKey).not.toBe(result1.idempotencyKey);
+    expect(result3.idempotencyKey).not.toBe(result1.idempotencyKey);
+  });
+});
+
+describe('Driver Payload Validation', () => {
+  it('requires a name and email for a new driver', () => {
+    expect(validateDriverPayload({ phone: '609-555-0111' }, 'create')).toEqual({
+      valid: false,
+      errors: [
+        { field: 'name', message: 'Driver name is required' },
+        { field: 'email', message: 'Driver email is required' },
+      ],
+    });
+  });
+
+  it('normalizes a new driver', () => {
+    expect(validateDriverPayload({ name: ' Alex Reed ', email: 'Alex@Example.com', extra: 'ignored' }, 'create')).toEqual({
+      valid: true,
+      driver: { name: 'Alex Reed', email: 'alex@example.com', phone: null },
+    });
+  });
+
+  it('accepts a partial update and clears an empty phone', () => {
+    expect(validateDriverPayload({ phone: '', active: false }, 'update')).toEqual({
+      valid: true,
+      driver: { phone: null, active: false },
+    });
+  });
+
+  it('rejects invalid fields and empty updates', () => {
+    const invalid = validateDriverPayload({ email: 'not-an-email', active: 'yes' }, 'update');
+    expect(invalid.valid).toBe(false);
+    expect(!invalid.valid && invalid.errors.map(error => error.field)).toEqual(['email', 'active']);
+
+    expect(validateDriverPayload({}, 'update')).toMatchObject({ valid: false, errors: [{ field: 'body' }] });
+    expect(validateDriverPayload([], 'create')).toMatchObject({ valid: false, errors: [{ field: 'body' }] });
   });
 });
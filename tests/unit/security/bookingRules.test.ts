@@ -0,0 +1,249 @@
+/**
+ * Booking Rules Tests
+ *
+ * Pickup times must respect the minimum lead time, the advance window,
+ * operating hours per weekday and blackout dates, all in the business timezone.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  loadBookingRules,
+  checkPickupRules,
+  describeBookingRules,
+  validateRequest,
+  SecurityEnv,
+} from '../../../src/layers/security';
+
+// Monday 3 March 2025, 9:00 AM in New York
+const NOW = Date.parse('2025-03-03T14:00:00Z');
+const HOUR = 60 * 60 * 1000;
+
+// Wall-clock time in New York (EST until 9 March)
+function newYork(value: string): number {
+  return Date.parse(`${value}-05:00`);
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('loadBookingRules', () => {
+  it('defaults to a 2 hour lead time, a year ahead, open every day and no blackout dates', () => {
+    const rules = loadBookingRules({});
+
+    expect(rules.timeZone).toBe('America/New_York');
+    expect(rules.minLeadHours).toBe(2);
+    expect(rules.maxAdvanceDays).toBe(365);
+    expect(rules.operatingHours.sunday).toEqual({ open: 0, close: 24 * 60 });
+    expect(rules.blackoutDates).toEqual([]);
+  });
+
+  it('reads operating hours with day ranges, closed days and days left out', () => {
+    const rules = loadBookingRules({ BOOKING_HOURS: 'mon-fri 06:00-22:00, sat 08:00-20:00' });
+
+    expect(rules.operatingHours.monday).toEqual({ open: 6 * 60, close: 22 * 60 });
+    expect(rules.operatingHours.friday).toEqual({ open: 6 * 60, close: 22 * 60 });
+    expect(rules.operatingHours.saturday).toEqual({ open: 8 * 60, close: 20 * 60 });
+    expect(rules.operatingHours.sunday).toBeNull();
+  });
+
+  it('reads ranges that wrap past the weekend', () => {
+    const rules = loadBookingRules({ BOOKING_HOURS: 'fri-mon 10:00-24:00, tue-thu closed' });
+
+    expect(rules.operatingHours.sunday).toEqual({ open: 10 * 60, close: 24 * 60 });
+    expect(rules.operatingHours.wednesday).toBeNull();
+  });
+
+  it('keeps every day open when the hours cannot be parsed', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const rules = loadBookingRules({ BOOKING_HOURS: 'weekdays 9 to 5' });
+
+    expect(rules.operatingHours.monday).toEqual({ open: 0, close: 24 * 60 });
+    expect(warn.mock.calls[0][0]).toContain('booking_rules.invalid_setting');
+  });
+
+  it('reads blackout dates, ranges and labels, skipping invalid entries', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const rules = loadBookingRules({
+      BOOKING_BLACKOUT_DATES: '2025-12-31..2026-01-01 New Year, 2025-12-25 Christmas Day, 2025-02-30, soon',
+    });
+
+    expect(rules.blackoutDates).toEqual([
+      { start: '2025-12-25', end: '2025-12-25', label: 'Christmas Day' },
+      { start: '2025-12-31', end: '2026-01-01', label: 'New Year' },
+    ]);
+    expect(warn).toHaveBeenCalledTimes(2);
+  });
+
+  it('uses the default for a lead time that is not a number', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(loadBookingRules({ BOOKING_MIN_LEAD_HOURS: 'two' }).minLeadHours).toBe(2);
+    expect(loadBookingRules({ BOOKING_MIN_LEAD_HOURS: '0.5' }).minLeadHours).toBe(0.5);
+  });
+});
+
+describe('checkPickupRules', () => {
+  const rules = loadBookingRules({
+    BOOKING_MIN_LEAD_HOURS: '4',
+    BOOKING_MAX_ADVANCE_DAYS: '90',
+    BOOKING_HOURS: 'mon-fri 06:00-22:00, sat 08:00-20:00, sun closed',
+    BOOKING_BLACKOUT_DATES: '2025-03-17 St. Patrick\'s Day',
+  });
+
+  it('allows a pickup inside every rule', () => {
+    expect(checkPickupRules(newYork('2025-03-04T10:00:00'), rules, NOW)).toBeNull();
+  });
+
+  it('refuses a pickup in the past', () => {
+    expect(checkPickupRules(NOW - HOUR, rules, NOW)).toBe('Pickup time must be in the future');
+  });
+
+  it('refuses a pickup inside the lead time', () => {
+    expect(checkPickupRules(NOW + 3 * HOUR, rules, NOW)).toBe('Pickups must be booked at least 4 hours in advance');
+    expect(checkPickupRules(NOW + 4 * HOUR, rules, NOW)).toBeNull();
+  });
+
+  it('refuses a pickup beyond the advance window', () => {
+    expect(checkPickupRules(NOW + 91 * 24 * HOUR, rules, NOW)).toBe('Pickups can be booked at most 90 days in advance');
+  });
+
+  it('refuses a pickup on a blackout date', () => {
+    expect(checkPickupRules(Date.parse('2025-03-17T14:00:00Z'), rules, NOW))
+      .toBe('We are closed on March 17, 2025 for St. Patrick\'s Day');
+  });
+
+  it('refuses a pickup on a closed weekday', () => {
+    expect(checkPickupRules(Date.parse('2025-03-09T16:00:00Z'), rules, NOW))
+      .toBe('We do not offer pickups on Sundays');
+  });
+
+  it('refuses a pickup outside the hours for its weekday', () => {
+    expect(checkPickupRules(newYork('2025-03-08T07:30:00'), rules, NOW))
+      .toBe('Pickups on Saturdays are available between 8:00 AM and 8:00 PM');
+    expect(checkPickupRules(newYork('2025-03-04T22:00:00'), rules, NOW)).toBeNull();
+    expect(checkPickupRules(newYork('2025-03-04T22:01:00'), rules, NOW))
+      .toBe('Pickups on Tuesdays are available between 6:00 AM and 10:00 PM');
+  });
+
+  it('applies hours and dates in the business timezone', () => {
+    // 11:30 PM Tuesday in New York is 8:30 PM Tuesday in Los Angeles
+    const lateNight = newYork('2025-03-04T23:30:00');
+    const pacific = loadBookingRules({ BUSINESS_TIMEZONE: 'America/Los_Angeles', BOOKING_HOURS: 'mon-sun 06:00-22:00' });
+
+    expect(checkPickupRules(lateNight, loadBookingRules({ BOOKING_HOURS: 'mon-sun 06:00-22:00' }), NOW)).not.toBeNull();
+    expect(checkPickupRules(lateNight, pacific, NOW)).toBeNull();
+  });
+
+  it('uses the local hour across a daylight saving change', () => {
+    // 10:30 UTC is 5:30 AM EST on Friday 7 March but 6:30 AM EDT on Monday 10 March
+    expect(checkPickupRules(Date.parse('2025-03-07T10:30:00Z'), rules, NOW))
+      .toBe('Pickups on Fridays are available between 6:00 AM and 10:00 PM');
+    expect(checkPickupRules(Date.parse('2025-03-10T10:30:00Z'), rules, NOW)).toBeNull();
+  });
+});
+
+describe('describeBookingRules', () => {
+  it('publishes the rules and the bookable window', () => {
+    const rules = loadBookingRules({
+      BOOKING_MIN_LEAD_HOURS: '4',
+      BOOKING_HOURS: 'mon-sat 06:00-22:00',
+      BOOKING_BLACKOUT_DATES: '2025-12-25 Christmas Day',
+    });
+
+    expect(describeBookingRules(rules, NOW)).toEqual({
+      timeZone: 'America/New_York',
+      minLeadHours: 4,
+      maxAdvanceDays: 365,
+      earliestPickup: '2025-03-03T13:00:00-05:00',
+      latestPickup: '2026-03-03T09:00:00-05:00',
+      operatingHours: {
+        sunday: null,
+        monday: { open: '06:00', close: '22:00' },
+        tuesday: { open: '06:00', close: '22:00' },
+        wednesday: { open: '06:00', close: '22:00' },
+        thursday: { open: '06:00', close: '22:00' },
+        friday: { open: '06:00', close: '22:00' },
+        saturday: { open: '06:00', close: '22:00' },
+      },
+      blackoutDates: [{ start: '2025-12-25', end: '2025-12-25', label: 'Christmas Day' }],
+    });
+  });
+});
+
+describe('validateRequest with booking rules', () => {
+  const env: SecurityEnv = {
+    API_KEY: 'test-api-key-12345',
+    BOOKING_RATE_LIMIT: { limit: async () => ({ success: true }) },
+    BOOKING_HOURS: 'mon-sun 06:00-22:00',
+  };
+
+  function bookingRequest(pickupDatetime: string, overrides: Record<string, unknown> = {}): Request {
+    return new Request('https://example.com/booking', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-API-Key': 'test-api-key-12345' },
+      body: JSON.stringify({
+        customer_name: 'John Doe',
+        customer_email: 'john@example.com',
+        start_location: '123 Main St, Atlanta, GA',
+        end_location: '456 Airport Blvd, Atlanta, GA',
+        pickup_datetime: pickupDatetime,
+        passengers: 2,
+        estimated_distance: '25.5 km',
+        estimated_duration: '35 mins',
+        ...overrides,
+      }),
+    });
+  }
+
+  async function validationErrors(request: Request): Promise<Array<{ field: string; message: string }>> {
+    try {
+      await validateRequest(request, env);
+    } catch (error) {
+      expect(error).toBeInstanceOf(Response);
+      const body = await (error as Response).json() as { error: string; details: Array<{ field: string; message: string }> };
+      expect((error as Response).status).toBe(400);
+      expect(body.error).toBe('Validation failed');
+      return body.details;
+    }
+    throw new Error('Expected validation to fail');
+  }
+
+  it('returns a field-level error for a pickup in five minutes', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const soon = new Date(Date.now() + 5 * 60 * 1000).toISOString();
+
+    expect(await validationErrors(bookingRequest(soon))).toEqual([
+      { field: 'pickup_datetime', message: 'Pickups must be booked at least 2 hours in advance' },
+    ]);
+  });
+
+  it('reports rule errors alongside other field errors', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(await validationErrors(bookingRequest('2020-01-01T10:00', { passengers: 0 }))).toEqual([
+      { field: 'passengers', message: 'Passengers must be a positive number' },
+      { field: 'pickup_datetime', message: 'Pickup time must be in the future' },
+    ]);
+  });
+
+  it('refuses a pickup outside operating hours', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const date = new Date(Date.now() + 7 * 24 * HOUR).toISOString().slice(0, 10);
+
+    const [error] = await validationErrors(bookingRequest(`${date}T03:00`));
+    expect(error.field).toBe('pickup_datetime');
+    expect(error.message).toMatch(/are available between 6:00 AM and 10:00 PM$/);
+  });
+
+  it('applies the rules to the return pickup of a round trip', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const date = new Date(Date.now() + 7 * 24 * HOUR).toISOString().slice(0, 10);
+
+    const [error] = await validationErrors(bookingRequest(`${date}T09:00`, { return_pickup_datetime: `${date}T23:30` }));
+    expect(error.field).toBe('return_pickup_datetime');
+    expect(error.message).toMatch(/are available between 6:00 AM and 10:00 PM$/);
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * CSRF Protection Tests
+ *
+ * Tests the signed double-submit cookie used by the decision review form.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { issueCsrfToken, verifyCsrfToken, isSameOrigin } from '../../../src/layers/security';
+
+const SECRET = 'csrf-test-secret';
+const ACTION_TOKEN = 'v1.abcd1234.claims.signature';
+const URL_BASE = 'https://worker.example.com/accept/v1.abcd1234.claims.signature';
+
+function postWithCookie(cookie: string | null, origin?: string): Request {
+  const headers: Record<string, string> = {};
+  if (cookie) headers['Cookie'] = cookie;
+  if (origin) headers['Origin'] = origin;
+  return new Request(URL_BASE, { method: 'POST', headers });
+}
+
+function cookiePair(setCookie: string): string {
+  return setCookie.split(';')[0];
+}
+
+describe('issueCsrfToken', () => {
+  it('sets a host-only, HttpOnly, SameSite=Strict cookie', async () => {
+    const { setCookie } = await issueCsrfToken(SECRET, ACTION_TOKEN);
+
+    expect(setCookie).toMatch(/^__Host-ac_csrf_[\w-]{16}=[\w-]+;/);
+    expect(setCookie).toContain('Path=/');
+    expect(setCookie).toContain('HttpOnly');
+    expect(setCookie).toContain('Secure');
+    expect(setCookie).toContain('SameSite=Strict');
+  });
+
+  it('issues a fresh nonce each time', async () => {
+    const first = await issueCsrfToken(SECRET, ACTION_TOKEN);
+    const second = await issueCsrfToken(SECRET, ACTION_TOKEN);
+
+    expect(first.setCookie).not.toBe(second.setCookie);
+    expect(first.formToken).not.toBe(second.formToken);
+  });
+});
+
+describe('verifyCsrfToken', () => {
+  it('accepts the matching cookie and form token', async () => {
+    const { formToken, setCookie } = await issueCsrfToken(SECRET, ACTION_TOKEN);
+    const request = postWithCookie(cookiePair(setCookie));
+
+    expect(await verifyCsrfToken(SECRET, ACTION_TOKEN, request, formToken)).toBe(true);
+  });
+
+  it('finds the cookie among other cookies', async () => {
+    const { formToken, setCookie } = await issueCsrfToken(SECRET, ACTION_TOKEN);
+    const request = postWithCookie(`theme=dark; ${cookiePair(setCookie)}; other=1`);
+
+    expect(await verifyCsrfToken(SECRET, ACTION_TOKEN, request, formToken)).toBe(true);
+  });
+
+  it('rejects a missing cookie or form token', async () => {
+    const { formToken, setCookie } = await issueCsrfToken(SECRET, ACTION_TOKEN);
+
+    expect(await verifyCsrfToken(SECRET, ACTION_TOKEN, postWithCookie(null), formToken)).toBe(false);
+    expect(await verifyCsrfToken(SECRET, ACTION_TOKEN, postWithCookie(cookiePair(setCookie)), null)).toBe(false);
+  });
+
+  it('rejects a form token from a different cookie', async () => {
+    const first = await issueCsrfToken(SECRET, ACTION_TOKEN);
+    const second = await issueCsrfToken(SECRET, ACTION_TOKEN);
+    const request = postWithCookie(cookiePair(first.setCookie));
+
+    expect(await verifyCsrfToken(SECRET, ACTION_TOKEN, request, second.formToken)).toBe(false);
+  });
+
+  it('keeps a separate cookie for each action link', async () => {
+    const first = await issueCsrfToken(SECRET, ACTION_TOKEN);
+    const second = await issueCsrfToken(SECRET, 'v1.abcd1234.other.signature');
+    const request = postWithCookie(`${cookiePair(first.setCookie)}; ${cookiePair(second.setCookie)}`);
+
+    expect(cookiePair(first.setCookie).split('=')[0]).not.toBe(cookiePair(second.setCookie).split('=')[0]);
+    expect(await verifyCsrfToken(SECRET, ACTION_TOKEN, request, first.formToken)).toBe(true);
+    expect(await verifyCsrfToken(SECRET, 'v1.abcd1234.other.signature', request, second.formToken)).toBe(true);
+  });
+
+  it('rejects a form token issued for a different action link', async () => {
+    const { formToken, setCookie } = await issueCsrfToken(SECRET, ACTION_TOKEN);
+    const request = postWithCookie(cookiePair(setCookie));
+
+    expect(await verifyCsrfToken(SECRET, 'v1.abcd1234.other.signature', request, formToken)).toBe(false);
+  });
+
+  it('rejects garbage form tokens', async () => {
+    const { setCookie } = await issueCsrfToken(SECRET, ACTION_TOKEN);
+    const request = postWithCookie(cookiePair(setCookie));
+
+    expect(await verifyCsrfToken(SECRET, ACTION_TOKEN, request, '!!not-base64!!')).toBe(false);
+  });
+});
+
+describe('isSameOrigin', () => {
+  it('allows requests without an Origin header', () => {
+    expect(isSameOrigin(postWithCookie(null))).toBe(true);
+  });
+
+  it('allows same-origin requests', () => {
+    expect(isSameOrigin(postWithCookie(null, 'https://worker.example.com'))).toBe(true);
+  });
+
+  it('rejects cross-origin requests', () => {
+    expect(isSameOrigin(postWithCookie(null, 'https://evil.example.com'))).toBe(false);
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Vehicle Fleet Tests
+ *
+ * The fleet catalog is read from VEHICLE_FLEET, and passenger counts beyond
+ * the largest vehicle are rejected at submission or flagged for the owner.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  loadFleet,
+  maxPassengers,
+  checkPassengerCapacity,
+  vehiclesForPassengers,
+  findVehicle,
+  describeVehicleCapacity,
+  describeFleet,
+  validateRequest,
+  SecurityEnv,
+} from '../../../src/layers/security';
+
+const FLEET = 'van: Ford Transit (12 seats, 10 bags); sedan: Lincoln Town Car (3 seats, 3 bags); suv: Cadillac Escalade (6 seats, 5 bags)';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('loadFleet', () => {
+  it('has no vehicles and the reject policy by default', () => {
+    const fleet = loadFleet({});
+
+    expect(fleet).toEqual({ vehicles: [], capacityPolicy: 'reject' });
+    expect(maxPassengers(fleet)).toBeNull();
+  });
+
+  it('reads the vehicles smallest first', () => {
+    const fleet = loadFleet({ VEHICLE_FLEET: FLEET });
+
+    expect(fleet.vehicles).toEqual([
+      { id: 'sedan', name: 'Lincoln Town Car', seats: 3, luggage: 3 },
+      { id: 'suv', name: 'Cadillac Escalade', seats: 6, luggage: 5 },
+      { id: 'van', name: 'Ford Transit', seats: 12, luggage: 10 },
+    ]);
+    expect(maxPassengers(fleet)).toBe(12);
+    expect(findVehicle(fleet, 'suv')?.name).toBe('Cadillac Escalade');
+    expect(findVehicle(fleet, 'bus')).toBeNull();
+  });
+
+  it('skips invalid and repeated vehicles', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const fleet = loadFleet({
+      VEHICLE_FLEET: 'sedan: Lincoln Town Car (3 seats, 3 bags); bus: Coach (0 seats, 40 bags); van Ford Transit; SEDAN: Other Sedan (4 seats, 2 bags)',
+    });
+
+    expect(fleet.vehicles.map(vehicle => vehicle.id)).toEqual(['sedan']);
+    expect(warn.mock.calls.map(call => call[0])).toEqual([
+      expect.stringContaining('fleet.invalid_vehicle'),
+      expect.stringContaining('fleet.invalid_vehicle'),
+      expect.stringContaining('fleet.duplicate_vehicle'),
+    ]);
+  });
+
+  it('reads the capacity policy, falling back to reject', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(loadFleet({ VEHICLE_CAPACITY_POLICY: 'Flag' }).capacityPolicy).toBe('flag');
+    expect(loadFleet({ VEHICLE_CAPACITY_POLICY: 'ignore' }).capacityPolicy).toBe('reject');
+    expect(warn.mock.calls[0][0]).toContain('fleet.invalid_policy');
+  });
+});
+
+describe('passenger capacity', () => {
+  const fleet = loadFleet({ VEHICLE_FLEET: FLEET });
+
+  it('allows up to the largest vehicle and explains the limit beyond it', () => {
+    expect(checkPassengerCapacity(12, fleet)).toBeNull();
+    expect(checkPassengerCapacity(13, fleet)).toBe('Our largest vehicle seats 12 passengers. Please contact us about larger groups.');
+  });
+
+  it('does not limit passengers without a fleet', () => {
+    expect(checkPassengerCapacity(40, loadFleet({}))).toBeNull();
+  });
+
+  it('lists the vehicles with a seat for every passenger', () => {
+    expect(vehiclesForPassengers(4, fleet).map(vehicle => vehicle.id)).toEqual(['suv', 'van']);
+    expect(vehiclesForPassengers(20, fleet)).toEqual([]);
+  });
+
+  it('describes vehicles and the fleet', () => {
+    expect(describeVehicleCapacity(fleet.vehicles[0])).toBe('3 seats · 3 bags');
+    expect(describeVehicleCapacity({ id: 'bike', name: 'Tandem', seats: 1, luggage: 1 })).toBe('1 seat · 1 bag');
+    expect(describeFleet(fleet)).toEqual({ maxPassengers: 12, capacityPolicy: 'reject', vehicles: fleet.vehicles });
+  });
+});
+
+describe('validateRequest with a fleet', () => {
+  const env: SecurityEnv = {
+    API_KEY: 'test-api-key-12345',
+    BOOKING_RATE_LIMIT: { limit: async () => ({ success: true }) },
+    VEHICLE_FLEET: FLEET,
+  };
+
+  function bookingRequest(passengers: number | string): Request {
+    return new Request('https://example.com/booking', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-API-Key': 'test-api-key-12345' },
+      body: JSON.stringify({
+        customer_name: 'John Doe',
+        customer_email: 'john@example.com',
+        start_location: '123 Main St, Atlanta, GA',
+        end_location: '456 Airport Blvd, Atlanta, GA',
+        pickup_datetime: new Date(Date.now() + 48 * 60 * 60 * 1000).toISOString(),
+        passengers,
+        estimated_distance: '25.5 km',
+        estimated_duration: '35 mins',
+      }),
+    });
+  }
+
+  it('returns a field-level error for more passengers than the largest vehicle seats', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    try {
+      await validateRequest(bookingRequest('40'), env);
+      throw new Error('Expected validation to fail');
+    } catch (error) {
+      expect(error).toBeInstanceOf(Response);
+      const body = await (error as Response).json() as { details: Array<{ field: string; message: string }> };
+      expect(body.details).toEqual([
+        { field: 'passengers', message: 'Our largest vehicle seats 12 passengers. Please contact us about larger groups.' },
+      ]);
+    }
+  });
+
+  it('lets an over-capacity request through when the policy is flag', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    const result = await validateRequest(bookingRequest(40), { ...env, VEHICLE_CAPACITY_POLICY: 'flag' });
+
+    expect(result.payload.passengers).toBe(40);
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Recurring Booking Tests
+ *
+ * Recurrence rules are a DAILY/WEEKLY subset of RRULE. Expanding a rule gives
+ * the pickup of every ride in the series, at the first pickup's wall-clock
+ * time in the business timezone.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseRecurrenceRule,
+  formatRecurrenceRule,
+  expandRecurrence,
+  describeRecurrence,
+  RecurrenceRule,
+} from '../../../src/layers/security';
+
+const TIME_ZONE = 'America/New_York';
+
+// Monday, the week before clocks go forward on 2025-03-09
+const MONDAY_8AM = Date.parse('2025-03-03T08:00:00-05:00');
+
+function rule(value: string): RecurrenceRule {
+  const result = parseRecurrenceRule(value);
+  if (!result.ok) {
+    throw new Error(`Expected a rule, got ${result.error}`);
+  }
+  return result.rule;
+}
+
+function pickups(firstPickup: number, value: string): string[] {
+  const result = expandRecurrence(firstPickup, rule(value), TIME_ZONE);
+  if (!result.ok) {
+    throw new Error(`Expected pickups, got ${result.error}`);
+  }
+  return result.pickups.map(pickup => new Date(pickup).toISOString());
+}
+
+describe('parseRecurrenceRule', () => {
+  it('reads a weekly rule with days and an end date', () => {
+    expect(rule('FREQ=WEEKLY;BYDAY=FR,MO,WE;UNTIL=20250630')).toEqual({
+      frequency: 'weekly',
+      interval: 1,
+      byDay: [1, 3, 5],
+      until: '2025-06-30',
+      count: null,
+    });
+  });
+
+  it('accepts an RRULE prefix and lowercase names', () => {
+    expect(rule('rrule:freq=daily;interval=2;count=5')).toEqual({
+      frequency: 'daily',
+      interval: 2,
+      byDay: [],
+      until: null,
+      count: 5,
+    });
+  });
+
+  it.each([
+    ['every weekday', 'Recurrence must be a rule such as FREQ=WEEKLY;BYDAY=MO,WE,FR;COUNT=12'],
+    ['FREQ=WEEKLY;COUNT=3;COUNT=4', 'Recurrence must be a rule such as FREQ=WEEKLY;BYDAY=MO,WE,FR;COUNT=12'],
+    ['FREQ=WEEKLY;BYMONTH=3;COUNT=3', 'BYMONTH is not supported in a recurrence rule'],
+    ['FREQ=MONTHLY;COUNT=3', 'FREQ must be DAILY or WEEKLY'],
+    ['FREQ=WEEKLY;INTERVAL=0;COUNT=3', 'INTERVAL must be a whole number from 1 to 52'],
+    ['FREQ=WEEKLY;BYDAY=MON;COUNT=3', 'BYDAY must list days such as MO,WE,FR'],
+    ['FREQ=WEEKLY', 'A recurrence rule needs either UNTIL or COUNT'],
+    ['FREQ=WEEKLY;UNTIL=20250630;COUNT=3', 'A recurrence rule needs either UNTIL or COUNT'],
+    ['FREQ=WEEKLY;UNTIL=2025-06-30', 'UNTIL must be a date such as 20250630'],
+    ['FREQ=WEEKLY;COUNT=61', 'COUNT must be a whole number from 2 to 60'],
+  ])('rejects %s', (value, error) => {
+    expect(parseRecurrenceRule(value)).toEqual({ ok: false, error });
+  });
+});
+
+describe('formatRecurrenceRule', () => {
+  it('writes the rule in canonical form', () => {
+    expect(formatRecurrenceRule(rule('RRULE:byday=we,mo;freq=weekly;interval=2;until=20250630T235959Z')))
+      .toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;UNTIL=20250630');
+    expect(formatRecurrenceRule(rule('FREQ=DAILY;COUNT=5'))).toBe('FREQ=DAILY;COUNT=5');
+  });
+});
+
+describe('expandRecurrence', () => {
+  it('gives every weekday until the end date, inclusive', () => {
+    const rides = pickups(MONDAY_8AM, 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR;UNTIL=20250314');
+
+    expect(rides).toHaveLength(10);
+    expect(rides[0]).toBe('2025-03-03T13:00:00.000Z');
+    expect(rides[4]).toBe('2025-03-07T13:00:00.000Z');
+    expect(rides[9]).toBe('2025-03-14T12:00:00.000Z');
+  });
+
+  it('keeps the wall-clock time across a daylight-saving change', () => {
+    expect(pickups(MONDAY_8AM, 'FREQ=WEEKLY;COUNT=2')).toEqual([
+      '2025-03-03T13:00:00.000Z',
+      '2025-03-10T12:00:00.000Z',
+    ]);
+  });
+
+  it('skips weeks by the interval, counted from the first pickup week', () => {
+    const thursday = Date.parse('2025-03-06T08:00:00-05:00');
+
+    expect(pickups(thursday, 'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH;COUNT=4').map(ride => ride.slice(0, 10))).toEqual([
+      '2025-03-06',
+      '2025-03-17',
+      '2025-03-20',
+      '2025-03-31',
+    ]);
+  });
+
+  it('skips days by the interval', () => {
+    expect(pickups(MONDAY_8AM, 'FREQ=DAILY;INTERVAL=2;COUNT=3').map(ride => ride.slice(0, 10))).toEqual([
+      '2025-03-03',
+      '2025-03-05',
+      '2025-03-07',
+    ]);
+  });
+
+  it('fails when the first pickup is not on one of the days', () => {
+    expect(expandRecurrence(MONDAY_8AM, rule('FREQ=WEEKLY;BYDAY=TU,TH;COUNT=4'), TIME_ZONE)).toEqual({
+      ok: false,
+      error: 'The first pickup must fall on one of the days in the recurrence rule',
+    });
+  });
+
+  it('fails when the series is too long or too short', () => {
+    expect(expandRecurrence(MONDAY_8AM, rule('FREQ=DAILY;UNTIL=20251231'), TIME_ZONE)).toEqual({
+      ok: false,
+      error: 'A series can have at most 60 rides',
+    });
+    expect(expandRecurrence(MONDAY_8AM, rule('FREQ=WEEKLY;UNTIL=20250309'), TIME_ZONE)).toEqual({
+      ok: false,
+      error: 'A recurrence rule must give at least two rides',
+    });
+  });
+});
+
+describe('describeRecurrence', () => {
+  it('describes the schedule in words', () => {
+    expect(describeRecurrence(rule('FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR;UNTIL=20250630'))).toBe('Weekly on weekdays, until 06/30/2025');
+    expect(describeRecurrence(rule('FREQ=WEEKLY;INTERVAL=2;BYDAY=TH,MO;COUNT=10'))).toBe('Every 2 weeks on Mon, Thu, 10 rides');
+    expect(describeRecurrence(rule('FREQ=WEEKLY;BYDAY=SU,SA;COUNT=4'))).toBe('Weekly on Sat, Sun, 4 rides');
+    expect(describeRecurrence(rule('FREQ=DAILY;COUNT=5'))).toBe('Daily, 5 rides');
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * Service Area Tests
+ *
+ * Zones are read from SERVICE_ZONES. A trip with an end in a zone is in-zone,
+ * one with both ends provably outside every zone is out-of-zone (rejected at
+ * submission or flagged for the owner), and anything else requires review.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  loadServiceArea,
+  classifyTrip,
+  checkServiceArea,
+  describeServiceArea,
+  validateRequest,
+  SecurityEnv,
+} from '../../../src/layers/security';
+
+const ZONES = 'shore: zip 08401 08402 082*; philly: city Philadelphia PA, Camden; phl: polygon 39.86,-75.28 39.89,-75.28 39.89,-75.21 39.86,-75.21';
+
+const BOARDWALK = '1000 Boardwalk, Atlantic City, NJ 08401';
+const CAPE_MAY = '123 Beach Ave, Cape May, NJ 08204';
+const PHILADELPHIA = '1 Market St, Philadelphia, PA';
+const CAMDEN = '2 Riverside Dr, Camden, NJ 08103';
+const NEW_YORK = '350 5th Ave, New York, NY 10118';
+const BALTIMORE = '1 Light St, Baltimore, MD 21202';
+const PHL_AIRPORT = { lat: 39.8744, lng: -75.2424 };
+const MIDTOWN = { lat: 40.7484, lng: -73.9857 };
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('loadServiceArea', () => {
+  it('has no zones and the reject policy by default', () => {
+    const area = loadServiceArea({});
+
+    expect(area).toEqual({ zones: [], outOfZonePolicy: 'reject' });
+    expect(classifyTrip({ address: NEW_YORK }, { address: BALTIMORE }, area)).toBeNull();
+  });
+
+  it('reads ZIP, city and polygon zones', () => {
+    expect(loadServiceArea({ SERVICE_ZONES: ZONES }).zones).toEqual([
+      { id: 'shore', kind: 'zip', zipCodes: ['08401', '08402', '082*'], cities: [], polygon: [] },
+      { id: 'philly', kind: 'city', zipCodes: [], cities: ['philadelphia pa', 'camden'], polygon: [] },
+      {
+        id: 'phl',
+        kind: 'polygon',
+        zipCodes: [],
+        cities: [],
+        polygon: [
+          { lat: 39.86, lng: -75.28 },
+          { lat: 39.89, lng: -75.28 },
+          { lat: 39.89, lng: -75.21 },
+          { lat: 39.86, lng: -75.21 },
+        ],
+      },
+    ]);
+  });
+
+  it('skips invalid and repeated zones', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const area = loadServiceArea({
+      SERVICE_ZONES: 'shore: zip 08401 8401; metro: county Camden; tiny: polygon 39.8,-75.2 39.9,-75.2; far: polygon 95,0 0,0 0,1; coast: city , ; ok: zip 08401',
+    });
+
+    expect(area.zones.map(zone => zone.id)).toEqual(['ok']);
+    expect(warn.mock.calls.map(call => call[0])).toEqual([
+      expect.stringContaining('service_area.invalid_zone'),
+      expect.stringContaining('service_area.invalid_zone'),
+      expect.stringContaining('service_area.invalid_zone'),
+      expect.stringContaining('service_area.invalid_zone'),
+      expect.stringContaining('service_area.invalid_zone'),
+    ]);
+  });
+
+  it('skips a zone whose id is already taken', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(loadServiceArea({ SERVICE_ZONES: 'shore: zip 08401; Shore: city Ocean City' }).zones).toHaveLength(1);
+    expect(warn.mock.calls[0][0]).toContain('service_area.duplicate_zone');
+  });
+
+  it('reads the out-of-zone policy, falling back to reject', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(loadServiceArea({ SERVICE_AREA_POLICY: 'Flag' }).outOfZonePolicy).toBe('flag');
+    expect(loadServiceArea({ SERVICE_AREA_POLICY: 'ignore' }).outOfZonePolicy).toBe('reject');
+    expect(warn.mock.calls[0][0]).toContain('service_area.invalid_policy');
+  });
+});
+
+describe('classifyTrip', () => {
+  const area = loadServiceArea({ SERVICE_ZONES: ZONES });
+
+  it('is in-zone when either end is in a zone', () => {
+    expect(classifyTrip({ address: BOARDWALK }, { address: NEW_YORK }, area)).toBe('in-zone');
+    expect(classifyTrip({ address: NEW_YORK }, { address: CAPE_MAY }, area)).toBe('in-zone');
+    expect(classifyTrip({ address: PHILADELPHIA }, { address: NEW_YORK }, area)).toBe('in-zone');
+    expect(classifyTrip({ address: CAMDEN }, { address: NEW_YORK }, area)).toBe('in-zone');
+    expect(classifyTrip({ address: NEW_YORK, coordinates: MIDTOWN }, { address: 'PHL Terminal A', coordinates: PHL_AIRPORT }, area)).toBe('in-zone');
+  });
+
+  it('matches a city in any state unless the zone names one', () => {
+    const philly = loadServiceArea({ SERVICE_ZONES: 'philly: city Philadelphia PA' });
+
+    expect(classifyTrip({ address: '1 Main St, Philadelphia, MS 39350' }, { address: '2 Main St, Philadelphia, MS 39350' }, philly)).toBe('out-of-zone');
+    expect(classifyTrip({ address: '1 Main St, Camden, NJ 08103' }, { address: '30th Street Station, Philadelphia, PA 19104, USA' }, philly)).toBe('in-zone');
+  });
+
+  it('is out-of-zone only when both ends could be checked against every zone', () => {
+    expect(classifyTrip({ address: NEW_YORK, coordinates: MIDTOWN }, { address: BALTIMORE, coordinates: { lat: 39.29, lng: -76.61 } }, area)).toBe('out-of-zone');
+    // Without coordinates the polygon zone cannot be ruled out
+    expect(classifyTrip({ address: NEW_YORK }, { address: BALTIMORE }, area)).toBe('requires-review');
+  });
+
+  it('requires review when an address cannot be read', () => {
+    const zipOnly = loadServiceArea({ SERVICE_ZONES: 'shore: zip 08401' });
+
+    expect(classifyTrip({ address: NEW_YORK }, { address: BALTIMORE }, zipOnly)).toBe('out-of-zone');
+    expect(classifyTrip({ address: NEW_YORK }, { address: 'Newark Airport' }, zipOnly)).toBe('requires-review');
+  });
+
+  it('rejects out-of-zone trips only under the reject policy', () => {
+    const flagged = loadServiceArea({ SERVICE_ZONES: ZONES, SERVICE_AREA_POLICY: 'flag' });
+
+    expect(checkServiceArea('out-of-zone', area)).toBe("Sorry, we don't serve this trip: the pickup and the drop-off are both outside our service area. Please contact us about rides further afield.");
+    expect(checkServiceArea('requires-review', area)).toBeNull();
+    expect(checkServiceArea('in-zone', area)).toBeNull();
+    expect(checkServiceArea(null, area)).toBeNull();
+    expect(checkServiceArea('out-of-zone', flagged)).toBeNull();
+  });
+
+  it('describes the zones', () => {
+    expect(describeServiceArea(area)).toEqual({
+      enabled: true,
+      outOfZonePolicy: 'reject',
+      zones: [
+        { id: 'shore', kind: 'zip', values: ['08401', '08402', '082*'] },
+        { id: 'philly', kind: 'city', values: ['philadelphia pa', 'camden'] },
+        { id: 'phl', kind: 'polygon', values: ['39.86,-75.28', '39.89,-75.28', '39.89,-75.21', '39.86,-75.21'] },
+      ],
+    });
+    expect(describeServiceArea(loadServiceArea({}))).toEqual({ enabled: false, outOfZonePolicy: 'reject', zones: [] });
+  });
+});
+
+describe('validateRequest with service zones', () => {
+  const env: SecurityEnv = {
+    API_KEY: 'test-api-key-12345',
+    BOOKING_RATE_LIMIT: { limit: async () => ({ success: true }) },
+    SERVICE_ZONES: 'shore: zip 08401 08402',
+  };
+
+  function bookingRequest(overrides: Record<string, unknown>): Request {
+    return new Request('https://example.com/booking', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-API-Key': 'test-api-key-12345' },
+      body: JSON.stringify({
+        customer_name: 'John Doe',
+        customer_email: 'john@example.com',
+        start_location: NEW_YORK,
+        end_location: BALTIMORE,
+        pickup_datetime: new Date(Date.now() + 48 * 60 * 60 * 1000).toISOString(),
+        passengers: 2,
+        estimated_distance: '190 miles',
+        estimated_duration: '3 hours',
+        ...overrides,
+      }),
+    });
+  }
+
+  async function validationErrors(request: Request, securityEnv: SecurityEnv = env): Promise<Array<{ field: string; message: string }>> {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    try {
+      await validateRequest(request, securityEnv);
+    } catch (error) {
+      expect(error).toBeInstanceOf(Response);
+      return ((await (error as Response).json()) as { details: Array<{ field: string; message: string }> }).details;
+    }
+    throw new Error('Expected validation to fail');
+  }
+
+  it('returns a clear error for a trip outside the service area', async () => {
+    expect(await validationErrors(bookingRequest({}))).toEqual([
+      { field: 'start_location', message: "Sorry, we don't serve this trip: the pickup and the drop-off are both outside our service area. Please contact us about rides further afield." },
+    ]);
+  });
+
+  it('checks a return leg with its own route', async () => {
+    const errors = await validationErrors(bookingRequest({
+      start_location: BOARDWALK,
+      return_pickup_datetime: new Date(Date.now() + 72 * 60 * 60 * 1000).toISOString(),
+      return_start_location: NEW_YORK,
+      return_end_location: BALTIMORE,
+    }));
+
+    expect(errors).toEqual([{ field: 'return_start_location', message: expect.stringContaining("we don't serve this trip") }]);
+  });
+
+  it('lets out-of-zone trips through when the policy is flag, and in-zone ones always', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await expect(validateRequest(bookingRequest({}), { ...env, SERVICE_AREA_POLICY: 'flag' })).resolves.toBeDefined();
+    await expect(validateRequest(bookingRequest({ end_location: BOARDWALK }), env)).resolves.toBeDefined();
+  });
+
+  it('keeps valid coordinates and rejects out-of-range ones', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    const result = await validateRequest(bookingRequest({
+      end_location: BOARDWALK,
+      start_coordinates: { lat: 40.7484, lng: -73.9857, accuracy: 12 },
+    }), env);
+
+    expect(result.payload.start_coordinates).toEqual({ lat: 40.7484, lng: -73.9857 });
+    expect(result.payload.end_coordinates).toBeUndefined();
+    expect(await validationErrors(bookingRequest({ end_location: BOARDWALK, end_coordinates: { lat: 91, lng: 0 } }))).toEqual([
+      { field: 'end_coordinates', message: 'Coordinates must be an object with lat from -90 to 90 and lng from -180 to 180' },
+    ]);
+    expect(await validationErrors(bookingRequest({ end_location: BOARDWALK, start_coordinates: '40.7,-73.9' }))).toEqual([
+      { field: 'start_coordinates', message: 'Coordinates must be an object with lat from -90 to 90 and lng from -180 to 180' },
+    ]);
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Webhook Signature Tests
+ *
+ * Tests Svix-style signature verification for Resend delivery webhooks.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { verifyWebhookSignature } from '../../../src/layers/security';
+import { signWebhook } from '../../helpers/testUtils';
+
+const SECRET = 'whsec_MfKQ9r8GKYqrTwjUPD8ILPZIo2LaLaSw';
+const SVIX_ID = 'msg_p5jXN8AQM9LWM0D4loKWxJek';
+const TIMESTAMP = 1614265330;
+const NOW = TIMESTAMP * 1000;
+const BODY = '{"test": 2432232314}';
+
+function webhookHeaders(signature: string, timestamp: number = TIMESTAMP): Headers {
+  return new Headers({
+    'svix-id': SVIX_ID,
+    'svix-timestamp': String(timestamp),
+    'svix-signature': signature,
+  });
+}
+
+describe('verifyWebhookSignature', () => {
+  it('accepts the Svix reference signature', async () => {
+    const headers = webhookHeaders('v1,g0hM9SsE+OTPJTGt/tmIKtSyZlE3uFJELVlNIOLJ1OE=');
+
+    expect(await verifyWebhookSignature(SECRET, headers, BODY, NOW)).toEqual({ valid: true, messageId: SVIX_ID });
+  });
+
+  it('accepts any matching entry when several signatures are sent', async () => {
+    const signature = await signWebhook(BODY, SVIX_ID, TIMESTAMP, SECRET);
+    const headers = webhookHeaders(`v1,b2xkLXNlY3JldC1zaWduYXR1cmU= ${signature}`);
+
+    expect((await verifyWebhookSignature(SECRET, headers, BODY, NOW)).valid).toBe(true);
+  });
+
+  it('rejects a modified body', async () => {
+    const headers = webhookHeaders(await signWebhook(BODY, SVIX_ID, TIMESTAMP, SECRET));
+
+    expect(await verifyWebhookSignature(SECRET, headers, '{"test": 1}', NOW))
+      .toEqual({ valid: false, reason: 'invalid_signature' });
+  });
+
+  it('rejects a signature made with another secret', async () => {
+    const headers = webhookHeaders(await signWebhook(BODY, SVIX_ID, TIMESTAMP, 'whsec_b3RoZXItc2VjcmV0'));
+
+    expect(await verifyWebhookSignature(SECRET, headers, BODY, NOW))
+      .toEqual({ valid: false, reason: 'invalid_signature' });
+  });
+
+  it('ignores unknown signature versions and malformed entries', async () => {
+    const valid = await signWebhook(BODY, SVIX_ID, TIMESTAMP, SECRET);
+    const headers = webhookHeaders(`v2,${valid.slice(3)} v1,not*base64 v1`);
+
+    expect(await verifyWebhookSignature(SECRET, headers, BODY, NOW))
+      .toEqual({ valid: false, reason: 'invalid_signature' });
+  });
+
+  it('rejects timestamps more than 5 minutes away', async () => {
+    const headers = webhookHeaders(await signWebhook(BODY, SVIX_ID, TIMESTAMP, SECRET));
+
+    expect(await verifyWebhookSignature(SECRET, headers, BODY, NOW + 4 * 60 * 1000)).toMatchObject({ valid: true });
+    expect(await verifyWebhookSignature(SECRET, headers, BODY, NOW + 6 * 60 * 1000))
+      .toEqual({ valid: false, reason: 'stale' });
+    expect(await verifyWebhookSignature(SECRET, headers, BODY, NOW - 6 * 60 * 1000))
+      .toEqual({ valid: false, reason: 'stale' });
+  });
+
+  it('rejects requests without the Svix headers', async () => {
+    const headers = new Headers({ 'svix-id': SVIX_ID, 'svix-timestamp': String(TIMESTAMP) });
+
+    expect(await verifyWebhookSignature(SECRET, headers, BODY, NOW))
+      .toEqual({ valid: false, reason: 'missing_headers' });
+  });
+});
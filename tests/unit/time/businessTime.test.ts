@@ -0,0 +1,157 @@
+/**
+ * Business Timezone Tests
+ *
+ * Pickup times without an offset are wall-clock times in BUSINESS_TIMEZONE:
+ * - Normalized to ISO 8601 with the zone's offset for storage
+ * - DST gaps move forward, repeated times use the first occurrence
+ * - An unknown zone falls back to America/New_York
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  DEFAULT_BUSINESS_TIMEZONE,
+  businessTimeZone,
+  formatDateTimeLocal,
+  formatUtcOffset,
+  normalizePickupDateTime,
+  parsePickupDateTime,
+  parseWallClock,
+  pickupWallClock,
+  timeZoneOffsetMinutes,
+} from '../../../src/time/businessTime';
+
+describe('businessTimeZone', () => {
+  it('uses BUSINESS_TIMEZONE when set', () => {
+    expect(businessTimeZone({ BUSINESS_TIMEZONE: 'America/Los_Angeles' })).toBe('America/Los_Angeles');
+  });
+
+  it('defaults to America/New_York', () => {
+    expect(businessTimeZone({})).toBe(DEFAULT_BUSINESS_TIMEZONE);
+    expect(businessTimeZone({ BUSINESS_TIMEZONE: '  ' })).toBe(DEFAULT_BUSINESS_TIMEZONE);
+  });
+
+  it('falls back to the default for an unknown zone', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(businessTimeZone({ BUSINESS_TIMEZONE: 'Mars/Olympus_Mons' })).toBe(DEFAULT_BUSINESS_TIMEZONE);
+    expect(warn.mock.calls[0][0]).toContain('time.invalid_business_timezone');
+
+    warn.mockRestore();
+  });
+});
+
+describe('parseWallClock', () => {
+  it('reads date-only and naive date-time values', () => {
+    expect(parseWallClock('2025-02-20')).toEqual({ year: 2025, month: 2, day: 20, hour: 0, minute: 0, second: 0 });
+    expect(parseWallClock('2025-02-20T14:30')).toMatchObject({ hour: 14, minute: 30, second: 0 });
+  });
+
+  it('returns null for values with an offset and impossible dates', () => {
+    expect(parseWallClock('2025-02-20T14:30:00Z')).toBeNull();
+    expect(parseWallClock('2025-02-20T14:30:00-05:00')).toBeNull();
+    expect(parseWallClock('2025-02-30T14:30')).toBeNull();
+    expect(parseWallClock('2025-02-20T25:00')).toBeNull();
+  });
+});
+
+describe('normalizePickupDateTime', () => {
+  it('adds the standard-time offset in winter', () => {
+    expect(normalizePickupDateTime('2025-02-20T14:30')).toBe('2025-02-20T14:30:00-05:00');
+  });
+
+  it('adds the daylight-time offset in summer', () => {
+    expect(normalizePickupDateTime('2025-07-04T09:15')).toBe('2025-07-04T09:15:00-04:00');
+  });
+
+  it('converts values with an offset into the business zone', () => {
+    expect(normalizePickupDateTime('2025-02-20T19:30:00Z')).toBe('2025-02-20T14:30:00-05:00');
+    expect(normalizePickupDateTime('2025-02-20T14:30:00-08:00')).toBe('2025-02-20T17:30:00-05:00');
+  });
+
+  it('uses the configured zone', () => {
+    expect(normalizePickupDateTime('2025-02-20T14:30', 'America/Los_Angeles')).toBe('2025-02-20T14:30:00-08:00');
+    expect(normalizePickupDateTime('2025-07-04T14:30', 'Europe/London')).toBe('2025-07-04T14:30:00+01:00');
+  });
+
+  it('keeps a normalized value unchanged', () => {
+    expect(normalizePickupDateTime('2025-02-20T14:30:00-05:00')).toBe('2025-02-20T14:30:00-05:00');
+  });
+
+  it('returns null for values that are not dates', () => {
+    expect(normalizePickupDateTime('next Tuesday')).toBeNull();
+    expect(normalizePickupDateTime('Feb 20 2025 2:30 PM')).toBeNull();
+    expect(normalizePickupDateTime('')).toBeNull();
+  });
+});
+
+describe('daylight saving transitions', () => {
+  it('moves a time in the spring-forward gap ahead by the gap', () => {
+    // 2:00 → 3:00 on 9 March 2025 in New York; 2:30 does not exist
+    expect(normalizePickupDateTime('2025-03-09T02:30')).toBe('2025-03-09T03:30:00-04:00');
+  });
+
+  it('keeps times either side of the spring-forward gap', () => {
+    expect(normalizePickupDateTime('2025-03-09T01:59')).toBe('2025-03-09T01:59:00-05:00');
+    expect(normalizePickupDateTime('2025-03-09T03:00')).toBe('2025-03-09T03:00:00-04:00');
+  });
+
+  it('uses the first occurrence of a time repeated at fall-back', () => {
+    // 2:00 → 1:00 on 2 November 2025 in New York; 1:30 happens twice
+    expect(normalizePickupDateTime('2025-11-02T01:30')).toBe('2025-11-02T01:30:00-04:00');
+    expect(parsePickupDateTime('2025-11-02T01:30')).toBe(Date.parse('2025-11-02T05:30:00Z'));
+  });
+
+  it('keeps times either side of the fall-back overlap', () => {
+    expect(normalizePickupDateTime('2025-11-02T00:30')).toBe('2025-11-02T00:30:00-04:00');
+    expect(normalizePickupDateTime('2025-11-02T02:30')).toBe('2025-11-02T02:30:00-05:00');
+  });
+
+  it('counts a day across a transition as 23 or 25 hours', () => {
+    const HOUR = 60 * 60 * 1000;
+    const spring = parsePickupDateTime('2025-03-09T12:00')! - parsePickupDateTime('2025-03-08T12:00')!;
+    const fall = parsePickupDateTime('2025-11-02T12:00')! - parsePickupDateTime('2025-11-01T12:00')!;
+
+    expect(spring).toBe(23 * HOUR);
+    expect(fall).toBe(25 * HOUR);
+  });
+
+  it('follows the transition dates of the configured zone', () => {
+    // Europe moves on the last Sunday of March, two weeks after the US
+    expect(normalizePickupDateTime('2025-03-20T12:00', 'Europe/London')).toBe('2025-03-20T12:00:00+00:00');
+    expect(normalizePickupDateTime('2025-03-30T01:30', 'Europe/London')).toBe('2025-03-30T02:30:00+01:00');
+  });
+});
+
+describe('pickupWallClock', () => {
+  it('keeps a naive value as written', () => {
+    expect(pickupWallClock('2025-03-09T02:30')).toMatchObject({ day: 9, hour: 2, minute: 30 });
+  });
+
+  it('converts an instant to the business zone', () => {
+    expect(pickupWallClock('2025-01-15T19:00:00Z')).toMatchObject({ day: 15, hour: 14, minute: 0 });
+    expect(pickupWallClock('2025-01-15T03:00:00Z')).toMatchObject({ day: 14, hour: 22 });
+    expect(pickupWallClock('2025-01-15T19:00:00Z', 'America/Los_Angeles')).toMatchObject({ hour: 11 });
+  });
+});
+
+describe('formatDateTimeLocal', () => {
+  it('formats an instant as a datetime-local value in the zone', () => {
+    expect(formatDateTimeLocal(Date.parse('2025-07-04T18:30:00Z'))).toBe('2025-07-04T14:30');
+    expect(formatDateTimeLocal(Date.parse('2025-01-01T02:00:00Z'))).toBe('2024-12-31T21:00');
+    expect(formatDateTimeLocal(Date.parse('2025-07-04T18:30:00Z'), 'Asia/Kolkata')).toBe('2025-07-05T00:00');
+  });
+});
+
+describe('timeZoneOffsetMinutes', () => {
+  it('returns minutes east of UTC', () => {
+    expect(timeZoneOffsetMinutes(Date.parse('2025-01-15T12:00:00Z'), 'America/New_York')).toBe(-300);
+    expect(timeZoneOffsetMinutes(Date.parse('2025-07-15T12:00:00Z'), 'America/New_York')).toBe(-240);
+    expect(timeZoneOffsetMinutes(Date.parse('2025-07-15T12:00:00Z'), 'Asia/Kolkata')).toBe(330);
+  });
+
+  it('formats offsets for ISO 8601', () => {
+    expect(formatUtcOffset(-300)).toBe('-05:00');
+    expect(formatUtcOffset(330)).toBe('+05:30');
+    expect(formatUtcOffset(0)).toBe('+00:00');
+  });
+});